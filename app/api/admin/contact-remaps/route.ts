@@ -0,0 +1,76 @@
+/**
+ * Contact Remaps API Endpoint
+ *
+ * GET /api/admin/contact-remaps
+ * Rows moved from HubSpot contacts that were merged away to the winning
+ * contact, newest first.
+ *
+ * Query Parameters:
+ * - unreviewed: 'true' to only return remaps nobody has reviewed yet
+ * - contactId: Remaps where the contact lost or won
+ * - limit: Number of remaps to return (default: 100, max 500)
+ *
+ * POST /api/admin/contact-remaps
+ * Mark remaps reviewed: { "ids": ["..."] }
+ *
+ * AUTHORIZATION: Requires authenticated session (checked by middleware)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { listContactRemaps, markRemapsReviewed } from '@/lib/sync/contact-tombstones';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.max(1, Math.min(500, parseInt(searchParams.get('limit') || '100', 10) || 100));
+
+    const supabase = await createClient();
+    const remaps = await listContactRemaps(supabase, {
+      unreviewedOnly: searchParams.get('unreviewed') === 'true',
+      contactId: searchParams.get('contactId') || undefined,
+      limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      remaps,
+      count: remaps.length,
+      conflicts: remaps.filter((r) => r.rows_conflicting > 0).length,
+    });
+  } catch (error: any) {
+    console.error('[API /api/admin/contact-remaps] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch contact remaps' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const ids = Array.isArray(body.ids) ? body.ids.filter((id: unknown) => typeof id === 'string') : [];
+
+    if (ids.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'ids must be a non-empty array of remap ids' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    const reviewed = await markRemapsReviewed(supabase, ids, user?.email ?? null);
+
+    console.log(`[API /api/admin/contact-remaps] ${user?.email ?? 'unknown'} reviewed ${reviewed} remap(s)`);
+
+    return NextResponse.json({ success: true, reviewed });
+  } catch (error: any) {
+    console.error('[API /api/admin/contact-remaps] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to mark remaps reviewed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * HubSpot Property Options API Endpoint
+ *
+ * GET /api/admin/hubspot-properties
+ * Cached option labels for HubSpot enumeration properties (lifecycle stage,
+ * lead status, ...), by property and display order.
+ *
+ * Query Parameters:
+ * - property: Only return options for this property (e.g. lifecyclestage)
+ *
+ * POST /api/admin/hubspot-properties
+ * Refresh the options from the HubSpot properties API now instead of waiting
+ * for the next contact sync. Contacts holding a renamed or newly seen
+ * lifecycle stage are relabeled.
+ *
+ * AUTHORIZATION: Requires authenticated session (checked by middleware)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { listPropertyOptions, refreshPropertyOptions } from '@/lib/sync/property-labels';
+
+function serviceClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !supabaseKey) return null;
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = serviceClient();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Supabase configuration missing' },
+        { status: 500 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const options = await listPropertyOptions(supabase, searchParams.get('property') || undefined);
+
+    return NextResponse.json({
+      success: true,
+      options,
+      count: options.length,
+      properties: Array.from(new Set(options.map((o) => o.property_name))),
+    });
+  } catch (error: any) {
+    console.error('[API /api/admin/hubspot-properties] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch property options' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST() {
+  try {
+    const supabase = serviceClient();
+    const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
+    if (!supabase || !accessToken) {
+      return NextResponse.json(
+        { success: false, error: 'Supabase or HubSpot configuration missing' },
+        { status: 500 }
+      );
+    }
+
+    const result = await refreshPropertyOptions(supabase, accessToken);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('[API /api/admin/hubspot-properties] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to refresh property options' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Product Packages API Endpoint
+ *
+ * GET /api/admin/product-packages
+ * Every HubSpot product seen on synced deal line items, with the package it
+ * counts as (discover, boost, dominate or null), most used first.
+ *
+ * POST /api/admin/product-packages
+ * Assign a product to a package, or clear it:
+ * {
+ *   "hubspot_product_id": "1234567",
+ *   "package": "boost"               // discover|boost|dominate|null
+ * }
+ *
+ * A contact's package is the highest one among the products on their
+ * closed-won deals (lib/onboarding/packages.ts), so changes apply at once.
+ *
+ * AUTHORIZATION: Requires authenticated session (checked by middleware)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  PRODUCT_PACKAGES,
+  isProductPackage,
+  listProductPackages,
+  setProductPackage,
+} from '@/lib/onboarding/packages';
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const products = await listProductPackages(supabase);
+
+    return NextResponse.json({
+      success: true,
+      products,
+      count: products.length,
+      assigned: products.filter((p) => p.package).length,
+      packages: PRODUCT_PACKAGES,
+    });
+  } catch (error: any) {
+    console.error('[API /api/admin/product-packages] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch product packages' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const productId = body && typeof body.hubspot_product_id === 'string'
+      ? body.hubspot_product_id.trim()
+      : '';
+
+    if (!productId) {
+      return NextResponse.json(
+        { success: false, error: 'hubspot_product_id is required' },
+        { status: 400 }
+      );
+    }
+    if (body.package !== null && !isProductPackage(body.package)) {
+      return NextResponse.json(
+        { success: false, error: `package must be one of ${PRODUCT_PACKAGES.join(', ')}, or null` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    await setProductPackage(supabase, productId, body.package, user?.email ?? null);
+
+    console.log(
+      `[API /api/admin/product-packages] ${user?.email ?? 'unknown'} set product ${productId} ` +
+      `to ${body.package ?? '(none)'}`
+    );
+
+    return NextResponse.json({ success: true, hubspot_product_id: productId, package: body.package });
+  } catch (error: any) {
+    console.error('[API /api/admin/product-packages] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to save product package' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * HubSpot Property Mappings API Endpoint
+ *
+ * GET /api/admin/property-mappings
+ * Every mapping (enabled or not) from HubSpot contact properties to contacts
+ * columns, as read by the all-contacts and customer syncs.
+ *
+ * POST /api/admin/property-mappings
+ * Create a mapping, or update one when the body has an id:
+ * {
+ *   "id": "...",                     // optional
+ *   "hubspot_property": "business_type",
+ *   "target_column": "business_type",
+ *   "json_path": null,               // key inside a JSONB column
+ *   "coercion": "string",            // string|integer|number|boolean|timestamp|label
+ *   "conflict_winner": "hubspot",    // hubspot|supabase
+ *   "sync_scopes": ["customer"],     // all_contacts|customer
+ *   "enabled": true
+ * }
+ *
+ * DELETE /api/admin/property-mappings?id=...
+ *
+ * Changes apply from the next sync run.
+ *
+ * AUTHORIZATION: Requires authenticated session (checked by middleware)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  deletePropertyMapping,
+  listPropertyMappings,
+  savePropertyMapping,
+  validatePropertyMapping,
+  type PropertyMappingInput,
+} from '@/lib/sync/property-mappings';
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const mappings = await listPropertyMappings(supabase);
+
+    return NextResponse.json({
+      success: true,
+      mappings,
+      count: mappings.length,
+      enabled: mappings.filter((m) => m.enabled).length,
+    });
+  } catch (error: any) {
+    console.error('[API /api/admin/property-mappings] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch property mappings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Request body must be a property mapping' },
+        { status: 400 }
+      );
+    }
+
+    const input: PropertyMappingInput = {
+      id: typeof body.id === 'string' ? body.id : undefined,
+      hubspot_property: String(body.hubspot_property || '').trim(),
+      target_column: String(body.target_column || '').trim(),
+      json_path: body.json_path ? String(body.json_path).trim() : null,
+      coercion: body.coercion,
+      conflict_winner: body.conflict_winner,
+      sync_scopes: Array.isArray(body.sync_scopes) ? body.sync_scopes : undefined,
+      enabled: typeof body.enabled === 'boolean' ? body.enabled : undefined,
+      notes: typeof body.notes === 'string' ? body.notes : null,
+    };
+
+    const supabase = await createClient();
+    const invalid = await validatePropertyMapping(supabase, input);
+    if (invalid) {
+      return NextResponse.json({ success: false, error: invalid }, { status: 400 });
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const mapping = await savePropertyMapping(supabase, input, user?.email ?? null);
+
+    console.log(
+      `[API /api/admin/property-mappings] ${user?.email ?? 'unknown'} ${input.id ? 'updated' : 'created'} ` +
+      `${mapping.hubspot_property} -> ${mapping.target_column}${mapping.json_path ? `.${mapping.json_path}` : ''}`
+    );
+
+    return NextResponse.json({ success: true, mapping });
+  } catch (error: any) {
+    console.error('[API /api/admin/property-mappings] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to save property mapping' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'id is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    await deletePropertyMapping(supabase, id);
+
+    console.log(`[API /api/admin/property-mappings] ${user?.email ?? 'unknown'} deleted mapping ${id}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('[API /api/admin/property-mappings] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to delete property mapping' },
+      { status: 500 }
+    );
+  }
+}
@@ -28,6 +28,8 @@ const JOB_TYPE_LABELS: Record<string, string> = {
   hubspot_contacts_sync: 'HubSpot Contacts (Full)',
   hubspot_contacts_incremental: 'HubSpot Contacts (Incremental)',
   hubspot_contacts_insert: 'HubSpot Contacts (Insert Only)',
+  hubspot_deals_sync: 'HubSpot Deals & Companies (Full)',
+  hubspot_deals_incremental: 'HubSpot Deals & Companies (Incremental)',
 };
 
 // Sync schedules for display (must match vercel.json crons)
@@ -36,12 +38,15 @@ const SYNC_SCHEDULES: Record<string, string> = {
   hubspot_contacts_incremental: 'Hourly (0 * * * *)',
   hubspot_contacts_sync: 'Manual or Daily',
   hubspot_contacts_insert: 'Manual only',
+  // HubSpot Deals & Companies
+  hubspot_deals_incremental: 'Hourly at :45 (45 * * * *)',
+  hubspot_deals_sync: 'Manual only',
   // GBP syncs
   gbp_reviews: 'Daily at 6:00 AM UTC (0 6 * * *)',
   gbp_analytics: 'Weekly Sunday 7:00 AM UTC (0 7 * * 0)',
   gbp_posts: 'Weekly Sunday 9:00 AM UTC (0 9 * * 0)',
   gbp_media: 'Weekly Sunday 10:00 AM UTC (0 10 * * 0)',
-  gbp_locations: 'Weekly Sunday 11:00 AM UTC (0 11 * * 0)',
+  gbp_locations: 'Weekly Sunday 5:00 AM UTC (0 5 * * 0)',
 };
 
 interface SyncJobSummary {
@@ -0,0 +1,62 @@
+/**
+ * GBP Analytics History API Route
+ *
+ * GET /api/gbp/analytics/history?locationId=...&weeks=26
+ * Weekly impressions, calls, direction requests and website clicks from
+ * stored daily metrics, week-over-week and year-over-year deltas for the
+ * latest complete week, and keyword movers between the two latest keyword
+ * snapshots. Reads Supabase only (see /api/gbp/analytics for live data).
+ *
+ * AUTHORIZATION: Requires authenticated session (middleware, checked again here)
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { apiSuccess, apiError } from '@/app/types/api';
+import { createClient } from '@/lib/supabase/server';
+import { DEFAULT_HISTORY_WEEKS, MAX_HISTORY_WEEKS, getAnalyticsHistory } from '@/lib/gbp/analytics-history';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const locationId = searchParams.get('locationId');
+
+  if (!locationId) {
+    return NextResponse.json(
+      apiError('Missing "locationId" query parameter', 'BAD_REQUEST'),
+      { status: 400 }
+    );
+  }
+
+  const weeks = Number(searchParams.get('weeks') ?? DEFAULT_HISTORY_WEEKS);
+  if (!Number.isInteger(weeks) || weeks < 2 || weeks > MAX_HISTORY_WEEKS) {
+    return NextResponse.json(
+      apiError(`"weeks" must be an integer from 2 to ${MAX_HISTORY_WEEKS}`, 'VALIDATION_ERROR'),
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        apiError('Authentication required', 'UNAUTHORIZED'),
+        { status: 401 }
+      );
+    }
+
+    const history = await getAnalyticsHistory(supabase, locationId, weeks);
+
+    return NextResponse.json(apiSuccess(history, { weeks }));
+  } catch (error: unknown) {
+    console.error('[GBP Analytics History] Error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      apiError(`Failed to fetch analytics history: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Scheduled GBP Post Retry API Route
+ *
+ * POST /api/gbp/scheduled-posts/[postId]/retry
+ * Put a failed post back on the schedule. It publishes on the next cron run
+ * (or at its original time if that is still ahead).
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { apiSuccess, apiError } from '@/app/types/api';
+import { createClient } from '@/lib/supabase/server';
+import { getScheduledPost, retryScheduledPost } from '@/lib/gbp/post-scheduler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  const { postId } = await params;
+
+  try {
+    const supabase = await createClient();
+    const post = await getScheduledPost(supabase, postId);
+
+    if (!post) {
+      return NextResponse.json(
+        apiError('Scheduled post not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const retried = post.status === 'failed' ? await retryScheduledPost(supabase, post) : null;
+    if (!retried) {
+      return NextResponse.json(
+        apiError(`Only failed posts can be retried (post is ${post.status})`, 'INVALID_STATE'),
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(apiSuccess(retried));
+  } catch (error: unknown) {
+    console.error('[GBP Post Scheduler] Retry error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      apiError(`Failed to retry scheduled post: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
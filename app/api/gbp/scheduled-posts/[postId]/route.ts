@@ -0,0 +1,129 @@
+/**
+ * Scheduled GBP Post API Route
+ *
+ * PATCH /api/gbp/scheduled-posts/[postId]
+ * Edit a post that has not been published (same fields as POST except
+ * account_id and location_id). Editing a failed post reschedules it.
+ *
+ * DELETE /api/gbp/scheduled-posts/[postId]?series=true
+ * Delete the post, or with series=true every unpublished occurrence of its
+ * recurring series. Published posts stay on Google and in the history.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { apiSuccess, apiError } from '@/app/types/api';
+import { createClient } from '@/lib/supabase/server';
+import {
+  deleteScheduledPost,
+  getScheduledPost,
+  parseScheduledPostInput,
+  updateScheduledPost,
+} from '@/lib/gbp/post-scheduler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const EDITABLE_STATUSES = ['scheduled', 'failed'];
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  const { postId } = await params;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = await createClient();
+    const post = await getScheduledPost(supabase, postId);
+
+    if (!post) {
+      return NextResponse.json(
+        apiError('Scheduled post not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    if (!EDITABLE_STATUSES.includes(post.status)) {
+      return NextResponse.json(
+        apiError(`Cannot edit a ${post.status} post`, 'INVALID_STATE'),
+        { status: 409 }
+      );
+    }
+
+    // Validate the post as it will be stored, so cross-field rules still hold
+    const parsed = parseScheduledPostInput(
+      { ...post, ...body, account_id: post.account_id, location_id: post.location_id },
+      { requireFuture: 'scheduled_for' in body }
+    );
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        apiError(parsed.error, 'VALIDATION_ERROR', { field: parsed.field }),
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateScheduledPost(supabase, post, parsed.value);
+    if (!updated) {
+      return NextResponse.json(
+        apiError('Post is being published and can no longer be edited', 'INVALID_STATE'),
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(apiSuccess(updated));
+  } catch (error: unknown) {
+    console.error('[GBP Post Scheduler] Update error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      apiError(`Failed to update scheduled post: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  const { postId } = await params;
+  const series = request.nextUrl.searchParams.get('series') === 'true';
+
+  try {
+    const supabase = await createClient();
+    const post = await getScheduledPost(supabase, postId);
+
+    if (!post) {
+      return NextResponse.json(
+        apiError('Scheduled post not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    if (!series && !EDITABLE_STATUSES.includes(post.status)) {
+      return NextResponse.json(
+        apiError(`Cannot delete a ${post.status} post`, 'INVALID_STATE'),
+        { status: 409 }
+      );
+    }
+
+    const deleted = await deleteScheduledPost(supabase, post, { series });
+
+    return NextResponse.json(apiSuccess({ id: post.id, series_id: post.series_id, deleted }));
+  } catch (error: unknown) {
+    console.error('[GBP Post Scheduler] Delete error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      apiError(`Failed to delete scheduled post: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
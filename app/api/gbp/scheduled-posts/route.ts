@@ -0,0 +1,127 @@
+/**
+ * Scheduled GBP Posts API Route
+ *
+ * GET /api/gbp/scheduled-posts?location_id=...&from=...&to=...
+ * Scheduled, published and failed posts for a location between from and to
+ * (ISO dates, default this month), plus projected occurrences of recurring
+ * posts that are not stored yet.
+ *
+ * POST /api/gbp/scheduled-posts
+ * Schedule a post. Body: { account_id, location_id, topic_type?, summary,
+ * media?, call_to_action?, event?, offer?, scheduled_for, recurrence?,
+ * recurrence_until? }
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { apiSuccess, apiError } from '@/app/types/api';
+import { createClient } from '@/lib/supabase/server';
+import { getEventActor } from '@/lib/onboarding/events';
+import {
+  createScheduledPost,
+  listPendingSeries,
+  listScheduledPosts,
+  parseScheduledPostInput,
+  projectUpcomingPosts,
+} from '@/lib/gbp/post-scheduler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Longest range one request may cover */
+const MAX_RANGE_DAYS = 93;
+
+function parseDate(value: string | null, fallback: Date): Date | null {
+  if (!value) return fallback;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const locationId = searchParams.get('location_id');
+
+  if (!locationId) {
+    return NextResponse.json(
+      apiError('Missing "location_id" query parameter', 'BAD_REQUEST'),
+      { status: 400 }
+    );
+  }
+
+  const now = new Date();
+  const from = parseDate(searchParams.get('from'), new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)));
+  const to = parseDate(searchParams.get('to'), new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)));
+
+  if (!from || !to || to <= from) {
+    return NextResponse.json(
+      apiError('"from" and "to" must be ISO dates with from before to', 'VALIDATION_ERROR'),
+      { status: 400 }
+    );
+  }
+
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60_000) {
+    return NextResponse.json(
+      apiError(`Range must be at most ${MAX_RANGE_DAYS} days`, 'VALIDATION_ERROR'),
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = await createClient();
+    const [posts, pending] = await Promise.all([
+      listScheduledPosts(supabase, locationId, { from, to }),
+      listPendingSeries(supabase, locationId),
+    ]);
+
+    const upcoming = projectUpcomingPosts(pending, to).filter(
+      (occurrence) => Date.parse(occurrence.scheduled_for) >= from.getTime()
+    );
+
+    return NextResponse.json(
+      apiSuccess({ posts, upcoming }, { from: from.toISOString(), to: to.toISOString() })
+    );
+  } catch (error: unknown) {
+    console.error('[GBP Post Scheduler] List error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      apiError(`Failed to fetch scheduled posts: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseScheduledPostInput(body, { requireFuture: true });
+  if (parsed.error !== undefined) {
+    return NextResponse.json(
+      apiError(parsed.error, 'VALIDATION_ERROR', { field: parsed.field }),
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = await createClient();
+    const actor = await getEventActor(supabase);
+    const post = await createScheduledPost(supabase, parsed.value, actor);
+
+    console.log(`[GBP Post Scheduler] ${actor.email ?? 'unknown'} scheduled ${post.id} for ${post.scheduled_for}`);
+
+    return NextResponse.json(apiSuccess(post), { status: 201 });
+  } catch (error: unknown) {
+    console.error('[GBP Post Scheduler] Create error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      apiError(`Failed to schedule post: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -21,6 +21,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { stateName } from '@/lib/normalize';
+import {
+  loadPropertyLabels,
+  propertyLabelList,
+  resolvePropertyLabel,
+} from '@/lib/sync/property-labels';
 
 // Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -40,35 +46,6 @@ const COMPLETENESS_FIELDS = [
   'zip',
 ];
 
-// State abbreviation to full name mapping
-const STATE_NORMALIZATION: Record<string, string> = {
-  'AL': 'Alabama', 'AK': 'Alaska', 'AZ': 'Arizona', 'AR': 'Arkansas',
-  'CA': 'California', 'CO': 'Colorado', 'CT': 'Connecticut', 'DE': 'Delaware',
-  'FL': 'Florida', 'GA': 'Georgia', 'HI': 'Hawaii', 'ID': 'Idaho',
-  'IL': 'Illinois', 'IN': 'Indiana', 'IA': 'Iowa', 'KS': 'Kansas',
-  'KY': 'Kentucky', 'LA': 'Louisiana', 'ME': 'Maine', 'MD': 'Maryland',
-  'MA': 'Massachusetts', 'MI': 'Michigan', 'MN': 'Minnesota', 'MS': 'Mississippi',
-  'MO': 'Missouri', 'MT': 'Montana', 'NE': 'Nebraska', 'NV': 'Nevada',
-  'NH': 'New Hampshire', 'NJ': 'New Jersey', 'NM': 'New Mexico', 'NY': 'New York',
-  'NC': 'North Carolina', 'ND': 'North Dakota', 'OH': 'Ohio', 'OK': 'Oklahoma',
-  'OR': 'Oregon', 'PA': 'Pennsylvania', 'RI': 'Rhode Island', 'SC': 'South Carolina',
-  'SD': 'South Dakota', 'TN': 'Tennessee', 'TX': 'Texas', 'UT': 'Utah',
-  'VT': 'Vermont', 'VA': 'Virginia', 'WA': 'Washington', 'WV': 'West Virginia',
-  'WI': 'Wisconsin', 'WY': 'Wyoming', 'DC': 'District of Columbia',
-};
-
-// Valid lifecycle stages (title case - matches sync service translation)
-// The sync service stores 'Lead', 'Customer', 'HOT', 'DNC', etc.
-const VALID_LIFECYCLE_STAGES = ['Lead', 'Customer', 'Opportunity', 'Subscriber', 'Marketing Qualified Lead', 'Sales Qualified Lead', 'Evangelist', 'Other', 'HOT', 'DNC', 'Active', 'No Show', 'Reengage', 'VC'];
-
-// Map UI filter values (lowercase) to database values (title case)
-// The sync service stores translated labels like 'Lead', 'Customer', not 'lead', 'customer'
-const FILTER_TO_DB_VALUE: Record<string, string> = {
-  'lead': 'Lead',
-  'customer': 'Customer',
-  'opportunity': 'Opportunity',
-};
-
 interface SupabaseContact {
   id: string;
   hubspot_contact_id: string;
@@ -98,10 +75,9 @@ interface SupabaseContact {
  */
 function normalizeState(state: string | null): string {
   if (!state) return 'Unknown';
-  const trimmed = state.trim().toUpperCase();
-  if (STATE_NORMALIZATION[trimmed]) {
-    return STATE_NORMALIZATION[trimmed];
-  }
+  const fullName = stateName(state);
+  if (fullName) return fullName;
+  // Not a US state (title case it)
   const titleCase = state.trim().split(' ')
     .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
     .join(' ');
@@ -110,13 +86,15 @@ function normalizeState(state: string | null): string {
 
 /**
  * Normalize lifecycle stage (validate against known stages)
- * Preserves the original case since DB stores title case
+ * Preserves the original case since DB stores the HubSpot label
+ *
+ * @param validStages - Lifecycle stage labels from the HubSpot property options cache
  */
-function normalizeLifecycleStage(stage: string | null): string {
+function normalizeLifecycleStage(stage: string | null, validStages: string[]): string {
   if (!stage) return 'Other';
   const trimmed = stage.trim();
-  // Check if it's a valid stage (case-sensitive, DB stores title case)
-  if (VALID_LIFECYCLE_STAGES.includes(trimmed)) {
+  // Check if it's a valid stage (case-sensitive, DB stores labels)
+  if (validStages.includes(trimmed)) {
     return trimmed;
   }
   // If not found, return as-is but default to 'Other' for unknown
@@ -225,6 +203,15 @@ export async function GET(request: NextRequest) {
     const userId = authData.user.id;
     console.log(`[Analytics Cached] Authenticated as: ${authData.user.email}`);
 
+    // Lifecycle labels from the HubSpot property options cache
+    // The sync stores labels ('Lead', 'Customer', 'HOT', ...), so UI filter values
+    // (HubSpot internal values like 'lead') are resolved to labels before querying
+    const labels = await loadPropertyLabels(supabase);
+    const validStages = propertyLabelList(labels, 'lifecyclestage');
+    const leadLabel = resolvePropertyLabel(labels, 'lifecyclestage', 'lead') || 'Lead';
+    const customerLabel = resolvePropertyLabel(labels, 'lifecyclestage', 'customer') || 'Customer';
+    const opportunityLabel = resolvePropertyLabel(labels, 'lifecyclestage', 'opportunity') || 'Opportunity';
+
     // === OPTIMIZATION: Apply lifecycle filter at DATABASE level ===
     // This reduces data transfer significantly (e.g., 133K → ~1K for customers)
 
@@ -239,13 +226,13 @@ export async function GET(request: NextRequest) {
     if (countError || !lifecycleCounts) {
       console.log('[Analytics Cached] RPC not available, using fallback count queries...');
       // Fallback: Use individual count queries (still faster than fetching all data)
-      // Use title case values to match what's stored in DB (from sync translation)
+      // Use labels to match what's stored in DB (from sync translation)
       // Include user_id filter to satisfy RLS policy
       const [leadsResult, customersResult, opportunitiesResult, totalResult] = await Promise.all([
-        supabase.from('contacts').select('*', { count: 'exact', head: true }).eq('user_id', userId).eq('lifecyclestage', 'Lead'),
-        supabase.from('contacts').select('*', { count: 'exact', head: true }).eq('user_id', userId).eq('lifecyclestage', 'Customer'),
-        supabase.from('contacts').select('*', { count: 'exact', head: true }).eq('user_id', userId).eq('lifecyclestage', 'Opportunity'),
-        supabase.from('contacts').select('*', { count: 'exact', head: true }).eq('user_id', userId),
+        supabase.from('contacts').select('*', { count: 'exact', head: true }).eq('user_id', userId).is('hubspot_archived_at', null).eq('lifecyclestage', leadLabel),
+        supabase.from('contacts').select('*', { count: 'exact', head: true }).eq('user_id', userId).is('hubspot_archived_at', null).eq('lifecyclestage', customerLabel),
+        supabase.from('contacts').select('*', { count: 'exact', head: true }).eq('user_id', userId).is('hubspot_archived_at', null).eq('lifecyclestage', opportunityLabel),
+        supabase.from('contacts').select('*', { count: 'exact', head: true }).eq('user_id', userId).is('hubspot_archived_at', null),
       ]);
 
       leads = leadsResult.count || 0;
@@ -257,9 +244,9 @@ export async function GET(request: NextRequest) {
     } else {
       // Use RPC results
       for (const row of lifecycleCounts) {
-        if (row.lifecyclestage === 'lead') leads = row.count;
-        else if (row.lifecyclestage === 'customer') customers = row.count;
-        else if (row.lifecyclestage === 'opportunity') opportunities = row.count;
+        if (row.lifecyclestage === leadLabel) leads = row.count;
+        else if (row.lifecyclestage === customerLabel) customers = row.count;
+        else if (row.lifecyclestage === opportunityLabel) opportunities = row.count;
         else other += row.count;
       }
     }
@@ -281,12 +268,13 @@ export async function GET(request: NextRequest) {
       let query = supabase
         .from('contacts')
         .select('*')
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .is('hubspot_archived_at', null); // Skip contacts deleted or merged in HubSpot
 
       // Apply lifecycle filter at DATABASE level (not in-memory)
-      // Convert lowercase UI values to title case DB values
+      // Convert UI values (HubSpot internal values) to the labels stored in the DB
       if (lifecycleFilter !== 'all') {
-        const dbValue = FILTER_TO_DB_VALUE[lifecycleFilter] || lifecycleFilter;
+        const dbValue = resolvePropertyLabel(labels, 'lifecyclestage', lifecycleFilter) || lifecycleFilter;
         if (from === 0) {
           console.log(`[Analytics Cached] Applying database filter: lifecyclestage = '${dbValue}' (UI: '${lifecycleFilter}')`);
         }
@@ -337,7 +325,7 @@ export async function GET(request: NextRequest) {
     // Normalize lifecycle stages for the fetched contacts
     const contactsWithNormalizedLifecycle = contacts.map((c: SupabaseContact) => ({
       ...c,
-      normalizedLifecycle: normalizeLifecycleStage(c.lifecyclestage),
+      normalizedLifecycle: normalizeLifecycleStage(c.lifecyclestage, validStages),
     }));
 
     // filteredContacts is now the database-filtered result (no in-memory filtering needed)
@@ -17,6 +17,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getHubSpotClient } from '@/lib/hubspot-client';
+import { stateName } from '@/lib/normalize';
 
 // Properties to fetch for analytics (only populated fields based on testing)
 const CONTACT_PROPERTIES = [
@@ -54,23 +55,6 @@ const COMPLETENESS_FIELDS = [
   'zip',
 ];
 
-// State abbreviation to full name mapping
-const STATE_NORMALIZATION: Record<string, string> = {
-  'AL': 'Alabama', 'AK': 'Alaska', 'AZ': 'Arizona', 'AR': 'Arkansas',
-  'CA': 'California', 'CO': 'Colorado', 'CT': 'Connecticut', 'DE': 'Delaware',
-  'FL': 'Florida', 'GA': 'Georgia', 'HI': 'Hawaii', 'ID': 'Idaho',
-  'IL': 'Illinois', 'IN': 'Indiana', 'IA': 'Iowa', 'KS': 'Kansas',
-  'KY': 'Kentucky', 'LA': 'Louisiana', 'ME': 'Maine', 'MD': 'Maryland',
-  'MA': 'Massachusetts', 'MI': 'Michigan', 'MN': 'Minnesota', 'MS': 'Mississippi',
-  'MO': 'Missouri', 'MT': 'Montana', 'NE': 'Nebraska', 'NV': 'Nevada',
-  'NH': 'New Hampshire', 'NJ': 'New Jersey', 'NM': 'New Mexico', 'NY': 'New York',
-  'NC': 'North Carolina', 'ND': 'North Dakota', 'OH': 'Ohio', 'OK': 'Oklahoma',
-  'OR': 'Oregon', 'PA': 'Pennsylvania', 'RI': 'Rhode Island', 'SC': 'South Carolina',
-  'SD': 'South Dakota', 'TN': 'Tennessee', 'TX': 'Texas', 'UT': 'Utah',
-  'VT': 'Vermont', 'VA': 'Virginia', 'WA': 'Washington', 'WV': 'West Virginia',
-  'WI': 'Wisconsin', 'WY': 'Wyoming', 'DC': 'District of Columbia',
-};
-
 // Valid lifecycle stages (filter out corrupted numeric values)
 const VALID_LIFECYCLE_STAGES = ['lead', 'customer', 'opportunity', 'subscriber', 'marketingqualifiedlead', 'salesqualifiedlead', 'evangelist', 'other'];
 
@@ -86,12 +70,9 @@ interface ContactData {
  */
 function normalizeState(state: string | null): string {
   if (!state) return 'Unknown';
-  const trimmed = state.trim().toUpperCase();
-  // Check if it's an abbreviation
-  if (STATE_NORMALIZATION[trimmed]) {
-    return STATE_NORMALIZATION[trimmed];
-  }
-  // Check if it's already a full name (title case it)
+  const fullName = stateName(state);
+  if (fullName) return fullName;
+  // Not a US state (title case it)
   const titleCase = state.trim().split(' ')
     .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
     .join(' ');
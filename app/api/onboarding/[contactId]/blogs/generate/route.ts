@@ -2,19 +2,21 @@
  * Blog Generate API Route
  *
  * POST /api/onboarding/[contactId]/blogs/generate
- * Proxy to blog service to generate blogs for a contact's site.
- * Returns Server-Sent Events (SSE) stream with progress heartbeats.
+ * Queue a blog generation job for a contact's site.
+ * Returns 202 with the job; poll /api/onboarding/[contactId]/jobs/[jobId] for progress.
  */
 
-import { type NextRequest } from 'next/server'
+import { NextResponse, after, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
 import { createClient } from '@/lib/supabase/server'
+import { enqueueJob, getActiveJob } from '@/lib/onboarding/jobs'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+import { guardTransition, invalidTransition } from '@/lib/onboarding/status'
+import { FUNCTION_TIME_BUDGET_MS, kickQueue } from '@/lib/onboarding/job-worker'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
-export const maxDuration = 300 // Vercel Pro max (5 min)
-
-const BLOG_SERVICE_TIMEOUT = 360_000 // 6 minutes
-const HEARTBEAT_INTERVAL = 5_000 // 5 seconds
+export const maxDuration = 800 // Vercel Pro max with Fluid compute - the job may start in after()
 
 export async function POST(
   request: NextRequest,
@@ -26,9 +28,9 @@ export async function POST(
   try {
     body = await request.json()
   } catch {
-    return new Response(
-      JSON.stringify({ error: 'Invalid JSON body' }),
-      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
     )
   }
 
@@ -37,181 +39,67 @@ export async function POST(
   // Validate required fields
   for (const [field, value] of Object.entries({ duda_site_code, business_name, industry, location })) {
     if (!value || typeof value !== 'string') {
-      return new Response(
-        JSON.stringify({ error: `Missing or invalid "${field}" in request body` }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      return NextResponse.json(
+        apiError(`Missing or invalid "${field}" in request body`, 'BAD_REQUEST'),
+        { status: 400 }
       )
     }
   }
 
   const numBlogsInt = Math.max(1, Math.min(50, Number(num_blogs) || 12))
 
-  const blogServiceUrl = process.env.BLOG_SERVICE_URL
-  if (!blogServiceUrl) {
-    return new Response(
-      JSON.stringify({ error: 'Blog service URL not configured' }),
-      { status: 503, headers: { 'Content-Type': 'application/json' } }
+  if (!process.env.BLOG_SERVICE_URL) {
+    return NextResponse.json(
+      apiError('Blog service URL not configured', 'SERVICE_UNAVAILABLE'),
+      { status: 503 }
     )
   }
 
-  const stream = new ReadableStream({
-    async start(controller) {
-      const encoder = new TextEncoder()
-      let heartbeatTimer: ReturnType<typeof setInterval> | null = null
-      let closed = false
-      const startTime = Date.now()
-
-      const send = (data: Record<string, unknown>) => {
-        if (closed) return
-        try {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`))
-        } catch {
-          closed = true
-        }
-      }
-
-      const close = () => {
-        if (closed) return
-        closed = true
-        if (heartbeatTimer) clearInterval(heartbeatTimer)
-        try {
-          controller.close()
-        } catch {
-          // Already closed
-        }
-      }
-
-      // Send initial event
-      send({ type: 'started', num_blogs: numBlogsInt })
-
-      // Start heartbeat
-      heartbeatTimer = setInterval(() => {
-        const elapsed = Math.round((Date.now() - startTime) / 1000)
-        send({
-          type: 'progress',
-          elapsed,
-          num_blogs: numBlogsInt,
-          message: `Still working...`,
-        })
-      }, HEARTBEAT_INTERVAL)
-
-      // Call blog service
-      const controller2 = new AbortController()
-      const timeout = setTimeout(() => controller2.abort(), BLOG_SERVICE_TIMEOUT)
-
-      try {
-        const response = await fetch(`${blogServiceUrl}/generate/direct`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            business_name,
-            industry,
-            location,
-            duda_site_code,
-            num_blogs: numBlogsInt,
-          }),
-          signal: controller2.signal,
-        })
-        clearTimeout(timeout)
-
-        if (!response.ok) {
-          const errorText = await response.text().catch(() => '')
-          console.error(`[Blogs Generate] Blog service returned ${response.status}: ${errorText}`)
-
-          // Upsert error status
-          const supabase = await createClient()
-          await supabase.from('onboarding_status').upsert(
-            {
-              hubspot_contact_id: contactId,
-              service: 'blogs',
-              status: 'error',
-              last_triggered_at: new Date().toISOString(),
-              metadata: { business_name, industry, location, duda_site_code, num_blogs: numBlogsInt, error: `Blog service returned ${response.status}` },
-            },
-            { onConflict: 'hubspot_contact_id,service' }
-          )
-
-          send({ type: 'error', message: `Blog service returned ${response.status}` })
-          close()
-          return
-        }
-
-        const result = await response.json()
-
-        // Upsert success status
-        const supabase = await createClient()
-        const { error: statusError } = await supabase.from('onboarding_status').upsert(
-          {
-            hubspot_contact_id: contactId,
-            service: 'blogs',
-            status: 'active',
-            last_triggered_at: new Date().toISOString(),
-            metadata: {
-              business_name,
-              industry,
-              location,
-              duda_site_code,
-              num_blogs: numBlogsInt,
-              blogs_generated: result.blogs_generated,
-              blogs_sent_to_duda: result.blogs_sent_to_duda,
-            },
-          },
-          { onConflict: 'hubspot_contact_id,service' }
-        )
-
-        if (statusError) {
-          console.warn('[Blogs Generate] Failed to update onboarding status:', statusError)
-        }
-
-        console.log(`[Blogs Generate] Completed blogs for ${business_name} (${industry}) at ${location}: ${result.blogs_generated} generated`)
-
-        send({
-          type: 'complete',
-          result,
-          blogs_generated: result.blogs_generated,
-          blogs_sent_to_duda: result.blogs_sent_to_duda,
-        })
-        close()
-      } catch (fetchError: unknown) {
-        clearTimeout(timeout)
-
-        const isTimeout = fetchError instanceof Error && fetchError.name === 'AbortError'
-        const errorMessage = isTimeout
-          ? 'Blog service timed out'
-          : fetchError instanceof Error
-            ? fetchError.message
-            : 'Unknown error'
-
-        console.error('[Blogs Generate] Error:', errorMessage)
-
-        // Upsert error status
-        try {
-          const supabase = await createClient()
-          await supabase.from('onboarding_status').upsert(
-            {
-              hubspot_contact_id: contactId,
-              service: 'blogs',
-              status: 'error',
-              last_triggered_at: new Date().toISOString(),
-              metadata: { business_name, industry, location, duda_site_code, num_blogs: numBlogsInt, error: errorMessage },
-            },
-            { onConflict: 'hubspot_contact_id,service' }
-          )
-        } catch (dbError) {
-          console.error('[Blogs Generate] Failed to update error status:', dbError)
-        }
-
-        send({ type: 'error', message: errorMessage })
-        close()
-      }
-    },
-  })
-
-  return new Response(stream, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      Connection: 'keep-alive',
-    },
-  })
+  try {
+    const supabase = await createClient()
+
+    const activeJob = await getActiveJob(supabase, contactId, 'blogs')
+    if (activeJob) {
+      return NextResponse.json(
+        apiError('Blog generation is already in progress for this contact', 'INVALID_STATE', { job: activeJob }),
+        { status: 409 }
+      )
+    }
+
+    const { rejection } = await guardTransition(supabase, contactId, 'blogs', 'pending')
+    if (rejection) {
+      return NextResponse.json(invalidTransition(rejection), { status: 409 })
+    }
+
+    const actor = await getEventActor(supabase)
+
+    const job = await enqueueJob(supabase, {
+      contactId,
+      service: 'blogs',
+      payload: { business_name, industry, location, duda_site_code, num_blogs: numBlogsInt },
+      createdBy: actor.id,
+    })
+
+    await recordEvent(supabase, {
+      contactId,
+      service: 'blogs',
+      action: 'generation_queued',
+      actor,
+      statusBefore: job.previous_service_status,
+      statusAfter: 'pending',
+      payloadAfter: { ...job.payload, job_id: job.id },
+    })
+
+    console.log(`[Blogs Generate] Queued job ${job.id} for ${business_name} (${industry}) at ${location}`)
+
+    after(() => kickQueue(FUNCTION_TIME_BUDGET_MS))
+
+    return NextResponse.json(apiSuccess({ job }), { status: 202 })
+  } catch (error: unknown) {
+    console.error('[Blogs Generate] Error:', error)
+    return NextResponse.json(
+      apiError(error instanceof Error ? error.message : 'Failed to queue blog generation', 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
 }
@@ -0,0 +1,213 @@
+/**
+ * Blog Schedule API Route
+ *
+ * GET /api/onboarding/[contactId]/blogs/schedule
+ * The contact's recurring blog schedule, its recent runs and the runs
+ * projected over the next `days` (default 60).
+ *
+ * PUT /api/onboarding/[contactId]/blogs/schedule
+ * Create or replace the schedule.
+ *
+ * DELETE /api/onboarding/[contactId]/blogs/schedule
+ * Remove the schedule and its run history.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import type { BlogSchedule } from '@/app/types/onboarding'
+import {
+  BLOG_SCHEDULE_MAX_POSTS,
+  deleteBlogSchedule,
+  getBlogSchedule,
+  listScheduleRuns,
+  projectUpcomingRuns,
+  saveBlogSchedule,
+  syncQueuedRuns,
+} from '@/lib/onboarding/blog-schedule'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const DAY_MS = 24 * 60 * 60_000
+const MAX_TOPICS = 100
+
+function schedulePayload(schedule: BlogSchedule | null) {
+  if (!schedule) return null
+  const { enabled, posts_per_month, topics, start_date, business_name, industry, location } = schedule
+  return { enabled, posts_per_month, topics, start_date, business_name, industry, location }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+  const days = Math.max(1, Math.min(365, Number(request.nextUrl.searchParams.get('days')) || 60))
+
+  try {
+    const supabase = await createClient()
+
+    // Runs only learn their outcome from the job, so settle finished ones first
+    await syncQueuedRuns(supabase, contactId)
+
+    const [schedule, runs] = await Promise.all([
+      getBlogSchedule(supabase, contactId),
+      listScheduleRuns(supabase, contactId),
+    ])
+
+    const upcoming = schedule
+      ? projectUpcomingRuns(schedule, new Date(Date.now() + days * DAY_MS))
+      : []
+
+    return NextResponse.json(apiSuccess({ schedule, runs, upcoming }))
+  } catch (error: unknown) {
+    console.error('[Blog Schedule] Fetch error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch blog schedule: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const { posts_per_month, topics, start_date, business_name, industry, location, enabled } = body
+
+  for (const [field, value] of Object.entries({ business_name, industry, location })) {
+    if (!value || typeof value !== 'string' || !value.trim()) {
+      return NextResponse.json(
+        apiError(`Missing or invalid "${field}" in request body`, 'BAD_REQUEST'),
+        { status: 400 }
+      )
+    }
+  }
+
+  const postsPerMonth = Number(posts_per_month)
+  if (!Number.isInteger(postsPerMonth) || postsPerMonth < 1 || postsPerMonth > BLOG_SCHEDULE_MAX_POSTS) {
+    return NextResponse.json(
+      apiError(`"posts_per_month" must be a whole number from 1 to ${BLOG_SCHEDULE_MAX_POSTS}`, 'VALIDATION_ERROR'),
+      { status: 400 }
+    )
+  }
+
+  if (typeof start_date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(start_date) || isNaN(Date.parse(start_date))) {
+    return NextResponse.json(
+      apiError('"start_date" must be a date (YYYY-MM-DD)', 'VALIDATION_ERROR'),
+      { status: 400 }
+    )
+  }
+
+  if (topics !== undefined && (!Array.isArray(topics) || topics.some((t) => typeof t !== 'string'))) {
+    return NextResponse.json(
+      apiError('"topics" must be an array of strings', 'VALIDATION_ERROR'),
+      { status: 400 }
+    )
+  }
+
+  const topicList = ((topics as string[] | undefined) ?? []).map((t) => t.trim()).filter(Boolean)
+  if (topicList.length > MAX_TOPICS) {
+    return NextResponse.json(
+      apiError(`At most ${MAX_TOPICS} topics are allowed`, 'VALIDATION_ERROR'),
+      { status: 400 }
+    )
+  }
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return NextResponse.json(
+      apiError('"enabled" must be a boolean', 'VALIDATION_ERROR'),
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+    const actor = await getEventActor(supabase)
+
+    const { before, schedule } = await saveBlogSchedule(supabase, {
+      contactId,
+      postsPerMonth,
+      topics: topicList,
+      startDate: start_date,
+      businessName: (business_name as string).trim(),
+      industry: (industry as string).trim(),
+      location: (location as string).trim(),
+      enabled,
+      createdBy: actor.id,
+    })
+
+    await recordEvent(supabase, {
+      contactId,
+      service: 'blogs',
+      action: 'schedule_updated',
+      actor,
+      payloadBefore: schedulePayload(before),
+      payloadAfter: { ...schedulePayload(schedule), next_run_at: schedule.next_run_at },
+    })
+
+    console.log(`[Blog Schedule] Saved ${postsPerMonth}/month schedule for ${contactId}, next run ${schedule.next_run_at}`)
+
+    return NextResponse.json(apiSuccess(schedule))
+  } catch (error: unknown) {
+    console.error('[Blog Schedule] Save error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to save blog schedule: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+
+  try {
+    const supabase = await createClient()
+
+    const schedule = await getBlogSchedule(supabase, contactId)
+    if (!schedule) {
+      return NextResponse.json(
+        apiError('No blog schedule for this contact', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    await deleteBlogSchedule(supabase, contactId)
+
+    await recordEvent(supabase, {
+      contactId,
+      service: 'blogs',
+      action: 'schedule_deleted',
+      actor: await getEventActor(supabase),
+      payloadBefore: schedulePayload(schedule),
+    })
+
+    return NextResponse.json(apiSuccess({ deleted: true }))
+  } catch (error: unknown) {
+    console.error('[Blog Schedule] Delete error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to delete blog schedule: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Blog Schedule Run Retry API Route
+ *
+ * POST /api/onboarding/[contactId]/blogs/schedule/runs/[runId]/retry
+ * Re-queue a failed or skipped scheduled run with its original topic.
+ * The run is updated in place; if it still cannot be queued it comes back
+ * skipped or failed with the new reason.
+ */
+
+import { NextResponse, after, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { getScheduleRun, retryScheduleRun } from '@/lib/onboarding/blog-schedule'
+import { getEventActor } from '@/lib/onboarding/events'
+import { FUNCTION_TIME_BUDGET_MS, kickQueue } from '@/lib/onboarding/job-worker'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 800 // Vercel Pro max with Fluid compute - the job may start in after()
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; runId: string }> }
+) {
+  const { contactId, runId } = await params
+
+  try {
+    const supabase = await createClient()
+
+    const run = await getScheduleRun(supabase, contactId, runId)
+    if (!run) {
+      return NextResponse.json(
+        apiError('Scheduled run not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    if (run.status !== 'failed' && run.status !== 'skipped') {
+      return NextResponse.json(
+        apiError(`Only failed or skipped runs can be retried (run is ${run.status})`, 'INVALID_STATE'),
+        { status: 409 }
+      )
+    }
+
+    const updated = await retryScheduleRun(supabase, run, await getEventActor(supabase))
+
+    console.log(`[Blog Schedule] Retried run ${runId} for ${contactId}: ${updated.status}`)
+
+    if (updated.status === 'queued') {
+      after(() => kickQueue(FUNCTION_TIME_BUDGET_MS))
+    }
+
+    return NextResponse.json(apiSuccess(updated))
+  } catch (error: unknown) {
+    console.error('[Blog Schedule] Retry error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to retry scheduled run: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
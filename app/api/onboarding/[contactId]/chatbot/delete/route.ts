@@ -8,6 +8,8 @@
 import { NextResponse, type NextRequest } from 'next/server'
 import { apiSuccess, apiError } from '@/app/types/api'
 import { createClient } from '@/lib/supabase/server'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+import { guardTransition, invalidTransition } from '@/lib/onboarding/status'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -44,6 +46,11 @@ export async function DELETE(
       )
     }
 
+    const { before, rejection } = await guardTransition(supabase, contactId, 'chatbot', 'not_started')
+    if (rejection) {
+      return NextResponse.json(invalidTransition(rejection), { status: 409 })
+    }
+
     // Call chatbot backend delete endpoint
     const chatbotBackendUrl = process.env.CHATBOT_BACKEND_URL
     if (!chatbotBackendUrl) {
@@ -108,6 +115,17 @@ export async function DELETE(
       console.warn('[Chatbot Delete] Failed to remove onboarding status:', statusError)
     }
 
+    await recordEvent(supabase, {
+      contactId,
+      service: 'chatbot',
+      action: 'deleted',
+      actor: await getEventActor(supabase),
+      statusBefore: before?.status,
+      statusAfter: 'not_started',
+      payloadBefore: { ...before?.metadata, slug },
+      payloadAfter: null,
+    })
+
     console.log(`[Chatbot Delete] Deleted chatbot "${slug}" for contact ${contactId}`)
 
     return NextResponse.json(apiSuccess({ slug, deleted: true }))
@@ -11,26 +11,23 @@
 import { NextResponse, type NextRequest } from 'next/server'
 import { apiSuccess, apiError } from '@/app/types/api'
 import { createClient } from '@/lib/supabase/server'
+import { DudaError, getDudaClient, isDudaConfigured } from '@/lib/duda'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
-function getDudaAuth(): string | null {
-  const user = process.env.DUDA_API_USER
-  const pass = process.env.DUDA_API_PASSWORD
-  if (!user || !pass) return null
-  return 'Basic ' + Buffer.from(`${user}:${pass}`).toString('base64')
-}
-
-async function publishDudaSite(siteCode: string, auth: string): Promise<boolean> {
-  const res = await fetch(
-    `https://api.duda.co/api/sites/multiscreen/publish/${siteCode}`,
-    {
-      method: 'POST',
-      headers: { Authorization: auth },
-    }
-  )
-  return res.ok
+/**
+ * Publish after a snippet change. The snippet is already saved on Duda,
+ * so a failed publish is reported but not treated as an error.
+ */
+async function publishDudaSite(siteCode: string, logTag: string): Promise<boolean> {
+  try {
+    await getDudaClient().publishSite(siteCode)
+    return true
+  } catch (error) {
+    console.warn(`[${logTag}] Site publish failed for ${siteCode}:`, error instanceof Error ? error.message : error)
+    return false
+  }
 }
 
 export async function POST(
@@ -81,8 +78,7 @@ export async function POST(
       )
     }
 
-    const auth = getDudaAuth()
-    if (!auth) {
+    if (!isDudaConfigured()) {
       return NextResponse.json(
         apiError('Duda API credentials not configured', 'SERVICE_UNAVAILABLE'),
         { status: 503 }
@@ -93,46 +89,20 @@ export async function POST(
     const markup = `<script>window.ZING_WIDGET_CONFIG={client:'${slug}'};</script>\n<script src="https://zing-chatbot-multi-tenancy.vercel.app/widget.js" async></script>`
 
     // Create snippet on Duda
-    const snippetRes = await fetch(
-      `https://api.duda.co/api/sites/multiscreen/${siteCode}/snippets`,
-      {
-        method: 'POST',
-        headers: {
-          Authorization: auth,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          markup,
-          location: 'BODY',
-        }),
-      }
-    )
-
-    if (!snippetRes.ok) {
-      const errText = await snippetRes.text()
-      console.error(`[Deploy Widget] Duda snippet creation failed (${snippetRes.status}):`, errText)
-      return NextResponse.json(
-        apiError(`Duda API returned ${snippetRes.status}: ${errText}`, 'EXTERNAL_API_ERROR'),
-        { status: 502 }
-      )
-    }
-
-    const snippetData = await snippetRes.json()
-    const snippetId = snippetData.uuid || snippetData.id
-
-    if (!snippetId) {
-      console.error('[Deploy Widget] No snippet ID in response:', snippetData)
+    let snippetId: string
+    try {
+      snippetId = await getDudaClient().createSnippet(siteCode, { markup, location: 'BODY' })
+    } catch (error) {
+      if (!(error instanceof DudaError)) throw error
+      console.error('[Deploy Widget] Duda snippet creation failed:', error.message)
       return NextResponse.json(
-        apiError('Duda did not return a snippet ID', 'EXTERNAL_API_ERROR'),
+        apiError(error.message, 'EXTERNAL_API_ERROR'),
         { status: 502 }
       )
     }
 
     // Publish the site
-    const published = await publishDudaSite(siteCode, auth)
-    if (!published) {
-      console.warn(`[Deploy Widget] Site publish failed for ${siteCode}, snippet was still created`)
-    }
+    const published = await publishDudaSite(siteCode, 'Deploy Widget')
 
     // Store snippet_id in identity map
     const { error: updateError } = await supabase
@@ -200,37 +170,27 @@ export async function DELETE(
       )
     }
 
-    const auth = getDudaAuth()
-    if (!auth) {
+    if (!isDudaConfigured()) {
       return NextResponse.json(
         apiError('Duda API credentials not configured', 'SERVICE_UNAVAILABLE'),
         { status: 503 }
       )
     }
 
-    // Delete snippet from Duda
-    const deleteRes = await fetch(
-      `https://api.duda.co/api/sites/multiscreen/${siteCode}/snippets/${snippetId}`,
-      {
-        method: 'DELETE',
-        headers: { Authorization: auth },
-      }
-    )
-
-    if (!deleteRes.ok && deleteRes.status !== 404) {
-      const errText = await deleteRes.text()
-      console.error(`[Remove Widget] Duda snippet deletion failed (${deleteRes.status}):`, errText)
+    // Delete snippet from Duda (already gone is fine)
+    try {
+      await getDudaClient().deleteSnippet(siteCode, snippetId)
+    } catch (error) {
+      if (!(error instanceof DudaError)) throw error
+      console.error('[Remove Widget] Duda snippet deletion failed:', error.message)
       return NextResponse.json(
-        apiError(`Duda API returned ${deleteRes.status}: ${errText}`, 'EXTERNAL_API_ERROR'),
+        apiError(error.message, 'EXTERNAL_API_ERROR'),
         { status: 502 }
       )
     }
 
     // Publish the site
-    const published = await publishDudaSite(siteCode, auth)
-    if (!published) {
-      console.warn(`[Remove Widget] Site publish failed for ${siteCode}`)
-    }
+    const published = await publishDudaSite(siteCode, 'Remove Widget')
 
     // Clear snippet_id from identity map
     const { error: updateError } = await supabase
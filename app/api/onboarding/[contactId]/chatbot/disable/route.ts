@@ -8,6 +8,8 @@
 import { NextResponse, type NextRequest } from 'next/server'
 import { apiSuccess, apiError } from '@/app/types/api'
 import { createClient } from '@/lib/supabase/server'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+import { guardTransition, invalidTransition } from '@/lib/onboarding/status'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -44,6 +46,11 @@ export async function POST(
       )
     }
 
+    const { before, rejection } = await guardTransition(supabase, contactId, 'chatbot', 'paused')
+    if (rejection) {
+      return NextResponse.json(invalidTransition(rejection), { status: 409 })
+    }
+
     // Call chatbot backend disable endpoint
     const chatbotBackendUrl = process.env.CHATBOT_BACKEND_URL
     if (!chatbotBackendUrl) {
@@ -81,14 +88,14 @@ export async function POST(
       throw fetchError
     }
 
-    // Update onboarding status to disabled
+    // Update onboarding status to paused (the status CHECK has no 'disabled')
     const { error: statusError } = await supabase
       .from('onboarding_status')
       .upsert(
         {
           hubspot_contact_id: contactId,
           service: 'chatbot',
-          status: 'disabled',
+          status: 'paused',
         },
         { onConflict: 'hubspot_contact_id,service' }
       )
@@ -97,9 +104,20 @@ export async function POST(
       console.warn('[Chatbot Disable] Failed to update onboarding status:', statusError)
     }
 
+    await recordEvent(supabase, {
+      contactId,
+      service: 'chatbot',
+      action: 'disabled',
+      actor: await getEventActor(supabase),
+      statusBefore: before?.status,
+      statusAfter: 'paused',
+      payloadBefore: before?.metadata,
+      payloadAfter: { slug },
+    })
+
     console.log(`[Chatbot Disable] Disabled chatbot "${slug}" for contact ${contactId}`)
 
-    return NextResponse.json(apiSuccess({ slug, status: 'disabled' }))
+    return NextResponse.json(apiSuccess({ slug, status: 'paused' }))
   } catch (error: unknown) {
     console.error('[Chatbot Disable] Unexpected error:', error)
     const message = error instanceof Error ? error.message : 'Unknown error'
@@ -8,6 +8,9 @@
 import { NextResponse, type NextRequest } from 'next/server'
 import { apiSuccess, apiError } from '@/app/types/api'
 import { createClient } from '@/lib/supabase/server'
+import { getEventActor } from '@/lib/onboarding/events'
+import { createChatbotClient, saveChatbotProvision } from '@/lib/onboarding/chatbot'
+import { guardTransition, invalidTransition } from '@/lib/onboarding/status'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -29,6 +32,14 @@ export async function POST(
       )
     }
 
+    const supabase = await createClient()
+
+    // Reject before creating anything in the backend
+    const { rejection } = await guardTransition(supabase, contactId, 'chatbot', 'active')
+    if (rejection) {
+      return NextResponse.json(invalidTransition(rejection), { status: 409 })
+    }
+
     // Create client in chatbot backend FIRST (before saving slug locally)
     const chatbotBackendUrl = process.env.CHATBOT_BACKEND_URL
     if (!chatbotBackendUrl) {
@@ -38,73 +49,31 @@ export async function POST(
       )
     }
 
-    try {
-      const createRes = await fetch(`${chatbotBackendUrl}/${slug}/admin/create`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          name: name || '',
-          company_info: company_info || {},
-          branding: branding || {},
-          support_email: support_email || '',
-        }),
-      })
-
-      if (!createRes.ok) {
-        console.error(`[Chatbot Provision] Backend create returned ${createRes.status}`)
-        return NextResponse.json(
-          apiError('Failed to create client in chatbot backend', 'EXTERNAL_API_ERROR'),
-          { status: 502 }
-        )
-      }
+    const input = {
+      contactId,
+      slug,
+      name,
+      companyInfo: company_info,
+      branding,
+      supportEmail: support_email,
+    }
 
+    try {
+      await createChatbotClient(chatbotBackendUrl, input)
       console.log(`[Chatbot Provision] Created client in chatbot backend for slug "${slug}"`)
     } catch (err) {
-      console.error('[Chatbot Provision] Backend create fetch error:', err)
+      console.error('[Chatbot Provision] Backend create error:', err)
       return NextResponse.json(
-        apiError('Chatbot backend unreachable', 'EXTERNAL_API_ERROR'),
+        apiError('Failed to create client in chatbot backend', 'EXTERNAL_API_ERROR'),
         { status: 502 }
       )
     }
 
     // Save slug to identity map only after backend creation succeeds
-    const supabase = await createClient()
-
-    const { error: identityError } = await supabase
-      .from('service_identity_map')
-      .upsert(
-        { hubspot_contact_id: contactId, chatbot_slug: slug },
-        { onConflict: 'hubspot_contact_id' }
-      )
-
-    if (identityError) {
-      console.error('[Chatbot Provision] Identity upsert error:', identityError)
-      return NextResponse.json(
-        apiError('Failed to update identity map', 'INTERNAL_ERROR'),
-        { status: 500 }
-      )
-    }
-
-    // Upsert onboarding_status for chatbot
-    const { error: statusError } = await supabase
-      .from('onboarding_status')
-      .upsert(
-        {
-          hubspot_contact_id: contactId,
-          service: 'chatbot',
-          status: 'active',
-          provisioned_at: new Date().toISOString(),
-        },
-        { onConflict: 'hubspot_contact_id,service' }
-      )
-
-    if (statusError) {
-      console.error('[Chatbot Provision] Status upsert error:', statusError)
-      return NextResponse.json(
-        apiError('Failed to update onboarding status', 'INTERNAL_ERROR'),
-        { status: 500 }
-      )
-    }
+    const provisionedAt = await saveChatbotProvision(supabase, {
+      ...input,
+      actor: await getEventActor(supabase),
+    })
 
     console.log(`[Chatbot Provision] Provisioned chatbot "${slug}" for contact ${contactId}`)
 
@@ -113,7 +82,7 @@ export async function POST(
         contactId,
         slug,
         status: 'active',
-        provisioned_at: new Date().toISOString(),
+        provisioned_at: provisionedAt,
       })
     )
   } catch (error: unknown) {
@@ -0,0 +1,79 @@
+/**
+ * Content Draft Approve API Route
+ *
+ * POST /api/onboarding/[contactId]/drafts/[draftId]/approve
+ * Approve a draft and push it to the contact's Duda site. If the push
+ * fails the draft stays approved with publish_error set; approving again
+ * retries the push. Returns 409 if another approval is already pushing it.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { APPROVABLE_DRAFT_STATUSES, approveDraft, getDraft } from '@/lib/onboarding/drafts'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; draftId: string }> }
+) {
+  const { contactId, draftId } = await params
+
+  try {
+    const supabase = await createClient()
+
+    const draft = await getDraft(supabase, contactId, draftId)
+    if (!draft) {
+      return NextResponse.json(
+        apiError('Draft not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    if (!APPROVABLE_DRAFT_STATUSES.includes(draft.status)) {
+      return NextResponse.json(
+        apiError(`A ${draft.status} draft cannot be approved`, 'INVALID_STATE'),
+        { status: 409 }
+      )
+    }
+
+    const actor = await getEventActor(supabase)
+    const updated = await approveDraft(supabase, draft, actor)
+    if (!updated) {
+      return NextResponse.json(
+        apiError('This draft changed or is already being published - refresh and try again', 'INVALID_STATE'),
+        { status: 409 }
+      )
+    }
+
+    await recordEvent(supabase, {
+      contactId,
+      service: draft.service,
+      action: 'draft_approved',
+      actor,
+      payloadAfter: {
+        draft_id: draft.id,
+        title: updated.title,
+        published: updated.status === 'published',
+        duda_ref: updated.duda_ref,
+        publish_error: updated.publish_error,
+      },
+    })
+
+    if (updated.status !== 'published') {
+      console.warn(`[Content Drafts] Draft ${draftId} approved but not published: ${updated.publish_error}`)
+    }
+
+    return NextResponse.json(apiSuccess(updated))
+  } catch (error: unknown) {
+    console.error('[Content Drafts] Approve error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to approve draft: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
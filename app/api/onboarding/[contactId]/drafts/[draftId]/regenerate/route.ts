@@ -0,0 +1,86 @@
+/**
+ * Content Draft Regenerate API Route
+ *
+ * POST /api/onboarding/[contactId]/drafts/[draftId]/regenerate
+ * Queue a one-item generation job for a rejected draft, with the review
+ * notes as feedback. Returns 202 with the job; when it succeeds the new
+ * draft replaces the rejected one.
+ */
+
+import { NextResponse, after, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { getDraft, regenerateDraft } from '@/lib/onboarding/drafts'
+import { getActiveJob } from '@/lib/onboarding/jobs'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+import { guardTransition, invalidTransition } from '@/lib/onboarding/status'
+import { FUNCTION_TIME_BUDGET_MS, kickQueue } from '@/lib/onboarding/job-worker'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 800 // Vercel Pro max with Fluid compute - the job may start in after()
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; draftId: string }> }
+) {
+  const { contactId, draftId } = await params
+
+  try {
+    const supabase = await createClient()
+
+    const draft = await getDraft(supabase, contactId, draftId)
+    if (!draft) {
+      return NextResponse.json(
+        apiError('Draft not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    if (draft.status !== 'rejected') {
+      return NextResponse.json(
+        apiError('Only rejected drafts can be regenerated', 'INVALID_STATE'),
+        { status: 409 }
+      )
+    }
+
+    const activeJob = await getActiveJob(supabase, contactId, draft.service)
+    if (activeJob) {
+      return NextResponse.json(
+        apiError('Generation is already in progress for this contact', 'INVALID_STATE', { job: activeJob }),
+        { status: 409 }
+      )
+    }
+
+    const { rejection } = await guardTransition(supabase, contactId, draft.service, 'pending')
+    if (rejection) {
+      return NextResponse.json(invalidTransition(rejection), { status: 409 })
+    }
+
+    const actor = await getEventActor(supabase)
+    const job = await regenerateDraft(supabase, draft, actor)
+
+    await recordEvent(supabase, {
+      contactId,
+      service: draft.service,
+      action: 'draft_regenerated',
+      actor,
+      statusBefore: job.previous_service_status,
+      statusAfter: 'pending',
+      payloadAfter: { draft_id: draft.id, title: draft.title, feedback: draft.review_notes, job_id: job.id },
+    })
+
+    console.log(`[Content Drafts] Queued regeneration job ${job.id} for draft ${draftId}`)
+
+    after(() => kickQueue(FUNCTION_TIME_BUDGET_MS))
+
+    return NextResponse.json(apiSuccess({ job }), { status: 202 })
+  } catch (error: unknown) {
+    console.error('[Content Drafts] Regenerate error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to regenerate draft: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Content Draft Reject API Route
+ *
+ * POST /api/onboarding/[contactId]/drafts/[draftId]/reject
+ * Reject a draft with review notes ({ "notes": "..." }). The notes are sent
+ * as feedback when the draft is regenerated.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { APPROVABLE_DRAFT_STATUSES, getDraft, rejectDraft } from '@/lib/onboarding/drafts'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; draftId: string }> }
+) {
+  const { contactId, draftId } = await params
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const notes = typeof body.notes === 'string' ? body.notes.trim() : ''
+  if (!notes) {
+    return NextResponse.json(
+      apiError('Missing "notes" - say what should change', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+
+    const draft = await getDraft(supabase, contactId, draftId)
+    if (!draft) {
+      return NextResponse.json(
+        apiError('Draft not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    // Only drafts that are not on Duda yet can be rejected
+    if (!APPROVABLE_DRAFT_STATUSES.includes(draft.status)) {
+      return NextResponse.json(
+        apiError(`A ${draft.status} draft cannot be rejected`, 'INVALID_STATE'),
+        { status: 409 }
+      )
+    }
+
+    const actor = await getEventActor(supabase)
+    const updated = await rejectDraft(supabase, draft, notes, actor)
+
+    await recordEvent(supabase, {
+      contactId,
+      service: draft.service,
+      action: 'draft_rejected',
+      actor,
+      payloadAfter: { draft_id: draft.id, title: draft.title, notes },
+    })
+
+    return NextResponse.json(apiSuccess(updated))
+  } catch (error: unknown) {
+    console.error('[Content Drafts] Reject error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to reject draft: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
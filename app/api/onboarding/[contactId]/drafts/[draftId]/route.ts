@@ -0,0 +1,136 @@
+/**
+ * Content Draft API Route
+ *
+ * GET /api/onboarding/[contactId]/drafts/[draftId]
+ * Read a single draft.
+ *
+ * PATCH /api/onboarding/[contactId]/drafts/[draftId]
+ * Edit title, body, meta_title, meta_description or slug before approval.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import type { DraftEdits } from '@/lib/onboarding/drafts'
+import { EDITABLE_DRAFT_STATUSES, getDraft, updateDraft } from '@/lib/onboarding/drafts'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const REQUIRED_FIELDS = ['title', 'body'] as const
+const OPTIONAL_FIELDS = ['meta_title', 'meta_description', 'slug'] as const
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; draftId: string }> }
+) {
+  const { contactId, draftId } = await params
+
+  try {
+    const supabase = await createClient()
+    const draft = await getDraft(supabase, contactId, draftId)
+
+    if (!draft) {
+      return NextResponse.json(
+        apiError('Draft not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(apiSuccess(draft))
+  } catch (error: unknown) {
+    console.error('[Content Drafts] Fetch error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch draft: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; draftId: string }> }
+) {
+  const { contactId, draftId } = await params
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const edits: DraftEdits = {}
+  for (const field of REQUIRED_FIELDS) {
+    if (body[field] === undefined) continue
+    if (typeof body[field] !== 'string' || !(body[field] as string).trim()) {
+      return NextResponse.json(
+        apiError(`"${field}" must be a non-empty string`, 'VALIDATION_ERROR'),
+        { status: 400 }
+      )
+    }
+    edits[field] = body[field] as string
+  }
+  for (const field of OPTIONAL_FIELDS) {
+    if (body[field] === undefined) continue
+    if (body[field] !== null && typeof body[field] !== 'string') {
+      return NextResponse.json(
+        apiError(`"${field}" must be a string or null`, 'VALIDATION_ERROR'),
+        { status: 400 }
+      )
+    }
+    edits[field] = (body[field] as string | null) || null
+  }
+
+  if (Object.keys(edits).length === 0) {
+    return NextResponse.json(
+      apiError('Nothing to update', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+
+    const draft = await getDraft(supabase, contactId, draftId)
+    if (!draft) {
+      return NextResponse.json(
+        apiError('Draft not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    if (!EDITABLE_DRAFT_STATUSES.includes(draft.status)) {
+      return NextResponse.json(
+        apiError(`A ${draft.status} draft cannot be edited`, 'INVALID_STATE'),
+        { status: 409 }
+      )
+    }
+
+    const updated = await updateDraft(supabase, draft, edits)
+
+    const changed = Object.keys(edits) as (keyof DraftEdits)[]
+    await recordEvent(supabase, {
+      contactId,
+      service: draft.service,
+      action: 'draft_edited',
+      actor: await getEventActor(supabase),
+      payloadBefore: { draft_id: draft.id, ...Object.fromEntries(changed.map((f) => [f, draft[f]])) },
+      payloadAfter: { draft_id: draft.id, ...edits },
+    })
+
+    return NextResponse.json(apiSuccess(updated))
+  } catch (error: unknown) {
+    console.error('[Content Drafts] Update error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to update draft: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Content Drafts API Route
+ *
+ * GET /api/onboarding/[contactId]/drafts?service=blogs&status=open&limit=100
+ * Generated posts/pages for a contact, newest first. `status` is a draft
+ * status, `open` (anything still waiting on review or a push) or `all`.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import type { DraftStatus, JobService } from '@/app/types/onboarding'
+import { DRAFT_STATUS_LABELS, OPEN_DRAFT_STATUSES } from '@/app/types/onboarding'
+import { createClient } from '@/lib/supabase/server'
+import { listDrafts } from '@/lib/onboarding/drafts'
+import { JOB_SERVICE_IDS } from '@/lib/onboarding/registry'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const VALID_STATUSES = Object.keys(DRAFT_STATUS_LABELS) as DraftStatus[]
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+  const { searchParams } = request.nextUrl
+
+  const service = searchParams.get('service')
+  if (service && !JOB_SERVICE_IDS.includes(service as JobService)) {
+    return NextResponse.json(
+      apiError(`Invalid service "${service}". Must be one of: ${JOB_SERVICE_IDS.join(', ')}`, 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const status = searchParams.get('status') || 'all'
+  if (status !== 'all' && status !== 'open' && !VALID_STATUSES.includes(status as DraftStatus)) {
+    return NextResponse.json(
+      apiError(`Invalid status "${status}". Must be all, open or one of: ${VALID_STATUSES.join(', ')}`, 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const limit = Math.max(1, Math.min(200, Number(searchParams.get('limit')) || 100))
+
+  try {
+    const supabase = await createClient()
+    const drafts = await listDrafts(supabase, contactId, {
+      service: (service as JobService) || undefined,
+      statuses: status === 'all' ? undefined : status === 'open' ? OPEN_DRAFT_STATUSES : [status as DraftStatus],
+      limit,
+    })
+
+    return NextResponse.json(apiSuccess(drafts))
+  } catch (error: unknown) {
+    console.error('[Content Drafts] List error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch drafts: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Onboarding Events API Route
+ *
+ * GET /api/onboarding/[contactId]/events?service=chatbot&limit=50&before=<iso>
+ * Read the onboarding audit trail for a contact, newest first.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import type { ServiceType } from '@/app/types/onboarding'
+import { createClient } from '@/lib/supabase/server'
+import { listEvents } from '@/lib/onboarding/events'
+import { SERVICE_IDS } from '@/lib/onboarding/registry'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const VALID_SERVICES: ServiceType[] = SERVICE_IDS
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+  const { searchParams } = request.nextUrl
+
+  const service = searchParams.get('service')
+  if (service && !VALID_SERVICES.includes(service as ServiceType)) {
+    return NextResponse.json(
+      apiError(`Invalid service "${service}". Must be one of: ${VALID_SERVICES.join(', ')}`, 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const limit = Math.max(1, Math.min(200, Number(searchParams.get('limit')) || 50))
+  const before = searchParams.get('before') || undefined
+
+  try {
+    const supabase = await createClient()
+    const events = await listEvents(supabase, contactId, {
+      service: (service as ServiceType) || undefined,
+      limit,
+      before,
+    })
+
+    return NextResponse.json(apiSuccess(events))
+  } catch (error: unknown) {
+    console.error('[Onboarding Events] List error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch onboarding events: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
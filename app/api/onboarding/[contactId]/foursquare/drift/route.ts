@@ -0,0 +1,89 @@
+/**
+ * Foursquare Drift API Route
+ *
+ * GET /api/onboarding/[contactId]/foursquare/drift?limit=30
+ * Stored drift checks (newest first) and the edits proposed to the venue.
+ *
+ * POST /api/onboarding/[contactId]/foursquare/drift
+ * Check the linked venue now instead of waiting for the daily cron.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { getFoursquareApiKey } from '@/lib/onboarding/foursquare'
+import { checkFoursquareDrift, listDriftChecks, listProposedEdits } from '@/lib/onboarding/foursquare-drift'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+  const limit = Math.max(1, Math.min(100, Number(request.nextUrl.searchParams.get('limit')) || 30))
+
+  try {
+    const supabase = await createClient()
+    const [checks, edits] = await Promise.all([
+      listDriftChecks(supabase, contactId, limit),
+      listProposedEdits(supabase, contactId),
+    ])
+
+    return NextResponse.json(apiSuccess({ checks, edits }, { count: checks.length }))
+  } catch (error: unknown) {
+    console.error('[Foursquare Drift] List error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch drift checks: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+
+  const apiKey = getFoursquareApiKey()
+  if (!apiKey) {
+    return NextResponse.json(
+      apiError('Foursquare API key not configured', 'SERVICE_UNAVAILABLE'),
+      { status: 503 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+
+    const { data: identity, error: identityError } = await supabase
+      .from('service_identity_map')
+      .select('foursquare_venue_id')
+      .eq('hubspot_contact_id', contactId)
+      .maybeSingle()
+
+    if (identityError) throw new Error(identityError.message)
+
+    if (!identity?.foursquare_venue_id) {
+      return NextResponse.json(
+        apiError('No Foursquare venue linked for this contact', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    const check = await checkFoursquareDrift(supabase, contactId, identity.foursquare_venue_id, apiKey)
+    console.log(`[Foursquare Drift] Checked ${contactId}: ${check.status}`)
+
+    return NextResponse.json(apiSuccess(check), { status: 201 })
+  } catch (error: unknown) {
+    console.error('[Foursquare Drift] Check error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to check Foursquare drift: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Foursquare Match API Route
+ *
+ * GET /api/onboarding/[contactId]/foursquare/match
+ * Search Foursquare around the contact (the linked Google pin when there is
+ * one) and return the candidates with a confidence score and the reason
+ * behind each signal. Read-only.
+ *
+ * POST /api/onboarding/[contactId]/foursquare/match
+ * Same search, then act on it: a high-confidence match is linked, an
+ * ambiguous one is queued for review, and no_match leaves the contact for a
+ * new venue to be created.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { getEventActor } from '@/lib/onboarding/events'
+import { getFoursquareApiKey, linkFoursquareVenue } from '@/lib/onboarding/foursquare'
+import {
+  candidateVenueId,
+  findFoursquareMatches,
+  loadMatchTarget,
+  queueFoursquareReview,
+} from '@/lib/onboarding/foursquare-match'
+import { guardTransition, invalidTransition } from '@/lib/onboarding/status'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+
+  const apiKey = getFoursquareApiKey()
+  if (!apiKey) {
+    return NextResponse.json(
+      apiError('Foursquare API key not configured', 'SERVICE_UNAVAILABLE'),
+      { status: 503 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+    const loaded = await loadMatchTarget(supabase, contactId)
+    if (!loaded) {
+      return NextResponse.json(
+        apiError('Contact not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    const result = await findFoursquareMatches(loaded.target, apiKey)
+    return NextResponse.json(apiSuccess(result))
+  } catch (error: unknown) {
+    console.error('[Foursquare Match] Score error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to match Foursquare venues: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+
+  const apiKey = getFoursquareApiKey()
+  if (!apiKey) {
+    return NextResponse.json(
+      apiError('Foursquare API key not configured', 'SERVICE_UNAVAILABLE'),
+      { status: 503 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+    const actor = await getEventActor(supabase)
+
+    const { rejection } = await guardTransition(supabase, contactId, 'foursquare', 'active')
+    if (rejection) {
+      return NextResponse.json(invalidTransition(rejection), { status: 409 })
+    }
+
+    const loaded = await loadMatchTarget(supabase, contactId)
+    if (!loaded) {
+      return NextResponse.json(
+        apiError('Contact not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    const { decision, candidates } = await findFoursquareMatches(loaded.target, apiKey)
+    const best = candidates[0]
+
+    if (decision === 'auto_link') {
+      const venueId = candidateVenueId(best)
+      await linkFoursquareVenue(supabase, {
+        contactId,
+        venueId,
+        venueName: best.venue.name,
+        googlePlaceId: loaded.googlePlaceId,
+        action: 'LINK_SCORED',
+        actor,
+        metadata: { match_confidence: best.confidence },
+      })
+      console.log(`[Foursquare Match] Linked ${contactId} to ${venueId} (${best.confidence}%)`)
+      return NextResponse.json(apiSuccess({ decision, candidates, linkedVenueId: venueId, review: null }))
+    }
+
+    if (decision === 'review') {
+      const review = await queueFoursquareReview(supabase, contactId, loaded.target.name, candidates, actor)
+      return NextResponse.json(apiSuccess({ decision, candidates, linkedVenueId: null, review }))
+    }
+
+    return NextResponse.json(apiSuccess({ decision, candidates, linkedVenueId: null, review: null }))
+  } catch (error: unknown) {
+    console.error('[Foursquare Match] Run error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to match Foursquare venue: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -7,11 +7,17 @@
  * NOTE: The Foursquare Propose Edit endpoint requires a Service Account API key.
  * If FOURSQUARE_SERVICE_ACCOUNT_KEY is not set, this will fall back to using
  * FOURSQUARE_API_KEY, which may return 403 if it's not a service account key.
+ *
+ * Submitted edits are tracked in foursquare_proposed_edits; the drift check
+ * marks them applied once the venue shows them (lib/onboarding/foursquare-drift).
  */
 
 import { NextResponse, type NextRequest } from 'next/server'
 import { apiSuccess, apiError } from '@/app/types/api'
 import { createClient } from '@/lib/supabase/server'
+import { getEventActor, getServiceSnapshot, recordEvent } from '@/lib/onboarding/events'
+import { recordProposedEdit } from '@/lib/onboarding/foursquare-drift'
+import { canonicalWebsite, normalizeZip, toE164, toStateCode } from '@/lib/normalize'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -78,10 +84,10 @@ export async function POST(
     if (name) editPayload.name = name
     if (address) editPayload.address = address
     if (city) editPayload.locality = city
-    if (state) editPayload.region = state
-    if (zip) editPayload.postcode = zip
-    if (tel) editPayload.tel = tel
-    if (website) editPayload.website = website
+    if (state) editPayload.region = toStateCode(state) ?? state
+    if (zip) editPayload.postcode = normalizeZip(zip) ?? zip
+    if (tel) editPayload.tel = toE164(tel) ?? tel
+    if (website) editPayload.website = canonicalWebsite(website) ?? website
 
     const controller = new AbortController()
     const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS)
@@ -125,6 +131,8 @@ export async function POST(
 
       const result = await response.json()
 
+      const before = await getServiceSnapshot(supabase, contactId, 'foursquare')
+
       // Update last_triggered_at in onboarding_status
       await supabase
         .from('onboarding_status')
@@ -137,6 +145,20 @@ export async function POST(
           { onConflict: 'hubspot_contact_id,service' }
         )
 
+      const actor = await getEventActor(supabase)
+      await recordProposedEdit(supabase, { contactId, venueId: fsqId, edits: editPayload, actor })
+
+      await recordEvent(supabase, {
+        contactId,
+        service: 'foursquare',
+        action: 'edit_proposed',
+        actor,
+        statusBefore: before?.status,
+        statusAfter: before?.status,
+        payloadBefore: before?.metadata,
+        payloadAfter: { fsq_id: fsqId, edits: editPayload },
+      })
+
       console.log(`[Foursquare Propose Edit] Submitted edit for venue ${fsqId} (contact ${contactId})`)
 
       return NextResponse.json(
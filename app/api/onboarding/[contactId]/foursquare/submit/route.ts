@@ -8,6 +8,9 @@
 import { NextResponse, type NextRequest } from 'next/server'
 import { apiSuccess, apiError } from '@/app/types/api'
 import { createClient } from '@/lib/supabase/server'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+import { guardTransition, invalidTransition } from '@/lib/onboarding/status'
+import { normalizeZip, toStateCode } from '@/lib/normalize'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -30,9 +33,24 @@ export async function POST(
     }
 
     const supabase = await createClient()
+    const actor = await getEventActor(supabase)
+
+    const linkExisting = !!fsq_id && typeof fsq_id === 'string'
+    const foursquareApiKey = process.env.FOURSQUARE_SERVICE_ACCOUNT_KEY || process.env.FOURSQUARE_API_KEY
+
+    // Linking or creating activates the venue; a manual export waits as pending
+    const { before, rejection } = await guardTransition(
+      supabase,
+      contactId,
+      'foursquare',
+      linkExisting || foursquareApiKey ? 'active' : 'pending'
+    )
+    if (rejection) {
+      return NextResponse.json(invalidTransition(rejection), { status: 409 })
+    }
 
     // If fsq_id is provided, link an existing venue instead of creating one
-    if (fsq_id && typeof fsq_id === 'string') {
+    if (linkExisting) {
       const { error: identityError } = await supabase
         .from('service_identity_map')
         .upsert(
@@ -61,6 +79,17 @@ export async function POST(
         console.warn('[Foursquare Submit] Failed to update onboarding status:', statusError)
       }
 
+      await recordEvent(supabase, {
+        contactId,
+        service: 'foursquare',
+        action: 'venue_linked',
+        actor,
+        statusBefore: before?.status,
+        statusAfter: 'active',
+        payloadBefore: before?.metadata,
+        payloadAfter: { venue_id: fsq_id, venue_name: name, linked: true },
+      })
+
       console.log(`[Foursquare Submit] Linked existing venue "${name}" (${fsq_id}) for contact ${contactId}`)
 
       return NextResponse.json(
@@ -73,16 +102,14 @@ export async function POST(
       )
     }
 
-    const foursquareApiKey = process.env.FOURSQUARE_SERVICE_ACCOUNT_KEY || process.env.FOURSQUARE_API_KEY
-
     if (foursquareApiKey) {
       // Attempt to create venue via Foursquare API
       try {
         const venuePayload: Record<string, unknown> = { name }
         if (address) venuePayload.address = address
         if (city) venuePayload.city = city
-        if (state) venuePayload.state = state
-        if (zip) venuePayload.zip = zip
+        if (state) venuePayload.state = toStateCode(state) ?? state
+        if (zip) venuePayload.zip = normalizeZip(zip) ?? zip
         if (lat && lng) {
           venuePayload.ll = `${lat},${lng}`
         }
@@ -147,6 +174,17 @@ export async function POST(
           console.warn('[Foursquare Submit] Failed to update onboarding status:', statusError)
         }
 
+        await recordEvent(supabase, {
+          contactId,
+          service: 'foursquare',
+          action: 'venue_created',
+          actor,
+          statusBefore: before?.status,
+          statusAfter: 'active',
+          payloadBefore: before?.metadata,
+          payloadAfter: { venue_id: venueId, venue_name: name, request: venuePayload },
+        })
+
         console.log(`[Foursquare Submit] Created venue "${name}" (${venueId}) for contact ${contactId}`)
 
         return NextResponse.json(
@@ -191,6 +229,17 @@ export async function POST(
         )
       }
 
+      await recordEvent(supabase, {
+        contactId,
+        service: 'foursquare',
+        action: 'manual_export',
+        actor,
+        statusBefore: before?.status,
+        statusAfter: 'pending',
+        payloadBefore: before?.metadata,
+        payloadAfter: { manual_export: true, venue_data: venueData },
+      })
+
       console.log(`[Foursquare Submit] Stored manual export for contact ${contactId}`)
 
       return NextResponse.json(
@@ -3,11 +3,16 @@
  *
  * PATCH /api/onboarding/[contactId]/identity
  * Set/update duda_site_code, chatbot_slug, foursquare_venue_id in the service identity map.
+ * A new duda_site_code is checked against Duda first; an unknown or
+ * inaccessible site is rejected with 400.
  */
 
 import { NextResponse, type NextRequest } from 'next/server'
 import { apiSuccess, apiError } from '@/app/types/api'
 import { createClient } from '@/lib/supabase/server'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+import type { DudaSite } from '@/lib/duda'
+import { DudaError, getDudaClient, isDudaConfigured } from '@/lib/duda'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -20,7 +25,10 @@ export async function PATCH(
 
   try {
     const body = await request.json()
-    const { duda_site_code, chatbot_slug, foursquare_venue_id, google_place_id } = body
+    const { chatbot_slug, foursquare_venue_id, google_place_id } = body
+    const duda_site_code = typeof body.duda_site_code === 'string'
+      ? body.duda_site_code.trim() || null
+      : body.duda_site_code
 
     // Build update payload with only provided fields
     const upsertData: Record<string, unknown> = {
@@ -34,6 +42,38 @@ export async function PATCH(
 
     const supabase = await createClient()
 
+    const { data: before } = await supabase
+      .from('service_identity_map')
+      .select('*')
+      .eq('hubspot_contact_id', contactId)
+      .maybeSingle()
+
+    // Verify a new site code against Duda before anything is built on it
+    let dudaSite: DudaSite | null = null
+    if (duda_site_code && duda_site_code !== before?.duda_site_code) {
+      if (!isDudaConfigured()) {
+        console.warn(`[Onboarding Identity] Duda API not configured, saving site code ${duda_site_code} unverified`)
+      } else {
+        try {
+          const validation = await getDudaClient().validateSiteCode(duda_site_code)
+          if (!validation.valid) {
+            return NextResponse.json(
+              apiError(validation.reason, 'VALIDATION_ERROR', { field: 'duda_site_code' }),
+              { status: 400 }
+            )
+          }
+          dudaSite = validation.site
+        } catch (error) {
+          if (!(error instanceof DudaError)) throw error
+          console.error('[Onboarding Identity] Duda site lookup failed:', error.message)
+          return NextResponse.json(
+            apiError(`Could not verify the Duda site code: ${error.message}`, 'EXTERNAL_API_ERROR'),
+            { status: 502 }
+          )
+        }
+      }
+    }
+
     const { data, error } = await supabase
       .from('service_identity_map')
       .upsert(upsertData, { onConflict: 'hubspot_contact_id' })
@@ -48,9 +88,23 @@ export async function PATCH(
       )
     }
 
+    // Only record the fields this request touched
+    const changedFields = Object.keys(upsertData).filter((key) => key !== 'hubspot_contact_id')
+    const pick = (row: Record<string, unknown> | null) =>
+      row ? Object.fromEntries(changedFields.map((key) => [key, row[key] ?? null])) : null
+
+    await recordEvent(supabase, {
+      contactId,
+      service: null,
+      action: 'identity_updated',
+      actor: await getEventActor(supabase),
+      payloadBefore: pick(before),
+      payloadAfter: pick(data),
+    })
+
     console.log(`[Onboarding Identity] Updated identity for contact ${contactId}`)
 
-    return NextResponse.json(apiSuccess(data))
+    return NextResponse.json(apiSuccess(data, dudaSite ? { duda_site: dudaSite } : undefined))
   } catch (error: unknown) {
     console.error('[Onboarding Identity] Unexpected error:', error)
     const message = error instanceof Error ? error.message : 'Unknown error'
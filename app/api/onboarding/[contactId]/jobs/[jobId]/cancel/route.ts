@@ -0,0 +1,65 @@
+/**
+ * Onboarding Job Cancel API Route
+ *
+ * POST /api/onboarding/[contactId]/jobs/[jobId]/cancel
+ * Cancel a queued job immediately, or ask the worker to abort a running one.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { ACTIVE_JOB_STATUSES } from '@/app/types/onboarding'
+import { createClient } from '@/lib/supabase/server'
+import { getJob, requestCancel } from '@/lib/onboarding/jobs'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; jobId: string }> }
+) {
+  const { contactId, jobId } = await params
+
+  try {
+    const supabase = await createClient()
+    const job = await getJob(supabase, contactId, jobId)
+
+    if (!job) {
+      return NextResponse.json(
+        apiError('Job not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    if (!ACTIVE_JOB_STATUSES.includes(job.status)) {
+      return NextResponse.json(
+        apiError(`Job is already ${job.status}`, 'INVALID_STATE'),
+        { status: 409 }
+      )
+    }
+
+    const updated = await requestCancel(supabase, job)
+    const cancelledNow = updated.status === 'cancelled'
+
+    await recordEvent(supabase, {
+      contactId,
+      service: job.service,
+      action: cancelledNow ? 'generation_cancelled' : 'cancel_requested',
+      actor: await getEventActor(supabase),
+      statusBefore: 'pending',
+      statusAfter: cancelledNow ? job.previous_service_status || 'not_started' : 'pending',
+      payloadAfter: { job_id: job.id, job_status: job.status },
+    })
+    console.log(`[Onboarding Jobs] Cancel requested for ${job.service} job ${job.id} (${job.status})`)
+
+    return NextResponse.json(apiSuccess(updated))
+  } catch (error: unknown) {
+    console.error('[Onboarding Jobs] Cancel error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to cancel job: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Onboarding Job API Route
+ *
+ * GET /api/onboarding/[contactId]/jobs/[jobId]
+ * Read a single background job (status, progress, attempts, result).
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { getJob } from '@/lib/onboarding/jobs'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; jobId: string }> }
+) {
+  const { contactId, jobId } = await params
+
+  try {
+    const supabase = await createClient()
+    const job = await getJob(supabase, contactId, jobId)
+
+    if (!job) {
+      return NextResponse.json(
+        apiError('Job not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(apiSuccess(job))
+  } catch (error: unknown) {
+    console.error('[Onboarding Jobs] Fetch error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch job: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
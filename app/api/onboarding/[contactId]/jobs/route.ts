@@ -0,0 +1,53 @@
+/**
+ * Onboarding Jobs API Route
+ *
+ * GET /api/onboarding/[contactId]/jobs?service=blogs&limit=10
+ * List recent background jobs for a contact, newest first.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import type { JobService } from '@/app/types/onboarding'
+import { createClient } from '@/lib/supabase/server'
+import { listJobs } from '@/lib/onboarding/jobs'
+import { JOB_SERVICE_IDS } from '@/lib/onboarding/registry'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const VALID_SERVICES: JobService[] = JOB_SERVICE_IDS
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+  const { searchParams } = request.nextUrl
+
+  const service = searchParams.get('service')
+  if (service && !VALID_SERVICES.includes(service as JobService)) {
+    return NextResponse.json(
+      apiError(`Invalid service "${service}". Must be one of: ${VALID_SERVICES.join(', ')}`, 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const limit = Math.max(1, Math.min(50, Number(searchParams.get('limit')) || 10))
+
+  try {
+    const supabase = await createClient()
+    const jobs = await listJobs(supabase, contactId, {
+      service: (service as JobService) || undefined,
+      limit,
+    })
+
+    return NextResponse.json(apiSuccess(jobs))
+  } catch (error: unknown) {
+    console.error('[Onboarding Jobs] List error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch jobs: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Landing Page Regenerate API Route
+ *
+ * POST /api/onboarding/[contactId]/landing-pages/[pageId]/regenerate
+ * Queue a one-page generation job for this city with the settings of its
+ * last generation. Returns 202 with the job; the new page lands in review
+ * and, once approved, replaces the live one in place.
+ */
+
+import { NextResponse, after, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { getLandingPage, regenerateLandingPage } from '@/lib/onboarding/landing-pages'
+import { getActiveJob } from '@/lib/onboarding/jobs'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+import { guardTransition, invalidTransition } from '@/lib/onboarding/status'
+import { FUNCTION_TIME_BUDGET_MS, kickQueue } from '@/lib/onboarding/job-worker'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 800 // Vercel Pro max with Fluid compute - the job may start in after()
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; pageId: string }> }
+) {
+  const { contactId, pageId } = await params
+
+  if (!process.env.LANDING_PAGES_URL) {
+    return NextResponse.json(
+      apiError('Landing pages service not configured', 'SERVICE_UNAVAILABLE'),
+      { status: 503 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+
+    const page = await getLandingPage(supabase, contactId, pageId)
+    if (!page) {
+      return NextResponse.json(
+        apiError('Landing page not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    const activeJob = await getActiveJob(supabase, contactId, 'landing_pages')
+    if (activeJob) {
+      return NextResponse.json(
+        apiError('Landing page generation is already in progress for this contact', 'INVALID_STATE', { job: activeJob }),
+        { status: 409 }
+      )
+    }
+
+    const { rejection } = await guardTransition(supabase, contactId, 'landing_pages', 'pending')
+    if (rejection) {
+      return NextResponse.json(invalidTransition(rejection), { status: 409 })
+    }
+
+    const actor = await getEventActor(supabase)
+    const job = await regenerateLandingPage(supabase, page, actor)
+
+    await recordEvent(supabase, {
+      contactId,
+      service: 'landing_pages',
+      action: 'page_regenerated',
+      actor,
+      statusBefore: job.previous_service_status,
+      statusAfter: 'pending',
+      payloadAfter: { page_id: page.id, location: page.location, job_id: job.id },
+    })
+
+    console.log(`[Landing Pages] Queued regeneration job ${job.id} for ${page.location}`)
+
+    after(() => kickQueue(FUNCTION_TIME_BUDGET_MS))
+
+    return NextResponse.json(apiSuccess({ job }), { status: 202 })
+  } catch (error: unknown) {
+    console.error('[Landing Pages] Regenerate error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to regenerate landing page: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Landing Page API Route
+ *
+ * DELETE /api/onboarding/[contactId]/landing-pages/[pageId]
+ * Remove one city page: its row in the Duda collection (if published), any
+ * draft still in review, and the inventory row.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { DudaError } from '@/lib/duda'
+import { deleteLandingPage, getLandingPage } from '@/lib/onboarding/landing-pages'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; pageId: string }> }
+) {
+  const { contactId, pageId } = await params
+
+  try {
+    const supabase = await createClient()
+
+    const page = await getLandingPage(supabase, contactId, pageId)
+    if (!page) {
+      return NextResponse.json(
+        apiError('Landing page not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    const { data: identity } = await supabase
+      .from('service_identity_map')
+      .select('duda_site_code')
+      .eq('hubspot_contact_id', contactId)
+      .maybeSingle()
+
+    try {
+      await deleteLandingPage(supabase, page, identity?.duda_site_code ?? null)
+    } catch (err) {
+      if (err instanceof DudaError) {
+        console.error(`[Landing Pages] Duda delete failed for page ${pageId}:`, err.message)
+        return NextResponse.json(
+          apiError(`Failed to remove the page from Duda: ${err.message}`, 'EXTERNAL_API_ERROR'),
+          { status: 502 }
+        )
+      }
+      throw err
+    }
+
+    const actor = await getEventActor(supabase)
+    await recordEvent(supabase, {
+      contactId,
+      service: 'landing_pages',
+      action: 'page_deleted',
+      actor,
+      payloadBefore: {
+        page_id: page.id,
+        location: page.location,
+        url: page.url,
+        collection_row_id: page.collection_row_id,
+      },
+    })
+
+    console.log(`[Landing Pages] Deleted page ${pageId} (${page.location}) for contact ${contactId}`)
+
+    return NextResponse.json(apiSuccess({ id: page.id, deleted: true }))
+  } catch (error: unknown) {
+    console.error('[Landing Pages] Delete error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to delete landing page: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
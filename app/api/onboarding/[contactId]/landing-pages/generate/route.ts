@@ -2,19 +2,25 @@
  * Landing Pages Generate API Route
  *
  * POST /api/onboarding/[contactId]/landing-pages/generate
- * Proxy to landing pages service to generate location pages.
- * Returns Server-Sent Events (SSE) stream with progress heartbeats.
+ * Queue a landing page generation job for a contact's site.
+ * Cities the contact already has a page for are dropped from
+ * priority_locations and excluded from the rest (returned in
+ * meta.skipped_locations); use the per-page regenerate to redo one.
+ * Returns 202 with the job; poll /api/onboarding/[contactId]/jobs/[jobId] for progress.
  */
 
-import { type NextRequest } from 'next/server'
+import { NextResponse, after, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
 import { createClient } from '@/lib/supabase/server'
+import { enqueueJob, getActiveJob } from '@/lib/onboarding/jobs'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+import { guardTransition, invalidTransition } from '@/lib/onboarding/status'
+import { listLandingPages, locationKey } from '@/lib/onboarding/landing-pages'
+import { FUNCTION_TIME_BUDGET_MS, kickQueue } from '@/lib/onboarding/job-worker'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
-export const maxDuration = 300 // Vercel Pro max (5 min)
-
-const SERVICE_TIMEOUT = 360_000 // 6 minutes
-const HEARTBEAT_INTERVAL = 5_000 // 5 seconds
+export const maxDuration = 800 // Vercel Pro max with Fluid compute - the job may start in after()
 
 export async function POST(
   request: NextRequest,
@@ -26,9 +32,9 @@ export async function POST(
   try {
     body = await request.json()
   } catch {
-    return new Response(
-      JSON.stringify({ error: 'Invalid JSON body' }),
-      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
     )
   }
 
@@ -38,193 +44,104 @@ export async function POST(
   // Validate required fields
   for (const [field, value] of Object.entries({ duda_site_code, base_location, industry })) {
     if (!value || typeof value !== 'string') {
-      return new Response(
-        JSON.stringify({ error: `Missing or invalid "${field}" in request body` }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      return NextResponse.json(
+        apiError(`Missing or invalid "${field}" in request body`, 'BAD_REQUEST'),
+        { status: 400 }
       )
     }
   }
 
-  // Validate priority_locations if provided
-  const priorityList: string[] = Array.isArray(priority_locations)
-    ? priority_locations.filter((l): l is string => typeof l === 'string' && l.trim() !== '')
+  // Validate priority_locations if provided (repeats of the same city dropped)
+  const requestedKeys = new Set<string>()
+  const requestedList: string[] = Array.isArray(priority_locations)
+    ? priority_locations
+        .filter((l): l is string => typeof l === 'string' && l.trim() !== '')
+        .map((l) => l.trim())
+        .filter((l) => {
+          const key = locationKey(l)
+          if (requestedKeys.has(key)) return false
+          requestedKeys.add(key)
+          return true
+        })
     : []
 
-  if (priorityList.length > num_pages) {
-    return new Response(
-      JSON.stringify({ error: `priority_locations (${priorityList.length}) cannot exceed num_pages (${num_pages})` }),
-      { status: 400, headers: { 'Content-Type': 'application/json' } }
+  if (requestedList.length > num_pages) {
+    return NextResponse.json(
+      apiError(`priority_locations (${requestedList.length}) cannot exceed num_pages (${num_pages})`, 'BAD_REQUEST'),
+      { status: 400 }
     )
   }
 
-  const landingPagesUrl = process.env.LANDING_PAGES_URL
-  if (!landingPagesUrl) {
-    return new Response(
-      JSON.stringify({ error: 'Landing pages service not configured' }),
-      { status: 503, headers: { 'Content-Type': 'application/json' } }
+  if (!process.env.LANDING_PAGES_URL) {
+    return NextResponse.json(
+      apiError('Landing pages service not configured', 'SERVICE_UNAVAILABLE'),
+      { status: 503 }
     )
   }
 
-  const stream = new ReadableStream({
-    async start(controller) {
-      const encoder = new TextEncoder()
-      let heartbeatTimer: ReturnType<typeof setInterval> | null = null
-      let closed = false
-      const startTime = Date.now()
-
-      const send = (data: Record<string, unknown>) => {
-        if (closed) return
-        try {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`))
-        } catch {
-          closed = true
-        }
-      }
-
-      const close = () => {
-        if (closed) return
-        closed = true
-        if (heartbeatTimer) clearInterval(heartbeatTimer)
-        try {
-          controller.close()
-        } catch {
-          // Already closed
-        }
-      }
-
-      // Send initial event
-      send({ type: 'started', num_pages, priority_locations: priorityList })
-
-      // Start heartbeat
-      heartbeatTimer = setInterval(() => {
-        const elapsed = Math.round((Date.now() - startTime) / 1000)
-        send({
-          type: 'progress',
-          elapsed,
-          num_pages,
-          message: 'Still working...',
-        })
-      }, HEARTBEAT_INTERVAL)
+  try {
+    const supabase = await createClient()
 
-      // Build service payload
-      const servicePayload: Record<string, unknown> = {
-        site_code: duda_site_code,
-        industry,
-        base_location,
+    const activeJob = await getActiveJob(supabase, contactId, 'landing_pages')
+    if (activeJob) {
+      return NextResponse.json(
+        apiError('Landing page generation is already in progress for this contact', 'INVALID_STATE', { job: activeJob }),
+        { status: 409 }
+      )
+    }
+
+    const { rejection } = await guardTransition(supabase, contactId, 'landing_pages', 'pending')
+    if (rejection) {
+      return NextResponse.json(invalidTransition(rejection), { status: 409 })
+    }
+
+    // Skip cities that already have a page
+    const existingPages = await listLandingPages(supabase, contactId)
+    const existingKeys = new Set(existingPages.map((page) => page.location_key))
+    const priorityList = requestedList.filter((l) => !existingKeys.has(locationKey(l)))
+    const skippedLocations = requestedList.filter((l) => existingKeys.has(locationKey(l)))
+    const excludeLocations = existingPages.map((page) => page.location)
+
+    const actor = await getEventActor(supabase)
+
+    const job = await enqueueJob(supabase, {
+      contactId,
+      service: 'landing_pages',
+      payload: {
         num_pages,
-      }
-      if (collection_name) servicePayload.collection_name = collection_name
-      if (priorityList.length > 0) servicePayload.priority_locations = priorityList
-
-      // Call landing pages service
-      const abortController = new AbortController()
-      const timeout = setTimeout(() => abortController.abort(), SERVICE_TIMEOUT)
-
-      try {
-        const response = await fetch(`${landingPagesUrl}/generate`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(servicePayload),
-          signal: abortController.signal,
-        })
-        clearTimeout(timeout)
-
-        if (!response.ok) {
-          const errorText = await response.text().catch(() => '')
-          console.error(`[Landing Pages Generate] Service returned ${response.status}: ${errorText}`)
-
-          const supabase = await createClient()
-          await supabase.from('onboarding_status').upsert(
-            {
-              hubspot_contact_id: contactId,
-              service: 'landing_pages',
-              status: 'error',
-              last_triggered_at: new Date().toISOString(),
-              metadata: { num_pages, base_location, duda_site_code, industry, priority_locations: priorityList, error: `Service returned ${response.status}` },
-            },
-            { onConflict: 'hubspot_contact_id,service' }
-          )
-
-          send({ type: 'error', message: `Landing pages service returned ${response.status}` })
-          close()
-          return
-        }
-
-        const result = await response.json()
-
-        // Upsert success status
-        const supabase = await createClient()
-        const { error: statusError } = await supabase.from('onboarding_status').upsert(
-          {
-            hubspot_contact_id: contactId,
-            service: 'landing_pages',
-            status: 'active',
-            last_triggered_at: new Date().toISOString(),
-            metadata: {
-              num_pages,
-              base_location,
-              duda_site_code,
-              industry,
-              priority_locations: priorityList,
-              pages_generated: result.pages_generated ?? result.num_pages,
-              pages_sent_to_duda: result.pages_sent_to_duda,
-            },
-          },
-          { onConflict: 'hubspot_contact_id,service' }
-        )
-
-        if (statusError) {
-          console.warn('[Landing Pages Generate] Failed to update onboarding status:', statusError)
-        }
-
-        console.log(`[Landing Pages Generate] Completed ${num_pages} pages for site ${duda_site_code} (${industry})`)
-
-        send({
-          type: 'complete',
-          result,
-          pages_generated: result.pages_generated ?? result.num_pages,
-          pages_sent_to_duda: result.pages_sent_to_duda,
-        })
-        close()
-      } catch (fetchError: unknown) {
-        clearTimeout(timeout)
-
-        const isTimeout = fetchError instanceof Error && fetchError.name === 'AbortError'
-        const errorMessage = isTimeout
-          ? 'Landing pages service timed out'
-          : fetchError instanceof Error
-            ? fetchError.message
-            : 'Unknown error'
-
-        console.error('[Landing Pages Generate] Error:', errorMessage)
-
-        try {
-          const supabase = await createClient()
-          await supabase.from('onboarding_status').upsert(
-            {
-              hubspot_contact_id: contactId,
-              service: 'landing_pages',
-              status: 'error',
-              last_triggered_at: new Date().toISOString(),
-              metadata: { num_pages, base_location, duda_site_code, industry, priority_locations: priorityList, error: errorMessage },
-            },
-            { onConflict: 'hubspot_contact_id,service' }
-          )
-        } catch (dbError) {
-          console.error('[Landing Pages Generate] Failed to update error status:', dbError)
-        }
-
-        send({ type: 'error', message: errorMessage })
-        close()
-      }
-    },
-  })
-
-  return new Response(stream, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      Connection: 'keep-alive',
-    },
-  })
+        base_location,
+        duda_site_code,
+        industry,
+        priority_locations: priorityList,
+        ...(excludeLocations.length > 0 ? { exclude_locations: excludeLocations } : {}),
+        ...(collection_name ? { collection_name } : {}),
+      },
+      createdBy: actor.id,
+    })
+
+    await recordEvent(supabase, {
+      contactId,
+      service: 'landing_pages',
+      action: 'generation_queued',
+      actor,
+      statusBefore: job.previous_service_status,
+      statusAfter: 'pending',
+      payloadAfter: { ...job.payload, job_id: job.id },
+    })
+
+    console.log(`[Landing Pages Generate] Queued job ${job.id}: ${num_pages} pages for ${base_location}`)
+    if (skippedLocations.length > 0) {
+      console.log(`[Landing Pages Generate] Skipped existing cities: ${skippedLocations.join(', ')}`)
+    }
+
+    after(() => kickQueue(FUNCTION_TIME_BUDGET_MS))
+
+    return NextResponse.json(apiSuccess({ job }, { skipped_locations: skippedLocations }), { status: 202 })
+  } catch (error: unknown) {
+    console.error('[Landing Pages Generate] Error:', error)
+    return NextResponse.json(
+      apiError(error instanceof Error ? error.message : 'Failed to queue landing page generation', 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
 }
@@ -0,0 +1,36 @@
+/**
+ * Landing Pages API Route
+ *
+ * GET /api/onboarding/[contactId]/landing-pages
+ * The contact's landing page inventory, one row per city, with the review
+ * state of each page's latest draft.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { listLandingPages } from '@/lib/onboarding/landing-pages'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+
+  try {
+    const supabase = await createClient()
+    const pages = await listLandingPages(supabase, contactId)
+
+    return NextResponse.json(apiSuccess(pages, { count: pages.length }))
+  } catch (error: unknown) {
+    console.error('[Landing Pages] List error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch landing pages: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
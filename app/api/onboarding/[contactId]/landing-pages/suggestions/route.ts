@@ -0,0 +1,78 @@
+/**
+ * Landing Page Geo-Target Suggestions API Route
+ *
+ * GET /api/onboarding/[contactId]/landing-pages/suggestions?radius_miles=25&limit=50&min_population=0&city=&state=&zip=
+ * Ranked cities/communities around the business for priority_locations,
+ * excluding cities that already have a page. Searches around the linked
+ * Google place, else the zip, else city + state (the contact's HubSpot
+ * address, passed by the caller).
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { isUsPlacesDatasetAvailable } from '@/lib/geo/us-places'
+import {
+  DEFAULT_SUGGESTION_RADIUS_MILES,
+  MAX_SUGGESTION_RADIUS_MILES,
+  suggestGeoTargets,
+} from '@/lib/onboarding/geo-targets'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+  const { searchParams } = request.nextUrl
+
+  const radiusMiles = Number(searchParams.get('radius_miles') || DEFAULT_SUGGESTION_RADIUS_MILES)
+  if (!Number.isFinite(radiusMiles) || radiusMiles <= 0 || radiusMiles > MAX_SUGGESTION_RADIUS_MILES) {
+    return NextResponse.json(
+      apiError(`radius_miles must be between 1 and ${MAX_SUGGESTION_RADIUS_MILES}`, 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const limit = Math.max(1, Math.min(200, Number(searchParams.get('limit')) || 50))
+  const minPopulation = Math.max(0, Number(searchParams.get('min_population')) || 0)
+
+  if (!isUsPlacesDatasetAvailable()) {
+    return NextResponse.json(
+      apiError('US places dataset is not installed (see scripts/import/build-us-places.ts)', 'SERVICE_UNAVAILABLE'),
+      { status: 503 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+    const result = await suggestGeoTargets(
+      supabase,
+      contactId,
+      {
+        city: searchParams.get('city'),
+        state: searchParams.get('state'),
+        zip: searchParams.get('zip'),
+      },
+      { radiusMiles, limit, minPopulation }
+    )
+
+    if (!result) {
+      return NextResponse.json(
+        apiError('Could not locate this business. Link a Google place or add a ZIP code or city and state.', 'VALIDATION_ERROR'),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(apiSuccess(result))
+  } catch (error: unknown) {
+    console.error('[Geo Targets] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to suggest locations: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * NAP Consistency API Route
+ *
+ * GET /api/onboarding/[contactId]/nap?limit=20
+ * Stored audit runs, newest first.
+ *
+ * POST /api/onboarding/[contactId]/nap
+ * Read the contact's listing from HubSpot, enriched_businesses, the linked
+ * Google place and Foursquare venue, the GBP location and BrightLocal,
+ * score each against the reference record and store the run.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { getEventActor } from '@/lib/onboarding/events'
+import { listNapAudits, runNapAudit } from '@/lib/nap/audit'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+  const limit = Math.max(1, Math.min(100, Number(request.nextUrl.searchParams.get('limit')) || 20))
+
+  try {
+    const supabase = await createClient()
+    const audits = await listNapAudits(supabase, contactId, limit)
+
+    return NextResponse.json(apiSuccess(audits, { count: audits.length }))
+  } catch (error: unknown) {
+    console.error('[NAP Audit] List error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch NAP audits: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+
+  try {
+    const supabase = await createClient()
+    const actor = await getEventActor(supabase)
+    const audit = await runNapAudit(supabase, contactId, actor)
+
+    console.log(`[NAP Audit] ${actor.email ?? 'unknown'} audited ${contactId}: score ${audit.score ?? 'n/a'}, ${audit.fixes.length} fixes`)
+
+    return NextResponse.json(apiSuccess(audit), { status: 201 })
+  } catch (error: unknown) {
+    console.error('[NAP Audit] Run error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to run NAP audit: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
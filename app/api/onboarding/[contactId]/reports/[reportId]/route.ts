@@ -0,0 +1,78 @@
+/**
+ * Client Report API Route
+ *
+ * GET /api/onboarding/[contactId]/reports/[reportId]
+ * The archived report as an HTML page (print it to save a PDF).
+ *
+ * DELETE /api/onboarding/[contactId]/reports/[reportId]
+ * Remove the report and its archived file. Share links stop working.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { deleteReport, downloadReportHtml, getReport } from '@/lib/reports/monthly-report'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; reportId: string }> }
+) {
+  const { contactId, reportId } = await params
+
+  try {
+    const supabase = await createClient()
+    const report = await getReport(supabase, contactId, reportId)
+
+    if (!report) {
+      return NextResponse.json(
+        apiError('Report not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    const html = await downloadReportHtml(supabase, report)
+    return new NextResponse(html, {
+      headers: { 'content-type': 'text/html; charset=utf-8', 'cache-control': 'private, no-store' },
+    })
+  } catch (error: unknown) {
+    console.error('[Client Reports] Download error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to load report: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; reportId: string }> }
+) {
+  const { contactId, reportId } = await params
+
+  try {
+    const supabase = await createClient()
+    const report = await getReport(supabase, contactId, reportId)
+
+    if (!report) {
+      return NextResponse.json(
+        apiError('Report not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    await deleteReport(supabase, report)
+
+    return NextResponse.json(apiSuccess({ id: report.id, deleted: true }))
+  } catch (error: unknown) {
+    console.error('[Client Reports] Delete error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to delete report: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Client Report Share API Route
+ *
+ * POST /api/onboarding/[contactId]/reports/[reportId]/share
+ * A signed link the client can open without logging in, valid for
+ * expires_in_days (default 7, max 30).
+ *
+ * Body: { expires_in_days?: number }
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import {
+  DEFAULT_SHARE_DAYS,
+  MAX_SHARE_DAYS,
+  createReportShareLink,
+  getReport,
+} from '@/lib/reports/monthly-report'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; reportId: string }> }
+) {
+  const { contactId, reportId } = await params
+
+  let body: Record<string, unknown> = {}
+  try {
+    const text = await request.text()
+    if (text) body = JSON.parse(text)
+  } catch {
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const days = body.expires_in_days ?? DEFAULT_SHARE_DAYS
+  if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_SHARE_DAYS) {
+    return NextResponse.json(
+      apiError(`"expires_in_days" must be an integer from 1 to ${MAX_SHARE_DAYS}`, 'VALIDATION_ERROR', { field: 'expires_in_days' }),
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+    const report = await getReport(supabase, contactId, reportId)
+
+    if (!report) {
+      return NextResponse.json(
+        apiError('Report not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    const link = await createReportShareLink(supabase, report, days, request.nextUrl.origin)
+
+    return NextResponse.json(apiSuccess(link))
+  } catch (error: unknown) {
+    console.error('[Client Reports] Share error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to create share link: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
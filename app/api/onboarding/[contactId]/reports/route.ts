@@ -0,0 +1,99 @@
+/**
+ * Client Reports API Route
+ *
+ * GET /api/onboarding/[contactId]/reports
+ * Archived monthly reports, newest month first.
+ *
+ * POST /api/onboarding/[contactId]/reports
+ * Generate and archive the report for a month (default: last month).
+ * Regenerating a month adds a new version.
+ *
+ * Body: { month?: 'YYYY-MM' }
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { getEventActor } from '@/lib/onboarding/events'
+import { generateMonthlyReport, listReports } from '@/lib/reports/monthly-report'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const MONTH_RE = /^\d{4}-(0[1-9]|1[0-2])$/
+
+function lastMonth(): string {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().slice(0, 7)
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+
+  try {
+    const supabase = await createClient()
+    const reports = await listReports(supabase, contactId)
+
+    return NextResponse.json(apiSuccess(reports, { count: reports.length }))
+  } catch (error: unknown) {
+    console.error('[Client Reports] List error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch reports: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+
+  let body: Record<string, unknown> = {}
+  try {
+    const text = await request.text()
+    if (text) body = JSON.parse(text)
+  } catch {
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const month = body.month ?? lastMonth()
+  if (typeof month !== 'string' || !MONTH_RE.test(month)) {
+    return NextResponse.json(
+      apiError('"month" must be YYYY-MM', 'VALIDATION_ERROR', { field: 'month' }),
+      { status: 400 }
+    )
+  }
+
+  if (month > new Date().toISOString().slice(0, 7)) {
+    return NextResponse.json(
+      apiError('Cannot report on a future month', 'VALIDATION_ERROR', { field: 'month' }),
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+    const actor = await getEventActor(supabase)
+    const report = await generateMonthlyReport(supabase, contactId, month, actor)
+
+    console.log(`[Client Reports] ${actor.email ?? 'unknown'} generated ${month} report ${report.id} for ${contactId}`)
+
+    return NextResponse.json(apiSuccess(report), { status: 201 })
+  } catch (error: unknown) {
+    console.error('[Client Reports] Generate error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to generate report: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -2,24 +2,36 @@
  * Onboarding Status API Route
  *
  * GET /api/onboarding/[contactId]/status
- * Returns the full onboarding picture: identity map + all 4 service statuses.
+ * Returns the full onboarding picture: identity map, the package the
+ * customer bought (lib/onboarding/packages.ts) and a status for every
+ * registered service (lib/onboarding/registry.ts).
+ *
+ * PATCH /api/onboarding/[contactId]/status
+ * Manually pause, resume (active) or reset (not_started) one service.
+ * Body: { service, status }. Only transitions allowed by the status state
+ * machine are accepted (lib/onboarding/status.ts).
  */
 
 import { NextResponse, type NextRequest } from 'next/server'
 import { apiSuccess, apiError } from '@/app/types/api'
+import type { ServiceStatus } from '@/app/types/onboarding'
 import { createClient } from '@/lib/supabase/server'
+import { IDENTITY_FIELDS, SERVICE_IDS, isServiceType } from '@/lib/onboarding/registry'
+import { getEventActor, recordEvent } from '@/lib/onboarding/events'
+import { guardTransition, invalidTransition } from '@/lib/onboarding/status'
+import { getContactPackage } from '@/lib/onboarding/packages'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
 const DEFAULT_IDENTITY = {
   hubspot_contact_id: '',
-  duda_site_code: null,
-  chatbot_slug: null,
-  foursquare_venue_id: null,
-  google_place_id: null,
+  ...Object.fromEntries(IDENTITY_FIELDS.map((field) => [field, null])),
 }
 
+/** pending and error are only ever set by the work itself (jobs, provisioning) */
+const MANUAL_STATUSES: ServiceStatus[] = ['paused', 'active', 'not_started']
+
 const DEFAULT_SERVICE_STATUS = {
   status: 'not_started',
   provisioned_at: null,
@@ -66,12 +78,9 @@ export async function GET(
     }
 
     // Build services map from status rows
-    const serviceMap: Record<string, typeof DEFAULT_SERVICE_STATUS> = {
-      chatbot: { ...DEFAULT_SERVICE_STATUS },
-      blogs: { ...DEFAULT_SERVICE_STATUS },
-      landing_pages: { ...DEFAULT_SERVICE_STATUS },
-      foursquare: { ...DEFAULT_SERVICE_STATUS },
-    }
+    const serviceMap: Record<string, typeof DEFAULT_SERVICE_STATUS> = Object.fromEntries(
+      SERVICE_IDS.map((service) => [service, { ...DEFAULT_SERVICE_STATUS }])
+    )
 
     if (statuses) {
       for (const row of statuses) {
@@ -86,10 +95,13 @@ export async function GET(
       }
     }
 
+    const purchased = await getContactPackage(supabase, contactId)
+
     return NextResponse.json(
       apiSuccess({
         identity: identity || { ...DEFAULT_IDENTITY, hubspot_contact_id: contactId },
         services: serviceMap,
+        package: purchased,
       })
     )
   } catch (error: unknown) {
@@ -101,3 +113,83 @@ export async function GET(
     )
   }
 }
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const { service, status } = body
+
+  if (!isServiceType(service)) {
+    return NextResponse.json(
+      apiError(`Invalid "service" - expected one of: ${SERVICE_IDS.join(', ')}`, 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const to = status as ServiceStatus
+  if (!MANUAL_STATUSES.includes(to)) {
+    return NextResponse.json(
+      apiError(`Invalid "status" - expected one of: ${MANUAL_STATUSES.join(', ')}`, 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+
+    const { before, from, rejection } = await guardTransition(supabase, contactId, service, to)
+    if (rejection) {
+      return NextResponse.json(invalidTransition(rejection), { status: 409 })
+    }
+
+    const { error: statusError } = await supabase
+      .from('onboarding_status')
+      .upsert(
+        { hubspot_contact_id: contactId, service, status: to },
+        { onConflict: 'hubspot_contact_id,service' }
+      )
+
+    if (statusError) {
+      console.error('[Onboarding Status] Update error:', statusError)
+      return NextResponse.json(
+        apiError('Failed to update onboarding status', 'INTERNAL_ERROR'),
+        { status: 500 }
+      )
+    }
+
+    await recordEvent(supabase, {
+      contactId,
+      service,
+      action: 'status_changed',
+      actor: await getEventActor(supabase),
+      statusBefore: from,
+      statusAfter: to,
+      payloadBefore: before?.metadata,
+      payloadAfter: before?.metadata,
+    })
+
+    console.log(`[Onboarding Status] ${service} for contact ${contactId}: ${from} → ${to}`)
+
+    return NextResponse.json(apiSuccess({ service, from, status: to }))
+  } catch (error: unknown) {
+    console.error('[Onboarding Status] Unexpected error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to update onboarding status: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
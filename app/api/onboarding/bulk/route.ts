@@ -0,0 +1,138 @@
+/**
+ * Bulk Onboarding API Route
+ *
+ * POST /api/onboarding/bulk
+ * Run one onboarding action (the provision handler of a registered
+ * service) for up to 100 contacts selected on the Companies list.
+ * Returns a per-contact report; set dry_run to preview what would
+ * happen without writing anything.
+ */
+
+import { NextResponse, after, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import type { BulkContact } from '@/app/types/onboarding'
+import { BULK_ACTION_LABELS } from '@/app/types/onboarding'
+import { createClient } from '@/lib/supabase/server'
+import { getEventActor } from '@/lib/onboarding/events'
+import { BULK_MAX_CONTACTS, runBulkAction } from '@/lib/onboarding/bulk'
+import { SERVICE_IDS, isJobService, isServiceType } from '@/lib/onboarding/registry'
+import { SERVICE_HANDLERS } from '@/lib/onboarding/service-handlers'
+import { FUNCTION_TIME_BUDGET_MS, kickQueue } from '@/lib/onboarding/job-worker'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 800 // Vercel Pro max with Fluid compute - Foursquare creates run inline
+
+/** Services that can be provisioned in bulk */
+const BULK_ACTIONS = SERVICE_IDS.filter((id) => SERVICE_HANDLERS[id].provision)
+
+function parseContact(value: unknown): BulkContact | null {
+  if (!value || typeof value !== 'object') return null
+  const c = value as Record<string, unknown>
+  if (!c.contactId || typeof c.contactId !== 'string') return null
+  if (!c.name || typeof c.name !== 'string') return null
+
+  const str = (v: unknown) => (typeof v === 'string' && v.trim() !== '' ? v.trim() : null)
+  return {
+    contactId: c.contactId,
+    name: c.name.trim(),
+    email: str(c.email),
+    phone: str(c.phone),
+    website: str(c.website),
+    address: str(c.address),
+    city: str(c.city),
+    state: str(c.state),
+    zip: str(c.zip),
+    industry: str(c.industry),
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const action = body.action
+  if (!isServiceType(action) || !BULK_ACTIONS.includes(action)) {
+    return NextResponse.json(
+      apiError(`Invalid "action" - expected one of: ${BULK_ACTIONS.join(', ')}`, 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  if (!Array.isArray(body.contacts) || body.contacts.length === 0) {
+    return NextResponse.json(
+      apiError('Missing or empty "contacts" array in request body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  if (body.contacts.length > BULK_MAX_CONTACTS) {
+    return NextResponse.json(
+      apiError(`At most ${BULK_MAX_CONTACTS} contacts per bulk request (got ${body.contacts.length})`, 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const contacts = body.contacts.map(parseContact)
+  const invalidIndex = contacts.findIndex((c) => c === null)
+  if (invalidIndex !== -1) {
+    return NextResponse.json(
+      apiError(`contacts[${invalidIndex}] must include "contactId" and "name"`, 'VALIDATION_ERROR'),
+      { status: 400 }
+    )
+  }
+
+  // Drop duplicate selections so a contact is never processed twice
+  const uniqueContacts = Array.from(
+    new Map((contacts as BulkContact[]).map((c) => [c.contactId, c])).values()
+  )
+
+  const dryRun = body.dry_run === true
+
+  // Checked up front so a misconfiguration fails once, not per row
+  if (!dryRun && !SERVICE_HANDLERS[action].isConfigured()) {
+    return NextResponse.json(
+      apiError(`${BULK_ACTION_LABELS[action]} is not configured on this server`, 'SERVICE_UNAVAILABLE'),
+      { status: 503 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+    const actor = await getEventActor(supabase)
+
+    const result = await runBulkAction(supabase, {
+      action,
+      contacts: uniqueContacts,
+      options: (body.options as Record<string, unknown>) || {},
+      dryRun,
+      concurrency: Number(body.concurrency) || undefined,
+      actor,
+    })
+
+    const { summary } = result
+    console.log(
+      `[Bulk Onboarding] ${action}${dryRun ? ' (dry run)' : ''}: ` +
+      `${summary.success} succeeded, ${summary.skipped} skipped, ${summary.failed} failed of ${summary.total}`
+    )
+
+    if (!dryRun && isJobService(action) && summary.success > 0) {
+      after(() => kickQueue(FUNCTION_TIME_BUDGET_MS))
+    }
+
+    return NextResponse.json(apiSuccess(result))
+  } catch (error: unknown) {
+    console.error('[Bulk Onboarding] Error:', error)
+    return NextResponse.json(
+      apiError(error instanceof Error ? error.message : 'Failed to run bulk action', 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
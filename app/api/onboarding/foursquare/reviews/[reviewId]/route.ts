@@ -0,0 +1,100 @@
+/**
+ * Foursquare Match Review API Route
+ *
+ * POST /api/onboarding/foursquare/reviews/[reviewId]
+ * Resolve a pending review:
+ *   { "action": "approve", "venueId": "..." } links that candidate
+ *   { "action": "reject" } - none of them is the business; a new venue can
+ *   be created from the Foursquare tab (bulk runs will create one too)
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { getEventActor } from '@/lib/onboarding/events'
+import {
+  approveFoursquareReview,
+  candidateVenueId,
+  getFoursquareReview,
+  rejectFoursquareReview,
+} from '@/lib/onboarding/foursquare-match'
+import { guardTransition, invalidTransition } from '@/lib/onboarding/status'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ reviewId: string }> }
+) {
+  const { reviewId } = await params
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const action = body.action
+  if (action !== 'approve' && action !== 'reject') {
+    return NextResponse.json(
+      apiError('"action" must be "approve" or "reject"', 'VALIDATION_ERROR', { field: 'action' }),
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+
+    const review = await getFoursquareReview(supabase, reviewId)
+    if (!review) {
+      return NextResponse.json(
+        apiError('Match review not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    if (review.status !== 'pending') {
+      return NextResponse.json(
+        apiError(`This review was already ${review.status}`, 'INVALID_STATE'),
+        { status: 409 }
+      )
+    }
+
+    const actor = await getEventActor(supabase)
+
+    if (action === 'reject') {
+      const updated = await rejectFoursquareReview(supabase, review, actor)
+      return NextResponse.json(apiSuccess(updated))
+    }
+
+    const venueId = typeof body.venueId === 'string' ? body.venueId : ''
+    if (!review.candidates.some((c) => candidateVenueId(c) === venueId)) {
+      return NextResponse.json(
+        apiError('"venueId" must be one of the review\'s candidates', 'VALIDATION_ERROR', { field: 'venueId' }),
+        { status: 400 }
+      )
+    }
+
+    const { rejection } = await guardTransition(supabase, review.hubspot_contact_id, 'foursquare', 'active')
+    if (rejection) {
+      return NextResponse.json(invalidTransition(rejection), { status: 409 })
+    }
+
+    const updated = await approveFoursquareReview(supabase, review, venueId, actor)
+    console.log(`[Foursquare Match] ${actor.email ?? 'unknown'} linked ${review.hubspot_contact_id} to ${venueId}`)
+
+    return NextResponse.json(apiSuccess(updated))
+  } catch (error: unknown) {
+    console.error('[Foursquare Match] Review error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to resolve match review: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Foursquare Match Review Queue API Route
+ *
+ * GET /api/onboarding/foursquare/reviews?status=pending&contactId=...
+ * Venue matches the confidence matcher could not decide on, newest first.
+ * status defaults to pending; contactId narrows to one contact.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import type { FoursquareMatchReviewStatus } from '@/app/types/onboarding'
+import { createClient } from '@/lib/supabase/server'
+import { listFoursquareReviews } from '@/lib/onboarding/foursquare-match'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const REVIEW_STATUSES: FoursquareMatchReviewStatus[] = ['pending', 'approved', 'rejected']
+
+export async function GET(request: NextRequest) {
+  const sp = request.nextUrl.searchParams
+  const status = (sp.get('status') || 'pending') as FoursquareMatchReviewStatus
+  const contactId = sp.get('contactId') || undefined
+
+  if (!REVIEW_STATUSES.includes(status)) {
+    return NextResponse.json(
+      apiError(`Invalid status. Must be one of: ${REVIEW_STATUSES.join(', ')}`, 'VALIDATION_ERROR', { field: 'status' }),
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+    const reviews = await listFoursquareReviews(supabase, { status, contactId })
+
+    return NextResponse.json(apiSuccess(reviews, { count: reviews.length }))
+  } catch (error: unknown) {
+    console.error('[Foursquare Match] Review list error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch match reviews: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Public API: Shared Client Report
+ *
+ * This is a PUBLIC endpoint (no authentication required)
+ * Serves an archived monthly report to the client through a share link
+ * (?token= from a Supabase signed URL). Storage verifies the token against
+ * the report's file and its expiry, so a link only ever opens the report it
+ * was created for.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { fetchSharedReportHtml } from '@/lib/reports/monthly-report';
+
+// Lazy initialization - create Supabase client only at runtime, not build time
+function getSupabaseAdmin() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!, // Use service role key for public API
+    {
+      auth: {
+        persistSession: false,
+      },
+    }
+  );
+}
+
+const HTML_HEADERS = {
+  'content-type': 'text/html; charset=utf-8',
+  'cache-control': 'private, no-store',
+  'x-robots-tag': 'noindex',
+};
+
+function unavailable() {
+  return new NextResponse(
+    '<!DOCTYPE html><html><head><meta charset="utf-8"><title>Report unavailable</title></head>' +
+      '<body style="font-family:sans-serif;text-align:center;padding:80px;color:#6b7280">' +
+      '<h1 style="color:#1f2937">This report link has expired</h1>' +
+      '<p>Ask your account manager for a new link.</p></body></html>',
+    { status: 404, headers: HTML_HEADERS }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  const { reportId } = await params;
+  const token = request.nextUrl.searchParams.get('token');
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!token || !uuidRegex.test(reportId)) {
+    return unavailable();
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const { data: report } = await supabase
+      .from('client_reports')
+      .select('storage_path')
+      .eq('id', reportId)
+      .maybeSingle();
+
+    if (!report) {
+      return unavailable();
+    }
+
+    const html = await fetchSharedReportHtml(report.storage_path, token);
+    if (html === null) {
+      return unavailable();
+    }
+
+    return new NextResponse(html, { headers: HTML_HEADERS });
+  } catch (error) {
+    console.error('[Public Reports] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Review Reply Draft API Route
+ *
+ * POST /api/reviews/[reviewId]/draft
+ * Suggest a reply to a stored review (gbp_reviews.id) in the client's brand
+ * voice. Nothing is posted - the draft pre-fills the reply box and a person
+ * sends it through /api/reviews/[reviewId]/reply.
+ *
+ * AUTHORIZATION: Requires authenticated session (middleware, checked again here)
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { draftReviewReply } from '@/lib/reviews/reply-drafts'
+import { ReplyDraftError } from '@/lib/reviews/reply-providers'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ reviewId: string }> }
+) {
+  const { reviewId } = await params
+
+  try {
+    const supabase = await createClient()
+
+    // Drafting is a paid model call - never without a session
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json(
+        apiError('Authentication required', 'UNAUTHORIZED'),
+        { status: 401 }
+      )
+    }
+
+    const draft = await draftReviewReply(supabase, reviewId)
+
+    if (!draft) {
+      return NextResponse.json(
+        apiError('Review not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(apiSuccess(draft))
+  } catch (error: unknown) {
+    if (error instanceof ReplyDraftError) {
+      console.error(`[Review Drafts] ${error.provider} failed for review ${reviewId}:`, error.message)
+      return NextResponse.json(
+        apiError(`Failed to draft a reply: ${error.message}`, 'EXTERNAL_API_ERROR'),
+        { status: 502 }
+      )
+    }
+
+    console.error('[Review Drafts] Draft error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to draft a reply: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Review Reply API Route
+ *
+ * POST /api/reviews/[reviewId]/reply
+ * Reply to a stored review (gbp_reviews.id) on Google using the connection
+ * that owns its location. The reply is saved locally so the review leaves
+ * the inbox straight away.
+ *
+ * Body: { comment: string }
+ *
+ * AUTHORIZATION: Requires authenticated session (middleware, checked again here)
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { MAX_REPLY_LENGTH, getInboxReview, replyToInboxReview } from '@/lib/reviews/inbox'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ reviewId: string }> }
+) {
+  const { reviewId } = await params
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const comment = typeof body.comment === 'string' ? body.comment.trim() : ''
+  if (!comment) {
+    return NextResponse.json(
+      apiError('Missing "comment" in request body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  if (comment.length > MAX_REPLY_LENGTH) {
+    return NextResponse.json(
+      apiError(`Reply must be at most ${MAX_REPLY_LENGTH} characters`, 'VALIDATION_ERROR'),
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+
+    // Posts publicly with the client's connection - never without a session
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json(
+        apiError('Authentication required', 'UNAUTHORIZED'),
+        { status: 401 }
+      )
+    }
+
+    const review = await getInboxReview(supabase, reviewId)
+    if (!review) {
+      return NextResponse.json(
+        apiError('Review not found', 'NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    let reply: { comment: string; updateTime: string }
+    try {
+      reply = await replyToInboxReview(supabase, review, comment)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error'
+      console.error(`[Review Inbox] Google reply failed for review ${reviewId}:`, message)
+      return NextResponse.json(
+        apiError(`Google rejected the reply: ${message}`, 'EXTERNAL_API_ERROR'),
+        { status: 502 }
+      )
+    }
+
+    console.log(`[Review Inbox] Replied to review ${reviewId} (location ${review.location_id})`)
+
+    return NextResponse.json(apiSuccess({ id: review.id, reply }))
+  } catch (error: unknown) {
+    console.error('[Review Inbox] Reply error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to reply to review: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
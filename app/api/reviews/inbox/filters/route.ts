@@ -0,0 +1,31 @@
+/**
+ * Review Inbox Filters API Route
+ *
+ * GET /api/reviews/inbox/filters
+ * Clients and account managers that currently have unanswered reviews, with
+ * how many each has.
+ */
+
+import { NextResponse } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { listInboxFilterOptions } from '@/lib/reviews/inbox'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const options = await listInboxFilterOptions(supabase)
+
+    return NextResponse.json(apiSuccess(options))
+  } catch (error: unknown) {
+    console.error('[Review Inbox] Filters error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch inbox filters: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
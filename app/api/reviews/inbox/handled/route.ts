@@ -0,0 +1,70 @@
+/**
+ * Review Inbox Handled API Route
+ *
+ * POST /api/reviews/inbox/handled
+ * Mark reviews handled without replying, which removes them from the inbox.
+ * Send handled: false to put them back.
+ *
+ * Body: { review_ids: string[], handled?: boolean }
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { createClient } from '@/lib/supabase/server'
+import { getEventActor } from '@/lib/onboarding/events'
+import { HANDLED_MAX_REVIEWS, markReviewsHandled } from '@/lib/reviews/inbox'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const reviewIds = body.review_ids
+  if (!Array.isArray(reviewIds) || reviewIds.length === 0 || reviewIds.some((id) => typeof id !== 'string')) {
+    return NextResponse.json(
+      apiError('Missing or empty "review_ids" array in request body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  if (reviewIds.length > HANDLED_MAX_REVIEWS) {
+    return NextResponse.json(
+      apiError(`At most ${HANDLED_MAX_REVIEWS} reviews per request (got ${reviewIds.length})`, 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  if (body.handled !== undefined && typeof body.handled !== 'boolean') {
+    return NextResponse.json(
+      apiError('"handled" must be a boolean', 'VALIDATION_ERROR'),
+      { status: 400 }
+    )
+  }
+  const handled = body.handled !== false
+
+  try {
+    const supabase = await createClient()
+    const actor = await getEventActor(supabase)
+    const updated = await markReviewsHandled(supabase, reviewIds as string[], actor, handled)
+
+    console.log(`[Review Inbox] ${actor.email ?? 'unknown'} marked ${updated.length} reviews ${handled ? 'handled' : 'unhandled'}`)
+
+    return NextResponse.json(apiSuccess({ review_ids: updated, handled }, { count: updated.length }))
+  } catch (error: unknown) {
+    console.error('[Review Inbox] Mark handled error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to update reviews: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
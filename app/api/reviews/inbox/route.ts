@@ -0,0 +1,111 @@
+/**
+ * Review Inbox API Route
+ *
+ * GET /api/reviews/inbox
+ * Unanswered Google reviews across every client location, oldest first.
+ *
+ * Query params:
+ * - rating: comma-separated star ratings (e.g. 1,2)
+ * - min_age_hours / max_age_hours: review age bounds
+ * - client_id, account_manager_id
+ * - sla=breached: only low-star reviews past the SLA
+ * - sla_hours: SLA window (default 24)
+ * - sort: oldest | newest | lowest
+ * - page, page_size
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiError, apiPaginated } from '@/app/types/api'
+import type { ReviewInboxFilters, ReviewInboxSort } from '@/app/types/reviews'
+import { createClient } from '@/lib/supabase/server'
+import {
+  DEFAULT_REVIEW_SLA,
+  INBOX_MAX_PAGE_SIZE,
+  INBOX_PAGE_SIZE,
+  listInboxReviews,
+} from '@/lib/reviews/inbox'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const SORTS: ReviewInboxSort[] = ['oldest', 'newest', 'lowest']
+
+function parseHours(value: string | null): number | undefined | null {
+  if (value === null || value === '') return undefined
+  const hours = Number(value)
+  return Number.isFinite(hours) && hours >= 0 ? hours : null
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+
+  const ratings = (searchParams.get('rating') || '')
+    .split(',')
+    .filter(Boolean)
+    .map(Number)
+  if (ratings.some((r) => !Number.isInteger(r) || r < 1 || r > 5)) {
+    return NextResponse.json(
+      apiError('"rating" must be a comma-separated list of 1-5', 'VALIDATION_ERROR'),
+      { status: 400 }
+    )
+  }
+
+  const minAgeHours = parseHours(searchParams.get('min_age_hours'))
+  const maxAgeHours = parseHours(searchParams.get('max_age_hours'))
+  const slaHours = parseHours(searchParams.get('sla_hours'))
+  if (minAgeHours === null || maxAgeHours === null || slaHours === null || slaHours === 0) {
+    return NextResponse.json(
+      apiError('Age and SLA hours must be positive numbers', 'VALIDATION_ERROR'),
+      { status: 400 }
+    )
+  }
+
+  const sort = (searchParams.get('sort') || 'oldest') as ReviewInboxSort
+  if (!SORTS.includes(sort)) {
+    return NextResponse.json(
+      apiError(`Invalid "sort" - expected one of: ${SORTS.join(', ')}`, 'VALIDATION_ERROR'),
+      { status: 400 }
+    )
+  }
+
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1)
+  const pageSize = Math.min(
+    INBOX_MAX_PAGE_SIZE,
+    Math.max(1, parseInt(searchParams.get('page_size') || '', 10) || INBOX_PAGE_SIZE)
+  )
+
+  const filters: ReviewInboxFilters = {
+    ratings,
+    minAgeHours,
+    maxAgeHours,
+    clientId: searchParams.get('client_id') || undefined,
+    accountManagerId: searchParams.get('account_manager_id') || undefined,
+    slaBreachedOnly: searchParams.get('sla') === 'breached',
+  }
+  const sla = { ...DEFAULT_REVIEW_SLA, hours: slaHours ?? DEFAULT_REVIEW_SLA.hours }
+
+  try {
+    const supabase = await createClient()
+    const { reviews, total, slaBreached } = await listInboxReviews(supabase, filters, {
+      page,
+      pageSize,
+      sort,
+      sla,
+    })
+
+    return NextResponse.json(
+      apiPaginated(reviews, { page, pageSize, total }, {
+        sla_breached: slaBreached,
+        sla_hours: sla.hours,
+        sla_max_rating: sla.maxRating,
+      })
+    )
+  } catch (error: unknown) {
+    console.error('[Review Inbox] List error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch review inbox: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Review Reply Template API Route
+ *
+ * GET /api/reviews/reply-templates/[contactId]
+ * The client's brand voice for drafted replies (the default voice if none
+ * is saved; meta.custom tells them apart).
+ *
+ * PUT /api/reviews/reply-templates/[contactId]
+ * Create or update it. Omitted fields keep their current value.
+ *
+ * Body: { tone?, voice_notes?, sign_off?, banned_phrases?, max_length? }
+ *
+ * AUTHORIZATION: Requires authenticated session (middleware, checked again here)
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/app/types/api'
+import { REPLY_TONES, type ReplyTone } from '@/app/types/reviews'
+import { createClient } from '@/lib/supabase/server'
+import { getEventActor } from '@/lib/onboarding/events'
+import { getReplyTemplate, saveReplyTemplate, type ReplyTemplateInput } from '@/lib/reviews/reply-drafts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const MAX_VOICE_NOTES = 2000
+const MAX_SIGN_OFF = 200
+const MAX_BANNED_PHRASES = 100
+
+function validationError(message: string, field: string) {
+  return NextResponse.json(
+    apiError(message, 'VALIDATION_ERROR', { field }),
+    { status: 400 }
+  )
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json(
+        apiError('Authentication required', 'UNAUTHORIZED'),
+        { status: 401 }
+      )
+    }
+
+    const { template, custom } = await getReplyTemplate(supabase, contactId)
+
+    return NextResponse.json(apiSuccess(template, { custom }))
+  } catch (error: unknown) {
+    console.error('[Review Drafts] Template fetch error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to fetch reply template: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const { contactId } = await params
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      apiError('Invalid JSON body', 'BAD_REQUEST'),
+      { status: 400 }
+    )
+  }
+
+  const input: ReplyTemplateInput = {}
+
+  if (body.tone !== undefined) {
+    if (!REPLY_TONES.includes(body.tone as ReplyTone)) {
+      return validationError(`Invalid "tone" - expected one of: ${REPLY_TONES.join(', ')}`, 'tone')
+    }
+    input.tone = body.tone as ReplyTone
+  }
+
+  if (body.voice_notes !== undefined) {
+    if (body.voice_notes !== null && typeof body.voice_notes !== 'string') {
+      return validationError('"voice_notes" must be a string or null', 'voice_notes')
+    }
+    input.voice_notes = optionalText(body.voice_notes)
+    if ((input.voice_notes?.length ?? 0) > MAX_VOICE_NOTES) {
+      return validationError(`"voice_notes" must be at most ${MAX_VOICE_NOTES} characters`, 'voice_notes')
+    }
+  }
+
+  if (body.sign_off !== undefined) {
+    if (body.sign_off !== null && typeof body.sign_off !== 'string') {
+      return validationError('"sign_off" must be a string or null', 'sign_off')
+    }
+    input.sign_off = optionalText(body.sign_off)
+    if ((input.sign_off?.length ?? 0) > MAX_SIGN_OFF) {
+      return validationError(`"sign_off" must be at most ${MAX_SIGN_OFF} characters`, 'sign_off')
+    }
+  }
+
+  if (body.banned_phrases !== undefined) {
+    if (!Array.isArray(body.banned_phrases) || body.banned_phrases.some((p) => typeof p !== 'string')) {
+      return validationError('"banned_phrases" must be an array of strings', 'banned_phrases')
+    }
+    const phrases = [...new Set((body.banned_phrases as string[]).map((p) => p.trim()).filter(Boolean))]
+    if (phrases.length > MAX_BANNED_PHRASES) {
+      return validationError(`At most ${MAX_BANNED_PHRASES} banned phrases`, 'banned_phrases')
+    }
+    input.banned_phrases = phrases
+  }
+
+  if (body.max_length !== undefined) {
+    const maxLength = body.max_length
+    if (typeof maxLength !== 'number' || !Number.isInteger(maxLength) || maxLength < 100 || maxLength > 4096) {
+      return validationError('"max_length" must be an integer between 100 and 4096', 'max_length')
+    }
+    input.max_length = maxLength
+  }
+
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json(
+        apiError('Authentication required', 'UNAUTHORIZED'),
+        { status: 401 }
+      )
+    }
+
+    const actor = await getEventActor(supabase)
+    const template = await saveReplyTemplate(supabase, contactId, input, actor)
+
+    console.log(`[Review Drafts] Reply template saved for contact ${contactId} by ${actor.email ?? 'unknown'}`)
+
+    return NextResponse.json(apiSuccess(template, { custom: true }))
+  } catch (error: unknown) {
+    console.error('[Review Drafts] Template save error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      apiError(`Failed to save reply template: ${message}`, 'INTERNAL_ERROR'),
+      { status: 500 }
+    )
+  }
+}
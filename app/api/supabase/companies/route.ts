@@ -110,6 +110,7 @@ export async function GET() {
       .select('*')
       .eq('user_id', userId)
       .eq('lifecyclestage', 'customer')
+      .is('hubspot_archived_at', null) // Skip contacts deleted or merged in HubSpot
       .order('company', { ascending: true });
 
     if (error) {
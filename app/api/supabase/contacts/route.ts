@@ -131,6 +131,7 @@ export async function GET(request: NextRequest) {
         .from('contacts')
         .select('*', { count: 'exact' })
         .eq('user_id', userId)
+        .is('hubspot_archived_at', null) // Skip contacts deleted or merged in HubSpot
         .order('synced_at', { ascending: false, nullsFirst: false })
         .range(from, from + pageSize - 1);
 
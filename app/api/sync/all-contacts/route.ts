@@ -148,6 +148,8 @@ export async function POST(request: NextRequest) {
             mode: result.mode,
             syncedContactsCount: result.syncedContacts?.length || 0,
             syncSinceTimestamp: result.syncSinceTimestamp || null,
+            tombstoned: result.tombstoned ?? 0,
+            merged: result.merged ?? 0,
           },
         })
         .eq('id', jobId)
@@ -225,6 +227,11 @@ export async function GET() {
         safety: 'SAFEST - No modification of existing records',
       },
     },
+    deletionsAndMerges: {
+      deleted: 'Contacts in HubSpot\'s archived listing are tombstoned (hubspot_archived_at), not deleted - sync mode only; the webhook covers deletions between full syncs',
+      merged: 'Contacts listed in a winner\'s hs_merged_object_ids have their rows re-pointed to the winner; each move is recorded in hubspot_contact_remaps - sync and incremental',
+      modes: 'insert mode skips both',
+    },
     preservedFields: [
       'hubspot_company_id',
       'business_type',
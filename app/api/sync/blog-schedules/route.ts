@@ -0,0 +1,78 @@
+/**
+ * Blog Schedules API Endpoint
+ *
+ * POST /api/sync/blog-schedules
+ *
+ * Queues a blog generation job for every recurring blog schedule whose next
+ * run is due, and settles queued runs whose job has finished. The jobs
+ * themselves run on the onboarding-jobs worker.
+ * Designed to run hourly via CRON job.
+ *
+ * AUTHORIZATION: Protected by CRON_SECRET in Authorization header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { runDueSchedules, syncQueuedRuns } from '@/lib/onboarding/blog-schedule';
+
+export const maxDuration = 60;
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  // Validate CRON_SECRET authorization
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized - Invalid or missing CRON_SECRET' },
+      { status: 401 }
+    );
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  try {
+    const settled = await syncQueuedRuns(supabase);
+    const summary = await runDueSchedules(supabase);
+
+    const durationMs = Date.now() - startTime;
+    if (summary.due > 0) {
+      console.log(`[Blog Schedules] ${summary.due} due: ${summary.queued} queued, ${summary.skipped} skipped, ${summary.failed} failed`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      settled,
+      duration: `${Math.round(durationMs / 1000)}s`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('[Blog Schedules] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Blog Schedules API',
+    method: 'POST',
+    description: 'Queues due recurring blog generations from blog_schedules',
+    schedule: 'Hourly at :15',
+    behavior: {
+      cadence: 'posts_per_month runs spread evenly over 30 days from start_date, at 15:00 UTC',
+      topics: 'Each queued run takes the next topic in rotation; skipped runs keep it for the next slot',
+      skipped: 'Runs with no Duda site, a generation in progress or blogs paused are recorded as skipped',
+      missedRuns: 'Only the latest due slot is queued; the schedule never backfills',
+    },
+    authorization: 'Requires CRON_SECRET in Authorization header',
+  });
+}
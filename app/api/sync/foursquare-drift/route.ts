@@ -0,0 +1,76 @@
+/**
+ * Foursquare Drift API Endpoint
+ *
+ * POST /api/sync/foursquare-drift
+ *
+ * Re-fetches every linked Foursquare venue and compares it with our
+ * reference record. Drift or a deleted/merged venue moves the foursquare
+ * service to error with the reason; proposed edits are marked applied once
+ * the venue shows them, or rejected after 14 days.
+ * Designed to run daily via CRON job.
+ *
+ * AUTHORIZATION: Protected by CRON_SECRET in Authorization header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { runDriftChecks } from '@/lib/onboarding/foursquare-drift';
+
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  // Validate CRON_SECRET authorization
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized - Invalid or missing CRON_SECRET' },
+      { status: 401 }
+    );
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  try {
+    const summary = await runDriftChecks(supabase);
+
+    const durationMs = Date.now() - startTime;
+    console.log(`[Foursquare Drift] ${summary.checked} checked: ${summary.drift} drift, ${summary.missing} missing, ${summary.failed} failed`);
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      duration: `${Math.round(durationMs / 1000)}s`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('[Foursquare Drift] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Foursquare Drift API',
+    method: 'POST',
+    description: 'Compares linked Foursquare venues with the reference record and tracks proposed edits',
+    schedule: 'Daily at 4:30 AM UTC',
+    behavior: {
+      selection: 'Linked venues whose service is active, or in error from an earlier drift check; skipped if checked in the last 20 hours',
+      fields: 'Name, street, city, state, ZIP, phone and website',
+      drift: 'Active moves to error with the reason in metadata.error; a clean check moves it back',
+      missing: 'A venue Foursquare no longer returns (deleted or merged) is treated as drift',
+      edits: 'Pending edits are applied once the venue shows every field, rejected after 14 days',
+    },
+    authorization: 'Requires CRON_SECRET in Authorization header',
+  });
+}
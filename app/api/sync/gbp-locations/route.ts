@@ -3,37 +3,132 @@
  *
  * POST /api/sync/gbp-locations
  *
- * Syncs Google Business Profile location data to Supabase.
+ * Syncs Google Business Profile location data to Supabase for every healthy
+ * connected Google account in pipedream_connected_accounts. Each location is
+ * stored with the connection it came from, which is the list the reviews,
+ * analytics, posts and media syncs work through
+ * (lib/sync/gbp-sync-service.ts).
  * Designed to run WEEKLY via CRON job (location info rarely changes).
  *
  * AUTHORIZATION: Protected by CRON_SECRET in Authorization header
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import { createGBPClient } from '@/lib/gbp/client';
-import { getGBPAccessToken } from '@/lib/gbp/token-manager';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { GBPLocation } from '@/app/types/gbp';
+import { runWithConcurrency } from '@/lib/sync/utils';
+import {
+  GBP_SYNC_CONCURRENCY,
+  createConnectionClient,
+  emptyCounts,
+  finishSyncJob,
+  failSyncJob,
+  listConnectionLocations,
+  listHealthyConnections,
+  startSyncJob,
+  summarizeSyncRun,
+  type GBPSyncFailure,
+  type GBPSyncRunResult,
+  type GBPSyncSummary,
+  type SyncCounts,
+} from '@/lib/sync/gbp-sync-service';
 
 // Vercel Pro allows up to 300 seconds for serverless functions
 export const maxDuration = 300;
 
-// Default Route36 account ID
-const DEFAULT_ACCOUNT_ID = '103378246033774877708';
+/**
+ * Map Google location to database schema
+ * Note: Some properties may be returned by API but not in our strict types
+ */
+function toLocationRow(location: GBPLocation, accountId: string, locationId: string, connectionId: string | null) {
+  const extendedLocation = location as Record<string, any>;
+  const extendedMetadata = location.metadata as Record<string, any> | undefined;
+
+  return {
+    account_id: accountId,
+    location_id: locationId,
+    location_name: location.name,
+    // Manual runs use the default token; keep the connection found by discovery
+    ...(connectionId ? { connection_id: connectionId } : {}),
+    title: location.title,
+    store_code: extendedLocation.storeCode ?? null,
+    address_lines: location.storefrontAddress?.addressLines,
+    locality: location.storefrontAddress?.locality,
+    administrative_area: location.storefrontAddress?.administrativeArea,
+    postal_code: location.storefrontAddress?.postalCode,
+    country_code: location.storefrontAddress?.regionCode,
+    primary_phone: location.phoneNumbers?.primaryPhone,
+    website_uri: location.websiteUri,
+    primary_category_id: location.categories?.primaryCategory?.name,
+    primary_category_name: location.categories?.primaryCategory?.displayName,
+    additional_categories: location.categories?.additionalCategories
+      ? JSON.stringify(location.categories.additionalCategories)
+      : '[]',
+    verification_state: location.metadata?.hasVoiceOfMerchant ? 'VERIFIED' : 'UNVERIFIED',
+    is_open: !extendedLocation.openInfo?.status || extendedLocation.openInfo?.status === 'OPEN',
+    metadata: {
+      ...location.metadata,
+      regularHours: location.regularHours,
+      latlng: location.latlng,
+    },
+    create_time: extendedMetadata?.createTime ?? null,
+    update_time: extendedMetadata?.updateTime ?? null,
+    fetched_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Upsert every location one connection can see
+ */
+async function syncConnectionLocations(
+  supabase: SupabaseClient,
+  connectionId: string | null,
+  onlyAccountId: string | null,
+  counts: SyncCounts,
+  failures: GBPSyncFailure[]
+): Promise<void> {
+  const client = await createConnectionClient(connectionId);
+
+  for (const { accountId, locations } of await listConnectionLocations(client)) {
+    if (onlyAccountId && accountId !== onlyAccountId) continue;
+
+    counts.fetched += locations.length;
+
+    const { data: existingRows } = await supabase
+      .from('gbp_locations_sync')
+      .select('location_id')
+      .eq('account_id', accountId);
+    const existing = new Set((existingRows || []).map((row) => row.location_id));
 
-interface SyncResult {
-  success: boolean;
-  jobType: string;
-  recordsFetched: number;
-  recordsCreated: number;
-  recordsUpdated: number;
-  recordsSkipped: number;
-  errors: number;
-  duration: string;
-  timestamp: string;
-  errorMessage?: string;
+    for (const location of locations) {
+      // Extract location ID from name (format: locations/LOCATION_ID)
+      const locationId = location.name?.split('/').pop();
+
+      if (!locationId) {
+        console.warn('[GBP Locations Sync] Location missing ID, skipping');
+        counts.skipped++;
+        continue;
+      }
+
+      const { error: upsertError } = await supabase
+        .from('gbp_locations_sync')
+        .upsert(toLocationRow(location, accountId, locationId, connectionId), {
+          onConflict: 'account_id,location_id',
+        });
+
+      if (upsertError) {
+        console.error('[GBP Locations Sync] Upsert error:', upsertError);
+        failures.push({ connectionId, accountId, locationId, title: location.title ?? null, error: upsertError.message });
+      } else if (existing.has(locationId)) {
+        counts.updated++;
+      } else {
+        counts.created++;
+      }
+    }
+  }
 }
 
-export async function POST(request: NextRequest): Promise<NextResponse<SyncResult>> {
+export async function POST(request: NextRequest): Promise<NextResponse<GBPSyncSummary>> {
   const startTime = Date.now();
   let jobId: string | null = null;
 
@@ -66,172 +161,50 @@ export async function POST(request: NextRequest): Promise<NextResponse<SyncResul
       );
     }
 
-    // Get account parameter (optional - defaults to Route36)
+    // Optional single account, read with the default token (defaults to every connection)
     const { searchParams } = new URL(request.url);
-    const accountId = searchParams.get('accountId') || DEFAULT_ACCOUNT_ID;
-
-    console.log('[GBP Locations Sync] Starting sync for account:', accountId);
-
-    // Create sync job record
-    const { data: job } = await supabase
-      .from('sync_jobs')
-      .insert({
-        job_type: 'gbp_locations',
-        status: 'running',
-        metadata: { accountId },
-      })
-      .select()
-      .single();
-
-    if (job) {
-      jobId = job.id;
-    }
-
-    // Get GBP access token
-    const accessToken = await getGBPAccessToken();
-    const client = createGBPClient(accessToken, accountId);
+    const accountId = searchParams.get('accountId');
+    const connectionIds: Array<string | null> = accountId
+      ? [null]
+      : (await listHealthyConnections(supabase)).map((c) => c.id);
 
-    // Fetch all locations for the account
-    const response = await client.listLocations(accountId);
-    const locations = response.locations || [];
+    console.log(`[GBP Locations Sync] Starting sync for ${accountId ? `account ${accountId}` : `${connectionIds.length} connections`}`);
 
-    console.log(`[GBP Locations Sync] Fetched ${locations.length} locations`);
+    const metadata = { mode: accountId ? 'single' : 'all', accountId, connections: connectionIds.length };
+    jobId = await startSyncJob(supabase, 'gbp_locations', metadata);
 
-    // Process and upsert locations
-    let created = 0;
-    let updated = 0;
-    let skipped = 0;
-    let errors = 0;
+    const totals = emptyCounts();
+    const failures: GBPSyncFailure[] = [];
 
-    for (const location of locations) {
+    await runWithConcurrency(connectionIds, GBP_SYNC_CONCURRENCY, async (connectionId) => {
       try {
-        // Extract location ID from name (format: locations/LOCATION_ID)
-        const locationName = location.name;
-        const locationId = locationName?.split('/').pop();
-
-        if (!locationId) {
-          console.warn('[GBP Locations Sync] Location missing ID, skipping');
-          skipped++;
-          continue;
-        }
-
-        // Try to get detailed location info
-        let detailedLocation = location;
-        try {
-          detailedLocation = await client.getLocation(locationId);
-        } catch (detailError) {
-          console.warn(`[GBP Locations Sync] Could not fetch details for ${locationId}, using basic info`);
-        }
-
-        // Map Google location to database schema
-        // Note: Some properties may be returned by API but not in our strict types
-        const extendedLocation = detailedLocation as Record<string, any>;
-        const extendedMetadata = detailedLocation.metadata as Record<string, any> | undefined;
-
-        const locationData = {
-          account_id: accountId,
-          location_id: locationId,
-          location_name: locationName,
-          title: detailedLocation.title,
-          store_code: extendedLocation.storeCode ?? null,
-          address_lines: detailedLocation.storefrontAddress?.addressLines,
-          locality: detailedLocation.storefrontAddress?.locality,
-          administrative_area: detailedLocation.storefrontAddress?.administrativeArea,
-          postal_code: detailedLocation.storefrontAddress?.postalCode,
-          country_code: detailedLocation.storefrontAddress?.regionCode,
-          primary_phone: detailedLocation.phoneNumbers?.primaryPhone,
-          website_uri: detailedLocation.websiteUri,
-          primary_category_id: detailedLocation.categories?.primaryCategory?.name,
-          primary_category_name: detailedLocation.categories?.primaryCategory?.displayName,
-          additional_categories: detailedLocation.categories?.additionalCategories
-            ? JSON.stringify(detailedLocation.categories.additionalCategories)
-            : '[]',
-          verification_state: detailedLocation.metadata?.hasVoiceOfMerchant ? 'VERIFIED' : 'UNVERIFIED',
-          is_open: !extendedLocation.openInfo?.status || extendedLocation.openInfo?.status === 'OPEN',
-          metadata: {
-            ...detailedLocation.metadata,
-            regularHours: detailedLocation.regularHours,
-            latlng: detailedLocation.latlng,
-          },
-          create_time: extendedMetadata?.createTime ?? null,
-          update_time: extendedMetadata?.updateTime ?? null,
-          fetched_at: new Date().toISOString(),
-        };
-
-        // Check if location exists
-        const { data: existing } = await supabase
-          .from('gbp_locations_sync')
-          .select('id')
-          .eq('account_id', accountId)
-          .eq('location_id', locationId)
-          .single();
-
-        if (existing) {
-          // Update existing location
-          const { error: updateError } = await supabase
-            .from('gbp_locations_sync')
-            .update(locationData)
-            .eq('id', existing.id);
-
-          if (updateError) {
-            console.error('[GBP Locations Sync] Update error:', updateError);
-            errors++;
-          } else {
-            updated++;
-          }
-        } else {
-          // Insert new location
-          const { error: insertError } = await supabase
-            .from('gbp_locations_sync')
-            .insert(locationData);
-
-          if (insertError) {
-            console.error('[GBP Locations Sync] Insert error:', insertError);
-            errors++;
-          } else {
-            created++;
-          }
-        }
-      } catch (locationError: any) {
-        console.error('[GBP Locations Sync] Location processing error:', locationError);
-        errors++;
+        await syncConnectionLocations(supabase, connectionId, accountId, totals, failures);
+      } catch (connectionError: any) {
+        console.error(`[GBP Locations Sync] Connection ${connectionId ?? 'default'} failed:`, connectionError.message);
+        failures.push({ connectionId, accountId, locationId: null, title: null, error: connectionError.message });
       }
-    }
+    });
 
-    // Calculate duration
-    const durationMs = Date.now() - startTime;
-    const duration = durationMs > 1000 ? `${(durationMs / 1000).toFixed(1)}s` : `${durationMs}ms`;
+    const failedLocations = failures.filter((f) => f.locationId).length;
+    const result: GBPSyncRunResult = {
+      jobType: 'gbp_locations',
+      totals,
+      locations: {
+        total: totals.fetched,
+        synced: totals.created + totals.updated,
+        failed: failedLocations,
+        deferred: 0,
+      },
+      failures,
+      durationMs: Date.now() - startTime,
+    };
 
-    // Update sync job record
-    if (jobId) {
-      await supabase
-        .from('sync_jobs')
-        .update({
-          status: 'completed',
-          records_fetched: locations.length,
-          records_created: created,
-          records_updated: updated,
-          records_skipped: skipped,
-          errors,
-          completed_at: new Date().toISOString(),
-          duration_ms: durationMs,
-        })
-        .eq('id', jobId);
-    }
+    await finishSyncJob(supabase, jobId, result, metadata);
+    const summary = summarizeSyncRun(result);
 
-    console.log(`[GBP Locations Sync] ✅ Complete: ${created} created, ${updated} updated, ${skipped} skipped, ${errors} errors (${duration})`);
+    console.log(`[GBP Locations Sync] ✅ Complete: ${totals.created} created, ${totals.updated} updated, ${totals.skipped} skipped, ${failures.length} failures (${summary.duration})`);
 
-    return NextResponse.json({
-      success: errors === 0,
-      jobType: 'gbp_locations',
-      recordsFetched: locations.length,
-      recordsCreated: created,
-      recordsUpdated: updated,
-      recordsSkipped: skipped,
-      errors,
-      duration,
-      timestamp: new Date().toISOString(),
-    });
+    return NextResponse.json(summary);
 
   } catch (error: any) {
     const durationMs = Date.now() - startTime;
@@ -240,18 +213,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<SyncResul
     console.error('[GBP Locations Sync] Error:', error);
 
     // Update sync job record with error
-    if (jobId) {
-      await supabase
-        .from('sync_jobs')
-        .update({
-          status: 'failed',
-          errors: 1,
-          error_message: error.message,
-          completed_at: new Date().toISOString(),
-          duration_ms: durationMs,
-        })
-        .eq('id', jobId);
-    }
+    await failSyncJob(supabase, jobId, error, durationMs);
 
     return NextResponse.json(
       {
@@ -276,12 +238,13 @@ export async function GET() {
   return NextResponse.json({
     message: 'GBP Locations Sync API',
     method: 'POST',
-    description: 'Syncs Google Business Profile location data to Supabase',
-    schedule: 'Weekly on Sundays at 11:00 AM UTC',
+    description: 'Discovers and syncs Google Business Profile locations for every connected Google account',
+    schedule: 'Weekly on Sundays at 5:00 AM UTC (before the other GBP syncs)',
     parameters: {
-      accountId: 'GBP account ID (optional, defaults to Route36)',
+      accountId: 'GBP account ID (optional, syncs only this account using the default token)',
     },
     authorization: 'Requires CRON_SECRET in Authorization header',
-    quotaUsage: '1 + N requests (list + detail per location)',
+    quotaUsage: '1 + N requests per connection (account list + 1 per 100 locations)',
+    concurrency: '4 connections at a time',
   });
 }
@@ -3,7 +3,9 @@
  *
  * POST /api/sync/gbp-media
  *
- * Syncs Google Business Profile photos and videos to Supabase.
+ * Syncs Google Business Profile photos and videos to Supabase for every
+ * location of every healthy connected Google account
+ * (lib/sync/gbp-sync-service.ts).
  * Designed to run WEEKLY via CRON job (media doesn't change frequently).
  *
  * AUTHORIZATION: Protected by CRON_SECRET in Authorization header
@@ -11,32 +13,93 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { createGBPClient } from '@/lib/gbp/client';
-import { getGBPAccessToken } from '@/lib/gbp/token-manager';
+import {
+  listSyncTargets,
+  runLocationSync,
+  summarizeSyncRun,
+  type GBPSyncSummary,
+  type LocationSyncer,
+} from '@/lib/sync/gbp-sync-service';
 
 // Vercel Pro allows up to 300 seconds for serverless functions
 export const maxDuration = 300;
 
-// Default Route36 account and location IDs
-const DEFAULT_ACCOUNT_ID = '103378246033774877708';
-const DEFAULT_LOCATION_ID = '3833833563855340375';
+const syncLocationMedia: LocationSyncer = async ({ supabase, client, target }) => {
+  const { accountId, locationId } = target;
+
+  // Fetch all media (handle pagination)
+  let allMedia: any[] = [];
+  let pageToken: string | undefined;
+  let pageCount = 0;
+  const maxPages = 10; // Safety limit
+
+  do {
+    const response = await client.getMedia(accountId, locationId, pageToken);
+    const mediaItems = response.mediaItems || [];
+    allMedia = [...allMedia, ...mediaItems];
+    pageToken = response.nextPageToken;
+    pageCount++;
+  } while (pageToken && pageCount < maxPages);
+
+  // Process and upsert media
+  let created = 0;
+  let skipped = 0;
+  let errors = 0;
+
+  for (const media of allMedia) {
+    try {
+      // Extract media name (unique identifier)
+      const mediaName = media.name;
+
+      if (!mediaName) {
+        console.warn('[GBP Media Sync] Media missing name, skipping');
+        skipped++;
+        continue;
+      }
 
-interface SyncResult {
-  success: boolean;
-  jobType: string;
-  recordsFetched: number;
-  recordsCreated: number;
-  recordsUpdated: number;
-  recordsSkipped: number;
-  errors: number;
-  duration: string;
-  timestamp: string;
-  errorMessage?: string;
-}
+      // Map Google media to database schema
+      const mediaData = {
+        account_id: accountId,
+        location_id: locationId,
+        media_name: mediaName,
+        media_format: media.mediaFormat, // PHOTO or VIDEO
+        location_association: media.locationAssociation?.category,
+        google_url: media.googleUrl,
+        thumbnail_url: media.thumbnailUrl,
+        source_url: media.sourceUrl,
+        width_pixels: media.dimensions?.widthPixels,
+        height_pixels: media.dimensions?.heightPixels,
+        attribution_profile_name: media.attribution?.profileName,
+        attribution_profile_url: media.attribution?.profilePhotoUrl,
+        view_count: media.insights?.viewCount ? parseInt(media.insights.viewCount) : 0,
+        create_time: media.createTime,
+        fetched_at: new Date().toISOString(),
+      };
+
+      // Upsert (insert or update on conflict)
+      const { error: upsertError } = await supabase
+        .from('gbp_media')
+        .upsert(mediaData, {
+          onConflict: 'location_id,media_name',
+        });
+
+      if (upsertError) {
+        console.error('[GBP Media Sync] Upsert error:', upsertError);
+        errors++;
+      } else {
+        created++;
+      }
+    } catch (mediaError: any) {
+      console.error('[GBP Media Sync] Media processing error:', mediaError);
+      errors++;
+    }
+  }
+
+  return { fetched: allMedia.length, created, updated: 0, skipped, errors };
+};
 
-export async function POST(request: NextRequest): Promise<NextResponse<SyncResult>> {
+export async function POST(request: NextRequest): Promise<NextResponse<GBPSyncSummary>> {
   const startTime = Date.now();
-  let jobId: string | null = null;
 
   // Initialize Supabase client
   const supabase = createClient(
@@ -67,139 +130,27 @@ export async function POST(request: NextRequest): Promise<NextResponse<SyncResul
       );
     }
 
-    // Get location parameters (optional - defaults to Route36)
+    // Optional single location (defaults to every connected location)
     const { searchParams } = new URL(request.url);
-    const accountId = searchParams.get('accountId') || DEFAULT_ACCOUNT_ID;
-    const locationId = searchParams.get('locationId') || DEFAULT_LOCATION_ID;
-
-    console.log('[GBP Media Sync] Starting sync for location:', locationId);
-
-    // Create sync job record
-    const { data: job } = await supabase
-      .from('sync_jobs')
-      .insert({
-        job_type: 'gbp_media',
-        status: 'running',
-        metadata: { accountId, locationId },
-      })
-      .select()
-      .single();
-
-    if (job) {
-      jobId = job.id;
-    }
-
-    // Get GBP access token
-    const accessToken = await getGBPAccessToken();
-    const client = createGBPClient(accessToken, accountId, locationId);
-
-    // Fetch all media (handle pagination)
-    let allMedia: any[] = [];
-    let pageToken: string | undefined;
-    let pageCount = 0;
-    const maxPages = 10; // Safety limit
-
-    do {
-      const response = await client.getMedia(accountId, locationId, pageToken);
-      const mediaItems = response.mediaItems || [];
-      allMedia = [...allMedia, ...mediaItems];
-      pageToken = response.nextPageToken;
-      pageCount++;
-
-      console.log(`[GBP Media Sync] Fetched page ${pageCount}: ${mediaItems.length} media items`);
-    } while (pageToken && pageCount < maxPages);
-
-    console.log(`[GBP Media Sync] Total media items fetched: ${allMedia.length}`);
-
-    // Process and upsert media
-    let created = 0;
-    let updated = 0;
-    let skipped = 0;
-    let errors = 0;
-
-    for (const media of allMedia) {
-      try {
-        // Extract media name (unique identifier)
-        const mediaName = media.name;
-
-        if (!mediaName) {
-          console.warn('[GBP Media Sync] Media missing name, skipping');
-          skipped++;
-          continue;
-        }
-
-        // Map Google media to database schema
-        const mediaData = {
-          account_id: accountId,
-          location_id: locationId,
-          media_name: mediaName,
-          media_format: media.mediaFormat, // PHOTO or VIDEO
-          location_association: media.locationAssociation?.category,
-          google_url: media.googleUrl,
-          thumbnail_url: media.thumbnailUrl,
-          source_url: media.sourceUrl,
-          width_pixels: media.dimensions?.widthPixels,
-          height_pixels: media.dimensions?.heightPixels,
-          attribution_profile_name: media.attribution?.profileName,
-          attribution_profile_url: media.attribution?.profilePhotoUrl,
-          view_count: media.insights?.viewCount ? parseInt(media.insights.viewCount) : 0,
-          create_time: media.createTime,
-          fetched_at: new Date().toISOString(),
-        };
-
-        // Upsert (insert or update on conflict)
-        const { error: upsertError } = await supabase
-          .from('gbp_media')
-          .upsert(mediaData, {
-            onConflict: 'location_id,media_name',
-          });
-
-        if (upsertError) {
-          console.error('[GBP Media Sync] Upsert error:', upsertError);
-          errors++;
-        } else {
-          created++;
-        }
-      } catch (mediaError: any) {
-        console.error('[GBP Media Sync] Media processing error:', mediaError);
-        errors++;
-      }
-    }
-
-    // Calculate duration
-    const durationMs = Date.now() - startTime;
-    const duration = durationMs > 1000 ? `${(durationMs / 1000).toFixed(1)}s` : `${durationMs}ms`;
-
-    // Update sync job record
-    if (jobId) {
-      await supabase
-        .from('sync_jobs')
-        .update({
-          status: 'completed',
-          records_fetched: allMedia.length,
-          records_created: created,
-          records_updated: updated,
-          records_skipped: skipped,
-          errors,
-          completed_at: new Date().toISOString(),
-          duration_ms: durationMs,
-        })
-        .eq('id', jobId);
-    }
+    const locationId = searchParams.get('locationId');
+    const targets = await listSyncTargets(
+      supabase,
+      locationId ? { accountId: searchParams.get('accountId'), locationId } : undefined
+    );
 
-    console.log(`[GBP Media Sync] ✅ Complete: ${created} created, ${updated} updated, ${skipped} skipped, ${errors} errors (${duration})`);
+    console.log(`[GBP Media Sync] Starting sync for ${targets.length} locations`);
 
-    return NextResponse.json({
-      success: errors === 0,
+    const result = await runLocationSync(supabase, {
       jobType: 'gbp_media',
-      recordsFetched: allMedia.length,
-      recordsCreated: created,
-      recordsUpdated: updated,
-      recordsSkipped: skipped,
-      errors,
-      duration,
-      timestamp: new Date().toISOString(),
+      targets,
+      syncLocation: syncLocationMedia,
+      metadata: { mode: locationId ? 'single' : 'all', locationId },
     });
+    const summary = summarizeSyncRun(result);
+
+    console.log(`[GBP Media Sync] ✅ Complete: ${result.locations.synced}/${result.locations.total} locations, ${summary.recordsCreated} media items upserted, ${result.locations.failed} failed, ${result.locations.deferred} deferred (${summary.duration})`);
+
+    return NextResponse.json(summary);
 
   } catch (error: any) {
     const durationMs = Date.now() - startTime;
@@ -207,20 +158,6 @@ export async function POST(request: NextRequest): Promise<NextResponse<SyncResul
 
     console.error('[GBP Media Sync] Error:', error);
 
-    // Update sync job record with error
-    if (jobId) {
-      await supabase
-        .from('sync_jobs')
-        .update({
-          status: 'failed',
-          errors: 1,
-          error_message: error.message,
-          completed_at: new Date().toISOString(),
-          duration_ms: durationMs,
-        })
-        .eq('id', jobId);
-    }
-
     return NextResponse.json(
       {
         success: false,
@@ -244,13 +181,14 @@ export async function GET() {
   return NextResponse.json({
     message: 'GBP Media Sync API',
     method: 'POST',
-    description: 'Syncs Google Business Profile photos and videos to Supabase',
+    description: 'Syncs Google Business Profile photos and videos to Supabase for every connected location',
     schedule: 'Weekly on Sundays at 10:00 AM UTC',
     parameters: {
-      accountId: 'GBP account ID (optional, defaults to Route36)',
-      locationId: 'GBP location ID (optional, defaults to Route36)',
+      locationId: 'GBP location ID (optional, syncs only this location)',
+      accountId: 'GBP account ID (optional, with locationId when the location is not yet discovered)',
     },
     authorization: 'Requires CRON_SECRET in Authorization header',
     quotaUsage: '1 request per location per sync',
+    concurrency: '4 locations at a time; locations not reached in 240s are synced first next run',
   });
 }
@@ -3,40 +3,137 @@
  *
  * POST /api/sync/gbp-reviews
  *
- * Syncs Google Business Profile reviews to Supabase.
+ * Syncs Google Business Profile reviews to Supabase for every location of
+ * every healthy connected Google account (lib/sync/gbp-sync-service.ts).
  * Designed to run daily via CRON job.
  *
+ * Reviews are listed newest update first, so each location stops paging once
+ * it reaches the newest update_time stored on its checkpoint by the last run.
+ *
  * AUTHORIZATION: Protected by CRON_SECRET in Authorization header
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { createGBPClient } from '@/lib/gbp/client';
-import { getGBPAccessToken } from '@/lib/gbp/token-manager';
+import {
+  listSyncTargets,
+  runLocationSync,
+  summarizeSyncRun,
+  type GBPSyncSummary,
+  type LocationSyncer,
+} from '@/lib/sync/gbp-sync-service';
 
 // Vercel Pro allows up to 300 seconds for serverless functions
 export const maxDuration = 300;
 
-// Default Route36 account and location IDs
-const DEFAULT_ACCOUNT_ID = '103378246033774877708';
-const DEFAULT_LOCATION_ID = '3833833563855340375';
+const STAR_RATINGS: Record<string, number> = {
+  'ONE': 1,
+  'TWO': 2,
+  'THREE': 3,
+  'FOUR': 4,
+  'FIVE': 5,
+};
+
+const syncLocationReviews: LocationSyncer = async ({ supabase, client, target, checkpoint }) => {
+  const { accountId, locationId } = target;
+  const since = checkpoint?.cursor?.latestUpdateTime as string | undefined;
+
+  // Fetch reviews (handle pagination), stopping at already-synced updates
+  let allReviews: any[] = [];
+  let pageToken: string | undefined;
+  let pageCount = 0;
+  const maxPages = 10; // Safety limit
+
+  do {
+    const response = await client.getReviews(accountId, locationId, pageToken);
+    const reviews = response.reviews || [];
+    allReviews = [...allReviews, ...reviews];
+    pageToken = response.nextPageToken;
+    pageCount++;
+
+    if (since && reviews.some((r: any) => r.updateTime && Date.parse(r.updateTime) <= Date.parse(since))) {
+      break;
+    }
+  } while (pageToken && pageCount < maxPages);
+
+  const countStored = async () => {
+    const { count } = await supabase
+      .from('gbp_reviews')
+      .select('id', { count: 'exact', head: true })
+      .eq('location_id', locationId);
+    return count ?? 0;
+  };
+  const storedBefore = await countStored();
+
+  let upserted = 0;
+  let skipped = 0;
+  let errors = 0;
+
+  for (const review of allReviews) {
+    try {
+      // Extract review ID from name (format: accounts/.../locations/.../reviews/REVIEW_ID)
+      const reviewId = review.name?.split('/').pop() || review.reviewId;
+
+      if (!reviewId) {
+        console.warn('[GBP Reviews Sync] Review missing ID, skipping');
+        skipped++;
+        continue;
+      }
 
-interface SyncResult {
-  success: boolean;
-  jobType: string;
-  recordsFetched: number;
-  recordsCreated: number;
-  recordsUpdated: number;
-  recordsSkipped: number;
-  errors: number;
-  duration: string;
-  timestamp: string;
-  errorMessage?: string;
-}
+      const { error: upsertError } = await supabase
+        .from('gbp_reviews')
+        .upsert({
+          account_id: accountId,
+          location_id: locationId,
+          review_id: reviewId,
+          reviewer_display_name: review.reviewer?.displayName,
+          reviewer_profile_photo_url: review.reviewer?.profilePhotoUrl,
+          star_rating: STAR_RATINGS[review.starRating] || null,
+          comment: review.comment,
+          reply_comment: review.reviewReply?.comment,
+          reply_update_time: review.reviewReply?.updateTime,
+          create_time: review.createTime,
+          update_time: review.updateTime,
+          fetched_at: new Date().toISOString(),
+        }, {
+          onConflict: 'location_id,review_id',
+        });
+
+      if (upsertError) {
+        console.error('[GBP Reviews Sync] Upsert error:', upsertError);
+        errors++;
+      } else {
+        upserted++;
+      }
+    } catch (reviewError: any) {
+      console.error('[GBP Reviews Sync] Review processing error:', reviewError);
+      errors++;
+    }
+  }
 
-export async function POST(request: NextRequest): Promise<NextResponse<SyncResult>> {
+  const created = Math.max(0, (await countStored()) - storedBefore);
+
+  // Newest update seen, so the next run can stop paging there
+  const latestUpdateTime = allReviews.reduce<string | undefined>(
+    (latest, review) =>
+      review.updateTime && (!latest || Date.parse(review.updateTime) > Date.parse(latest))
+        ? review.updateTime
+        : latest,
+    since
+  );
+
+  return {
+    fetched: allReviews.length,
+    created,
+    updated: upserted - created,
+    skipped,
+    errors,
+    cursor: latestUpdateTime ? { latestUpdateTime } : undefined,
+  };
+};
+
+export async function POST(request: NextRequest): Promise<NextResponse<GBPSyncSummary>> {
   const startTime = Date.now();
-  let jobId: string | null = null;
 
   // Initialize Supabase client
   const supabase = createClient(
@@ -67,160 +164,27 @@ export async function POST(request: NextRequest): Promise<NextResponse<SyncResul
       );
     }
 
-    // Get location parameters (optional - defaults to Route36)
+    // Optional single location (defaults to every connected location)
     const { searchParams } = new URL(request.url);
-    const accountId = searchParams.get('accountId') || DEFAULT_ACCOUNT_ID;
-    const locationId = searchParams.get('locationId') || DEFAULT_LOCATION_ID;
-
-    console.log('[GBP Reviews Sync] Starting sync for location:', locationId);
-
-    // Create sync job record
-    const { data: job, error: jobError } = await supabase
-      .from('sync_jobs')
-      .insert({
-        job_type: 'gbp_reviews',
-        status: 'running',
-        metadata: { accountId, locationId },
-      })
-      .select()
-      .single();
-
-    if (job) {
-      jobId = job.id;
-    }
-
-    // Get GBP access token
-    const accessToken = await getGBPAccessToken();
-    const client = createGBPClient(accessToken, accountId, locationId);
-
-    // Fetch all reviews (handle pagination)
-    let allReviews: any[] = [];
-    let pageToken: string | undefined;
-    let pageCount = 0;
-    const maxPages = 10; // Safety limit
-
-    do {
-      const response = await client.getReviews(accountId, locationId, pageToken);
-      const reviews = response.reviews || [];
-      allReviews = [...allReviews, ...reviews];
-      pageToken = response.nextPageToken;
-      pageCount++;
-
-      console.log(`[GBP Reviews Sync] Fetched page ${pageCount}: ${reviews.length} reviews`);
-    } while (pageToken && pageCount < maxPages);
-
-    console.log(`[GBP Reviews Sync] Total reviews fetched: ${allReviews.length}`);
-
-    // Process and upsert reviews
-    let created = 0;
-    let updated = 0;
-    let skipped = 0;
-    let errors = 0;
-
-    for (const review of allReviews) {
-      try {
-        // Extract review ID from name (format: accounts/.../locations/.../reviews/REVIEW_ID)
-        const reviewId = review.name?.split('/').pop() || review.reviewId;
-
-        if (!reviewId) {
-          console.warn('[GBP Reviews Sync] Review missing ID, skipping');
-          skipped++;
-          continue;
-        }
-
-        // Map Google review to database schema
-        const reviewData = {
-          account_id: accountId,
-          location_id: locationId,
-          review_id: reviewId,
-          reviewer_display_name: review.reviewer?.displayName,
-          reviewer_profile_photo_url: review.reviewer?.profilePhotoUrl,
-          star_rating: review.starRating ? parseInt(review.starRating.replace('STAR_RATING_', '').replace('_', '')) : null,
-          comment: review.comment,
-          reply_comment: review.reviewReply?.comment,
-          reply_update_time: review.reviewReply?.updateTime,
-          create_time: review.createTime,
-          update_time: review.updateTime,
-          fetched_at: new Date().toISOString(),
-        };
-
-        // Handle star rating enum conversion
-        if (review.starRating) {
-          const ratingMap: Record<string, number> = {
-            'ONE': 1,
-            'TWO': 2,
-            'THREE': 3,
-            'FOUR': 4,
-            'FIVE': 5,
-          };
-          reviewData.star_rating = ratingMap[review.starRating] || null;
-        }
-
-        // Upsert (insert or update on conflict)
-        const { error: upsertError } = await supabase
-          .from('gbp_reviews')
-          .upsert(reviewData, {
-            onConflict: 'location_id,review_id',
-          });
-
-        if (upsertError) {
-          console.error('[GBP Reviews Sync] Upsert error:', upsertError);
-          errors++;
-        } else {
-          // Check if this was a create or update
-          const { data: existing } = await supabase
-            .from('gbp_reviews')
-            .select('id')
-            .eq('location_id', locationId)
-            .eq('review_id', reviewId)
-            .single();
-
-          if (existing) {
-            updated++;
-          } else {
-            created++;
-          }
-        }
-      } catch (reviewError: any) {
-        console.error('[GBP Reviews Sync] Review processing error:', reviewError);
-        errors++;
-      }
-    }
-
-    // Calculate duration
-    const durationMs = Date.now() - startTime;
-    const duration = durationMs > 1000 ? `${(durationMs / 1000).toFixed(1)}s` : `${durationMs}ms`;
-
-    // Update sync job record
-    if (jobId) {
-      await supabase
-        .from('sync_jobs')
-        .update({
-          status: 'completed',
-          records_fetched: allReviews.length,
-          records_created: created,
-          records_updated: updated,
-          records_skipped: skipped,
-          errors,
-          completed_at: new Date().toISOString(),
-          duration_ms: durationMs,
-        })
-        .eq('id', jobId);
-    }
+    const locationId = searchParams.get('locationId');
+    const targets = await listSyncTargets(
+      supabase,
+      locationId ? { accountId: searchParams.get('accountId'), locationId } : undefined
+    );
 
-    console.log(`[GBP Reviews Sync] ✅ Complete: ${created} created, ${updated} updated, ${skipped} skipped, ${errors} errors (${duration})`);
+    console.log(`[GBP Reviews Sync] Starting sync for ${targets.length} locations`);
 
-    return NextResponse.json({
-      success: errors === 0,
+    const result = await runLocationSync(supabase, {
       jobType: 'gbp_reviews',
-      recordsFetched: allReviews.length,
-      recordsCreated: created,
-      recordsUpdated: updated,
-      recordsSkipped: skipped,
-      errors,
-      duration,
-      timestamp: new Date().toISOString(),
+      targets,
+      syncLocation: syncLocationReviews,
+      metadata: { mode: locationId ? 'single' : 'all', locationId },
     });
+    const summary = summarizeSyncRun(result);
+
+    console.log(`[GBP Reviews Sync] ✅ Complete: ${result.locations.synced}/${result.locations.total} locations, ${summary.recordsCreated} created, ${summary.recordsUpdated} updated, ${result.locations.failed} failed, ${result.locations.deferred} deferred (${summary.duration})`);
+
+    return NextResponse.json(summary);
 
   } catch (error: any) {
     const durationMs = Date.now() - startTime;
@@ -228,20 +192,6 @@ export async function POST(request: NextRequest): Promise<NextResponse<SyncResul
 
     console.error('[GBP Reviews Sync] Error:', error);
 
-    // Update sync job record with error
-    if (jobId) {
-      await supabase
-        .from('sync_jobs')
-        .update({
-          status: 'failed',
-          errors: 1,
-          error_message: error.message,
-          completed_at: new Date().toISOString(),
-          duration_ms: durationMs,
-        })
-        .eq('id', jobId);
-    }
-
     return NextResponse.json(
       {
         success: false,
@@ -265,13 +215,14 @@ export async function GET() {
   return NextResponse.json({
     message: 'GBP Reviews Sync API',
     method: 'POST',
-    description: 'Syncs Google Business Profile reviews to Supabase',
+    description: 'Syncs Google Business Profile reviews to Supabase for every connected location',
     schedule: 'Daily at 6:00 AM UTC',
     parameters: {
-      accountId: 'GBP account ID (optional, defaults to Route36)',
-      locationId: 'GBP location ID (optional, defaults to Route36)',
+      locationId: 'GBP location ID (optional, syncs only this location)',
+      accountId: 'GBP account ID (optional, with locationId when the location is not yet discovered)',
     },
     authorization: 'Requires CRON_SECRET in Authorization header',
-    quotaUsage: '1 request per location per sync',
+    quotaUsage: '1+ requests per location per sync (stops at the last synced review)',
+    concurrency: '4 locations at a time; locations not reached in 240s are synced first next run',
   });
 }
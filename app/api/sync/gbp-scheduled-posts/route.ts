@@ -0,0 +1,76 @@
+/**
+ * GBP Scheduled Posts API Endpoint
+ *
+ * POST /api/sync/gbp-scheduled-posts
+ *
+ * Publishes every scheduled GBP post that is due and schedules the next
+ * occurrence of recurring posts.
+ * Designed to run every 15 minutes via CRON job.
+ *
+ * AUTHORIZATION: Protected by CRON_SECRET in Authorization header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { publishDuePosts } from '@/lib/gbp/post-scheduler';
+
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  // Validate CRON_SECRET authorization
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized - Invalid or missing CRON_SECRET' },
+      { status: 401 }
+    );
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  try {
+    const summary = await publishDuePosts(supabase);
+
+    const durationMs = Date.now() - startTime;
+    if (summary.due > 0 || summary.interrupted > 0) {
+      console.log(`[GBP Scheduled Posts] ${summary.due} due: ${summary.published} published, ${summary.failed} failed, ${summary.interrupted} interrupted`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      duration: `${Math.round(durationMs / 1000)}s`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('[GBP Scheduled Posts] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'GBP Scheduled Posts API',
+    method: 'POST',
+    description: 'Publishes due posts from scheduled_gbp_posts to Google Business Profile',
+    schedule: 'Every 15 minutes',
+    behavior: {
+      claiming: 'Due rows move scheduled -> publishing before posting, so overlapping runs never double-post',
+      batch: 'Up to 25 due posts per run, oldest first',
+      failures: 'Failed posts keep the Google error and wait for a manual retry',
+      interrupted: 'Rows left publishing for 15+ minutes are marked failed for a person to check',
+      recurrence: 'Publishing (or failing) an occurrence inserts the next one in its series',
+    },
+    authorization: 'Requires CRON_SECRET in Authorization header',
+  });
+}
@@ -0,0 +1,192 @@
+/**
+ * HubSpot Deals Sync API Endpoint
+ *
+ * POST /api/sync/hubspot-deals
+ *
+ * Syncs deal pipelines and stages, deals, line items and companies from
+ * HubSpot into their own tables, with their associations to contacts.
+ *
+ * MODES (pass via query param or request body):
+ * - mode=sync (DEFAULT): Full listing of deals and companies.
+ * - mode=incremental: Only deals and companies modified since the last sync (hourly cron).
+ *
+ * AUTHORIZATION: Protected by middleware which requires either:
+ * - A valid user session (for manual triggers from dashboard)
+ * - A valid CRON_SECRET in Authorization header (for automated cron jobs)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { syncHubSpotDeals, DealsSyncMode } from '@/lib/sync/deals-sync-service'
+
+export const maxDuration = 300
+
+const MODES: DealsSyncMode[] = ['sync', 'incremental']
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+  let jobId: string | null = null
+
+  // Service role: the deal tables are read-only to users
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+
+  try {
+    const HUBSPOT_ACCESS_TOKEN = process.env.HUBSPOT_ACCESS_TOKEN
+
+    if (!HUBSPOT_ACCESS_TOKEN) {
+      console.error('[Deals Sync API] Missing HUBSPOT_ACCESS_TOKEN')
+      return NextResponse.json(
+        { error: 'Server configuration error: Missing HubSpot credentials' },
+        { status: 500 }
+      )
+    }
+
+    // Get mode from query param or request body
+    const url = new URL(request.url)
+    let mode: DealsSyncMode = 'sync'
+
+    const queryMode = url.searchParams.get('mode')
+    if (queryMode && MODES.includes(queryMode as DealsSyncMode)) {
+      mode = queryMode as DealsSyncMode
+    } else {
+      try {
+        const body = await request.json()
+        if (body.mode && MODES.includes(body.mode)) {
+          mode = body.mode as DealsSyncMode
+        }
+      } catch {
+        // No body or invalid JSON - use default mode
+      }
+    }
+
+    // Determine trigger type for logging (auth is handled by middleware)
+    const authHeader = request.headers.get('authorization')
+    const isCronTrigger = authHeader?.startsWith('Bearer ')
+
+    const { data: job } = await supabase
+      .from('sync_jobs')
+      .insert({
+        job_type: `hubspot_deals_${mode}`,
+        status: 'running',
+        metadata: {
+          mode,
+          trigger: isCronTrigger ? 'cron' : 'manual',
+        },
+      })
+      .select()
+      .single()
+
+    if (job) {
+      jobId = job.id
+    }
+
+    console.log('[Deals Sync API] Starting sync, mode:', mode)
+
+    const result = await syncHubSpotDeals(HUBSPOT_ACCESS_TOKEN, supabase, mode)
+
+    const durationMs = Date.now() - startTime
+
+    if (jobId) {
+      await supabase
+        .from('sync_jobs')
+        .update({
+          status: result.success ? 'completed' : 'failed',
+          records_fetched: result.deals + result.companies,
+          records_updated: result.deals + result.companies,
+          errors: result.errors,
+          completed_at: new Date().toISOString(),
+          duration_ms: durationMs,
+          error_message: result.errorMessage || null,
+          metadata: {
+            mode: result.mode,
+            pipelines: result.pipelines,
+            stages: result.stages,
+            deals: result.deals,
+            companies: result.companies,
+            lineItems: result.lineItems,
+            associations: result.associations,
+            tombstoned: result.tombstoned,
+            syncSinceTimestamp: result.syncSinceTimestamp || null,
+          },
+        })
+        .eq('id', jobId)
+    }
+
+    return NextResponse.json(result, {
+      status: result.success ? 200 : 500,
+    })
+  } catch (error: any) {
+    const durationMs = Date.now() - startTime
+    console.error('[Deals Sync API] Error:', error)
+
+    if (jobId) {
+      await supabase
+        .from('sync_jobs')
+        .update({
+          status: 'failed',
+          errors: 1,
+          error_message: error.message || 'Unknown error',
+          completed_at: new Date().toISOString(),
+          duration_ms: durationMs,
+        })
+        .eq('id', jobId)
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        errors: 1,
+        timestamp: new Date().toISOString(),
+        errorMessage: error.message || 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Also support GET for testing (returns status and documentation)
+export async function GET() {
+  return NextResponse.json({
+    message: 'HubSpot Deals Sync API',
+    method: 'POST',
+    description: 'Syncs deal pipelines, deals, line items and companies into their own tables',
+    schedule: 'Hourly at :45 (incremental)',
+    modes: {
+      sync: {
+        description: 'DEFAULT: Full listing of deals and companies',
+        default: true,
+      },
+      incremental: {
+        description: 'Only deals and companies modified since the start of the day of the newest synced record',
+        behavior: 'Uses HubSpot Search API (hs_lastmodifieddate)',
+        recommended: 'For hourly cron jobs',
+      },
+    },
+    behavior: {
+      pipelines: 'Every deal pipeline and stage on each run; a stage is won when closed with probability 1',
+      lineItems: 'Replaced for every deal synced',
+      associations: 'Deal <-> contact, deal <-> company and company <-> contact links replaced for every deal / company synced',
+      deletions: 'Deals and companies in HubSpot\'s archived listings are tombstoned (hubspot_archived_at)',
+      packages: 'Line item products map to discover/boost/dominate via /api/admin/product-packages',
+    },
+    tables: [
+      'hubspot_pipelines',
+      'hubspot_pipeline_stages',
+      'hubspot_deals',
+      'hubspot_line_items',
+      'hubspot_companies',
+      'hubspot_deal_contacts',
+      'hubspot_deal_companies',
+      'hubspot_company_contacts',
+    ],
+    usage: {
+      fullSync: 'POST /api/sync/hubspot-deals (DEFAULT)',
+      incremental: 'POST /api/sync/hubspot-deals?mode=incremental',
+      bodyFormat: '{ "mode": "sync" | "incremental" }',
+    },
+    authorization: 'Requires CRON_SECRET in Authorization header or authenticated session',
+  })
+}
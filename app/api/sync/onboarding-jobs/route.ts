@@ -0,0 +1,80 @@
+/**
+ * Onboarding Jobs Worker API Endpoint
+ *
+ * POST /api/sync/onboarding-jobs
+ *
+ * Drains the onboarding_jobs queue (blog and landing page generation).
+ * Designed to run every minute via CRON job; also kicked right after a
+ * job is enqueued so work usually starts immediately.
+ *
+ * AUTHORIZATION: Protected by CRON_SECRET in Authorization header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { drainQueue, FUNCTION_TIME_BUDGET_MS } from '@/lib/onboarding/job-worker';
+
+// Vercel Pro with Fluid compute allows up to 800 seconds - a job needs the
+// full 6 minute service timeout, which the 300s default can't give it
+export const maxDuration = 800;
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  // Validate CRON_SECRET authorization
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized - Invalid or missing CRON_SECRET' },
+      { status: 401 }
+    );
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  try {
+    const result = await drainQueue(supabase, {
+      workerId: `cron-${crypto.randomUUID()}`,
+      timeBudgetMs: FUNCTION_TIME_BUDGET_MS,
+    });
+
+    const durationMs = Date.now() - startTime;
+    if (result.processed > 0 || result.recovered > 0) {
+      console.log(`[Onboarding Jobs Worker] Processed ${result.processed} job(s), recovered ${result.recovered} in ${Math.round(durationMs / 1000)}s`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      duration: `${Math.round(durationMs / 1000)}s`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('[Onboarding Jobs Worker] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Onboarding Jobs Worker API',
+    method: 'POST',
+    description: 'Runs queued blog and landing page generation jobs from onboarding_jobs',
+    schedule: 'Every minute',
+    behavior: {
+      retries: 'Failed attempts are re-queued with exponential backoff (30s, 60s, ...) up to max_attempts; timeouts are not retried',
+      budget: 'A job is only started with its full 6 minute service timeout left in the 800s function',
+      staleJobs: 'Running jobs with no heartbeat for 2 minutes fail without a retry (generation may still be running)',
+      cancellation: 'Jobs with cancel_requested are aborted on the next heartbeat',
+    },
+    authorization: 'Requires CRON_SECRET in Authorization header',
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * HubSpot Webhook Endpoint
+ *
+ * POST /api/webhooks/hubspot
+ *
+ * Receives contact.creation, contact.propertyChange, contact.deletion and
+ * contact.merge events from the HubSpot app so dashboard data updates within
+ * seconds instead of waiting for the hourly incremental sync. Events are
+ * stored (deduplicated against HubSpot retries) and the response is sent
+ * right away; the contacts are then re-read from HubSpot and applied with
+ * the same Fetch-Merge-Upsert as /api/sync/all-contacts. Deleted contacts
+ * are tombstoned and merged ones re-pointed to the winner.
+ *
+ * AUTHORIZATION: HubSpot v3 signature (X-HubSpot-Signature-v3), signed with
+ * HUBSPOT_CLIENT_SECRET. Not behind the session middleware.
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { syncContactsByIds } from '@/lib/sync/all-contacts-sync-service'
+import {
+  processWebhookEvents,
+  storeWebhookEvents,
+  verifyHubSpotSignature,
+  type HubSpotWebhookEvent,
+} from '@/lib/sync/hubspot-webhook'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+export async function POST(request: NextRequest) {
+  const clientSecret = process.env.HUBSPOT_CLIENT_SECRET
+  const HUBSPOT_ACCESS_TOKEN = process.env.HUBSPOT_ACCESS_TOKEN
+  const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  const TEST_EMAIL = process.env.TEST_EMAIL
+  const TEST_PASSWORD = process.env.TEST_PASSWORD
+
+  if (!clientSecret || !HUBSPOT_ACCESS_TOKEN || !SUPABASE_URL || !SUPABASE_ANON_KEY || !TEST_EMAIL || !TEST_PASSWORD) {
+    console.error('[HubSpot Webhook] Missing HUBSPOT_CLIENT_SECRET, HubSpot, Supabase or sync credentials')
+    return NextResponse.json(
+      { success: false, error: 'Server configuration error' },
+      { status: 500 }
+    )
+  }
+
+  // Verify against the raw body - re-serialized JSON would not match
+  const body = await request.text()
+  const valid = verifyHubSpotSignature({
+    method: request.method,
+    url: request.url,
+    body,
+    signature: request.headers.get('x-hubspot-signature-v3'),
+    timestamp: request.headers.get('x-hubspot-request-timestamp'),
+    secret: clientSecret,
+  })
+
+  if (!valid) {
+    console.warn('[HubSpot Webhook] Rejected request with invalid or expired signature')
+    return NextResponse.json(
+      { success: false, error: 'Invalid signature' },
+      { status: 401 }
+    )
+  }
+
+  let events: HubSpotWebhookEvent[]
+  try {
+    const parsed = JSON.parse(body)
+    events = Array.isArray(parsed) ? parsed : [parsed]
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  const supabase = createClient(
+    SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+
+  try {
+    const stored = await storeWebhookEvents(supabase, events)
+
+    // HubSpot times out after 5 seconds, so apply the events after responding
+    after(async () => {
+      try {
+        const summary = await processWebhookEvents(supabase, (ids) => syncContactsByIds(
+          HUBSPOT_ACCESS_TOKEN,
+          SUPABASE_URL,
+          SUPABASE_ANON_KEY,
+          TEST_EMAIL,
+          TEST_PASSWORD,
+          ids
+        ))
+        if (summary.events > 0) {
+          console.log(
+            `[HubSpot Webhook] ${summary.events} events for ${summary.contacts} contacts: ` +
+            `${summary.processed} processed, ${summary.skipped} skipped, ${summary.failed} failed`
+          )
+        }
+      } catch (error: any) {
+        console.error('[HubSpot Webhook] Processing error:', error)
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      received: events.length,
+      stored,
+      duplicates: events.length - stored,
+    })
+  } catch (error: any) {
+    // A 5xx makes HubSpot retry the delivery
+    console.error('[HubSpot Webhook] Error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'HubSpot Webhook API',
+    method: 'POST',
+    description: 'Applies HubSpot contact events to Supabase in near real time',
+    subscriptions: ['contact.creation', 'contact.propertyChange', 'contact.deletion', 'contact.merge'],
+    behavior: {
+      dedupe: 'Each event is stored once; HubSpot retries of the same event are ignored',
+      batching: 'Pending events are collapsed to one HubSpot batch read per contact',
+      merge: 'contact.merge re-syncs the winning contact and re-points the merged contacts\' rows to it',
+      deletion: 'contact.deletion tombstones the contact (hubspot_archived_at)',
+      retries: 'Failed events are retried on later deliveries, up to 5 attempts',
+      backstop: 'The hourly /api/sync/all-contacts?mode=incremental cron still runs',
+    },
+    authorization: 'Requires a valid X-HubSpot-Signature-v3 header (HUBSPOT_CLIENT_SECRET)',
+  })
+}
@@ -4,17 +4,18 @@
 import { use, useMemo, useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { YStack, XStack, Text, Button, Card, Tabs, AnimatePresence, Spinner } from 'tamagui'
-import { ArrowLeft, Edit, Building2, MapPin, Bot, FileText, Globe } from 'lucide-react'
+import { ArrowLeft, Edit, Building2, History, FileBarChart } from 'lucide-react'
 import { useCompanies } from '../../hooks/useCompanies'
 import { useOnboardingStatus } from '../../hooks/useOnboardingStatus'
 import { EmptyState, ErrorState, LoadingState } from '../../components/tamagui'
 import ClientOnly from '../../components/ClientOnly'
 import { getCompanyDisplayName } from '../../utils/companyNameHelper'
+import { SERVICE_ICONS } from '../../components/serviceIcons'
+import { ONBOARDING_SERVICES, withAlpha } from '@/lib/onboarding/registry'
 import OverviewTab from './tabs/OverviewTab'
-import FoursquareTab from './tabs/FoursquareTab'
-import ChatbotTab from './tabs/ChatbotTab'
-import BlogsTab from './tabs/BlogsTab'
-import LandingPagesTab from './tabs/LandingPagesTab'
+import ReportsTab from './tabs/ReportsTab'
+import HistoryTab from './tabs/HistoryTab'
+import { SERVICE_TABS } from './tabs/serviceTabs'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
@@ -23,13 +24,19 @@ interface CompanyDetailPageProps {
   params: Promise<{ id: string }>
 }
 
-// Tab configuration with colors
+// Tab configuration with colors - one tab per registered service between Overview and Reports/History
 const TABS = [
   { value: 'overview', label: 'Overview', icon: Building2, color: '#3B82F6', bgActive: 'rgba(59,130,246,0.1)', border: 'rgba(59,130,246,0.3)' },
-  { value: 'foursquare', label: 'Foursquare', icon: MapPin, color: '#A855F7', bgActive: 'rgba(168,85,247,0.1)', border: 'rgba(168,85,247,0.3)' },
-  { value: 'chatbot', label: 'Chatbot', icon: Bot, color: '#00AEFF', bgActive: 'rgba(0,174,255,0.1)', border: 'rgba(0,174,255,0.3)' },
-  { value: 'blogs', label: 'Blogs', icon: FileText, color: '#E95614', bgActive: 'rgba(233,86,20,0.1)', border: 'rgba(233,86,20,0.3)' },
-  { value: 'landing-pages', label: 'Landing Pages', icon: Globe, color: '#10B981', bgActive: 'rgba(16,185,129,0.1)', border: 'rgba(16,185,129,0.3)' },
+  ...ONBOARDING_SERVICES.map((service) => ({
+    value: service.tab.value,
+    label: service.tab.label,
+    icon: SERVICE_ICONS[service.id],
+    color: service.color,
+    bgActive: withAlpha(service.color, 0.1),
+    border: withAlpha(service.color, 0.3),
+  })),
+  { value: 'reports', label: 'Reports', icon: FileBarChart, color: '#0EA5E9', bgActive: 'rgba(14,165,233,0.1)', border: 'rgba(14,165,233,0.3)' },
+  { value: 'history', label: 'History', icon: History, color: '#64748B', bgActive: 'rgba(100,116,139,0.1)', border: 'rgba(100,116,139,0.3)' },
 ]
 
 export default function CompanyDetailPage({ params }: CompanyDetailPageProps) {
@@ -302,64 +309,39 @@ export default function CompanyDetailPage({ params }: CompanyDetailPageProps) {
               />
             </Tabs.Content>
 
-            <Tabs.Content
-              value="foursquare"
-              animation="quick"
-              enterStyle={{ opacity: 0, y: 10 }}
-              exitStyle={{ opacity: 0, y: -10 }}
-            >
-              <FoursquareTab
-                contactId={hubspotObjectId}
-                foursquareVenueId={onboarding?.identity?.foursquare_venue_id ?? null}
-                company={company}
-                serviceStatus={onboarding?.services?.foursquare}
-                onRefresh={refetchOnboarding}
-              />
-            </Tabs.Content>
-
-            <Tabs.Content
-              value="chatbot"
-              animation="quick"
-              enterStyle={{ opacity: 0, y: 10 }}
-              exitStyle={{ opacity: 0, y: -10 }}
-            >
-              <ChatbotTab
-                contactId={hubspotObjectId}
-                chatbotSlug={onboarding?.identity?.chatbot_slug ?? null}
-                dudaSiteCode={onboarding?.identity?.duda_site_code ?? null}
-                dudaSnippetId={onboarding?.identity?.duda_snippet_id ?? null}
-                company={company}
-                serviceStatus={onboarding?.services?.chatbot}
-                onRefresh={refetchOnboarding}
-              />
-            </Tabs.Content>
+            {ONBOARDING_SERVICES.map((service) => (
+              <Tabs.Content
+                key={service.id}
+                value={service.tab.value}
+                animation="quick"
+                enterStyle={{ opacity: 0, y: 10 }}
+                exitStyle={{ opacity: 0, y: -10 }}
+              >
+                {SERVICE_TABS[service.id]({
+                  contactId: hubspotObjectId,
+                  onboarding,
+                  company,
+                  onRefresh: refetchOnboarding,
+                })}
+              </Tabs.Content>
+            ))}
 
             <Tabs.Content
-              value="blogs"
+              value="reports"
               animation="quick"
               enterStyle={{ opacity: 0, y: 10 }}
               exitStyle={{ opacity: 0, y: -10 }}
             >
-              <BlogsTab
-                contactId={hubspotObjectId}
-                dudaSiteCode={onboarding?.identity?.duda_site_code ?? null}
-                serviceStatus={onboarding?.services?.blogs}
-                onRefresh={refetchOnboarding}
-              />
+              <ReportsTab contactId={hubspotObjectId} />
             </Tabs.Content>
 
             <Tabs.Content
-              value="landing-pages"
+              value="history"
               animation="quick"
               enterStyle={{ opacity: 0, y: 10 }}
               exitStyle={{ opacity: 0, y: -10 }}
             >
-              <LandingPagesTab
-                contactId={hubspotObjectId}
-                dudaSiteCode={onboarding?.identity?.duda_site_code ?? null}
-                serviceStatus={onboarding?.services?.landing_pages}
-                onRefresh={refetchOnboarding}
-              />
+              <HistoryTab contactId={hubspotObjectId} />
             </Tabs.Content>
           </AnimatePresence>
         </Tabs>
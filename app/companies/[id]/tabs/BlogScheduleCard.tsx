@@ -0,0 +1,419 @@
+// @ts-nocheck
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { YStack, XStack, Text, Card, Button, Spinner, Separator } from 'tamagui'
+import { CalendarClock, ChevronLeft, ChevronRight, RotateCcw, Save, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import type { BlogRunStatus, BlogScheduleRun, OnboardingServiceStatus } from '@/app/types/onboarding'
+import { BLOG_RUN_STATUS_LABELS } from '@/app/types/onboarding'
+import { useBlogSchedule } from '@/app/hooks/useBlogSchedule'
+
+interface BlogScheduleCardProps {
+  contactId: string
+  dudaSiteCode: string | null
+  serviceStatus: OnboardingServiceStatus | undefined
+}
+
+const RUN_STATUS_COLORS: Record<BlogRunStatus | 'upcoming', string> = {
+  queued: '#F59E0B',
+  succeeded: '#10B981',
+  failed: '#EF4444',
+  skipped: '#6B7280',
+  upcoming: '#E95614',
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const dayKey = (iso: string) => new Date(iso).toLocaleDateString('en-CA')
+
+const formatRunDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+export default function BlogScheduleCard({ contactId, dudaSiteCode, serviceStatus }: BlogScheduleCardProps) {
+  const { schedule, runs, upcoming, loading, refetch } = useBlogSchedule(contactId)
+
+  const [postsPerMonth, setPostsPerMonth] = useState(4)
+  const [topicsText, setTopicsText] = useState('')
+  const [startDate, setStartDate] = useState(() => new Date().toLocaleDateString('en-CA'))
+  const [businessName, setBusinessName] = useState('')
+  const [industry, setIndustry] = useState('')
+  const [location, setLocation] = useState('')
+  const [enabled, setEnabled] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [retryingId, setRetryingId] = useState<string | null>(null)
+  const [month, setMonth] = useState(() => {
+    const now = new Date()
+    return new Date(now.getFullYear(), now.getMonth(), 1)
+  })
+
+  // Prefill from the saved schedule, else from the last manual generation
+  useEffect(() => {
+    if (loading) return
+    const last = serviceStatus?.metadata ?? {}
+    setPostsPerMonth(schedule?.posts_per_month ?? 4)
+    setTopicsText((schedule?.topics ?? []).join('\n'))
+    if (schedule) setStartDate(schedule.start_date)
+    setBusinessName(schedule?.business_name ?? last.business_name ?? '')
+    setIndustry(schedule?.industry ?? last.industry ?? '')
+    setLocation(schedule?.location ?? last.location ?? '')
+    setEnabled(schedule?.enabled ?? true)
+  }, [loading, schedule, serviceStatus])
+
+  const handleSave = useCallback(async () => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/onboarding/${contactId}/blogs/schedule`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          posts_per_month: postsPerMonth,
+          topics: topicsText.split(/[\n,]/).map((t) => t.trim()).filter(Boolean),
+          start_date: startDate,
+          business_name: businessName,
+          industry,
+          location,
+          enabled,
+        }),
+      })
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to save schedule')
+      }
+      toast.success(enabled ? 'Blog schedule saved' : 'Blog schedule paused')
+      await refetch()
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to save schedule')
+    } finally {
+      setSaving(false)
+    }
+  }, [contactId, postsPerMonth, topicsText, startDate, businessName, industry, location, enabled, refetch])
+
+  const handleDelete = useCallback(async () => {
+    if (!confirm('Remove this blog schedule and its run history?')) return
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/onboarding/${contactId}/blogs/schedule`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to remove schedule')
+      }
+      toast('Blog schedule removed')
+      await refetch()
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to remove schedule')
+    } finally {
+      setSaving(false)
+    }
+  }, [contactId, refetch])
+
+  const handleRetry = useCallback(async (run: BlogScheduleRun) => {
+    setRetryingId(run.id)
+    try {
+      const res = await fetch(`/api/onboarding/${contactId}/blogs/schedule/runs/${run.id}/retry`, { method: 'POST' })
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to retry run')
+      }
+      const updated = data.data as BlogScheduleRun
+      if (updated.status === 'queued') {
+        toast.success('Scheduled blog queued')
+      } else {
+        toast.error(updated.skip_reason || updated.error_message || `Run ${BLOG_RUN_STATUS_LABELS[updated.status].toLowerCase()}`)
+      }
+      await refetch()
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to retry run')
+    } finally {
+      setRetryingId(null)
+    }
+  }, [contactId, refetch])
+
+  // Calendar entries keyed by local day
+  const entriesByDay = useMemo(() => {
+    const byDay = new Map<string, Array<{ status: BlogRunStatus | 'upcoming'; topic: string | null; at: string }>>()
+    const add = (at: string, status, topic) => {
+      const key = dayKey(at)
+      byDay.set(key, [...(byDay.get(key) ?? []), { status, topic, at }])
+    }
+    runs.forEach((run) => add(run.scheduled_for, run.status, run.topic))
+    upcoming.forEach((slot) => add(slot.scheduled_for, 'upcoming', slot.topic))
+    return byDay
+  }, [runs, upcoming])
+
+  const calendarDays = useMemo(() => {
+    const first = new Date(month.getFullYear(), month.getMonth(), 1)
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate()
+    const cells: Array<Date | null> = Array(first.getDay()).fill(null)
+    for (let d = 1; d <= daysInMonth; d++) {
+      cells.push(new Date(month.getFullYear(), month.getMonth(), d))
+    }
+    return cells
+  }, [month])
+
+  const shiftMonth = (delta: number) =>
+    setMonth((m) => new Date(m.getFullYear(), m.getMonth() + delta, 1))
+
+  const inputStyle = {
+    padding: '10px 14px',
+    borderRadius: 8,
+    border: '1px solid rgba(0,0,0,0.15)',
+    fontSize: 14,
+    background: 'transparent',
+    color: 'inherit',
+    width: '100%',
+  }
+
+  if (loading) {
+    return (
+      <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="$borderColor" padding="$6">
+        <XStack justifyContent="center"><Spinner color="#E95614" /></XStack>
+      </Card>
+    )
+  }
+
+  const todayKey = new Date().toLocaleDateString('en-CA')
+
+  return (
+    <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="$borderColor" padding="$6">
+      <YStack gap="$5">
+        <XStack alignItems="center" gap="$3">
+          <CalendarClock size={20} color="#E95614" />
+          <YStack flex={1}>
+            <Text fontSize="$5" fontWeight="700" color="$color">Recurring Blogs</Text>
+            <Text fontSize="$3" color="$color" opacity={0.6}>
+              {schedule
+                ? schedule.enabled
+                  ? `${schedule.posts_per_month} post${schedule.posts_per_month === 1 ? '' : 's'} a month · next ${formatRunDate(schedule.next_run_at)}`
+                  : 'Paused'
+                : 'Publish new posts on a schedule'}
+            </Text>
+          </YStack>
+        </XStack>
+
+        {!dudaSiteCode && (
+          <Text fontSize="$3" color="#F59E0B">
+            Runs are skipped until a Duda site code is set.
+          </Text>
+        )}
+
+        {/* Schedule form */}
+        <YStack gap="$3">
+          <XStack gap={12}>
+            <YStack flex={1} gap="$1">
+              <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Posts per Month</Text>
+              <input
+                type="number"
+                value={postsPerMonth}
+                onChange={(e) => setPostsPerMonth(Math.max(1, Math.min(30, Number(e.target.value) || 1)))}
+                min={1}
+                max={30}
+                style={inputStyle}
+              />
+            </YStack>
+            <YStack flex={1} gap="$1">
+              <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Start Date</Text>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                style={inputStyle}
+              />
+            </YStack>
+          </XStack>
+          <YStack gap="$1">
+            <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Business Name *</Text>
+            <input
+              type="text"
+              value={businessName}
+              onChange={(e) => setBusinessName(e.target.value)}
+              placeholder="e.g. Acme Plumbing"
+              style={inputStyle}
+            />
+          </YStack>
+          <XStack gap={12}>
+            <YStack flex={1} gap="$1">
+              <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Industry *</Text>
+              <input
+                type="text"
+                value={industry}
+                onChange={(e) => setIndustry(e.target.value)}
+                placeholder="e.g. Plumbing, Accounting"
+                style={inputStyle}
+              />
+            </YStack>
+            <YStack flex={1} gap="$1">
+              <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Location *</Text>
+              <input
+                type="text"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="e.g. Denver, CO"
+                style={inputStyle}
+              />
+            </YStack>
+          </XStack>
+          <YStack gap="$1">
+            <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Topics (one per line, used in rotation)</Text>
+            <textarea
+              value={topicsText}
+              onChange={(e) => setTopicsText(e.target.value)}
+              placeholder={'e.g. Winter pipe maintenance\nChoosing a water heater'}
+              rows={4}
+              style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+            />
+          </YStack>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 14, cursor: 'pointer' }}>
+            <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+            Enabled
+          </label>
+        </YStack>
+
+        <XStack gap="$3">
+          <Button
+            flex={1}
+            size="$4"
+            backgroundColor="#E95614"
+            onPress={handleSave}
+            disabled={saving || !businessName || !industry || !location || !startDate}
+            icon={saving ? <Spinner size="small" color="white" /> : <Save size={16} color="white" />}
+          >
+            <Text color="white" fontWeight="700">{schedule ? 'Update Schedule' : 'Create Schedule'}</Text>
+          </Button>
+          {schedule && (
+            <Button size="$4" chromeless onPress={handleDelete} disabled={saving} icon={<Trash2 size={16} color="#EF4444" />}>
+              <Text color="#EF4444" fontWeight="600">Remove</Text>
+            </Button>
+          )}
+        </XStack>
+
+        {schedule && (
+          <>
+            <Separator borderColor="$borderColor" />
+
+            {/* Calendar of past and upcoming runs */}
+            <YStack gap="$3">
+              <XStack alignItems="center" justifyContent="space-between">
+                <Button size="$2" chromeless onPress={() => shiftMonth(-1)} icon={<ChevronLeft size={16} />} />
+                <Text fontSize="$4" fontWeight="700" color="$color">
+                  {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+                </Text>
+                <Button size="$2" chromeless onPress={() => shiftMonth(1)} icon={<ChevronRight size={16} />} />
+              </XStack>
+
+              <XStack flexWrap="wrap">
+                {WEEKDAYS.map((day) => (
+                  <YStack key={day} width="14.28%" alignItems="center" paddingVertical="$1">
+                    <Text fontSize={11} color="$color" opacity={0.5} fontWeight="600">{day}</Text>
+                  </YStack>
+                ))}
+                {calendarDays.map((date, i) => {
+                  const key = date?.toLocaleDateString('en-CA')
+                  const entries = (key && entriesByDay.get(key)) || []
+                  return (
+                    <YStack
+                      key={key ?? `blank-${i}`}
+                      width="14.28%"
+                      minHeight={48}
+                      padding="$1"
+                      borderWidth={date ? 1 : 0}
+                      borderColor={key === todayKey ? '#E95614' : 'rgba(0,0,0,0.06)'}
+                      gap={2}
+                    >
+                      {date && (
+                        <>
+                          <Text fontSize={11} color="$color" opacity={0.6}>{date.getDate()}</Text>
+                          <XStack gap={3} flexWrap="wrap">
+                            {entries.map((entry) => (
+                              <YStack
+                                key={entry.at + entry.status}
+                                width={8}
+                                height={8}
+                                borderRadius={4}
+                                backgroundColor={entry.status === 'upcoming' ? 'transparent' : RUN_STATUS_COLORS[entry.status]}
+                                borderWidth={entry.status === 'upcoming' ? 1.5 : 0}
+                                borderColor={RUN_STATUS_COLORS.upcoming}
+                                title={`${entry.status === 'upcoming' ? 'Upcoming' : BLOG_RUN_STATUS_LABELS[entry.status]}${entry.topic ? ` · ${entry.topic}` : ''}`}
+                              />
+                            ))}
+                          </XStack>
+                        </>
+                      )}
+                    </YStack>
+                  )
+                })}
+              </XStack>
+
+              <XStack gap="$3" flexWrap="wrap">
+                {(['upcoming', 'queued', 'succeeded', 'failed', 'skipped'] as const).map((status) => (
+                  <XStack key={status} alignItems="center" gap={4}>
+                    <YStack
+                      width={8}
+                      height={8}
+                      borderRadius={4}
+                      backgroundColor={status === 'upcoming' ? 'transparent' : RUN_STATUS_COLORS[status]}
+                      borderWidth={status === 'upcoming' ? 1.5 : 0}
+                      borderColor={RUN_STATUS_COLORS.upcoming}
+                    />
+                    <Text fontSize={11} color="$color" opacity={0.6}>
+                      {status === 'upcoming' ? 'Upcoming' : BLOG_RUN_STATUS_LABELS[status]}
+                    </Text>
+                  </XStack>
+                ))}
+              </XStack>
+            </YStack>
+
+            {/* Past runs */}
+            {runs.length > 0 && (
+              <YStack gap="$2">
+                <Text fontSize="$4" fontWeight="700" color="$color">Runs</Text>
+                {runs.map((run) => {
+                  const color = RUN_STATUS_COLORS[run.status]
+                  const retryable = run.status === 'failed' || run.status === 'skipped'
+                  return (
+                    <XStack
+                      key={run.id}
+                      alignItems="center"
+                      gap="$3"
+                      paddingVertical="$2"
+                      borderBottomWidth={1}
+                      borderColor="rgba(0,0,0,0.06)"
+                    >
+                      <XStack backgroundColor={`${color}15`} paddingHorizontal="$2" paddingVertical="$1" borderRadius="$2" minWidth={80} justifyContent="center">
+                        <Text fontSize={10} fontWeight="700" color={color} textTransform="uppercase">
+                          {BLOG_RUN_STATUS_LABELS[run.status]}
+                        </Text>
+                      </XStack>
+                      <YStack flex={1}>
+                        <Text fontSize="$3" color="$color">
+                          {formatRunDate(run.scheduled_for)}{run.topic ? ` · ${run.topic}` : ''}
+                        </Text>
+                        {(run.skip_reason || run.error_message) && (
+                          <Text fontSize="$2" color={color}>{run.skip_reason || run.error_message}</Text>
+                        )}
+                        {run.attempts > 1 && (
+                          <Text fontSize="$2" color="$color" opacity={0.4}>Attempt {run.attempts}</Text>
+                        )}
+                      </YStack>
+                      {retryable && (
+                        <Button
+                          size="$2"
+                          chromeless
+                          onPress={() => handleRetry(run)}
+                          disabled={retryingId === run.id}
+                          icon={retryingId === run.id ? <Spinner size="small" /> : <RotateCcw size={14} color="#E95614" />}
+                        >
+                          <Text color="#E95614" fontWeight="600" fontSize="$2">Retry</Text>
+                        </Button>
+                      )}
+                    </XStack>
+                  )
+                })}
+              </YStack>
+            )}
+          </>
+        )}
+      </YStack>
+    </Card>
+  )
+}
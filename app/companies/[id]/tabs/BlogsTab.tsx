@@ -1,12 +1,16 @@
 // @ts-nocheck
 'use client'
 
-import { useState, useRef, useCallback } from 'react'
+import { useState, useRef, useEffect, useCallback } from 'react'
 import { YStack, XStack, Text, Card, Button, Spinner, Separator } from 'tamagui'
-import { FileText, AlertCircle, AlertTriangle, CheckCircle2, Play } from 'lucide-react'
+import { FileText, AlertCircle, AlertTriangle, CheckCircle2, Play, XCircle } from 'lucide-react'
 import { toast } from 'sonner'
 import type { OnboardingServiceStatus } from '@/app/types/onboarding'
+import { JOB_STATUS_LABELS } from '@/app/types/onboarding'
+import { useOnboardingJob } from '@/app/hooks/useOnboardingJob'
 import { invalidateOnboardingStatus } from '@/lib/cache/invalidate'
+import BlogScheduleCard from './BlogScheduleCard'
+import DraftReviewCard from './DraftReviewCard'
 
 interface BlogsTabProps {
   contactId: string
@@ -15,97 +19,108 @@ interface BlogsTabProps {
   onRefresh: () => void
 }
 
-interface ProgressState {
-  elapsed: number
-  message: string
-  numBlogs: number
-}
-
 export default function BlogsTab({ contactId, dudaSiteCode, serviceStatus, onRefresh }: BlogsTabProps) {
   const [businessName, setBusinessName] = useState('')
   const [industry, setIndustry] = useState('')
   const [location, setLocation] = useState('')
   const [numBlogs, setNumBlogs] = useState(12)
-  const [generating, setGenerating] = useState(false)
-  const [progress, setProgress] = useState<ProgressState | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [cancelling, setCancelling] = useState(false)
+
+  const { job, isActive, refetch: refetchJob } = useOnboardingJob(contactId, 'blogs')
+  const activeJob = isActive ? job : null
+  const generating = submitting || isActive
 
   const status = serviceStatus?.status ?? 'not_started'
   const metadata = serviceStatus?.metadata ?? {}
 
-  const handleGenerate = useCallback(async () => {
-    if (!dudaSiteCode) return
-    setGenerating(true)
-    setProgress({ elapsed: 0, message: 'Starting...', numBlogs })
+  // Notify once when a job we watched running reaches a terminal state
+  const watchedJobRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (!job) return
+    if (isActive) {
+      watchedJobRef.current = job.id
+      return
+    }
+    if (watchedJobRef.current !== job.id) return
+    watchedJobRef.current = null
+
+    if (job.status === 'succeeded') {
+      const count = job.result?.blogs_generated ?? 0
+      toast.success(`Generated ${count} blogs - review them below before they go to Duda`)
+    } else if (job.status === 'failed') {
+      toast.error(job.error_message || 'Blog generation failed')
+    } else if (job.status === 'cancelled') {
+      toast('Blog generation cancelled')
+    }
+    invalidateOnboardingStatus(contactId)
+    onRefresh()
+  }, [job, isActive, contactId, onRefresh])
 
+  const enqueue = useCallback(async (payload: Record<string, unknown>) => {
+    setSubmitting(true)
     try {
       const res = await fetch(`/api/onboarding/${contactId}/blogs/generate`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          business_name: businessName,
-          industry,
-          location,
-          duda_site_code: dudaSiteCode,
-          num_blogs: numBlogs,
-        }),
+        body: JSON.stringify(payload),
       })
+      const data = await res.json()
 
-      if (!res.body) {
-        throw new Error('No response body')
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to queue blog generation')
       }
 
-      const reader = res.body.getReader()
-      const decoder = new TextDecoder()
-      let buffer = ''
-      let streamDone = false
-
-      while (!streamDone) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        buffer += decoder.decode(value, { stream: true })
+      toast.success('Blog generation queued')
+      await refetchJob()
+      invalidateOnboardingStatus(contactId)
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to generate blogs')
+    } finally {
+      setSubmitting(false)
+    }
+  }, [contactId, refetchJob])
 
-        // Parse SSE lines
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || '' // Keep incomplete line in buffer
+  const handleGenerate = useCallback(() => {
+    if (!dudaSiteCode) return
+    enqueue({
+      business_name: businessName,
+      industry,
+      location,
+      duda_site_code: dudaSiteCode,
+      num_blogs: numBlogs,
+    })
+  }, [enqueue, dudaSiteCode, businessName, industry, location, numBlogs])
 
-        for (const line of lines) {
-          if (!line.startsWith('data: ')) continue
-          try {
-            const event = JSON.parse(line.slice(6))
+  // Retry re-queues the last request (the form is empty after a page refresh)
+  const handleRetry = useCallback(() => {
+    if (!dudaSiteCode) return
+    const last = job?.payload ?? serviceStatus?.metadata ?? {}
+    enqueue({
+      business_name: businessName || last.business_name,
+      industry: industry || last.industry,
+      location: location || last.location,
+      duda_site_code: dudaSiteCode,
+      num_blogs: last.num_blogs ?? numBlogs,
+    })
+  }, [enqueue, job, serviceStatus, dudaSiteCode, businessName, industry, location, numBlogs])
 
-            if (event.type === 'progress') {
-              setProgress(prev => ({ elapsed: event.elapsed, message: event.message, numBlogs: prev?.numBlogs ?? numBlogs }))
-            } else if (event.type === 'started') {
-              setProgress({ elapsed: 0, message: `Generating ${event.num_blogs} blogs...`, numBlogs: event.num_blogs })
-            } else if (event.type === 'complete') {
-              const count = event.blogs_generated ?? 0
-              const sent = event.blogs_sent_to_duda ?? 0
-              toast.success(`Generated ${count} blogs, ${sent} sent to Duda`)
-              invalidateOnboardingStatus(contactId)
-              onRefresh()
-              streamDone = true
-              break
-            } else if (event.type === 'error') {
-              toast.error(event.message || 'Blog generation failed')
-              streamDone = true
-              break
-            }
-          } catch {
-            // Ignore malformed JSON lines
-          }
-        }
+  const handleCancel = useCallback(async () => {
+    if (!activeJob) return
+    setCancelling(true)
+    try {
+      const res = await fetch(`/api/onboarding/${contactId}/jobs/${activeJob.id}/cancel`, { method: 'POST' })
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to cancel')
       }
-
-      // Cancel the reader if we broke out early
-      reader.cancel().catch(() => {})
+      await refetchJob()
     } catch (err: any) {
-      toast.error(err.message || 'Failed to generate blogs')
+      toast.error(err.message || 'Failed to cancel blog generation')
     } finally {
-      setGenerating(false)
-      setProgress(null)
+      setCancelling(false)
     }
-  }, [contactId, dudaSiteCode, businessName, industry, location, numBlogs, onRefresh])
+  }, [contactId, activeJob, refetchJob])
 
   const inputStyle = {
     padding: '10px 14px',
@@ -169,23 +184,43 @@ export default function BlogsTab({ contactId, dudaSiteCode, serviceStatus, onRef
         </Card>
       )}
 
-      {/* Live progress card */}
-      {generating && progress && (
+      {/* Job progress card (polled from onboarding_jobs, survives refresh) */}
+      {generating && (
         <Card backgroundColor="$background" borderRadius="$5" borderWidth={2} borderColor="rgba(233,86,20,0.3)" padding="$6">
           <YStack alignItems="center" gap="$4">
             <Spinner size="large" color="#E95614" />
             <Text fontSize="$5" fontWeight="700" color="$color">
-              Generating {progress.numBlogs} blogs...
-            </Text>
-            <Text fontSize="$4" color="$color" opacity={0.7}>
-              {progress.elapsed}s elapsed
+              {activeJob?.status === 'queued' ? 'Queued' : 'Generating'} {activeJob?.payload?.num_blogs ?? numBlogs} blogs...
             </Text>
+            {activeJob?.progress?.elapsed != null && (
+              <Text fontSize="$4" color="$color" opacity={0.7}>
+                {activeJob.progress.elapsed}s elapsed
+              </Text>
+            )}
             <Text fontSize="$3" color="$color" opacity={0.5}>
-              {progress.message}
+              {activeJob?.progress?.message || 'Starting...'}
             </Text>
+            {activeJob && activeJob.attempts > 1 && (
+              <Text fontSize="$2" color="#F59E0B">
+                Attempt {activeJob.attempts} of {activeJob.max_attempts}
+              </Text>
+            )}
             <Text fontSize="$2" color="$color" opacity={0.4}>
-              This may take several minutes. Do not close this tab.
+              This may take several minutes. It keeps running if you leave this page.
             </Text>
+            {activeJob && (
+              <Button
+                size="$3"
+                chromeless
+                onPress={handleCancel}
+                disabled={cancelling || activeJob.cancel_requested}
+                icon={<XCircle size={14} color="#EF4444" />}
+              >
+                <Text color="#EF4444" fontWeight="600">
+                  {activeJob.cancel_requested ? 'Cancelling...' : 'Cancel'}
+                </Text>
+              </Button>
+            )}
           </YStack>
         </Card>
       )}
@@ -277,7 +312,7 @@ export default function BlogsTab({ contactId, dudaSiteCode, serviceStatus, onRef
         <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="rgba(245,158,11,0.3)" padding="$6">
           <YStack alignItems="center" gap="$4">
             <Spinner size="large" color="#E95614" />
-            <Text fontSize="$5" fontWeight="700" color="$color">Blog generation in progress...</Text>
+            <Text fontSize="$5" fontWeight="700" color="$color">Blog generation pending...</Text>
             <Text fontSize="$4" color="$color" opacity={0.6}>
               {metadata.num_blogs ? `Generating ${metadata.num_blogs} blog posts` : 'This may take a few minutes'}
             </Text>
@@ -292,13 +327,18 @@ export default function BlogsTab({ contactId, dudaSiteCode, serviceStatus, onRef
             <AlertCircle size={32} color="#EF4444" />
             <Text fontSize="$5" fontWeight="700" color="$color">Blog Generation Error</Text>
             <Text fontSize="$4" color="$color" opacity={0.6} textAlign="center">
-              {serviceStatus?.notes || 'An error occurred during blog generation'}
+              {(job?.status === 'failed' && job.error_message) || metadata.error || serviceStatus?.notes || 'An error occurred during blog generation'}
             </Text>
+            {job?.status === 'failed' && (
+              <Text fontSize="$2" color="$color" opacity={0.4}>
+                {JOB_STATUS_LABELS[job.status]} after {job.attempts} attempt{job.attempts === 1 ? '' : 's'}
+              </Text>
+            )}
             <Button
               size="$4"
               backgroundColor="#E95614"
               marginTop="$2"
-              onPress={handleGenerate}
+              onPress={handleRetry}
               disabled={!dudaSiteCode}
             >
               <Text color="white" fontWeight="700">Retry</Text>
@@ -306,6 +346,16 @@ export default function BlogsTab({ contactId, dudaSiteCode, serviceStatus, onRef
           </YStack>
         </Card>
       )}
+
+      <DraftReviewCard
+        contactId={contactId}
+        service="blogs"
+        itemLabel="blog post"
+        jobKey={job ? `${job.id}:${job.status}` : null}
+        onJobQueued={refetchJob}
+      />
+
+      <BlogScheduleCard contactId={contactId} dudaSiteCode={dudaSiteCode} serviceStatus={serviceStatus} />
     </YStack>
   )
 }
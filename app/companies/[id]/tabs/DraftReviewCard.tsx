@@ -0,0 +1,327 @@
+// @ts-nocheck
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { YStack, XStack, Text, Card, Button, Spinner, Separator } from 'tamagui'
+import { CheckCircle2, ChevronDown, ChevronRight, ClipboardCheck, RefreshCw, Save, XCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import type { ContentDraft, DraftStatus, JobService } from '@/app/types/onboarding'
+import { DRAFT_STATUS_LABELS, OPEN_DRAFT_STATUSES } from '@/app/types/onboarding'
+import { useContentDrafts } from '@/app/hooks/useContentDrafts'
+import { invalidateOnboardingStatus } from '@/lib/cache/invalidate'
+
+interface DraftReviewCardProps {
+  contactId: string
+  service: JobService
+  /** "blog post" / "landing page" */
+  itemLabel: string
+  /** Latest job id + status; drafts are refetched when it changes */
+  jobKey?: string | null
+  /** Called after a regeneration job is queued */
+  onJobQueued?: () => void
+  /** Called after a draft is saved, approved or rejected */
+  onDraftsChanged?: () => void
+}
+
+const DRAFT_STATUS_COLORS: Record<DraftStatus, string> = {
+  draft: '#F59E0B',
+  approved: '#3B82F6',
+  published: '#10B981',
+  rejected: '#EF4444',
+  replaced: '#6B7280',
+}
+
+export default function DraftReviewCard({ contactId, service, itemLabel, jobKey, onJobQueued, onDraftsChanged }: DraftReviewCardProps) {
+  const { drafts, loading, refetch } = useContentDrafts(contactId, service)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [showDone, setShowDone] = useState(false)
+
+  useEffect(() => {
+    if (jobKey) refetch()
+  }, [jobKey, refetch])
+
+  const handleChanged = useCallback(() => {
+    refetch()
+    onDraftsChanged?.()
+  }, [refetch, onDraftsChanged])
+
+  const openDrafts = useMemo(() => drafts.filter((d) => OPEN_DRAFT_STATUSES.includes(d.status)), [drafts])
+  const doneDrafts = useMemo(() => drafts.filter((d) => !OPEN_DRAFT_STATUSES.includes(d.status)), [drafts])
+  const awaitingReview = openDrafts.filter((d) => d.status === 'draft').length
+
+  if (loading || drafts.length === 0) return null
+
+  const visible = showDone ? drafts : openDrafts
+
+  return (
+    <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="$borderColor" padding="$6">
+      <YStack gap="$4">
+        <XStack alignItems="center" gap="$3">
+          <ClipboardCheck size={20} color="#E95614" />
+          <YStack flex={1}>
+            <Text fontSize="$5" fontWeight="700" color="$color">Review</Text>
+            <Text fontSize="$3" color="$color" opacity={0.6}>
+              {awaitingReview > 0
+                ? `${awaitingReview} ${itemLabel}${awaitingReview === 1 ? '' : 's'} waiting for approval before going to Duda`
+                : `Nothing waiting for approval`}
+            </Text>
+          </YStack>
+          {doneDrafts.length > 0 && (
+            <Button size="$2" chromeless onPress={() => setShowDone((v) => !v)}>
+              <Text fontSize="$2" color="$color" opacity={0.6}>
+                {showDone ? 'Hide published' : `Show published (${doneDrafts.length})`}
+              </Text>
+            </Button>
+          )}
+        </XStack>
+
+        {visible.map((draft) => (
+          <DraftRow
+            key={draft.id}
+            contactId={contactId}
+            draft={draft}
+            expanded={expandedId === draft.id}
+            onToggle={() => setExpandedId((id) => (id === draft.id ? null : draft.id))}
+            onChanged={handleChanged}
+            onJobQueued={onJobQueued}
+          />
+        ))}
+      </YStack>
+    </Card>
+  )
+}
+
+interface DraftRowProps {
+  contactId: string
+  draft: ContentDraft
+  expanded: boolean
+  onToggle: () => void
+  onChanged: () => void
+  onJobQueued?: () => void
+}
+
+function DraftRow({ contactId, draft, expanded, onToggle, onChanged, onJobQueued }: DraftRowProps) {
+  const [title, setTitle] = useState(draft.title)
+  const [body, setBody] = useState(draft.body)
+  const [metaTitle, setMetaTitle] = useState(draft.meta_title ?? '')
+  const [metaDescription, setMetaDescription] = useState(draft.meta_description ?? '')
+  const [notes, setNotes] = useState(draft.review_notes ?? '')
+  const [busy, setBusy] = useState<'save' | 'approve' | 'reject' | 'regenerate' | null>(null)
+
+  useEffect(() => {
+    setTitle(draft.title)
+    setBody(draft.body)
+    setMetaTitle(draft.meta_title ?? '')
+    setMetaDescription(draft.meta_description ?? '')
+    setNotes(draft.review_notes ?? '')
+  }, [draft])
+
+  const editable = OPEN_DRAFT_STATUSES.includes(draft.status)
+  const dirty = title !== draft.title
+    || body !== draft.body
+    || metaTitle !== (draft.meta_title ?? '')
+    || metaDescription !== (draft.meta_description ?? '')
+  const color = DRAFT_STATUS_COLORS[draft.status]
+
+  const call = useCallback(async (action: typeof busy, path: string, init: RequestInit) => {
+    setBusy(action)
+    try {
+      const res = await fetch(`/api/onboarding/${contactId}/drafts/${draft.id}${path}`, init)
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || `Failed to ${action} draft`)
+      }
+      return data.data
+    } catch (err: any) {
+      toast.error(err.message || `Failed to ${action} draft`)
+      return null
+    } finally {
+      setBusy(null)
+    }
+  }, [contactId, draft.id])
+
+  const save = useCallback(async () => {
+    const updated = await call('save', '', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title, body, meta_title: metaTitle, meta_description: metaDescription }),
+    })
+    if (updated) {
+      toast.success('Draft saved')
+      onChanged()
+    }
+    return updated
+  }, [call, title, body, metaTitle, metaDescription, onChanged])
+
+  const approve = useCallback(async () => {
+    // Approve what is on screen
+    if (dirty && !(await save())) return
+    const updated = await call('approve', '/approve', { method: 'POST' })
+    if (!updated) return
+    if (updated.status === 'published') {
+      toast.success('Approved and published to Duda')
+    } else {
+      toast.error(`Approved, but publishing failed: ${updated.publish_error}`)
+    }
+    onChanged()
+  }, [dirty, save, call, onChanged])
+
+  const reject = useCallback(async () => {
+    const updated = await call('reject', '/reject', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ notes }),
+    })
+    if (updated) {
+      toast('Draft rejected')
+      onChanged()
+    }
+  }, [call, notes, onChanged])
+
+  const regenerate = useCallback(async () => {
+    const result = await call('regenerate', '/regenerate', { method: 'POST' })
+    if (result) {
+      toast.success('Regeneration queued')
+      invalidateOnboardingStatus(contactId)
+      onJobQueued?.()
+      onChanged()
+    }
+  }, [call, contactId, onJobQueued, onChanged])
+
+  const inputStyle = {
+    padding: '8px 12px',
+    borderRadius: 8,
+    border: '1px solid rgba(0,0,0,0.15)',
+    fontSize: 14,
+    background: 'transparent',
+    color: 'inherit',
+    width: '100%',
+  }
+
+  return (
+    <YStack borderWidth={1} borderColor="rgba(0,0,0,0.08)" borderRadius="$4" overflow="hidden">
+      <XStack alignItems="center" gap="$3" padding="$3" cursor="pointer" onPress={onToggle} hoverStyle={{ backgroundColor: 'rgba(0,0,0,0.02)' }}>
+        {expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+        <Text flex={1} fontSize="$4" fontWeight="600" color="$color" numberOfLines={1}>{draft.title}</Text>
+        <XStack backgroundColor={`${color}15`} paddingHorizontal="$2" paddingVertical="$1" borderRadius="$2">
+          <Text fontSize={10} fontWeight="700" color={color} textTransform="uppercase">
+            {DRAFT_STATUS_LABELS[draft.status]}
+          </Text>
+        </XStack>
+      </XStack>
+
+      {expanded && (
+        <YStack gap="$3" padding="$4" paddingTop="$1">
+          {draft.publish_error && (
+            <Text fontSize="$3" color="#EF4444">Publishing failed: {draft.publish_error}</Text>
+          )}
+          {draft.status === 'rejected' && draft.review_notes && (
+            <Text fontSize="$3" color="#EF4444">Rejected: {draft.review_notes}</Text>
+          )}
+
+          <YStack gap="$1">
+            <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Title</Text>
+            <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} disabled={!editable} style={inputStyle} />
+          </YStack>
+          <XStack gap={12}>
+            <YStack flex={1} gap="$1">
+              <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Meta Title</Text>
+              <input type="text" value={metaTitle} onChange={(e) => setMetaTitle(e.target.value)} disabled={!editable} style={inputStyle} />
+            </YStack>
+            <YStack flex={1} gap="$1">
+              <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Meta Description</Text>
+              <input type="text" value={metaDescription} onChange={(e) => setMetaDescription(e.target.value)} disabled={!editable} style={inputStyle} />
+            </YStack>
+          </XStack>
+
+          <XStack gap={12} flexWrap="wrap">
+            <YStack flex={1} minWidth={280} gap="$1">
+              <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Body (HTML)</Text>
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                disabled={!editable}
+                rows={16}
+                style={{ ...inputStyle, resize: 'vertical', fontFamily: 'monospace', fontSize: 12 }}
+              />
+            </YStack>
+            <YStack flex={1} minWidth={280} gap="$1">
+              <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Preview</Text>
+              {/* Sandboxed so generated markup cannot run scripts in the dashboard */}
+              <iframe
+                title={`Preview of ${title}`}
+                sandbox=""
+                srcDoc={`<h1>${title.replace(/</g, '&lt;')}</h1>${body}`}
+                style={{ width: '100%', height: 340, border: '1px solid rgba(0,0,0,0.1)', borderRadius: 8, background: 'white' }}
+              />
+            </YStack>
+          </XStack>
+
+          {editable && (
+            <>
+              <Separator borderColor="$borderColor" />
+              <YStack gap="$1">
+                <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Review Notes (required to reject)</Text>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="e.g. Too generic - mention the 24/7 emergency service"
+                  rows={2}
+                  style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+                />
+              </YStack>
+
+              <XStack gap="$2" flexWrap="wrap">
+                {draft.status !== 'rejected' && (
+                  <Button
+                    size="$3"
+                    backgroundColor="#10B981"
+                    onPress={approve}
+                    disabled={!!busy}
+                    icon={busy === 'approve' ? <Spinner size="small" color="white" /> : <CheckCircle2 size={14} color="white" />}
+                  >
+                    <Text color="white" fontWeight="700">
+                      {draft.status === 'approved' ? 'Retry Publish' : 'Approve & Publish'}
+                    </Text>
+                  </Button>
+                )}
+                <Button
+                  size="$3"
+                  chromeless
+                  borderWidth={1}
+                  borderColor="$borderColor"
+                  onPress={save}
+                  disabled={!!busy || !dirty}
+                  icon={busy === 'save' ? <Spinner size="small" /> : <Save size={14} />}
+                >
+                  <Text fontWeight="600">Save</Text>
+                </Button>
+                {draft.status !== 'rejected' ? (
+                  <Button
+                    size="$3"
+                    chromeless
+                    onPress={reject}
+                    disabled={!!busy || !notes.trim()}
+                    icon={busy === 'reject' ? <Spinner size="small" /> : <XCircle size={14} color="#EF4444" />}
+                  >
+                    <Text color="#EF4444" fontWeight="600">Reject</Text>
+                  </Button>
+                ) : (
+                  <Button
+                    size="$3"
+                    backgroundColor="#E95614"
+                    onPress={regenerate}
+                    disabled={!!busy}
+                    icon={busy === 'regenerate' ? <Spinner size="small" color="white" /> : <RefreshCw size={14} color="white" />}
+                  >
+                    <Text color="white" fontWeight="700">Regenerate with Notes</Text>
+                  </Button>
+                )}
+              </XStack>
+            </>
+          )}
+        </YStack>
+      )}
+    </YStack>
+  )
+}
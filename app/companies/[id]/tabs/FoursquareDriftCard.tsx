@@ -0,0 +1,162 @@
+// @ts-nocheck
+'use client'
+
+import { useState } from 'react'
+import { YStack, XStack, Text, Card, Button, Spinner } from 'tamagui'
+import { Activity, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import type { FoursquareDriftStatus, ProposedEditStatus } from '@/app/types/onboarding'
+import { NAP_FIELD_LABELS } from '@/app/types/nap'
+import { useFoursquareDrift } from '@/app/hooks/useFoursquareDrift'
+import { invalidateOnboardingStatus } from '@/lib/cache/invalidate'
+
+interface FoursquareDriftCardProps {
+  contactId: string
+  onStatusChange?: () => void
+}
+
+const CHECK_STYLES: Record<FoursquareDriftStatus, { label: string; color: string }> = {
+  ok: { label: 'In sync', color: '#10B981' },
+  drift: { label: 'Drift', color: '#EF4444' },
+  missing: { label: 'Venue missing', color: '#EF4444' },
+  error: { label: 'Check failed', color: '#9CA3AF' },
+}
+
+const EDIT_STYLES: Record<ProposedEditStatus, { label: string; color: string }> = {
+  pending: { label: 'Pending', color: '#F59E0B' },
+  applied: { label: 'Applied', color: '#10B981' },
+  rejected: { label: 'Not applied', color: '#EF4444' },
+}
+
+/** suggest/edit payload keys, in form order */
+const EDIT_LABELS: Record<string, string> = {
+  name: 'Name',
+  address: 'Street',
+  locality: 'City',
+  region: 'State',
+  postcode: 'ZIP',
+  tel: 'Phone',
+  website: 'Website',
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+function Badge({ label, color }: { label: string; color: string }) {
+  return (
+    <XStack backgroundColor={`${color}20`} paddingHorizontal="$1.5" paddingVertical="$0.5" borderRadius="$2">
+      <Text fontSize={10} fontWeight="700" color={color} textTransform="uppercase">{label}</Text>
+    </XStack>
+  )
+}
+
+export default function FoursquareDriftCard({ contactId, onStatusChange }: FoursquareDriftCardProps) {
+  const { checks, edits, loading, error, refetch } = useFoursquareDrift(contactId)
+  const [checking, setChecking] = useState(false)
+  const latest = checks[0] ?? null
+
+  const handleCheck = async () => {
+    setChecking(true)
+    try {
+      const res = await fetch(`/api/onboarding/${contactId}/foursquare/drift`, { method: 'POST' })
+      const data = await res.json()
+      if (!data.success) throw new Error(data.error || 'Failed to check listing')
+      const check = data.data
+      if (check.status === 'ok') toast.success('Foursquare listing is in sync')
+      else if (check.status === 'error') toast.error(check.reason || 'Check failed')
+      else toast.warning(check.reason || 'Foursquare listing has drifted')
+      await refetch()
+      invalidateOnboardingStatus(contactId)
+      onStatusChange?.()
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to check listing')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  return (
+    <Card backgroundColor="$background" borderColor="$borderColor" borderWidth={1} borderRadius="$5" padding="$5">
+      <YStack gap="$4">
+        <XStack justifyContent="space-between" alignItems="center">
+          <XStack gap={8} alignItems="center">
+            <Activity size={18} color="#6B7280" strokeWidth={2} />
+            <Text fontSize={15} fontWeight="600" color="$color">Listing Drift</Text>
+            {latest && <Badge {...CHECK_STYLES[latest.status]} />}
+          </XStack>
+          <Button
+            size="$2"
+            backgroundColor="transparent"
+            borderWidth={1}
+            borderColor="$borderColor"
+            disabled={checking}
+            onPress={handleCheck}
+            icon={checking ? <Spinner size="small" /> : <RefreshCw size={14} color="currentColor" />}
+          >
+            <Text fontSize={12} color="$color">{checking ? 'Checking...' : 'Check now'}</Text>
+          </Button>
+        </XStack>
+
+        {loading ? (
+          <YStack alignItems="center" paddingVertical="$3">
+            <Spinner size="small" color="#6B7280" />
+          </YStack>
+        ) : error ? (
+          <Text fontSize={12} color="#EF4444">{String(error)}</Text>
+        ) : !latest ? (
+          <Text fontSize={13} color="$color" opacity={0.6}>
+            The venue is compared with HubSpot and Google daily. No checks yet.
+          </Text>
+        ) : (
+          <YStack gap="$4">
+            <YStack gap="$2">
+              <Text fontSize={12} color="$color" opacity={0.5}>Last checked {formatDate(latest.checked_at)}</Text>
+              {latest.reason && <Text fontSize={13} color="$color" opacity={0.8}>{latest.reason}</Text>}
+              {latest.differences.map((d) => (
+                <XStack key={d.field} gap="$2" alignItems="flex-start">
+                  <Text fontSize={12} fontWeight="600" color="$color" width={70}>{NAP_FIELD_LABELS[d.field]}</Text>
+                  <YStack flex={1}>
+                    <Text fontSize={12} color="$color" opacity={0.6}>Ours: {d.ours || '—'}</Text>
+                    <Text fontSize={12} color="#EF4444">Foursquare: {d.theirs || 'missing'}</Text>
+                  </YStack>
+                </XStack>
+              ))}
+            </YStack>
+
+            {checks.length > 1 && (
+              <YStack gap="$1.5">
+                <Text fontSize={11} fontWeight="700" color="$color" opacity={0.5} textTransform="uppercase">History</Text>
+                {checks.slice(1, 10).map((check) => (
+                  <XStack key={check.id} gap="$2" alignItems="center">
+                    <Text fontSize={12} color="$color" opacity={0.6} width={56}>{formatDate(check.checked_at)}</Text>
+                    <Badge {...CHECK_STYLES[check.status]} />
+                    {check.reason && (
+                      <Text fontSize={12} color="$color" opacity={0.6} flex={1} numberOfLines={1}>{check.reason}</Text>
+                    )}
+                  </XStack>
+                ))}
+              </YStack>
+            )}
+          </YStack>
+        )}
+
+        {edits.length > 0 && (
+          <YStack gap="$1.5">
+            <Text fontSize={11} fontWeight="700" color="$color" opacity={0.5} textTransform="uppercase">Proposed edits</Text>
+            {edits.map((edit) => (
+              <XStack key={edit.id} gap="$2" alignItems="center">
+                <Text fontSize={12} color="$color" opacity={0.6} width={56}>{formatDate(edit.created_at)}</Text>
+                <Badge {...EDIT_STYLES[edit.status]} />
+                <Text fontSize={12} color="$color" opacity={0.7} flex={1} numberOfLines={1}>
+                  {Object.keys(EDIT_LABELS).filter((k) => edit.edits[k]).map((k) => EDIT_LABELS[k]).join(', ')}
+                  {edit.proposed_by ? ` · ${edit.proposed_by}` : ''}
+                </Text>
+              </XStack>
+            ))}
+          </YStack>
+        )}
+      </YStack>
+    </Card>
+  )
+}
@@ -9,8 +9,12 @@ import {
   Tag, Pencil, X, ChevronDown, ChevronUp, Info, Navigation, Image,
 } from 'lucide-react'
 import { toast } from 'sonner'
-import type { OnboardingServiceStatus, FoursquarePlace, GooglePlaceData } from '@/app/types/onboarding'
-import { invalidateOnboardingStatus, invalidateFoursquareDetails } from '@/lib/cache/invalidate'
+import type { OnboardingServiceStatus, FoursquarePlace, FoursquareMatchCandidate, GooglePlaceData } from '@/app/types/onboarding'
+import { invalidateOnboardingStatus, invalidateFoursquareDetails, invalidateFoursquareDrift } from '@/lib/cache/invalidate'
+import { normalizeCity, normalizeStreet, samePhone, sameWebsite, toStateCode } from '@/lib/normalize'
+import { useFoursquareMatchReviews } from '@/app/hooks/useFoursquareMatchReviews'
+import { MatchCandidateCard, MatchReviewCard } from '@/app/components/FoursquareMatchReviewModal'
+import FoursquareDriftCard from './FoursquareDriftCard'
 
 interface FoursquareTabProps {
   contactId: string
@@ -528,6 +532,8 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
   const [searchDone, setSearchDone] = useState(false)
   const [exactMatch, setExactMatch] = useState<FoursquarePlace | null>(null)
   const [searchResults, setSearchResults] = useState<FoursquarePlace[]>([])
+  const [candidates, setCandidates] = useState<FoursquareMatchCandidate[]>([])
+  const [autoMatching, setAutoMatching] = useState(false)
   const [linking, setLinking] = useState(false)
   const [venueDetails, setVenueDetails] = useState<FoursquarePlace | null>(null)
   const [detailsLoading, setDetailsLoading] = useState(false)
@@ -540,8 +546,13 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
 
   const status = serviceStatus?.status ?? 'not_started'
   const metadata = serviceStatus?.metadata ?? {}
+  // Linked venue that is live, or flagged by the drift check
+  const listed = !!foursquareVenueId && (status === 'active' || status === 'error')
   const props = company.properties
 
+  const { reviews: pendingReviews, refetch: refetchReviews } = useFoursquareMatchReviews(contactId, !foursquareVenueId)
+  const pendingReview = pendingReviews[0] ?? null
+
   // Compute discrepancies between HubSpot data and Foursquare data
   const discrepancies = venueDetails ? computeDiscrepancies(props, venueDetails) : []
 
@@ -559,9 +570,9 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
       .finally(() => setGooglePlaceLoading(false))
   }, [contactId])
 
-  // Fetch Foursquare venue details when active
+  // Fetch Foursquare venue details once listed
   useEffect(() => {
-    if (!foursquareVenueId || status !== 'active') return
+    if (!listed) return
     setDetailsLoading(true)
     fetch(`/api/onboarding/${contactId}/foursquare/details`)
       .then(res => res.json())
@@ -570,7 +581,7 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
       })
       .catch(() => {})
       .finally(() => setDetailsLoading(false))
-  }, [contactId, foursquareVenueId, status])
+  }, [contactId, listed])
 
   const handleSearch = async () => {
     try {
@@ -589,6 +600,13 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
 
       setExactMatch(data.data.match || null)
       setSearchResults(data.data.results || [])
+
+      // Score nearby venues; the raw results above are the fallback
+      if (!data.data.match) {
+        const matchRes = await fetch(`/api/onboarding/${contactId}/foursquare/match`)
+        const matchData = await matchRes.json()
+        setCandidates(matchData.success ? matchData.data.candidates : [])
+      }
       setSearchDone(true)
     } catch (err: any) {
       toast.error(err.message || 'Failed to search Foursquare')
@@ -597,6 +615,32 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
     }
   }
 
+  const handleAutoMatch = async () => {
+    try {
+      setAutoMatching(true)
+      const res = await fetch(`/api/onboarding/${contactId}/foursquare/match`, { method: 'POST' })
+      const data = await res.json()
+      if (!data.success) throw new Error(data.error)
+
+      const { decision, candidates: scored } = data.data
+      if (decision === 'auto_link') {
+        toast.success(`Linked to ${scored[0].venue.name} (${Math.round(scored[0].confidence)}% confidence)`)
+        invalidateOnboardingStatus(contactId)
+        invalidateFoursquareDetails(contactId)
+        onRefresh()
+      } else if (decision === 'review') {
+        toast.info('Not sure enough to link - candidates queued for review')
+        refetchReviews()
+      } else {
+        toast.info('No likely match on Foursquare - create a new listing')
+      }
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to match Foursquare venue')
+    } finally {
+      setAutoMatching(false)
+    }
+  }
+
   const handleLinkVenue = async (fsqId: string, venueName: string) => {
     try {
       setLinking(true)
@@ -707,6 +751,7 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
     setSearchDone(false)
     setExactMatch(null)
     setSearchResults([])
+    setCandidates([])
   }
 
   const handleProposeEdits = async (edits: Record<string, string>) => {
@@ -729,6 +774,7 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
       toast.success('Edits proposed to Foursquare')
       setEditing(false)
       handleRefreshDetails()
+      invalidateFoursquareDrift(contactId)
     } catch (err: any) {
       toast.error(err.message || 'Failed to propose edits')
     } finally {
@@ -781,8 +827,8 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
         </XStack>
       </Card>
 
-      {/* Google Place Section — always shown when not yet active on Foursquare */}
-      {status !== 'active' && !googlePlaceLoading && (
+      {/* Google Place Section — always shown when not yet listed on Foursquare */}
+      {!listed && !googlePlaceLoading && (
         <GooglePlaceSection
           contactId={contactId}
           company={company}
@@ -793,7 +839,7 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
         />
       )}
 
-      {googlePlaceLoading && status !== 'active' && (
+      {googlePlaceLoading && !listed && (
         <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="$borderColor" padding="$6">
           <XStack gap={12} alignItems="center" justifyContent="center">
             <Spinner size="small" color="#3B82F6" />
@@ -803,7 +849,7 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
       )}
 
       {/* Warning when no Google Place linked */}
-      {!googlePlace && !googlePlaceLoading && status !== 'active' && (
+      {!googlePlace && !googlePlaceLoading && !listed && (
         <Card backgroundColor="rgba(245,158,11,0.04)" borderRadius="$4" borderWidth={1} borderColor="rgba(245,158,11,0.2)" padding="$4">
           <XStack gap={10} alignItems="flex-start">
             <AlertTriangle size={16} color="#F59E0B" style={{ marginTop: 2 }} />
@@ -821,6 +867,26 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
       {/* Not started / Error — Search & Submit workflow */}
       {!foursquareVenueId && (status === 'not_started' || status === 'error') && (
         <>
+          {/* Ambiguous match waiting for review */}
+          {pendingReview && (
+            <Card backgroundColor="$background" borderRadius="$5" borderWidth={2} borderColor="rgba(245,158,11,0.3)" padding="$6">
+              <YStack gap="$4">
+                <XStack gap={8} alignItems="center">
+                  <AlertTriangle size={20} color="#F59E0B" />
+                  <Text fontSize="$5" fontWeight="700" color="$color">Venue Match Needs Review</Text>
+                </XStack>
+                <MatchReviewCard
+                  review={pendingReview}
+                  compact
+                  onResolved={() => {
+                    refetchReviews()
+                    onRefresh()
+                  }}
+                />
+              </YStack>
+            </Card>
+          )}
+
           {/* Step 2: Business data preview & Foursquare search */}
           <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="$borderColor" padding="$6">
             <YStack gap="$5">
@@ -891,6 +957,17 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
                       {searching ? 'Searching...' : 'Search Foursquare First'}
                     </Text>
                   </Button>
+                  <Button
+                    size="$4"
+                    backgroundColor="$background"
+                    borderWidth={1}
+                    borderColor="rgba(168,85,247,0.3)"
+                    onPress={handleAutoMatch}
+                    disabled={autoMatching || !!pendingReview}
+                    icon={autoMatching ? <Spinner size="small" color="#A855F7" /> : <Link2 size={16} color="#A855F7" />}
+                  >
+                    <Text color="#A855F7" fontWeight="700">{autoMatching ? 'Matching...' : 'Auto-match'}</Text>
+                  </Button>
                   <Button
                     size="$4"
                     backgroundColor="$background"
@@ -955,8 +1032,25 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
             </Card>
           )}
 
+          {/* Scored candidates (raw fuzzy results when scoring failed) */}
+          {searchDone && !exactMatch && candidates.length > 0 && (
+            <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="rgba(168,85,247,0.3)" padding="$6">
+              <YStack gap="$4">
+                <Text fontSize="$5" fontWeight="700" color="$color">Possible Matches ({candidates.length})</Text>
+                {candidates.map((candidate) => (
+                  <MatchCandidateCard
+                    key={candidate.venue.fsq_place_id || candidate.venue.fsq_id}
+                    candidate={candidate}
+                    linking={linking}
+                    onLink={() => handleLinkVenue(candidate.venue.fsq_place_id || candidate.venue.fsq_id, candidate.venue.name)}
+                  />
+                ))}
+              </YStack>
+            </Card>
+          )}
+
           {/* Fuzzy search results */}
-          {searchDone && !exactMatch && searchResults.length > 0 && (
+          {searchDone && !exactMatch && candidates.length === 0 && searchResults.length > 0 && (
             <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="rgba(168,85,247,0.3)" padding="$6">
               <YStack gap="$4">
                 <Text fontSize="$5" fontWeight="700" color="$color">Possible Matches ({searchResults.length})</Text>
@@ -985,7 +1079,7 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
           )}
 
           {/* No results */}
-          {searchDone && !exactMatch && searchResults.length === 0 && (
+          {searchDone && !exactMatch && candidates.length === 0 && searchResults.length === 0 && (
             <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="rgba(245,158,11,0.3)" padding="$6">
               <XStack gap={12} alignItems="center">
                 <AlertCircle size={20} color="#F59E0B" />
@@ -1011,8 +1105,8 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
         </Card>
       )}
 
-      {/* Active state — rich venue details */}
-      {foursquareVenueId && status === 'active' && (
+      {/* Listed state — rich venue details */}
+      {listed && (
         <Card backgroundColor="$background" borderRadius="$5" borderWidth={2} borderColor="rgba(16,185,129,0.3)" padding="$6">
           <YStack gap="$4">
             <XStack gap={12} alignItems="center" justifyContent="space-between">
@@ -1253,15 +1347,17 @@ export default function FoursquareTab({ contactId, foursquareVenueId, company, s
         </Card>
       )}
 
-      {/* Error with notes */}
-      {status === 'error' && serviceStatus?.notes && (
+      {/* Error with notes, or the drift reason */}
+      {status === 'error' && (serviceStatus?.notes || metadata.error) && (
         <Card backgroundColor="$background" borderRadius="$5" borderWidth={2} borderColor="rgba(239,68,68,0.3)" padding="$6">
           <XStack gap={12} alignItems="center">
             <AlertCircle size={20} color="#EF4444" />
-            <Text fontSize="$4" color="$color" opacity={0.7} flex={1}>{serviceStatus.notes}</Text>
+            <Text fontSize="$4" color="$color" opacity={0.7} flex={1}>{serviceStatus?.notes || metadata.error}</Text>
           </XStack>
         </Card>
       )}
+
+      {listed && <FoursquareDriftCard contactId={contactId} onStatusChange={onRefresh} />}
     </YStack>
   )
 }
@@ -1289,48 +1385,53 @@ interface Discrepancy {
   foursquare: string
 }
 
-function normalize(val: string | undefined | null): string {
-  return (val || '').trim().toLowerCase().replace(/[\s\-\(\)\.]+/g, '')
-}
+const sameStreet = (a: string, b: string) => normalizeStreet(a) === normalizeStreet(b)
+const sameCity = (a: string, b: string) => normalizeCity(a) === normalizeCity(b)
+const sameState = (a: string, b: string) => (toStateCode(a) ?? a.trim().toUpperCase()) === (toStateCode(b) ?? b.trim().toUpperCase())
 
 function computeDiscrepancies(hubspotProps: any, venue: FoursquarePlace): Discrepancy[] {
   const results: Discrepancy[] = []
 
-  const checks: Array<{ field: string; apiField: string; hubspot: string; foursquare: string }> = [
+  const checks: Array<Discrepancy & { same: (a: string, b: string) => boolean }> = [
     {
       field: 'Phone',
       apiField: 'tel',
       hubspot: hubspotProps.phone || hubspotProps.mobilephone || '',
       foursquare: venue.tel || '',
+      same: samePhone,
     },
     {
       field: 'Website',
       apiField: 'website',
       hubspot: hubspotProps.website || hubspotProps.current_website || '',
       foursquare: venue.website || '',
+      same: sameWebsite,
     },
     {
       field: 'Address',
       apiField: 'address',
       hubspot: hubspotProps.address || '',
       foursquare: venue.location?.address || '',
+      same: sameStreet,
     },
     {
       field: 'City',
       apiField: 'city',
       hubspot: hubspotProps.city || '',
       foursquare: venue.location?.locality || '',
+      same: sameCity,
     },
     {
       field: 'State',
       apiField: 'state',
       hubspot: hubspotProps.state || '',
       foursquare: venue.location?.region || '',
+      same: sameState,
     },
   ]
 
-  for (const check of checks) {
-    if (check.hubspot && check.foursquare && normalize(check.hubspot) !== normalize(check.foursquare)) {
+  for (const { same, ...check } of checks) {
+    if (check.hubspot && check.foursquare && !same(check.hubspot, check.foursquare)) {
       results.push(check)
     }
     if (check.hubspot && !check.foursquare) {
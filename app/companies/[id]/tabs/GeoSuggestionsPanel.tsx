@@ -0,0 +1,137 @@
+// @ts-nocheck
+'use client'
+
+import { useState, useCallback } from 'react'
+import { YStack, XStack, Text, Button, Spinner } from 'tamagui'
+import { ArrowDown, ArrowUp, MapPinned, X } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface GeoSuggestion {
+  location: string
+  kind: 'city' | 'community'
+  distanceMiles: number
+  population: number | null
+}
+
+interface GeoSuggestionsPanelProps {
+  contactId: string
+  /** HubSpot address, used when no Google place is linked */
+  address: { city?: string | null; state?: string | null; zip?: string | null }
+  /** Called with the accepted list, in order, and the suggested base location */
+  onApply: (locations: string[], baseLocation: string | null) => void
+}
+
+const ORIGIN_LABELS = {
+  google_place: 'Google place',
+  zip: 'ZIP code',
+  city: 'city',
+}
+
+export default function GeoSuggestionsPanel({ contactId, address, onApply }: GeoSuggestionsPanelProps) {
+  const [radius, setRadius] = useState(25)
+  const [loading, setLoading] = useState(false)
+  const [origin, setOrigin] = useState<{ source: string; baseLocation: string | null } | null>(null)
+  const [list, setList] = useState<GeoSuggestion[] | null>(null)
+
+  const fetchSuggestions = useCallback(async () => {
+    setLoading(true)
+    try {
+      const query = new URLSearchParams({ radius_miles: String(radius), limit: '20' })
+      if (address.city) query.set('city', address.city)
+      if (address.state) query.set('state', address.state)
+      if (address.zip) query.set('zip', address.zip)
+
+      const res = await fetch(`/api/onboarding/${contactId}/landing-pages/suggestions?${query}`)
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to suggest locations')
+      }
+
+      setOrigin(data.data.origin)
+      setList(data.data.suggestions)
+      if (data.data.suggestions.length === 0) {
+        toast(`No new cities within ${radius} miles`)
+      }
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to suggest locations')
+    } finally {
+      setLoading(false)
+    }
+  }, [contactId, address.city, address.state, address.zip, radius])
+
+  const move = useCallback((index: number, delta: number) => {
+    setList((current) => {
+      const next = [...current]
+      const [item] = next.splice(index, 1)
+      next.splice(index + delta, 0, item)
+      return next
+    })
+  }, [])
+
+  const remove = useCallback((index: number) => {
+    setList((current) => current.filter((_, i) => i !== index))
+  }, [])
+
+  const apply = useCallback(() => {
+    onApply(list.map((s) => s.location), origin?.baseLocation ?? null)
+    setList(null)
+  }, [list, origin, onApply])
+
+  return (
+    <YStack gap="$2" padding="$3" borderWidth={1} borderColor="rgba(16,185,129,0.2)" borderRadius="$4" backgroundColor="rgba(16,185,129,0.03)">
+      <XStack alignItems="center" gap="$2">
+        <MapPinned size={16} color="#10B981" />
+        <Text flex={1} fontSize={13} fontWeight="600" color="$color">Suggest nearby cities</Text>
+        <Text fontSize={12} color="$color" opacity={0.5}>within</Text>
+        <input
+          type="number"
+          value={radius}
+          onChange={(e) => setRadius(Math.max(1, Math.min(100, parseInt(e.target.value) || 1)))}
+          min={1}
+          max={100}
+          style={{ width: 64, padding: '4px 8px', borderRadius: 6, border: '1px solid rgba(0,0,0,0.15)', background: 'transparent', color: 'inherit', fontSize: 13 }}
+        />
+        <Text fontSize={12} color="$color" opacity={0.5}>miles</Text>
+        <Button size="$2" backgroundColor="#10B981" onPress={fetchSuggestions} disabled={loading}>
+          {loading ? <Spinner size="small" color="white" /> : <Text color="white" fontSize={12} fontWeight="700">Suggest</Text>}
+        </Button>
+      </XStack>
+
+      {list && list.length > 0 && (
+        <>
+          <Text fontSize={11} color="$color" opacity={0.5}>
+            Around the {ORIGIN_LABELS[origin?.source] ?? 'business'}
+            {origin?.baseLocation ? ` in ${origin.baseLocation}` : ''} · cities that already have a page are left out.
+            Reorder or remove, then use the list.
+          </Text>
+          <YStack>
+            {list.map((s, i) => (
+              <XStack key={s.location} alignItems="center" gap="$2" paddingVertical={4} borderBottomWidth={1} borderColor="rgba(0,0,0,0.05)">
+                <Text width={20} fontSize={11} color="$color" opacity={0.4}>{i + 1}</Text>
+                <Text flex={1} fontSize={13} color="$color">
+                  {s.location}
+                  {s.kind === 'community' && <Text fontSize={11} color="$color" opacity={0.4}> (community)</Text>}
+                </Text>
+                <Text width={60} fontSize={11} color="$color" opacity={0.5}>{s.distanceMiles} mi</Text>
+                <Text width={70} fontSize={11} color="$color" opacity={0.5}>
+                  {s.population != null ? `pop. ${s.population.toLocaleString()}` : ''}
+                </Text>
+                <Button size="$1" chromeless disabled={i === 0} onPress={() => move(i, -1)} icon={<ArrowUp size={12} />} aria-label="Move up" />
+                <Button size="$1" chromeless disabled={i === list.length - 1} onPress={() => move(i, 1)} icon={<ArrowDown size={12} />} aria-label="Move down" />
+                <Button size="$1" chromeless onPress={() => remove(i)} icon={<X size={12} color="#EF4444" />} aria-label="Remove" />
+              </XStack>
+            ))}
+          </YStack>
+          <XStack gap="$2" justifyContent="flex-end">
+            <Button size="$2" chromeless onPress={() => setList(null)}>
+              <Text fontSize={12} color="$color" opacity={0.6}>Dismiss</Text>
+            </Button>
+            <Button size="$2" backgroundColor="#10B981" onPress={apply}>
+              <Text color="white" fontSize={12} fontWeight="700">Use {list.length} as Priority Locations</Text>
+            </Button>
+          </XStack>
+        </>
+      )}
+    </YStack>
+  )
+}
@@ -0,0 +1,202 @@
+// @ts-nocheck
+'use client'
+
+import { useState } from 'react'
+import { YStack, XStack, Text, Card, Button, Spinner, Stack } from 'tamagui'
+import { History, Link2, RefreshCw, User, Cpu } from 'lucide-react'
+import type { OnboardingEvent, ServiceType } from '@/app/types/onboarding'
+import { SERVICE_LABELS, STATUS_LABELS, STATUS_COLORS, SERVICE_COLORS, EVENT_ACTION_LABELS } from '@/app/types/onboarding'
+import { useOnboardingEvents } from '@/app/hooks/useOnboardingEvents'
+import { SERVICE_IDS } from '@/lib/onboarding/registry'
+import { SERVICE_ICONS } from '@/app/components/serviceIcons'
+
+interface HistoryTabProps {
+  contactId: string
+}
+
+const FILTERS: Array<{ value: ServiceType | 'all'; label: string }> = [
+  { value: 'all', label: 'All' },
+  ...SERVICE_IDS.map((service) => ({ value: service, label: SERVICE_LABELS[service] })),
+]
+
+function formatTimestamp(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+function StatusPill({ status }: { status: string | null }) {
+  if (!status) return <Text fontSize={11} color="$color" opacity={0.4}>—</Text>
+  const color = STATUS_COLORS[status] ?? '#6B7280'
+  return (
+    <XStack backgroundColor={`${color}20`} paddingHorizontal="$1.5" paddingVertical="$0.5" borderRadius="$2">
+      <Text fontSize={10} fontWeight="700" color={color} textTransform="uppercase">
+        {STATUS_LABELS[status] ?? status}
+      </Text>
+    </XStack>
+  )
+}
+
+/** Short "field: before → after" lines for the keys that changed */
+function describeChanges(event: OnboardingEvent): string[] {
+  const before = event.payload_before ?? {}
+  const after = event.payload_after ?? {}
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+
+  return keys
+    .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .slice(0, 6)
+    .map((key) => {
+      const format = (v: unknown) => (v == null || v === '' ? '∅' : typeof v === 'object' ? JSON.stringify(v) : String(v))
+      return event.payload_before ? `${key}: ${format(before[key])} → ${format(after[key])}` : `${key}: ${format(after[key])}`
+    })
+}
+
+function EventRow({ event }: { event: OnboardingEvent }) {
+  const [expanded, setExpanded] = useState(false)
+  const changes = describeChanges(event)
+  const statusChanged = event.status_before !== event.status_after
+  const ServiceIcon = (event.service && SERVICE_ICONS[event.service]) || Link2
+
+  return (
+    <XStack gap="$3" paddingVertical="$3" borderBottomWidth={1} borderColor="$borderColor">
+      <YStack
+        width={32}
+        height={32}
+        borderRadius={16}
+        backgroundColor={event.service ? SERVICE_COLORS[event.service] : '#6B7280'}
+        opacity={0.9}
+        justifyContent="center"
+        alignItems="center"
+      >
+        <Stack style={{ color: 'white' }}>
+          <ServiceIcon size={16} strokeWidth={2} />
+        </Stack>
+      </YStack>
+
+      <YStack flex={1} gap="$1.5">
+        <XStack gap="$2" alignItems="center" flexWrap="wrap">
+          <Text fontSize={14} fontWeight="700" color="$color">
+            {EVENT_ACTION_LABELS[event.action] ?? event.action}
+          </Text>
+          <Text fontSize={12} color="$color" opacity={0.5}>
+            {event.service ? SERVICE_LABELS[event.service] : 'Identity'}
+          </Text>
+          {statusChanged && (
+            <XStack gap="$1.5" alignItems="center">
+              <StatusPill status={event.status_before} />
+              <Text fontSize={11} color="$color" opacity={0.4}>→</Text>
+              <StatusPill status={event.status_after} />
+            </XStack>
+          )}
+        </XStack>
+
+        <XStack gap="$1.5" alignItems="center">
+          {event.actor_id ? <User size={12} color="#6b7280" /> : <Cpu size={12} color="#6b7280" />}
+          <Text fontSize={12} color="$color" opacity={0.6}>
+            {event.actor_email || (event.actor_id ? 'Unknown user' : 'System')} · {formatTimestamp(event.created_at)}
+          </Text>
+        </XStack>
+
+        {changes.length > 0 && (
+          <YStack gap="$1">
+            {(expanded ? changes : changes.slice(0, 2)).map((line) => (
+              <Text key={line} fontSize={12} color="$color" opacity={0.7} fontFamily="$mono" numberOfLines={expanded ? undefined : 1}>
+                {line}
+              </Text>
+            ))}
+            {changes.length > 2 && (
+              <Text fontSize={12} color="#3B82F6" cursor="pointer" onPress={() => setExpanded(!expanded)}>
+                {expanded ? 'Show less' : `Show ${changes.length - 2} more`}
+              </Text>
+            )}
+          </YStack>
+        )}
+      </YStack>
+    </XStack>
+  )
+}
+
+export default function HistoryTab({ contactId }: HistoryTabProps) {
+  const [filter, setFilter] = useState<ServiceType | 'all'>('all')
+  const { events, loading, error, refetch } = useOnboardingEvents(
+    contactId,
+    filter === 'all' ? undefined : filter
+  )
+
+  return (
+    <YStack gap="$6" maxWidth={800}>
+      {/* Header */}
+      <Card
+        backgroundColor="$background"
+        borderRadius="$5"
+        borderWidth={2}
+        borderColor="rgba(100,116,139,0.2)"
+        padding="$5"
+      >
+        <XStack alignItems="center" gap="$3">
+          <YStack
+            width={56}
+            height={56}
+            borderRadius="$4"
+            backgroundColor="rgba(100,116,139,0.1)"
+            justifyContent="center"
+            alignItems="center"
+            borderWidth={2}
+            borderColor="rgba(100,116,139,0.3)"
+          >
+            <History size={28} color="#64748B" strokeWidth={2} />
+          </YStack>
+          <YStack flex={1}>
+            <Text fontSize="$6" fontWeight="800" color="$color">Onboarding History</Text>
+            <Text fontSize="$3" color="$color" opacity={0.6}>
+              Every status change, who made it, and what changed
+            </Text>
+          </YStack>
+          <Button size="$3" chromeless onPress={() => refetch()} icon={<RefreshCw size={16} color="#64748B" />} />
+        </XStack>
+      </Card>
+
+      {/* Service filter */}
+      <XStack gap="$2" flexWrap="wrap">
+        {FILTERS.map((f) => {
+          const isActive = filter === f.value
+          return (
+            <Button
+              key={f.value}
+              size="$2"
+              borderRadius="$3"
+              backgroundColor={isActive ? 'rgba(100,116,139,0.15)' : 'transparent'}
+              borderWidth={1}
+              borderColor={isActive ? 'rgba(100,116,139,0.4)' : '$borderColor'}
+              onPress={() => setFilter(f.value)}
+            >
+              <Text fontSize={12} fontWeight={isActive ? '700' : '500'} color="$color">{f.label}</Text>
+            </Button>
+          )
+        })}
+      </XStack>
+
+      {/* Timeline */}
+      <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="$borderColor" paddingHorizontal="$5" paddingVertical="$2">
+        {loading ? (
+          <YStack alignItems="center" padding="$6">
+            <Spinner size="large" color="#64748B" />
+          </YStack>
+        ) : error ? (
+          <Text fontSize="$4" color="#EF4444" padding="$4">{String(error)}</Text>
+        ) : events.length === 0 ? (
+          <Text fontSize="$4" color="$color" opacity={0.6} padding="$4" textAlign="center">
+            No onboarding changes recorded yet
+          </Text>
+        ) : (
+          events.map((event) => <EventRow key={event.id} event={event} />)
+        )}
+      </Card>
+    </YStack>
+  )
+}
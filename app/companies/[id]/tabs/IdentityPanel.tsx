@@ -30,7 +30,8 @@ export default function IdentityPanel({ contactId, identity, onUpdate }: Identit
       })
       const data = await res.json()
       if (!data.success) throw new Error(data.error)
-      toast.success('Service identifiers updated')
+      const site = data.meta?.duda_site
+      toast.success(site ? `Linked to Duda site ${site.site_domain || site.site_default_domain || site.site_name}` : 'Service identifiers updated')
       setEditing(false)
       onUpdate()
     } catch (err: any) {
@@ -86,6 +87,9 @@ export default function IdentityPanel({ contactId, identity, onUpdate }: Identit
                   color: 'inherit',
                 }}
               />
+              <Text fontSize={11} color="$color" opacity={0.5}>
+                Checked against Duda when saved
+              </Text>
             </YStack>
             <XStack gap={8} justifyContent="flex-end">
               <Button
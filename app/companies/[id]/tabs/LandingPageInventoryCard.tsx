@@ -0,0 +1,177 @@
+// @ts-nocheck
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { YStack, XStack, Text, Card, Button, Spinner } from 'tamagui'
+import { ExternalLink, MapPin, RefreshCw, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import type { LandingPage } from '@/app/types/onboarding'
+import { DRAFT_STATUS_LABELS } from '@/app/types/onboarding'
+import { useLandingPages } from '@/app/hooks/useLandingPages'
+import { invalidateOnboardingStatus } from '@/lib/cache/invalidate'
+
+interface LandingPageInventoryCardProps {
+  contactId: string
+  /** Pages are refetched when this changes (job finished, draft reviewed) */
+  refreshKey?: string | null
+  /** Generation is running; per-page regenerate is disabled meanwhile */
+  generating: boolean
+  /** Called after a regeneration job is queued */
+  onJobQueued?: () => void
+  /** Called after a page (and its open draft) is deleted */
+  onChanged?: () => void
+}
+
+/** Live, in review, or live with an update in review */
+function pageStatus(page: LandingPage): { label: string; color: string } {
+  const draftStatus = page.draft?.status
+  if (draftStatus === 'published' || (page.published_at && !draftStatus)) {
+    return { label: 'Live', color: '#10B981' }
+  }
+  if (page.draft?.publish_error) {
+    return { label: 'Publish Failed', color: '#EF4444' }
+  }
+  const label = draftStatus ? DRAFT_STATUS_LABELS[draftStatus] : 'Generated'
+  return page.published_at
+    ? { label: `Live · Update ${label}`, color: '#3B82F6' }
+    : { label, color: draftStatus === 'rejected' ? '#EF4444' : '#F59E0B' }
+}
+
+const columnHeader = { fontSize: 11, fontWeight: '600', color: '$color', opacity: 0.5, textTransform: 'uppercase' }
+
+export default function LandingPageInventoryCard({
+  contactId,
+  refreshKey,
+  generating,
+  onJobQueued,
+  onChanged,
+}: LandingPageInventoryCardProps) {
+  const { pages, loading, refetch } = useLandingPages(contactId)
+  const [busy, setBusy] = useState<{ id: string; action: 'regenerate' | 'delete' } | null>(null)
+
+  useEffect(() => {
+    if (refreshKey) refetch()
+  }, [refreshKey, refetch])
+
+  const regenerate = useCallback(async (page: LandingPage) => {
+    setBusy({ id: page.id, action: 'regenerate' })
+    try {
+      const res = await fetch(`/api/onboarding/${contactId}/landing-pages/${page.id}/regenerate`, { method: 'POST' })
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to queue regeneration')
+      }
+      toast.success(`Regenerating ${page.location} - the new page will appear in Review`)
+      invalidateOnboardingStatus(contactId)
+      onJobQueued?.()
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to regenerate landing page')
+    } finally {
+      setBusy(null)
+    }
+  }, [contactId, onJobQueued])
+
+  const remove = useCallback(async (page: LandingPage) => {
+    const live = page.collection_row_id ? ' It will be removed from the Duda site.' : ''
+    if (!confirm(`Delete the ${page.location} landing page?${live}`)) return
+
+    setBusy({ id: page.id, action: 'delete' })
+    try {
+      const res = await fetch(`/api/onboarding/${contactId}/landing-pages/${page.id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete')
+      }
+      toast(`${page.location} page deleted`)
+      await refetch()
+      onChanged?.()
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to delete landing page')
+    } finally {
+      setBusy(null)
+    }
+  }, [contactId, refetch, onChanged])
+
+  if (loading || pages.length === 0) return null
+
+  const liveCount = pages.filter((p) => p.collection_row_id).length
+
+  return (
+    <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="$borderColor" padding="$6">
+      <YStack gap="$4">
+        <XStack alignItems="center" gap="$3">
+          <MapPin size={20} color="#10B981" />
+          <YStack flex={1}>
+            <Text fontSize="$5" fontWeight="700" color="$color">Pages</Text>
+            <Text fontSize="$3" color="$color" opacity={0.6}>
+              {pages.length} cit{pages.length === 1 ? 'y' : 'ies'} · {liveCount} live on Duda
+            </Text>
+          </YStack>
+        </XStack>
+
+        <YStack>
+          <XStack paddingVertical="$2" paddingHorizontal="$2" gap="$3" borderBottomWidth={1} borderColor="$borderColor">
+            <Text flex={2} {...columnHeader}>City</Text>
+            <Text flex={2} {...columnHeader}>Status</Text>
+            <Text flex={3} {...columnHeader}>Page</Text>
+            <Text width={90} {...columnHeader}>Generated</Text>
+            <Text width={72} {...columnHeader} />
+          </XStack>
+
+          {pages.map((page) => {
+            const status = pageStatus(page)
+            const rowBusy = busy?.id === page.id
+            return (
+              <XStack
+                key={page.id}
+                alignItems="center"
+                paddingVertical="$2"
+                paddingHorizontal="$2"
+                gap="$3"
+                borderBottomWidth={1}
+                borderColor="rgba(0,0,0,0.05)"
+              >
+                <Text flex={2} fontSize="$3" fontWeight="600" color="$color" numberOfLines={1}>{page.location}</Text>
+                <XStack flex={2}>
+                  <XStack backgroundColor={`${status.color}15`} paddingHorizontal="$2" paddingVertical="$1" borderRadius="$2">
+                    <Text fontSize={10} fontWeight="700" color={status.color} textTransform="uppercase">{status.label}</Text>
+                  </XStack>
+                </XStack>
+                <XStack flex={3} alignItems="center" gap="$1">
+                  {page.url ? (
+                    <a href={page.url} target="_blank" rel="noopener noreferrer" style={{ fontSize: 12, color: '#3B82F6', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {page.url.replace(/^https?:\/\//, '')} <ExternalLink size={10} />
+                    </a>
+                  ) : (
+                    <Text fontSize={12} color="$color" opacity={0.4} numberOfLines={1}>{page.slug ? `/${page.slug}` : '—'}</Text>
+                  )}
+                </XStack>
+                <Text width={90} fontSize={12} color="$color" opacity={0.6}>
+                  {new Date(page.generated_at).toLocaleDateString()}
+                </Text>
+                <XStack width={72} gap="$1" justifyContent="flex-end">
+                  <Button
+                    size="$2"
+                    chromeless
+                    onPress={() => regenerate(page)}
+                    disabled={!!busy || generating}
+                    aria-label={`Regenerate ${page.location}`}
+                    icon={rowBusy && busy.action === 'regenerate' ? <Spinner size="small" /> : <RefreshCw size={14} />}
+                  />
+                  <Button
+                    size="$2"
+                    chromeless
+                    onPress={() => remove(page)}
+                    disabled={!!busy}
+                    aria-label={`Delete ${page.location}`}
+                    icon={rowBusy && busy.action === 'delete' ? <Spinner size="small" /> : <Trash2 size={14} color="#EF4444" />}
+                  />
+                </XStack>
+              </XStack>
+            )
+          })}
+        </YStack>
+      </YStack>
+    </Card>
+  )
+}
@@ -1,114 +1,148 @@
 // @ts-nocheck
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useRef, useEffect, useCallback } from 'react'
 import { YStack, XStack, Text, Card, Button, Spinner, Separator } from 'tamagui'
-import { Globe, AlertCircle, AlertTriangle, Play } from 'lucide-react'
+import { Globe, AlertCircle, AlertTriangle, Play, XCircle } from 'lucide-react'
 import { toast } from 'sonner'
 import type { OnboardingServiceStatus } from '@/app/types/onboarding'
+import { useOnboardingJob } from '@/app/hooks/useOnboardingJob'
 import { invalidateOnboardingStatus } from '@/lib/cache/invalidate'
+import DraftReviewCard from './DraftReviewCard'
+import LandingPageInventoryCard from './LandingPageInventoryCard'
+import GeoSuggestionsPanel from './GeoSuggestionsPanel'
 
 interface LandingPagesTabProps {
   contactId: string
   dudaSiteCode: string | null
+  company: any
   serviceStatus: OnboardingServiceStatus | undefined
   onRefresh: () => void
 }
 
-interface ProgressState {
-  elapsed: number
-  message: string
-  numPages: number
-}
-
-export default function LandingPagesTab({ contactId, dudaSiteCode, serviceStatus, onRefresh }: LandingPagesTabProps) {
+export default function LandingPagesTab({ contactId, dudaSiteCode, company, serviceStatus, onRefresh }: LandingPagesTabProps) {
   const [numPages, setNumPages] = useState(50)
   const [baseLocation, setBaseLocation] = useState('')
   const [industry, setIndustry] = useState('')
   const [priorityLocations, setPriorityLocations] = useState('')
-  const [generating, setGenerating] = useState(false)
-  const [progress, setProgress] = useState<ProgressState | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [cancelling, setCancelling] = useState(false)
+  // Bumped when drafts or pages change, so the review and inventory cards stay in step
+  const [contentVersion, setContentVersion] = useState(0)
+  const bumpContent = useCallback(() => setContentVersion((v) => v + 1), [])
+
+  const { job, isActive, refetch: refetchJob } = useOnboardingJob(contactId, 'landing_pages')
+  const activeJob = isActive ? job : null
+  const generating = submitting || isActive
 
   const status = serviceStatus?.status ?? 'not_started'
   const metadata = serviceStatus?.metadata ?? {}
 
-  const handleGenerate = useCallback(async () => {
-    if (!dudaSiteCode) return
-    setGenerating(true)
-    setProgress({ elapsed: 0, message: 'Starting...', numPages })
+  // Notify once when a job we watched running reaches a terminal state
+  const watchedJobRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (!job) return
+    if (isActive) {
+      watchedJobRef.current = job.id
+      return
+    }
+    if (watchedJobRef.current !== job.id) return
+    watchedJobRef.current = null
 
-    // Parse comma-separated priority locations
-    const priorityList = priorityLocations
-      .split(',')
-      .map(l => l.trim())
-      .filter(l => l !== '')
+    if (job.status === 'succeeded') {
+      const count = job.result?.pages_generated ?? job.result?.num_pages ?? 0
+      toast.success(`Generated ${count} landing pages - review them below before they go to Duda`)
+    } else if (job.status === 'failed') {
+      toast.error(job.error_message || 'Landing page generation failed')
+    } else if (job.status === 'cancelled') {
+      toast('Landing page generation cancelled')
+    }
+    invalidateOnboardingStatus(contactId)
+    onRefresh()
+  }, [job, isActive, contactId, onRefresh])
 
+  const enqueue = useCallback(async (payload: Record<string, unknown>) => {
+    setSubmitting(true)
     try {
       const res = await fetch(`/api/onboarding/${contactId}/landing-pages/generate`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          num_pages: numPages,
-          base_location: baseLocation,
-          industry,
-          duda_site_code: dudaSiteCode,
-          priority_locations: priorityList.length > 0 ? priorityList : undefined,
-        }),
+        body: JSON.stringify(payload),
       })
+      const data = await res.json()
 
-      if (!res.body) {
-        throw new Error('No response body')
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to queue landing page generation')
       }
 
-      const reader = res.body.getReader()
-      const decoder = new TextDecoder()
-      let buffer = ''
-      let streamDone = false
+      const skipped = data.meta?.skipped_locations ?? []
+      toast.success(skipped.length > 0
+        ? `Landing page generation queued - skipped ${skipped.join(', ')} (already have pages)`
+        : 'Landing page generation queued')
+      await refetchJob()
+      invalidateOnboardingStatus(contactId)
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to generate landing pages')
+    } finally {
+      setSubmitting(false)
+    }
+  }, [contactId, refetchJob])
+
+  const handleGenerate = useCallback(() => {
+    if (!dudaSiteCode) return
 
-      while (!streamDone) {
-        const { done, value } = await reader.read()
-        if (done) break
+    // Parse comma-separated priority locations
+    const priorityList = priorityLocations
+      .split(',')
+      .map(l => l.trim())
+      .filter(l => l !== '')
 
-        buffer += decoder.decode(value, { stream: true })
+    enqueue({
+      num_pages: numPages,
+      base_location: baseLocation,
+      industry,
+      duda_site_code: dudaSiteCode,
+      priority_locations: priorityList.length > 0 ? priorityList : undefined,
+    })
+  }, [enqueue, dudaSiteCode, baseLocation, industry, numPages, priorityLocations])
 
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
+  // Retry re-queues the last request as-is (the form is empty after a page refresh)
+  const handleRetry = useCallback(() => {
+    if (!dudaSiteCode) return
+    const last = job?.payload ?? serviceStatus?.metadata ?? {}
+    enqueue({
+      num_pages: last.num_pages,
+      base_location: last.base_location,
+      industry: last.industry,
+      duda_site_code: dudaSiteCode,
+      priority_locations: last.priority_locations,
+      collection_name: last.collection_name,
+    })
+  }, [enqueue, job, serviceStatus, dudaSiteCode])
 
-        for (const line of lines) {
-          if (!line.startsWith('data: ')) continue
-          try {
-            const event = JSON.parse(line.slice(6))
+  // Accepted suggestions replace the priority list; the page count grows to fit
+  const handleApplySuggestions = useCallback((locations: string[], suggestedBase: string | null) => {
+    setPriorityLocations(locations.join(', '))
+    setNumPages((n) => Math.max(n, locations.length))
+    if (suggestedBase) setBaseLocation((current) => current || suggestedBase)
+  }, [])
 
-            if (event.type === 'progress') {
-              setProgress(prev => ({ elapsed: event.elapsed, message: event.message, numPages: prev?.numPages ?? numPages }))
-            } else if (event.type === 'started') {
-              setProgress({ elapsed: 0, message: `Generating ${event.num_pages} landing pages...`, numPages: event.num_pages })
-            } else if (event.type === 'complete') {
-              const count = event.pages_generated ?? 0
-              toast.success(`Generated ${count} landing pages`)
-              invalidateOnboardingStatus(contactId)
-              onRefresh()
-              streamDone = true
-              break
-            } else if (event.type === 'error') {
-              toast.error(event.message || 'Landing page generation failed')
-              streamDone = true
-              break
-            }
-          } catch {
-            // Ignore malformed JSON lines
-          }
-        }
+  const handleCancel = useCallback(async () => {
+    if (!activeJob) return
+    setCancelling(true)
+    try {
+      const res = await fetch(`/api/onboarding/${contactId}/jobs/${activeJob.id}/cancel`, { method: 'POST' })
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to cancel')
       }
-
-      reader.cancel().catch(() => {})
+      await refetchJob()
     } catch (err: any) {
-      toast.error(err.message || 'Failed to generate landing pages')
+      toast.error(err.message || 'Failed to cancel landing page generation')
     } finally {
-      setGenerating(false)
-      setProgress(null)
+      setCancelling(false)
     }
-  }, [contactId, dudaSiteCode, baseLocation, industry, numPages, priorityLocations, onRefresh])
+  }, [contactId, activeJob, refetchJob])
 
   const inputStyle = {
     padding: '10px 14px',
@@ -172,23 +206,43 @@ export default function LandingPagesTab({ contactId, dudaSiteCode, serviceStatus
         </Card>
       )}
 
-      {/* Live progress card */}
-      {generating && progress && (
+      {/* Job progress card (polled from onboarding_jobs, survives refresh) */}
+      {generating && (
         <Card backgroundColor="$background" borderRadius="$5" borderWidth={2} borderColor="rgba(16,185,129,0.3)" padding="$6">
           <YStack alignItems="center" gap="$4">
             <Spinner size="large" color="#10B981" />
             <Text fontSize="$5" fontWeight="700" color="$color">
-              Generating {progress.numPages} landing pages...
-            </Text>
-            <Text fontSize="$4" color="$color" opacity={0.7}>
-              {progress.elapsed}s elapsed
+              {activeJob?.status === 'queued' ? 'Queued' : 'Generating'} {activeJob?.payload?.num_pages ?? numPages} landing pages...
             </Text>
+            {activeJob?.progress?.elapsed != null && (
+              <Text fontSize="$4" color="$color" opacity={0.7}>
+                {activeJob.progress.elapsed}s elapsed
+              </Text>
+            )}
             <Text fontSize="$3" color="$color" opacity={0.5}>
-              {progress.message}
+              {activeJob?.progress?.message || 'Starting...'}
             </Text>
+            {activeJob && activeJob.attempts > 1 && (
+              <Text fontSize="$2" color="#F59E0B">
+                Attempt {activeJob.attempts} of {activeJob.max_attempts}
+              </Text>
+            )}
             <Text fontSize="$2" color="$color" opacity={0.4}>
-              This may take several minutes. Do not close this tab.
+              This may take several minutes. It keeps running if you leave this page.
             </Text>
+            {activeJob && (
+              <Button
+                size="$3"
+                chromeless
+                onPress={handleCancel}
+                disabled={cancelling || activeJob.cancel_requested}
+                icon={<XCircle size={14} color="#EF4444" />}
+              >
+                <Text color="#EF4444" fontWeight="600">
+                  {activeJob.cancel_requested ? 'Cancelling...' : 'Cancel'}
+                </Text>
+              </Button>
+            )}
           </YStack>
         </Card>
       )}
@@ -248,6 +302,15 @@ export default function LandingPagesTab({ contactId, dudaSiteCode, serviceStatus
                   Comma-separated cities to include first. Remaining slots filled automatically.
                 </Text>
               </YStack>
+              <GeoSuggestionsPanel
+                contactId={contactId}
+                address={{
+                  city: company?.properties?.city,
+                  state: company?.properties?.state,
+                  zip: company?.properties?.zip,
+                }}
+                onApply={handleApplySuggestions}
+              />
               <YStack gap="$1">
                 <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Number of Pages</Text>
                 <input
@@ -279,7 +342,7 @@ export default function LandingPagesTab({ contactId, dudaSiteCode, serviceStatus
         <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="rgba(245,158,11,0.3)" padding="$6">
           <YStack alignItems="center" gap="$4">
             <Spinner size="large" color="#10B981" />
-            <Text fontSize="$5" fontWeight="700" color="$color">Generation in progress...</Text>
+            <Text fontSize="$5" fontWeight="700" color="$color">Generation pending...</Text>
             <Text fontSize="$4" color="$color" opacity={0.6}>
               {metadata.num_pages ? `Generating ${metadata.num_pages} landing pages` : 'This may take a few minutes'}
             </Text>
@@ -287,7 +350,7 @@ export default function LandingPagesTab({ contactId, dudaSiteCode, serviceStatus
         </Card>
       )}
 
-      {/* Error state — form is shown above for retry, so just show the error message */}
+      {/* Error state — form is shown above for changes, or retry the last request as-is */}
       {!generating && status === 'error' && (
         <Card backgroundColor="$background" borderRadius="$5" borderWidth={2} borderColor="rgba(239,68,68,0.3)" padding="$6">
           <XStack gap={12} alignItems="center">
@@ -295,12 +358,34 @@ export default function LandingPagesTab({ contactId, dudaSiteCode, serviceStatus
             <YStack flex={1}>
               <Text fontSize="$5" fontWeight="700" color="$color">Previous Generation Failed</Text>
               <Text fontSize="$3" color="$color" opacity={0.6}>
-                {serviceStatus?.notes || metadata.error || 'An error occurred during landing page generation'}
+                {(job?.status === 'failed' && job.error_message) || serviceStatus?.notes || metadata.error || 'An error occurred during landing page generation'}
               </Text>
             </YStack>
+            {metadata.base_location && (
+              <Button size="$3" backgroundColor="#10B981" onPress={handleRetry}>
+                <Text color="white" fontWeight="700">Retry</Text>
+              </Button>
+            )}
           </XStack>
         </Card>
       )}
+
+      <LandingPageInventoryCard
+        contactId={contactId}
+        refreshKey={`${job ? `${job.id}:${job.status}` : 'none'}:${contentVersion}`}
+        generating={generating}
+        onJobQueued={refetchJob}
+        onChanged={bumpContent}
+      />
+
+      <DraftReviewCard
+        contactId={contactId}
+        service="landing_pages"
+        itemLabel="landing page"
+        jobKey={`${job ? `${job.id}:${job.status}` : 'none'}:${contentVersion}`}
+        onJobQueued={refetchJob}
+        onDraftsChanged={bumpContent}
+      />
     </YStack>
   )
 }
@@ -0,0 +1,194 @@
+// @ts-nocheck
+'use client'
+
+import { useState } from 'react'
+import { YStack, XStack, Text, Card, Button, Spinner } from 'tamagui'
+import { ShieldCheck, RefreshCw, AlertTriangle } from 'lucide-react'
+import { toast } from 'sonner'
+import type { NapFieldStatus, NapSourceResult } from '@/app/types/nap'
+import { NAP_FIELD_LABELS, NAP_SOURCE_LABELS } from '@/app/types/nap'
+import { useNapAudits } from '@/app/hooks/useNapAudits'
+
+interface NapConsistencyCardProps {
+  contactId: string
+}
+
+const FIELD_COLORS: Record<NapFieldStatus, string> = {
+  match: '#10B981',
+  partial: '#F59E0B',
+  mismatch: '#EF4444',
+  missing: '#9CA3AF',
+}
+
+function scoreColor(score: number | null) {
+  if (score === null) return '#6B7280'
+  if (score >= 90) return '#10B981'
+  if (score >= 70) return '#F59E0B'
+  return '#EF4444'
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+function SourceRow({ result, isReference }: { result: NapSourceResult; isReference: boolean }) {
+  return (
+    <YStack gap="$1.5" paddingVertical="$2.5" borderBottomWidth={1} borderColor="$borderColor">
+      <XStack justifyContent="space-between" alignItems="center">
+        <XStack gap="$2" alignItems="center">
+          <Text fontSize={13} fontWeight="600" color="$color">{NAP_SOURCE_LABELS[result.source]}</Text>
+          {isReference && (
+            <Text fontSize={10} fontWeight="700" color="#3B82F6" textTransform="uppercase">Reference</Text>
+          )}
+        </XStack>
+        {result.status === 'ok' ? (
+          <Text fontSize={13} fontWeight="700" color={scoreColor(result.score)}>
+            {result.score === null ? '—' : `${result.score}%`}
+          </Text>
+        ) : (
+          <Text fontSize={12} color={result.status === 'error' ? '#EF4444' : '$color'} opacity={result.status === 'error' ? 1 : 0.5}>
+            {result.status === 'error' ? 'Lookup failed' : 'Not linked'}
+          </Text>
+        )}
+      </XStack>
+      {result.status === 'error' && result.error && (
+        <Text fontSize={11} color="$color" opacity={0.6} numberOfLines={2}>{result.error}</Text>
+      )}
+      {result.fields.length > 0 && (
+        <XStack gap="$1.5" flexWrap="wrap">
+          {result.fields.map((f) => (
+            <XStack
+              key={f.field}
+              backgroundColor={`${FIELD_COLORS[f.status]}20`}
+              paddingHorizontal="$1.5"
+              paddingVertical="$0.5"
+              borderRadius="$2"
+            >
+              <Text fontSize={10} fontWeight="600" color={FIELD_COLORS[f.status]}>
+                {NAP_FIELD_LABELS[f.field]}
+              </Text>
+            </XStack>
+          ))}
+        </XStack>
+      )}
+    </YStack>
+  )
+}
+
+export default function NapConsistencyCard({ contactId }: NapConsistencyCardProps) {
+  const { audits, latest, loading, error, refetch } = useNapAudits(contactId)
+  const [running, setRunning] = useState(false)
+
+  const handleRun = async () => {
+    setRunning(true)
+    try {
+      const res = await fetch(`/api/onboarding/${contactId}/nap`, { method: 'POST' })
+      const data = await res.json()
+      if (!data.success) throw new Error(data.error || 'Failed to run audit')
+      const audit = data.data
+      toast.success(
+        audit.score === null
+          ? 'Audit saved - no other listings to compare yet'
+          : `NAP score ${audit.score}% · ${audit.fixes.length} fix${audit.fixes.length === 1 ? '' : 'es'}`
+      )
+      await refetch()
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to run audit')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const trend = audits.slice(0, 8).reverse()
+
+  return (
+    <Card
+      backgroundColor="$background"
+      borderColor="$borderColor"
+      borderWidth={1}
+      borderRadius={12}
+      padding="$5"
+    >
+      <YStack gap="$4">
+        <XStack justifyContent="space-between" alignItems="center">
+          <XStack gap={8} alignItems="center">
+            <ShieldCheck size={18} color="#6B7280" strokeWidth={2} />
+            <Text fontSize={15} fontWeight="600" color="$color">NAP Consistency</Text>
+            {latest && (
+              <Text fontSize={15} fontWeight="800" color={scoreColor(latest.score)}>
+                {latest.score === null ? '—' : `${latest.score}%`}
+              </Text>
+            )}
+          </XStack>
+          <Button
+            size="$2"
+            backgroundColor="transparent"
+            borderWidth={1}
+            borderColor="$borderColor"
+            disabled={running}
+            onPress={handleRun}
+            icon={running ? <Spinner size="small" /> : <RefreshCw size={14} color="currentColor" />}
+          >
+            <Text fontSize={12} color="$color">{running ? 'Auditing...' : 'Run audit'}</Text>
+          </Button>
+        </XStack>
+
+        {loading ? (
+          <YStack alignItems="center" paddingVertical="$3">
+            <Spinner size="small" color="#6B7280" />
+          </YStack>
+        ) : error ? (
+          <Text fontSize={12} color="#EF4444">{String(error)}</Text>
+        ) : !latest ? (
+          <Text fontSize={13} color="$color" opacity={0.6}>
+            Compare name, address, phone, website and hours across HubSpot, Google, Foursquare, GBP and BrightLocal.
+          </Text>
+        ) : (
+          <YStack gap="$4">
+            <Text fontSize={12} color="$color" opacity={0.5}>
+              Last run {formatDate(latest.created_at)}{latest.created_by ? ` by ${latest.created_by}` : ''}
+              {latest.reference_source ? ` · compared against ${NAP_SOURCE_LABELS[latest.reference_source]}` : ''}
+            </Text>
+
+            {trend.length > 1 && (
+              <XStack gap="$2" flexWrap="wrap" alignItems="center">
+                <Text fontSize={12} color="$color" opacity={0.5}>History</Text>
+                {trend.map((audit) => (
+                  <YStack key={audit.id} alignItems="center">
+                    <Text fontSize={12} fontWeight="700" color={scoreColor(audit.score)}>
+                      {audit.score === null ? '—' : Math.round(audit.score)}
+                    </Text>
+                    <Text fontSize={10} color="$color" opacity={0.5}>{formatDate(audit.created_at)}</Text>
+                  </YStack>
+                ))}
+              </XStack>
+            )}
+
+            <YStack>
+              {latest.sources.map((result) => (
+                <SourceRow key={result.source} result={result} isReference={result.source === latest.reference_source} />
+              ))}
+            </YStack>
+
+            {latest.fixes.length > 0 && (
+              <YStack gap="$2">
+                <XStack gap="$1.5" alignItems="center">
+                  <AlertTriangle size={14} color="#F59E0B" />
+                  <Text fontSize={13} fontWeight="600" color="$color">Fixes ({latest.fixes.length})</Text>
+                </XStack>
+                {latest.fixes.map((fix) => (
+                  <YStack key={`${fix.source}-${fix.field}`} gap="$0.5">
+                    <Text fontSize={12} color="$color">{fix.action}</Text>
+                    <Text fontSize={11} color="$color" opacity={0.6} fontFamily="$mono" numberOfLines={2}>
+                      {fix.current ?? '∅'} → {fix.expected}
+                    </Text>
+                  </YStack>
+                ))}
+              </YStack>
+            )}
+          </YStack>
+        )}
+      </YStack>
+    </Card>
+  )
+}
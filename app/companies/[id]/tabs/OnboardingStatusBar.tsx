@@ -2,65 +2,89 @@
 'use client'
 
 import { XStack, YStack, Text, Stack } from 'tamagui'
-import { Bot, FileText, Globe, MapPin } from 'lucide-react'
-import type { CustomerOnboarding, ServiceType, ServiceStatus } from '@/app/types/onboarding'
-import { SERVICE_LABELS, STATUS_LABELS, STATUS_COLORS, SERVICE_COLORS } from '@/app/types/onboarding'
+import { Loader, CheckCircle, AlertCircle, PauseCircle, Circle } from 'lucide-react'
+import type { CustomerOnboarding, ServiceStatus, StatusPhase } from '@/app/types/onboarding'
+import { SERVICE_LABELS, STATUS_LABELS, STATUS_COLORS, STATUS_PHASES, SERVICE_COLORS } from '@/app/types/onboarding'
+import { SERVICE_IDS } from '@/lib/onboarding/registry'
+import { SERVICE_ICONS } from '@/app/components/serviceIcons'
 
 interface OnboardingStatusBarProps {
   onboarding: CustomerOnboarding | null
   loading?: boolean
 }
 
-const SERVICE_ICONS: Record<ServiceType, React.ReactNode> = {
-  foursquare: <MapPin size={16} strokeWidth={2} />,
-  chatbot: <Bot size={16} strokeWidth={2} />,
-  blogs: <FileText size={16} strokeWidth={2} />,
-  landing_pages: <Globe size={16} strokeWidth={2} />,
+const PHASE_ICONS: Record<StatusPhase, typeof Circle> = {
+  idle: Circle,
+  in_progress: Loader,
+  done: CheckCircle,
+  attention: AlertCircle,
+  on_hold: PauseCircle,
 }
 
-const SERVICES: ServiceType[] = ['foursquare', 'chatbot', 'blogs', 'landing_pages']
-
 export default function OnboardingStatusBar({ onboarding, loading }: OnboardingStatusBarProps) {
   if (loading) return null
 
+  const statuses = SERVICE_IDS.map((service) => ({
+    service,
+    status: (onboarding?.services?.[service]?.status ?? 'not_started') as ServiceStatus,
+  }))
+  const count = (phase: StatusPhase) => statuses.filter(({ status }) => STATUS_PHASES[status] === phase).length
+  const inProgress = count('in_progress')
+  const attention = count('attention')
+
   return (
-    <XStack gap={12} flexWrap="wrap">
-      {SERVICES.map((service) => {
-        const status: ServiceStatus = onboarding?.services?.[service]?.status ?? 'not_started'
-        const color = STATUS_COLORS[status]
-        const bgColor = `${color}15`
+    <YStack gap={8}>
+      <XStack gap={12} flexWrap="wrap">
+        {statuses.map(({ service, status }) => {
+          const Icon = SERVICE_ICONS[service]
+          const PhaseIcon = PHASE_ICONS[STATUS_PHASES[status]]
+          const color = STATUS_COLORS[status]
+          const bgColor = `${color}15`
 
-        return (
-          <XStack
-            key={service}
-            backgroundColor={bgColor}
-            paddingHorizontal="$3"
-            paddingVertical="$2"
-            borderRadius="$3"
-            alignItems="center"
-            gap={8}
-            borderWidth={1}
-            borderColor={`${color}30`}
-          >
-            <Stack style={{ color: SERVICE_COLORS[service] }}>
-              {SERVICE_ICONS[service]}
-            </Stack>
-            <Text fontSize={12} fontWeight="600" color="$color">
-              {SERVICE_LABELS[service]}
-            </Text>
+          return (
             <XStack
-              backgroundColor={`${color}20`}
-              paddingHorizontal="$1.5"
-              paddingVertical="$0.5"
-              borderRadius="$2"
+              key={service}
+              backgroundColor={bgColor}
+              paddingHorizontal="$3"
+              paddingVertical="$2"
+              borderRadius="$3"
+              alignItems="center"
+              gap={8}
+              borderWidth={1}
+              borderColor={`${color}30`}
             >
-              <Text fontSize={10} fontWeight="700" color={color} textTransform="uppercase">
-                {STATUS_LABELS[status]}
+              <Stack style={{ color: SERVICE_COLORS[service] }}>
+                <Icon size={16} strokeWidth={2} />
+              </Stack>
+              <Text fontSize={12} fontWeight="600" color="$color">
+                {SERVICE_LABELS[service]}
               </Text>
+              <XStack
+                backgroundColor={`${color}20`}
+                paddingHorizontal="$1.5"
+                paddingVertical="$0.5"
+                borderRadius="$2"
+                alignItems="center"
+                gap={4}
+              >
+                <PhaseIcon size={10} color={color} strokeWidth={2.5} />
+                <Text fontSize={10} fontWeight="700" color={color} textTransform="uppercase">
+                  {STATUS_LABELS[status]}
+                </Text>
+              </XStack>
             </XStack>
-          </XStack>
-        )
-      })}
-    </XStack>
+          )
+        })}
+      </XStack>
+
+      <Text fontSize={12} color="$color" opacity={0.6}>
+        {onboarding?.package
+          ? <Text fontWeight="700" textTransform="capitalize">{onboarding.package.package} package · </Text>
+          : 'No package purchased · '}
+        {count('done')} of {statuses.length} done
+        {inProgress > 0 && ` · ${inProgress} in progress`}
+        {attention > 0 && ` · ${attention} need${attention === 1 ? 's' : ''} attention`}
+      </Text>
+    </YStack>
   )
 }
@@ -10,6 +10,7 @@ import { formatPhoneNumber } from '@/app/utils/formatters'
 import type { CustomerOnboarding } from '@/app/types/onboarding'
 import OnboardingStatusBar from './OnboardingStatusBar'
 import IdentityPanel from './IdentityPanel'
+import NapConsistencyCard from './NapConsistencyCard'
 
 interface OverviewTabProps {
   company: any
@@ -135,6 +136,9 @@ export default function OverviewTab({
             identity={onboarding?.identity ?? null}
             onUpdate={onRefreshOnboarding}
           />
+
+          {/* NAP Consistency */}
+          <NapConsistencyCard contactId={hubspotObjectId} />
         </YStack>
 
         {/* Right Column - Details & GBP Connection */}
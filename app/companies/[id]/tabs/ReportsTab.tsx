@@ -0,0 +1,226 @@
+// @ts-nocheck
+'use client'
+
+import { useCallback, useState } from 'react'
+import { YStack, XStack, Text, Card, Button, Spinner } from 'tamagui'
+import { FileBarChart, RefreshCw, ExternalLink, Share2, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import type { ClientReport } from '@/app/types/reports'
+import { useClientReports } from '@/app/hooks/useClientReports'
+
+const REPORT_COLOR = '#0EA5E9'
+
+interface ReportsTabProps {
+  contactId: string
+}
+
+function lastMonth() {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth() - 1, 1).toLocaleDateString('en-CA').slice(0, 7)
+}
+
+function formatTimestamp(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+function ReportRow({
+  report,
+  contactId,
+  busy,
+  onShare,
+  onDelete,
+}: {
+  report: ClientReport
+  contactId: string
+  busy: boolean
+  onShare: (report: ClientReport) => void
+  onDelete: (report: ClientReport) => void
+}) {
+  const { gbp, reviews } = report.data
+  const summary = [
+    gbp.location_count > 0 && gbp.source ? `${gbp.impressions.value.toLocaleString()} impressions` : null,
+    `${reviews.new_reviews.value} new review${reviews.new_reviews.value === 1 ? '' : 's'}`,
+    `${report.data.blogs.published.length} blog post${report.data.blogs.published.length === 1 ? '' : 's'}`,
+  ].filter(Boolean).join(' · ')
+
+  return (
+    <XStack gap="$3" paddingVertical="$3" borderBottomWidth={1} borderColor="$borderColor" alignItems="center">
+      <YStack flex={1} gap="$1">
+        <Text fontSize={14} fontWeight="700" color="$color">{report.title}</Text>
+        <Text fontSize={12} color="$color" opacity={0.6}>{summary}</Text>
+        <Text fontSize={12} color="$color" opacity={0.5}>Generated {formatTimestamp(report.created_at)}</Text>
+      </YStack>
+      <Button
+        size="$2"
+        chromeless
+        onPress={() => window.open(`/api/onboarding/${contactId}/reports/${report.id}`, '_blank')}
+        icon={<ExternalLink size={16} color={REPORT_COLOR} />}
+      />
+      <Button size="$2" chromeless disabled={busy} onPress={() => onShare(report)} icon={<Share2 size={16} color={REPORT_COLOR} />} />
+      <Button size="$2" chromeless disabled={busy} onPress={() => onDelete(report)} icon={<Trash2 size={16} color="#EF4444" />} />
+    </XStack>
+  )
+}
+
+export default function ReportsTab({ contactId }: ReportsTabProps) {
+  const { reports, loading, error, refetch } = useClientReports(contactId)
+  const [month, setMonth] = useState(lastMonth)
+  const [generating, setGenerating] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const handleGenerate = useCallback(async () => {
+    setGenerating(true)
+    try {
+      const res = await fetch(`/api/onboarding/${contactId}/reports`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ month }),
+      })
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to generate report')
+      }
+      toast.success(`${data.data.title} generated`)
+      await refetch()
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to generate report')
+    } finally {
+      setGenerating(false)
+    }
+  }, [contactId, month, refetch])
+
+  const handleShare = useCallback(async (report: ClientReport) => {
+    setBusyId(report.id)
+    try {
+      const res = await fetch(`/api/onboarding/${contactId}/reports/${report.id}/share`, { method: 'POST' })
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to create share link')
+      }
+      await navigator.clipboard.writeText(data.data.url)
+      toast.success(`Share link copied - valid until ${new Date(data.data.expires_at).toLocaleDateString()}`)
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to create share link')
+    } finally {
+      setBusyId(null)
+    }
+  }, [contactId])
+
+  const handleDelete = useCallback(async (report: ClientReport) => {
+    if (!confirm(`Delete "${report.title}"? Existing share links will stop working.`)) return
+    setBusyId(report.id)
+    try {
+      const res = await fetch(`/api/onboarding/${contactId}/reports/${report.id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete report')
+      }
+      toast('Report deleted')
+      await refetch()
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to delete report')
+    } finally {
+      setBusyId(null)
+    }
+  }, [contactId, refetch])
+
+  return (
+    <YStack gap="$6" maxWidth={800}>
+      {/* Header */}
+      <Card
+        backgroundColor="$background"
+        borderRadius="$5"
+        borderWidth={2}
+        borderColor="rgba(14,165,233,0.2)"
+        padding="$5"
+      >
+        <XStack alignItems="center" gap="$3">
+          <YStack
+            width={56}
+            height={56}
+            borderRadius="$4"
+            backgroundColor="rgba(14,165,233,0.1)"
+            justifyContent="center"
+            alignItems="center"
+            borderWidth={2}
+            borderColor="rgba(14,165,233,0.3)"
+          >
+            <FileBarChart size={28} color={REPORT_COLOR} strokeWidth={2} />
+          </YStack>
+          <YStack flex={1}>
+            <Text fontSize="$6" fontWeight="800" color="$color">Monthly Reports</Text>
+            <Text fontSize="$3" color="$color" opacity={0.6}>
+              Branded performance reports to share with the client
+            </Text>
+          </YStack>
+          <Button size="$3" chromeless onPress={() => refetch()} icon={<RefreshCw size={16} color={REPORT_COLOR} />} />
+        </XStack>
+      </Card>
+
+      {/* Generate */}
+      <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="$borderColor" padding="$5">
+        <XStack gap="$3" alignItems="flex-end" flexWrap="wrap">
+          <YStack gap="$1">
+            <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">Report Month</Text>
+            <input
+              type="month"
+              value={month}
+              max={new Date().toLocaleDateString('en-CA').slice(0, 7)}
+              onChange={(e) => setMonth(e.target.value)}
+              style={{
+                padding: '10px 14px',
+                borderRadius: 8,
+                border: '1px solid rgba(0,0,0,0.15)',
+                fontSize: 14,
+                background: 'transparent',
+                color: 'inherit',
+              }}
+            />
+          </YStack>
+          <Button
+            size="$4"
+            backgroundColor={REPORT_COLOR}
+            disabled={generating || !month}
+            opacity={generating || !month ? 0.6 : 1}
+            onPress={handleGenerate}
+            icon={generating ? <Spinner size="small" color="white" /> : <FileBarChart size={16} color="white" />}
+          >
+            <Text color="white" fontWeight="600">{generating ? 'Generating...' : 'Generate Report'}</Text>
+          </Button>
+        </XStack>
+      </Card>
+
+      {/* Archive */}
+      <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="$borderColor" paddingHorizontal="$5" paddingVertical="$2">
+        {loading ? (
+          <YStack alignItems="center" padding="$6">
+            <Spinner size="large" color={REPORT_COLOR} />
+          </YStack>
+        ) : error ? (
+          <Text fontSize="$4" color="#EF4444" padding="$4">{String(error)}</Text>
+        ) : reports.length === 0 ? (
+          <Text fontSize="$4" color="$color" opacity={0.6} padding="$4" textAlign="center">
+            No reports generated yet
+          </Text>
+        ) : (
+          reports.map((report) => (
+            <ReportRow
+              key={report.id}
+              report={report}
+              contactId={contactId}
+              busy={busyId === report.id}
+              onShare={handleShare}
+              onDelete={handleDelete}
+            />
+          ))
+        )}
+      </Card>
+    </YStack>
+  )
+}
@@ -0,0 +1,62 @@
+// @ts-nocheck
+'use client'
+
+/**
+ * Company page tab for each registered onboarding service. The tab value,
+ * label and color come from the service registry; this maps each service
+ * to the component that renders it.
+ */
+
+import type { ReactNode } from 'react'
+import type { CustomerOnboarding, ServiceType } from '@/app/types/onboarding'
+import FoursquareTab from './FoursquareTab'
+import ChatbotTab from './ChatbotTab'
+import BlogsTab from './BlogsTab'
+import LandingPagesTab from './LandingPagesTab'
+
+export interface ServiceTabContext {
+  contactId: string
+  onboarding: CustomerOnboarding | null
+  company: any
+  onRefresh: () => void
+}
+
+export const SERVICE_TABS: Record<ServiceType, (ctx: ServiceTabContext) => ReactNode> = {
+  foursquare: ({ contactId, onboarding, company, onRefresh }) => (
+    <FoursquareTab
+      contactId={contactId}
+      foursquareVenueId={onboarding?.identity?.foursquare_venue_id ?? null}
+      company={company}
+      serviceStatus={onboarding?.services?.foursquare}
+      onRefresh={onRefresh}
+    />
+  ),
+  chatbot: ({ contactId, onboarding, company, onRefresh }) => (
+    <ChatbotTab
+      contactId={contactId}
+      chatbotSlug={onboarding?.identity?.chatbot_slug ?? null}
+      dudaSiteCode={onboarding?.identity?.duda_site_code ?? null}
+      dudaSnippetId={onboarding?.identity?.duda_snippet_id ?? null}
+      company={company}
+      serviceStatus={onboarding?.services?.chatbot}
+      onRefresh={onRefresh}
+    />
+  ),
+  blogs: ({ contactId, onboarding, onRefresh }) => (
+    <BlogsTab
+      contactId={contactId}
+      dudaSiteCode={onboarding?.identity?.duda_site_code ?? null}
+      serviceStatus={onboarding?.services?.blogs}
+      onRefresh={onRefresh}
+    />
+  ),
+  landing_pages: ({ contactId, onboarding, company, onRefresh }) => (
+    <LandingPagesTab
+      contactId={contactId}
+      dudaSiteCode={onboarding?.identity?.duda_site_code ?? null}
+      company={company}
+      serviceStatus={onboarding?.services?.landing_pages}
+      onRefresh={onRefresh}
+    />
+  ),
+}
@@ -4,7 +4,7 @@
 import { useState, useMemo, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { YStack, XStack, Text, Button, Input } from 'tamagui'
-import { ChevronLeft, ChevronRight, Database, RefreshCw, Plus } from 'lucide-react'
+import { ChevronLeft, ChevronRight, Database, RefreshCw, Plus, Layers, MapPin } from 'lucide-react'
 import { useCompanies } from '../hooks/useCompanies'
 import {
   CompaniesTable,
@@ -16,6 +16,9 @@ import {
 import ClientOnly from '../components/ClientOnly'
 import { SyncStatus } from '../components/SyncStatus'
 import { AddBusinessModal } from '../components/AddBusinessModal'
+import { BulkOnboardingModal } from '../components/BulkOnboardingModal'
+import { FoursquareMatchReviewModal } from '../components/FoursquareMatchReviewModal'
+import { useFoursquareMatchReviews } from '../hooks/useFoursquareMatchReviews'
 import { getCompanyDisplayName, getCompanySubtitle } from '../utils/companyNameHelper'
 
 // Force dynamic rendering
@@ -29,6 +32,7 @@ export const dynamic = 'force-dynamic'
  * - Professional table display with pagination
  * - Tamagui components throughout
  * - Consistent styling with dashboard
+ * - Multi-select with bulk onboarding actions
  */
 const ITEMS_PER_PAGE = 20
 
@@ -39,6 +43,10 @@ export default function CompaniesPage() {
   const [searchQuery, setSearchQuery] = useState('')
   const [navigatingTo, setNavigatingTo] = useState<string | null>(null)
   const [showAddModal, setShowAddModal] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [showBulkModal, setShowBulkModal] = useState(false)
+  const [showMatchReviews, setShowMatchReviews] = useState(false)
+  const { reviews: matchReviews, refetch: refetchMatchReviews } = useFoursquareMatchReviews()
 
   // Reset to page 1 when search changes
   useEffect(() => {
@@ -90,6 +98,25 @@ export default function CompaniesPage() {
     return data.sort((a, b) => a.name.localeCompare(b.name))
   }, [companies])
 
+  // Selected companies as bulk onboarding rows (onboarding is keyed by HubSpot ID)
+  const bulkContacts = useMemo(() => {
+    const names = new Map(allTableData.map((c) => [c.id, c.name]))
+    return companies
+      .filter((company) => selectedIds.has(company.id))
+      .map((company) => ({
+        contactId: company.hs_object_id || company.id,
+        name: names.get(company.id) || company.properties.company || '',
+        email: company.properties.email,
+        phone: company.properties.phone,
+        website: company.properties.website,
+        address: company.properties.address,
+        city: company.properties.city,
+        state: company.properties.state,
+        zip: company.properties.zip,
+        industry: company.properties.business_category_type || company.properties.business_type,
+      }))
+  }, [companies, allTableData, selectedIds])
+
   // Filter data based on search query
   const filteredData = useMemo(() => {
     if (!searchQuery.trim()) {
@@ -211,6 +238,32 @@ export default function CompaniesPage() {
                   </Text>
                 </XStack>
               </Button>
+              {matchReviews.length > 0 && (
+                <Button
+                  size="$3"
+                  onPress={() => setShowMatchReviews(true)}
+                  backgroundColor="rgba(168, 85, 247, 0.15)"
+                  borderRadius="$3"
+                  borderWidth={1}
+                  borderColor="rgba(168, 85, 247, 0.3)"
+                  paddingHorizontal="$4"
+                  paddingVertical="$2.5"
+                  hoverStyle={{
+                    backgroundColor: 'rgba(168, 85, 247, 0.25)',
+                    borderColor: 'rgba(168, 85, 247, 0.5)',
+                    y: -1,
+                  }}
+                  animation="smooth"
+                  cursor="pointer"
+                >
+                  <XStack space="$2" alignItems="center">
+                    <MapPin size={16} color="#A855F7" strokeWidth={2.5} />
+                    <Text color="#A855F7" fontWeight="600" fontSize="$3" letterSpacing={0.2}>
+                      Match reviews ({matchReviews.length})
+                    </Text>
+                  </XStack>
+                </Button>
+              )}
               <SyncStatus compact onSyncComplete={() => refetch()} />
             </XStack>
           </XStack>
@@ -276,21 +329,54 @@ export default function CompaniesPage() {
         {/* Companies Table */}
         {filteredData.length > 0 ? (
           <YStack space="$4">
-            {/* Pagination Info */}
+            {/* Pagination Info + Selection */}
             <XStack
-              justifyContent="flex-start"
+              justifyContent="space-between"
               alignItems="center"
               paddingVertical="$3"
+              flexWrap="wrap"
+              gap="$3"
             >
               <Text color="$color" opacity={0.7} fontSize="$3" fontWeight="600">
                 Showing {startIndex}-{endIndex} of {filteredData.length} companies
               </Text>
+              {selectedIds.size > 0 && (
+                <XStack alignItems="center" gap="$3">
+                  <Text color="$color" fontSize="$3" fontWeight="600">
+                    {selectedIds.size} selected
+                  </Text>
+                  <Text
+                    fontSize="$3"
+                    color="$color"
+                    opacity={0.5}
+                    cursor="pointer"
+                    onPress={() => setSelectedIds(new Set())}
+                    hoverStyle={{ opacity: 0.8 }}
+                  >
+                    Clear
+                  </Text>
+                  <Button
+                    size="$3"
+                    onPress={() => setShowBulkModal(true)}
+                    backgroundColor="#3B82F6"
+                    borderRadius="$3"
+                    icon={<Layers size={16} color="white" />}
+                    hoverStyle={{ backgroundColor: '#2563EB' }}
+                  >
+                    <Text color="white" fontWeight="600" fontSize="$3">
+                      Bulk onboard
+                    </Text>
+                  </Button>
+                </XStack>
+              )}
             </XStack>
 
             <CompaniesTable
               companies={displayedData}
               onRowClick={handleRowClick}
               navigatingTo={navigatingTo}
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
             />
 
             {/* Pagination Controls */}
@@ -386,6 +472,23 @@ export default function CompaniesPage() {
           onOpenChange={setShowAddModal}
           onAdded={() => refetch()}
         />
+
+        {/* Bulk Onboarding Modal */}
+        <BulkOnboardingModal
+          open={showBulkModal}
+          onOpenChange={setShowBulkModal}
+          contacts={bulkContacts}
+          onComplete={() => refetchMatchReviews()}
+        />
+
+        {/* Foursquare Match Review Queue */}
+        <FoursquareMatchReviewModal
+          open={showMatchReviews}
+          onOpenChange={(open) => {
+            setShowMatchReviews(open)
+            if (!open) refetchMatchReviews()
+          }}
+        />
       </YStack>
     </ClientOnly>
   )
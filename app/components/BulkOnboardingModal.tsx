@@ -0,0 +1,355 @@
+// @ts-nocheck
+'use client'
+
+import { useState, useEffect } from 'react'
+import { YStack, XStack, Text, Button, Spinner, Sheet } from 'tamagui'
+import { Layers, X, CheckCircle, AlertCircle, MinusCircle, Download, Eye, Play } from 'lucide-react'
+import { toast } from 'sonner'
+import type { BulkAction, BulkContact, BulkRowResult, BulkRunSummary } from '@/app/types/onboarding'
+import { BULK_ACTION_LABELS, SERVICE_COLORS } from '@/app/types/onboarding'
+import { ONBOARDING_SERVICES, isJobService, withAlpha } from '@/lib/onboarding/registry'
+import { SERVICE_ICONS } from '@/app/components/serviceIcons'
+import { invalidateOnboardingStatus } from '@/lib/cache/invalidate'
+
+// Must match BULK_MAX_CONTACTS in lib/onboarding/bulk.ts - larger selections are sent in batches
+const BATCH_SIZE = 100
+
+// Every registered service that offers a bulk action
+const ACTIONS: Array<{ value: BulkAction; icon: (typeof SERVICE_ICONS)[BulkAction]; description: string }> =
+  ONBOARDING_SERVICES.filter((s) => s.bulk).map((s) => ({
+    value: s.id,
+    icon: SERVICE_ICONS[s.id],
+    description: s.bulk.description,
+  }))
+
+const STATUS_STYLES: Record<BulkRowResult['status'], { color: string; icon: typeof CheckCircle; label: string }> = {
+  success: { color: '#10B981', icon: CheckCircle, label: 'OK' },
+  skipped: { color: '#6B7280', icon: MinusCircle, label: 'Skipped' },
+  failed: { color: '#EF4444', icon: AlertCircle, label: 'Failed' },
+}
+
+const inputStyle = {
+  padding: '8px 12px',
+  borderRadius: 8,
+  border: '1px solid rgba(0,0,0,0.15)',
+  fontSize: 14,
+  background: 'transparent',
+  color: 'inherit',
+  width: '100%',
+}
+
+interface BulkOnboardingModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  contacts: BulkContact[]
+  onComplete?: () => void
+}
+
+function toCsv(results: BulkRowResult[]): string {
+  const escape = (v: string) => `"${(v || '').replace(/"/g, '""')}"`
+  const lines = results.map((r) =>
+    [r.contactId, escape(r.name), r.status, escape(r.details || ''), escape(r.error || '')].join(',')
+  )
+  return ['contact_id,business_name,status,details,error', ...lines].join('\n')
+}
+
+export function BulkOnboardingModal({ open, onOpenChange, contacts, onComplete }: BulkOnboardingModalProps) {
+  const [action, setAction] = useState<BulkAction>('foursquare')
+  const [industry, setIndustry] = useState('')
+  const [numBlogs, setNumBlogs] = useState(12)
+  const [numPages, setNumPages] = useState(50)
+  const [running, setRunning] = useState(false)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [report, setReport] = useState<{ dryRun: boolean; summary: BulkRunSummary; results: BulkRowResult[] } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // A new selection or action invalidates the last report
+  useEffect(() => {
+    setReport(null)
+    setError(null)
+  }, [contacts, action])
+
+  const handleClose = () => {
+    if (running) return
+    onOpenChange(false)
+  }
+
+  const run = async (dryRun: boolean) => {
+    setRunning(true)
+    setError(null)
+    setReport(null)
+    setProgress({ done: 0, total: contacts.length })
+
+    const results: BulkRowResult[] = []
+    try {
+      for (let i = 0; i < contacts.length; i += BATCH_SIZE) {
+        const batch = contacts.slice(i, i + BATCH_SIZE)
+        const res = await fetch('/api/onboarding/bulk', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            action,
+            contacts: batch,
+            dry_run: dryRun,
+            options: {
+              ...(industry.trim() ? { industry: industry.trim() } : {}),
+              num_blogs: numBlogs,
+              num_pages: numPages,
+            },
+          }),
+        })
+        const data = await res.json()
+        if (!data.success) throw new Error(data.error || 'Bulk action failed')
+
+        results.push(...data.data.results)
+        setProgress({ done: results.length, total: contacts.length })
+      }
+    } catch (err: any) {
+      setError(err.message || 'Bulk action failed')
+    } finally {
+      if (results.length > 0) {
+        const summary = { total: results.length, success: 0, skipped: 0, failed: 0 }
+        for (const r of results) summary[r.status]++
+        setReport({ dryRun, summary, results })
+
+        if (!dryRun) {
+          results.filter((r) => r.status === 'success').forEach((r) => invalidateOnboardingStatus(r.contactId))
+          if (summary.failed > 0) toast.warning(`${summary.success} succeeded, ${summary.failed} failed`)
+          else toast.success(`${BULK_ACTION_LABELS[action]}: ${summary.success} succeeded, ${summary.skipped} skipped`)
+          onComplete?.()
+        }
+      }
+      setProgress(null)
+      setRunning(false)
+    }
+  }
+
+  const downloadReport = () => {
+    if (!report) return
+    const blob = new Blob([toCsv(report.results)], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `bulk-${action}-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const accent = SERVICE_COLORS[action]
+  const needsIndustry = isJobService(action)
+
+  return (
+    <Sheet
+      modal
+      open={open}
+      onOpenChange={handleClose}
+      snapPoints={[85]}
+      dismissOnSnapToBottom={!running}
+      zIndex={100000}
+    >
+      <Sheet.Overlay
+        animation="quick"
+        enterStyle={{ opacity: 0 }}
+        exitStyle={{ opacity: 0 }}
+        backgroundColor="rgba(0,0,0,0.5)"
+      />
+      <Sheet.Frame
+        backgroundColor="$background"
+        borderTopLeftRadius="$6"
+        borderTopRightRadius="$6"
+        padding="$5"
+      >
+        <Sheet.Handle backgroundColor="$color" opacity={0.2} />
+
+        <YStack space="$4" flex={1}>
+          {/* Header */}
+          <XStack justifyContent="space-between" alignItems="center">
+            <XStack alignItems="center" gap="$3">
+              <YStack
+                width={40}
+                height={40}
+                borderRadius="$3"
+                backgroundColor="rgba(59, 130, 246, 0.15)"
+                alignItems="center"
+                justifyContent="center"
+              >
+                <Layers size={20} color="#3B82F6" />
+              </YStack>
+              <YStack>
+                <Text fontSize="$6" fontWeight="700" color="$color">
+                  Bulk Onboarding
+                </Text>
+                <Text fontSize="$3" color="$color" opacity={0.6}>
+                  {contacts.length} selected compan{contacts.length === 1 ? 'y' : 'ies'} · already-done rows are skipped
+                </Text>
+              </YStack>
+            </XStack>
+            <Button
+              size="$3"
+              circular
+              backgroundColor="transparent"
+              onPress={handleClose}
+              disabled={running}
+              hoverStyle={{ backgroundColor: 'rgba(107, 114, 128, 0.1)' }}
+            >
+              <X size={18} color="#6b7280" />
+            </Button>
+          </XStack>
+
+          {/* Action picker */}
+          <XStack gap="$2" flexWrap="wrap">
+            {ACTIONS.map(({ value, icon: Icon }) => {
+              const isActive = action === value
+              const color = SERVICE_COLORS[value]
+              return (
+                <Button
+                  key={value}
+                  size="$3"
+                  borderRadius="$3"
+                  backgroundColor={isActive ? withAlpha(color, 0.15) : 'transparent'}
+                  borderWidth={1}
+                  borderColor={isActive ? color : '$borderColor'}
+                  onPress={() => setAction(value)}
+                  disabled={running}
+                  icon={<Icon size={14} color={color} />}
+                >
+                  <Text fontSize={13} fontWeight={isActive ? '700' : '500'} color="$color">
+                    {BULK_ACTION_LABELS[value]}
+                  </Text>
+                </Button>
+              )
+            })}
+          </XStack>
+          <Text fontSize="$3" color="$color" opacity={0.6}>
+            {ACTIONS.find((a) => a.value === action)?.description}
+          </Text>
+
+          {/* Options */}
+          {needsIndustry && (
+            <XStack gap="$3" flexWrap="wrap">
+              <YStack gap="$1" flex={2} minWidth={200}>
+                <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">
+                  Industry (used when HubSpot has no business category)
+                </Text>
+                <input
+                  type="text"
+                  value={industry}
+                  onChange={(e) => setIndustry(e.target.value)}
+                  placeholder="e.g. Plumbing"
+                  style={inputStyle}
+                />
+              </YStack>
+              <YStack gap="$1" flex={1} minWidth={120}>
+                <Text fontSize={12} color="$color" opacity={0.5} fontWeight="500">
+                  {action === 'blogs' ? 'Blogs per site' : 'Pages per site'}
+                </Text>
+                <input
+                  type="number"
+                  min={1}
+                  max={action === 'blogs' ? 50 : 200}
+                  value={action === 'blogs' ? numBlogs : numPages}
+                  onChange={(e) => (action === 'blogs' ? setNumBlogs : setNumPages)(Number(e.target.value))}
+                  style={inputStyle}
+                />
+              </YStack>
+            </XStack>
+          )}
+
+          {/* Run */}
+          <XStack gap="$3">
+            <Button
+              flex={1}
+              size="$4"
+              borderWidth={1}
+              borderColor="$borderColor"
+              backgroundColor="transparent"
+              onPress={() => run(true)}
+              disabled={running || contacts.length === 0}
+              icon={<Eye size={16} color="#6b7280" />}
+            >
+              <Text fontWeight="600" color="$color">Preview (dry run)</Text>
+            </Button>
+            <Button
+              flex={1}
+              size="$4"
+              backgroundColor={accent}
+              onPress={() => run(false)}
+              disabled={running || contacts.length === 0}
+              opacity={running || contacts.length === 0 ? 0.6 : 1}
+              icon={running ? <Spinner size="small" color="white" /> : <Play size={16} color="white" />}
+            >
+              <Text color="white" fontWeight="700">
+                {running && progress ? `Running ${progress.done}/${progress.total}...` : `Run for ${contacts.length}`}
+              </Text>
+            </Button>
+          </XStack>
+
+          {/* Error */}
+          {error && (
+            <XStack
+              padding="$3"
+              borderRadius="$3"
+              backgroundColor="rgba(239, 68, 68, 0.1)"
+              borderWidth={1}
+              borderColor="rgba(239, 68, 68, 0.3)"
+              alignItems="center"
+              gap="$2"
+            >
+              <AlertCircle size={16} color="#ef4444" />
+              <Text fontSize="$3" color="#ef4444" flex={1}>
+                {error}
+              </Text>
+            </XStack>
+          )}
+
+          {/* Report */}
+          {report && (
+            <YStack flex={1} gap="$2" overflow="hidden">
+              <XStack justifyContent="space-between" alignItems="center">
+                <Text fontSize="$3" color="$color" fontWeight="600">
+                  {report.dryRun ? 'Preview: ' : ''}
+                  <Text color="#10B981">{report.summary.success} ok</Text>
+                  {' · '}
+                  <Text color="#6B7280">{report.summary.skipped} skipped</Text>
+                  {' · '}
+                  <Text color="#EF4444">{report.summary.failed} failed</Text>
+                </Text>
+                <Button size="$2" chromeless onPress={downloadReport} icon={<Download size={14} color="#3B82F6" />}>
+                  <Text fontSize={12} color="#3B82F6" fontWeight="600">CSV</Text>
+                </Button>
+              </XStack>
+
+              <YStack flex={1} overflow="scroll" borderWidth={1} borderColor="$borderColor" borderRadius="$4">
+                {report.results.map((r) => {
+                  const style = STATUS_STYLES[r.status]
+                  const Icon = style.icon
+                  return (
+                    <XStack
+                      key={r.contactId}
+                      paddingHorizontal="$3"
+                      paddingVertical="$2.5"
+                      gap="$3"
+                      alignItems="center"
+                      borderBottomWidth={1}
+                      borderColor="$borderColor"
+                    >
+                      <Icon size={16} color={style.color} />
+                      <YStack flex={1} minWidth={0}>
+                        <Text fontSize="$3" fontWeight="600" color="$color" numberOfLines={1}>
+                          {r.name}
+                        </Text>
+                        <Text fontSize={12} color={r.error ? '#EF4444' : '$color'} opacity={r.error ? 1 : 0.6} numberOfLines={2}>
+                          {r.error || r.details || style.label}
+                        </Text>
+                      </YStack>
+                    </XStack>
+                  )
+                })}
+              </YStack>
+            </YStack>
+          )}
+        </YStack>
+      </Sheet.Frame>
+    </Sheet>
+  )
+}
@@ -4,7 +4,7 @@
 import { ReactNode } from 'react';
 import { usePathname, useRouter } from 'next/navigation';
 import { XStack, YStack, Text, Button } from 'tamagui';
-import { Home, Building2, LogIn, Settings, Database, BarChart3 } from 'lucide-react';
+import { Home, Building2, LogIn, Settings, Database, BarChart3, MessageSquare } from 'lucide-react';
 import { Toaster } from '@/components/ui/sonner';
 import { AppShell, Sidebar, NavItem } from './tamagui';
 import { useAuth } from '@/app/hooks/useAuth';
@@ -84,6 +84,7 @@ export default function ClientLayout({ children }: ClientLayoutProps) {
   const isCompanyDetail = pathname?.match(/^\/companies\/[^\/]+$/);
   const isHubSpotAnalytics = pathname?.startsWith('/hubspot/analytics');
   const isGBP = pathname?.startsWith('/gbp');
+  const isReviews = pathname?.startsWith('/reviews');
   const isSettings = pathname?.startsWith('/settings');
   const isAuthPage = pathname?.startsWith('/login') || pathname?.startsWith('/forgot-password');
 
@@ -96,6 +97,8 @@ export default function ClientLayout({ children }: ClientLayoutProps) {
     topBarTitle = 'Customer Intelligence';
   } else if (isGBP) {
     topBarTitle = 'Google Profiles';
+  } else if (isReviews) {
+    topBarTitle = 'Review Inbox';
   } else if (isCompanies) {
     topBarTitle = 'Companies';
   } else if (isSettings) {
@@ -175,6 +178,12 @@ export default function ClientLayout({ children }: ClientLayoutProps) {
         active={isGBP}
         onClick={() => router.push('/gbp')}
       />
+      <NavItem
+        icon={<MessageSquare size={20} color={isReviews ? '#A855F7' : 'currentColor'} strokeWidth={2} />}
+        label="Reviews"
+        active={isReviews}
+        onClick={() => router.push('/reviews')}
+      />
       <NavItem
         icon={<Settings size={20} color={isSettings ? '#A855F7' : 'currentColor'} strokeWidth={2} />}
         label="Settings"
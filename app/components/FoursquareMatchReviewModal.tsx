@@ -0,0 +1,252 @@
+// @ts-nocheck
+'use client'
+
+import { useState } from 'react'
+import { YStack, XStack, Text, Button, Spinner, Sheet } from 'tamagui'
+import { MapPin, X, Link2, Ban, CheckCircle, MinusCircle, AlertCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import type { FoursquareMatchCandidate, FoursquareMatchReview } from '@/app/types/onboarding'
+import { MATCH_SIGNAL_LABELS } from '@/app/types/onboarding'
+import { useFoursquareMatchReviews } from '@/app/hooks/useFoursquareMatchReviews'
+import { invalidateOnboardingStatus, invalidateFoursquareDetails } from '@/lib/cache/invalidate'
+
+const ACCENT = '#A855F7'
+
+/** Same bands as AUTO_LINK_CONFIDENCE / REVIEW_CONFIDENCE in lib/onboarding/foursquare-match.ts */
+function confidenceColor(confidence: number): string {
+  if (confidence >= 85) return '#10B981'
+  if (confidence >= 50) return '#F59E0B'
+  return '#EF4444'
+}
+
+function signalIcon(score: number) {
+  if (score >= 0.8) return { Icon: CheckCircle, color: '#10B981' }
+  if (score > 0) return { Icon: MinusCircle, color: '#F59E0B' }
+  return { Icon: AlertCircle, color: '#EF4444' }
+}
+
+const venueIdOf = (candidate: FoursquareMatchCandidate) => candidate.venue.fsq_place_id || candidate.venue.fsq_id
+
+interface MatchCandidateCardProps {
+  candidate: FoursquareMatchCandidate
+  onLink?: () => void
+  linking?: boolean
+}
+
+/** A scored venue with its confidence and the reason behind each signal */
+export function MatchCandidateCard({ candidate, onLink, linking }: MatchCandidateCardProps) {
+  const { venue, confidence, signals } = candidate
+  const color = confidenceColor(confidence)
+  const addr = venue.location?.formatted_address
+    || [venue.location?.address, venue.location?.locality, venue.location?.region].filter(Boolean).join(', ')
+
+  return (
+    <YStack borderWidth={1} borderColor="$borderColor" borderRadius="$4" padding="$3" gap="$2">
+      <XStack alignItems="center" gap={12}>
+        <YStack
+          minWidth={52}
+          paddingVertical={4}
+          borderRadius="$3"
+          backgroundColor={`${color}1A`}
+          alignItems="center"
+        >
+          <Text fontSize={15} fontWeight="800" color={color}>{Math.round(confidence)}%</Text>
+        </YStack>
+        <YStack flex={1} minWidth={0}>
+          <Text fontSize={14} fontWeight="700" color="$color" numberOfLines={1}>{venue.name}</Text>
+          {addr && <Text fontSize={12} color="$color" opacity={0.6} numberOfLines={1}>{addr}</Text>}
+        </YStack>
+        {onLink && (
+          <Button
+            size="$3"
+            backgroundColor="rgba(168,85,247,0.1)"
+            borderWidth={1}
+            borderColor="rgba(168,85,247,0.3)"
+            onPress={onLink}
+            disabled={linking}
+            icon={linking ? <Spinner size="small" color={ACCENT} /> : <Link2 size={14} color={ACCENT} />}
+          >
+            <Text color={ACCENT} fontWeight="700" fontSize={13}>Link</Text>
+          </Button>
+        )}
+      </XStack>
+      <YStack gap={4}>
+        {signals.map((signal) => {
+          const { Icon, color: signalColor } = signalIcon(signal.score)
+          return (
+            <XStack key={signal.key} gap={8} alignItems="center">
+              <Icon size={12} color={signalColor} />
+              <Text fontSize={12} color="$color" opacity={0.5} width={70}>{MATCH_SIGNAL_LABELS[signal.key]}</Text>
+              <Text fontSize={12} color="$color" opacity={0.8} flex={1}>{signal.detail}</Text>
+            </XStack>
+          )
+        })}
+      </YStack>
+    </YStack>
+  )
+}
+
+interface MatchReviewCardProps {
+  review: FoursquareMatchReview
+  onResolved: () => void
+  /** Hide the business name (already shown on the company page) */
+  compact?: boolean
+}
+
+/** A pending review: link one candidate or reject them all */
+export function MatchReviewCard({ review, onResolved, compact }: MatchReviewCardProps) {
+  const [busy, setBusy] = useState<string | null>(null)
+
+  const resolve = async (body: Record<string, string>, key: string) => {
+    try {
+      setBusy(key)
+      const res = await fetch(`/api/onboarding/foursquare/reviews/${review.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!data.success) throw new Error(data.error)
+      toast.success(body.action === 'approve' ? 'Venue linked' : 'Candidates rejected')
+      invalidateOnboardingStatus(review.hubspot_contact_id)
+      invalidateFoursquareDetails(review.hubspot_contact_id)
+      onResolved()
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to resolve review')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleReject = () => {
+    if (!confirm('None of these venues is the business? A new venue can then be created.')) return
+    resolve({ action: 'reject' }, 'reject')
+  }
+
+  return (
+    <YStack gap="$3">
+      <XStack justifyContent="space-between" alignItems="center" gap="$3">
+        <YStack flex={1} minWidth={0}>
+          {!compact && (
+            <Text fontSize="$4" fontWeight="700" color="$color" numberOfLines={1}>{review.business_name}</Text>
+          )}
+          <Text fontSize={12} color="$color" opacity={0.6}>
+            {review.candidates.length} candidate{review.candidates.length === 1 ? '' : 's'} · queued {new Date(review.created_at).toLocaleDateString()}
+            {review.created_by ? ` by ${review.created_by}` : ''}
+          </Text>
+        </YStack>
+        <Button
+          size="$2"
+          backgroundColor="$background"
+          borderWidth={1}
+          borderColor="rgba(239,68,68,0.3)"
+          onPress={handleReject}
+          disabled={!!busy}
+          icon={busy === 'reject' ? <Spinner size="small" color="#EF4444" /> : <Ban size={14} color="#EF4444" />}
+        >
+          <Text fontSize={12} color="#EF4444" fontWeight="600">None match</Text>
+        </Button>
+      </XStack>
+      {review.candidates.map((candidate) => {
+        const venueId = venueIdOf(candidate)
+        return (
+          <MatchCandidateCard
+            key={venueId}
+            candidate={candidate}
+            linking={busy === venueId}
+            onLink={busy ? undefined : () => resolve({ action: 'approve', venueId }, venueId)}
+          />
+        )
+      })}
+    </YStack>
+  )
+}
+
+interface FoursquareMatchReviewModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/** Queue of ambiguous Foursquare matches across all contacts */
+export function FoursquareMatchReviewModal({ open, onOpenChange }: FoursquareMatchReviewModalProps) {
+  const { reviews, loading, error, refetch } = useFoursquareMatchReviews(undefined, open)
+
+  return (
+    <Sheet
+      modal
+      open={open}
+      onOpenChange={onOpenChange}
+      snapPoints={[85]}
+      dismissOnSnapToBottom
+      zIndex={100000}
+    >
+      <Sheet.Overlay
+        animation="quick"
+        enterStyle={{ opacity: 0 }}
+        exitStyle={{ opacity: 0 }}
+        backgroundColor="rgba(0,0,0,0.5)"
+      />
+      <Sheet.Frame
+        backgroundColor="$background"
+        borderTopLeftRadius="$6"
+        borderTopRightRadius="$6"
+        padding="$5"
+      >
+        <Sheet.Handle backgroundColor="$color" opacity={0.2} />
+
+        <YStack space="$4" flex={1}>
+          <XStack justifyContent="space-between" alignItems="center">
+            <XStack alignItems="center" gap="$3">
+              <YStack
+                width={40}
+                height={40}
+                borderRadius="$3"
+                backgroundColor="rgba(168, 85, 247, 0.15)"
+                alignItems="center"
+                justifyContent="center"
+              >
+                <MapPin size={20} color={ACCENT} />
+              </YStack>
+              <YStack>
+                <Text fontSize="$6" fontWeight="700" color="$color">
+                  Foursquare Match Review
+                </Text>
+                <Text fontSize="$3" color="$color" opacity={0.6}>
+                  Venues the matcher was not sure about · link the right one or reject them all
+                </Text>
+              </YStack>
+            </XStack>
+            <Button
+              size="$3"
+              circular
+              backgroundColor="transparent"
+              onPress={() => onOpenChange(false)}
+              hoverStyle={{ backgroundColor: 'rgba(107, 114, 128, 0.1)' }}
+            >
+              <X size={18} color="#6b7280" />
+            </Button>
+          </XStack>
+
+          <Sheet.ScrollView>
+            <YStack gap="$5" paddingBottom="$6">
+              {loading && (
+                <YStack alignItems="center" paddingVertical="$6">
+                  <Spinner size="large" color={ACCENT} />
+                </YStack>
+              )}
+              {error && <Text color="#EF4444" fontSize="$3">{String(error)}</Text>}
+              {!loading && !error && reviews.length === 0 && (
+                <Text color="$color" opacity={0.6} fontSize="$3">Nothing to review.</Text>
+              )}
+              {reviews.map((review) => (
+                <YStack key={review.id} borderBottomWidth={1} borderColor="$borderColor" paddingBottom="$4">
+                  <MatchReviewCard review={review} onResolved={() => refetch()} />
+                </YStack>
+              ))}
+            </YStack>
+          </Sheet.ScrollView>
+        </YStack>
+      </Sheet.Frame>
+    </Sheet>
+  )
+}
@@ -0,0 +1,10 @@
+import { Bot, FileText, Globe, MapPin, type LucideIcon } from 'lucide-react'
+import type { ServiceType } from '@/app/types/onboarding'
+
+/** Icon for each registered onboarding service (see lib/onboarding/registry.ts) */
+export const SERVICE_ICONS: Record<ServiceType, LucideIcon> = {
+  foursquare: MapPin,
+  chatbot: Bot,
+  blogs: FileText,
+  landing_pages: Globe,
+}
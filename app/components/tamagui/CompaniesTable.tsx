@@ -3,7 +3,7 @@
 
 import { useState, useMemo } from 'react'
 import { Card, YStack, XStack, Text, Separator, Stack, useMedia, Spinner } from 'tamagui'
-import { ArrowUpDown, ArrowUp, ArrowDown, Building2 } from 'lucide-react'
+import { ArrowUpDown, ArrowUp, ArrowDown, Building2, Square, SquareCheck, SquareMinus } from 'lucide-react'
 import { NoDataYet } from './StateComponents'
 
 // ============================================================
@@ -30,6 +30,9 @@ export interface CompaniesTableProps {
   showActions?: boolean
   /** ID of company currently being navigated to - shows loading state on that row */
   navigatingTo?: string | null
+  /** Selected company IDs - rows get a checkbox when onSelectionChange is set */
+  selectedIds?: Set<string>
+  onSelectionChange?: (selectedIds: Set<string>) => void
 }
 
 type SortField = 'name' | 'location' | 'lastSync'
@@ -118,6 +121,36 @@ function SortableHeader({
   )
 }
 
+/**
+ * Row / header checkbox. Swallows the press so it doesn't open the company.
+ */
+function SelectBox({
+  state,
+  onToggle,
+}: {
+  state: 'checked' | 'unchecked' | 'partial'
+  onToggle: () => void
+}) {
+  const Icon = state === 'checked' ? SquareCheck : state === 'partial' ? SquareMinus : Square
+  const isOn = state !== 'unchecked'
+
+  return (
+    <Stack
+      cursor="pointer"
+      padding="$1"
+      onPress={(e) => {
+        e.stopPropagation()
+        onToggle()
+      }}
+      hoverStyle={{ opacity: 0.8 }}
+      aria-checked={state === 'partial' ? 'mixed' : isOn}
+      role="checkbox"
+    >
+      <Icon size={18} color={isOn ? '#3B82F6' : 'currentColor'} opacity={isOn ? 1 : 0.5} strokeWidth={2} />
+    </Stack>
+  )
+}
+
 /**
  * Mobile Card View
  */
@@ -125,10 +158,14 @@ function CompanyCard({
   company,
   onRowClick,
   isNavigating,
+  isSelected,
+  onToggleSelect,
 }: {
   company: CompanyData
   onRowClick?: (company: CompanyData) => void
   isNavigating?: boolean
+  isSelected?: boolean
+  onToggleSelect?: (companyId: string) => void
 }) {
   const formattedPhone = formatPhoneNumber(company.phone)
 
@@ -179,16 +216,25 @@ function CompanyCard({
       )}
       <YStack space="$3">
         {/* Company Name */}
-        <Text
-          fontSize="$5"
-          $sm={{ fontSize: '$6' }}
-          fontWeight="700"
-          color="$color"
-          numberOfLines={2}
-          ellipsizeMode="tail"
-        >
-          {company.name}
-        </Text>
+        <XStack alignItems="center" gap="$2">
+          {onToggleSelect && (
+            <SelectBox
+              state={isSelected ? 'checked' : 'unchecked'}
+              onToggle={() => onToggleSelect(company.id)}
+            />
+          )}
+          <Text
+            flex={1}
+            fontSize="$5"
+            $sm={{ fontSize: '$6' }}
+            fontWeight="700"
+            color="$color"
+            numberOfLines={2}
+            ellipsizeMode="tail"
+          >
+            {company.name}
+          </Text>
+        </XStack>
 
         {/* Info Grid */}
         <XStack flexWrap="wrap" gap="$4">
@@ -259,10 +305,14 @@ function TableHeader({
   sortField,
   sortDirection,
   onSort,
+  selectState,
+  onToggleAll,
 }: {
   sortField: SortField
   sortDirection: SortDirection
   onSort: (field: SortField) => void
+  selectState?: 'checked' | 'unchecked' | 'partial'
+  onToggleAll?: () => void
 }) {
   return (
     <XStack
@@ -274,13 +324,18 @@ function TableHeader({
       width="100%"
       alignItems="center"
     >
+      {onToggleAll && (
+        <YStack width="5%" minWidth={32} justifyContent="center" alignItems="flex-start">
+          <SelectBox state={selectState ?? 'unchecked'} onToggle={onToggleAll} />
+        </YStack>
+      )}
       <SortableHeader
         label="Company"
         field="name"
         currentSort={sortField}
         currentDirection={sortDirection}
         onSort={onSort}
-        width="45%"
+        width={onToggleAll ? '40%' : '45%'}
         align="left"
       />
       <SortableHeader
@@ -312,11 +367,17 @@ function TableRow({
   company,
   onRowClick,
   isNavigating,
+  isSelected,
+  onToggleSelect,
 }: {
   company: CompanyData
   onRowClick?: (company: CompanyData) => void
   isNavigating?: boolean
+  isSelected?: boolean
+  onToggleSelect?: (companyId: string) => void
 }) {
+  const nameWidth = onToggleSelect ? '40%' : '45%'
+
   return (
     <>
       <Stack
@@ -333,7 +394,7 @@ function TableRow({
           backgroundColor: 'rgba(59, 130, 246, 0.1)',
         }}
         animation="quick"
-        backgroundColor={isNavigating ? 'rgba(59, 130, 246, 0.12)' : 'transparent'}
+        backgroundColor={isNavigating ? 'rgba(59, 130, 246, 0.12)' : isSelected ? 'rgba(59, 130, 246, 0.05)' : 'transparent'}
         borderLeftWidth={isNavigating ? 3 : 0}
         borderLeftColor={isNavigating ? '#3B82F6' : 'transparent'}
         position="relative"
@@ -362,8 +423,18 @@ function TableRow({
         )}
 
         <XStack alignItems="center" width="100%" opacity={isNavigating ? 0.5 : 1}>
+          {/* Selection */}
+          {onToggleSelect && (
+            <YStack width="5%" minWidth={32} justifyContent="center" alignItems="flex-start">
+              <SelectBox
+                state={isSelected ? 'checked' : 'unchecked'}
+                onToggle={() => onToggleSelect(company.id)}
+              />
+            </YStack>
+          )}
+
           {/* Company Name */}
-          <YStack width="45%" minWidth={0} maxWidth="45%" justifyContent="center" alignItems="flex-start">
+          <YStack width={nameWidth} minWidth={0} maxWidth={nameWidth} justifyContent="center" alignItems="flex-start">
             <Text
               fontSize="$4"
               fontWeight="600"
@@ -424,10 +495,38 @@ function TableRow({
 // MAIN COMPONENT
 // ============================================================
 
-export function CompaniesTable({ companies, onRowClick, navigatingTo }: CompaniesTableProps) {
+export function CompaniesTable({
+  companies,
+  onRowClick,
+  navigatingTo,
+  selectedIds,
+  onSelectionChange,
+}: CompaniesTableProps) {
   const media = useMedia()
   const isMobile = !media.gtMd
 
+  // Selection (only when the parent opts in)
+  const selectable = !!onSelectionChange
+  const selected = selectedIds ?? new Set<string>()
+  const selectedOnPage = companies.filter((c) => selected.has(c.id)).length
+  const selectState =
+    selectedOnPage === 0 ? 'unchecked' : selectedOnPage === companies.length ? 'checked' : 'partial'
+
+  const handleToggleSelect = (companyId: string) => {
+    const next = new Set(selected)
+    if (next.has(companyId)) next.delete(companyId)
+    else next.add(companyId)
+    onSelectionChange?.(next)
+  }
+
+  // Header checkbox toggles the companies currently shown, leaving other pages' picks alone
+  const handleToggleAll = () => {
+    const next = new Set(selected)
+    if (selectState === 'checked') companies.forEach((c) => next.delete(c.id))
+    else companies.forEach((c) => next.add(c.id))
+    onSelectionChange?.(next)
+  }
+
   // Sorting state
   const [sortField, setSortField] = useState<SortField>('name')
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc')
@@ -505,6 +604,8 @@ export function CompaniesTable({ companies, onRowClick, navigatingTo }: Companie
               company={company}
               onRowClick={onRowClick}
               isNavigating={navigatingTo === company.id}
+              isSelected={selected.has(company.id)}
+              onToggleSelect={selectable ? handleToggleSelect : undefined}
             />
           ))}
         </YStack>
@@ -515,6 +616,8 @@ export function CompaniesTable({ companies, onRowClick, navigatingTo }: Companie
             sortField={sortField}
             sortDirection={sortDirection}
             onSort={handleSort}
+            selectState={selectState}
+            onToggleAll={selectable ? handleToggleAll : undefined}
           />
           <YStack width="100%">
             {sortedCompanies.map((company) => (
@@ -523,6 +626,8 @@ export function CompaniesTable({ companies, onRowClick, navigatingTo }: Companie
                 company={company}
                 onRowClick={onRowClick}
                 isNavigating={navigatingTo === company.id}
+                isSelected={selected.has(company.id)}
+                onToggleSelect={selectable ? handleToggleSelect : undefined}
               />
             ))}
           </YStack>
@@ -9,9 +9,11 @@
  * - Character count with limit
  * - Loading state during submission
  * - Error handling with visual feedback
+ * - Optional suggested reply (getDraft) pre-filled for new replies; it is
+ *   only ever sent when the user presses Send
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import {
   YStack,
   XStack,
@@ -21,7 +23,7 @@ import {
   Spinner,
   Dialog,
 } from 'tamagui';
-import { X, Send, Star, MessageSquare, AlertCircle } from 'lucide-react';
+import { X, Send, Star, MessageSquare, AlertCircle, Sparkles, RefreshCw } from 'lucide-react';
 
 // Theme colors matching GBP dashboard
 const COLORS = {
@@ -49,11 +51,19 @@ export interface ReviewData {
   };
 }
 
+export interface SuggestedReply {
+  draft: string;
+  /** Banned phrases the draft still contains */
+  violations?: string[];
+}
+
 interface ReviewReplyModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   review: ReviewData | null;
   onSubmit: (reviewId: string, reply: string) => Promise<void>;
+  /** Suggest a reply for reviews that don't have one yet */
+  getDraft?: (reviewId: string) => Promise<SuggestedReply>;
 }
 
 // Helper to convert star rating string to number
@@ -72,21 +82,42 @@ export function ReviewReplyModal({
   onOpenChange,
   review,
   onSubmit,
+  getDraft,
 }: ReviewReplyModalProps) {
   const [replyText, setReplyText] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [suggestion, setSuggestion] = useState<SuggestedReply | null>(null);
+
+  const loadDraft = useCallback(async (reviewId: string) => {
+    if (!getDraft) return;
+
+    setIsDrafting(true);
+    setError(null);
+    try {
+      const result = await getDraft(reviewId);
+      setSuggestion(result);
+      setReplyText(result.draft);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to suggest a reply');
+    } finally {
+      setIsDrafting(false);
+    }
+  }, [getDraft]);
 
   // Reset state when review changes or modal opens
   useEffect(() => {
     if (review) {
       setReplyText(review.reviewReply?.comment || '');
       setError(null);
+      setSuggestion(null);
+      if (open && !review.reviewReply) loadDraft(review.reviewId);
     }
-  }, [review, open]);
+  }, [review, open, loadDraft]);
 
   const handleSubmit = async () => {
-    if (!review || !replyText.trim()) return;
+    if (!review || !replyText.trim() || isSubmitting || isDrafting) return;
 
     setIsSubmitting(true);
     setError(null);
@@ -224,12 +255,55 @@ export function ReviewReplyModal({
 
           {/* Reply Input */}
           <YStack gap="$2" marginBottom="$4">
-            <Text fontSize={13} fontWeight="600" color="white" opacity={0.7}>
-              Your Reply
-            </Text>
+            <XStack justifyContent="space-between" alignItems="center">
+              <Text fontSize={13} fontWeight="600" color="white" opacity={0.7}>
+                Your Reply
+              </Text>
+              {getDraft && !isDrafting && (
+                <XStack
+                  gap="$1.5"
+                  alignItems="center"
+                  cursor="pointer"
+                  opacity={0.7}
+                  hoverStyle={{ opacity: 1 }}
+                  onPress={() => loadDraft(review.reviewId)}
+                >
+                  <RefreshCw size={12} color={COLORS.zingBlue} />
+                  <Text fontSize={12} color={COLORS.zingBlue} fontWeight="600">
+                    {suggestion ? 'Regenerate suggestion' : 'Suggest a reply'}
+                  </Text>
+                </XStack>
+              )}
+            </XStack>
+            {(isDrafting || suggestion) && (
+              <XStack gap="$2" alignItems="center">
+                {isDrafting ? <Spinner size="small" color={COLORS.zingBlue} /> : <Sparkles size={14} color={COLORS.zingBlue} />}
+                <Text fontSize={12} color="white" opacity={0.6}>
+                  {isDrafting
+                    ? 'Drafting a suggested reply...'
+                    : 'Suggested reply - review and edit it before sending. Nothing is posted until you press Send.'}
+                </Text>
+              </XStack>
+            )}
+            {suggestion?.violations?.length > 0 && (
+              <XStack gap="$2" alignItems="center">
+                <AlertCircle size={14} color={COLORS.warning} />
+                <Text fontSize={12} color={COLORS.warning}>
+                  Contains banned phrases: {suggestion.violations.join(', ')}
+                </Text>
+              </XStack>
+            )}
             <TextArea
               value={replyText}
               onChangeText={setReplyText}
+              onKeyPress={(e) => {
+                // Cmd/Ctrl + Enter sends
+                if (e.nativeEvent.key === 'Enter' && (e.nativeEvent.metaKey || e.nativeEvent.ctrlKey)) {
+                  e.preventDefault();
+                  handleSubmit();
+                }
+              }}
+              disabled={isDrafting}
               placeholder="Write a thoughtful response to this review..."
               backgroundColor="rgba(30, 40, 71, 0.5)"
               borderWidth={1}
@@ -325,7 +399,7 @@ export function ReviewReplyModal({
               paddingHorizontal="$5"
               paddingVertical="$3"
               borderRadius={8}
-              backgroundColor={isOverLimit || !replyText.trim() ? 'rgba(59, 130, 246, 0.3)' : COLORS.zingBlue}
+              backgroundColor={isOverLimit || !replyText.trim() || isDrafting ? 'rgba(59, 130, 246, 0.3)' : COLORS.zingBlue}
               cursor={isOverLimit || !replyText.trim() || isSubmitting ? 'not-allowed' : 'pointer'}
               hoverStyle={{ opacity: isOverLimit || !replyText.trim() ? 1 : 0.9 }}
               pressStyle={{ scale: isOverLimit || !replyText.trim() ? 1 : 0.98 }}
@@ -0,0 +1,309 @@
+// @ts-nocheck
+/**
+ * GBP Location Analytics Page
+ *
+ * Weekly impressions, calls, direction requests and website clicks from the
+ * stored daily metrics (gbp_daily_metrics), with week-over-week and
+ * year-over-year deltas for the latest complete week, plus the keywords
+ * that moved most between the two latest keyword snapshots.
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { YStack, XStack, Text, Card, Spinner, Button, H1 } from 'tamagui';
+import {
+  BarChart3,
+  Eye,
+  Phone,
+  Navigation,
+  Globe,
+  ArrowUpRight,
+  ArrowDownRight,
+  Search,
+} from 'lucide-react';
+import {
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  LineChart,
+  Line,
+  Legend,
+} from 'recharts';
+import { BackButton, NoDataYet } from '@/app/components/tamagui';
+import { useGBPAnalyticsHistory } from '@/app/hooks/useGBPAnalyticsHistory';
+import type { GBPAnalyticsSeries, GBPKeywordMover } from '@/app/types/gbp';
+
+const COLORS = {
+  impressions: '#3B82F6',
+  calls: '#10B981',
+  directions: '#F59E0B',
+  websiteClicks: '#8B5CF6',
+  up: '#10B981',
+  down: '#EF4444',
+};
+
+const SERIES_INFO: Record<GBPAnalyticsSeries, { label: string; icon: typeof Eye }> = {
+  impressions: { label: 'Impressions', icon: Eye },
+  calls: { label: 'Calls', icon: Phone },
+  directions: { label: 'Direction Requests', icon: Navigation },
+  websiteClicks: { label: 'Website Clicks', icon: Globe },
+};
+
+const RANGES = [12, 26, 52];
+
+const formatNumber = (value: number) => value.toLocaleString('en-US');
+
+const formatWeek = (iso: string) =>
+  new Date(`${iso}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+function DeltaBadge({ label, value }: { label: string; value: number | null }) {
+  if (value === null) {
+    return (
+      <Text fontSize="$2" color="$color" opacity={0.4}>
+        {label} —
+      </Text>
+    );
+  }
+
+  const color = value >= 0 ? COLORS.up : COLORS.down;
+  const Icon = value >= 0 ? ArrowUpRight : ArrowDownRight;
+  return (
+    <XStack alignItems="center" gap={2}>
+      <Icon size={12} color={color} />
+      <Text fontSize="$2" fontWeight="600" color={color}>
+        {Math.abs(value * 100).toFixed(1)}%
+      </Text>
+      <Text fontSize="$2" color="$color" opacity={0.5}>{label}</Text>
+    </XStack>
+  );
+}
+
+function MoverRow({ mover }: { mover: GBPKeywordMover }) {
+  const color = mover.change >= 0 ? COLORS.up : COLORS.down;
+  return (
+    <XStack paddingVertical="$2" borderBottomWidth={1} borderColor="rgba(0,0,0,0.06)" alignItems="center" gap="$3">
+      <Text flex={1} fontSize="$3" color="$color" numberOfLines={1}>{mover.keyword}</Text>
+      {(mover.status === 'new' || mover.status === 'dropped') && (
+        <XStack backgroundColor={`${color}15`} paddingHorizontal="$2" paddingVertical={2} borderRadius="$2">
+          <Text fontSize={10} fontWeight="700" color={color} textTransform="uppercase">{mover.status}</Text>
+        </XStack>
+      )}
+      <Text width={90} textAlign="right" fontSize="$3" color="$color" opacity={0.6}>
+        {mover.previousImpressions === null ? '—' : formatNumber(mover.previousImpressions)}
+      </Text>
+      <Text width={90} textAlign="right" fontSize="$3" color="$color">
+        {formatNumber(mover.impressions)}
+      </Text>
+      <Text width={80} textAlign="right" fontSize="$3" fontWeight="600" color={color}>
+        {mover.change > 0 ? '+' : ''}{formatNumber(mover.change)}
+      </Text>
+    </XStack>
+  );
+}
+
+export default function GBPLocationAnalyticsPage() {
+  const params = useParams();
+  const accountId = params.accountId as string;
+  const locationId = params.locationId as string;
+
+  const [weeks, setWeeks] = useState(26);
+  const { history, loading, error, refetch } = useGBPAnalyticsHistory(locationId, weeks);
+
+  const chartData = useMemo(
+    () => (history?.weeks ?? []).map((week) => ({ ...week, label: formatWeek(week.week_start) })),
+    [history]
+  );
+
+  const cardProps = {
+    backgroundColor: '$background',
+    borderRadius: '$4',
+    borderWidth: 1,
+    borderColor: '$borderColor',
+    padding: '$5',
+  };
+
+  return (
+    <YStack flex={1} padding="$4" gap="$5" maxWidth={1100} marginHorizontal="auto" width="100%">
+      <XStack justifyContent="space-between" alignItems="center" flexWrap="wrap" gap="$3">
+        <BackButton href={`/gbp/${accountId}/locations/${locationId}`} />
+        <XStack gap="$2">
+          {RANGES.map((range) => (
+            <Button
+              key={range}
+              size="$3"
+              backgroundColor={weeks === range ? '$zingPurple' : 'transparent'}
+              borderColor="$zingPurple"
+              borderWidth={1}
+              onPress={() => setWeeks(range)}
+            >
+              <Text color={weeks === range ? 'white' : '$zingPurple'} fontWeight="600">{range} weeks</Text>
+            </Button>
+          ))}
+        </XStack>
+      </XStack>
+
+      <XStack alignItems="center" gap="$3">
+        <BarChart3 size={36} color="$zingPurple" />
+        <YStack gap="$1">
+          <H1 fontSize="$10" color="$color" fontWeight="700">
+            Location Analytics
+          </H1>
+          <Text fontSize="$4" color="$color" opacity={0.6}>
+            {history?.latest_week
+              ? `Week of ${formatWeek(history.latest_week)} compared with the week before and a year earlier`
+              : 'Weekly performance from synced Google data'}
+          </Text>
+        </YStack>
+      </XStack>
+
+      {loading && !history ? (
+        <YStack padding="$8" alignItems="center">
+          <Spinner size="large" color="$zingPurple" />
+        </YStack>
+      ) : error ? (
+        <Card {...cardProps}>
+          <Text color="#EF4444">{error.message || error}</Text>
+        </Card>
+      ) : !history || history.weeks.length === 0 ? (
+        <NoDataYet
+          icon={<BarChart3 size={36} color={COLORS.impressions} strokeWidth={1.5} />}
+          title="No Analytics Data Yet"
+          description="Weekly metrics appear here after the GBP analytics sync has run for this location."
+          action={{ label: 'Refresh', onClick: () => refetch() }}
+          variant="info"
+        />
+      ) : (
+        <>
+          {/* KPI cards */}
+          <XStack gap="$4" flexWrap="wrap">
+            {(Object.keys(SERIES_INFO) as GBPAnalyticsSeries[]).map((series) => {
+              const { label, icon: Icon } = SERIES_INFO[series];
+              const delta = history.deltas?.[series];
+              return (
+                <Card key={series} {...cardProps} flex={1} minWidth={220}>
+                  <YStack gap="$2">
+                    <XStack alignItems="center" gap="$2">
+                      <Icon size={16} color={COLORS[series]} />
+                      <Text fontSize="$3" color="$color" opacity={0.6}>{label}</Text>
+                    </XStack>
+                    <Text fontSize="$8" fontWeight="700" color={COLORS[series]}>
+                      {delta ? formatNumber(delta.current) : '—'}
+                    </Text>
+                    <XStack gap="$3" flexWrap="wrap">
+                      <DeltaBadge label="WoW" value={delta?.wow ?? null} />
+                      <DeltaBadge label="YoY" value={delta?.yoy ?? null} />
+                    </XStack>
+                  </YStack>
+                </Card>
+              );
+            })}
+          </XStack>
+
+          {/* Impressions */}
+          <Card {...cardProps}>
+            <YStack gap="$4">
+              <XStack alignItems="center" gap="$2">
+                <Eye size={20} color={COLORS.impressions} />
+                <Text fontSize="$6" fontWeight="700" color="$color">Impressions</Text>
+              </XStack>
+              <YStack height={260} minHeight={200} minWidth={200}>
+                <ResponsiveContainer width="100%" height="100%" debounce={100}>
+                  <AreaChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                    <defs>
+                      <linearGradient id="colorImpressions" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor={COLORS.impressions} stopOpacity={0.3} />
+                        <stop offset="95%" stopColor={COLORS.impressions} stopOpacity={0.05} />
+                      </linearGradient>
+                    </defs>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#33333320" />
+                    <XAxis dataKey="label" tick={{ fill: '#888', fontSize: 11 }} tickLine={false} />
+                    <YAxis tick={{ fill: '#888', fontSize: 12 }} tickLine={false} />
+                    <Tooltip formatter={(value: number) => formatNumber(value)} />
+                    <Area
+                      type="monotone"
+                      dataKey="impressions"
+                      stroke={COLORS.impressions}
+                      strokeWidth={2}
+                      fill="url(#colorImpressions)"
+                      name="Impressions"
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </YStack>
+            </YStack>
+          </Card>
+
+          {/* Customer actions */}
+          <Card {...cardProps}>
+            <YStack gap="$4">
+              <XStack alignItems="center" gap="$2">
+                <Phone size={20} color={COLORS.calls} />
+                <Text fontSize="$6" fontWeight="700" color="$color">Customer Actions</Text>
+              </XStack>
+              <YStack height={260} minHeight={200} minWidth={200}>
+                <ResponsiveContainer width="100%" height="100%" debounce={100}>
+                  <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#33333320" />
+                    <XAxis dataKey="label" tick={{ fill: '#888', fontSize: 11 }} tickLine={false} />
+                    <YAxis tick={{ fill: '#888', fontSize: 12 }} tickLine={false} allowDecimals={false} />
+                    <Tooltip formatter={(value: number) => formatNumber(value)} />
+                    <Legend />
+                    {(['calls', 'directions', 'websiteClicks'] as const).map((series) => (
+                      <Line
+                        key={series}
+                        type="monotone"
+                        dataKey={series}
+                        stroke={COLORS[series]}
+                        strokeWidth={2}
+                        dot={false}
+                        name={SERIES_INFO[series].label}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </YStack>
+            </YStack>
+          </Card>
+        </>
+      )}
+
+      {/* Keyword movers */}
+      {history && (
+        <Card {...cardProps}>
+          <YStack gap="$3">
+            <XStack alignItems="center" gap="$2">
+              <Search size={20} color="$zingPurple" />
+              <YStack>
+                <Text fontSize="$6" fontWeight="700" color="$color">Top Keyword Movers</Text>
+                <Text fontSize="$3" color="$color" opacity={0.6}>
+                  {history.keyword_snapshots.previous
+                    ? `Search keyword impressions, ${history.keyword_snapshots.previous} vs ${history.keyword_snapshots.current}`
+                    : 'Needs two keyword snapshots from the weekly sync'}
+                </Text>
+              </YStack>
+            </XStack>
+            {history.keyword_movers.length > 0 && (
+              <YStack>
+                <XStack paddingVertical="$2" gap="$3">
+                  <Text flex={1} fontSize={12} color="$color" opacity={0.5} fontWeight="600">Keyword</Text>
+                  <Text width={90} textAlign="right" fontSize={12} color="$color" opacity={0.5} fontWeight="600">Before</Text>
+                  <Text width={90} textAlign="right" fontSize={12} color="$color" opacity={0.5} fontWeight="600">Now</Text>
+                  <Text width={80} textAlign="right" fontSize={12} color="$color" opacity={0.5} fontWeight="600">Change</Text>
+                </XStack>
+                {history.keyword_movers.map((mover) => (
+                  <MoverRow key={mover.keyword} mover={mover} />
+                ))}
+              </YStack>
+            )}
+          </YStack>
+        </Card>
+      )}
+    </YStack>
+  );
+}
@@ -10,7 +10,7 @@
 
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { Save, AlertCircle, MapPin, Phone, Globe, Building2, FileText } from 'lucide-react';
+import { Save, AlertCircle, MapPin, Phone, Globe, Building2, FileText, CalendarClock, BarChart3 } from 'lucide-react';
 import {
   YStack,
   XStack,
@@ -189,16 +189,40 @@ export default function GBPLocationDetailPage() {
 
         <XStack gap="$3" alignItems="center">
           {!isEditing ? (
-            <Button
-              backgroundColor="$zingPurple"
-              color="white"
-              onPress={() => setIsEditing(true)}
-              size="$4"
-              fontWeight="600"
-              paddingHorizontal="$6"
-            >
-              Edit Location
-            </Button>
+            <XStack gap="$3">
+              <Button
+                variant="outlined"
+                borderColor="$zingPurple"
+                color="$zingPurple"
+                icon={<BarChart3 size={18} />}
+                onPress={() => router.push(`/gbp/${accountId}/locations/${locationId}/analytics`)}
+                size="$4"
+                fontWeight="600"
+              >
+                Analytics
+              </Button>
+              <Button
+                variant="outlined"
+                borderColor="$zingPurple"
+                color="$zingPurple"
+                icon={<CalendarClock size={18} />}
+                onPress={() => router.push(`/gbp/${accountId}/locations/${locationId}/posts`)}
+                size="$4"
+                fontWeight="600"
+              >
+                Post Calendar
+              </Button>
+              <Button
+                backgroundColor="$zingPurple"
+                color="white"
+                onPress={() => setIsEditing(true)}
+                size="$4"
+                fontWeight="600"
+                paddingHorizontal="$6"
+              >
+                Edit Location
+              </Button>
+            </XStack>
           ) : (
             <XStack gap="$3">
               <Button
@@ -0,0 +1,647 @@
+// @ts-nocheck
+/**
+ * GBP Post Calendar Page
+ *
+ * Schedule standard, event and offer posts for a location, optionally
+ * repeating weekly, every two weeks or monthly. The gbp-scheduled-posts cron
+ * publishes them; the calendar shows what went out, what failed and what is
+ * coming up.
+ */
+
+'use client';
+
+import { useState, useCallback, useMemo } from 'react';
+import { useParams } from 'next/navigation';
+import {
+  CalendarClock,
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  Pencil,
+  RotateCcw,
+  Save,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { YStack, XStack, Card, Text, H1, Button, Spinner, Separator } from 'tamagui';
+import { toast } from 'sonner';
+import { BackButton } from '@/app/components/tamagui';
+import { useScheduledPosts } from '@/app/hooks/useScheduledPosts';
+import type {
+  ScheduledGBPPost,
+  ScheduledPostActionType,
+  ScheduledPostRecurrence,
+  ScheduledPostStatus,
+  ScheduledPostTopicType,
+} from '@/app/types/gbp';
+
+const STATUS_COLORS: Record<ScheduledPostStatus | 'upcoming', string> = {
+  scheduled: '#3B82F6',
+  publishing: '#F59E0B',
+  published: '#10B981',
+  failed: '#EF4444',
+  upcoming: '#3B82F6',
+};
+
+const STATUS_LABELS: Record<ScheduledPostStatus | 'upcoming', string> = {
+  scheduled: 'Scheduled',
+  publishing: 'Publishing',
+  published: 'Published',
+  failed: 'Failed',
+  upcoming: 'Upcoming',
+};
+
+const TOPIC_LABELS: Record<ScheduledPostTopicType, string> = {
+  STANDARD: 'Update',
+  EVENT: 'Event',
+  OFFER: 'Offer',
+};
+
+const RECURRENCE_LABELS: Record<ScheduledPostRecurrence, string> = {
+  none: 'Does not repeat',
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+};
+
+const ACTION_LABELS: Record<ScheduledPostActionType, string> = {
+  BOOK: 'Book',
+  ORDER: 'Order online',
+  SHOP: 'Buy',
+  LEARN_MORE: 'Learn more',
+  SIGN_UP: 'Sign up',
+  CALL: 'Call now',
+};
+
+const MAX_SUMMARY = 1500;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const dayKey = (iso: string) => new Date(iso).toLocaleDateString('en-CA');
+
+const formatPostDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/** datetime-local value for an ISO timestamp, in the browser's time zone */
+const toLocalInput = (iso: string) => {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const EMPTY_FORM = {
+  topicType: 'STANDARD' as ScheduledPostTopicType,
+  summary: '',
+  mediaText: '',
+  actionType: '' as ScheduledPostActionType | '',
+  actionUrl: '',
+  eventTitle: '',
+  startDate: '',
+  startTime: '',
+  endDate: '',
+  endTime: '',
+  couponCode: '',
+  redeemUrl: '',
+  terms: '',
+  scheduledFor: '',
+  recurrence: 'none' as ScheduledPostRecurrence,
+  recurrenceUntil: '',
+};
+
+function formFromPost(post: ScheduledGBPPost) {
+  return {
+    topicType: post.topic_type,
+    summary: post.summary,
+    mediaText: post.media.map((m) => m.sourceUrl).join('\n'),
+    actionType: post.call_to_action?.actionType ?? '',
+    actionUrl: post.call_to_action?.url ?? '',
+    eventTitle: post.event?.title ?? '',
+    startDate: post.event?.start_date ?? '',
+    startTime: post.event?.start_time ?? '',
+    endDate: post.event?.end_date ?? '',
+    endTime: post.event?.end_time ?? '',
+    couponCode: post.offer?.coupon_code ?? '',
+    redeemUrl: post.offer?.redeem_online_url ?? '',
+    terms: post.offer?.terms_conditions ?? '',
+    scheduledFor: toLocalInput(post.scheduled_for),
+    recurrence: post.recurrence,
+    recurrenceUntil: post.recurrence_until ?? '',
+  };
+}
+
+export default function GBPPostCalendarPage() {
+  const params = useParams();
+  const accountId = params.accountId as string;
+  const locationId = params.locationId as string;
+
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const { posts, upcoming, loading, error, refetch } = useScheduledPosts(locationId, month);
+
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const setField = (field: keyof typeof EMPTY_FORM) => (e) =>
+    setForm((f) => ({ ...f, [field]: e.target.value }));
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleSave = useCallback(async () => {
+    const { topicType } = form;
+    const body = {
+      account_id: accountId,
+      location_id: locationId,
+      topic_type: topicType,
+      summary: form.summary,
+      media: form.mediaText.split('\n').map((url) => url.trim()).filter(Boolean),
+      call_to_action: topicType !== 'OFFER' && form.actionType
+        ? { actionType: form.actionType, url: form.actionType === 'CALL' ? null : form.actionUrl }
+        : null,
+      event: topicType !== 'STANDARD'
+        ? {
+            title: form.eventTitle,
+            start_date: form.startDate,
+            start_time: form.startTime || null,
+            end_date: form.endDate,
+            end_time: form.endTime || null,
+          }
+        : null,
+      offer: topicType === 'OFFER'
+        ? { coupon_code: form.couponCode, redeem_online_url: form.redeemUrl, terms_conditions: form.terms }
+        : null,
+      scheduled_for: new Date(form.scheduledFor).toISOString(),
+      recurrence: form.recurrence,
+      recurrence_until: form.recurrence === 'none' ? null : form.recurrenceUntil || null,
+    };
+
+    setSaving(true);
+    try {
+      const res = await fetch(
+        editingId ? `/api/gbp/scheduled-posts/${editingId}` : '/api/gbp/scheduled-posts',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }
+      );
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to save post');
+      }
+      toast.success(editingId ? 'Post updated' : `Post scheduled for ${formatPostDate(data.data.scheduled_for)}`);
+      resetForm();
+      await refetch();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to save post');
+    } finally {
+      setSaving(false);
+    }
+  }, [form, editingId, accountId, locationId, refetch]);
+
+  const handleEdit = (post: ScheduledGBPPost) => {
+    setForm(formFromPost(post));
+    setEditingId(post.id);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDelete = useCallback(async (post: ScheduledGBPPost, series: boolean) => {
+    const message = series
+      ? 'Delete every unpublished occurrence of this recurring post?'
+      : 'Delete this scheduled post?';
+    if (!confirm(message)) return;
+
+    setBusyId(post.id);
+    try {
+      const res = await fetch(`/api/gbp/scheduled-posts/${post.id}${series ? '?series=true' : ''}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete post');
+      }
+      toast(series ? `Deleted ${data.data.deleted} scheduled posts` : 'Scheduled post deleted');
+      if (editingId === post.id) resetForm();
+      await refetch();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to delete post');
+    } finally {
+      setBusyId(null);
+    }
+  }, [editingId, refetch]);
+
+  const handleRetry = useCallback(async (post: ScheduledGBPPost) => {
+    setBusyId(post.id);
+    try {
+      const res = await fetch(`/api/gbp/scheduled-posts/${post.id}/retry`, { method: 'POST' });
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to retry post');
+      }
+      toast.success('Post will be published on the next run');
+      await refetch();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to retry post');
+    } finally {
+      setBusyId(null);
+    }
+  }, [refetch]);
+
+  // Calendar entries keyed by local day
+  const entriesByDay = useMemo(() => {
+    const byDay = new Map<string, Array<{ status: ScheduledPostStatus | 'upcoming'; summary: string; at: string }>>();
+    const add = (at: string, status, summary) => {
+      const key = dayKey(at);
+      byDay.set(key, [...(byDay.get(key) ?? []), { status, summary, at }]);
+    };
+    posts.forEach((post) => add(post.scheduled_for, post.status, post.summary));
+    upcoming.forEach((occurrence) => add(occurrence.scheduled_for, 'upcoming', occurrence.summary));
+    return byDay;
+  }, [posts, upcoming]);
+
+  const calendarDays = useMemo(() => {
+    const first = new Date(month.getFullYear(), month.getMonth(), 1);
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+    const cells: Array<Date | null> = Array(first.getDay()).fill(null);
+    for (let d = 1; d <= daysInMonth; d++) {
+      cells.push(new Date(month.getFullYear(), month.getMonth(), d));
+    }
+    return cells;
+  }, [month]);
+
+  const shiftMonth = (delta: number) =>
+    setMonth((m) => new Date(m.getFullYear(), m.getMonth() + delta, 1));
+
+  // Clicking a future day starts a post at 10:00 that day
+  const pickDay = (date: Date) => {
+    if (editingId) return;
+    const at = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 10, 0);
+    if (at.getTime() < Date.now()) return;
+    setForm((f) => ({ ...f, scheduledFor: toLocalInput(at.toISOString()) }));
+  };
+
+  const inputStyle = {
+    padding: '10px 14px',
+    borderRadius: 8,
+    border: '1px solid rgba(0,0,0,0.15)',
+    fontSize: 14,
+    background: 'transparent',
+    color: 'inherit',
+    width: '100%',
+  };
+
+  const labelProps = { fontSize: 12, color: '$color', opacity: 0.5, fontWeight: '500' };
+
+  const needsEvent = form.topicType !== 'STANDARD';
+  const canSave =
+    form.summary.trim() !== '' &&
+    form.summary.length <= MAX_SUMMARY &&
+    form.scheduledFor !== '' &&
+    (!needsEvent || (form.eventTitle.trim() !== '' && form.startDate !== '' && form.endDate !== '')) &&
+    (!form.actionType || form.actionType === 'CALL' || form.topicType === 'OFFER' || form.actionUrl.trim() !== '');
+
+  const todayKey = new Date().toLocaleDateString('en-CA');
+
+  return (
+    <YStack flex={1} padding="$4" gap="$5" maxWidth={1000} marginHorizontal="auto" width="100%">
+      <XStack justifyContent="space-between" alignItems="center" flexWrap="wrap" gap="$3">
+        <BackButton href={`/gbp/${accountId}/locations/${locationId}`} />
+      </XStack>
+
+      <XStack alignItems="center" gap="$3">
+        <CalendarClock size={36} color="$zingPurple" />
+        <YStack gap="$1">
+          <H1 fontSize="$10" color="$color" fontWeight="700">
+            Post Calendar
+          </H1>
+          <Text fontSize="$4" color="$color" opacity={0.6}>
+            Posts publish automatically within 15 minutes of their scheduled time
+          </Text>
+        </YStack>
+      </XStack>
+
+      {/* Post form */}
+      <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="$borderColor" padding="$6">
+        <YStack gap="$3">
+          <XStack alignItems="center" justifyContent="space-between">
+            <Text fontSize="$5" fontWeight="700" color="$color">
+              {editingId ? 'Edit Post' : 'New Post'}
+            </Text>
+            {editingId && (
+              <Button size="$2" chromeless onPress={resetForm} icon={<X size={14} />}>
+                <Text fontSize="$2" fontWeight="600">Cancel edit</Text>
+              </Button>
+            )}
+          </XStack>
+
+          <XStack gap={12}>
+            <YStack flex={1} gap="$1">
+              <Text {...labelProps}>Post Type</Text>
+              <select value={form.topicType} onChange={setField('topicType')} style={inputStyle}>
+                {Object.entries(TOPIC_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </YStack>
+            <YStack flex={1} gap="$1">
+              <Text {...labelProps}>Publish At *</Text>
+              <input type="datetime-local" value={form.scheduledFor} onChange={setField('scheduledFor')} style={inputStyle} />
+            </YStack>
+          </XStack>
+
+          <YStack gap="$1">
+            <Text {...labelProps}>
+              Text * ({form.summary.length}/{MAX_SUMMARY})
+            </Text>
+            <textarea
+              value={form.summary}
+              onChange={setField('summary')}
+              placeholder="e.g. This week's special: 20% off all drain cleaning"
+              rows={4}
+              style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+            />
+          </YStack>
+
+          {needsEvent && (
+            <>
+              <YStack gap="$1">
+                <Text {...labelProps}>{form.topicType === 'OFFER' ? 'Offer Title *' : 'Event Title *'}</Text>
+                <input type="text" value={form.eventTitle} onChange={setField('eventTitle')} maxLength={58} style={inputStyle} />
+              </YStack>
+              <XStack gap={12}>
+                <YStack flex={1} gap="$1">
+                  <Text {...labelProps}>Start Date *</Text>
+                  <input type="date" value={form.startDate} onChange={setField('startDate')} style={inputStyle} />
+                </YStack>
+                <YStack flex={1} gap="$1">
+                  <Text {...labelProps}>Start Time</Text>
+                  <input type="time" value={form.startTime} onChange={setField('startTime')} style={inputStyle} />
+                </YStack>
+                <YStack flex={1} gap="$1">
+                  <Text {...labelProps}>End Date *</Text>
+                  <input type="date" value={form.endDate} onChange={setField('endDate')} style={inputStyle} />
+                </YStack>
+                <YStack flex={1} gap="$1">
+                  <Text {...labelProps}>End Time</Text>
+                  <input type="time" value={form.endTime} onChange={setField('endTime')} style={inputStyle} />
+                </YStack>
+              </XStack>
+            </>
+          )}
+
+          {form.topicType === 'OFFER' ? (
+            <>
+              <XStack gap={12}>
+                <YStack flex={1} gap="$1">
+                  <Text {...labelProps}>Coupon Code</Text>
+                  <input type="text" value={form.couponCode} onChange={setField('couponCode')} style={inputStyle} />
+                </YStack>
+                <YStack flex={2} gap="$1">
+                  <Text {...labelProps}>Redeem Online URL</Text>
+                  <input type="url" value={form.redeemUrl} onChange={setField('redeemUrl')} placeholder="https://" style={inputStyle} />
+                </YStack>
+              </XStack>
+              <YStack gap="$1">
+                <Text {...labelProps}>Terms & Conditions</Text>
+                <input type="text" value={form.terms} onChange={setField('terms')} style={inputStyle} />
+              </YStack>
+            </>
+          ) : (
+            <XStack gap={12}>
+              <YStack flex={1} gap="$1">
+                <Text {...labelProps}>Button</Text>
+                <select value={form.actionType} onChange={setField('actionType')} style={inputStyle}>
+                  <option value="">None</option>
+                  {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </YStack>
+              <YStack flex={2} gap="$1">
+                <Text {...labelProps}>Button Link{form.actionType && form.actionType !== 'CALL' ? ' *' : ''}</Text>
+                <input
+                  type="url"
+                  value={form.actionUrl}
+                  onChange={setField('actionUrl')}
+                  placeholder={form.actionType === 'CALL' ? 'Uses the location phone number' : 'https://'}
+                  disabled={!form.actionType || form.actionType === 'CALL'}
+                  style={inputStyle}
+                />
+              </YStack>
+            </XStack>
+          )}
+
+          <YStack gap="$1">
+            <Text {...labelProps}>Photo / Video URLs (one per line, up to 10)</Text>
+            <textarea
+              value={form.mediaText}
+              onChange={setField('mediaText')}
+              placeholder="https://example.com/special.jpg"
+              rows={2}
+              style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+            />
+          </YStack>
+
+          <XStack gap={12}>
+            <YStack flex={1} gap="$1">
+              <Text {...labelProps}>Repeat</Text>
+              <select value={form.recurrence} onChange={setField('recurrence')} style={inputStyle}>
+                {Object.entries(RECURRENCE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </YStack>
+            <YStack flex={1} gap="$1">
+              <Text {...labelProps}>Repeat Until</Text>
+              <input
+                type="date"
+                value={form.recurrenceUntil}
+                onChange={setField('recurrenceUntil')}
+                disabled={form.recurrence === 'none'}
+                style={inputStyle}
+              />
+            </YStack>
+          </XStack>
+
+          <Button
+            size="$4"
+            backgroundColor="$zingPurple"
+            onPress={handleSave}
+            disabled={saving || !canSave}
+            opacity={saving || !canSave ? 0.6 : 1}
+            icon={saving ? <Spinner size="small" color="white" /> : <Save size={16} color="white" />}
+          >
+            <Text color="white" fontWeight="700">{editingId ? 'Save Changes' : 'Schedule Post'}</Text>
+          </Button>
+        </YStack>
+      </Card>
+
+      {/* Calendar */}
+      <Card backgroundColor="$background" borderRadius="$5" borderWidth={1} borderColor="$borderColor" padding="$6">
+        <YStack gap="$3">
+          <XStack alignItems="center" justifyContent="space-between">
+            <Button size="$2" chromeless onPress={() => shiftMonth(-1)} icon={<ChevronLeft size={16} />} />
+            <XStack alignItems="center" gap="$2">
+              <Text fontSize="$4" fontWeight="700" color="$color">
+                {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+              </Text>
+              {loading && <Spinner size="small" />}
+            </XStack>
+            <Button size="$2" chromeless onPress={() => shiftMonth(1)} icon={<ChevronRight size={16} />} />
+          </XStack>
+
+          {error && (
+            <Text fontSize="$3" color="#EF4444">{error.message || error}</Text>
+          )}
+
+          <XStack flexWrap="wrap">
+            {WEEKDAYS.map((day) => (
+              <YStack key={day} width="14.28%" alignItems="center" paddingVertical="$1">
+                <Text fontSize={11} color="$color" opacity={0.5} fontWeight="600">{day}</Text>
+              </YStack>
+            ))}
+            {calendarDays.map((date, i) => {
+              const key = date?.toLocaleDateString('en-CA');
+              const entries = (key && entriesByDay.get(key)) || [];
+              return (
+                <YStack
+                  key={key ?? `blank-${i}`}
+                  width="14.28%"
+                  minHeight={64}
+                  padding="$1"
+                  borderWidth={date ? 1 : 0}
+                  borderColor={key === todayKey ? '$zingPurple' : 'rgba(0,0,0,0.06)'}
+                  gap={2}
+                  cursor={date ? 'pointer' : 'default'}
+                  onPress={date ? () => pickDay(date) : undefined}
+                >
+                  {date && (
+                    <>
+                      <Text fontSize={11} color="$color" opacity={0.6}>{date.getDate()}</Text>
+                      {entries.map((entry) => (
+                        <XStack key={entry.at + entry.status} alignItems="center" gap={3} title={entry.summary}>
+                          <YStack
+                            width={8}
+                            height={8}
+                            borderRadius={4}
+                            flexShrink={0}
+                            backgroundColor={entry.status === 'upcoming' ? 'transparent' : STATUS_COLORS[entry.status]}
+                            borderWidth={entry.status === 'upcoming' ? 1.5 : 0}
+                            borderColor={STATUS_COLORS.upcoming}
+                          />
+                          <Text fontSize={10} color="$color" opacity={0.7} numberOfLines={1}>
+                            {entry.summary}
+                          </Text>
+                        </XStack>
+                      ))}
+                    </>
+                  )}
+                </YStack>
+              );
+            })}
+          </XStack>
+
+          <XStack gap="$3" flexWrap="wrap">
+            {(['upcoming', 'scheduled', 'publishing', 'published', 'failed'] as const).map((status) => (
+              <XStack key={status} alignItems="center" gap={4}>
+                <YStack
+                  width={8}
+                  height={8}
+                  borderRadius={4}
+                  backgroundColor={status === 'upcoming' ? 'transparent' : STATUS_COLORS[status]}
+                  borderWidth={status === 'upcoming' ? 1.5 : 0}
+                  borderColor={STATUS_COLORS.upcoming}
+                />
+                <Text fontSize={11} color="$color" opacity={0.6}>{STATUS_LABELS[status]}</Text>
+              </XStack>
+            ))}
+          </XStack>
+
+          {posts.length > 0 && (
+            <>
+              <Separator borderColor="$borderColor" />
+              <YStack gap="$2">
+                {posts.map((post) => {
+                  const color = STATUS_COLORS[post.status];
+                  const editable = post.status === 'scheduled' || post.status === 'failed';
+                  const busy = busyId === post.id;
+                  return (
+                    <XStack
+                      key={post.id}
+                      alignItems="center"
+                      gap="$3"
+                      paddingVertical="$2"
+                      borderBottomWidth={1}
+                      borderColor="rgba(0,0,0,0.06)"
+                    >
+                      <XStack backgroundColor={`${color}15`} paddingHorizontal="$2" paddingVertical="$1" borderRadius="$2" minWidth={86} justifyContent="center">
+                        <Text fontSize={10} fontWeight="700" color={color} textTransform="uppercase">
+                          {STATUS_LABELS[post.status]}
+                        </Text>
+                      </XStack>
+                      <YStack flex={1}>
+                        <Text fontSize="$3" color="$color">
+                          {formatPostDate(post.scheduled_for)} · {TOPIC_LABELS[post.topic_type]}
+                          {post.recurrence !== 'none' ? ` · ${RECURRENCE_LABELS[post.recurrence]}` : ''}
+                        </Text>
+                        <Text fontSize="$2" color="$color" opacity={0.6} numberOfLines={2}>
+                          {post.summary}
+                        </Text>
+                        {post.error_message && (
+                          <Text fontSize="$2" color={color}>{post.error_message}</Text>
+                        )}
+                      </YStack>
+                      {post.search_url && (
+                        <a href={post.search_url} target="_blank" rel="noopener noreferrer">
+                          <ExternalLink size={14} color="#10B981" />
+                        </a>
+                      )}
+                      {post.status === 'failed' && (
+                        <Button
+                          size="$2"
+                          chromeless
+                          onPress={() => handleRetry(post)}
+                          disabled={busy}
+                          icon={busy ? <Spinner size="small" /> : <RotateCcw size={14} color="#E95614" />}
+                        >
+                          <Text color="#E95614" fontWeight="600" fontSize="$2">Retry</Text>
+                        </Button>
+                      )}
+                      {editable && (
+                        <>
+                          <Button size="$2" chromeless onPress={() => handleEdit(post)} disabled={busy} icon={<Pencil size={14} />} />
+                          <Button
+                            size="$2"
+                            chromeless
+                            onPress={() => handleDelete(post, false)}
+                            disabled={busy}
+                            icon={<Trash2 size={14} color="#EF4444" />}
+                          />
+                        </>
+                      )}
+                      {post.recurrence !== 'none' && post.status === 'scheduled' && (
+                        <Button size="$2" chromeless onPress={() => handleDelete(post, true)} disabled={busy}>
+                          <Text color="#EF4444" fontWeight="600" fontSize="$2">Stop series</Text>
+                        </Button>
+                      )}
+                    </XStack>
+                  );
+                })}
+              </YStack>
+            </>
+          )}
+
+          {!loading && posts.length === 0 && upcoming.length === 0 && (
+            <Text fontSize="$3" color="$color" opacity={0.5} textAlign="center" paddingVertical="$3">
+              No posts this month. Pick a day to start one.
+            </Text>
+          )}
+        </YStack>
+      </Card>
+    </YStack>
+  );
+}
@@ -0,0 +1,41 @@
+import useSWR from 'swr'
+import type { BlogSchedule, BlogScheduleRun, UpcomingBlogRun } from '@/app/types/onboarding'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+const POLL_INTERVAL_MS = 10_000
+
+interface BlogScheduleData {
+  schedule: BlogSchedule | null
+  runs: BlogScheduleRun[]
+  upcoming: UpcomingBlogRun[]
+}
+
+/**
+ * SWR hook for a contact's recurring blog schedule, its past runs and the
+ * runs projected over the next `days`. Polls while a run is still queued.
+ */
+export function useBlogSchedule(contactId: string | undefined, days = 60) {
+  const { data, error, isLoading, mutate } = useSWR(
+    contactId ? `/api/onboarding/${contactId}/blogs/schedule?days=${days}` : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+      refreshInterval: (latest) => {
+        const runs = latest?.success ? (latest.data as BlogScheduleData).runs : []
+        return runs.some((run) => run.status === 'queued') ? POLL_INTERVAL_MS : 0
+      },
+    }
+  )
+
+  const result = data?.success ? (data.data as BlogScheduleData) : null
+
+  return {
+    schedule: result?.schedule ?? null,
+    runs: result?.runs ?? [],
+    upcoming: result?.upcoming ?? [],
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+    refetch: mutate,
+  }
+}
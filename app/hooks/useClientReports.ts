@@ -0,0 +1,22 @@
+import useSWR from 'swr'
+import type { ClientReport } from '@/app/types/reports'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+/**
+ * SWR hook for a contact's archived monthly reports, newest month first.
+ */
+export function useClientReports(contactId: string | undefined) {
+  const { data, error, isLoading, mutate } = useSWR(
+    contactId ? `/api/onboarding/${contactId}/reports` : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
+
+  return {
+    reports: data?.success ? (data.data as ClientReport[]) : [],
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+    refetch: mutate,
+  }
+}
@@ -0,0 +1,22 @@
+import useSWR from 'swr'
+import type { ContentDraft, JobService } from '@/app/types/onboarding'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+/**
+ * SWR hook for the generated drafts of a service (newest first)
+ */
+export function useContentDrafts(contactId: string | undefined, service: JobService) {
+  const { data, error, isLoading, mutate } = useSWR(
+    contactId ? `/api/onboarding/${contactId}/drafts?service=${service}` : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
+
+  return {
+    drafts: data?.success ? (data.data as ContentDraft[]) : [],
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+    refetch: mutate,
+  }
+}
@@ -0,0 +1,25 @@
+import useSWR from 'swr'
+import type { FoursquareDriftCheck, FoursquareProposedEdit } from '@/app/types/onboarding'
+import { CACHE_KEYS } from '@/lib/cache/invalidate'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+/**
+ * SWR hook for a contact's Foursquare drift checks (newest first) and the
+ * edits proposed to its venue.
+ */
+export function useFoursquareDrift(contactId: string | null, enabled = true) {
+  const { data, error, isLoading, mutate } = useSWR(
+    contactId && enabled ? CACHE_KEYS.FOURSQUARE_DRIFT(contactId) : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
+
+  return {
+    checks: data?.success ? (data.data.checks as FoursquareDriftCheck[]) : [],
+    edits: data?.success ? (data.data.edits as FoursquareProposedEdit[]) : [],
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+    refetch: mutate,
+  }
+}
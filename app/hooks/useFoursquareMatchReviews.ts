@@ -0,0 +1,26 @@
+import useSWR from 'swr'
+import type { FoursquareMatchReview } from '@/app/types/onboarding'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+/**
+ * SWR hook for pending Foursquare match reviews, newest first.
+ * Pass a contactId for just that contact's review.
+ */
+export function useFoursquareMatchReviews(contactId?: string, enabled = true) {
+  const params = new URLSearchParams({ status: 'pending' })
+  if (contactId) params.set('contactId', contactId)
+
+  const { data, error, isLoading, mutate } = useSWR(
+    enabled ? `/api/onboarding/foursquare/reviews?${params}` : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
+
+  return {
+    reviews: data?.success ? (data.data as FoursquareMatchReview[]) : [],
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+    refetch: mutate,
+  }
+}
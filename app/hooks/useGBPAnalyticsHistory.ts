@@ -0,0 +1,23 @@
+import useSWR from 'swr'
+import type { GBPAnalyticsHistory } from '@/app/types/gbp'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+/**
+ * SWR hook for a location's stored analytics: weekly series over the last
+ * `weeks` complete weeks, period-over-period deltas and keyword movers
+ */
+export function useGBPAnalyticsHistory(locationId: string | undefined, weeks = 26) {
+  const { data, error, isLoading, mutate } = useSWR(
+    locationId ? `/api/gbp/analytics/history?locationId=${locationId}&weeks=${weeks}` : null,
+    fetcher,
+    { revalidateOnFocus: false, keepPreviousData: true }
+  )
+
+  return {
+    history: data?.success ? (data.data as GBPAnalyticsHistory) : null,
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+    refetch: mutate,
+  }
+}
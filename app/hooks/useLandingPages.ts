@@ -0,0 +1,22 @@
+import useSWR from 'swr'
+import type { LandingPage } from '@/app/types/onboarding'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+/**
+ * SWR hook for a contact's landing page inventory (one row per city)
+ */
+export function useLandingPages(contactId: string | undefined) {
+  const { data, error, isLoading, mutate } = useSWR(
+    contactId ? `/api/onboarding/${contactId}/landing-pages` : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
+
+  return {
+    pages: data?.success ? (data.data as LandingPage[]) : [],
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+    refetch: mutate,
+  }
+}
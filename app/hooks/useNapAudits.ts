@@ -0,0 +1,26 @@
+import useSWR from 'swr'
+import type { NapAudit } from '@/app/types/nap'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+/**
+ * SWR hook for a contact's NAP consistency audits, newest first.
+ * The first entry is the latest run.
+ */
+export function useNapAudits(contactId: string | undefined) {
+  const { data, error, isLoading, mutate } = useSWR(
+    contactId ? `/api/onboarding/${contactId}/nap` : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
+
+  const audits = data?.success ? (data.data as NapAudit[]) : []
+
+  return {
+    audits,
+    latest: audits[0] ?? null,
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+    refetch: mutate,
+  }
+}
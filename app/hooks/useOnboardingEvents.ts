@@ -0,0 +1,24 @@
+import useSWR from 'swr'
+import type { OnboardingEvent, ServiceType } from '@/app/types/onboarding'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+/**
+ * SWR hook for a contact's onboarding audit trail, newest first.
+ * Pass a service to narrow the timeline to one service.
+ */
+export function useOnboardingEvents(contactId: string | undefined, service?: ServiceType) {
+  const query = service ? `?service=${service}` : ''
+  const { data, error, isLoading, mutate } = useSWR(
+    contactId ? `/api/onboarding/${contactId}/events${query}` : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
+
+  return {
+    events: data?.success ? (data.data as OnboardingEvent[]) : [],
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+    refetch: mutate,
+  }
+}
@@ -0,0 +1,35 @@
+import useSWR from 'swr'
+import type { JobService, OnboardingJob } from '@/app/types/onboarding'
+import { ACTIVE_JOB_STATUSES } from '@/app/types/onboarding'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+const POLL_INTERVAL_MS = 3000
+
+/**
+ * SWR hook for the latest background job of a service.
+ * Polls while the job is queued or running, so progress survives a page refresh.
+ */
+export function useOnboardingJob(contactId: string | undefined, service: JobService) {
+  const { data, error, isLoading, mutate } = useSWR(
+    contactId ? `/api/onboarding/${contactId}/jobs?service=${service}&limit=1` : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+      refreshInterval: (latest) => {
+        const job = latest?.success ? (latest.data as OnboardingJob[])[0] : null
+        return job && ACTIVE_JOB_STATUSES.includes(job.status) ? POLL_INTERVAL_MS : 0
+      },
+    }
+  )
+
+  const job = data?.success ? ((data.data as OnboardingJob[])[0] ?? null) : null
+
+  return {
+    job,
+    isActive: job ? ACTIVE_JOB_STATUSES.includes(job.status) : false,
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+    refetch: mutate,
+  }
+}
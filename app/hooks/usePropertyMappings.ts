@@ -0,0 +1,24 @@
+import useSWR from 'swr'
+import type { PropertyMapping } from '@/lib/sync/property-mappings'
+import { CACHE_KEYS } from '@/lib/cache/invalidate'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+/**
+ * SWR hook for the HubSpot property mappings read by the contact syncs,
+ * ordered by target column.
+ */
+export function usePropertyMappings() {
+  const { data, error, isLoading, mutate } = useSWR(
+    CACHE_KEYS.PROPERTY_MAPPINGS,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
+
+  return {
+    mappings: data?.success ? (data.mappings as PropertyMapping[]) : [],
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+    refetch: mutate,
+  }
+}
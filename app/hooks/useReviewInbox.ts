@@ -0,0 +1,53 @@
+import useSWR from 'swr'
+import type { InboxReview, ReviewInboxFilterOptions, ReviewInboxFilters, ReviewInboxSort } from '@/app/types/reviews'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+function inboxUrl(filters: ReviewInboxFilters, sort: ReviewInboxSort, page: number) {
+  const params = new URLSearchParams({ sort, page: String(page) })
+  if (filters.ratings?.length) params.set('rating', filters.ratings.join(','))
+  if (filters.minAgeHours != null) params.set('min_age_hours', String(filters.minAgeHours))
+  if (filters.maxAgeHours != null) params.set('max_age_hours', String(filters.maxAgeHours))
+  if (filters.clientId) params.set('client_id', filters.clientId)
+  if (filters.accountManagerId) params.set('account_manager_id', filters.accountManagerId)
+  if (filters.slaBreachedOnly) params.set('sla', 'breached')
+  return `/api/reviews/inbox?${params}`
+}
+
+/**
+ * SWR hook for the unanswered-review inbox across all client locations
+ */
+export function useReviewInbox(filters: ReviewInboxFilters, sort: ReviewInboxSort = 'oldest', page: number = 1) {
+  const { data, error, isLoading, mutate } = useSWR(
+    inboxUrl(filters, sort, page),
+    fetcher,
+    { revalidateOnFocus: false, keepPreviousData: true }
+  )
+
+  return {
+    reviews: data?.success ? (data.data as InboxReview[]) : [],
+    pagination: data?.success ? data.pagination : null,
+    slaBreached: data?.meta?.sla_breached ?? 0,
+    slaHours: data?.meta?.sla_hours ?? 24,
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+    refetch: mutate,
+  }
+}
+
+/**
+ * SWR hook for the inbox's client and account manager filter options
+ */
+export function useReviewInboxFilters() {
+  const { data, error, isLoading } = useSWR('/api/reviews/inbox/filters', fetcher, {
+    revalidateOnFocus: false,
+  })
+
+  const options: ReviewInboxFilterOptions = data?.success ? data.data : { clients: [], accountManagers: [] }
+  return {
+    clients: options.clients,
+    accountManagers: options.accountManagers,
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+  }
+}
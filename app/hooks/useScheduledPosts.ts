@@ -0,0 +1,49 @@
+import useSWR from 'swr'
+import type { ScheduledGBPPost, UpcomingScheduledPost } from '@/app/types/gbp'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+const POLL_INTERVAL_MS = 10_000
+
+interface ScheduledPostsData {
+  posts: ScheduledGBPPost[]
+  upcoming: UpcomingScheduledPost[]
+}
+
+/**
+ * SWR hook for a location's scheduled GBP posts in the calendar month
+ * starting at `month`, plus projected occurrences of recurring posts.
+ * Polls while a post is being published.
+ */
+export function useScheduledPosts(locationId: string | undefined, month: Date) {
+  const from = new Date(month.getFullYear(), month.getMonth(), 1)
+  const to = new Date(month.getFullYear(), month.getMonth() + 1, 1)
+  const params = new URLSearchParams({
+    location_id: locationId ?? '',
+    from: from.toISOString(),
+    to: to.toISOString(),
+  })
+
+  const { data, error, isLoading, mutate } = useSWR(
+    locationId ? `/api/gbp/scheduled-posts?${params}` : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+      keepPreviousData: true,
+      refreshInterval: (latest) => {
+        const posts = latest?.success ? (latest.data as ScheduledPostsData).posts : []
+        return posts.some((post) => post.status === 'publishing') ? POLL_INTERVAL_MS : 0
+      },
+    }
+  )
+
+  const result = data?.success ? (data.data as ScheduledPostsData) : null
+
+  return {
+    posts: result?.posts ?? [],
+    upcoming: result?.upcoming ?? [],
+    loading: isLoading,
+    error: error || (data && !data.success ? data.error : null),
+    refetch: mutate,
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Review Inbox Error Boundary
+ *
+ * Catches errors in the reviews route and displays recovery UI.
+ */
+
+'use client';
+
+import { MessageSquare } from 'lucide-react';
+import { RouteError } from '@/app/components/errors/RouteError';
+
+export default function ReviewsError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  return (
+    <RouteError
+      error={error}
+      reset={reset}
+      title="Review Inbox Error"
+      icon={<MessageSquare size={36} color="#3B82F6" />}
+      color="#3B82F6"
+    />
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * Review Inbox Loading Skeleton
+ *
+ * Shows instantly when navigating to /reviews while data loads.
+ */
+
+'use client'
+
+import { YStack, XStack } from 'tamagui'
+import { MessageSquare } from 'lucide-react'
+
+// Add keyframes for pulse animation
+const pulseKeyframes = `
+@keyframes pulse {
+  0%, 100% { opacity: 0.4; }
+  50% { opacity: 0.7; }
+}
+`
+
+// Skeleton box with pulse animation
+function SkeletonBox({
+  width,
+  height,
+  borderRadius = 8,
+}: {
+  width: number | string
+  height: number
+  borderRadius?: number
+}) {
+  return (
+    <YStack
+      width={width as number}
+      height={height}
+      borderRadius={borderRadius}
+      backgroundColor="rgba(59, 130, 246, 0.15)"
+      opacity={0.6}
+      // @ts-ignore - web animation
+      style={{ animation: 'pulse 1.5s ease-in-out infinite' }}
+    />
+  )
+}
+
+// Review card skeleton
+function ReviewSkeleton() {
+  return (
+    <YStack
+      padding="$4"
+      gap="$2"
+      borderRadius="$4"
+      borderWidth={1}
+      borderColor="$borderColor"
+    >
+      <XStack gap="$3" alignItems="center">
+        <SkeletonBox width={18} height={18} borderRadius={4} />
+        <SkeletonBox width={80} height={14} />
+        <SkeletonBox width={140} height={16} />
+        <SkeletonBox width={180} height={14} />
+      </XStack>
+      <SkeletonBox width="85%" height={14} />
+      <SkeletonBox width="60%" height={14} />
+    </YStack>
+  )
+}
+
+export default function ReviewsLoading() {
+  return (
+    <YStack width="100%" maxWidth="100%" gap="$5" padding="$6">
+      {/* Header Skeleton */}
+      <XStack alignItems="center" gap="$3">
+        <YStack
+          width={52}
+          height={52}
+          borderRadius="$4"
+          backgroundColor="rgba(59, 130, 246, 0.15)"
+          alignItems="center"
+          justifyContent="center"
+        >
+          <MessageSquare size={26} color="#3B82F6" opacity={0.5} />
+        </YStack>
+        <YStack gap="$2">
+          <SkeletonBox width={320} height={18} />
+          <SkeletonBox width={160} height={20} />
+        </YStack>
+      </XStack>
+
+      {/* Filters Skeleton */}
+      <XStack gap="$2">
+        {Array.from({ length: 6 }).map((_, idx) => (
+          <SkeletonBox key={idx} width={56} height={28} borderRadius={14} />
+        ))}
+      </XStack>
+      <XStack gap="$3">
+        {Array.from({ length: 4 }).map((_, idx) => (
+          <SkeletonBox key={idx} width={200} height={36} />
+        ))}
+      </XStack>
+
+      {/* Review List Skeleton */}
+      <YStack gap="$2">
+        {Array.from({ length: 6 }).map((_, idx) => (
+          <ReviewSkeleton key={idx} />
+        ))}
+      </YStack>
+
+      {/* Global pulse animation styles */}
+      <style dangerouslySetInnerHTML={{ __html: pulseKeyframes }} />
+    </YStack>
+  )
+}
@@ -0,0 +1,587 @@
+// @ts-nocheck
+'use client'
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { YStack, XStack, Text, Button, Select, Adapt, Sheet, Stack } from 'tamagui'
+import {
+  MessageSquare,
+  Star,
+  AlertTriangle,
+  CheckCheck,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Square,
+  SquareCheck,
+  Keyboard,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { useReviewInbox, useReviewInboxFilters } from '../hooks/useReviewInbox'
+import { Badge, EmptyState, ErrorState, LoadingState } from '../components/tamagui'
+import { ReviewReplyModal } from '../components/tamagui/ReviewReplyModal'
+import ClientOnly from '../components/ClientOnly'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const ALL = 'all'
+
+const STAR_RATINGS = ['ONE', 'TWO', 'THREE', 'FOUR', 'FIVE']
+
+/** Age buckets, as [minAgeHours, maxAgeHours] */
+const AGE_OPTIONS = [
+  { value: ALL, label: 'Any age', range: [undefined, undefined] },
+  { value: '24h', label: 'Last 24 hours', range: [undefined, 24] },
+  { value: '1-3d', label: '1-3 days', range: [24, 72] },
+  { value: '3-7d', label: '3-7 days', range: [72, 168] },
+  { value: '7d+', label: 'Older than 7 days', range: [168, undefined] },
+]
+
+const SORT_OPTIONS = [
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'newest', label: 'Newest first' },
+  { value: 'lowest', label: 'Lowest rating first' },
+]
+
+const SHORTCUTS = [
+  ['j / k', 'next / previous'],
+  ['x', 'select'],
+  ['r', 'reply'],
+  ['h', 'mark handled'],
+  ['⌘/Ctrl + Enter', 'send reply'],
+  ['Esc', 'cancel'],
+]
+
+function formatAge(hours: number | null): string {
+  if (hours === null) return 'Unknown age'
+  if (hours < 1) return 'Just now'
+  if (hours < 48) return `${hours}h ago`
+  return `${Math.floor(hours / 24)}d ago`
+}
+
+function isTyping(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null
+  return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable)
+}
+
+function FilterSelect({
+  value,
+  onChange,
+  options,
+  placeholder,
+}: {
+  value: string
+  onChange: (value: string) => void
+  options: Array<{ value: string; label: string }>
+  placeholder: string
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <Select.Trigger iconAfter={ChevronDown} width={200} size="$3">
+        <Select.Value placeholder={placeholder} />
+      </Select.Trigger>
+
+      <Adapt when="sm" platform="touch">
+        <Sheet modal dismissOnSnapToBottom>
+          <Sheet.Frame>
+            <Sheet.ScrollView>
+              <Adapt.Contents />
+            </Sheet.ScrollView>
+          </Sheet.Frame>
+          <Sheet.Overlay />
+        </Sheet>
+      </Adapt>
+
+      <Select.Content zIndex={200000}>
+        <Select.ScrollUpButton />
+        <Select.Viewport>
+          {options.map((option, index) => (
+            <Select.Item key={option.value} index={index} value={option.value}>
+              <Select.ItemText>{option.label}</Select.ItemText>
+            </Select.Item>
+          ))}
+        </Select.Viewport>
+        <Select.ScrollDownButton />
+      </Select.Content>
+    </Select>
+  )
+}
+
+function Chip({ active, onPress, children, color = '#3B82F6' }) {
+  return (
+    <Button
+      size="$2"
+      onPress={onPress}
+      backgroundColor={active ? color : 'transparent'}
+      borderWidth={1}
+      borderColor={active ? color : '$borderColor'}
+      borderRadius="$10"
+      paddingHorizontal="$3"
+      hoverStyle={{ borderColor: color }}
+    >
+      {children}
+    </Button>
+  )
+}
+
+function Stars({ rating }: { rating: number | null }) {
+  return (
+    <XStack gap={2}>
+      {[1, 2, 3, 4, 5].map((n) => (
+        <Star
+          key={n}
+          size={14}
+          color="#F59E0B"
+          fill={rating !== null && n <= rating ? '#F59E0B' : 'transparent'}
+        />
+      ))}
+    </XStack>
+  )
+}
+
+/**
+ * Review Inbox Page
+ *
+ * Unanswered Google reviews across every client location in one queue.
+ * Filter by rating, age, client and account manager; reply (starting from
+ * a suggested draft) or mark reviews handled in bulk. Keyboard: j/k move,
+ * x selects, r replies, h marks the selection (or the focused review)
+ * handled.
+ */
+export default function ReviewInboxPage() {
+  const [ratings, setRatings] = useState<number[]>([])
+  const [age, setAge] = useState(ALL)
+  const [clientId, setClientId] = useState(ALL)
+  const [managerId, setManagerId] = useState(ALL)
+  const [slaOnly, setSlaOnly] = useState(false)
+  const [sort, setSort] = useState('oldest')
+  const [page, setPage] = useState(1)
+
+  const [focusIndex, setFocusIndex] = useState(0)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [replyingId, setReplyingId] = useState<string | null>(null)
+  const [marking, setMarking] = useState(false)
+  const rowRefs = useRef<Record<string, HTMLElement | null>>({})
+
+  const filters = useMemo(() => {
+    const [minAgeHours, maxAgeHours] = AGE_OPTIONS.find((o) => o.value === age)?.range ?? []
+    return {
+      ratings,
+      minAgeHours,
+      maxAgeHours,
+      clientId: clientId === ALL ? undefined : clientId,
+      accountManagerId: managerId === ALL ? undefined : managerId,
+      slaBreachedOnly: slaOnly,
+    }
+  }, [ratings, age, clientId, managerId, slaOnly])
+
+  const { reviews, pagination, slaBreached, slaHours, loading, error, refetch } = useReviewInbox(filters, sort, page)
+  const { clients, accountManagers } = useReviewInboxFilters()
+
+  // New filters start from the top of the queue
+  useEffect(() => {
+    setPage(1)
+    setSelectedIds(new Set())
+  }, [filters, sort])
+
+  useEffect(() => {
+    setFocusIndex(0)
+  }, [page])
+
+  useEffect(() => {
+    setFocusIndex((i) => Math.min(i, Math.max(0, reviews.length - 1)))
+  }, [reviews.length])
+
+  const focused = reviews[focusIndex]
+
+  const replyingReview = useMemo(() => {
+    const review = reviews.find((r) => r.id === replyingId)
+    if (!review) return null
+    return {
+      reviewId: review.id,
+      reviewer: {
+        displayName: review.reviewer_display_name,
+        profilePhotoUrl: review.reviewer_profile_photo_url,
+      },
+      starRating: STAR_RATINGS[(review.star_rating ?? 0) - 1],
+      comment: review.comment,
+      createTime: review.create_time,
+    }
+  }, [reviews, replyingId])
+
+  useEffect(() => {
+    if (focused) rowRefs.current[focused.id]?.scrollIntoView?.({ block: 'nearest' })
+  }, [focused])
+
+  const toggleRating = (rating: number) => {
+    setRatings((prev) => (prev.includes(rating) ? prev.filter((r) => r !== rating) : [...prev, rating].sort()))
+  }
+
+  const toggleSelected = useCallback((id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }, [])
+
+  const startReply = useCallback((id: string) => {
+    setReplyingId(id)
+  }, [])
+
+  const markHandled = useCallback(async (ids: string[]) => {
+    if (ids.length === 0 || marking) return
+    if (ids.length > 1 && !confirm(`Mark ${ids.length} reviews handled without replying?`)) return
+
+    setMarking(true)
+    try {
+      const response = await fetch('/api/reviews/inbox/handled', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ review_ids: ids }),
+      })
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error)
+
+      toast.success(`Marked ${result.data.review_ids.length} review${result.data.review_ids.length === 1 ? '' : 's'} handled`)
+      setSelectedIds(new Set())
+      await refetch()
+    } catch (err) {
+      toast.error(`Failed to mark handled: ${err.message}`)
+    } finally {
+      setMarking(false)
+    }
+  }, [marking, refetch])
+
+  // Suggested reply for the modal - never posted until the user sends it
+  const getDraft = useCallback(async (reviewId: string) => {
+    const response = await fetch(`/api/reviews/${reviewId}/draft`, { method: 'POST' })
+    const result = await response.json()
+    if (!result.success) throw new Error(result.error)
+    return result.data
+  }, [])
+
+  const sendReply = useCallback(async (reviewId: string, comment: string) => {
+    const response = await fetch(`/api/reviews/${reviewId}/reply`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ comment }),
+    })
+    const result = await response.json()
+    if (!result.success) throw new Error(result.error)
+
+    toast.success('Reply posted')
+    await refetch()
+  }, [refetch])
+
+  // Keyboard-driven triage
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // The reply modal handles its own keys (Esc, Cmd/Ctrl + Enter)
+      if (replyingId) return
+      if (isTyping(e.target) || e.metaKey || e.ctrlKey || e.altKey) return
+
+      switch (e.key) {
+        case 'j':
+        case 'ArrowDown':
+          e.preventDefault()
+          setFocusIndex((i) => Math.min(i + 1, reviews.length - 1))
+          break
+        case 'k':
+        case 'ArrowUp':
+          e.preventDefault()
+          setFocusIndex((i) => Math.max(i - 1, 0))
+          break
+        case 'x':
+          if (focused) toggleSelected(focused.id)
+          break
+        case 'r':
+          if (focused) {
+            e.preventDefault()
+            startReply(focused.id)
+          }
+          break
+        case 'h':
+          markHandled(selectedIds.size > 0 ? [...selectedIds] : focused ? [focused.id] : [])
+          break
+        case 'Escape':
+          setSelectedIds(new Set())
+          break
+      }
+    }
+
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [replyingId, reviews.length, focused, selectedIds, toggleSelected, startReply, markHandled])
+
+  if (loading && reviews.length === 0) {
+    return (
+      <ClientOnly>
+        <YStack flex={1} justifyContent="center" alignItems="center" minHeight="80vh">
+          <LoadingState title="Loading reviews..." description="Fetching unanswered reviews" />
+        </YStack>
+      </ClientOnly>
+    )
+  }
+
+  if (error) {
+    return (
+      <ClientOnly>
+        <YStack flex={1} justifyContent="center" alignItems="center" minHeight="80vh">
+          <ErrorState error={error} title="Failed to load review inbox" onRetry={() => refetch()} />
+        </YStack>
+      </ClientOnly>
+    )
+  }
+
+  const total = pagination?.total ?? 0
+  const totalPages = pagination?.totalPages ?? 1
+  const hasFilters = ratings.length > 0 || age !== ALL || clientId !== ALL || managerId !== ALL || slaOnly
+
+  const clearFilters = () => {
+    setRatings([])
+    setAge(ALL)
+    setClientId(ALL)
+    setManagerId(ALL)
+    setSlaOnly(false)
+  }
+
+  return (
+    <ClientOnly>
+      <YStack
+        width="100%"
+        maxWidth="100%"
+        space="$5"
+        padding="$6"
+        $sm={{ padding: '$4', space: '$4' }}
+        $gtLg={{ padding: '$7', space: '$6' }}
+      >
+        {/* Header */}
+        <XStack justifyContent="space-between" alignItems="center" flexWrap="wrap" gap="$4">
+          <XStack alignItems="center" gap="$3">
+            <YStack
+              width={52}
+              height={52}
+              borderRadius="$4"
+              backgroundColor="rgba(59, 130, 246, 0.15)"
+              alignItems="center"
+              justifyContent="center"
+            >
+              <MessageSquare size={26} color="#3B82F6" />
+            </YStack>
+            <YStack>
+              <Text fontSize="$4" color="$color" opacity={0.7}>
+                Unanswered Google reviews across every client location
+              </Text>
+              <XStack gap="$2" marginTop="$1">
+                <Badge variant="info">{total} unanswered</Badge>
+                {slaBreached > 0 && (
+                  <Badge variant="error">
+                    {slaBreached} past {slaHours}h SLA
+                  </Badge>
+                )}
+              </XStack>
+            </YStack>
+          </XStack>
+        </XStack>
+
+        {/* Filters */}
+        <YStack gap="$3">
+          <XStack gap="$2" alignItems="center" flexWrap="wrap">
+            {[1, 2, 3, 4, 5].map((rating) => (
+              <Chip key={rating} active={ratings.includes(rating)} onPress={() => toggleRating(rating)} color="#F59E0B">
+                <XStack gap="$1" alignItems="center">
+                  <Text fontSize="$2" fontWeight="600" color={ratings.includes(rating) ? 'white' : '$color'}>
+                    {rating}
+                  </Text>
+                  <Star size={12} color={ratings.includes(rating) ? 'white' : '#F59E0B'} fill="currentColor" />
+                </XStack>
+              </Chip>
+            ))}
+            <Chip active={slaOnly} onPress={() => setSlaOnly(!slaOnly)} color="#EF4444">
+              <XStack gap="$1" alignItems="center">
+                <AlertTriangle size={12} color={slaOnly ? 'white' : '#EF4444'} />
+                <Text fontSize="$2" fontWeight="600" color={slaOnly ? 'white' : '$color'}>
+                  SLA breaches
+                </Text>
+              </XStack>
+            </Chip>
+            {hasFilters && (
+              <Text fontSize="$3" color="$color" opacity={0.5} cursor="pointer" onPress={clearFilters} hoverStyle={{ opacity: 0.8 }}>
+                Clear filters
+              </Text>
+            )}
+          </XStack>
+          <XStack gap="$3" flexWrap="wrap">
+            <FilterSelect value={age} onChange={setAge} options={AGE_OPTIONS} placeholder="Any age" />
+            <FilterSelect
+              value={clientId}
+              onChange={setClientId}
+              options={[{ value: ALL, label: 'All clients' }, ...clients.map((c) => ({ value: c.id, label: `${c.label} (${c.count})` }))]}
+              placeholder="All clients"
+            />
+            <FilterSelect
+              value={managerId}
+              onChange={setManagerId}
+              options={[{ value: ALL, label: 'All account managers' }, ...accountManagers.map((m) => ({ value: m.id, label: `${m.label} (${m.count})` }))]}
+              placeholder="All account managers"
+            />
+            <FilterSelect value={sort} onChange={setSort} options={SORT_OPTIONS} placeholder="Oldest first" />
+          </XStack>
+        </YStack>
+
+        {/* Selection bar + shortcuts */}
+        <XStack justifyContent="space-between" alignItems="center" flexWrap="wrap" gap="$3">
+          <XStack gap="$2" alignItems="center" opacity={0.6} flexWrap="wrap">
+            <Keyboard size={14} />
+            {SHORTCUTS.map(([key, label]) => (
+              <Text key={key} fontSize="$2" color="$color">
+                <Text fontWeight="700">{key}</Text> {label}
+              </Text>
+            ))}
+          </XStack>
+          {selectedIds.size > 0 && (
+            <XStack alignItems="center" gap="$3">
+              <Text color="$color" fontSize="$3" fontWeight="600">
+                {selectedIds.size} selected
+              </Text>
+              <Text fontSize="$3" color="$color" opacity={0.5} cursor="pointer" onPress={() => setSelectedIds(new Set())} hoverStyle={{ opacity: 0.8 }}>
+                Clear
+              </Text>
+              <Button
+                size="$3"
+                onPress={() => markHandled([...selectedIds])}
+                disabled={marking}
+                backgroundColor="#3B82F6"
+                borderRadius="$3"
+                icon={<CheckCheck size={16} color="white" />}
+                hoverStyle={{ backgroundColor: '#2563EB' }}
+              >
+                <Text color="white" fontWeight="600" fontSize="$3">
+                  Mark handled
+                </Text>
+              </Button>
+            </XStack>
+          )}
+        </XStack>
+
+        {/* Review list */}
+        {reviews.length === 0 ? (
+          <EmptyState
+            title={hasFilters ? 'No matching reviews' : 'Inbox zero'}
+            description={hasFilters ? 'No unanswered reviews match these filters.' : 'Every review has a reply or has been handled.'}
+            action={hasFilters ? { label: 'Clear Filters', onClick: clearFilters } : undefined}
+          />
+        ) : (
+          <YStack gap="$2">
+            {reviews.map((review, index) => {
+              const isFocused = index === focusIndex
+              const isSelected = selectedIds.has(review.id)
+
+              return (
+                <YStack
+                  key={review.id}
+                  ref={(el) => { rowRefs.current[review.id] = el }}
+                  padding="$4"
+                  gap="$2"
+                  borderRadius="$4"
+                  borderWidth={1}
+                  borderColor={isFocused ? '#3B82F6' : review.sla_breached ? 'rgba(239, 68, 68, 0.4)' : '$borderColor'}
+                  backgroundColor={isSelected ? 'rgba(59, 130, 246, 0.08)' : '$background'}
+                  onPress={() => setFocusIndex(index)}
+                  cursor="pointer"
+                >
+                  <XStack gap="$3" alignItems="center" flexWrap="wrap">
+                    <Stack
+                      role="checkbox"
+                      aria-checked={isSelected}
+                      onPress={(e) => {
+                        e.stopPropagation()
+                        toggleSelected(review.id)
+                      }}
+                      hoverStyle={{ opacity: 0.8 }}
+                    >
+                      {isSelected
+                        ? <SquareCheck size={18} color="#3B82F6" />
+                        : <Square size={18} color="currentColor" opacity={0.5} />}
+                    </Stack>
+                    <Stars rating={review.star_rating} />
+                    <Text fontWeight="600" color="$color">
+                      {review.reviewer_display_name || 'Anonymous'}
+                    </Text>
+                    <Text fontSize="$2" color="$color" opacity={0.6}>
+                      {review.client_name || 'Unassigned client'}
+                      {review.location_title && review.location_title !== review.client_name ? ` · ${review.location_title}` : ''}
+                    </Text>
+                    <Text fontSize="$2" color="$color" opacity={0.6}>
+                      {formatAge(review.age_hours)}
+                    </Text>
+                    {review.sla_breached && (
+                      <Badge variant="error">
+                        <XStack gap="$1" alignItems="center">
+                          <AlertTriangle size={12} color="#EF4444" />
+                          <Text fontSize="$1" color="#EF4444" fontWeight="600">SLA breach</Text>
+                        </XStack>
+                      </Badge>
+                    )}
+                    <XStack flex={1} />
+                    <XStack gap="$2">
+                      <Button size="$2" onPress={() => startReply(review.id)}>
+                        Reply
+                      </Button>
+                      <Button size="$2" chromeless onPress={() => markHandled([review.id])} disabled={marking}>
+                        Mark handled
+                      </Button>
+                    </XStack>
+                  </XStack>
+
+                  <Text color="$color" opacity={review.comment ? 0.9 : 0.5} fontStyle={review.comment ? 'normal' : 'italic'}>
+                    {review.comment || 'No written review'}
+                  </Text>
+
+                </YStack>
+              )
+            })}
+          </YStack>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <XStack justifyContent="center" alignItems="center" gap="$3" paddingVertical="$4">
+            <Button
+              size="$3"
+              onPress={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page <= 1}
+              opacity={page <= 1 ? 0.5 : 1}
+              icon={<ChevronLeft size={16} />}
+            >
+              Previous
+            </Button>
+            <Text color="$color" fontWeight="600">
+              Page {page} of {totalPages}
+            </Text>
+            <Button
+              size="$3"
+              onPress={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={page >= totalPages}
+              opacity={page >= totalPages ? 0.5 : 1}
+              iconAfter={<ChevronRight size={16} />}
+            >
+              Next
+            </Button>
+          </XStack>
+        )}
+
+        {/* Reply (pre-filled with a suggested draft) */}
+        <ReviewReplyModal
+          open={!!replyingReview}
+          onOpenChange={(open) => !open && setReplyingId(null)}
+          review={replyingReview}
+          onSubmit={sendReply}
+          getDraft={getDraft}
+        />
+      </YStack>
+    </ClientOnly>
+  )
+}
@@ -0,0 +1,311 @@
+// @ts-nocheck
+/**
+ * HubSpot Property Mapping Page
+ *
+ * Edit which HubSpot contact properties the contact syncs pull and where
+ * they land in Supabase:
+ * - Target column, or a key inside a JSONB column (locations.location_1)
+ * - Type coercion (label resolves lifecycle stage IDs to names)
+ * - Conflict winner (HubSpot overwrites, or Supabase keeps its value)
+ * - Which syncs use the mapping (all contacts, customers)
+ *
+ * Changes apply from the next sync run.
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { YStack, XStack, Text, Card, Button, Input, Spinner, Separator } from 'tamagui';
+import { ArrowLeft, ArrowRightLeft, Plus, Save, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import ClientOnly from '../../components/ClientOnly';
+import { usePropertyMappings } from '@/app/hooks/usePropertyMappings';
+
+const COERCIONS = ['string', 'integer', 'number', 'boolean', 'timestamp', 'label'];
+
+const WINNERS = [
+  { value: 'hubspot', label: 'HubSpot wins' },
+  { value: 'supabase', label: 'Supabase wins' },
+];
+
+const SCOPES = [
+  { value: 'all_contacts', label: 'All contacts' },
+  { value: 'customer', label: 'Customers' },
+];
+
+const EMPTY_FORM = {
+  id: undefined,
+  hubspot_property: '',
+  target_column: '',
+  json_path: '',
+  coercion: 'string',
+  conflict_winner: 'hubspot',
+  sync_scopes: ['all_contacts', 'customer'],
+  enabled: true,
+  notes: '',
+};
+
+function Chip({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+  return (
+    <Button
+      size="$2"
+      backgroundColor={active ? '$zingBlue' : 'transparent'}
+      borderWidth={1}
+      borderColor={active ? '$zingBlue' : '$borderColor'}
+      borderRadius="$3"
+      onPress={onPress}
+    >
+      <Text fontSize={12} fontWeight="600" color={active ? 'white' : '$color'}>{label}</Text>
+    </Button>
+  );
+}
+
+function Badge({ label, color }: { label: string; color: string }) {
+  return (
+    <XStack backgroundColor={`${color}20`} paddingHorizontal="$1.5" paddingVertical="$0.5" borderRadius="$2">
+      <Text fontSize={10} fontWeight="700" color={color} textTransform="uppercase">{label}</Text>
+    </XStack>
+  );
+}
+
+export default function HubSpotMappingPage() {
+  const router = useRouter();
+  const { mappings, loading, error, refetch } = usePropertyMappings();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [filter, setFilter] = useState('');
+
+  const visible = useMemo(() => {
+    const q = filter.trim().toLowerCase();
+    if (!q) return mappings;
+    return mappings.filter((m) =>
+      m.hubspot_property.includes(q) || m.target_column.includes(q) || (m.json_path || '').includes(q)
+    );
+  }, [mappings, filter]);
+
+  const update = (patch) => setForm((f) => ({ ...f, ...patch }));
+
+  const toggleScope = (scope: string) => {
+    const scopes = form.sync_scopes.includes(scope)
+      ? form.sync_scopes.filter((s) => s !== scope)
+      : [...form.sync_scopes, scope];
+    update({ sync_scopes: scopes });
+  };
+
+  const save = async (mapping = form) => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/property-mappings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...mapping, json_path: mapping.json_path || null }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error || 'Failed to save mapping');
+      toast.success(`Saved ${data.mapping.hubspot_property} → ${data.mapping.target_column}`);
+      setForm(EMPTY_FORM);
+      await refetch();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to save mapping');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (id: string) => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/property-mappings?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error || 'Failed to delete mapping');
+      toast.success('Mapping deleted');
+      if (form.id === id) setForm(EMPTY_FORM);
+      await refetch();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to delete mapping');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ClientOnly>
+      <YStack
+        width="100%"
+        maxWidth={1200}
+        marginHorizontal="auto"
+        gap="$6"
+        padding="$6"
+        $sm={{ padding: '$4', gap: '$5' }}
+        $md={{ padding: '$5', gap: '$5' }}
+      >
+        {/* Header */}
+        <XStack alignItems="center" gap="$3">
+          <Button
+            size="$3"
+            circular
+            backgroundColor="transparent"
+            onPress={() => router.push('/settings')}
+            icon={<ArrowLeft size={18} color="#6B7280" />}
+          />
+          <YStack
+            width={52}
+            height={52}
+            borderRadius="$4"
+            backgroundColor="rgba(59, 130, 246, 0.15)"
+            alignItems="center"
+            justifyContent="center"
+          >
+            <ArrowRightLeft size={26} color="#3B82F6" />
+          </YStack>
+          <YStack flex={1}>
+            <Text fontSize="$6" fontWeight="800" color="$color">HubSpot Property Mapping</Text>
+            <Text fontSize="$4" color="$color" opacity={0.7} $sm={{ fontSize: '$3' }}>
+              Which HubSpot contact properties the syncs pull and where they are stored. Changes apply from the next sync.
+            </Text>
+          </YStack>
+        </XStack>
+
+        {/* Editor */}
+        <Card backgroundColor="$background" borderColor="$borderColor" borderWidth={1} borderRadius="$5" padding="$5">
+          <YStack gap="$4">
+            <XStack justifyContent="space-between" alignItems="center">
+              <Text fontSize={15} fontWeight="600" color="$color">
+                {form.id ? `Edit ${form.hubspot_property}` : 'New mapping'}
+              </Text>
+              {form.id && (
+                <Button size="$2" backgroundColor="transparent" onPress={() => setForm(EMPTY_FORM)} icon={<X size={14} color="currentColor" />}>
+                  <Text fontSize={12} color="$color">Cancel</Text>
+                </Button>
+              )}
+            </XStack>
+
+            <XStack gap="$3" flexWrap="wrap">
+              <YStack gap="$1" flex={1} minWidth={200}>
+                <Text fontSize={12} fontWeight="600" color="$color" opacity={0.7}>HubSpot property</Text>
+                <Input size="$3" placeholder="business_type" value={form.hubspot_property} onChangeText={(v) => update({ hubspot_property: v })} />
+              </YStack>
+              <YStack gap="$1" flex={1} minWidth={200}>
+                <Text fontSize={12} fontWeight="600" color="$color" opacity={0.7}>Supabase column</Text>
+                <Input size="$3" placeholder="business_type" value={form.target_column} onChangeText={(v) => update({ target_column: v })} />
+              </YStack>
+              <YStack gap="$1" flex={1} minWidth={160}>
+                <Text fontSize={12} fontWeight="600" color="$color" opacity={0.7}>JSONB key (optional)</Text>
+                <Input size="$3" placeholder="location_1" value={form.json_path || ''} onChangeText={(v) => update({ json_path: v })} />
+              </YStack>
+            </XStack>
+
+            <YStack gap="$2">
+              <Text fontSize={12} fontWeight="600" color="$color" opacity={0.7}>Type</Text>
+              <XStack gap="$2" flexWrap="wrap">
+                {COERCIONS.map((c) => (
+                  <Chip key={c} label={c} active={form.coercion === c} onPress={() => update({ coercion: c })} />
+                ))}
+              </XStack>
+            </YStack>
+
+            <XStack gap="$6" flexWrap="wrap">
+              <YStack gap="$2">
+                <Text fontSize={12} fontWeight="600" color="$color" opacity={0.7}>On conflict</Text>
+                <XStack gap="$2">
+                  {WINNERS.map((w) => (
+                    <Chip key={w.value} label={w.label} active={form.conflict_winner === w.value} onPress={() => update({ conflict_winner: w.value })} />
+                  ))}
+                </XStack>
+              </YStack>
+              <YStack gap="$2">
+                <Text fontSize={12} fontWeight="600" color="$color" opacity={0.7}>Used by</Text>
+                <XStack gap="$2">
+                  {SCOPES.map((s) => (
+                    <Chip key={s.value} label={s.label} active={form.sync_scopes.includes(s.value)} onPress={() => toggleScope(s.value)} />
+                  ))}
+                </XStack>
+              </YStack>
+              <YStack gap="$2">
+                <Text fontSize={12} fontWeight="600" color="$color" opacity={0.7}>Status</Text>
+                <Chip label={form.enabled ? 'Enabled' : 'Disabled'} active={form.enabled} onPress={() => update({ enabled: !form.enabled })} />
+              </YStack>
+            </XStack>
+
+            <Text fontSize={12} color="$color" opacity={0.5}>
+              HubSpot wins: any non-blank HubSpot value overwrites. Supabase wins: HubSpot only fills a blank value. A blank HubSpot value never erases data.
+            </Text>
+
+            <XStack>
+              <Button
+                size="$3"
+                backgroundColor="$zingBlue"
+                borderRadius="$4"
+                disabled={saving || !form.hubspot_property || !form.target_column || form.sync_scopes.length === 0}
+                onPress={() => save()}
+                icon={saving ? <Spinner size="small" color="white" /> : form.id ? <Save size={16} color="white" /> : <Plus size={16} color="white" />}
+              >
+                <Text color="white" fontWeight="700">{form.id ? 'Save mapping' : 'Add mapping'}</Text>
+              </Button>
+            </XStack>
+          </YStack>
+        </Card>
+
+        {/* Mappings */}
+        <YStack gap="$3">
+          <XStack justifyContent="space-between" alignItems="center" gap="$3" flexWrap="wrap">
+            <Text fontSize="$5" fontWeight="800" color="$color">
+              Mappings {mappings.length > 0 && <Text opacity={0.5}>({mappings.filter((m) => m.enabled).length} enabled)</Text>}
+            </Text>
+            <Input size="$3" width={240} placeholder="Filter by property or column" value={filter} onChangeText={setFilter} />
+          </XStack>
+
+          {loading ? (
+            <YStack alignItems="center" paddingVertical="$5">
+              <Spinner size="large" color="$color" />
+            </YStack>
+          ) : error ? (
+            <Text fontSize={13} color="#EF4444">{String(error)}</Text>
+          ) : visible.length === 0 ? (
+            <Text fontSize={13} color="$color" opacity={0.6}>No mappings match.</Text>
+          ) : (
+            <Card backgroundColor="$background" borderColor="$borderColor" borderWidth={1} borderRadius="$5" padding="$3">
+              {visible.map((m, i) => (
+                <YStack key={m.id}>
+                  {i > 0 && <Separator borderColor="rgba(107, 114, 128, 0.15)" />}
+                  <XStack
+                    alignItems="center"
+                    gap="$3"
+                    paddingVertical="$2"
+                    paddingHorizontal="$2"
+                    opacity={m.enabled ? 1 : 0.5}
+                    cursor="pointer"
+                    hoverStyle={{ backgroundColor: 'rgba(59, 130, 246, 0.05)' }}
+                    onPress={() => setForm({ ...EMPTY_FORM, ...m, json_path: m.json_path || '', notes: m.notes || '' })}
+                  >
+                    <Text fontSize={13} fontWeight="600" color="$color" width={220} numberOfLines={1}>{m.hubspot_property}</Text>
+                    <Text fontSize={13} color="$color" opacity={0.7} flex={1} numberOfLines={1}>
+                      → {m.target_column}{m.json_path ? `.${m.json_path}` : ''}
+                    </Text>
+                    <Badge label={m.coercion} color="#6B7280" />
+                    <Badge label={m.conflict_winner === 'hubspot' ? 'HubSpot wins' : 'Supabase wins'} color={m.conflict_winner === 'hubspot' ? '#F97316' : '#10B981'} />
+                    {m.sync_scopes.map((s) => (
+                      <Badge key={s} label={s === 'all_contacts' ? 'All' : 'Customers'} color="#3B82F6" />
+                    ))}
+                    <Button
+                      size="$2"
+                      circular
+                      backgroundColor="transparent"
+                      disabled={saving}
+                      onPress={(e) => {
+                        e.stopPropagation();
+                        remove(m.id);
+                      }}
+                      icon={<Trash2 size={14} color="#EF4444" />}
+                    />
+                  </XStack>
+                </YStack>
+              ))}
+            </Card>
+          )}
+        </YStack>
+      </YStack>
+    </ClientOnly>
+  );
+}
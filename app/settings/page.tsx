@@ -4,6 +4,7 @@
  *
  * Professional settings page with:
  * - Service status monitoring (HubSpot, Supabase)
+ * - Link to the HubSpot property mapping editor
  * - Google Business Profile connection via ZingManagerConnect
  */
 
@@ -22,6 +23,8 @@ import {
   Database,
   Globe,
   Zap,
+  ArrowRightLeft,
+  ChevronRight,
 } from 'lucide-react';
 import ClientOnly from '../components/ClientOnly';
 import ZingManagerConnect from '../components/ZingManagerConnect';
@@ -277,6 +280,41 @@ export default function SettingsPage() {
           </XStack>
         </YStack>
 
+        {/* HubSpot Property Mapping */}
+        <Card
+          backgroundColor="$background"
+          borderRadius="$5"
+          borderWidth={2}
+          borderColor="rgba(59, 130, 246, 0.2)"
+          padding="$5"
+          cursor="pointer"
+          hoverStyle={{ borderColor: 'rgba(59, 130, 246, 0.4)' }}
+          onPress={() => router.push('/settings/hubspot-mapping')}
+          $sm={{ padding: '$4' }}
+        >
+          <XStack alignItems="center" gap="$3">
+            <YStack
+              width={52}
+              height={52}
+              borderRadius="$4"
+              backgroundColor="rgba(59, 130, 246, 0.15)"
+              justifyContent="center"
+              alignItems="center"
+            >
+              <ArrowRightLeft size={26} color="#3B82F6" strokeWidth={2} />
+            </YStack>
+            <YStack flex={1}>
+              <Text fontSize="$6" fontWeight="800" color="$color" $sm={{ fontSize: '$5' }}>
+                HubSpot Property Mapping
+              </Text>
+              <Text fontSize="$4" color="$color" opacity={0.6} $sm={{ fontSize: '$3' }}>
+                Choose which HubSpot contact properties are synced, where they are stored and which side wins
+              </Text>
+            </YStack>
+            <ChevronRight size={22} color="#6B7280" />
+          </XStack>
+        </Card>
+
         <Separator borderColor="rgba(107, 114, 128, 0.2)" />
 
         {/* Google Business Profile Section */}
@@ -108,6 +108,7 @@ export const ApiErrorCodes = {
   // Business logic errors
   DUPLICATE_ENTRY: 'DUPLICATE_ENTRY',
   INVALID_STATE: 'INVALID_STATE',
+  INVALID_TRANSITION: 'INVALID_TRANSITION',
   SYNC_FAILED: 'SYNC_FAILED',
 } as const;
 
@@ -212,6 +213,7 @@ export function getHttpStatusFromCode(code?: ApiErrorCode): number {
     EXTERNAL_API_ERROR: 502,
     DUPLICATE_ENTRY: 409,
     INVALID_STATE: 409,
+    INVALID_TRANSITION: 409,
     SYNC_FAILED: 500,
   };
 
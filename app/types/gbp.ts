@@ -201,6 +201,80 @@ export interface GBPLocalPostsResponse {
   nextPageToken?: string;
 }
 
+// =============================================================================
+// SCHEDULED POSTS (scheduled_gbp_posts)
+// =============================================================================
+
+export type ScheduledPostTopicType = 'STANDARD' | 'EVENT' | 'OFFER';
+
+export type ScheduledPostRecurrence = 'none' | 'weekly' | 'biweekly' | 'monthly';
+
+export type ScheduledPostStatus = 'scheduled' | 'publishing' | 'published' | 'failed';
+
+export type ScheduledPostActionType = 'BOOK' | 'ORDER' | 'SHOP' | 'LEARN_MORE' | 'SIGN_UP' | 'CALL';
+
+/** Event window in the location's local time */
+export interface ScheduledPostEvent {
+  title: string;
+  start_date: string; // YYYY-MM-DD
+  start_time?: string | null; // HH:MM
+  end_date: string; // YYYY-MM-DD
+  end_time?: string | null; // HH:MM
+}
+
+export interface ScheduledPostOffer {
+  coupon_code?: string | null;
+  redeem_online_url?: string | null;
+  terms_conditions?: string | null;
+}
+
+export interface ScheduledPostMedia {
+  mediaFormat: 'PHOTO' | 'VIDEO';
+  sourceUrl: string;
+}
+
+export interface ScheduledGBPPost {
+  id: string;
+  /** Shared by every occurrence of a recurring post */
+  series_id: string;
+  account_id: string;
+  location_id: string;
+  connection_id: string | null;
+  topic_type: ScheduledPostTopicType;
+  summary: string;
+  media: ScheduledPostMedia[];
+  call_to_action: { actionType: ScheduledPostActionType; url?: string | null } | null;
+  event: ScheduledPostEvent | null;
+  offer: ScheduledPostOffer | null;
+  scheduled_for: string;
+  recurrence: ScheduledPostRecurrence;
+  recurrence_until: string | null;
+  /** scheduled_for of the occurrence the series is counted from */
+  series_anchor_at: string | null;
+  /** Event window of that occurrence */
+  series_anchor_event: ScheduledPostEvent | null;
+  /** Periods since series_anchor_at (0 for the anchor itself) */
+  occurrence_index: number;
+  status: ScheduledPostStatus;
+  /** accounts/{accountId}/locations/{locationId}/localPosts/{postId} once published */
+  post_name: string | null;
+  search_url: string | null;
+  published_at: string | null;
+  error_message: string | null;
+  attempts: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A future occurrence of a recurring post (not stored until the one before it publishes) */
+export interface UpcomingScheduledPost {
+  series_id: string;
+  scheduled_for: string;
+  topic_type: ScheduledPostTopicType;
+  summary: string;
+}
+
 // =============================================================================
 // PERFORMANCE METRICS
 // =============================================================================
@@ -228,6 +302,68 @@ export interface GBPDailyMetrics {
   };
 }
 
+export type GBPDailyMetricName =
+  | 'BUSINESS_IMPRESSIONS_DESKTOP_MAPS'
+  | 'BUSINESS_IMPRESSIONS_DESKTOP_SEARCH'
+  | 'BUSINESS_IMPRESSIONS_MOBILE_MAPS'
+  | 'BUSINESS_IMPRESSIONS_MOBILE_SEARCH'
+  | 'CALL_CLICKS'
+  | 'BUSINESS_DIRECTION_REQUESTS'
+  | 'WEBSITE_CLICKS'
+  | 'BUSINESS_CONVERSATIONS'
+  | 'BUSINESS_BOOKINGS';
+
+export interface GBPMultiDailyMetricsResponse {
+  multiDailyMetricTimeSeries?: {
+    dailyMetricTimeSeries?: GBPDailyMetrics[];
+  }[];
+}
+
+// =============================================================================
+// ANALYTICS HISTORY (gbp_daily_metrics + gbp_analytics_snapshots)
+// =============================================================================
+
+/** Dashboard series, each a sum of one or more daily metrics */
+export type GBPAnalyticsSeries = 'impressions' | 'calls' | 'directions' | 'websiteClicks';
+
+export interface GBPAnalyticsWeek {
+  week_start: string; // YYYY-MM-DD (Monday)
+  impressions: number;
+  calls: number;
+  directions: number;
+  websiteClicks: number;
+}
+
+export interface GBPMetricDelta {
+  current: number;
+  /** Week before (null when not stored) */
+  previous: number | null;
+  /** Same week a year earlier (null when not stored) */
+  yearAgo: number | null;
+  /** Fractional change, e.g. 0.12 = +12% (null when there is nothing to compare) */
+  wow: number | null;
+  yoy: number | null;
+}
+
+export interface GBPKeywordMover {
+  keyword: string;
+  impressions: number;
+  previousImpressions: number | null;
+  change: number;
+  status: 'up' | 'down' | 'new' | 'dropped';
+}
+
+export interface GBPAnalyticsHistory {
+  location_id: string;
+  weeks: GBPAnalyticsWeek[];
+  /** Latest complete week with stored metrics (null before the first sync) */
+  latest_week: string | null;
+  deltas: Record<GBPAnalyticsSeries, GBPMetricDelta> | null;
+  keyword_movers: GBPKeywordMover[];
+  /** The two keyword snapshots the movers compare */
+  keyword_snapshots: { current: string | null; previous: string | null };
+}
+
 // =============================================================================
 // FEATURE ELIGIBILITY
 // =============================================================================
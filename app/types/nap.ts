@@ -0,0 +1,95 @@
+/**
+ * NAP Consistency Types
+ *
+ * Name / address / phone / website / hours as listed by each source we
+ * know about for a contact, compared against one reference record and
+ * stored per run in nap_audits. The engine lives in lib/nap/.
+ */
+
+export type NapField = 'name' | 'street' | 'city' | 'state' | 'zip' | 'phone' | 'website' | 'hours'
+
+export type NapSource = 'hubspot' | 'enriched' | 'google' | 'foursquare' | 'gbp' | 'brightlocal'
+
+/**
+ * match: same after normalization
+ * partial: close but not identical (e.g. "Main St" vs "Main St Ste 4")
+ * mismatch: different values
+ * missing: the reference has a value, this source does not
+ */
+export type NapFieldStatus = 'match' | 'partial' | 'mismatch' | 'missing'
+
+/** Weekly hours keyed by day (mon..sun), each a list of "HHMM-HHMM" ranges */
+export type NapHours = Partial<Record<'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun', string[]>>
+
+/** One source's listing, as read (not normalized) */
+export interface NapRecord {
+  name: string | null
+  street: string | null
+  city: string | null
+  state: string | null
+  zip: string | null
+  phone: string | null
+  website: string | null
+  hours: NapHours | null
+}
+
+export interface NapFieldResult {
+  field: NapField
+  status: NapFieldStatus
+  value: string | null
+  expected: string | null
+  /** 1 match, 0.5 partial, 0 mismatch/missing */
+  score: number
+}
+
+export interface NapSourceResult {
+  source: NapSource
+  /** not_linked: no listing on this source; error: the lookup failed */
+  status: 'ok' | 'not_linked' | 'error'
+  error?: string
+  record: NapRecord | null
+  fields: NapFieldResult[]
+  /** 0-100 over the fields the reference has; null unless status is ok */
+  score: number | null
+}
+
+export interface NapFix {
+  source: NapSource
+  field: NapField
+  current: string | null
+  expected: string
+  action: string
+}
+
+export interface NapAudit {
+  id: string
+  hubspot_contact_id: string
+  /** Average score of the sources other than the reference, 0-100 */
+  score: number | null
+  reference_source: NapSource | null
+  reference: NapRecord | null
+  sources: NapSourceResult[]
+  fixes: NapFix[]
+  created_by: string | null
+  created_at: string
+}
+
+export const NAP_FIELD_LABELS: Record<NapField, string> = {
+  name: 'business name',
+  street: 'street address',
+  city: 'city',
+  state: 'state',
+  zip: 'ZIP code',
+  phone: 'phone',
+  website: 'website',
+  hours: 'hours',
+}
+
+export const NAP_SOURCE_LABELS: Record<NapSource, string> = {
+  hubspot: 'HubSpot',
+  enriched: 'Enriched record',
+  google: 'Google Maps',
+  foursquare: 'Foursquare',
+  gbp: 'Google Business Profile',
+  brightlocal: 'BrightLocal',
+}
@@ -1,21 +1,20 @@
 /**
  * Onboarding System Types
  *
- * Types for the unified onboarding dashboard that manages
- * 4 services: Foursquare, Chatbot, Blogs, and Landing Pages.
+ * Types for the unified onboarding dashboard. The set of services comes
+ * from the service registry (lib/onboarding/registry.ts).
  */
 
-export type ServiceType = 'chatbot' | 'blogs' | 'landing_pages' | 'foursquare'
+import type { IdentityField, JobService, ServiceType } from '@/lib/onboarding/registry'
+import { serviceRecord } from '@/lib/onboarding/registry'
+import type { ContactPackage } from '@/lib/onboarding/packages'
+
+export type { IdentityField, JobService, ServiceType }
 
 export type ServiceStatus = 'not_started' | 'pending' | 'active' | 'error' | 'paused'
 
-export interface ServiceIdentity {
-  hubspot_contact_id: string
-  duda_site_code: string | null
-  chatbot_slug: string | null
-  foursquare_venue_id: string | null
-  google_place_id: string | null
-}
+/** service_identity_map row - one nullable column per registered identity field */
+export type ServiceIdentity = { hubspot_contact_id: string } & { [K in IdentityField]: string | null }
 
 export interface GooglePlaceData {
   placeId: string
@@ -65,14 +64,11 @@ export interface OnboardingServiceStatus {
 export interface CustomerOnboarding {
   identity: ServiceIdentity
   services: Partial<Record<ServiceType, OnboardingServiceStatus>>
+  /** Highest package bought on a closed-won deal (lib/onboarding/packages.ts) */
+  package: ContactPackage | null
 }
 
-export const SERVICE_LABELS: Record<ServiceType, string> = {
-  chatbot: 'AI Chatbot',
-  blogs: 'SEO Blogs',
-  landing_pages: 'Landing Pages',
-  foursquare: 'Foursquare',
-}
+export const SERVICE_LABELS: Record<ServiceType, string> = serviceRecord((s) => s.label)
 
 export const STATUS_LABELS: Record<ServiceStatus, string> = {
   not_started: 'Not Started',
@@ -82,12 +78,7 @@ export const STATUS_LABELS: Record<ServiceStatus, string> = {
   paused: 'Paused',
 }
 
-export const SERVICE_COLORS: Record<ServiceType, string> = {
-  foursquare: 'rgba(168,85,247,1)',
-  chatbot: 'rgba(0,174,255,1)',
-  blogs: 'rgba(233,86,20,1)',
-  landing_pages: 'rgba(16,185,129,1)',
-}
+export const SERVICE_COLORS: Record<ServiceType, string> = serviceRecord((s) => s.color)
 
 export const STATUS_COLORS: Record<ServiceStatus, string> = {
   not_started: '#6B7280',
@@ -97,6 +88,284 @@ export const STATUS_COLORS: Record<ServiceStatus, string> = {
   paused: '#8B5CF6',
 }
 
+/** Where a status sits in the onboarding flow (see lib/onboarding/status.ts) */
+export type StatusPhase = 'idle' | 'in_progress' | 'done' | 'attention' | 'on_hold'
+
+export const STATUS_PHASES: Record<ServiceStatus, StatusPhase> = {
+  not_started: 'idle',
+  pending: 'in_progress',
+  active: 'done',
+  error: 'attention',
+  paused: 'on_hold',
+}
+
+// Background jobs (services registered with usesJobs run out-of-band)
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export interface OnboardingJob {
+  id: string
+  hubspot_contact_id: string
+  service: JobService
+  status: JobStatus
+  payload: Record<string, unknown>
+  result: Record<string, unknown> | null
+  progress: { message?: string; elapsed?: number }
+  error_message: string | null
+  attempts: number
+  max_attempts: number
+  run_after: string
+  cancel_requested: boolean
+  created_by: string | null
+  previous_service_status: ServiceStatus | null
+  started_at: string | null
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export const ACTIVE_JOB_STATUSES: JobStatus[] = ['queued', 'running']
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  succeeded: 'Succeeded',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+}
+
+// Scheduled blogs (recurring generation per customer)
+
+export type BlogRunStatus = 'queued' | 'succeeded' | 'failed' | 'skipped'
+
+export interface BlogSchedule {
+  id: string
+  hubspot_contact_id: string
+  enabled: boolean
+  posts_per_month: number
+  topics: string[]
+  next_topic_index: number
+  start_date: string
+  next_run_at: string
+  business_name: string
+  industry: string
+  location: string
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface BlogScheduleRun {
+  id: string
+  schedule_id: string
+  hubspot_contact_id: string
+  scheduled_for: string
+  topic: string | null
+  status: BlogRunStatus
+  job_id: string | null
+  skip_reason: string | null
+  error_message: string | null
+  attempts: number
+  created_at: string
+  updated_at: string
+}
+
+/** A future slot projected from the schedule (not stored until it runs) */
+export interface UpcomingBlogRun {
+  scheduled_for: string
+  topic: string | null
+}
+
+export const BLOG_RUN_STATUS_LABELS: Record<BlogRunStatus, string> = {
+  queued: 'Queued',
+  succeeded: 'Drafted',
+  failed: 'Failed',
+  skipped: 'Skipped',
+}
+
+// Content review (generated posts/pages are drafts until approved)
+
+export type DraftStatus = 'draft' | 'approved' | 'published' | 'rejected' | 'replaced'
+
+export interface ContentDraft {
+  id: string
+  hubspot_contact_id: string
+  service: JobService
+  status: DraftStatus
+  title: string
+  body: string
+  meta_title: string | null
+  meta_description: string | null
+  slug: string | null
+  fields: Record<string, unknown>
+  generation_payload: Record<string, unknown>
+  job_id: string | null
+  parent_draft_id: string | null
+  review_notes: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  duda_ref: string | null
+  published_at: string | null
+  publish_error: string | null
+  publish_claimed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** Drafts still waiting on someone (review, a failed push, or regeneration) */
+export const OPEN_DRAFT_STATUSES: DraftStatus[] = ['draft', 'approved', 'rejected']
+
+export const DRAFT_STATUS_LABELS: Record<DraftStatus, string> = {
+  draft: 'In Review',
+  approved: 'Approved',
+  published: 'Published',
+  rejected: 'Rejected',
+  replaced: 'Replaced',
+}
+
+// Landing page inventory (one row per city)
+
+export interface LandingPage {
+  id: string
+  hubspot_contact_id: string
+  location: string
+  location_key: string
+  url: string | null
+  slug: string | null
+  collection_name: string | null
+  collection_row_id: string | null
+  draft_id: string | null
+  job_id: string | null
+  generated_at: string
+  published_at: string | null
+  created_at: string
+  updated_at: string
+  /** Review state of the latest draft (joined from content_drafts) */
+  draft?: Pick<ContentDraft, 'id' | 'status' | 'publish_error'> | null
+}
+
+// Audit trail (append-only onboarding_events)
+
+export type OnboardingEventAction =
+  | 'provisioned'
+  | 'disabled'
+  | 'deleted'
+  | 'generation_queued'
+  | 'generation_succeeded'
+  | 'generation_failed'
+  | 'generation_cancelled'
+  | 'cancel_requested'
+  | 'venue_linked'
+  | 'venue_created'
+  | 'manual_export'
+  | 'edit_proposed'
+  | 'identity_updated'
+  | 'status_changed'
+  | 'schedule_updated'
+  | 'schedule_deleted'
+  | 'draft_edited'
+  | 'draft_approved'
+  | 'draft_rejected'
+  | 'draft_regenerated'
+  | 'page_regenerated'
+  | 'page_deleted'
+  | 'match_queued'
+  | 'match_rejected'
+  | 'edit_applied'
+  | 'edit_rejected'
+  | 'drift_detected'
+  | 'drift_cleared'
+
+export interface OnboardingEvent {
+  id: string
+  hubspot_contact_id: string
+  service: ServiceType | null
+  action: OnboardingEventAction
+  actor_id: string | null
+  actor_email: string | null
+  status_before: ServiceStatus | null
+  status_after: ServiceStatus | null
+  payload_before: Record<string, unknown> | null
+  payload_after: Record<string, unknown> | null
+  created_at: string
+}
+
+export const EVENT_ACTION_LABELS: Record<OnboardingEventAction, string> = {
+  provisioned: 'Provisioned',
+  disabled: 'Disabled',
+  deleted: 'Deleted',
+  generation_queued: 'Generation queued',
+  generation_succeeded: 'Generation succeeded',
+  generation_failed: 'Generation failed',
+  generation_cancelled: 'Generation cancelled',
+  cancel_requested: 'Cancellation requested',
+  venue_linked: 'Venue linked',
+  venue_created: 'Venue created',
+  manual_export: 'Manual export stored',
+  edit_proposed: 'Edit proposed',
+  identity_updated: 'Identity updated',
+  status_changed: 'Status changed',
+  schedule_updated: 'Schedule updated',
+  schedule_deleted: 'Schedule removed',
+  draft_edited: 'Draft edited',
+  draft_approved: 'Draft approved',
+  draft_rejected: 'Draft rejected',
+  draft_regenerated: 'Draft regeneration queued',
+  page_regenerated: 'Landing page regeneration queued',
+  page_deleted: 'Landing page deleted',
+  match_queued: 'Venue match queued for review',
+  match_rejected: 'Venue match rejected',
+  edit_applied: 'Proposed edit applied',
+  edit_rejected: 'Proposed edit not applied',
+  drift_detected: 'Listing drift detected',
+  drift_cleared: 'Listing drift cleared',
+}
+
+// Bulk onboarding (multi-select on the Companies list)
+
+/** Bulk actions are keyed by the service they provision */
+export type BulkAction = ServiceType
+
+export type BulkRowStatus = 'success' | 'skipped' | 'failed'
+
+/** Contact fields the Companies list already has, sent with each bulk row */
+export interface BulkContact {
+  contactId: string
+  name: string
+  email?: string | null
+  phone?: string | null
+  website?: string | null
+  address?: string | null
+  city?: string | null
+  state?: string | null
+  zip?: string | null
+  industry?: string | null
+}
+
+export interface BulkRowResult {
+  contactId: string
+  name: string
+  status: BulkRowStatus
+  details?: string
+  error?: string
+}
+
+export interface BulkRunSummary {
+  total: number
+  success: number
+  skipped: number
+  failed: number
+}
+
+export interface BulkRunResult {
+  action: BulkAction
+  dryRun: boolean
+  summary: BulkRunSummary
+  results: BulkRowResult[]
+}
+
+export const BULK_ACTION_LABELS: Record<BulkAction, string> = serviceRecord((s) => s.bulk?.label ?? s.label)
+
 export interface FoursquarePlace {
   fsq_place_id?: string
   fsq_id?: string // legacy field, prefer fsq_place_id
@@ -116,6 +385,8 @@ export interface FoursquarePlace {
     short_name?: string
     icon?: { prefix: string; suffix: string }
   }>
+  latitude?: number
+  longitude?: number
   tel?: string
   website?: string
   hours?: {
@@ -135,3 +406,94 @@ export interface FoursquareSearchResult {
   match: FoursquarePlace | null
   results: FoursquarePlace[]
 }
+
+// Scored Foursquare matching (lib/onboarding/foursquare-match.ts)
+
+export type FoursquareMatchSignalKey = 'name' | 'location' | 'phone' | 'website' | 'category'
+
+export interface FoursquareMatchSignal {
+  key: FoursquareMatchSignalKey
+  /** 0-1 */
+  score: number
+  weight: number
+  /** Human-readable reason, e.g. "42 m from the Google pin" */
+  detail: string
+}
+
+export interface FoursquareMatchCandidate {
+  venue: FoursquarePlace
+  /** 0-100, weighted over the signals both sides had data for */
+  confidence: number
+  signals: FoursquareMatchSignal[]
+}
+
+/** auto_link: link without review; review: queue for an AM; no_match: create a venue */
+export type FoursquareMatchDecision = 'auto_link' | 'review' | 'no_match'
+
+export interface FoursquareMatchResult {
+  decision: FoursquareMatchDecision
+  candidates: FoursquareMatchCandidate[]
+}
+
+export type FoursquareMatchReviewStatus = 'pending' | 'approved' | 'rejected'
+
+export interface FoursquareMatchReview {
+  id: string
+  hubspot_contact_id: string
+  business_name: string
+  status: FoursquareMatchReviewStatus
+  top_confidence: number
+  candidates: FoursquareMatchCandidate[]
+  chosen_venue_id: string | null
+  created_by: string | null
+  resolved_by: string | null
+  resolved_at: string | null
+  created_at: string
+}
+
+export const MATCH_SIGNAL_LABELS: Record<FoursquareMatchSignalKey, string> = {
+  name: 'Name',
+  location: 'Location',
+  phone: 'Phone',
+  website: 'Website',
+  category: 'Category',
+}
+
+// Foursquare listing drift (lib/onboarding/foursquare-drift.ts)
+
+/** ok: matches our data; drift: differs; missing: venue gone; error: check failed */
+export type FoursquareDriftStatus = 'ok' | 'drift' | 'missing' | 'error'
+
+export interface FoursquareDriftField {
+  /** NAP field (name, street, city, state, zip, phone, website) */
+  field: string
+  ours: string | null
+  theirs: string | null
+  status: 'mismatch' | 'missing'
+}
+
+export interface FoursquareDriftCheck {
+  id: string
+  hubspot_contact_id: string
+  venue_id: string
+  status: FoursquareDriftStatus
+  differences: FoursquareDriftField[]
+  reason: string | null
+  edits_applied: number
+  edits_rejected: number
+  checked_at: string
+}
+
+export type ProposedEditStatus = 'pending' | 'applied' | 'rejected'
+
+export interface FoursquareProposedEdit {
+  id: string
+  hubspot_contact_id: string
+  venue_id: string
+  /** Foursquare suggest/edit payload (name, address, locality, region, postcode, tel, website) */
+  edits: Record<string, string>
+  status: ProposedEditStatus
+  proposed_by: string | null
+  resolved_at: string | null
+  created_at: string
+}
@@ -0,0 +1,78 @@
+/**
+ * Client Report Types
+ *
+ * Monthly performance reports archived per customer (client_reports) and
+ * the data each one is rendered from. Composition and rendering live in
+ * lib/reports/.
+ */
+
+import type { ServiceStatus } from './onboarding'
+
+/** A value for the report month and the month before it */
+export interface ReportMetric {
+  value: number
+  previous: number | null
+}
+
+export interface MonthlyReportData {
+  hubspot_contact_id: string
+  business_name: string
+  /** First day of the month, YYYY-MM-DD */
+  period_start: string
+  /** Last day of the month, YYYY-MM-DD */
+  period_end: string
+  generated_at: string
+  gbp: {
+    location_count: number
+    /** 'daily' when gbp_daily_metrics covers the month, else keyword totals from gbp_analytics_snapshots */
+    source: 'daily' | 'keywords' | null
+    impressions: ReportMetric
+    calls: ReportMetric | null
+    directions: ReportMetric | null
+    website_clicks: ReportMetric | null
+    top_keywords: { keyword: string; impressions: number }[]
+  }
+  reviews: {
+    new_reviews: ReportMetric
+    /** Average rating of the month's new reviews (null if none) */
+    average_rating: number | null
+    /** Average over every stored review */
+    overall_rating: number | null
+    total_reviews: number
+    replied: number
+  }
+  blogs: {
+    published: { title: string; published_at: string }[]
+    status: ServiceStatus | null
+  }
+  landing_pages: {
+    live: number
+    new_this_month: number
+    status: ServiceStatus | null
+  }
+  foursquare: {
+    status: ServiceStatus | null
+    venue_id: string | null
+  }
+  chatbot: {
+    status: ServiceStatus | null
+  }
+}
+
+export interface ClientReport {
+  id: string
+  hubspot_contact_id: string
+  period_start: string
+  period_end: string
+  title: string
+  /** Object path in the client-reports storage bucket */
+  storage_path: string
+  data: MonthlyReportData
+  generated_by: string | null
+  created_at: string
+}
+
+export interface ReportShareLink {
+  url: string
+  expires_at: string
+}
@@ -0,0 +1,92 @@
+/**
+ * Review Inbox Types
+ *
+ * Unanswered Google reviews across every client location (v_review_inbox).
+ * Query and SLA logic lives in lib/reviews/inbox.ts.
+ */
+
+export interface InboxReview {
+  /** gbp_reviews.id */
+  id: string
+  account_id: string
+  location_id: string
+  review_id: string
+  reviewer_display_name: string | null
+  reviewer_profile_photo_url: string | null
+  star_rating: number | null
+  comment: string | null
+  create_time: string | null
+  update_time: string | null
+  location_title: string | null
+  connection_id: string | null
+  client_id: string | null
+  client_name: string | null
+  hubspot_contact_id: string | null
+  account_manager_id: string | null
+  /** Hours since the review was posted */
+  age_hours: number | null
+  /** Low-star review left waiting longer than the SLA */
+  sla_breached: boolean
+}
+
+export type ReviewInboxSort = 'oldest' | 'newest' | 'lowest'
+
+export interface ReviewInboxFilters {
+  ratings?: number[]
+  /** Only reviews at least this old */
+  minAgeHours?: number
+  /** Only reviews at most this old */
+  maxAgeHours?: number
+  clientId?: string
+  accountManagerId?: string
+  slaBreachedOnly?: boolean
+}
+
+export interface ReviewSlaPolicy {
+  /** Reviews at or below this rating are held to the SLA */
+  maxRating: number
+  hours: number
+}
+
+export interface ReviewInboxOption {
+  id: string
+  label: string
+  /** Unanswered reviews */
+  count: number
+}
+
+export interface ReviewInboxFilterOptions {
+  clients: ReviewInboxOption[]
+  accountManagers: ReviewInboxOption[]
+}
+
+// ============================================================
+// REPLY DRAFTS
+// ============================================================
+
+export type ReplyTone = 'friendly' | 'professional' | 'warm' | 'casual' | 'concise'
+
+export const REPLY_TONES: ReplyTone[] = ['friendly', 'professional', 'warm', 'casual', 'concise']
+
+/** Per-client brand voice (review_reply_templates) */
+export interface ReviewReplyTemplate {
+  hubspot_contact_id: string
+  tone: ReplyTone
+  voice_notes: string | null
+  sign_off: string | null
+  banned_phrases: string[]
+  max_length: number
+  updated_by?: string | null
+  updated_at?: string | null
+}
+
+export interface ReviewReplyDraft {
+  review_id: string
+  draft: string
+  /** Provider that wrote the draft ('anthropic', 'stub', ...) */
+  provider: string
+  /** Banned phrases still present after a retry - shown to the user */
+  violations: string[]
+  /** Whether the client has its own template (false = default voice) */
+  custom_template: boolean
+}
@@ -2,6 +2,8 @@
  * Utility functions for intelligently displaying company names
  */
 
+import { isPlaceholderValue } from '@/lib/normalize';
+
 /**
  * Check if a string looks like a URL
  */
@@ -91,14 +93,7 @@ function looksLikeBusinessName(firstname: string | null | undefined, lastname: s
 function isInvalidPlaceholder(str: string | null | undefined): boolean {
   if (!str) return false;
   const lower = str.toLowerCase().trim();
-  return (
-    lower === 'no website or google profile found' ||
-    lower === 'no website' ||
-    lower === 'n/a' ||
-    lower === 'none' ||
-    lower === 'test' ||
-    lower === 'zing'
-  );
+  return isPlaceholderValue(lower) || lower === 'test' || lower === 'zing';
 }
 
 /**
@@ -17,6 +17,8 @@ export const CACHE_KEYS = {
   GBP_LOCATIONS: '/api/gbp/location',
   ONBOARDING_STATUS: (contactId: string) => `/api/onboarding/${contactId}/status`,
   FOURSQUARE_DETAILS: (contactId: string) => `/api/onboarding/${contactId}/foursquare/details`,
+  FOURSQUARE_DRIFT: (contactId: string) => `/api/onboarding/${contactId}/foursquare/drift`,
+  PROPERTY_MAPPINGS: '/api/admin/property-mappings',
 } as const;
 
 /**
@@ -84,6 +86,15 @@ export function invalidateFoursquareDetails(contactId: string) {
   mutate(CACHE_KEYS.FOURSQUARE_DETAILS(contactId));
 }
 
+/**
+ * Invalidate Foursquare drift checks and proposed edits for a contact
+ * Call after proposing edits or checking the venue
+ */
+export function invalidateFoursquareDrift(contactId: string) {
+  console.log(`[Cache] Invalidating Foursquare drift for ${contactId}`);
+  mutate(CACHE_KEYS.FOURSQUARE_DRIFT(contactId));
+}
+
 /**
  * Invalidate all SWR caches (nuclear option)
  * Use sparingly - only for logout or critical errors
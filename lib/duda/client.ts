@@ -0,0 +1,339 @@
+/**
+ * Duda API Client
+ *
+ * Server-side client for the Duda Partner API (sites, snippets, publishing,
+ * collections and blog posts). Uses Basic auth from DUDA_API_USER /
+ * DUDA_API_PASSWORD.
+ *
+ * Rate limits (429), 5xx and network errors are retried with exponential
+ * backoff; requests that are not safe to repeat (creating a snippet, row or
+ * post) are only retried on 429, which Duda sends before doing any work.
+ * Failures throw the typed errors in ./errors.
+ *
+ * Set DUDA_API_URL to point the client at the local mock server
+ * (scripts/utilities/duda-mock-server.ts).
+ */
+
+import {
+  DudaConfigError,
+  DudaError,
+  DudaNetworkError,
+  DudaNotFoundError,
+  DudaRateLimitError,
+  errorFromResponse,
+} from './errors';
+import type {
+  DudaBlogPost,
+  DudaBlogPostInput,
+  DudaBlogPostList,
+  DudaCollection,
+  DudaCollectionRow,
+  DudaSite,
+  DudaSiteValidation,
+  DudaSnippet,
+  DudaSnippetInput,
+} from './types';
+
+const DEFAULT_API_URL = 'https://api.duda.co/api';
+const REQUEST_TIMEOUT_MS = 30_000;
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10_000;
+
+/** Duda site names are short alphanumeric ids, e.g. "a1b2c3d4" */
+const SITE_CODE_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export interface DudaClientConfig {
+  username: string;
+  password: string;
+  apiUrl?: string;
+  maxRetries?: number;
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  /** Safe to send twice; non-idempotent requests only retry on 429 */
+  idempotent?: boolean;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function isValidSiteCodeFormat(siteCode: string): boolean {
+  return SITE_CODE_PATTERN.test(siteCode);
+}
+
+export class DudaClient {
+  private auth: string;
+  private apiUrl: string;
+  private maxRetries: number;
+
+  constructor(config: DudaClientConfig) {
+    this.auth = 'Basic ' + Buffer.from(`${config.username}:${config.password}`).toString('base64');
+    this.apiUrl = (config.apiUrl || DEFAULT_API_URL).replace(/\/$/, '');
+    this.maxRetries = config.maxRetries ?? 3;
+  }
+
+  // =============================================================================
+  // PRIVATE HELPERS
+  // =============================================================================
+
+  private async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const method = options.method || 'GET';
+    const idempotent = options.idempotent ?? method !== 'POST';
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(method, path, options.body);
+      } catch (error) {
+        const canRetry = error instanceof DudaError
+          && error.retryable
+          && (idempotent || error instanceof DudaRateLimitError)
+          && attempt < this.maxRetries;
+        if (!canRetry) throw error;
+
+        const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt;
+        const delay = Math.min(
+          MAX_RETRY_DELAY_MS,
+          error instanceof DudaRateLimitError && error.retryAfterMs ? error.retryAfterMs : backoff
+        );
+        console.warn(`[DudaClient] ${method} ${path} failed (${error.message}), retry ${attempt + 1}/${this.maxRetries} in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async send<T>(method: string, path: string, body?: unknown): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.apiUrl}${path}`, {
+        method,
+        headers: {
+          Authorization: this.auth,
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new DudaNetworkError(`Duda API request failed: ${message}`);
+    }
+
+    const text = await response.text();
+    let data: unknown = text;
+    if (text) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        // Plain-text body (Duda sends some errors and empty 204s this way)
+      }
+    }
+
+    if (!response.ok) {
+      throw errorFromResponse(response.status, data, response.headers.get('retry-after'));
+    }
+
+    return (text ? data : null) as T;
+  }
+
+  private site(siteCode: string): string {
+    return `/sites/multiscreen/${encodeURIComponent(siteCode)}`;
+  }
+
+  // =============================================================================
+  // SITES
+  // =============================================================================
+
+  async getSite(siteCode: string): Promise<DudaSite> {
+    return this.request<DudaSite>(this.site(siteCode));
+  }
+
+  /**
+   * Check that a site code exists and our account can reach it.
+   * Only "not found" and "not accessible" are reported as invalid; outages
+   * and config errors still throw so callers can tell the difference.
+   */
+  async validateSiteCode(siteCode: string): Promise<DudaSiteValidation> {
+    if (!isValidSiteCodeFormat(siteCode)) {
+      return { valid: false, reason: `"${siteCode}" is not a valid Duda site code` };
+    }
+
+    try {
+      return { valid: true, site: await this.getSite(siteCode) };
+    } catch (error) {
+      if (error instanceof DudaNotFoundError) {
+        return { valid: false, reason: `Duda site "${siteCode}" does not exist` };
+      }
+      if (error instanceof DudaError && error.status === 403) {
+        return { valid: false, reason: `Duda site "${siteCode}" is not accessible with our API account` };
+      }
+      throw error;
+    }
+  }
+
+  async publishSite(siteCode: string): Promise<void> {
+    await this.request(`/sites/multiscreen/publish/${encodeURIComponent(siteCode)}`, { method: 'POST', idempotent: true });
+  }
+
+  async unpublishSite(siteCode: string): Promise<void> {
+    await this.request(`/sites/multiscreen/unpublish/${encodeURIComponent(siteCode)}`, { method: 'POST', idempotent: true });
+  }
+
+  // =============================================================================
+  // SNIPPETS
+  // =============================================================================
+
+  async listSnippets(siteCode: string): Promise<DudaSnippet[]> {
+    return (await this.request<DudaSnippet[] | null>(`${this.site(siteCode)}/snippets`)) ?? [];
+  }
+
+  async getSnippet(siteCode: string, snippetId: string): Promise<DudaSnippet> {
+    return this.request<DudaSnippet>(`${this.site(siteCode)}/snippets/${encodeURIComponent(snippetId)}`);
+  }
+
+  /**
+   * Create a snippet and return its id
+   */
+  async createSnippet(siteCode: string, snippet: DudaSnippetInput): Promise<string> {
+    const created = await this.request<DudaSnippet | null>(`${this.site(siteCode)}/snippets`, {
+      method: 'POST',
+      body: snippet,
+    });
+    const snippetId = created?.uuid || created?.id;
+    if (!snippetId) {
+      throw new DudaError('Duda did not return a snippet ID', { body: created });
+    }
+    return snippetId;
+  }
+
+  async updateSnippet(siteCode: string, snippetId: string, snippet: DudaSnippetInput): Promise<void> {
+    await this.request(`${this.site(siteCode)}/snippets/${encodeURIComponent(snippetId)}`, {
+      method: 'PUT',
+      body: snippet,
+    });
+  }
+
+  /**
+   * Delete a snippet. Returns false if it was already gone.
+   */
+  async deleteSnippet(siteCode: string, snippetId: string): Promise<boolean> {
+    try {
+      await this.request(`${this.site(siteCode)}/snippets/${encodeURIComponent(snippetId)}`, { method: 'DELETE' });
+      return true;
+    } catch (error) {
+      if (error instanceof DudaNotFoundError) return false;
+      throw error;
+    }
+  }
+
+  // =============================================================================
+  // COLLECTIONS (CMS)
+  // =============================================================================
+
+  async listCollections(siteCode: string): Promise<DudaCollection[]> {
+    return (await this.request<DudaCollection[] | null>(`${this.site(siteCode)}/collection`)) ?? [];
+  }
+
+  async getCollection(siteCode: string, collectionName: string): Promise<DudaCollection> {
+    return this.request<DudaCollection>(`${this.site(siteCode)}/collection/${encodeURIComponent(collectionName)}`);
+  }
+
+  async getCollectionRows(siteCode: string, collectionName: string): Promise<DudaCollectionRow[]> {
+    return (await this.getCollection(siteCode, collectionName)).values ?? [];
+  }
+
+  /**
+   * Append rows to a collection and return their ids (in order)
+   */
+  async addCollectionRows(
+    siteCode: string,
+    collectionName: string,
+    rows: Array<Record<string, unknown>>
+  ): Promise<string[]> {
+    const created = await this.request<Array<{ id: string }> | null>(
+      `${this.site(siteCode)}/collection/${encodeURIComponent(collectionName)}/row`,
+      { method: 'POST', body: rows.map((data) => ({ data })) }
+    );
+    return (created ?? []).map((row) => row.id);
+  }
+
+  async updateCollectionRows(siteCode: string, collectionName: string, rows: DudaCollectionRow[]): Promise<void> {
+    await this.request(`${this.site(siteCode)}/collection/${encodeURIComponent(collectionName)}/row`, {
+      method: 'PUT',
+      body: rows,
+    });
+  }
+
+  async deleteCollectionRows(siteCode: string, collectionName: string, rowIds: string[]): Promise<void> {
+    await this.request(`${this.site(siteCode)}/collection/${encodeURIComponent(collectionName)}/row`, {
+      method: 'DELETE',
+      body: rowIds,
+    });
+  }
+
+  // =============================================================================
+  // BLOG
+  // =============================================================================
+
+  async listBlogPosts(siteCode: string, options?: { limit?: number; offset?: number }): Promise<DudaBlogPostList> {
+    const limit = options?.limit ?? 50;
+    const offset = options?.offset ?? 0;
+    const data = await this.request<DudaBlogPost[] | Partial<DudaBlogPostList> | null>(
+      `${this.site(siteCode)}/blog/posts?limit=${limit}&offset=${offset}`
+    );
+
+    // Older accounts return a bare array
+    if (Array.isArray(data)) return { results: data, offset, limit };
+    return { results: data?.results ?? [], offset, limit, total: data?.total };
+  }
+
+  /**
+   * Create a blog post (as a draft on the Duda side) and return it
+   */
+  async importBlogPost(siteCode: string, post: DudaBlogPostInput): Promise<DudaBlogPost> {
+    const created = await this.request<DudaBlogPost | null>(`${this.site(siteCode)}/blog/posts/import`, {
+      method: 'POST',
+      body: post,
+    });
+    if (!created?.id) {
+      throw new DudaError('Duda did not return a blog post ID', { body: created });
+    }
+    return created;
+  }
+
+  async publishBlogPost(siteCode: string, postId: string): Promise<void> {
+    await this.request(`${this.site(siteCode)}/blog/posts/${encodeURIComponent(postId)}/publish`, {
+      method: 'POST',
+      idempotent: true,
+    });
+  }
+}
+
+// =============================================================================
+// FACTORY FUNCTIONS
+// =============================================================================
+
+export function isDudaConfigured(): boolean {
+  return !!(process.env.DUDA_API_USER && process.env.DUDA_API_PASSWORD);
+}
+
+let _defaultClient: DudaClient | null = null;
+
+/**
+ * Client from env vars. Throws DudaConfigError if credentials are missing.
+ */
+export function getDudaClient(): DudaClient {
+  if (!isDudaConfigured()) {
+    throw new DudaConfigError();
+  }
+  if (!_defaultClient) {
+    _defaultClient = new DudaClient({
+      username: process.env.DUDA_API_USER!,
+      password: process.env.DUDA_API_PASSWORD!,
+      apiUrl: process.env.DUDA_API_URL,
+    });
+  }
+  return _defaultClient;
+}
@@ -0,0 +1,107 @@
+/**
+ * Duda API Errors
+ *
+ * Every failure from lib/duda is a DudaError subclass, so callers can
+ * branch on the kind of failure (instanceof) instead of parsing messages.
+ * `retryable` says whether the same request may succeed if sent again;
+ * the client already retried it before throwing.
+ */
+
+export class DudaError extends Error {
+  readonly status: number | null;
+  readonly retryable: boolean;
+  /** Response body (parsed JSON when possible) */
+  readonly body: unknown;
+
+  constructor(message: string, options: { status?: number | null; retryable?: boolean; body?: unknown } = {}) {
+    super(message);
+    this.name = 'DudaError';
+    this.status = options.status ?? null;
+    this.retryable = options.retryable ?? false;
+    this.body = options.body;
+  }
+}
+
+/** DUDA_API_USER / DUDA_API_PASSWORD are not set */
+export class DudaConfigError extends DudaError {
+  constructor(message = 'Duda API credentials not configured') {
+    super(message);
+    this.name = 'DudaConfigError';
+  }
+}
+
+/** 401/403 - bad credentials, or the account cannot access the site */
+export class DudaAuthError extends DudaError {
+  constructor(message: string, status: number, body?: unknown) {
+    super(message, { status, body });
+    this.name = 'DudaAuthError';
+  }
+}
+
+/** 404 - unknown site, snippet, collection or post */
+export class DudaNotFoundError extends DudaError {
+  constructor(message: string, body?: unknown) {
+    super(message, { status: 404, body });
+    this.name = 'DudaNotFoundError';
+  }
+}
+
+/** Other 4xx - Duda rejected the request itself */
+export class DudaValidationError extends DudaError {
+  constructor(message: string, status: number, body?: unknown) {
+    super(message, { status, body });
+    this.name = 'DudaValidationError';
+  }
+}
+
+/** 429 */
+export class DudaRateLimitError extends DudaError {
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null, body?: unknown) {
+    super(message, { status: 429, retryable: true, body });
+    this.name = 'DudaRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** 5xx */
+export class DudaServerError extends DudaError {
+  constructor(message: string, status: number, body?: unknown) {
+    super(message, { status, retryable: true, body });
+    this.name = 'DudaServerError';
+  }
+}
+
+/** No response (DNS, connection reset, timeout) */
+export class DudaNetworkError extends DudaError {
+  constructor(message: string) {
+    super(message, { retryable: true });
+    this.name = 'DudaNetworkError';
+  }
+}
+
+function describeBody(body: unknown): string {
+  if (body && typeof body === 'object') {
+    const { message, error_code } = body as { message?: string; error_code?: string };
+    if (message) return error_code ? `${error_code}: ${message}` : message;
+    return JSON.stringify(body);
+  }
+  return typeof body === 'string' && body ? body.substring(0, 200) : 'no details';
+}
+
+/**
+ * Map a non-2xx Duda response onto the matching error class
+ */
+export function errorFromResponse(status: number, body: unknown, retryAfter: string | null): DudaError {
+  const message = `Duda API returned ${status}: ${describeBody(body)}`;
+
+  if (status === 401 || status === 403) return new DudaAuthError(message, status, body);
+  if (status === 404) return new DudaNotFoundError(message, body);
+  if (status === 429) {
+    const seconds = retryAfter ? Number(retryAfter) : NaN;
+    return new DudaRateLimitError(message, Number.isFinite(seconds) ? seconds * 1000 : null, body);
+  }
+  if (status >= 500) return new DudaServerError(message, status, body);
+  return new DudaValidationError(message, status, body);
+}
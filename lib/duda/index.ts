@@ -0,0 +1,11 @@
+/**
+ * Duda API
+ *
+ * @example
+ * import { getDudaClient, DudaNotFoundError } from '@/lib/duda';
+ * const site = await getDudaClient().getSite('a1b2c3d4');
+ */
+
+export { DudaClient, getDudaClient, isDudaConfigured, isValidSiteCodeFormat, type DudaClientConfig } from './client';
+export * from './errors';
+export type * from './types';
@@ -0,0 +1,81 @@
+/**
+ * Duda API Types
+ *
+ * The subset of the Duda Partner API responses the app reads. Fields we do
+ * not use are left out; Duda returns more.
+ */
+
+export type DudaPublishStatus = 'PUBLISHED' | 'UNPUBLISHED' | 'NOT_PUBLISHED_YET';
+
+export interface DudaSite {
+  site_name: string;
+  account_name?: string;
+  site_domain?: string | null;
+  site_default_domain?: string;
+  preview_site_url?: string;
+  publish_status?: DudaPublishStatus;
+  last_published_date?: string;
+  first_published_date?: string;
+  creation_date?: string;
+  template_id?: number;
+  external_uid?: string;
+}
+
+/** Result of checking a site code against Duda */
+export type DudaSiteValidation =
+  | { valid: true; site: DudaSite }
+  | { valid: false; reason: string };
+
+export type DudaSnippetLocation = 'HEAD' | 'BODY';
+
+export interface DudaSnippetInput {
+  markup: string;
+  location: DudaSnippetLocation;
+}
+
+export interface DudaSnippet extends DudaSnippetInput {
+  /** Duda returns uuid on create and id on some reads */
+  uuid?: string;
+  id?: string;
+}
+
+export interface DudaCollectionField {
+  name: string;
+  type: string;
+}
+
+export interface DudaCollectionRow {
+  id: string;
+  data: Record<string, unknown>;
+}
+
+export interface DudaCollection {
+  name: string;
+  fields: DudaCollectionField[];
+  values?: DudaCollectionRow[];
+  external_details?: Record<string, unknown>;
+}
+
+export interface DudaBlogPostInput {
+  title: string;
+  description?: string;
+  content: string;
+  author?: string;
+  thumbnail?: { url: string };
+  main_image?: { url: string };
+  seo?: { title?: string; description?: string };
+}
+
+export interface DudaBlogPost extends DudaBlogPostInput {
+  id: string;
+  status?: 'DRAFT' | 'PUBLISHED';
+  publish_date?: string;
+  url?: string;
+}
+
+export interface DudaBlogPostList {
+  results: DudaBlogPost[];
+  offset: number;
+  limit: number;
+  total?: number;
+}
@@ -0,0 +1,339 @@
+/**
+ * GBP Analytics History
+ *
+ * Stores the Performance API's daily metrics (gbp_daily_metrics) during the
+ * gbp-analytics sync and reads them back as weekly series for the location
+ * analytics page, with week-over-week and year-over-year deltas. Keyword
+ * movers compare the two latest gbp_analytics_snapshots.
+ *
+ * Weeks run Monday to Sunday (UTC dates). Only complete weeks are compared,
+ * so a week still filling in never shows up as a drop.
+ *
+ * Migration: 20261019100000_gbp_daily_metrics.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  GBPAnalyticsHistory,
+  GBPAnalyticsSeries,
+  GBPAnalyticsWeek,
+  GBPDailyMetricName,
+  GBPDailyMetrics,
+  GBPKeywordMover,
+  GBPMetricDelta,
+} from '@/app/types/gbp';
+import type { GBPClient } from './client';
+
+/** Metrics the sync stores */
+export const DAILY_METRICS: GBPDailyMetricName[] = [
+  'BUSINESS_IMPRESSIONS_DESKTOP_MAPS',
+  'BUSINESS_IMPRESSIONS_DESKTOP_SEARCH',
+  'BUSINESS_IMPRESSIONS_MOBILE_MAPS',
+  'BUSINESS_IMPRESSIONS_MOBILE_SEARCH',
+  'CALL_CLICKS',
+  'BUSINESS_DIRECTION_REQUESTS',
+  'WEBSITE_CLICKS',
+  'BUSINESS_CONVERSATIONS',
+  'BUSINESS_BOOKINGS',
+];
+
+/** Daily metrics summed into each dashboard series */
+const SERIES_METRICS: Record<GBPAnalyticsSeries, GBPDailyMetricName[]> = {
+  impressions: [
+    'BUSINESS_IMPRESSIONS_DESKTOP_MAPS',
+    'BUSINESS_IMPRESSIONS_DESKTOP_SEARCH',
+    'BUSINESS_IMPRESSIONS_MOBILE_MAPS',
+    'BUSINESS_IMPRESSIONS_MOBILE_SEARCH',
+  ],
+  calls: ['CALL_CLICKS'],
+  directions: ['BUSINESS_DIRECTION_REQUESTS'],
+  websiteClicks: ['WEBSITE_CLICKS'],
+};
+
+const SERIES = Object.keys(SERIES_METRICS) as GBPAnalyticsSeries[];
+const METRIC_SERIES = new Map<string, GBPAnalyticsSeries>(
+  SERIES.flatMap((series) => SERIES_METRICS[series].map((metric) => [metric, series] as const))
+);
+
+/** Google keeps 18 months of daily metrics */
+const BACKFILL_DAYS = 540;
+/** Google finalizes a day's numbers a few days later */
+const METRICS_LAG_DAYS = 3;
+/** Recent days are re-fetched every sync to pick up revisions */
+const REFETCH_DAYS = 14;
+
+export const DEFAULT_HISTORY_WEEKS = 26;
+export const MAX_HISTORY_WEEKS = 104;
+const MAX_KEYWORD_MOVERS = 25;
+
+const UPSERT_CHUNK_SIZE = 500;
+const PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60_000;
+
+// ============================================================
+// DATES
+// ============================================================
+
+const toDate = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const toIso = (date: Date) => date.toISOString().slice(0, 10);
+const addDays = (iso: string, days: number) => toIso(new Date(toDate(iso).getTime() + days * DAY_MS));
+
+/** Monday of the week containing `iso` */
+function weekStart(iso: string): string {
+  const dow = toDate(iso).getUTCDay();
+  return addDays(iso, -((dow + 6) % 7));
+}
+
+function googleDate(iso: string) {
+  const [year, month, day] = iso.split('-').map(Number);
+  return { year, month, day };
+}
+
+// ============================================================
+// SYNC
+// ============================================================
+
+/**
+ * Fetch and store daily metrics for one location. Returns the cursor to keep
+ * on the sync checkpoint and the number of rows written.
+ */
+export async function syncDailyMetrics(
+  supabase: SupabaseClient,
+  client: GBPClient,
+  locationId: string,
+  through: string | undefined,
+  now: Date = new Date()
+): Promise<{ rows: number; through: string }> {
+  const end = toIso(new Date(now.getTime() - METRICS_LAG_DAYS * DAY_MS));
+  const backfillStart = toIso(new Date(now.getTime() - BACKFILL_DAYS * DAY_MS));
+  const start = through ? addDays(through, -REFETCH_DAYS) : backfillStart;
+
+  if (start > end) return { rows: 0, through: through ?? end };
+
+  const series = await client.getDailyMetrics(DAILY_METRICS, googleDate(start), googleDate(end), locationId);
+  const rows = toMetricRows(locationId, series);
+
+  for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from('gbp_daily_metrics')
+      .upsert(rows.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: 'location_id,metric,metric_date' });
+
+    if (error) {
+      throw new Error(`Daily metrics upsert failed: ${error.message}`);
+    }
+  }
+
+  return { rows: rows.length, through: end };
+}
+
+function toMetricRows(locationId: string, series: GBPDailyMetrics[]) {
+  const fetchedAt = new Date().toISOString();
+
+  return series.flatMap((metricSeries) =>
+    (metricSeries.timeSeries?.datedValues || []).map(({ date, value }) => ({
+      location_id: locationId,
+      metric: metricSeries.dailyMetric,
+      metric_date: `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`,
+      value: parseInt(value || '0'),
+      fetched_at: fetchedAt,
+    }))
+  );
+}
+
+// ============================================================
+// HISTORY
+// ============================================================
+
+interface MetricRow {
+  metric: string;
+  metric_date: string;
+  value: number;
+}
+
+async function fetchMetricRows(
+  supabase: SupabaseClient,
+  locationId: string,
+  from: string,
+  to: string
+): Promise<MetricRow[]> {
+  const metrics = SERIES.flatMap((series) => SERIES_METRICS[series]);
+  const rows: MetricRow[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('gbp_daily_metrics')
+      .select('metric, metric_date, value')
+      .eq('location_id', locationId)
+      .in('metric', metrics)
+      .gte('metric_date', from)
+      .lte('metric_date', to)
+      .order('metric_date', { ascending: true })
+      .order('metric', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch daily metrics: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as MetricRow[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function rollUpWeeks(rows: MetricRow[]): Map<string, GBPAnalyticsWeek> {
+  const weeks = new Map<string, GBPAnalyticsWeek>();
+
+  for (const row of rows) {
+    const series = METRIC_SERIES.get(row.metric);
+    if (!series) continue;
+
+    const key = weekStart(row.metric_date);
+    let week = weeks.get(key);
+    if (!week) {
+      week = { week_start: key, impressions: 0, calls: 0, directions: 0, websiteClicks: 0 };
+      weeks.set(key, week);
+    }
+    week[series] += row.value;
+  }
+
+  return weeks;
+}
+
+const change = (current: number, base: number | null) =>
+  base ? (current - base) / base : null;
+
+function buildDeltas(
+  current: GBPAnalyticsWeek,
+  previous: GBPAnalyticsWeek | undefined,
+  yearAgo: GBPAnalyticsWeek | undefined
+): Record<GBPAnalyticsSeries, GBPMetricDelta> {
+  return Object.fromEntries(
+    SERIES.map((series) => {
+      const prev = previous ? previous[series] : null;
+      const last = yearAgo ? yearAgo[series] : null;
+      return [
+        series,
+        {
+          current: current[series],
+          previous: prev,
+          yearAgo: last,
+          wow: change(current[series], prev),
+          yoy: change(current[series], last),
+        },
+      ];
+    })
+  ) as Record<GBPAnalyticsSeries, GBPMetricDelta>;
+}
+
+type SnapshotKeyword = { keyword: string; impressions: number };
+
+/** The sync stores keywords as a JSON string; older rows hold the array */
+function parseKeywords(value: unknown): SnapshotKeyword[] {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(value) ? value : [];
+}
+
+async function getKeywordMovers(
+  supabase: SupabaseClient,
+  locationId: string
+): Promise<Pick<GBPAnalyticsHistory, 'keyword_movers' | 'keyword_snapshots'>> {
+  const { data, error } = await supabase
+    .from('gbp_analytics_snapshots')
+    .select('snapshot_date, keywords')
+    .eq('location_id', locationId)
+    .order('snapshot_date', { ascending: false })
+    .limit(2);
+
+  if (error) {
+    throw new Error(`Failed to fetch keyword snapshots: ${error.message}`);
+  }
+
+  const [current, previous] = data || [];
+  const snapshots = { current: current?.snapshot_date ?? null, previous: previous?.snapshot_date ?? null };
+  if (!current || !previous) return { keyword_movers: [], keyword_snapshots: snapshots };
+
+  const before = new Map(parseKeywords(previous.keywords).map((k) => [k.keyword, k.impressions]));
+  const after = new Map(parseKeywords(current.keywords).map((k) => [k.keyword, k.impressions]));
+
+  const movers: GBPKeywordMover[] = [];
+  for (const [keyword, impressions] of after) {
+    const previousImpressions = before.get(keyword) ?? null;
+    const delta = impressions - (previousImpressions ?? 0);
+    if (previousImpressions !== null && delta === 0) continue;
+    movers.push({
+      keyword,
+      impressions,
+      previousImpressions,
+      change: delta,
+      status: previousImpressions === null ? 'new' : delta > 0 ? 'up' : 'down',
+    });
+  }
+  for (const [keyword, previousImpressions] of before) {
+    if (after.has(keyword)) continue;
+    movers.push({ keyword, impressions: 0, previousImpressions, change: -previousImpressions, status: 'dropped' });
+  }
+
+  movers.sort((a, b) => Math.abs(b.change) - Math.abs(a.change) || a.keyword.localeCompare(b.keyword));
+  return { keyword_movers: movers.slice(0, MAX_KEYWORD_MOVERS), keyword_snapshots: snapshots };
+}
+
+/**
+ * Weekly series for the last `weeks` complete weeks with stored metrics,
+ * deltas for the latest of them, and keyword movers
+ */
+export async function getAnalyticsHistory(
+  supabase: SupabaseClient,
+  locationId: string,
+  weeks: number = DEFAULT_HISTORY_WEEKS
+): Promise<GBPAnalyticsHistory> {
+  const { data: latest, error } = await supabase
+    .from('gbp_daily_metrics')
+    .select('metric_date')
+    .eq('location_id', locationId)
+    .order('metric_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch daily metrics: ${error.message}`);
+  }
+
+  const keywords = await getKeywordMovers(supabase, locationId);
+
+  if (!latest) {
+    return { location_id: locationId, weeks: [], latest_week: null, deltas: null, ...keywords };
+  }
+
+  // A week is complete once its Sunday is stored
+  const latestDate: string = latest.metric_date;
+  const latestWeek = toDate(latestDate).getUTCDay() === 0 ? weekStart(latestDate) : addDays(weekStart(latestDate), -7);
+  const firstWeek = addDays(latestWeek, -(weeks - 1) * 7);
+  const yearAgoWeek = addDays(latestWeek, -364);
+
+  const [rows, yearAgoRows] = await Promise.all([
+    fetchMetricRows(supabase, locationId, firstWeek, addDays(latestWeek, 6)),
+    // Already covered when the range reaches back a year
+    yearAgoWeek < firstWeek
+      ? fetchMetricRows(supabase, locationId, yearAgoWeek, addDays(yearAgoWeek, 6))
+      : Promise.resolve([]),
+  ]);
+
+  const byWeek = rollUpWeeks([...yearAgoRows, ...rows]);
+  const current = byWeek.get(latestWeek);
+
+  return {
+    location_id: locationId,
+    weeks: [...byWeek.values()]
+      .filter((week) => week.week_start >= firstWeek)
+      .sort((a, b) => a.week_start.localeCompare(b.week_start)),
+    latest_week: current ? latestWeek : null,
+    deltas: current ? buildDeltas(current, byWeek.get(addDays(latestWeek, -7)), byWeek.get(yearAgoWeek)) : null,
+    ...keywords,
+  };
+}
@@ -10,8 +10,12 @@ import type {
   GBPLocation,
   GBPReviewsResponse,
   GBPMediaResponse,
+  GBPLocalPost,
   GBPLocalPostsResponse,
   GBPPerformanceMetrics,
+  GBPDailyMetrics,
+  GBPDailyMetricName,
+  GBPMultiDailyMetricsResponse,
   GBPAccountsResponse,
   GBPFeatureEligibility,
 } from '@/app/types/gbp';
@@ -162,22 +166,31 @@ export class GBPClient {
     );
   }
 
-  async listLocations(accountId?: string): Promise<{ locations: GBPLocation[] }> {
+  async listLocations(
+    accountId?: string,
+    pageToken?: string
+  ): Promise<{ locations: GBPLocation[]; nextPageToken?: string }> {
     const id = accountId || this.accountId;
     if (!id) throw new Error('Account ID required');
 
     const readMask = [
       'name',
       'title',
+      'storeCode',
+      'metadata',
       'storefrontAddress',
       'phoneNumbers',
       'websiteUri',
       'categories',
+      'regularHours',
+      'latlng',
+      'openInfo',
     ].join(',');
 
-    return this.fetch<{ locations: GBPLocation[] }>(
-      `${API_URLS.businessInfo}/accounts/${id}/locations?readMask=${readMask}`
-    );
+    let url = `${API_URLS.businessInfo}/accounts/${id}/locations?readMask=${readMask}&pageSize=100`;
+    if (pageToken) url += `&pageToken=${pageToken}`;
+
+    return this.fetch<{ locations: GBPLocation[]; nextPageToken?: string }>(url);
   }
 
   // =============================================================================
@@ -277,6 +290,21 @@ export class GBPClient {
     return this.fetch<GBPLocalPostsResponse>(url);
   }
 
+  async createLocalPost(
+    post: Partial<GBPLocalPost>,
+    accountId?: string,
+    locationId?: string
+  ): Promise<GBPLocalPost> {
+    const accId = accountId || this.accountId;
+    const locId = locationId || this.locationId;
+    if (!accId || !locId) throw new Error('Account and Location IDs required');
+
+    return this.fetch<GBPLocalPost>(`${API_URLS.legacy}/accounts/${accId}/locations/${locId}/localPosts`, {
+      method: 'POST',
+      body: JSON.stringify({ languageCode: 'en-US', ...post }),
+    });
+  }
+
   // =============================================================================
   // PERFORMANCE API
   // =============================================================================
@@ -306,6 +334,34 @@ export class GBPClient {
     );
   }
 
+  async getDailyMetrics(
+    metrics: GBPDailyMetricName[],
+    startDate: { year: number; month: number; day: number },
+    endDate: { year: number; month: number; day: number },
+    locationId?: string
+  ): Promise<GBPDailyMetrics[]> {
+    const id = locationId || this.locationId;
+    if (!id) throw new Error('Location ID required');
+
+    const params = new URLSearchParams({
+      'dailyRange.startDate.year': startDate.year.toString(),
+      'dailyRange.startDate.month': startDate.month.toString(),
+      'dailyRange.startDate.day': startDate.day.toString(),
+      'dailyRange.endDate.year': endDate.year.toString(),
+      'dailyRange.endDate.month': endDate.month.toString(),
+      'dailyRange.endDate.day': endDate.day.toString(),
+    });
+    metrics.forEach((metric) => params.append('dailyMetrics', metric));
+
+    const response = await this.fetch<GBPMultiDailyMetricsResponse>(
+      `${API_URLS.performance}/locations/${id}:fetchMultiDailyMetricsTimeSeries?${params}`
+    );
+
+    return (response.multiDailyMetricTimeSeries || []).flatMap(
+      (series) => series.dailyMetricTimeSeries || []
+    );
+  }
+
   // =============================================================================
   // VERIFICATIONS API
   // =============================================================================
@@ -0,0 +1,718 @@
+/**
+ * GBP Post Scheduler
+ *
+ * Posts written ahead of time and published by the gbp-scheduled-posts
+ * cron (scheduled_gbp_posts). Each row is one publication. Due rows are
+ * claimed with a compare-and-set on status, so overlapping cron runs never
+ * publish the same post twice, then posted with the connection that synced
+ * the location (falling back to the default token).
+ *
+ * A recurring post is a series of rows sharing series_id. When an
+ * occurrence is published or fails, the next one is inserted. Occurrences
+ * and their event or offer dates are counted from the series anchor (the
+ * first occurrence, or the last one edited), so a monthly post on the 31st
+ * comes back to the 31st after a short month.
+ *
+ * Migrations: 20261019090000_scheduled_gbp_posts.sql,
+ *             20261019210000_scheduled_gbp_posts_series_anchor.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  GBPLocalPost,
+  ScheduledGBPPost,
+  ScheduledPostActionType,
+  ScheduledPostEvent,
+  ScheduledPostMedia,
+  ScheduledPostOffer,
+  ScheduledPostRecurrence,
+  ScheduledPostTopicType,
+  UpcomingScheduledPost,
+} from '@/app/types/gbp';
+import type { EventActor } from '@/lib/onboarding/events';
+import { createConnectionClient } from '@/lib/sync/gbp-sync-service';
+
+export const POST_TOPIC_TYPES: ScheduledPostTopicType[] = ['STANDARD', 'EVENT', 'OFFER'];
+export const POST_RECURRENCES: ScheduledPostRecurrence[] = ['none', 'weekly', 'biweekly', 'monthly'];
+export const POST_ACTION_TYPES: ScheduledPostActionType[] = ['BOOK', 'ORDER', 'SHOP', 'LEARN_MORE', 'SIGN_UP', 'CALL'];
+
+/** Google's limits */
+export const MAX_POST_SUMMARY = 1500;
+export const MAX_EVENT_TITLE = 58;
+export const MAX_POST_MEDIA = 10;
+
+/** Most due posts published in one cron invocation */
+const DUE_BATCH_SIZE = 25;
+
+/** A row left in 'publishing' this long was interrupted mid-publish */
+const PUBLISH_TIMEOUT_MS = 15 * 60_000;
+
+/** Allow a little clock skew when checking a new post is in the future */
+const SCHEDULE_GRACE_MS = 5 * 60_000;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+export interface ScheduledPostInput {
+  account_id: string;
+  location_id: string;
+  topic_type: ScheduledPostTopicType;
+  summary: string;
+  media: ScheduledPostMedia[];
+  call_to_action: ScheduledGBPPost['call_to_action'];
+  event: ScheduledPostEvent | null;
+  offer: ScheduledPostOffer | null;
+  scheduled_for: string;
+  recurrence: ScheduledPostRecurrence;
+  recurrence_until: string | null;
+}
+
+export type ParseResult =
+  | { value: ScheduledPostInput; error?: undefined; field?: undefined }
+  | { value?: undefined; error: string; field: string };
+
+export interface DuePostsSummary {
+  due: number;
+  published: number;
+  failed: number;
+  /** Rows stuck in 'publishing' that were marked failed */
+  interrupted: number;
+  /** Next occurrences inserted for recurring posts */
+  scheduledNext: number;
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isHttpUrl = (value: unknown): value is string =>
+  typeof value === 'string' && /^https?:\/\/\S+$/i.test(value.trim());
+
+const optionalText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+
+function parseEvent(value: unknown): ScheduledPostEvent | string {
+  if (!value || typeof value !== 'object') return '"event" is required for event and offer posts';
+  const e = value as Record<string, unknown>;
+
+  const title = optionalText(e.title);
+  if (!title) return '"event.title" is required';
+  if (title.length > MAX_EVENT_TITLE) return `"event.title" must be at most ${MAX_EVENT_TITLE} characters`;
+
+  if (typeof e.start_date !== 'string' || !DATE_RE.test(e.start_date)) return '"event.start_date" must be YYYY-MM-DD';
+  if (typeof e.end_date !== 'string' || !DATE_RE.test(e.end_date)) return '"event.end_date" must be YYYY-MM-DD';
+
+  const startTime = optionalText(e.start_time);
+  const endTime = optionalText(e.end_time);
+  if (startTime && !TIME_RE.test(startTime)) return '"event.start_time" must be HH:MM';
+  if (endTime && !TIME_RE.test(endTime)) return '"event.end_time" must be HH:MM';
+
+  const start = `${e.start_date}T${startTime ?? '00:00'}`;
+  const end = `${e.end_date}T${endTime ?? '23:59'}`;
+  if (end < start) return '"event" must end after it starts';
+
+  return { title, start_date: e.start_date, start_time: startTime, end_date: e.end_date, end_time: endTime };
+}
+
+/**
+ * Validate a scheduled post body. PATCH passes the stored post merged with
+ * the changes, so cross-field rules (event required for offers, etc.) hold.
+ */
+export function parseScheduledPostInput(
+  body: Record<string, unknown>,
+  options: { requireFuture?: boolean } = {}
+): ParseResult {
+  const fail = (error: string, field: string): ParseResult => ({ error, field });
+
+  const accountId = optionalText(body.account_id);
+  const locationId = optionalText(body.location_id);
+  if (!accountId) return fail('Missing "account_id"', 'account_id');
+  if (!locationId) return fail('Missing "location_id"', 'location_id');
+
+  const topicType = (body.topic_type ?? 'STANDARD') as ScheduledPostTopicType;
+  if (!POST_TOPIC_TYPES.includes(topicType)) {
+    return fail(`Invalid "topic_type" - expected one of: ${POST_TOPIC_TYPES.join(', ')}`, 'topic_type');
+  }
+
+  const summary = optionalText(body.summary);
+  if (!summary) return fail('Missing "summary"', 'summary');
+  if (summary.length > MAX_POST_SUMMARY) return fail(`"summary" must be at most ${MAX_POST_SUMMARY} characters`, 'summary');
+
+  const rawMedia = body.media ?? [];
+  if (!Array.isArray(rawMedia)) return fail('"media" must be an array', 'media');
+  if (rawMedia.length > MAX_POST_MEDIA) return fail(`At most ${MAX_POST_MEDIA} media items`, 'media');
+  const media: ScheduledPostMedia[] = [];
+  for (const item of rawMedia) {
+    const m = typeof item === 'string' ? { sourceUrl: item } : (item as Record<string, unknown>);
+    const format = (m?.mediaFormat ?? 'PHOTO') as ScheduledPostMedia['mediaFormat'];
+    if (!isHttpUrl(m?.sourceUrl)) return fail('Each media item needs an http(s) "sourceUrl"', 'media');
+    if (format !== 'PHOTO' && format !== 'VIDEO') return fail('"mediaFormat" must be PHOTO or VIDEO', 'media');
+    media.push({ mediaFormat: format, sourceUrl: (m.sourceUrl as string).trim() });
+  }
+
+  let callToAction: ScheduledGBPPost['call_to_action'] = null;
+  if (body.call_to_action) {
+    if (topicType === 'OFFER') return fail('Offer posts cannot have a call to action', 'call_to_action');
+    const cta = body.call_to_action as Record<string, unknown>;
+    const actionType = cta.actionType as ScheduledPostActionType;
+    if (!POST_ACTION_TYPES.includes(actionType)) {
+      return fail(`Invalid "call_to_action.actionType" - expected one of: ${POST_ACTION_TYPES.join(', ')}`, 'call_to_action');
+    }
+    if (actionType !== 'CALL' && !isHttpUrl(cta.url)) {
+      return fail('"call_to_action.url" must be an http(s) URL', 'call_to_action');
+    }
+    callToAction = { actionType, url: actionType === 'CALL' ? null : (cta.url as string).trim() };
+  }
+
+  let event: ScheduledPostEvent | null = null;
+  if (topicType !== 'STANDARD') {
+    const parsed = parseEvent(body.event);
+    if (typeof parsed === 'string') return fail(parsed, 'event');
+    event = parsed;
+  }
+
+  let offer: ScheduledPostOffer | null = null;
+  if (topicType === 'OFFER') {
+    const o = (body.offer ?? {}) as Record<string, unknown>;
+    if (o.redeem_online_url && !isHttpUrl(o.redeem_online_url)) {
+      return fail('"offer.redeem_online_url" must be an http(s) URL', 'offer');
+    }
+    offer = {
+      coupon_code: optionalText(o.coupon_code),
+      redeem_online_url: optionalText(o.redeem_online_url),
+      terms_conditions: optionalText(o.terms_conditions),
+    };
+  }
+
+  const scheduledAt = typeof body.scheduled_for === 'string' ? Date.parse(body.scheduled_for) : NaN;
+  if (Number.isNaN(scheduledAt)) return fail('"scheduled_for" must be an ISO date-time', 'scheduled_for');
+  if (options.requireFuture && scheduledAt < Date.now() - SCHEDULE_GRACE_MS) {
+    return fail('"scheduled_for" must be in the future', 'scheduled_for');
+  }
+
+  const recurrence = (body.recurrence ?? 'none') as ScheduledPostRecurrence;
+  if (!POST_RECURRENCES.includes(recurrence)) {
+    return fail(`Invalid "recurrence" - expected one of: ${POST_RECURRENCES.join(', ')}`, 'recurrence');
+  }
+
+  const recurrenceUntil = recurrence === 'none' ? null : optionalText(body.recurrence_until);
+  if (recurrenceUntil && !DATE_RE.test(recurrenceUntil)) {
+    return fail('"recurrence_until" must be YYYY-MM-DD', 'recurrence_until');
+  }
+  if (recurrenceUntil && recurrenceUntil < new Date(scheduledAt).toISOString().slice(0, 10)) {
+    return fail('"recurrence_until" must be on or after the first post', 'recurrence_until');
+  }
+
+  return {
+    value: {
+      account_id: accountId,
+      location_id: locationId,
+      topic_type: topicType,
+      summary,
+      media,
+      call_to_action: callToAction,
+      event,
+      offer,
+      scheduled_for: new Date(scheduledAt).toISOString(),
+      recurrence,
+      recurrence_until: recurrenceUntil,
+    },
+  };
+}
+
+// ============================================================
+// RECURRENCE
+// ============================================================
+
+function addMonthsUTC(time: number, months: number): number {
+  const d = new Date(time);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  // Clamp the 31st to the last day of shorter months
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return d.getTime();
+}
+
+/**
+ * The time `count` periods after `time`
+ */
+function advance(time: number, recurrence: ScheduledPostRecurrence, count: number): number {
+  switch (recurrence) {
+    case 'weekly':
+      return time + count * 7 * DAY_MS;
+    case 'biweekly':
+      return time + count * 14 * DAY_MS;
+    case 'monthly':
+      return addMonthsUTC(time, count);
+    default:
+      return time;
+  }
+}
+
+function shiftDate(date: string, recurrence: ScheduledPostRecurrence, count: number): string {
+  return new Date(advance(Date.parse(`${date}T00:00:00Z`), recurrence, count)).toISOString().slice(0, 10);
+}
+
+type SeriesPosition = Pick<
+  ScheduledGBPPost,
+  'scheduled_for' | 'recurrence' | 'recurrence_until' | 'event' | 'series_anchor_at' | 'series_anchor_event' | 'occurrence_index'
+>;
+
+export interface NextOccurrence {
+  scheduled_for: string;
+  event: ScheduledPostEvent | null;
+  series_anchor_at: string;
+  series_anchor_event: ScheduledPostEvent | null;
+  occurrence_index: number;
+}
+
+/**
+ * Anchor columns for a row that starts (or restarts) a series
+ */
+function anchorOn(input: Pick<ScheduledPostInput, 'scheduled_for' | 'event'>) {
+  return { series_anchor_at: input.scheduled_for, series_anchor_event: input.event, occurrence_index: 0 };
+}
+
+/**
+ * The occurrence after this one, or null when the series has ended.
+ * Computed from the series anchor, not from this occurrence, so clamping
+ * to the end of a short month does not carry over.
+ */
+export function nextOccurrence(post: SeriesPosition): NextOccurrence | null {
+  if (post.recurrence === 'none') return null;
+
+  // Rows without an anchor count from themselves
+  const anchorAt = post.series_anchor_at ?? post.scheduled_for;
+  const anchorEvent = post.series_anchor_at ? post.series_anchor_event : post.event;
+  const index = (post.series_anchor_at ? post.occurrence_index : 0) + 1;
+
+  const next = new Date(advance(Date.parse(anchorAt), post.recurrence, index));
+  if (post.recurrence_until && next.toISOString().slice(0, 10) > post.recurrence_until) return null;
+
+  const event = anchorEvent
+    ? {
+        ...anchorEvent,
+        start_date: shiftDate(anchorEvent.start_date, post.recurrence, index),
+        end_date: shiftDate(anchorEvent.end_date, post.recurrence, index),
+      }
+    : null;
+
+  return {
+    scheduled_for: next.toISOString(),
+    event,
+    series_anchor_at: anchorAt,
+    series_anchor_event: anchorEvent,
+    occurrence_index: index,
+  };
+}
+
+/**
+ * Future occurrences of recurring series after their pending row, through `until`
+ */
+export function projectUpcomingPosts(posts: ScheduledGBPPost[], until: Date): UpcomingScheduledPost[] {
+  const upcoming: UpcomingScheduledPost[] = [];
+
+  // The latest row of each series is the one the projection continues from
+  const latest = new Map<string, ScheduledGBPPost>();
+  for (const post of posts) {
+    const current = latest.get(post.series_id);
+    if (!current || post.scheduled_for > current.scheduled_for) latest.set(post.series_id, post);
+  }
+
+  for (const post of latest.values()) {
+    if (post.status !== 'scheduled') continue;
+
+    let cursor: SeriesPosition = post;
+    for (let i = 0; i < 60; i++) {
+      const next = nextOccurrence(cursor);
+      if (!next || Date.parse(next.scheduled_for) > until.getTime()) break;
+      upcoming.push({
+        series_id: post.series_id,
+        scheduled_for: next.scheduled_for,
+        topic_type: post.topic_type,
+        summary: post.summary,
+      });
+      cursor = { ...cursor, ...next };
+    }
+  }
+
+  return upcoming.sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for));
+}
+
+// ============================================================
+// CRUD
+// ============================================================
+
+async function findConnectionId(supabase: SupabaseClient, locationId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('gbp_locations_sync')
+    .select('connection_id')
+    .eq('location_id', locationId)
+    .order('fetched_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data?.connection_id ?? null;
+}
+
+export async function listScheduledPosts(
+  supabase: SupabaseClient,
+  locationId: string,
+  range: { from: Date; to: Date }
+): Promise<ScheduledGBPPost[]> {
+  const { data, error } = await supabase
+    .from('scheduled_gbp_posts')
+    .select('*')
+    .eq('location_id', locationId)
+    .gte('scheduled_for', range.from.toISOString())
+    .lte('scheduled_for', range.to.toISOString())
+    .order('scheduled_for', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch scheduled posts: ${error.message}`);
+  }
+
+  return (data || []) as ScheduledGBPPost[];
+}
+
+/**
+ * Pending rows of recurring series at a location, wherever they fall, so
+ * projections reach into months that have no stored row yet
+ */
+export async function listPendingSeries(
+  supabase: SupabaseClient,
+  locationId: string
+): Promise<ScheduledGBPPost[]> {
+  const { data, error } = await supabase
+    .from('scheduled_gbp_posts')
+    .select('*')
+    .eq('location_id', locationId)
+    .eq('status', 'scheduled')
+    .neq('recurrence', 'none');
+
+  if (error) {
+    throw new Error(`Failed to fetch recurring posts: ${error.message}`);
+  }
+
+  return (data || []) as ScheduledGBPPost[];
+}
+
+export async function getScheduledPost(
+  supabase: SupabaseClient,
+  postId: string
+): Promise<ScheduledGBPPost | null> {
+  const { data, error } = await supabase
+    .from('scheduled_gbp_posts')
+    .select('*')
+    .eq('id', postId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch scheduled post: ${error.message}`);
+  }
+
+  return data as ScheduledGBPPost | null;
+}
+
+export async function createScheduledPost(
+  supabase: SupabaseClient,
+  input: ScheduledPostInput,
+  actor: EventActor
+): Promise<ScheduledGBPPost> {
+  const { data, error } = await supabase
+    .from('scheduled_gbp_posts')
+    .insert({
+      ...input,
+      ...anchorOn(input),
+      connection_id: await findConnectionId(supabase, input.location_id),
+      created_by: actor.email,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to schedule post: ${error?.message || 'No post returned'}`);
+  }
+
+  return data as ScheduledGBPPost;
+}
+
+/**
+ * Edit a post that has not been published. Editing a failed post puts it
+ * back on the schedule.
+ */
+export async function updateScheduledPost(
+  supabase: SupabaseClient,
+  post: ScheduledGBPPost,
+  input: ScheduledPostInput
+): Promise<ScheduledGBPPost | null> {
+  const { data, error } = await supabase
+    .from('scheduled_gbp_posts')
+    .update({
+      topic_type: input.topic_type,
+      summary: input.summary,
+      media: input.media,
+      call_to_action: input.call_to_action,
+      event: input.event,
+      offer: input.offer,
+      scheduled_for: input.scheduled_for,
+      recurrence: input.recurrence,
+      recurrence_until: input.recurrence_until,
+      // Later occurrences follow the edited one
+      ...anchorOn(input),
+      status: 'scheduled',
+      error_message: null,
+    })
+    .eq('id', post.id)
+    .in('status', ['scheduled', 'failed'])
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update scheduled post: ${error.message}`);
+  }
+
+  return data as ScheduledGBPPost | null;
+}
+
+/**
+ * Delete a post that has not been published, or every unpublished
+ * occurrence of its series. Published rows are kept as history.
+ */
+export async function deleteScheduledPost(
+  supabase: SupabaseClient,
+  post: ScheduledGBPPost,
+  options: { series?: boolean } = {}
+): Promise<number> {
+  let query = supabase
+    .from('scheduled_gbp_posts')
+    .delete()
+    .in('status', ['scheduled', 'failed']);
+
+  query = options.series ? query.eq('series_id', post.series_id) : query.eq('id', post.id);
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    throw new Error(`Failed to delete scheduled post: ${error.message}`);
+  }
+
+  return data?.length ?? 0;
+}
+
+// ============================================================
+// PUBLISHING
+// ============================================================
+
+function toGoogleDate(date: string) {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month, day };
+}
+
+function toGoogleTime(time: string | null | undefined) {
+  if (!time) return undefined;
+  const [hours, minutes] = time.split(':').map(Number);
+  return { hours, minutes };
+}
+
+/**
+ * Google LocalPost body for a scheduled post
+ */
+export function toLocalPost(post: ScheduledGBPPost): Partial<GBPLocalPost> {
+  const body: Record<string, unknown> = {
+    topicType: post.topic_type,
+    summary: post.summary,
+  };
+
+  if (post.media.length > 0) body.media = post.media;
+
+  if (post.call_to_action) {
+    body.callToAction = post.call_to_action.url
+      ? { actionType: post.call_to_action.actionType, url: post.call_to_action.url }
+      : { actionType: post.call_to_action.actionType };
+  }
+
+  if (post.event) {
+    body.event = {
+      title: post.event.title,
+      schedule: {
+        startDate: toGoogleDate(post.event.start_date),
+        startTime: toGoogleTime(post.event.start_time),
+        endDate: toGoogleDate(post.event.end_date),
+        endTime: toGoogleTime(post.event.end_time),
+      },
+    };
+  }
+
+  if (post.offer) {
+    body.offer = {
+      couponCode: post.offer.coupon_code ?? undefined,
+      redeemOnlineUrl: post.offer.redeem_online_url ?? undefined,
+      termsConditions: post.offer.terms_conditions ?? undefined,
+    };
+  }
+
+  return body as Partial<GBPLocalPost>;
+}
+
+/**
+ * Insert the next occurrence of a recurring post (no-op at the end of the series)
+ */
+async function scheduleNextOccurrence(supabase: SupabaseClient, post: ScheduledGBPPost): Promise<boolean> {
+  const next = nextOccurrence(post);
+  if (!next) return false;
+
+  const { error } = await supabase
+    .from('scheduled_gbp_posts')
+    .upsert(
+      {
+        series_id: post.series_id,
+        account_id: post.account_id,
+        location_id: post.location_id,
+        connection_id: post.connection_id,
+        topic_type: post.topic_type,
+        summary: post.summary,
+        media: post.media,
+        call_to_action: post.call_to_action,
+        event: next.event,
+        offer: post.offer,
+        scheduled_for: next.scheduled_for,
+        recurrence: post.recurrence,
+        recurrence_until: post.recurrence_until,
+        series_anchor_at: next.series_anchor_at,
+        series_anchor_event: next.series_anchor_event,
+        occurrence_index: next.occurrence_index,
+        created_by: post.created_by,
+      },
+      { onConflict: 'series_id,scheduled_for', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error(`[GBP Post Scheduler] Failed to schedule next occurrence of ${post.series_id}:`, error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Publish one claimed post and record the outcome
+ */
+async function publishClaimedPost(supabase: SupabaseClient, post: ScheduledGBPPost): Promise<boolean> {
+  try {
+    const connectionId = post.connection_id ?? await findConnectionId(supabase, post.location_id);
+    const client = await createConnectionClient(connectionId);
+    const created = await client.createLocalPost(toLocalPost(post), post.account_id, post.location_id);
+
+    await supabase
+      .from('scheduled_gbp_posts')
+      .update({
+        status: 'published',
+        connection_id: connectionId,
+        post_name: created.name ?? null,
+        search_url: created.searchUrl ?? null,
+        published_at: new Date().toISOString(),
+        error_message: null,
+      })
+      .eq('id', post.id);
+
+    console.log(`[GBP Post Scheduler] Published ${post.id} as ${created.name}`);
+    return true;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error(`[GBP Post Scheduler] Failed to publish ${post.id}:`, message);
+
+    await supabase
+      .from('scheduled_gbp_posts')
+      .update({ status: 'failed', error_message: message })
+      .eq('id', post.id);
+
+    return false;
+  }
+}
+
+/**
+ * Publish every post that is due. Rows interrupted mid-publish are marked
+ * failed (Google may or may not have the post) so a person can check and retry.
+ */
+export async function publishDuePosts(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<DuePostsSummary> {
+  const summary: DuePostsSummary = { due: 0, published: 0, failed: 0, interrupted: 0, scheduledNext: 0 };
+
+  const { data: stuck } = await supabase
+    .from('scheduled_gbp_posts')
+    .update({ status: 'failed', error_message: 'Publishing was interrupted - check the location before retrying' })
+    .eq('status', 'publishing')
+    .lt('updated_at', new Date(now.getTime() - PUBLISH_TIMEOUT_MS).toISOString())
+    .select('*');
+
+  for (const post of (stuck || []) as ScheduledGBPPost[]) {
+    summary.interrupted++;
+    if (await scheduleNextOccurrence(supabase, post)) summary.scheduledNext++;
+  }
+
+  const { data: due, error } = await supabase
+    .from('scheduled_gbp_posts')
+    .select('*')
+    .eq('status', 'scheduled')
+    .lte('scheduled_for', now.toISOString())
+    .order('scheduled_for', { ascending: true })
+    .limit(DUE_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to fetch due posts: ${error.message}`);
+  }
+
+  for (const candidate of (due || []) as ScheduledGBPPost[]) {
+    // Claim the row; another invocation may have taken it
+    const { data: claimed } = await supabase
+      .from('scheduled_gbp_posts')
+      .update({ status: 'publishing', attempts: candidate.attempts + 1 })
+      .eq('id', candidate.id)
+      .eq('status', 'scheduled')
+      .select('*')
+      .maybeSingle();
+
+    if (!claimed) continue;
+    summary.due++;
+
+    const post = claimed as ScheduledGBPPost;
+    if (await publishClaimedPost(supabase, post)) summary.published++;
+    else summary.failed++;
+
+    // The series carries on whether or not this occurrence went out
+    if (post.attempts === 1 && await scheduleNextOccurrence(supabase, post)) summary.scheduledNext++;
+  }
+
+  return summary;
+}
+
+/**
+ * Put a failed post back on the schedule to publish on the next cron run
+ */
+export async function retryScheduledPost(
+  supabase: SupabaseClient,
+  post: ScheduledGBPPost
+): Promise<ScheduledGBPPost | null> {
+  const { data, error } = await supabase
+    .from('scheduled_gbp_posts')
+    .update({
+      status: 'scheduled',
+      error_message: null,
+      scheduled_for: new Date(Math.max(Date.now(), Date.parse(post.scheduled_for))).toISOString(),
+    })
+    .eq('id', post.id)
+    .eq('status', 'failed')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to retry scheduled post: ${error.message}`);
+  }
+
+  return data as ScheduledGBPPost | null;
+}
@@ -0,0 +1,136 @@
+/**
+ * US Places Dataset
+ *
+ * Offline lookup of US cities, towns and communities (unincorporated
+ * places and large neighborhoods) with their coordinates and population,
+ * plus ZIP code centroids. Built by scripts/import/build-us-places.ts into
+ * lib/geo/data/, from either the Census Bureau Gazetteer files or GeoNames.
+ *
+ * The committed files come from GeoNames (cities1000 and the US postal code
+ * dump; https://www.geonames.org, CC BY 4.0): ~17k places with 1,000+
+ * people and ~41k ZIPs. They are read once per server instance and kept in
+ * memory.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const DATA_DIR = path.join(process.cwd(), 'lib', 'geo', 'data');
+const PLACES_FILE = path.join(DATA_DIR, 'us-places.json');
+const ZIPS_FILE = path.join(DATA_DIR, 'us-zips.json');
+
+const EARTH_RADIUS_MILES = 3958.8;
+const MILES_PER_DEGREE_LAT = 69;
+
+export type UsPlaceKind = 'city' | 'community';
+
+export interface UsPlace {
+  name: string;
+  /** Two-letter state code */
+  state: string;
+  lat: number;
+  lng: number;
+  /** Latest estimate; null when the source has none (Census communities) */
+  population: number | null;
+  kind: UsPlaceKind;
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface NearbyPlace extends UsPlace {
+  distanceMiles: number;
+}
+
+/** Row layout of us-places.json: [name, state, lat, lng, population, kind] */
+type PlaceRow = [string, string, number, number, number | null, UsPlaceKind];
+
+/** us-zips.json: ZIP -> [lat, lng] */
+type ZipIndex = Record<string, [number, number]>;
+
+let _places: UsPlace[] | null = null;
+let _zips: ZipIndex | null = null;
+
+function readDataFile<T>(file: string): T {
+  if (!fs.existsSync(file)) {
+    throw new Error(`US places dataset not found at ${path.relative(process.cwd(), file)}. Run scripts/import/build-us-places.ts`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+}
+
+export function isUsPlacesDatasetAvailable(): boolean {
+  return fs.existsSync(PLACES_FILE) && fs.existsSync(ZIPS_FILE);
+}
+
+export function loadUsPlaces(): UsPlace[] {
+  if (!_places) {
+    _places = readDataFile<PlaceRow[]>(PLACES_FILE).map(([name, state, lat, lng, population, kind]) => ({
+      name,
+      state,
+      lat,
+      lng,
+      population,
+      kind,
+    }));
+  }
+  return _places;
+}
+
+function loadZips(): ZipIndex {
+  if (!_zips) {
+    _zips = readDataFile<ZipIndex>(ZIPS_FILE);
+  }
+  return _zips;
+}
+
+/**
+ * Great-circle distance in miles
+ */
+export function distanceMiles(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Centroid of a 5-digit ZIP code (ZIP+4 accepted)
+ */
+export function lookupZip(zip: string): LatLng | null {
+  const match = zip.trim().match(/^(\d{5})(?:-\d{4})?$/);
+  if (!match) return null;
+  const point = loadZips()[match[1]];
+  return point ? { lat: point[0], lng: point[1] } : null;
+}
+
+/**
+ * Find a place by name and state (case-insensitive). Prefers the city when a
+ * city and a community share the name.
+ */
+export function findPlace(name: string, state: string): UsPlace | null {
+  const wantName = name.trim().toLowerCase();
+  const wantState = state.trim().toUpperCase();
+  const matches = loadUsPlaces().filter((p) => p.state === wantState && p.name.toLowerCase() === wantName);
+  return matches.find((p) => p.kind === 'city') ?? matches[0] ?? null;
+}
+
+/**
+ * Places within radiusMiles of a point, nearest first
+ */
+export function placesWithinRadius(origin: LatLng, radiusMiles: number): NearbyPlace[] {
+  // Cheap bounding box before the exact distance
+  const latSpan = radiusMiles / MILES_PER_DEGREE_LAT;
+  const lngSpan = radiusMiles / (MILES_PER_DEGREE_LAT * Math.max(0.01, Math.cos((origin.lat * Math.PI) / 180)));
+
+  const nearby: NearbyPlace[] = [];
+  for (const place of loadUsPlaces()) {
+    if (Math.abs(place.lat - origin.lat) > latSpan || Math.abs(place.lng - origin.lng) > lngSpan) continue;
+    const distance = distanceMiles(origin, place);
+    if (distance <= radiusMiles) nearby.push({ ...place, distanceMiles: distance });
+  }
+
+  return nearby.sort((a, b) => a.distanceMiles - b.distanceMiles);
+}
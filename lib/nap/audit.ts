@@ -0,0 +1,234 @@
+/**
+ * NAP Consistency Audit
+ *
+ * Compares every source's listing (see sources.ts) field by field against a
+ * reference record, scores each source 0-100 and lists the edits that would
+ * bring it in line. Each run is stored in nap_audits so improvement can be
+ * tracked.
+ *
+ * The reference is the enriched_businesses master record, falling back to
+ * the HubSpot contact and then the linked Google place; fields the primary
+ * reference lacks are filled from the next one in that order.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { EventActor } from '@/lib/onboarding/events'
+import { NAP_FIELD_LABELS } from '@/app/types/nap'
+import type {
+  NapAudit,
+  NapField,
+  NapFieldResult,
+  NapFieldStatus,
+  NapFix,
+  NapHours,
+  NapRecord,
+  NapSource,
+  NapSourceResult,
+} from '@/app/types/nap'
+import {
+  canonicalBusinessName,
+  nameSimilarity,
+  normalizeCity,
+  samePhone,
+  splitStreet,
+  toStateCode,
+  websiteHost,
+  websiteKey,
+  zip5,
+} from '@/lib/normalize'
+import { loadNapSources } from './sources'
+
+const NAP_FIELDS: NapField[] = ['name', 'street', 'city', 'state', 'zip', 'phone', 'website', 'hours']
+
+const REFERENCE_ORDER: NapSource[] = ['enriched', 'hubspot', 'google']
+
+const FIX_ACTIONS: Record<NapSource, (label: string) => string> = {
+  hubspot: (label) => `Update the ${label} on the HubSpot contact`,
+  enriched: (label) => `Update the ${label} on the enriched business record`,
+  google: (label) => `Correct the ${label} on Google Maps (via the Business Profile if claimed)`,
+  foursquare: (label) => `Propose a ${label} edit on the Foursquare venue`,
+  gbp: (label) => `Update the ${label} in Google Business Profile`,
+  brightlocal: (label) => `Update the ${label} on the BrightLocal location and resubmit citations`,
+}
+
+const STATUS_SCORES: Record<NapFieldStatus, number> = { match: 1, partial: 0.5, mismatch: 0, missing: 0 }
+
+// ─── Display ─────────────────────────────────────────────────
+
+const HOUR_DAYS: Array<keyof NapHours> = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']
+
+export function formatHours(hours: NapHours): string {
+  const clock = (hhmm: string) => `${hhmm.slice(0, 2)}:${hhmm.slice(2)}`
+  return HOUR_DAYS.map((day) => {
+    const ranges = hours[day]
+    const label = day[0].toUpperCase() + day.slice(1)
+    if (!ranges?.length) return `${label} closed`
+    return `${label} ${ranges.map((r) => r.split('-').map(clock).join('-')).join(', ')}`
+  }).join('; ')
+}
+
+/** Display form of a record's field (hours flattened to one line) */
+function display(record: NapRecord, field: NapField): string | null {
+  if (field === 'hours') return record.hours ? formatHours(record.hours) : null
+  const value = record[field]?.trim()
+  return value || null
+}
+
+// ─── Comparison ──────────────────────────────────────────────
+
+/** One field against the reference; both records must have it */
+export function compareField(field: NapField, value: NapRecord, expected: NapRecord): NapFieldStatus {
+  if (field === 'hours') {
+    const a = value.hours!
+    const b = expected.hours!
+    if (HOUR_DAYS.every((d) => (a[d] ?? []).join() === (b[d] ?? []).join())) return 'match'
+    return HOUR_DAYS.every((d) => !a[d] === !b[d]) ? 'partial' : 'mismatch'
+  }
+
+  const raw = value[field]!
+  const ref = expected[field]!
+
+  switch (field) {
+    case 'name': {
+      const a = canonicalBusinessName(raw) ?? ''
+      const b = canonicalBusinessName(ref) ?? ''
+      if (a === b) return 'match'
+      return a.includes(b) || b.includes(a) || nameSimilarity(raw, ref) >= 0.6 ? 'partial' : 'mismatch'
+    }
+    case 'street': {
+      const a = splitStreet(raw)
+      const b = splitStreet(ref)
+      if (!a || !b) return 'mismatch'
+      if (a.street === b.street) return a.unit === b.unit ? 'match' : 'partial'
+      // Same house number, mostly the same street name
+      const aWords = a.street.split(' ')
+      const bWords = b.street.split(' ')
+      return aWords[0] === bWords[0] && nameSimilarity(a.street, b.street) >= 0.5 ? 'partial' : 'mismatch'
+    }
+    case 'city':
+      return normalizeCity(raw) === normalizeCity(ref) ? 'match' : 'mismatch'
+    case 'state': {
+      const code = toStateCode(raw)
+      return code !== null && code === toStateCode(ref) ? 'match' : 'mismatch'
+    }
+    case 'zip': {
+      const zip = zip5(raw)
+      return zip !== null && zip === zip5(ref) ? 'match' : 'mismatch'
+    }
+    case 'phone':
+      return samePhone(raw, ref) ? 'match' : 'mismatch'
+    case 'website': {
+      const a = websiteKey(raw)
+      if (a !== null && a === websiteKey(ref)) return 'match'
+      const host = websiteHost(raw)
+      return host !== null && host === websiteHost(ref) ? 'partial' : 'mismatch'
+    }
+  }
+}
+
+/** Every field the reference has, scored (missing when the record lacks it) */
+export function compareRecord(record: NapRecord, reference: NapRecord): NapFieldResult[] {
+  return NAP_FIELDS
+    .filter((field) => (field === 'hours' ? reference.hours : reference[field]?.trim()))
+    .map((field) => {
+      const value = display(record, field)
+      const status = value === null ? 'missing' : compareField(field, record, reference)
+      return { field, status, value, expected: display(reference, field), score: STATUS_SCORES[status] }
+    })
+}
+
+/** First source in REFERENCE_ORDER with a name, gaps filled from the others */
+export function buildReference(records: Map<NapSource, NapRecord>): { source: NapSource | null; record: NapRecord | null } {
+  const candidates = REFERENCE_ORDER.map((s) => records.get(s)).filter((r): r is NapRecord => !!r?.name)
+  const source = REFERENCE_ORDER.find((s) => records.get(s)?.name) ?? null
+  if (!source) return { source: null, record: null }
+
+  const record = { ...candidates[0] }
+  for (const field of NAP_FIELDS) {
+    if (field === 'hours') {
+      record.hours = candidates.find((c) => c.hours)?.hours ?? null
+    } else {
+      record[field] = candidates.find((c) => c[field]?.trim())?.[field] ?? null
+    }
+  }
+  return { source, record }
+}
+
+// ─── Runs ────────────────────────────────────────────────────
+
+const AUDIT_COLUMNS = 'id, hubspot_contact_id, score, reference_source, reference, sources, fixes, created_by, created_at'
+
+/**
+ * Read every source, score it against the reference and store the run
+ */
+export async function runNapAudit(
+  supabase: SupabaseClient,
+  contactId: string,
+  actor: EventActor
+): Promise<NapAudit> {
+  const loaded = await loadNapSources(supabase, contactId)
+
+  const records = new Map<NapSource, NapRecord>()
+  for (const entry of loaded) if (entry.record) records.set(entry.source, entry.record)
+  const { source: referenceSource, record: reference } = buildReference(records)
+
+  const sources: NapSourceResult[] = loaded.map((entry) => {
+    if (!entry.record || !reference) {
+      return { source: entry.source, status: entry.status, error: entry.error, record: entry.record, fields: [], score: null }
+    }
+    const fields = compareRecord(entry.record, reference)
+    const score = fields.length
+      ? Math.round((fields.reduce((sum, f) => sum + f.score, 0) / fields.length) * 100)
+      : null
+    return { source: entry.source, status: entry.status, record: entry.record, fields, score }
+  })
+
+  const fixes: NapFix[] = sources.flatMap((result) =>
+    result.fields
+      .filter((f) => f.status !== 'match' && f.expected)
+      .map((f) => ({
+        source: result.source,
+        field: f.field,
+        current: f.value,
+        expected: f.expected!,
+        action: FIX_ACTIONS[result.source](NAP_FIELD_LABELS[f.field]),
+      }))
+  )
+
+  const scored = sources.filter((s) => s.source !== referenceSource && s.score !== null)
+  const score = scored.length
+    ? Math.round((scored.reduce((sum, s) => sum + s.score!, 0) / scored.length) * 10) / 10
+    : null
+
+  const { data, error } = await supabase
+    .from('nap_audits')
+    .insert({
+      hubspot_contact_id: contactId,
+      score,
+      reference_source: referenceSource,
+      reference,
+      sources,
+      fixes,
+      created_by: actor.email,
+    })
+    .select(AUDIT_COLUMNS)
+    .single()
+
+  if (error) throw new Error(`Failed to save NAP audit: ${error.message}`)
+  return data as NapAudit
+}
+
+/**
+ * Stored runs for a contact, newest first
+ */
+export async function listNapAudits(supabase: SupabaseClient, contactId: string, limit = 20): Promise<NapAudit[]> {
+  const { data, error } = await supabase
+    .from('nap_audits')
+    .select(AUDIT_COLUMNS)
+    .eq('hubspot_contact_id', contactId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(`Failed to load NAP audits: ${error.message}`)
+  return (data || []) as NapAudit[]
+}
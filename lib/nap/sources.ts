@@ -0,0 +1,384 @@
+/**
+ * NAP Sources
+ *
+ * Reads one contact's listing from every source we hold or can look up,
+ * as raw NapRecords. Each reader throws on a failed lookup and returns null
+ * when the contact has no listing there; loadNapSources turns that into a
+ * per-source status so one broken integration doesn't sink the audit.
+ *
+ * Hours arrive in four shapes (Google periods, GBP periods, Foursquare
+ * "HHMM" pairs and the free-text enriched_businesses map) and are reduced
+ * to NapHours here.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PlacesClient, type PlaceDetails } from '@/lib/places/client'
+import { fetchFoursquareVenue, getFoursquareApiKey } from '@/lib/onboarding/foursquare'
+import type { NapHours, NapRecord, NapSource } from '@/app/types/nap'
+import type { FoursquarePlace } from '@/app/types/onboarding'
+import { zip5 } from '@/lib/normalize'
+
+type Day = keyof NapHours
+
+/** Indexed by JS day number (0 = Sunday), which Google also uses */
+const DAYS: Day[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+const DAY_NAMES: Record<string, Day> = {
+  sunday: 'sun', monday: 'mon', tuesday: 'tue', wednesday: 'wed',
+  thursday: 'thu', friday: 'fri', saturday: 'sat',
+}
+
+export interface LoadedSource {
+  source: NapSource
+  status: 'ok' | 'not_linked' | 'error'
+  error?: string
+  record: NapRecord | null
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+function addRange(hours: NapHours, day: Day | undefined, open: string, close: string) {
+  if (!day) return
+  if (!hours[day]) hours[day] = []
+  hours[day]!.push(`${open}-${close}`)
+}
+
+function finishHours(hours: NapHours): NapHours | null {
+  const days = Object.keys(hours) as Day[]
+  if (days.length === 0) return null
+  for (const day of days) hours[day]!.sort()
+  return hours
+}
+
+function hoursFromGoogle(periods: NonNullable<PlaceDetails['regularOpeningHours']>['periods']): NapHours | null {
+  if (!periods?.length) return null
+  const hours: NapHours = {}
+  for (const period of periods) {
+    // Open around the clock is a single period with no close
+    if (!period.close) {
+      for (const day of DAYS) addRange(hours, day, '0000', '2400')
+      continue
+    }
+    const close = period.close.hour === 0 && period.close.minute === 0 ? '2400' : `${pad(period.close.hour)}${pad(period.close.minute)}`
+    addRange(hours, DAYS[period.open.day], `${pad(period.open.hour)}${pad(period.open.minute)}`, close)
+  }
+  return finishHours(hours)
+}
+
+interface GbpPeriod {
+  openDay: string
+  openTime?: { hours?: number; minutes?: number }
+  closeDay: string
+  closeTime?: { hours?: number; minutes?: number }
+}
+
+function hoursFromGbp(regularHours: { periods?: GbpPeriod[] } | null | undefined): NapHours | null {
+  if (!regularHours?.periods?.length) return null
+  const hours: NapHours = {}
+  for (const period of regularHours.periods) {
+    const open = `${pad(period.openTime?.hours ?? 0)}${pad(period.openTime?.minutes ?? 0)}`
+    const closeHours = period.closeTime?.hours ?? 0
+    const closeMinutes = period.closeTime?.minutes ?? 0
+    const close = closeHours === 0 && closeMinutes === 0 ? '2400' : `${pad(closeHours)}${pad(closeMinutes)}`
+    addRange(hours, DAY_NAMES[period.openDay.toLowerCase()], open, close)
+  }
+  return finishHours(hours)
+}
+
+function hoursFromFoursquare(regular: Array<{ day: number; open: string; close: string }> | undefined): NapHours | null {
+  if (!regular?.length) return null
+  const hours: NapHours = {}
+  for (const entry of regular) {
+    // Foursquare days run 1 (Monday) to 7 (Sunday); "+0200" closes after midnight
+    const close = entry.close.replace('+', '')
+    addRange(hours, DAYS[entry.day % 7], entry.open, close === '0000' ? '2400' : close)
+  }
+  return finishHours(hours)
+}
+
+/** "9", "9:30", "9am", "9:30 PM" -> minutes after midnight, plus the am/pm given (if any) */
+function parseClock(text: string): { minutes: number; meridiem: 'am' | 'pm' | null } | null {
+  const match = text.trim().toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?$/)
+  if (!match) return null
+  let hour = Number(match[1])
+  const minute = Number(match[2] ?? 0)
+  const meridiem = match[3] ? (match[3].startsWith('p') ? 'pm' : 'am') : null
+  if (meridiem === 'pm' && hour < 12) hour += 12
+  if (meridiem === 'am' && hour === 12) hour = 0
+  if (hour > 24 || minute > 59) return null
+  return { minutes: hour * 60 + minute, meridiem }
+}
+
+const toHHMM = (minutes: number) => `${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`
+
+/**
+ * enriched_businesses.business_hours: { "monday": "9:00 AM - 5:00 PM", "sunday": "Closed" }.
+ * Bare hours ("9-5") close in the afternoon. Anything unreadable drops the
+ * whole map rather than comparing half of it.
+ */
+function hoursFromText(map: Record<string, unknown> | null | undefined): NapHours | null {
+  if (!map || typeof map !== 'object') return null
+  const hours: NapHours = {}
+  for (const [key, raw] of Object.entries(map)) {
+    const day = DAY_NAMES[key.toLowerCase()]
+    if (!day || typeof raw !== 'string') continue
+    const text = raw.trim().toLowerCase()
+    if (!text || text === 'closed') continue
+    if (text.includes('24 hours')) {
+      addRange(hours, day, '0000', '2400')
+      continue
+    }
+    for (const range of text.split(',')) {
+      const [openText, closeText] = range.split(/\s*[-–]\s*|\s+to\s+/)
+      if (!openText || !closeText) return null
+      const open = parseClock(openText)
+      const close = parseClock(closeText)
+      if (!open || !close) return null
+      let closeMinutes = close.minutes
+      if (close.meridiem === null && closeMinutes <= open.minutes) closeMinutes += 12 * 60
+      if (closeMinutes === 0) closeMinutes = 24 * 60
+      addRange(hours, day, toHHMM(open.minutes), toHHMM(closeMinutes))
+    }
+  }
+  return finishHours(hours)
+}
+
+function addressPart(place: PlaceDetails, type: string, short = false): string | null {
+  const comp = place.addressComponents?.find((c) => c.types.includes(type))
+  return comp ? (short ? comp.shortText : comp.longText) : null
+}
+
+function recordFromGooglePlace(place: PlaceDetails): NapRecord {
+  const number = addressPart(place, 'street_number')
+  const route = addressPart(place, 'route')
+  const unit = addressPart(place, 'subpremise')
+  const street = number && route ? `${number} ${route}${unit ? ` #${unit}` : ''}` : null
+
+  return {
+    name: place.displayName?.text ?? null,
+    street,
+    city: addressPart(place, 'locality'),
+    state: addressPart(place, 'administrative_area_level_1', true),
+    zip: addressPart(place, 'postal_code'),
+    phone: place.nationalPhoneNumber || place.internationalPhoneNumber || null,
+    website: place.websiteUri ?? null,
+    hours: hoursFromGoogle(place.regularOpeningHours?.periods),
+  }
+}
+
+async function readHubSpot(supabase: SupabaseClient, contactId: string): Promise<NapRecord | null> {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('company, address, city, state, zip, phone, mobilephone, website')
+    .eq('hs_object_id', contactId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load contact: ${error.message}`)
+  if (!data) return null
+
+  return {
+    name: data.company || null,
+    street: data.address || null,
+    city: data.city || null,
+    state: data.state || null,
+    zip: data.zip || null,
+    phone: data.phone || data.mobilephone || null,
+    website: data.website || null,
+    hours: null,
+  }
+}
+
+async function readEnriched(supabase: SupabaseClient, contactId: string): Promise<NapRecord | null> {
+  const { data, error } = await supabase
+    .from('enriched_businesses')
+    .select('business_name, street_address, city, state, zip_code, phone, website, business_hours')
+    .eq('hubspot_contact_id', contactId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load enriched business: ${error.message}`)
+  if (!data) return null
+
+  return {
+    name: data.business_name || null,
+    street: data.street_address || null,
+    city: data.city || null,
+    state: data.state || null,
+    zip: data.zip_code || null,
+    phone: data.phone || null,
+    website: data.website || null,
+    hours: hoursFromText(data.business_hours),
+  }
+}
+
+/**
+ * The linked place from places_details_cache while it is fresh, otherwise
+ * from the Places API (and written back to the cache)
+ */
+async function readGooglePlace(supabase: SupabaseClient, placeId: string | null): Promise<NapRecord | null> {
+  if (!placeId) return null
+
+  const { data: cached } = await supabase
+    .from('places_details_cache')
+    .select('details')
+    .eq('place_id', placeId)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle()
+
+  if (cached?.details) return recordFromGooglePlace(cached.details as PlaceDetails)
+
+  const place = await new PlacesClient().getPlaceDetails(placeId, { includeReviews: false, includePhotos: false })
+
+  const { error: cacheError } = await supabase.from('places_details_cache').upsert({
+    place_id: placeId,
+    details: place,
+    name: place.displayName?.text ?? null,
+    formatted_address: place.formattedAddress ?? null,
+    rating: place.rating ?? null,
+    total_reviews: place.userRatingCount ?? null,
+    phone: place.nationalPhoneNumber ?? null,
+    website: place.websiteUri ?? null,
+    created_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + 90 * 86_400_000).toISOString(),
+  }, { onConflict: 'place_id' })
+  if (cacheError) console.warn('[NAP] Places cache write failed:', cacheError.message)
+
+  return recordFromGooglePlace(place)
+}
+
+async function readFoursquare(venueId: string | null): Promise<NapRecord | null> {
+  if (!venueId) return null
+
+  const apiKey = getFoursquareApiKey()
+  if (!apiKey) throw new Error('Foursquare API key not configured')
+
+  const venue = await fetchFoursquareVenue(venueId, apiKey)
+  if (!venue) throw new Error(`Linked venue ${venueId} no longer exists on Foursquare`)
+
+  return recordFromFoursquare(venue)
+}
+
+export function recordFromFoursquare(venue: FoursquarePlace): NapRecord {
+  return {
+    name: venue.name || null,
+    street: venue.location?.address || null,
+    city: venue.location?.locality || null,
+    state: venue.location?.region || null,
+    zip: venue.location?.postcode || null,
+    phone: venue.tel || null,
+    website: venue.website || null,
+    hours: hoursFromFoursquare(venue.hours?.regular),
+  }
+}
+
+/**
+ * The contact's synced GBP location (clients -> connected accounts ->
+ * gbp_locations_sync). With several, the one in the reference ZIP wins.
+ */
+async function readGbp(supabase: SupabaseClient, contactId: string, zip: string | null): Promise<NapRecord | null> {
+  const { data: clients } = await supabase.from('clients').select('id').eq('hubspot_contact_id', contactId)
+  if (!clients?.length) return null
+
+  const { data: connections } = await supabase
+    .from('pipedream_connected_accounts')
+    .select('id')
+    .in('client_id', clients.map((c) => c.id))
+  if (!connections?.length) return null
+
+  const { data: locations, error } = await supabase
+    .from('gbp_locations_sync')
+    .select('title, address_lines, locality, administrative_area, postal_code, primary_phone, website_uri, metadata')
+    .in('connection_id', connections.map((c) => c.id))
+
+  if (error) throw new Error(`Failed to load GBP locations: ${error.message}`)
+  if (!locations?.length) return null
+
+  const target = zip5(zip)
+  const location = locations.find((l) => target && zip5(l.postal_code) === target) ?? locations[0]
+
+  return {
+    name: location.title || null,
+    street: (location.address_lines || []).filter(Boolean).join(' ') || null,
+    city: location.locality || null,
+    state: location.administrative_area || null,
+    zip: location.postal_code || null,
+    phone: location.primary_phone || null,
+    website: location.website_uri || null,
+    hours: hoursFromGbp(location.metadata?.regularHours),
+  }
+}
+
+async function readBrightLocal(supabase: SupabaseClient, contactId: string): Promise<NapRecord | null> {
+  const { data, error } = await supabase
+    .from('brightlocal_locations')
+    .select('business_name, address_line_1, address_line_2, city, state_province, postal_code, phone, website_url')
+    .eq('hubspot_contact_id', contactId)
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load BrightLocal location: ${error.message}`)
+  if (!data) return null
+
+  return {
+    name: data.business_name || null,
+    street: [data.address_line_1, data.address_line_2].filter(Boolean).join(' ') || null,
+    city: data.city || null,
+    state: data.state_province || null,
+    zip: data.postal_code || null,
+    phone: data.phone || null,
+    website: data.website_url || null,
+    hours: null,
+  }
+}
+
+async function settle(source: NapSource, read: () => Promise<NapRecord | null>): Promise<LoadedSource> {
+  try {
+    const record = await read()
+    return record ? { source, status: 'ok', record } : { source, status: 'not_linked', record: null }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`[NAP] ${source} lookup failed:`, message)
+    return { source, status: 'error', error: message, record: null }
+  }
+}
+
+/**
+ * Only the sources the reference record is built from (hubspot, enriched,
+ * google) - for checks that compare one listing against it
+ */
+export async function loadReferenceSources(supabase: SupabaseClient, contactId: string): Promise<LoadedSource[]> {
+  const { data: identity } = await supabase
+    .from('service_identity_map')
+    .select('google_place_id')
+    .eq('hubspot_contact_id', contactId)
+    .maybeSingle()
+
+  return Promise.all([
+    settle('hubspot', () => readHubSpot(supabase, contactId)),
+    settle('enriched', () => readEnriched(supabase, contactId)),
+    settle('google', () => readGooglePlace(supabase, identity?.google_place_id ?? null)),
+  ])
+}
+
+/**
+ * Every source's listing for a contact, in NapSource order
+ */
+export async function loadNapSources(supabase: SupabaseClient, contactId: string): Promise<LoadedSource[]> {
+  const { data: identity } = await supabase
+    .from('service_identity_map')
+    .select('google_place_id, foursquare_venue_id')
+    .eq('hubspot_contact_id', contactId)
+    .maybeSingle()
+
+  const [hubspot, enriched, google, foursquare, brightlocal] = await Promise.all([
+    settle('hubspot', () => readHubSpot(supabase, contactId)),
+    settle('enriched', () => readEnriched(supabase, contactId)),
+    settle('google', () => readGooglePlace(supabase, identity?.google_place_id ?? null)),
+    settle('foursquare', () => readFoursquare(identity?.foursquare_venue_id ?? null)),
+    settle('brightlocal', () => readBrightLocal(supabase, contactId)),
+  ])
+
+  const zip = enriched.record?.zip ?? hubspot.record?.zip ?? google.record?.zip ?? null
+  const gbp = await settle('gbp', () => readGbp(supabase, contactId, zip))
+
+  return [hubspot, enriched, google, foursquare, gbp, brightlocal]
+}
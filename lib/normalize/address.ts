@@ -0,0 +1,128 @@
+/**
+ * Street Address Normalization
+ *
+ * USPS Publication 28 style: upper case, no punctuation, standard suffix,
+ * directional and unit abbreviations ("123 North Main Street, Suite 200"
+ * -> "123 N MAIN ST STE 200"). This is a comparison key; submit the
+ * address as the client wrote it.
+ */
+
+/** Street suffixes and their common variants -> USPS abbreviation */
+const STREET_SUFFIXES: Record<string, string> = {
+  ALLEY: 'ALY', ALLEE: 'ALY', ALLY: 'ALY',
+  AVENUE: 'AVE', AV: 'AVE', AVEN: 'AVE', AVENU: 'AVE', AVN: 'AVE', AVNUE: 'AVE',
+  BOULEVARD: 'BLVD', BOUL: 'BLVD', BOULV: 'BLVD',
+  BYPASS: 'BYP', CAUSEWAY: 'CSWY', CENTER: 'CTR', CENTRE: 'CTR', CENTR: 'CTR',
+  CIRCLE: 'CIR', CIRC: 'CIR', CIRCL: 'CIR', CRCL: 'CIR',
+  COURT: 'CT', COVE: 'CV', CREEK: 'CRK', CROSSING: 'XING', CRSSNG: 'XING',
+  DRIVE: 'DR', DRIV: 'DR', DRV: 'DR',
+  EXPRESSWAY: 'EXPY', EXPRESS: 'EXPY', EXPW: 'EXPY', EXPWY: 'EXPY',
+  FREEWAY: 'FWY', FRWY: 'FWY', GROVE: 'GRV', HEIGHTS: 'HTS', HT: 'HTS',
+  HIGHWAY: 'HWY', HIGHWY: 'HWY', HIWAY: 'HWY', HIWY: 'HWY', HWAY: 'HWY',
+  HOLLOW: 'HOLW', JUNCTION: 'JCT', LANDING: 'LNDG', LANE: 'LN',
+  MEADOWS: 'MDWS', PARKWAY: 'PKWY', PARKWY: 'PKWY', PKWAY: 'PKWY', PKY: 'PKWY',
+  PLACE: 'PL', PLAZA: 'PLZ', PLZA: 'PLZ', POINT: 'PT', RIDGE: 'RDG',
+  ROAD: 'RD', ROUTE: 'RTE', SQUARE: 'SQ', SQR: 'SQ',
+  STREET: 'ST', STR: 'ST', STRT: 'ST', TERRACE: 'TER', TERR: 'TER',
+  TRAIL: 'TRL', TRAILS: 'TRL', TURNPIKE: 'TPKE', TRNPK: 'TPKE',
+  VIEW: 'VW', VILLAGE: 'VLG',
+}
+
+/** Suffixes already in USPS form ("AVE", "ST") */
+const SUFFIX_ABBREVIATIONS = new Set(Object.values(STREET_SUFFIXES))
+
+const DIRECTIONALS: Record<string, string> = {
+  NORTH: 'N', SOUTH: 'S', EAST: 'E', WEST: 'W',
+  NORTHEAST: 'NE', NORTHWEST: 'NW', SOUTHEAST: 'SE', SOUTHWEST: 'SW',
+  N: 'N', S: 'S', E: 'E', W: 'W', NE: 'NE', NW: 'NW', SE: 'SE', SW: 'SW',
+}
+
+/** Secondary unit designators -> USPS abbreviation */
+const UNIT_DESIGNATORS: Record<string, string> = {
+  APARTMENT: 'APT', APT: 'APT', BUILDING: 'BLDG', BLDG: 'BLDG',
+  DEPARTMENT: 'DEPT', DEPT: 'DEPT', FLOOR: 'FL', FL: 'FL',
+  OFFICE: 'OFC', OFC: 'OFC', ROOM: 'RM', RM: 'RM',
+  SPACE: 'SPC', SPC: 'SPC', SUITE: 'STE', STE: 'STE',
+  UNIT: 'UNIT', LOT: 'LOT', TRAILER: 'TRLR', '#': '#',
+}
+
+/** Place-name words USPS abbreviates in city names */
+const CITY_WORDS: Record<string, string> = { SAINT: 'ST', FORT: 'FT', MOUNT: 'MT' }
+
+export interface NormalizedStreet {
+  /** Number, directionals, name and suffix: "123 N MAIN ST" */
+  street: string
+  /** Unit designator and number: "STE 200", or null */
+  unit: string | null
+}
+
+function streetSuffix(token: string): string | undefined {
+  return STREET_SUFFIXES[token] ?? (SUFFIX_ABBREVIATIONS.has(token) ? token : undefined)
+}
+
+function tokens(value: string): string[] {
+  return value
+    .toUpperCase()
+    .replace(/#/g, ' # ')
+    .replace(/[.,;]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+}
+
+/**
+ * Split a street line into the street and the secondary unit, each in
+ * USPS form
+ */
+export function splitStreet(value: string | null | undefined): NormalizedStreet | null {
+  if (!value?.trim()) return null
+  const parts = tokens(value)
+
+  // The first unit designator after the house number starts the unit
+  const unitAt = parts.findIndex((t, i) => i > 0 && UNIT_DESIGNATORS[t] !== undefined)
+  const street = unitAt === -1 ? parts : parts.slice(0, unitAt)
+  const unitParts = unitAt === -1 ? [] : parts.slice(unitAt)
+
+  // Post-directional and suffix from the end, each only with a name word
+  // before it ("Main St North", not "Avenue North")
+  let last = street.length - 1
+  if (last > 1 && DIRECTIONALS[street[last]]) {
+    street[last] = DIRECTIONALS[street[last]]
+    last -= 1
+  }
+  // Suffix is the last word of the name ("Park Ave", not "Park")
+  const suffix = last > 1 ? streetSuffix(street[last]) : undefined
+  if (suffix) {
+    street[last] = suffix
+    last -= 1
+  }
+  // A directional after the house number is a prefix only when a name
+  // follows it - in "123 North Ave" North is the name
+  if (last > 1 && DIRECTIONALS[street[1]]) street[1] = DIRECTIONALS[street[1]]
+
+  let unit: string | null = null
+  if (unitParts.length) {
+    // "Building 2 Floor 3" -> "BLDG 2 FL 3"
+    const designator = UNIT_DESIGNATORS[unitParts[0]]
+    const rest = unitParts.slice(1).filter((t) => t !== '#').map((t) => UNIT_DESIGNATORS[t] ?? t)
+    unit = [designator, ...rest].join(' ')
+  }
+
+  return { street: street.join(' '), unit }
+}
+
+/**
+ * Full USPS-style street line: "123 N MAIN ST STE 200"
+ */
+export function normalizeStreet(value: string | null | undefined): string | null {
+  const split = splitStreet(value)
+  if (!split) return null
+  return split.unit ? `${split.street} ${split.unit}` : split.street
+}
+
+/**
+ * City comparison key: "Saint Paul" and "St. Paul" -> "ST PAUL"
+ */
+export function normalizeCity(value: string | null | undefined): string | null {
+  if (!value?.trim()) return null
+  return tokens(value.replace(/-/g, ' ')).map((t) => CITY_WORDS[t] ?? t).join(' ')
+}
@@ -0,0 +1,13 @@
+/**
+ * Business Data Normalization
+ *
+ * One place for the phone, address, state/ZIP, website and business-name
+ * cleanup used wherever we compare or submit listing data (NAP audits,
+ * Foursquare matching and edits, HubSpot analytics).
+ */
+
+export { toE164, formatNationalPhone, samePhone } from './phone'
+export { splitStreet, normalizeStreet, normalizeCity, type NormalizedStreet } from './address'
+export { US_STATES, toStateCode, stateName, normalizeZip, isValidZip, zip5 } from './region'
+export { isPlaceholderValue, canonicalWebsite, websiteKey, websiteHost, sameWebsite } from './website'
+export { canonicalBusinessName, nameSimilarity } from './name'
@@ -0,0 +1,54 @@
+/**
+ * Business Name Canonicalization
+ *
+ * canonicalBusinessName is a comparison key: "The Smith & Sons Plumbing,
+ * LLC" and "Smith and Sons Plumbing" both become "smith and sons plumbing".
+ */
+
+const LEGAL_SUFFIXES = new Set([
+  'llc', 'inc', 'incorporated', 'co', 'corp', 'corporation', 'company',
+  'ltd', 'limited', 'pllc', 'pc', 'pa', 'lp', 'llp', 'lc',
+])
+
+/**
+ * Lower case, "&" as "and", no punctuation, leading "the" and trailing
+ * legal suffixes removed
+ */
+export function canonicalBusinessName(value: string | null | undefined): string | null {
+  if (!value?.trim()) return null
+
+  const words = value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+
+  // "L.L.C." and "P.C." arrive as single letters
+  let initials = 0
+  while (initials < words.length - 1 && words[words.length - 1 - initials].length === 1) initials += 1
+  if (initials > 1 && LEGAL_SUFFIXES.has(words.slice(-initials).join(''))) words.splice(-initials)
+
+  // "the" first, so "The Company" keeps "company"
+  if (words.length > 1 && words[0] === 'the') words.shift()
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) words.pop()
+
+  return words.join(' ') || null
+}
+
+/**
+ * Word overlap of two names after canonicalization, 0-1 (Dice coefficient)
+ */
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = canonicalBusinessName(a)
+  const right = canonicalBusinessName(b)
+  if (!left || !right) return 0
+  if (left === right) return 1
+
+  const leftWords = new Set(left.split(' '))
+  const rightWords = new Set(right.split(' '))
+  const shared = Array.from(leftWords).filter((w) => rightWords.has(w)).length
+  return (2 * shared) / (leftWords.size + rightWords.size)
+}
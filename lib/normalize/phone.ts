@@ -0,0 +1,53 @@
+/**
+ * Phone Normalization
+ *
+ * E.164 is the stored and submitted form (+15551234567). Numbers without a
+ * country code are read as NANP (US/Canada), which is every client we have.
+ */
+
+/** Trailing extension: "ext. 12", "x12", "#12" */
+const EXTENSION_RE = /\s*(?:ext\.?|extension|x|#)\s*\d{1,6}\s*$/i
+
+const NANP_RE = /^[2-9]\d{2}[2-9]\d{6}$/
+
+/**
+ * E.164 form of a phone number, or null when it can't be one.
+ * Extensions are dropped.
+ */
+export function toE164(value: string | null | undefined): string | null {
+  if (!value) return null
+  const trimmed = value.replace(EXTENSION_RE, '').trim()
+  const digits = trimmed.replace(/\D/g, '')
+
+  if (trimmed.startsWith('+') || trimmed.startsWith('00')) {
+    const international = trimmed.startsWith('00') ? digits.slice(2) : digits
+    if (international.startsWith('1')) return NANP_RE.test(international.slice(1)) ? `+${international}` : null
+    return international.length >= 8 && international.length <= 15 ? `+${international}` : null
+  }
+
+  if (digits.length === 10 && NANP_RE.test(digits)) return `+1${digits}`
+  if (digits.length === 11 && digits.startsWith('1') && NANP_RE.test(digits.slice(1))) return `+${digits}`
+  return null
+}
+
+/**
+ * "(555) 123-4567" for NANP numbers, E.164 for the rest, null if invalid
+ */
+export function formatNationalPhone(value: string | null | undefined): string | null {
+  const e164 = toE164(value)
+  if (!e164) return null
+  if (!e164.startsWith('+1')) return e164
+  return `(${e164.slice(2, 5)}) ${e164.slice(5, 8)}-${e164.slice(8)}`
+}
+
+/**
+ * Same number once normalized. Falls back to comparing digits when either
+ * side isn't a valid number, so junk only equals identical junk.
+ */
+export function samePhone(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return false
+  const left = toE164(a)
+  const right = toE164(b)
+  if (left && right) return left === right
+  return a.replace(/\D/g, '') === b.replace(/\D/g, '')
+}
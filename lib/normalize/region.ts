@@ -0,0 +1,63 @@
+/**
+ * US States and ZIP Codes
+ */
+
+export const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas',
+  CA: 'California', CO: 'Colorado', CT: 'Connecticut', DE: 'Delaware',
+  FL: 'Florida', GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho',
+  IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas',
+  KY: 'Kentucky', LA: 'Louisiana', ME: 'Maine', MD: 'Maryland',
+  MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota', MS: 'Mississippi',
+  MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada',
+  NH: 'New Hampshire', NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York',
+  NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma',
+  OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island', SC: 'South Carolina',
+  SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah',
+  VT: 'Vermont', VA: 'Virginia', WA: 'Washington', WV: 'West Virginia',
+  WI: 'Wisconsin', WY: 'Wyoming', DC: 'District of Columbia', PR: 'Puerto Rico',
+}
+
+const CODES_BY_NAME: Record<string, string> = Object.fromEntries(
+  Object.entries(US_STATES).map(([code, name]) => [name.toLowerCase(), code])
+)
+
+/**
+ * Two-letter code for a state code or full name ("ca", "N.Y.", "new york"),
+ * or null
+ */
+export function toStateCode(value: string | null | undefined): string | null {
+  if (!value) return null
+  const cleaned = value.trim().replace(/\./g, '').replace(/\s+/g, ' ')
+  const upper = cleaned.toUpperCase()
+  if (US_STATES[upper]) return upper
+  return CODES_BY_NAME[cleaned.toLowerCase()] ?? null
+}
+
+/**
+ * Full state name for a code or name, or null
+ */
+export function stateName(value: string | null | undefined): string | null {
+  const code = toStateCode(value)
+  return code ? US_STATES[code] : null
+}
+
+/**
+ * "12345" or "12345-6789" from any spacing/punctuation, or null.
+ * Nine bare digits are read as ZIP+4.
+ */
+export function normalizeZip(value: string | null | undefined): string | null {
+  if (!value) return null
+  const match = value.trim().match(/^(\d{5})(?:[\s-]?(\d{4}))?$/)
+  if (!match) return null
+  return match[2] ? `${match[1]}-${match[2]}` : match[1]
+}
+
+export function isValidZip(value: string | null | undefined): boolean {
+  return normalizeZip(value) !== null
+}
+
+/** The five-digit ZIP, for comparing ZIP against ZIP+4 */
+export function zip5(value: string | null | undefined): string | null {
+  return normalizeZip(value)?.slice(0, 5) ?? null
+}
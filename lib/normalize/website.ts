@@ -0,0 +1,72 @@
+/**
+ * Website Canonicalization
+ *
+ * canonicalWebsite is the form we store and submit: https unless the URL
+ * says http, lower-case host, no fragment, tracking parameters or trailing
+ * slash. The www prefix is kept because some sites only answer on one.
+ * websiteKey drops it too, for comparing.
+ */
+
+/** Values people type into website fields when there isn't one */
+const PLACEHOLDERS = new Set([
+  'na', 'n/a', 'none', 'null', '-', 'no website', 'no website or google profile found',
+])
+
+const TRACKING_PARAM_RE = /^(utm_|fbclid$|gclid$|msclkid$)/i
+
+/**
+ * True for empty values and "n/a"-style placeholders
+ */
+export function isPlaceholderValue(value: string | null | undefined): boolean {
+  if (!value) return true
+  const trimmed = value.trim().toLowerCase()
+  return !trimmed || PLACEHOLDERS.has(trimmed) || PLACEHOLDERS.has(trimmed.replace(/^https?:\/\//, ''))
+}
+
+/**
+ * Stored/submitted form of a website, or null when it isn't a usable URL
+ */
+export function canonicalWebsite(value: string | null | undefined): string | null {
+  if (isPlaceholderValue(value)) return null
+  let raw = value!.trim()
+  if (/\s/.test(raw)) return null
+
+  // Pasted twice: "https://https://example.com"
+  raw = raw.replace(/^(https?:\/\/)+(https?:\/\/)/i, '$2')
+  if (!/^https?:\/\//i.test(raw)) raw = `https://${raw}`
+
+  let url: URL
+  try {
+    url = new URL(raw)
+  } catch {
+    return null
+  }
+  if (!url.hostname.includes('.') || url.hostname.endsWith('.')) return null
+
+  for (const key of Array.from(url.searchParams.keys())) {
+    if (TRACKING_PARAM_RE.test(key)) url.searchParams.delete(key)
+  }
+
+  const path = url.pathname.replace(/\/+$/, '')
+  const query = url.searchParams.toString()
+  return `${url.protocol}//${url.host.toLowerCase()}${path}${query ? `?${query}` : ''}`
+}
+
+/**
+ * Comparison key: host without www, plus path ("example.com/about")
+ */
+export function websiteKey(value: string | null | undefined): string | null {
+  const canonical = canonicalWebsite(value)
+  if (!canonical) return null
+  return canonical.replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\?.*$/, '').toLowerCase()
+}
+
+/** Host without www ("example.com"), or null */
+export function websiteHost(value: string | null | undefined): string | null {
+  return websiteKey(value)?.split('/')[0] ?? null
+}
+
+export function sameWebsite(a: string | null | undefined, b: string | null | undefined): boolean {
+  const left = websiteKey(a)
+  return left !== null && left === websiteKey(b)
+}
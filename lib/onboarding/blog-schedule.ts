@@ -0,0 +1,496 @@
+/**
+ * Blog Schedules
+ *
+ * Recurring blog generation per customer. A schedule spreads
+ * posts_per_month runs evenly over a 30-day period anchored at start_date;
+ * each due run queues a one-post blogs job (see jobs.ts) with the next
+ * topic in rotation, so it goes through the same blog service
+ * generate/direct call, retries and cancellation as a manual generation.
+ *
+ * Runs that cannot be queued (no Duda site, generation already in progress,
+ * blogs paused) are stored as skipped and the schedule moves on. Skipped and
+ * failed runs can be retried in place from the Blogs tab.
+ *
+ * Migration: 20261019030000_blog_schedules.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  BlogRunStatus,
+  BlogSchedule,
+  BlogScheduleRun,
+  JobStatus,
+  OnboardingJob,
+  UpcomingBlogRun,
+} from '@/app/types/onboarding'
+import type { EventActor } from './events'
+import { recordEvent } from './events'
+import { enqueueJob, getActiveJob } from './jobs'
+import { guardTransition } from './status'
+
+/** Length of the period posts_per_month is spread over */
+export const BLOG_SCHEDULE_PERIOD_DAYS = 30
+
+export const BLOG_SCHEDULE_MAX_POSTS = 30
+
+/** Runs go out mid-morning US time */
+export const BLOG_SCHEDULE_RUN_HOUR_UTC = 15
+
+/** Most due schedules handled in one cron invocation */
+const DUE_BATCH_SIZE = 50
+
+const DAY_MS = 24 * 60 * 60_000
+
+export interface SaveBlogScheduleInput {
+  contactId: string
+  postsPerMonth: number
+  topics: string[]
+  /** YYYY-MM-DD */
+  startDate: string
+  businessName: string
+  industry: string
+  location: string
+  enabled?: boolean
+  createdBy?: string | null
+}
+
+export interface DueScheduleSummary {
+  due: number
+  queued: number
+  skipped: number
+  failed: number
+}
+
+type QueueOutcome =
+  | { status: 'queued'; job: OnboardingJob }
+  | { status: 'skipped'; reason: string }
+  | { status: 'failed'; error: string }
+
+type ScheduleCadence = Pick<BlogSchedule, 'start_date' | 'posts_per_month'>
+
+export function scheduleIntervalMs(postsPerMonth: number): number {
+  return Math.round((BLOG_SCHEDULE_PERIOD_DAYS * DAY_MS) / postsPerMonth)
+}
+
+function scheduleAnchor(startDate: string): number {
+  const hour = String(BLOG_SCHEDULE_RUN_HOUR_UTC).padStart(2, '0')
+  return Date.parse(`${startDate}T${hour}:00:00Z`)
+}
+
+/**
+ * First slot of the schedule strictly after `after`
+ */
+export function nextRunAfter(schedule: ScheduleCadence, after: Date): Date {
+  const anchor = scheduleAnchor(schedule.start_date)
+  if (after.getTime() < anchor) return new Date(anchor)
+
+  const interval = scheduleIntervalMs(schedule.posts_per_month)
+  const slots = Math.floor((after.getTime() - anchor) / interval) + 1
+  return new Date(anchor + slots * interval)
+}
+
+export function topicAt(topics: string[], index: number): string | null {
+  return topics.length > 0 ? topics[index % topics.length] : null
+}
+
+/**
+ * Slots from next_run_at through `until`, assuming every run is queued
+ */
+export function projectUpcomingRuns(schedule: BlogSchedule, until: Date): UpcomingBlogRun[] {
+  if (!schedule.enabled) return []
+
+  const interval = scheduleIntervalMs(schedule.posts_per_month)
+  const upcoming: UpcomingBlogRun[] = []
+  let at = Date.parse(schedule.next_run_at)
+  let topicIndex = schedule.next_topic_index
+
+  while (at <= until.getTime() && upcoming.length < BLOG_SCHEDULE_MAX_POSTS * 3) {
+    upcoming.push({ scheduled_for: new Date(at).toISOString(), topic: topicAt(schedule.topics, topicIndex) })
+    at += interval
+    topicIndex++
+  }
+
+  return upcoming
+}
+
+// ============================================================
+// SCHEDULE CRUD
+// ============================================================
+
+export async function getBlogSchedule(
+  supabase: SupabaseClient,
+  contactId: string
+): Promise<BlogSchedule | null> {
+  const { data, error } = await supabase
+    .from('blog_schedules')
+    .select('*')
+    .eq('hubspot_contact_id', contactId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch blog schedule: ${error.message}`)
+  }
+
+  return data as BlogSchedule | null
+}
+
+/**
+ * Create or replace a contact's schedule. next_run_at is recomputed when the
+ * cadence or start date changes, so editing topics never reshuffles the calendar.
+ */
+export async function saveBlogSchedule(
+  supabase: SupabaseClient,
+  input: SaveBlogScheduleInput
+): Promise<{ before: BlogSchedule | null; schedule: BlogSchedule }> {
+  const before = await getBlogSchedule(supabase, input.contactId)
+  const cadence = { start_date: input.startDate, posts_per_month: input.postsPerMonth }
+
+  const cadenceChanged = !before
+    || before.start_date !== input.startDate
+    || before.posts_per_month !== input.postsPerMonth
+  const resumed = !!before && !before.enabled && input.enabled !== false
+
+  // Never fire a backlog of missed slots - pick up from the next one
+  const nextRunAt = cadenceChanged || resumed || Date.parse(before.next_run_at) < Date.now()
+    ? nextRunAfter(cadence, new Date())
+    : new Date(before.next_run_at)
+
+  const topicsChanged = JSON.stringify(before?.topics ?? []) !== JSON.stringify(input.topics)
+
+  const { data, error } = await supabase
+    .from('blog_schedules')
+    .upsert(
+      {
+        hubspot_contact_id: input.contactId,
+        enabled: input.enabled ?? true,
+        posts_per_month: input.postsPerMonth,
+        topics: input.topics,
+        next_topic_index: topicsChanged ? 0 : before?.next_topic_index ?? 0,
+        start_date: input.startDate,
+        next_run_at: nextRunAt.toISOString(),
+        business_name: input.businessName,
+        industry: input.industry,
+        location: input.location,
+        created_by: before?.created_by ?? input.createdBy ?? null,
+      },
+      { onConflict: 'hubspot_contact_id' }
+    )
+    .select()
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to save blog schedule: ${error?.message || 'No schedule returned'}`)
+  }
+
+  return { before, schedule: data as BlogSchedule }
+}
+
+export async function deleteBlogSchedule(supabase: SupabaseClient, contactId: string): Promise<void> {
+  const { error } = await supabase
+    .from('blog_schedules')
+    .delete()
+    .eq('hubspot_contact_id', contactId)
+
+  if (error) {
+    throw new Error(`Failed to delete blog schedule: ${error.message}`)
+  }
+}
+
+// ============================================================
+// RUNS
+// ============================================================
+
+export async function listScheduleRuns(
+  supabase: SupabaseClient,
+  contactId: string,
+  limit = 60
+): Promise<BlogScheduleRun[]> {
+  const { data, error } = await supabase
+    .from('blog_schedule_runs')
+    .select('*')
+    .eq('hubspot_contact_id', contactId)
+    .order('scheduled_for', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to fetch schedule runs: ${error.message}`)
+  }
+
+  return (data || []) as BlogScheduleRun[]
+}
+
+export async function getScheduleRun(
+  supabase: SupabaseClient,
+  contactId: string,
+  runId: string
+): Promise<BlogScheduleRun | null> {
+  const { data, error } = await supabase
+    .from('blog_schedule_runs')
+    .select('*')
+    .eq('id', runId)
+    .eq('hubspot_contact_id', contactId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch schedule run: ${error.message}`)
+  }
+
+  return data as BlogScheduleRun | null
+}
+
+const RUN_STATUS_FOR_JOB: Partial<Record<JobStatus, BlogRunStatus>> = {
+  succeeded: 'succeeded',
+  failed: 'failed',
+  cancelled: 'failed',
+}
+
+/**
+ * Copy the outcome of finished jobs onto their queued runs.
+ * Returns the number of runs updated.
+ */
+export async function syncQueuedRuns(supabase: SupabaseClient, contactId?: string): Promise<number> {
+  let query = supabase
+    .from('blog_schedule_runs')
+    .select('id, job_id')
+    .eq('status', 'queued')
+    .not('job_id', 'is', null)
+  if (contactId) query = query.eq('hubspot_contact_id', contactId)
+
+  const { data: runs, error } = await query
+  if (error) {
+    throw new Error(`Failed to fetch queued runs: ${error.message}`)
+  }
+  if (!runs || runs.length === 0) return 0
+
+  const { data: jobs, error: jobsError } = await supabase
+    .from('onboarding_jobs')
+    .select('id, status, error_message')
+    .in('id', runs.map((r) => r.job_id))
+
+  if (jobsError) {
+    throw new Error(`Failed to fetch run jobs: ${jobsError.message}`)
+  }
+
+  const jobById = new Map((jobs || []).map((j) => [j.id, j]))
+  let updated = 0
+
+  for (const run of runs) {
+    const job = jobById.get(run.job_id)
+    const status = job && RUN_STATUS_FOR_JOB[job.status as JobStatus]
+    if (!status) continue
+
+    const { error: updateError } = await supabase
+      .from('blog_schedule_runs')
+      .update({
+        status,
+        error_message: status === 'failed'
+          ? job.error_message || (job.status === 'cancelled' ? 'Cancelled' : 'Generation failed')
+          : null,
+      })
+      .eq('id', run.id)
+      .eq('status', 'queued')
+
+    if (updateError) {
+      console.warn(`[Blog Schedules] Failed to update run ${run.id}:`, updateError.message)
+      continue
+    }
+    updated++
+  }
+
+  return updated
+}
+
+/**
+ * Queue one blog for a schedule, or explain why it cannot run right now
+ */
+async function queueScheduledBlog(
+  supabase: SupabaseClient,
+  schedule: BlogSchedule,
+  topic: string | null,
+  actor?: EventActor | null
+): Promise<QueueOutcome> {
+  const contactId = schedule.hubspot_contact_id
+
+  const { data: identity, error: identityError } = await supabase
+    .from('service_identity_map')
+    .select('duda_site_code')
+    .eq('hubspot_contact_id', contactId)
+    .maybeSingle()
+
+  if (identityError) {
+    return { status: 'failed', error: `Failed to fetch identity map: ${identityError.message}` }
+  }
+  if (!identity?.duda_site_code) {
+    return { status: 'skipped', reason: 'No Duda site linked' }
+  }
+
+  if (await getActiveJob(supabase, contactId, 'blogs')) {
+    return { status: 'skipped', reason: 'Blog generation already in progress' }
+  }
+
+  const { rejection } = await guardTransition(supabase, contactId, 'blogs', 'pending')
+  if (rejection) {
+    return { status: 'skipped', reason: rejection.message }
+  }
+
+  const payload: Record<string, unknown> = {
+    business_name: schedule.business_name,
+    industry: schedule.industry,
+    location: schedule.location,
+    duda_site_code: identity.duda_site_code,
+    num_blogs: 1,
+    schedule_id: schedule.id,
+  }
+  if (topic) payload.topic = topic
+
+  const job = await enqueueJob(supabase, {
+    contactId,
+    service: 'blogs',
+    payload,
+    createdBy: actor?.id ?? null,
+  })
+
+  await recordEvent(supabase, {
+    contactId,
+    service: 'blogs',
+    action: 'generation_queued',
+    actor,
+    statusBefore: job.previous_service_status,
+    statusAfter: 'pending',
+    payloadAfter: { ...job.payload, job_id: job.id, scheduled: true },
+  })
+
+  return { status: 'queued', job }
+}
+
+async function queueSafely(
+  supabase: SupabaseClient,
+  schedule: BlogSchedule,
+  topic: string | null,
+  actor?: EventActor | null
+): Promise<QueueOutcome> {
+  try {
+    return await queueScheduledBlog(supabase, schedule, topic, actor)
+  } catch (err) {
+    return { status: 'failed', error: err instanceof Error ? err.message : 'Unknown error' }
+  }
+}
+
+function runFields(outcome: QueueOutcome) {
+  return {
+    status: outcome.status,
+    job_id: outcome.status === 'queued' ? outcome.job.id : null,
+    skip_reason: outcome.status === 'skipped' ? outcome.reason : null,
+    error_message: outcome.status === 'failed' ? outcome.error : null,
+  }
+}
+
+/**
+ * Queue every schedule whose next run is due. Each schedule is claimed by
+ * advancing next_run_at with a compare-and-set, so overlapping cron
+ * invocations never queue the same slot twice.
+ */
+export async function runDueSchedules(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<DueScheduleSummary> {
+  const summary: DueScheduleSummary = { due: 0, queued: 0, skipped: 0, failed: 0 }
+
+  const { data: schedules, error } = await supabase
+    .from('blog_schedules')
+    .select('*')
+    .eq('enabled', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at')
+    .limit(DUE_BATCH_SIZE)
+
+  if (error) {
+    throw new Error(`Failed to fetch due schedules: ${error.message}`)
+  }
+
+  for (const schedule of (schedules || []) as BlogSchedule[]) {
+    const scheduledFor = schedule.next_run_at
+
+    const { data: claimed, error: claimError } = await supabase
+      .from('blog_schedules')
+      .update({ next_run_at: nextRunAfter(schedule, now).toISOString() })
+      .eq('id', schedule.id)
+      .eq('next_run_at', scheduledFor)
+      .select('id')
+      .maybeSingle()
+
+    if (claimError) {
+      console.warn(`[Blog Schedules] Failed to claim schedule ${schedule.id}:`, claimError.message)
+      continue
+    }
+    if (!claimed) continue
+
+    summary.due++
+    const topic = topicAt(schedule.topics, schedule.next_topic_index)
+    const outcome = await queueSafely(supabase, schedule, topic)
+    summary[outcome.status]++
+
+    const { error: runError } = await supabase.from('blog_schedule_runs').insert({
+      schedule_id: schedule.id,
+      hubspot_contact_id: schedule.hubspot_contact_id,
+      scheduled_for: scheduledFor,
+      topic,
+      ...runFields(outcome),
+    })
+
+    if (runError) {
+      console.warn(`[Blog Schedules] Failed to record run for ${schedule.hubspot_contact_id}:`, runError.message)
+    }
+
+    // A skipped or failed topic is kept for the next slot
+    if (outcome.status === 'queued' && schedule.topics.length > 0) {
+      await supabase
+        .from('blog_schedules')
+        .update({ next_topic_index: schedule.next_topic_index + 1 })
+        .eq('id', schedule.id)
+    }
+
+    if (outcome.status !== 'queued') {
+      console.log(
+        `[Blog Schedules] ${outcome.status} run for ${schedule.hubspot_contact_id}: ` +
+        (outcome.status === 'skipped' ? outcome.reason : outcome.error)
+      )
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Re-queue a failed or skipped run with its original topic
+ */
+export async function retryScheduleRun(
+  supabase: SupabaseClient,
+  run: BlogScheduleRun,
+  actor?: EventActor | null
+): Promise<BlogScheduleRun> {
+  const { data: schedule, error } = await supabase
+    .from('blog_schedules')
+    .select('*')
+    .eq('id', run.schedule_id)
+    .single()
+
+  if (error || !schedule) {
+    throw new Error(`Failed to fetch blog schedule: ${error?.message || 'Not found'}`)
+  }
+
+  const outcome = await queueSafely(supabase, schedule as BlogSchedule, run.topic, actor)
+
+  const { data, error: updateError } = await supabase
+    .from('blog_schedule_runs')
+    .update({ ...runFields(outcome), attempts: run.attempts + 1 })
+    .eq('id', run.id)
+    .select()
+    .single()
+
+  if (updateError || !data) {
+    throw new Error(`Failed to update schedule run: ${updateError?.message || 'No run returned'}`)
+  }
+
+  return data as BlogScheduleRun
+}
@@ -0,0 +1,108 @@
+/**
+ * Bulk Onboarding
+ *
+ * Runs one onboarding action across many contacts selected on the
+ * Companies list. Each contact is handled independently with a bounded
+ * number in flight, and every row gets a success / skipped / failed result
+ * so a partial run can be fixed up and re-run.
+ *
+ * Rows that are already done (slug set, venue linked, job in progress) are
+ * skipped, which makes re-running the same selection safe. What each action
+ * does per contact lives in the service's provision handler
+ * (service-handlers.ts).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  BulkAction,
+  BulkContact,
+  BulkRowResult,
+  BulkRunResult,
+  ServiceIdentity,
+} from '@/app/types/onboarding'
+import { ACTIVE_JOB_STATUSES } from '@/app/types/onboarding'
+import type { EventActor } from './events'
+import { IDENTITY_FIELDS, isJobService } from './registry'
+import { SERVICE_HANDLERS, type ProvisionOptions } from './service-handlers'
+import { runWithConcurrency } from '@/lib/sync/utils'
+
+/** Most contacts accepted in one bulk request */
+export const BULK_MAX_CONTACTS = 100
+
+export const BULK_DEFAULT_CONCURRENCY = 4
+export const BULK_MAX_CONCURRENCY = 10
+
+export type BulkActionOptions = ProvisionOptions
+
+export interface BulkRunInput {
+  action: BulkAction
+  contacts: BulkContact[]
+  options?: BulkActionOptions
+  dryRun?: boolean
+  concurrency?: number
+  actor?: EventActor | null
+}
+
+/**
+ * Run a bulk action and return a per-contact report
+ */
+export async function runBulkAction(supabase: SupabaseClient, input: BulkRunInput): Promise<BulkRunResult> {
+  const contactIds = input.contacts.map((c) => c.contactId)
+
+  const { data: identities, error: identityError } = await supabase
+    .from('service_identity_map')
+    .select(['hubspot_contact_id', ...IDENTITY_FIELDS].join(', '))
+    .in('hubspot_contact_id', contactIds)
+
+  if (identityError) {
+    throw new Error(`Failed to load identity map: ${identityError.message}`)
+  }
+
+  const identityById = new Map<string, Partial<ServiceIdentity>>(
+    ((identities || []) as unknown as ServiceIdentity[]).map((i) => [i.hubspot_contact_id, i])
+  )
+
+  const activeJobIds = new Set<string>()
+  if (isJobService(input.action)) {
+    const { data: jobs, error: jobsError } = await supabase
+      .from('onboarding_jobs')
+      .select('hubspot_contact_id')
+      .eq('service', input.action)
+      .in('status', ACTIVE_JOB_STATUSES)
+      .in('hubspot_contact_id', contactIds)
+
+    if (jobsError) {
+      throw new Error(`Failed to load active jobs: ${jobsError.message}`)
+    }
+    for (const job of jobs || []) activeJobIds.add(job.hubspot_contact_id)
+  }
+
+  const handler = SERVICE_HANDLERS[input.action].provision
+  if (!handler) {
+    throw new Error(`${input.action} cannot be run in bulk`)
+  }
+  const concurrency = Math.max(1, Math.min(BULK_MAX_CONCURRENCY, input.concurrency || BULK_DEFAULT_CONCURRENCY))
+
+  const results = await runWithConcurrency(input.contacts, concurrency, async (contact) => {
+    try {
+      return await handler(contact, {
+        supabase,
+        identity: identityById.get(contact.contactId) ?? {},
+        hasActiveJob: activeJobIds.has(contact.contactId),
+        options: input.options ?? {},
+        dryRun: !!input.dryRun,
+        actor: input.actor,
+      })
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error'
+      console.error(`[Bulk Onboarding] ${input.action} failed for ${contact.contactId}:`, message)
+      const failed: BulkRowResult = { contactId: contact.contactId, name: contact.name, status: 'failed', error: message }
+      return failed
+    }
+  })
+
+  const summary = { total: results.length, success: 0, skipped: 0, failed: 0 }
+  for (const result of results) summary[result.status]++
+
+  return { action: input.action, dryRun: !!input.dryRun, summary, results }
+}
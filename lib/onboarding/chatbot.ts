@@ -0,0 +1,111 @@
+/**
+ * Chatbot Provisioning
+ *
+ * Creates the client in the chatbot backend, then stores the slug and marks
+ * the chatbot service active. The backend is always called first so a slug
+ * is never saved locally for a client that does not exist.
+ *
+ * Used by the chatbot provision route and the bulk runner (see bulk.ts).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { EventActor } from './events'
+import { recordEvent } from './events'
+import { assertTransition } from './status'
+
+export interface ChatbotProvisionInput {
+  contactId: string
+  slug: string
+  name?: string
+  companyInfo?: Record<string, unknown>
+  branding?: Record<string, unknown>
+  supportEmail?: string
+  actor?: EventActor | null
+}
+
+/**
+ * Turn a business name into a chatbot slug ("Joe's Pizza, LLC" → "joes-pizza-llc")
+ */
+export function slugifyChatbotName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+}
+
+/**
+ * Create the client in the chatbot backend
+ */
+export async function createChatbotClient(backendUrl: string, input: ChatbotProvisionInput): Promise<void> {
+  const res = await fetch(`${backendUrl}/${input.slug}/admin/create`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      name: input.name || '',
+      company_info: input.companyInfo || {},
+      branding: input.branding || {},
+      support_email: input.supportEmail || '',
+    }),
+  })
+
+  if (!res.ok) {
+    throw new Error(`Chatbot backend create returned ${res.status}`)
+  }
+}
+
+/**
+ * Save the slug and mark the chatbot service active. Returns provisioned_at.
+ */
+export async function saveChatbotProvision(
+  supabase: SupabaseClient,
+  input: ChatbotProvisionInput
+): Promise<string> {
+  const { contactId, slug } = input
+
+  // Checked before any write so a rejected provision leaves nothing behind
+  const before = await assertTransition(supabase, contactId, 'chatbot', 'active')
+
+  const { error: identityError } = await supabase
+    .from('service_identity_map')
+    .upsert(
+      { hubspot_contact_id: contactId, chatbot_slug: slug },
+      { onConflict: 'hubspot_contact_id' }
+    )
+
+  if (identityError) {
+    throw new Error(`Failed to update identity map: ${identityError.message}`)
+  }
+
+  const provisionedAt = new Date().toISOString()
+
+  const { error: statusError } = await supabase
+    .from('onboarding_status')
+    .upsert(
+      {
+        hubspot_contact_id: contactId,
+        service: 'chatbot',
+        status: 'active',
+        provisioned_at: provisionedAt,
+      },
+      { onConflict: 'hubspot_contact_id,service' }
+    )
+
+  if (statusError) {
+    throw new Error(`Failed to update onboarding status: ${statusError.message}`)
+  }
+
+  await recordEvent(supabase, {
+    contactId,
+    service: 'chatbot',
+    action: 'provisioned',
+    actor: input.actor,
+    statusBefore: before?.status,
+    statusAfter: 'active',
+    payloadBefore: before?.metadata,
+    payloadAfter: { slug, name: input.name || '', support_email: input.supportEmail || '' },
+  })
+
+  return provisionedAt
+}
@@ -0,0 +1,408 @@
+/**
+ * Content Drafts
+ *
+ * Generated blog posts and landing pages are stored as drafts instead of
+ * going straight to Duda. The generation job creates them (see
+ * applyJobOutcome in job-handlers.ts); an account manager edits and approves
+ * each one, and approval pushes it to the customer's Duda site. A rejected
+ * draft keeps the reviewer's notes and can be regenerated with them as
+ * feedback - the new draft replaces it.
+ *
+ * Migrations: 20261019040000_content_drafts.sql,
+ *             20261019200000_content_drafts_publish_claim.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { ContentDraft, DraftStatus, JobService, OnboardingJob } from '@/app/types/onboarding'
+import { getDudaClient } from '@/lib/duda'
+import type { EventActor } from './events'
+import { enqueueJob } from './jobs'
+import { getPageForDraft, markPagePublished } from './landing-pages'
+
+/** Statuses whose content can still be edited */
+export const EDITABLE_DRAFT_STATUSES: DraftStatus[] = ['draft', 'approved', 'rejected']
+
+/** Statuses that can be approved (approved again retries a failed Duda push) */
+export const APPROVABLE_DRAFT_STATUSES: DraftStatus[] = ['draft', 'approved']
+
+/** How long an approval's claim on a draft lasts if it never finishes */
+const PUBLISH_CLAIM_TTL_MS = 5 * 60_000
+
+export interface DraftInput {
+  title: string
+  body: string
+  metaTitle?: string | null
+  metaDescription?: string | null
+  slug?: string | null
+  fields?: Record<string, unknown>
+}
+
+export interface DraftEdits {
+  title?: string
+  body?: string
+  meta_title?: string | null
+  meta_description?: string | null
+  slug?: string | null
+}
+
+export interface ListDraftsOptions {
+  service?: JobService
+  statuses?: DraftStatus[]
+  limit?: number
+}
+
+const CONTENT_KEYS = ['title', 'content', 'body', 'html', 'meta_title', 'seo_title', 'meta_description', 'description', 'slug']
+
+/**
+ * Map one post/page from a generation service response onto a draft.
+ * Keys the dashboard does not edit are kept in `fields`.
+ */
+export function toDraftInput(item: Record<string, unknown>): DraftInput | null {
+  const title = item.title
+  const body = item.content ?? item.body ?? item.html
+  if (typeof title !== 'string' || typeof body !== 'string') return null
+
+  const fields: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(item)) {
+    if (!CONTENT_KEYS.includes(key)) fields[key] = value
+  }
+
+  return {
+    title,
+    body,
+    metaTitle: (item.meta_title ?? item.seo_title ?? null) as string | null,
+    metaDescription: (item.meta_description ?? item.description ?? null) as string | null,
+    slug: (item.slug ?? null) as string | null,
+    fields,
+  }
+}
+
+/**
+ * Store the drafts a finished generation job produced. When the job was a
+ * regeneration, the rejected draft it replaces is marked replaced.
+ */
+export async function createDrafts(
+  supabase: SupabaseClient,
+  job: OnboardingJob,
+  inputs: DraftInput[]
+): Promise<ContentDraft[]> {
+  if (inputs.length === 0) return []
+
+  const parentDraftId = (job.payload.regenerate_draft_id as string | undefined) ?? null
+
+  const { data, error } = await supabase
+    .from('content_drafts')
+    .insert(
+      inputs.map((input) => ({
+        hubspot_contact_id: job.hubspot_contact_id,
+        service: job.service,
+        title: input.title,
+        body: input.body,
+        meta_title: input.metaTitle ?? null,
+        meta_description: input.metaDescription ?? null,
+        slug: input.slug ?? null,
+        fields: input.fields ?? {},
+        generation_payload: job.payload,
+        job_id: job.id,
+        parent_draft_id: parentDraftId,
+      }))
+    )
+    .select()
+
+  if (error) {
+    throw new Error(`Failed to store drafts: ${error.message}`)
+  }
+
+  if (parentDraftId) {
+    const { error: parentError } = await supabase
+      .from('content_drafts')
+      .update({ status: 'replaced' })
+      .eq('id', parentDraftId)
+      .eq('status', 'rejected')
+
+    if (parentError) {
+      console.warn(`[Content Drafts] Failed to mark draft ${parentDraftId} replaced:`, parentError.message)
+    }
+  }
+
+  return (data || []) as ContentDraft[]
+}
+
+export async function listDrafts(
+  supabase: SupabaseClient,
+  contactId: string,
+  options: ListDraftsOptions = {}
+): Promise<ContentDraft[]> {
+  let query = supabase
+    .from('content_drafts')
+    .select('*')
+    .eq('hubspot_contact_id', contactId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 100)
+
+  if (options.service) query = query.eq('service', options.service)
+  if (options.statuses?.length) query = query.in('status', options.statuses)
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch drafts: ${error.message}`)
+  }
+
+  return (data || []) as ContentDraft[]
+}
+
+export async function getDraft(
+  supabase: SupabaseClient,
+  contactId: string,
+  draftId: string
+): Promise<ContentDraft | null> {
+  const { data, error } = await supabase
+    .from('content_drafts')
+    .select('*')
+    .eq('id', draftId)
+    .eq('hubspot_contact_id', contactId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch draft: ${error.message}`)
+  }
+
+  return data as ContentDraft | null
+}
+
+async function updateDraftRow(
+  supabase: SupabaseClient,
+  draftId: string,
+  fields: Record<string, unknown>
+): Promise<ContentDraft> {
+  const { data, error } = await supabase
+    .from('content_drafts')
+    .update(fields)
+    .eq('id', draftId)
+    .select()
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to update draft: ${error?.message || 'No draft returned'}`)
+  }
+
+  return data as ContentDraft
+}
+
+export async function updateDraft(
+  supabase: SupabaseClient,
+  draft: ContentDraft,
+  edits: DraftEdits
+): Promise<ContentDraft> {
+  return updateDraftRow(supabase, draft.id, edits as Record<string, unknown>)
+}
+
+export async function rejectDraft(
+  supabase: SupabaseClient,
+  draft: ContentDraft,
+  notes: string,
+  actor: EventActor
+): Promise<ContentDraft> {
+  return updateDraftRow(supabase, draft.id, {
+    status: 'rejected',
+    review_notes: notes,
+    reviewed_by: actor.id,
+    reviewed_at: new Date().toISOString(),
+  })
+}
+
+// ============================================================
+// PUBLISHING
+// ============================================================
+
+/**
+ * Push a draft to the Duda site. Returns the Duda id of the post or row.
+ * A landing page that is already live (existingRowId) is updated in place.
+ *
+ * The id is handed to saveRef as soon as the post is imported or the row
+ * added, before publishing - a retry after a failed publish then reuses it
+ * (publishing the imported post, updating the added row) instead of
+ * creating a duplicate. Edits made to a blog draft after its post was
+ * imported do not reach Duda.
+ */
+async function pushToDuda(
+  draft: ContentDraft,
+  siteCode: string,
+  existingRowId: string | null | undefined,
+  saveRef: (ref: string) => Promise<void>
+): Promise<string> {
+  const duda = getDudaClient()
+
+  if (draft.service === 'blogs') {
+    let postId = draft.duda_ref
+    if (!postId) {
+      const post = await duda.importBlogPost(siteCode, {
+        title: draft.title,
+        description: draft.meta_description ?? undefined,
+        content: draft.body,
+        seo: { title: draft.meta_title ?? draft.title, description: draft.meta_description ?? undefined },
+      })
+      postId = String(post.id)
+      await saveRef(postId)
+    }
+    await duda.publishBlogPost(siteCode, postId)
+    return postId
+  }
+
+  // Landing pages are dynamic pages backed by a Duda collection
+  const collection = (draft.fields.collection_name ?? draft.generation_payload.collection_name) as string | undefined
+  if (!collection) throw new Error('No Duda collection recorded for this landing page')
+
+  const rowData = { ...draft.fields }
+  delete rowData.collection_name
+
+  const data = {
+    ...rowData,
+    title: draft.title,
+    content: draft.body,
+    meta_title: draft.meta_title,
+    meta_description: draft.meta_description,
+    slug: draft.slug,
+  }
+
+  let rowId = existingRowId ?? draft.duda_ref
+  if (rowId) {
+    await duda.updateCollectionRows(siteCode, collection, [{ id: rowId, data }])
+  } else {
+    [rowId] = await duda.addCollectionRows(siteCode, collection, [data])
+    if (!rowId) throw new Error('Duda did not return a collection row ID')
+    await saveRef(String(rowId))
+  }
+
+  await duda.publishSite(siteCode)
+  return String(rowId)
+}
+
+/**
+ * Claim a draft for publishing: set it approved only if it is still in the
+ * status it was read in and no other approval is pushing it. Returns null
+ * when another request got there first.
+ */
+async function claimDraftForPublish(
+  supabase: SupabaseClient,
+  draft: ContentDraft,
+  reviewed: Record<string, unknown>
+): Promise<ContentDraft | null> {
+  const now = Date.now()
+  const staleBefore = new Date(now - PUBLISH_CLAIM_TTL_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from('content_drafts')
+    .update({ ...reviewed, publish_claimed_at: new Date(now).toISOString() })
+    .eq('id', draft.id)
+    .eq('status', draft.status)
+    .or(`publish_claimed_at.is.null,publish_claimed_at.lt.${staleBefore}`)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to claim draft: ${error.message}`)
+  }
+
+  return data as ContentDraft | null
+}
+
+/**
+ * Approve a draft and push it to Duda. A failed push leaves the draft
+ * approved with publish_error set, so approving again retries the push.
+ * Returns null if the draft changed status or is being pushed by another
+ * approval - nothing is pushed then.
+ */
+export async function approveDraft(
+  supabase: SupabaseClient,
+  draft: ContentDraft,
+  actor: EventActor
+): Promise<ContentDraft | null> {
+  const reviewed = {
+    status: 'approved',
+    reviewed_by: actor.id,
+    reviewed_at: new Date().toISOString(),
+  }
+
+  const { data: identity, error: identityError } = await supabase
+    .from('service_identity_map')
+    .select('duda_site_code')
+    .eq('hubspot_contact_id', draft.hubspot_contact_id)
+    .maybeSingle()
+
+  if (identityError) {
+    throw new Error(`Failed to fetch identity map: ${identityError.message}`)
+  }
+
+  const claimed = await claimDraftForPublish(supabase, draft, reviewed)
+  if (!claimed) return null
+
+  const siteCode = identity?.duda_site_code
+  if (!siteCode) {
+    return updateDraftRow(supabase, draft.id, {
+      publish_error: 'No Duda site code configured for this contact',
+      publish_claimed_at: null,
+    })
+  }
+
+  const page = claimed.service === 'landing_pages' ? await getPageForDraft(supabase, claimed.id) : null
+  const saveRef = async (ref: string) => {
+    await updateDraftRow(supabase, claimed.id, { duda_ref: ref })
+  }
+
+  try {
+    const dudaRef = await pushToDuda(claimed, siteCode, page?.collection_row_id, saveRef)
+    const published = await updateDraftRow(supabase, claimed.id, {
+      status: 'published',
+      duda_ref: dudaRef,
+      published_at: new Date().toISOString(),
+      publish_error: null,
+      publish_claimed_at: null,
+    })
+    if (page) await markPagePublished(supabase, page, published)
+    return published
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error'
+    console.error(`[Content Drafts] Publish failed for draft ${claimed.id}:`, message)
+    return updateDraftRow(supabase, claimed.id, { publish_error: message, publish_claimed_at: null })
+  }
+}
+
+// ============================================================
+// REGENERATION
+// ============================================================
+
+/**
+ * Queue a one-item generation job that redoes a rejected draft, passing
+ * the reviewer's notes to the generation service as feedback
+ */
+export async function regenerateDraft(
+  supabase: SupabaseClient,
+  draft: ContentDraft,
+  actor: EventActor
+): Promise<OnboardingJob> {
+  const payload: Record<string, unknown> = {
+    ...draft.generation_payload,
+    regenerate_draft_id: draft.id,
+    feedback: draft.review_notes || undefined,
+  }
+
+  if (draft.service === 'blogs') {
+    payload.num_blogs = 1
+    payload.topic = draft.title
+  } else {
+    payload.num_pages = 1
+    delete payload.exclude_locations
+    if (typeof draft.fields.location === 'string') {
+      payload.priority_locations = [draft.fields.location]
+    }
+  }
+
+  return enqueueJob(supabase, {
+    contactId: draft.hubspot_contact_id,
+    service: draft.service,
+    payload,
+    createdBy: actor.id,
+  })
+}
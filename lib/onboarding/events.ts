@@ -0,0 +1,127 @@
+/**
+ * Onboarding Events
+ *
+ * Append-only audit trail for onboarding changes. Routes snapshot the
+ * service before they write, then record the before/after pair along with
+ * the acting user. Recording never throws - a failed audit insert is logged
+ * and must not fail the change it describes.
+ *
+ * Migration: 20261019010000_onboarding_events.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  OnboardingEvent,
+  OnboardingEventAction,
+  ServiceStatus,
+  ServiceType,
+} from '@/app/types/onboarding'
+
+export interface EventActor {
+  id: string | null
+  email: string | null
+}
+
+export interface ServiceSnapshot {
+  status: ServiceStatus
+  metadata: Record<string, unknown> | null
+}
+
+export interface RecordEventInput {
+  contactId: string
+  service: ServiceType | null
+  action: OnboardingEventAction
+  actor?: EventActor | null
+  statusBefore?: ServiceStatus | null
+  statusAfter?: ServiceStatus | null
+  payloadBefore?: Record<string, unknown> | null
+  payloadAfter?: Record<string, unknown> | null
+}
+
+/** Actor used for changes made by workers and cron jobs */
+export const SYSTEM_ACTOR: EventActor = { id: null, email: null }
+
+/**
+ * Resolve the signed-in user for the current request
+ */
+export async function getEventActor(supabase: SupabaseClient): Promise<EventActor> {
+  const { data: { user } } = await supabase.auth.getUser()
+  return { id: user?.id ?? null, email: user?.email ?? null }
+}
+
+/**
+ * Read the current onboarding_status row for a service (null if none)
+ */
+export async function getServiceSnapshot(
+  supabase: SupabaseClient,
+  contactId: string,
+  service: ServiceType
+): Promise<ServiceSnapshot | null> {
+  const { data, error } = await supabase
+    .from('onboarding_status')
+    .select('status, metadata')
+    .eq('hubspot_contact_id', contactId)
+    .eq('service', service)
+    .maybeSingle()
+
+  if (error) {
+    console.warn(`[Onboarding Events] Failed to snapshot ${service} status:`, error.message)
+    return null
+  }
+
+  return data as ServiceSnapshot | null
+}
+
+/**
+ * Append an event to onboarding_events
+ */
+export async function recordEvent(supabase: SupabaseClient, input: RecordEventInput): Promise<void> {
+  const actor = input.actor ?? SYSTEM_ACTOR
+
+  const { error } = await supabase.from('onboarding_events').insert({
+    hubspot_contact_id: input.contactId,
+    service: input.service,
+    action: input.action,
+    actor_id: actor.id,
+    actor_email: actor.email,
+    status_before: input.statusBefore ?? null,
+    status_after: input.statusAfter ?? null,
+    payload_before: input.payloadBefore ?? null,
+    payload_after: input.payloadAfter ?? null,
+  })
+
+  if (error) {
+    console.warn(`[Onboarding Events] Failed to record ${input.action} for ${input.contactId}:`, error.message)
+  }
+}
+
+/**
+ * List events for a contact, newest first
+ */
+export async function listEvents(
+  supabase: SupabaseClient,
+  contactId: string,
+  options: { service?: ServiceType; limit?: number; before?: string } = {}
+): Promise<OnboardingEvent[]> {
+  let query = supabase
+    .from('onboarding_events')
+    .select('*')
+    .eq('hubspot_contact_id', contactId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 50)
+
+  if (options.service) {
+    query = query.eq('service', options.service)
+  }
+  if (options.before) {
+    query = query.lt('created_at', options.before)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to list events: ${error.message}`)
+  }
+
+  return (data || []) as OnboardingEvent[]
+}
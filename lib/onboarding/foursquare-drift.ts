@@ -0,0 +1,414 @@
+/**
+ * Foursquare Listing Drift
+ *
+ * Re-fetches a linked venue and compares its name, address, phone and
+ * website with our reference record (enriched_businesses, then HubSpot,
+ * then the Google place - see lib/nap). Every check is stored in
+ * foursquare_drift_checks for the Foursquare tab's history.
+ *
+ * Drift, or a venue that no longer exists, moves the foursquare service
+ * from active to error with the reason in metadata.error. A later clean
+ * check moves it back, but only when drift put it there.
+ *
+ * Edits proposed through suggest/edit are tracked in
+ * foursquare_proposed_edits. Foursquare does not report what happens to a
+ * suggestion, so each check looks at the venue: once it shows every
+ * proposed value the edit is applied, and after EDIT_EXPIRY_DAYS without
+ * that it counts as rejected.
+ *
+ * Migration: 20261019140000_foursquare_drift.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { NapField, NapRecord, NapSource } from '@/app/types/nap'
+import { NAP_FIELD_LABELS } from '@/app/types/nap'
+import type {
+  FoursquareDriftCheck,
+  FoursquareDriftField,
+  FoursquareDriftStatus,
+  FoursquarePlace,
+  FoursquareProposedEdit,
+} from '@/app/types/onboarding'
+import { buildReference, compareField, compareRecord } from '@/lib/nap/audit'
+import { loadReferenceSources, recordFromFoursquare } from '@/lib/nap/sources'
+import { runWithConcurrency } from '@/lib/sync/utils'
+import type { EventActor } from './events'
+import { getServiceSnapshot, recordEvent } from './events'
+import { fetchFoursquareVenue, getFoursquareApiKey } from './foursquare'
+import { checkTransition } from './status'
+
+/** Days a proposed edit may take to show up before it counts as rejected */
+export const EDIT_EXPIRY_DAYS = 14
+
+/** Contacts checked within this many hours are skipped by the cron run */
+const RECHECK_AFTER_HOURS = 20
+
+/** Most venues re-fetched per cron run (oldest check first) */
+const MAX_CHECKS_PER_RUN = 150
+
+const CONCURRENCY = 4
+
+/** Fields compared; hours change too often on Foursquare to count as drift */
+const DRIFT_FIELDS: NapField[] = ['name', 'street', 'city', 'state', 'zip', 'phone', 'website']
+
+/** suggest/edit payload keys -> NAP fields */
+const EDIT_FIELDS: Record<string, NapField> = {
+  name: 'name',
+  address: 'street',
+  locality: 'city',
+  region: 'state',
+  postcode: 'zip',
+  tel: 'phone',
+  website: 'website',
+}
+
+const CHECK_COLUMNS =
+  'id, hubspot_contact_id, venue_id, status, differences, reason, edits_applied, edits_rejected, checked_at'
+
+const EDIT_COLUMNS = 'id, hubspot_contact_id, venue_id, edits, status, proposed_by, resolved_at, created_at'
+
+export interface DriftRunSummary {
+  linked: number
+  checked: number
+  ok: number
+  drift: number
+  missing: number
+  failed: number
+  editsApplied: number
+  editsRejected: number
+}
+
+// ─── Proposed edits ──────────────────────────────────────────
+
+/**
+ * Track an edit sent to Foursquare so the drift check can tell whether it
+ * was applied
+ */
+export async function recordProposedEdit(
+  supabase: SupabaseClient,
+  input: { contactId: string; venueId: string; edits: Record<string, unknown>; actor?: EventActor | null }
+): Promise<void> {
+  const { error } = await supabase.from('foursquare_proposed_edits').insert({
+    hubspot_contact_id: input.contactId,
+    venue_id: input.venueId,
+    edits: input.edits,
+    proposed_by: input.actor?.email ?? null,
+  })
+
+  if (error) {
+    console.warn(`[Foursquare Drift] Failed to record proposed edit for ${input.contactId}:`, error.message)
+  }
+}
+
+export async function listProposedEdits(
+  supabase: SupabaseClient,
+  contactId: string,
+  limit = 20
+): Promise<FoursquareProposedEdit[]> {
+  const { data, error } = await supabase
+    .from('foursquare_proposed_edits')
+    .select(EDIT_COLUMNS)
+    .eq('hubspot_contact_id', contactId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(`Failed to fetch proposed edits: ${error.message}`)
+  return (data || []) as FoursquareProposedEdit[]
+}
+
+function editRecord(edits: Record<string, string>): { record: NapRecord; fields: NapField[] } {
+  const record: NapRecord = {
+    name: null, street: null, city: null, state: null, zip: null, phone: null, website: null, hours: null,
+  }
+  const fields: NapField[] = []
+  for (const [key, value] of Object.entries(edits)) {
+    const field = EDIT_FIELDS[key]
+    if (!field || field === 'hours' || typeof value !== 'string' || !value.trim()) continue
+    record[field] = value
+    fields.push(field)
+  }
+  return { record, fields }
+}
+
+/**
+ * Settle the venue's pending edits against what it shows now
+ */
+async function settleProposedEdits(
+  supabase: SupabaseClient,
+  contactId: string,
+  venueId: string,
+  venue: NapRecord
+): Promise<{ applied: FoursquareProposedEdit[]; rejected: FoursquareProposedEdit[] }> {
+  const { data, error } = await supabase
+    .from('foursquare_proposed_edits')
+    .select(EDIT_COLUMNS)
+    .eq('hubspot_contact_id', contactId)
+    .eq('venue_id', venueId)
+    .eq('status', 'pending')
+
+  if (error) throw new Error(`Failed to fetch proposed edits: ${error.message}`)
+
+  const applied: FoursquareProposedEdit[] = []
+  const rejected: FoursquareProposedEdit[] = []
+  const expiry = Date.now() - EDIT_EXPIRY_DAYS * 86_400_000
+
+  for (const edit of (data || []) as FoursquareProposedEdit[]) {
+    const { record, fields } = editRecord(edit.edits)
+    const shown = fields.every((field) => venue[field] && compareField(field, venue, record) === 'match')
+    if (shown) applied.push(edit)
+    else if (new Date(edit.created_at).getTime() < expiry) rejected.push(edit)
+  }
+
+  const resolvedAt = new Date().toISOString()
+  for (const [status, edits] of [['applied', applied], ['rejected', rejected]] as const) {
+    if (!edits.length) continue
+    const { error: updateError } = await supabase
+      .from('foursquare_proposed_edits')
+      .update({ status, resolved_at: resolvedAt })
+      .in('id', edits.map((e) => e.id))
+    if (updateError) throw new Error(`Failed to update proposed edits: ${updateError.message}`)
+
+    for (const edit of edits) {
+      await recordEvent(supabase, {
+        contactId,
+        service: 'foursquare',
+        action: status === 'applied' ? 'edit_applied' : 'edit_rejected',
+        payloadAfter: { fsq_id: venueId, edit_id: edit.id, edits: edit.edits, proposed_at: edit.created_at },
+      })
+    }
+  }
+
+  return { applied, rejected }
+}
+
+// ─── Checks ──────────────────────────────────────────────────
+
+async function loadReference(supabase: SupabaseClient, contactId: string): Promise<NapRecord | null> {
+  const loaded = await loadReferenceSources(supabase, contactId)
+  const records = new Map<NapSource, NapRecord>()
+  for (const entry of loaded) if (entry.record) records.set(entry.source, entry.record)
+  return buildReference(records).record
+}
+
+function differencesFrom(venue: NapRecord, reference: NapRecord): FoursquareDriftField[] {
+  return compareRecord(venue, reference)
+    .filter((f) => DRIFT_FIELDS.includes(f.field) && (f.status === 'mismatch' || f.status === 'missing'))
+    .map((f) => ({ field: f.field, ours: f.expected, theirs: f.value, status: f.status as 'mismatch' | 'missing' }))
+}
+
+function driftReason(differences: FoursquareDriftField[], rejected: FoursquareProposedEdit[]): string | null {
+  const parts: string[] = []
+  if (differences.length) {
+    parts.push(`Foursquare listing differs on ${differences.map((d) => NAP_FIELD_LABELS[d.field as NapField].toLowerCase()).join(', ')}`)
+  }
+  for (const edit of rejected) {
+    parts.push(`edit proposed ${edit.created_at.slice(0, 10)} was not applied after ${EDIT_EXPIRY_DAYS} days`)
+  }
+  if (!parts.length) return null
+  const reason = parts.join('; ')
+  return reason[0].toUpperCase() + reason.slice(1)
+}
+
+/**
+ * Move the service to error on drift, and back to active once a check is
+ * clean - only when drift was what put it in error
+ */
+async function applyDriftStatus(supabase: SupabaseClient, check: FoursquareDriftCheck): Promise<void> {
+  if (check.status === 'error') return
+
+  const before = await getServiceSnapshot(supabase, check.hubspot_contact_id, 'foursquare')
+  const from = before?.status ?? 'not_started'
+  const metadata = before?.metadata ?? {}
+  const flagged = check.status !== 'ok'
+
+  let status: 'active' | 'error'
+  let nextMetadata: Record<string, unknown>
+  if (flagged && from === 'active') {
+    status = 'error'
+    nextMetadata = { ...metadata, error: check.reason, drift_check_id: check.id }
+  } else if (!flagged && from === 'error' && metadata.drift_check_id) {
+    status = 'active'
+    nextMetadata = { ...metadata }
+    delete nextMetadata.error
+    delete nextMetadata.drift_check_id
+  } else {
+    return
+  }
+
+  const rejection = checkTransition('foursquare', from, status)
+  if (rejection) {
+    console.warn(`[Foursquare Drift] Not updating status for ${check.hubspot_contact_id}: ${rejection.message}`)
+    return
+  }
+
+  const { error } = await supabase
+    .from('onboarding_status')
+    .update({ status, metadata: nextMetadata })
+    .eq('hubspot_contact_id', check.hubspot_contact_id)
+    .eq('service', 'foursquare')
+
+  if (error) throw new Error(`Failed to update Foursquare status: ${error.message}`)
+
+  await recordEvent(supabase, {
+    contactId: check.hubspot_contact_id,
+    service: 'foursquare',
+    action: flagged ? 'drift_detected' : 'drift_cleared',
+    statusBefore: from,
+    statusAfter: status,
+    payloadBefore: metadata,
+    payloadAfter: { ...nextMetadata, differences: check.differences },
+  })
+}
+
+async function storeCheck(
+  supabase: SupabaseClient,
+  row: Omit<FoursquareDriftCheck, 'id' | 'checked_at'>
+): Promise<FoursquareDriftCheck> {
+  const { data, error } = await supabase
+    .from('foursquare_drift_checks')
+    .insert(row)
+    .select(CHECK_COLUMNS)
+    .single()
+
+  if (error) throw new Error(`Failed to save drift check: ${error.message}`)
+  return data as FoursquareDriftCheck
+}
+
+/**
+ * Re-fetch one venue, store the check and update the service status
+ */
+export async function checkFoursquareDrift(
+  supabase: SupabaseClient,
+  contactId: string,
+  venueId: string,
+  apiKey: string
+): Promise<FoursquareDriftCheck> {
+  const base = { hubspot_contact_id: contactId, venue_id: venueId, differences: [], edits_applied: 0, edits_rejected: 0 }
+
+  let venue: FoursquarePlace | null
+  let reference: NapRecord | null
+  try {
+    ;[venue, reference] = await Promise.all([
+      fetchFoursquareVenue(venueId, apiKey),
+      loadReference(supabase, contactId),
+    ])
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return storeCheck(supabase, { ...base, status: 'error', reason: message })
+  }
+
+  let check: FoursquareDriftCheck
+  if (!venue) {
+    check = await storeCheck(supabase, {
+      ...base,
+      status: 'missing',
+      reason: `Venue ${venueId} no longer exists on Foursquare (deleted or merged)`,
+    })
+  } else {
+    const venueRecord = recordFromFoursquare(venue)
+    const { applied, rejected } = await settleProposedEdits(supabase, contactId, venueId, venueRecord)
+    const differences = reference ? differencesFrom(venueRecord, reference) : []
+    const status: FoursquareDriftStatus = differences.length || rejected.length ? 'drift' : 'ok'
+
+    check = await storeCheck(supabase, {
+      ...base,
+      status,
+      differences,
+      reason: driftReason(differences, rejected),
+      edits_applied: applied.length,
+      edits_rejected: rejected.length,
+    })
+  }
+
+  await applyDriftStatus(supabase, check)
+  return check
+}
+
+export async function listDriftChecks(
+  supabase: SupabaseClient,
+  contactId: string,
+  limit = 30
+): Promise<FoursquareDriftCheck[]> {
+  const { data, error } = await supabase
+    .from('foursquare_drift_checks')
+    .select(CHECK_COLUMNS)
+    .eq('hubspot_contact_id', contactId)
+    .order('checked_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(`Failed to fetch drift checks: ${error.message}`)
+  return (data || []) as FoursquareDriftCheck[]
+}
+
+/**
+ * Check every linked venue whose service is active (or in error from an
+ * earlier drift check) and was not checked recently, oldest check first
+ */
+export async function runDriftChecks(supabase: SupabaseClient): Promise<DriftRunSummary> {
+  const summary: DriftRunSummary = {
+    linked: 0, checked: 0, ok: 0, drift: 0, missing: 0, failed: 0, editsApplied: 0, editsRejected: 0,
+  }
+
+  const apiKey = getFoursquareApiKey()
+  if (!apiKey) throw new Error('Foursquare API key not configured')
+
+  const { data: identities, error: identityError } = await supabase
+    .from('service_identity_map')
+    .select('hubspot_contact_id, foursquare_venue_id')
+    .not('foursquare_venue_id', 'is', null)
+
+  if (identityError) throw new Error(`Failed to load identity map: ${identityError.message}`)
+  summary.linked = identities?.length ?? 0
+  if (!summary.linked) return summary
+
+  const { data: statuses, error: statusError } = await supabase
+    .from('onboarding_status')
+    .select('hubspot_contact_id, status, metadata')
+    .eq('service', 'foursquare')
+    .in('status', ['active', 'error'])
+
+  if (statusError) throw new Error(`Failed to load Foursquare statuses: ${statusError.message}`)
+
+  // Errors from anything other than drift (a failed create) are left alone
+  const eligible = new Set(
+    (statuses || [])
+      .filter((s) => s.status === 'active' || s.metadata?.drift_check_id)
+      .map((s) => s.hubspot_contact_id as string)
+  )
+
+  const since = new Date(Date.now() - 30 * 86_400_000).toISOString()
+  const { data: recent, error: recentError } = await supabase
+    .from('foursquare_drift_checks')
+    .select('hubspot_contact_id, checked_at')
+    .gte('checked_at', since)
+    .order('checked_at', { ascending: false })
+
+  if (recentError) throw new Error(`Failed to load drift checks: ${recentError.message}`)
+
+  const lastChecked = new Map<string, number>()
+  for (const row of recent || []) {
+    if (!lastChecked.has(row.hubspot_contact_id)) lastChecked.set(row.hubspot_contact_id, new Date(row.checked_at).getTime())
+  }
+
+  const cutoff = Date.now() - RECHECK_AFTER_HOURS * 3_600_000
+  const due = (identities || [])
+    .filter((i) => eligible.has(i.hubspot_contact_id) && (lastChecked.get(i.hubspot_contact_id) ?? 0) < cutoff)
+    .sort((a, b) => (lastChecked.get(a.hubspot_contact_id) ?? 0) - (lastChecked.get(b.hubspot_contact_id) ?? 0))
+    .slice(0, MAX_CHECKS_PER_RUN)
+
+  await runWithConcurrency(due, CONCURRENCY, async (identity) => {
+    try {
+      const check = await checkFoursquareDrift(supabase, identity.hubspot_contact_id, identity.foursquare_venue_id, apiKey)
+      summary.checked++
+      summary.editsApplied += check.edits_applied
+      summary.editsRejected += check.edits_rejected
+      if (check.status === 'error') summary.failed++
+      else summary[check.status]++
+    } catch (error: unknown) {
+      summary.failed++
+      console.error(`[Foursquare Drift] Check failed for ${identity.hubspot_contact_id}:`, error)
+    }
+  })
+
+  return summary
+}
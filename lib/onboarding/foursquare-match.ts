@@ -0,0 +1,423 @@
+/**
+ * Foursquare Venue Matching
+ *
+ * Scores Foursquare search results against a contact so we can link the
+ * right existing venue instead of creating a duplicate. Each candidate gets
+ * a 0-100 confidence from weighted signals - name similarity, distance from
+ * the linked Google place (street/ZIP when there is no pin), phone, website
+ * and category overlap - plus a reason per signal for the account manager.
+ *
+ * Signals only count when both sides have the data, so a venue with no
+ * phone is neither helped nor hurt by it. A confident, clearly-ahead match
+ * that a location or phone signal backs up is linked automatically;
+ * anything else above the review floor goes to foursquare_match_reviews.
+ *
+ * Migration: 20261019130000_foursquare_match_reviews.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  FoursquareMatchCandidate,
+  FoursquareMatchDecision,
+  FoursquareMatchResult,
+  FoursquareMatchReview,
+  FoursquareMatchReviewStatus,
+  FoursquareMatchSignal,
+  FoursquarePlace,
+} from '@/app/types/onboarding'
+import { nameSimilarity, normalizeStreet, samePhone, sameWebsite, websiteHost, zip5 } from '@/lib/normalize'
+import type { EventActor } from './events'
+import { recordEvent } from './events'
+import {
+  fetchGooglePlaceDetails,
+  linkFoursquareVenue,
+  searchFoursquareVenues,
+  type VenueSource,
+} from './foursquare'
+
+/** At or above: link without review (when corroborated and clearly ahead) */
+export const AUTO_LINK_CONFIDENCE = 85
+
+/** Below: not a match - create a new venue */
+export const REVIEW_CONFIDENCE = 50
+
+/** Points the best candidate must lead the runner-up by to auto-link */
+const AUTO_LINK_MARGIN = 10
+
+/** Candidates kept on a result / review */
+const MAX_CANDIDATES = 5
+
+const WEIGHTS = { name: 40, location: 30, phone: 15, website: 10, category: 5 }
+
+/** Google place types too generic to say anything about the business */
+const GENERIC_CATEGORY_WORDS = new Set([
+  'establishment', 'point', 'of', 'interest', 'store', 'service', 'services', 'business', 'and', 'shop',
+])
+
+export interface MatchTarget extends VenueSource {
+  /** Coordinates of the linked Google place */
+  location?: { latitude: number; longitude: number } | null
+  /** Google place types ("plumber", "home_goods_store") */
+  categories?: string[]
+}
+
+// ─── Scoring ─────────────────────────────────────────────────
+
+function distanceMeters(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = rad(b.latitude - a.latitude)
+  const dLng = rad(b.longitude - a.longitude)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.latitude)) * Math.cos(rad(b.latitude)) * Math.sin(dLng / 2) ** 2
+  return 2 * 6_371_000 * Math.asin(Math.sqrt(h))
+}
+
+function distanceScore(meters: number): number {
+  if (meters <= 50) return 1
+  if (meters <= 250) return 0.8
+  if (meters <= 1000) return 0.4
+  if (meters <= 5000) return 0.1
+  return 0
+}
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`
+
+function categoryWords(values: string[]): Set<string> {
+  return new Set(
+    values
+      .flatMap((v) => v.toLowerCase().split(/[^a-z]+/))
+      .map((w) => w.replace(/s$/, ''))
+      .filter((w) => w.length > 2 && !GENERIC_CATEGORY_WORDS.has(w))
+  )
+}
+
+function nameSignal(target: MatchTarget, venue: FoursquarePlace): FoursquareMatchSignal {
+  const score = nameSimilarity(target.name, venue.name)
+  const detail = score === 1
+    ? 'Same name'
+    : score === 0
+      ? `"${venue.name}" shares no words with "${target.name}"`
+      : `"${venue.name}" is a ${Math.round(score * 100)}% word match`
+  return { key: 'name', score, weight: WEIGHTS.name, detail }
+}
+
+function locationSignal(target: MatchTarget, venue: FoursquarePlace): FoursquareMatchSignal | null {
+  if (target.location && venue.latitude != null && venue.longitude != null) {
+    const meters = distanceMeters(target.location, { latitude: venue.latitude, longitude: venue.longitude })
+    return {
+      key: 'location',
+      score: distanceScore(meters),
+      weight: WEIGHTS.location,
+      detail: `${formatDistance(meters)} from the Google pin`,
+    }
+  }
+
+  // No pin on one side - fall back to the street and ZIP
+  const street = normalizeStreet(target.address)
+  const venueStreet = normalizeStreet(venue.location?.address)
+  if (street && venueStreet) {
+    if (street === venueStreet) return { key: 'location', score: 1, weight: WEIGHTS.location, detail: 'Same street address' }
+    const zip = zip5(target.zip)
+    const sameZip = zip !== null && zip === zip5(venue.location?.postcode)
+    return {
+      key: 'location',
+      score: sameZip ? 0.3 : 0,
+      weight: WEIGHTS.location,
+      detail: sameZip ? 'Same ZIP, different street address' : 'Different street address',
+    }
+  }
+  return null
+}
+
+function phoneSignal(target: MatchTarget, venue: FoursquarePlace): FoursquareMatchSignal | null {
+  if (!target.phone || !venue.tel) return null
+  const same = samePhone(target.phone, venue.tel)
+  return { key: 'phone', score: same ? 1 : 0, weight: WEIGHTS.phone, detail: same ? 'Same phone' : `Different phone (${venue.tel})` }
+}
+
+function websiteSignal(target: MatchTarget, venue: FoursquarePlace): FoursquareMatchSignal | null {
+  const host = websiteHost(target.website)
+  const venueHost = websiteHost(venue.website)
+  if (!host || !venueHost) return null
+  if (sameWebsite(target.website, venue.website)) {
+    return { key: 'website', score: 1, weight: WEIGHTS.website, detail: 'Same website' }
+  }
+  return host === venueHost
+    ? { key: 'website', score: 0.8, weight: WEIGHTS.website, detail: 'Same domain, different page' }
+    : { key: 'website', score: 0, weight: WEIGHTS.website, detail: `Different website (${venueHost})` }
+}
+
+function categorySignal(target: MatchTarget, venue: FoursquarePlace): FoursquareMatchSignal | null {
+  const ours = categoryWords(target.categories ?? [])
+  const theirs = categoryWords((venue.categories ?? []).map((c) => c.name))
+  if (!ours.size || !theirs.size) return null
+  const shared = Array.from(ours).filter((w) => theirs.has(w))
+  return shared.length
+    ? { key: 'category', score: 1, weight: WEIGHTS.category, detail: `Category overlap: ${shared.join(', ')}` }
+    : { key: 'category', score: 0, weight: WEIGHTS.category, detail: 'No category overlap' }
+}
+
+/**
+ * Score one Foursquare venue against the contact
+ */
+export function scoreFoursquareVenue(target: MatchTarget, venue: FoursquarePlace): FoursquareMatchCandidate {
+  const signals = [
+    nameSignal(target, venue),
+    locationSignal(target, venue),
+    phoneSignal(target, venue),
+    websiteSignal(target, venue),
+    categorySignal(target, venue),
+  ].filter((s): s is FoursquareMatchSignal => s !== null)
+
+  const weight = signals.reduce((sum, s) => sum + s.weight, 0)
+  const confidence = Math.round((signals.reduce((sum, s) => sum + s.score * s.weight, 0) / weight) * 1000) / 10
+
+  return { venue, confidence, signals }
+}
+
+/**
+ * Scored candidates, best first
+ */
+export function rankFoursquareVenues(target: MatchTarget, venues: FoursquarePlace[]): FoursquareMatchCandidate[] {
+  return venues
+    .filter((v) => v.fsq_place_id || v.fsq_id)
+    .map((v) => scoreFoursquareVenue(target, v))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES)
+}
+
+/**
+ * What to do with the ranked candidates. Auto-linking also needs the
+ * location or phone to agree - a name alone is not enough - and a clear
+ * lead over the runner-up.
+ */
+export function decideFoursquareMatch(candidates: FoursquareMatchCandidate[]): FoursquareMatchDecision {
+  const [best, next] = candidates
+  if (!best || best.confidence < REVIEW_CONFIDENCE) return 'no_match'
+
+  const corroborated = best.signals.some((s) => (s.key === 'location' || s.key === 'phone') && s.score >= 0.8)
+  const clearLead = !next || best.confidence - next.confidence >= AUTO_LINK_MARGIN
+
+  return best.confidence >= AUTO_LINK_CONFIDENCE && corroborated && clearLead ? 'auto_link' : 'review'
+}
+
+/**
+ * Search Foursquare for the contact and score what comes back
+ */
+export async function findFoursquareMatches(target: MatchTarget, apiKey: string): Promise<FoursquareMatchResult> {
+  const venues = await searchFoursquareVenues(target, apiKey, target.location)
+  const candidates = rankFoursquareVenues(target, venues)
+  return { decision: decideFoursquareMatch(candidates), candidates }
+}
+
+export const candidateVenueId = (candidate: FoursquareMatchCandidate): string =>
+  (candidate.venue.fsq_place_id || candidate.venue.fsq_id)!
+
+/**
+ * Match target for a contact from its HubSpot record and linked Google
+ * place. Returns null when the contact does not exist.
+ */
+export async function loadMatchTarget(
+  supabase: SupabaseClient,
+  contactId: string
+): Promise<{ target: MatchTarget; googlePlaceId: string | null } | null> {
+  const [{ data: contact, error: contactError }, { data: identity, error: identityError }] = await Promise.all([
+    supabase
+      .from('contacts')
+      .select('company, firstname, lastname, address, city, state, zip, phone, mobilephone, website')
+      .eq('hs_object_id', contactId)
+      .maybeSingle(),
+    supabase
+      .from('service_identity_map')
+      .select('google_place_id')
+      .eq('hubspot_contact_id', contactId)
+      .maybeSingle(),
+  ])
+
+  if (contactError) throw new Error(`Failed to load contact: ${contactError.message}`)
+  if (identityError) throw new Error(`Failed to fetch identity map: ${identityError.message}`)
+  if (!contact) return null
+
+  const googlePlaceId: string | null = identity?.google_place_id ?? null
+  const googlePlace = googlePlaceId && process.env.GOOGLE_PLACES_API_KEY
+    ? await fetchGooglePlaceDetails(googlePlaceId)
+    : null
+
+  const target: MatchTarget = {
+    name: contact.company || `${contact.firstname || ''} ${contact.lastname || ''}`.trim(),
+    address: contact.address,
+    city: contact.city,
+    state: contact.state,
+    zip: contact.zip,
+    phone: contact.phone || contact.mobilephone || googlePlace?.nationalPhoneNumber || null,
+    website: contact.website || googlePlace?.websiteUri || null,
+    location: googlePlace?.location ?? null,
+    categories: googlePlace?.types ?? [],
+  }
+  return { target, googlePlaceId }
+}
+
+// ─── Review queue ────────────────────────────────────────────
+
+const REVIEW_COLUMNS =
+  'id, hubspot_contact_id, business_name, status, top_confidence, candidates, chosen_venue_id, created_by, resolved_by, resolved_at, created_at'
+
+/**
+ * Queue ambiguous candidates for review. A contact has at most one pending
+ * review; queueing again replaces its candidates.
+ */
+export async function queueFoursquareReview(
+  supabase: SupabaseClient,
+  contactId: string,
+  businessName: string,
+  candidates: FoursquareMatchCandidate[],
+  actor?: EventActor | null
+): Promise<FoursquareMatchReview> {
+  const fields = {
+    business_name: businessName,
+    top_confidence: candidates[0]?.confidence ?? 0,
+    candidates,
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('foursquare_match_reviews')
+    .select('id')
+    .eq('hubspot_contact_id', contactId)
+    .eq('status', 'pending')
+    .maybeSingle()
+
+  if (existingError) throw new Error(`Failed to fetch match review: ${existingError.message}`)
+
+  const query = existing
+    ? supabase.from('foursquare_match_reviews').update(fields).eq('id', existing.id)
+    : supabase.from('foursquare_match_reviews').insert({
+      ...fields,
+      hubspot_contact_id: contactId,
+      created_by: actor?.email ?? null,
+    })
+
+  const { data, error } = await query.select(REVIEW_COLUMNS).single()
+  if (error) throw new Error(`Failed to queue match review: ${error.message}`)
+
+  await recordEvent(supabase, {
+    contactId,
+    service: 'foursquare',
+    action: 'match_queued',
+    actor,
+    payloadAfter: {
+      review_id: data.id,
+      top_confidence: fields.top_confidence,
+      venue_ids: candidates.map(candidateVenueId),
+    },
+  })
+
+  return data as FoursquareMatchReview
+}
+
+export async function listFoursquareReviews(
+  supabase: SupabaseClient,
+  options: { status?: FoursquareMatchReviewStatus; contactId?: string; limit?: number } = {}
+): Promise<FoursquareMatchReview[]> {
+  let query = supabase
+    .from('foursquare_match_reviews')
+    .select(REVIEW_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 50)
+
+  if (options.status) query = query.eq('status', options.status)
+  if (options.contactId) query = query.eq('hubspot_contact_id', options.contactId)
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to fetch match reviews: ${error.message}`)
+  return (data || []) as FoursquareMatchReview[]
+}
+
+export async function getFoursquareReview(
+  supabase: SupabaseClient,
+  reviewId: string
+): Promise<FoursquareMatchReview | null> {
+  const { data, error } = await supabase
+    .from('foursquare_match_reviews')
+    .select(REVIEW_COLUMNS)
+    .eq('id', reviewId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to fetch match review: ${error.message}`)
+  return data as FoursquareMatchReview | null
+}
+
+async function closeReview(
+  supabase: SupabaseClient,
+  reviewId: string,
+  status: FoursquareMatchReviewStatus,
+  venueId: string | null,
+  actor: EventActor
+): Promise<FoursquareMatchReview> {
+  const { data, error } = await supabase
+    .from('foursquare_match_reviews')
+    .update({
+      status,
+      chosen_venue_id: venueId,
+      resolved_by: actor.email,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq('id', reviewId)
+    .select(REVIEW_COLUMNS)
+    .single()
+
+  if (error) throw new Error(`Failed to update match review: ${error.message}`)
+  return data as FoursquareMatchReview
+}
+
+/**
+ * Link the chosen candidate and close the review
+ */
+export async function approveFoursquareReview(
+  supabase: SupabaseClient,
+  review: FoursquareMatchReview,
+  venueId: string,
+  actor: EventActor
+): Promise<FoursquareMatchReview> {
+  const candidate = review.candidates.find((c) => candidateVenueId(c) === venueId)
+  if (!candidate) throw new Error(`Venue ${venueId} is not a candidate on this review`)
+
+  const { data: identity } = await supabase
+    .from('service_identity_map')
+    .select('google_place_id')
+    .eq('hubspot_contact_id', review.hubspot_contact_id)
+    .maybeSingle()
+
+  await linkFoursquareVenue(supabase, {
+    contactId: review.hubspot_contact_id,
+    venueId,
+    venueName: candidate.venue.name,
+    googlePlaceId: identity?.google_place_id ?? null,
+    action: 'LINK_SCORED',
+    actor,
+    metadata: { match_confidence: candidate.confidence, match_review_id: review.id },
+  })
+
+  return closeReview(supabase, review.id, 'approved', venueId, actor)
+}
+
+/**
+ * None of the candidates is the business - close the review so a new
+ * venue can be created
+ */
+export async function rejectFoursquareReview(
+  supabase: SupabaseClient,
+  review: FoursquareMatchReview,
+  actor: EventActor
+): Promise<FoursquareMatchReview> {
+  const updated = await closeReview(supabase, review.id, 'rejected', null, actor)
+
+  await recordEvent(supabase, {
+    contactId: review.hubspot_contact_id,
+    service: 'foursquare',
+    action: 'match_rejected',
+    actor,
+    payloadAfter: { review_id: review.id, venue_ids: review.candidates.map(candidateVenueId) },
+  })
+
+  return updated
+}
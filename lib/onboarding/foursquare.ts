@@ -0,0 +1,291 @@
+/**
+ * Foursquare Venue Onboarding
+ *
+ * Match, create and link Foursquare venues for a contact. Originally
+ * prototyped in scripts/audit/foursquare-bulk-push.ts; shared by that
+ * script and the in-app bulk runner (see bulk.ts).
+ *
+ * Address data from Google Places is authoritative when the contact has a
+ * linked google_place_id; the contact's own HubSpot fields fill the gaps.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { PlacesClient, type PlaceDetails } from '@/lib/places/client'
+import type { FoursquarePlace } from '@/app/types/onboarding'
+import { canonicalWebsite, normalizeZip, toE164, toStateCode } from '@/lib/normalize'
+import type { EventActor } from './events'
+import { recordEvent } from './events'
+import { assertTransition } from './status'
+
+export const FSQ_PLACES_URL = 'https://places-api.foursquare.com/places'
+export const FSQ_API_VERSION = '2025-06-17'
+
+const FSQ_TIMEOUT_MS = 15_000
+
+/** Business details used to match or create a venue */
+export interface VenueSource {
+  name: string
+  address?: string | null
+  city?: string | null
+  state?: string | null
+  zip?: string | null
+  website?: string | null
+  phone?: string | null
+}
+
+export interface FoursquareMatch {
+  venueId: string
+  name: string
+}
+
+/** LINK_SCORED: picked by the confidence matcher (foursquare-match.ts) or approved from its review queue */
+export type VenueLinkAction = 'CREATE' | 'LINK_EXACT' | 'LINK_SCORED'
+
+export interface LinkVenueInput {
+  contactId: string
+  venueId: string
+  venueName: string
+  googlePlaceId?: string | null
+  action: VenueLinkAction
+  actor?: EventActor | null
+  /** Extra keys stored on onboarding_status.metadata (e.g. bulk_push) */
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Foursquare key from the environment (service account preferred)
+ */
+export function getFoursquareApiKey(): string | undefined {
+  return process.env.FOURSQUARE_SERVICE_ACCOUNT_KEY || process.env.FOURSQUARE_API_KEY
+}
+
+async function fsqFetch(url: string, apiKey: string, init: RequestInit = {}): Promise<Response> {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), FSQ_TIMEOUT_MS)
+
+  try {
+    return await fetch(url, {
+      ...init,
+      headers: {
+        Accept: 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+        'X-Places-Api-Version': FSQ_API_VERSION,
+        ...(init.headers as Record<string, string> | undefined),
+      },
+      signal: controller.signal,
+    })
+  } catch (err) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      throw new Error('Foursquare API request timed out')
+    }
+    throw err
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+/**
+ * Fetch Google Place details used to enrich a new venue
+ */
+export async function fetchGooglePlaceDetails(placeId: string, apiKey?: string): Promise<PlaceDetails> {
+  const client = new PlacesClient(apiKey ? { apiKey } : undefined)
+  return client.getPlaceDetails(placeId, { includeReviews: false, includePhotos: false })
+}
+
+/**
+ * Look for an exact Foursquare match (name + street address).
+ * Returns null when there is no match or not enough address to try.
+ */
+export async function matchFoursquareVenue(
+  source: VenueSource,
+  apiKey: string
+): Promise<FoursquareMatch | null> {
+  if (!source.address || !source.city) return null
+
+  const params = new URLSearchParams({
+    name: source.name,
+    address: source.address,
+    city: source.city,
+    cc: 'US',
+  })
+  const state = toStateCode(source.state)
+  const zip = normalizeZip(source.zip)
+  if (state) params.set('state', state)
+  if (zip) params.set('postalCode', zip)
+
+  const res = await fsqFetch(`${FSQ_PLACES_URL}/match?${params}`, apiKey)
+  if (res.status === 404) return null
+  if (!res.ok) {
+    throw new Error(`Foursquare match ${res.status}: ${await res.text()}`)
+  }
+
+  const data = await res.json()
+  const place = data?.place
+  if (!place?.fsq_place_id) return null
+
+  return { venueId: place.fsq_place_id, name: place.name || source.name }
+}
+
+/**
+ * Free-text venue search around the Google pin when we have one, else near
+ * the city
+ */
+export async function searchFoursquareVenues(
+  source: VenueSource,
+  apiKey: string,
+  location?: { latitude: number; longitude: number } | null,
+  limit = 10
+): Promise<FoursquarePlace[]> {
+  const params = new URLSearchParams({ query: source.name, limit: String(limit) })
+  if (location) {
+    params.set('ll', `${location.latitude},${location.longitude}`)
+    params.set('radius', '5000')
+  } else {
+    const near = [source.city, toStateCode(source.state) ?? source.state].filter(Boolean).join(', ')
+    if (!near) return []
+    params.set('near', near)
+  }
+
+  const res = await fsqFetch(`${FSQ_PLACES_URL}/search?${params}`, apiKey)
+  if (!res.ok) {
+    throw new Error(`Foursquare search ${res.status}: ${await res.text()}`)
+  }
+
+  const data = await res.json()
+  return (data?.results || []) as FoursquarePlace[]
+}
+
+/**
+ * Build the venue create payload. Google data takes precedence for the
+ * address and coordinates; our own website and phone win over Google's.
+ */
+export function buildVenuePayload(
+  source: VenueSource,
+  googlePlace?: PlaceDetails | null
+): Record<string, unknown> {
+  const addrComp: Record<string, string> = {}
+  for (const comp of googlePlace?.addressComponents || []) {
+    if (comp.types.includes('street_number')) addrComp.streetNumber = comp.longText
+    if (comp.types.includes('route')) addrComp.street = comp.longText
+    if (comp.types.includes('locality')) addrComp.city = comp.longText
+    if (comp.types.includes('administrative_area_level_1')) addrComp.state = comp.shortText
+    if (comp.types.includes('postal_code')) addrComp.zipCode = comp.longText
+  }
+
+  const street = addrComp.streetNumber && addrComp.street
+    ? `${addrComp.streetNumber} ${addrComp.street}`
+    : source.address?.trim()
+
+  // Use our canonical name, not Google's (may include junk)
+  const payload: Record<string, unknown> = { name: source.name }
+  if (street) payload.address = street
+
+  const city = addrComp.city || source.city?.trim()
+  const state = addrComp.state || toStateCode(source.state) || source.state?.trim()
+  const zip = addrComp.zipCode || normalizeZip(source.zip) || source.zip?.trim()
+  if (city) payload.city = city
+  if (state) payload.state = state
+  if (zip) payload.zip = zip
+
+  if (googlePlace?.location?.latitude && googlePlace?.location?.longitude) {
+    payload.ll = `${googlePlace.location.latitude},${googlePlace.location.longitude}`
+  }
+
+  const website = canonicalWebsite(source.website) || canonicalWebsite(googlePlace?.websiteUri)
+  if (website) payload.url = website
+
+  const phone = toE164(source.phone) || toE164(googlePlace?.internationalPhoneNumber ?? googlePlace?.nationalPhoneNumber)
+  if (phone) payload.tel = phone
+
+  return payload
+}
+
+/**
+ * Create a new Foursquare venue
+ */
+export async function createFoursquareVenue(
+  payload: Record<string, unknown>,
+  apiKey: string
+): Promise<{ venueId: string; raw: Record<string, unknown> }> {
+  const res = await fsqFetch(FSQ_PLACES_URL, apiKey, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  })
+
+  if (!res.ok) {
+    throw new Error(`Foursquare create ${res.status}: ${await res.text()}`)
+  }
+
+  const venue = await res.json()
+  const venueId = venue.fsq_place_id || venue.fsq_id || venue.id
+  if (!venueId) {
+    throw new Error(`Foursquare returned no venue ID: ${JSON.stringify(venue)}`)
+  }
+
+  return { venueId, raw: venue }
+}
+
+/**
+ * Fetch a venue's current details. Returns null when Foursquare no longer
+ * knows the venue (deleted or merged).
+ */
+export async function fetchFoursquareVenue(venueId: string, apiKey: string): Promise<FoursquarePlace | null> {
+  const res = await fsqFetch(`${FSQ_PLACES_URL}/${venueId}`, apiKey)
+  if (res.status === 404) return null
+  if (!res.ok) {
+    throw new Error(`Foursquare details ${res.status}: ${await res.text()}`)
+  }
+  return (await res.json()) as FoursquarePlace
+}
+
+/**
+ * Store the venue on the identity map, mark the foursquare service active
+ * and record the change in the onboarding history
+ */
+export async function linkFoursquareVenue(supabase: SupabaseClient, input: LinkVenueInput): Promise<void> {
+  const { contactId, venueId, venueName, googlePlaceId, action } = input
+
+  const before = await assertTransition(supabase, contactId, 'foursquare', 'active')
+
+  const identityPayload: Record<string, unknown> = {
+    hubspot_contact_id: contactId,
+    foursquare_venue_id: venueId,
+  }
+  if (googlePlaceId) identityPayload.google_place_id = googlePlaceId
+
+  const { error: identityError } = await supabase
+    .from('service_identity_map')
+    .upsert(identityPayload, { onConflict: 'hubspot_contact_id' })
+
+  if (identityError) {
+    throw new Error(`Supabase identity upsert: ${identityError.message}`)
+  }
+
+  const metadata = { venue_id: venueId, venue_name: venueName, action, ...input.metadata }
+
+  const { error: statusError } = await supabase
+    .from('onboarding_status')
+    .upsert({
+      hubspot_contact_id: contactId,
+      service: 'foursquare',
+      status: 'active',
+      provisioned_at: new Date().toISOString(),
+      metadata,
+    }, { onConflict: 'hubspot_contact_id,service' })
+
+  if (statusError) {
+    throw new Error(`Supabase status upsert: ${statusError.message}`)
+  }
+
+  await recordEvent(supabase, {
+    contactId,
+    service: 'foursquare',
+    action: action === 'CREATE' ? 'venue_created' : 'venue_linked',
+    actor: input.actor,
+    statusBefore: before?.status,
+    statusAfter: 'active',
+    payloadBefore: before?.metadata,
+    payloadAfter: metadata,
+  })
+}
@@ -0,0 +1,188 @@
+/**
+ * Landing Page Geo-Target Suggestions
+ *
+ * Proposes cities and communities around a business for landing pages, so
+ * the account manager does not have to type priority_locations by hand.
+ * The center is the linked Google place when there is one, otherwise the
+ * contact's ZIP code or city. Candidates come from the bundled US places
+ * dataset (lib/geo/us-places.ts); cities the contact already has a page for
+ * are left out.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { LatLng, NearbyPlace } from '@/lib/geo/us-places'
+import { findPlace, lookupZip, placesWithinRadius } from '@/lib/geo/us-places'
+import { PlacesClient } from '@/lib/places/client'
+import { existingLocationKeys, locationKey } from './landing-pages'
+
+export const DEFAULT_SUGGESTION_RADIUS_MILES = 25
+export const MAX_SUGGESTION_RADIUS_MILES = 100
+
+/** The contact's own address, used when no Google place is linked */
+export interface ContactAddress {
+  city?: string | null
+  state?: string | null
+  zip?: string | null
+}
+
+export interface SuggestionOptions {
+  radiusMiles?: number
+  limit?: number
+  /** Leave out cities smaller than this (communities have no estimate and are kept) */
+  minPopulation?: number
+}
+
+export type SuggestionOriginSource = 'google_place' | 'zip' | 'city'
+
+export interface SuggestionOrigin extends LatLng {
+  source: SuggestionOriginSource
+  /** "Denver, CO" - suggested base_location */
+  baseLocation: string | null
+}
+
+export interface GeoTargetSuggestion {
+  /** "Boulder, CO" - the value to send in priority_locations */
+  location: string
+  name: string
+  state: string
+  kind: NearbyPlace['kind']
+  distanceMiles: number
+  population: number | null
+  score: number
+}
+
+export interface GeoTargetSuggestions {
+  origin: SuggestionOrigin
+  radiusMiles: number
+  suggestions: GeoTargetSuggestion[]
+  /** Nearby cities left out because they already have a page */
+  alreadyCovered: string[]
+}
+
+function formatLocation(name: string, state: string): string {
+  return `${name}, ${state}`
+}
+
+/**
+ * Larger places rank higher (log of population); a place at the edge of
+ * the radius scores half what it would next door.
+ */
+function scorePlace(place: NearbyPlace, radiusMiles: number): number {
+  const size = Math.log10((place.population ?? 0) + 10)
+  const proximity = 1 - 0.5 * (place.distanceMiles / radiusMiles)
+  return Math.round(size * proximity * 1000) / 1000
+}
+
+/**
+ * Resolve the point to search around: Google place, then ZIP, then city
+ */
+async function resolveOrigin(
+  supabase: SupabaseClient,
+  contactId: string,
+  address: ContactAddress
+): Promise<SuggestionOrigin | null> {
+  const { data: identity } = await supabase
+    .from('service_identity_map')
+    .select('google_place_id')
+    .eq('hubspot_contact_id', contactId)
+    .maybeSingle()
+
+  if (identity?.google_place_id && process.env.GOOGLE_PLACES_API_KEY) {
+    try {
+      const place = await new PlacesClient().getPlaceDetails(identity.google_place_id, {
+        includeReviews: false,
+        includePhotos: false,
+      })
+      if (place.location?.latitude && place.location?.longitude) {
+        const component = (type: string, short = false) => {
+          const match = place.addressComponents?.find((c) => c.types.includes(type))
+          return match ? (short ? match.shortText : match.longText) : null
+        }
+        const city = component('locality')
+        const state = component('administrative_area_level_1', true)
+        return {
+          lat: place.location.latitude,
+          lng: place.location.longitude,
+          source: 'google_place',
+          baseLocation: city && state ? formatLocation(city, state) : null,
+        }
+      }
+    } catch (err) {
+      console.warn(`[Geo Targets] Google place lookup failed for ${contactId}, falling back to address:`, err instanceof Error ? err.message : err)
+    }
+  }
+
+  const baseLocation = address.city && address.state
+    ? formatLocation(address.city.trim(), address.state.trim().toUpperCase())
+    : null
+
+  const zipPoint = address.zip ? lookupZip(address.zip) : null
+  if (zipPoint) {
+    return { ...zipPoint, source: 'zip', baseLocation }
+  }
+
+  if (address.city && address.state) {
+    const place = findPlace(address.city, address.state)
+    if (place) {
+      return { lat: place.lat, lng: place.lng, source: 'city', baseLocation }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Ranked nearby cities for a contact, excluding the base city and cities
+ * already covered by a landing page. Returns null when no location could
+ * be resolved for the contact.
+ */
+export async function suggestGeoTargets(
+  supabase: SupabaseClient,
+  contactId: string,
+  address: ContactAddress,
+  options: SuggestionOptions = {}
+): Promise<GeoTargetSuggestions | null> {
+  const radiusMiles = Math.max(1, Math.min(MAX_SUGGESTION_RADIUS_MILES, options.radiusMiles ?? DEFAULT_SUGGESTION_RADIUS_MILES))
+  const limit = options.limit ?? 50
+  const minPopulation = options.minPopulation ?? 0
+
+  const origin = await resolveOrigin(supabase, contactId, address)
+  if (!origin) return null
+
+  const covered = await existingLocationKeys(supabase, contactId)
+  const baseKey = origin.baseLocation ? locationKey(origin.baseLocation) : null
+
+  const alreadyCovered: string[] = []
+  const suggestions: GeoTargetSuggestion[] = []
+
+  for (const place of placesWithinRadius(origin, radiusMiles)) {
+    const location = formatLocation(place.name, place.state)
+    if (locationKey(location) === baseKey) continue
+
+    // Inventory rows may be stored with or without the state
+    if (covered.has(locationKey(location)) || covered.has(locationKey(place.name))) {
+      if (place.kind === 'city') alreadyCovered.push(location)
+      continue
+    }
+    if (place.population !== null && place.population < minPopulation) continue
+
+    suggestions.push({
+      location,
+      name: place.name,
+      state: place.state,
+      kind: place.kind,
+      distanceMiles: Math.round(place.distanceMiles * 10) / 10,
+      population: place.population,
+      score: scorePlace(place, radiusMiles),
+    })
+  }
+
+  suggestions.sort((a, b) => b.score - a.score || a.distanceMiles - b.distanceMiles)
+
+  return {
+    origin,
+    radiusMiles,
+    suggestions: suggestions.slice(0, limit),
+    alreadyCovered,
+  }
+}
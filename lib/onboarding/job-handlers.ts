@@ -0,0 +1,291 @@
+/**
+ * Onboarding Job Handlers
+ *
+ * One handler per job service. A handler calls the external generation
+ * service and maps the outcome onto onboarding_status. Handlers never
+ * throw for expected failures - they return { ok: false, retryable }
+ * so the worker can decide between backoff and giving up.
+ *
+ * Services are asked not to publish; the posts/pages they return are
+ * stored as drafts for review (see drafts.ts). That contract is checked on
+ * every response (checkDraftResponse) - a service that published anyway or
+ * returned nothing reviewable fails the job rather than marking it active.
+ * See "Generation Service Contract" in docs/API-REFERENCE.md.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { ContentDraft, JobService, OnboardingJob, ServiceStatus } from '@/app/types/onboarding'
+import type { DraftInput } from './drafts'
+import { createDrafts, toDraftInput } from './drafts'
+import { recordEvent } from './events'
+import { dedupePageDrafts, recordPageDrafts } from './landing-pages'
+import { guardTransition } from './status'
+
+/** Upper bound for a single generation call (the services can take ~6 minutes) */
+export const SERVICE_TIMEOUT_MS = 360_000
+
+export type JobRunOutcome =
+  | { ok: true; result: Record<string, unknown> }
+  | { ok: false; error: string; retryable: boolean }
+
+export interface JobRunContext {
+  signal: AbortSignal
+}
+
+export interface JobHandler {
+  /** Log prefix, e.g. "Blogs Generate" */
+  label: string
+  /** Call the external service for this job */
+  run(payload: Record<string, unknown>, ctx: JobRunContext): Promise<JobRunOutcome>
+  /** onboarding_status.metadata written on success */
+  successMetadata(payload: Record<string, unknown>, result: Record<string, unknown>): Record<string, unknown>
+  /** Posts/pages in the service response, stored as drafts for review */
+  drafts(result: Record<string, unknown>): DraftInput[]
+  /** Posts/pages the service reports it pushed to Duda itself (should be 0) */
+  sentToDuda(result: Record<string, unknown>): number
+  /** Drop drafts for content the contact already has */
+  dedupe?(supabase: SupabaseClient, job: OnboardingJob, drafts: DraftInput[]): Promise<DraftInput[]>
+  /** Keep a per-service inventory of the stored drafts */
+  recordDrafts?(supabase: SupabaseClient, job: OnboardingJob, drafts: ContentDraft[]): Promise<void>
+}
+
+function countFrom(value: unknown): number {
+  const count = Number(value ?? 0)
+  return Number.isFinite(count) ? count : 0
+}
+
+function draftsFrom(items: unknown): DraftInput[] {
+  if (!Array.isArray(items)) return []
+  return items
+    .map((item) => (item && typeof item === 'object' ? toDraftInput(item as Record<string, unknown>) : null))
+    .filter((draft): draft is DraftInput => draft !== null)
+}
+
+/**
+ * POST to a generation service and classify the response.
+ * 5xx, 429 and network errors are retryable; other 4xx and our own
+ * timeout are not.
+ */
+async function callGenerationService(
+  url: string,
+  body: Record<string, unknown>,
+  serviceName: string,
+  ctx: JobRunContext
+): Promise<JobRunOutcome> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: ctx.signal,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '')
+      console.error(`[Onboarding Jobs] ${serviceName} returned ${response.status}: ${errorText}`)
+      return {
+        ok: false,
+        error: `${serviceName} returned ${response.status}`,
+        retryable: response.status >= 500 || response.status === 429,
+      }
+    }
+
+    return { ok: true, result: await response.json() }
+  } catch (fetchError: unknown) {
+    if (fetchError instanceof Error && fetchError.name === 'AbortError') {
+      // The worker distinguishes cancellation from timeout via its own flags.
+      // Never retried: generation is not idempotent and the service may still
+      // be working, so a retry would pay for the same content again
+      return { ok: false, error: `${serviceName} timed out`, retryable: false }
+    }
+    const message = fetchError instanceof Error ? fetchError.message : 'Unknown error'
+    return { ok: false, error: message, retryable: true }
+  }
+}
+
+const blogsHandler: JobHandler = {
+  label: 'Blogs Generate',
+
+  async run(payload, ctx) {
+    const blogServiceUrl = process.env.BLOG_SERVICE_URL
+    if (!blogServiceUrl) {
+      return { ok: false, error: 'Blog service URL not configured', retryable: false }
+    }
+
+    return callGenerationService(
+      `${blogServiceUrl}/generate/direct`,
+      {
+        business_name: payload.business_name,
+        industry: payload.industry,
+        location: payload.location,
+        duda_site_code: payload.duda_site_code,
+        num_blogs: payload.num_blogs,
+        publish: false,
+        // Scheduled runs and regenerations pin a topic
+        ...(payload.topic ? { topic: payload.topic } : {}),
+        ...(payload.feedback ? { feedback: payload.feedback } : {}),
+      },
+      'Blog service',
+      ctx
+    )
+  },
+
+  successMetadata(payload, result) {
+    return {
+      ...payload,
+      blogs_generated: result.blogs_generated,
+    }
+  },
+
+  drafts(result) {
+    return draftsFrom(result.blogs)
+  },
+
+  sentToDuda(result) {
+    return countFrom(result.blogs_sent_to_duda)
+  },
+}
+
+const landingPagesHandler: JobHandler = {
+  label: 'Landing Pages Generate',
+
+  async run(payload, ctx) {
+    const landingPagesUrl = process.env.LANDING_PAGES_URL
+    if (!landingPagesUrl) {
+      return { ok: false, error: 'Landing pages service not configured', retryable: false }
+    }
+
+    const priorityList = (payload.priority_locations as string[] | undefined) || []
+    const servicePayload: Record<string, unknown> = {
+      site_code: payload.duda_site_code,
+      industry: payload.industry,
+      base_location: payload.base_location,
+      num_pages: payload.num_pages,
+      publish: false,
+    }
+    if (payload.feedback) servicePayload.feedback = payload.feedback
+    if (payload.collection_name) servicePayload.collection_name = payload.collection_name
+    if (priorityList.length > 0) servicePayload.priority_locations = priorityList
+    if (Array.isArray(payload.exclude_locations) && payload.exclude_locations.length > 0) {
+      servicePayload.exclude_locations = payload.exclude_locations
+    }
+
+    return callGenerationService(`${landingPagesUrl}/generate`, servicePayload, 'Landing pages service', ctx)
+  },
+
+  successMetadata(payload, result) {
+    return {
+      ...payload,
+      pages_generated: result.pages_generated ?? result.num_pages,
+    }
+  },
+
+  drafts(result) {
+    // Pages are rows of a Duda collection; keep the name for publishing
+    return draftsFrom(result.pages).map((draft) => ({
+      ...draft,
+      fields: { collection_name: result.collection_name, ...draft.fields },
+    }))
+  },
+
+  sentToDuda(result) {
+    return countFrom(result.pages_sent_to_duda)
+  },
+
+  // One page per city (see landing-pages.ts)
+  dedupe: dedupePageDrafts,
+  recordDrafts: recordPageDrafts,
+}
+
+export const JOB_HANDLERS: Record<JobService, JobHandler> = {
+  blogs: blogsHandler,
+  landing_pages: landingPagesHandler,
+}
+
+/**
+ * Hold a successful service response to the draft contract. Content that
+ * skipped review, or a response with no posts/pages we can parse, is a
+ * failure - not retried, since generating again would not change either.
+ */
+export function checkDraftResponse(handler: JobHandler, outcome: JobRunOutcome): JobRunOutcome {
+  if (!outcome.ok) return outcome
+
+  const sent = handler.sentToDuda(outcome.result)
+  if (sent > 0) {
+    return {
+      ok: false,
+      error: `Service published ${sent} item(s) to Duda despite publish: false - check them on the site`,
+      retryable: false,
+    }
+  }
+
+  if (handler.drafts(outcome.result).length === 0) {
+    return { ok: false, error: 'Service response contained no drafts to review', retryable: false }
+  }
+
+  return outcome
+}
+
+/**
+ * Write the final service status after a job succeeds or exhausts its retries
+ */
+export async function applyJobOutcome(
+  supabase: SupabaseClient,
+  job: OnboardingJob,
+  outcome: JobRunOutcome
+): Promise<void> {
+  const handler = JOB_HANDLERS[job.service]
+
+  const status: ServiceStatus = outcome.ok ? 'active' : 'error'
+  const metadata: Record<string, unknown> = outcome.ok
+    ? { ...handler.successMetadata(job.payload, outcome.result), job_id: job.id }
+    : { ...job.payload, job_id: job.id, error: outcome.error }
+
+  // The raw response stays on the job, so a failed insert loses nothing
+  if (outcome.ok) {
+    try {
+      const generated = handler.drafts(outcome.result)
+      const inputs = handler.dedupe ? await handler.dedupe(supabase, job, generated) : generated
+      const drafts = await createDrafts(supabase, job, inputs)
+      metadata.drafts_created = drafts.length
+      if (inputs.length < generated.length) {
+        metadata.duplicates_skipped = generated.length - inputs.length
+      }
+      await handler.recordDrafts?.(supabase, job, drafts)
+    } catch (err) {
+      console.warn(`[${handler.label}] ${err instanceof Error ? err.message : err}`)
+      metadata.drafts_error = err instanceof Error ? err.message : 'Failed to store drafts'
+    }
+  }
+
+  // The status may have been changed by hand while the job ran (e.g. reset
+  // to not_started) - only write the outcome if that is still a valid move
+  const { from, rejection } = await guardTransition(supabase, job.hubspot_contact_id, job.service, status)
+  if (rejection) {
+    console.warn(`[${handler.label}] Not updating onboarding status: ${rejection.message}`)
+  } else {
+    const { error } = await supabase.from('onboarding_status').upsert(
+      {
+        hubspot_contact_id: job.hubspot_contact_id,
+        service: job.service,
+        status,
+        last_triggered_at: new Date().toISOString(),
+        metadata,
+      },
+      { onConflict: 'hubspot_contact_id,service' }
+    )
+
+    if (error) {
+      console.warn(`[${handler.label}] Failed to update onboarding status:`, error)
+    }
+  }
+
+  await recordEvent(supabase, {
+    contactId: job.hubspot_contact_id,
+    service: job.service,
+    action: outcome.ok ? 'generation_succeeded' : 'generation_failed',
+    statusBefore: from,
+    statusAfter: rejection ? from : status,
+    payloadAfter: metadata,
+  })
+}
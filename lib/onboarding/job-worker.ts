@@ -0,0 +1,164 @@
+/**
+ * Onboarding Job Worker
+ *
+ * Claims jobs from onboarding_jobs and runs them through JOB_HANDLERS.
+ * Used by both the cron route (bounded by the function's maxDuration)
+ * and the standalone worker script (no time budget).
+ *
+ * A job always gets the full SERVICE_TIMEOUT_MS - it is never started with
+ * less time than that left, since cutting a generation short means paying
+ * for it and throwing the result away.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import type { OnboardingJob } from '@/app/types/onboarding'
+import { applyJobOutcome, checkDraftResponse, JOB_HANDLERS, SERVICE_TIMEOUT_MS } from './job-handlers'
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  heartbeatJob,
+  markCancelled,
+  recoverStaleJobs,
+} from './jobs'
+
+const HEARTBEAT_INTERVAL_MS = 10_000
+
+/** Time after the service timeout for the status and draft writes */
+const JOB_FINISH_HEADROOM_MS = 20_000
+
+/**
+ * Budget for functions that drain the queue (maxDuration = 800, the
+ * Vercel Pro ceiling with Fluid compute), leaving headroom for the response
+ */
+export const FUNCTION_TIME_BUDGET_MS = 780_000
+
+export interface WorkerOptions {
+  workerId: string
+  /** Wall-clock budget for this invocation; omit for no limit */
+  timeBudgetMs?: number
+}
+
+export interface DrainResult {
+  processed: number
+  succeeded: number
+  failed: number
+  retried: number
+  cancelled: number
+  recovered: number
+}
+
+type RunResult = 'succeeded' | 'failed' | 'retried' | 'cancelled'
+
+/**
+ * Run a single claimed job to completion, heartbeating while it runs
+ */
+export async function runJob(
+  supabase: SupabaseClient,
+  job: OnboardingJob,
+  timeoutMs: number = SERVICE_TIMEOUT_MS
+): Promise<RunResult> {
+  const handler = JOB_HANDLERS[job.service]
+  const abort = new AbortController()
+  const startTime = Date.now()
+  let cancelled = false
+
+  console.log(`[${handler.label}] Starting job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`)
+
+  const heartbeatTimer = setInterval(async () => {
+    const elapsed = Math.round((Date.now() - startTime) / 1000)
+    const cancelRequested = await heartbeatJob(supabase, job.id, { message: 'Still working...', elapsed })
+    if (cancelRequested && !cancelled) {
+      cancelled = true
+      abort.abort()
+    }
+  }, HEARTBEAT_INTERVAL_MS)
+
+  const timeout = setTimeout(() => abort.abort(), timeoutMs)
+
+  try {
+    const outcome = checkDraftResponse(handler, await handler.run(job.payload, { signal: abort.signal }))
+
+    if (cancelled) {
+      await markCancelled(supabase, job)
+      console.log(`[${handler.label}] Job ${job.id} cancelled`)
+      return 'cancelled'
+    }
+
+    if (outcome.ok) {
+      await completeJob(supabase, job, outcome.result)
+      await applyJobOutcome(supabase, job, outcome)
+      console.log(`[${handler.label}] Job ${job.id} succeeded`)
+      return 'succeeded'
+    }
+
+    const next = await failJob(supabase, job, outcome.error, outcome.retryable)
+    if (next === 'cancelled') {
+      console.log(`[${handler.label}] Job ${job.id} cancelled after a failed attempt`)
+      return 'cancelled'
+    }
+    if (next === 'retried') {
+      console.warn(`[${handler.label}] Job ${job.id} attempt ${job.attempts} failed, will retry: ${outcome.error}`)
+      return 'retried'
+    }
+
+    await applyJobOutcome(supabase, job, outcome)
+    console.error(`[${handler.label}] Job ${job.id} failed: ${outcome.error}`)
+    return 'failed'
+  } finally {
+    clearInterval(heartbeatTimer)
+    clearTimeout(timeout)
+  }
+}
+
+/**
+ * Recover stale jobs, then claim and run jobs until the queue is empty
+ * or the time budget runs out
+ */
+export async function drainQueue(
+  supabase: SupabaseClient,
+  options: WorkerOptions
+): Promise<DrainResult> {
+  const deadline = options.timeBudgetMs ? Date.now() + options.timeBudgetMs : null
+  const result: DrainResult = { processed: 0, succeeded: 0, failed: 0, retried: 0, cancelled: 0, recovered: 0 }
+
+  const abandoned = await recoverStaleJobs(supabase)
+  result.recovered = abandoned.length
+  for (const job of abandoned) {
+    await applyJobOutcome(supabase, job, {
+      ok: false,
+      error: 'Worker stopped responding before the job finished',
+      retryable: false,
+    })
+  }
+
+  while (true) {
+    if (deadline && deadline - Date.now() < SERVICE_TIMEOUT_MS + JOB_FINISH_HEADROOM_MS) break
+
+    const job = await claimNextJob(supabase, options.workerId)
+    if (!job) break
+
+    const outcome = await runJob(supabase, job)
+    result.processed++
+    result[outcome]++
+  }
+
+  return result
+}
+
+/**
+ * Drain the queue with a service-role client. Called from request handlers
+ * via after() so a freshly enqueued job starts without waiting for the cron.
+ */
+export async function kickQueue(timeBudgetMs: number): Promise<void> {
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+
+  try {
+    await drainQueue(supabase, { workerId: `request-${crypto.randomUUID()}`, timeBudgetMs })
+  } catch (error) {
+    console.error('[Onboarding Jobs] Background drain failed:', error)
+  }
+}
@@ -0,0 +1,434 @@
+/**
+ * Onboarding Job Queue
+ *
+ * Supabase-backed queue for long-running onboarding work (blog and landing
+ * page generation). Routes enqueue a job and return its id immediately;
+ * a worker (see job-worker.ts) claims and runs it out-of-band.
+ *
+ * Lifecycle: queued → running → succeeded | failed | cancelled
+ * - Failed attempts are re-queued with exponential backoff until max_attempts
+ * - A running job whose heartbeat goes stale fails without a retry (its
+ *   generation call may still be running on the service)
+ * - Cancellation is immediate for queued jobs and cooperative for running ones
+ *
+ * Migration: 20261019000000_onboarding_jobs.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { JobService, OnboardingJob, ServiceStatus } from '@/app/types/onboarding'
+import { recordEvent } from './events'
+import { assertTransition, guardTransition } from './status'
+
+/** Default number of attempts before a job is marked failed */
+export const DEFAULT_MAX_ATTEMPTS = 3
+
+/** First retry delay in milliseconds (doubles with each attempt) */
+export const RETRY_BASE_DELAY_MS = 30_000
+
+/** A running job with no heartbeat for this long is considered abandoned */
+export const STALE_JOB_MS = 2 * 60_000
+
+export interface EnqueueJobInput {
+  contactId: string
+  service: JobService
+  payload: Record<string, unknown>
+  createdBy?: string | null
+  maxAttempts?: number
+}
+
+/**
+ * Return the queued or running job for a contact/service, if any
+ */
+export async function getActiveJob(
+  supabase: SupabaseClient,
+  contactId: string,
+  service: JobService
+): Promise<OnboardingJob | null> {
+  const { data, error } = await supabase
+    .from('onboarding_jobs')
+    .select('*')
+    .eq('hubspot_contact_id', contactId)
+    .eq('service', service)
+    .in('status', ['queued', 'running'])
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch active job: ${error.message}`)
+  }
+
+  return data as OnboardingJob | null
+}
+
+/**
+ * Insert a new queued job and flip the service to `pending`.
+ * Callers should check getActiveJob() first; the partial unique index
+ * rejects a second active job for the same contact/service. Throws when the
+ * service cannot move to pending from its current status.
+ */
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  input: EnqueueJobInput
+): Promise<OnboardingJob> {
+  const current = await assertTransition(supabase, input.contactId, input.service, 'pending')
+
+  const { data: job, error } = await supabase
+    .from('onboarding_jobs')
+    .insert({
+      hubspot_contact_id: input.contactId,
+      service: input.service,
+      payload: input.payload,
+      max_attempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      created_by: input.createdBy ?? null,
+      previous_service_status: current?.status ?? 'not_started',
+      progress: { message: 'Queued' },
+    })
+    .select()
+    .single()
+
+  if (error || !job) {
+    throw new Error(`Failed to enqueue job: ${error?.message || 'No job returned'}`)
+  }
+
+  const { error: statusError } = await supabase.from('onboarding_status').upsert(
+    {
+      hubspot_contact_id: input.contactId,
+      service: input.service,
+      status: 'pending',
+      last_triggered_at: new Date().toISOString(),
+      metadata: { ...input.payload, job_id: job.id },
+    },
+    { onConflict: 'hubspot_contact_id,service' }
+  )
+
+  if (statusError) {
+    console.warn('[Onboarding Jobs] Failed to mark service pending:', statusError)
+  }
+
+  return job as OnboardingJob
+}
+
+/**
+ * Fetch a single job scoped to a contact
+ */
+export async function getJob(
+  supabase: SupabaseClient,
+  contactId: string,
+  jobId: string
+): Promise<OnboardingJob | null> {
+  const { data, error } = await supabase
+    .from('onboarding_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('hubspot_contact_id', contactId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch job: ${error.message}`)
+  }
+
+  return data as OnboardingJob | null
+}
+
+/**
+ * List the most recent jobs for a contact, newest first
+ */
+export async function listJobs(
+  supabase: SupabaseClient,
+  contactId: string,
+  options: { service?: JobService; limit?: number } = {}
+): Promise<OnboardingJob[]> {
+  let query = supabase
+    .from('onboarding_jobs')
+    .select('*')
+    .eq('hubspot_contact_id', contactId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 10)
+
+  if (options.service) {
+    query = query.eq('service', options.service)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to list jobs: ${error.message}`)
+  }
+
+  return (data || []) as OnboardingJob[]
+}
+
+/**
+ * Request cancellation. Queued jobs are cancelled immediately; running jobs
+ * get cancel_requested=true and the worker aborts on its next heartbeat.
+ */
+export async function requestCancel(
+  supabase: SupabaseClient,
+  job: OnboardingJob
+): Promise<OnboardingJob> {
+  if (job.status === 'queued') {
+    const { data, error } = await supabase
+      .from('onboarding_jobs')
+      .update({
+        status: 'cancelled',
+        cancel_requested: true,
+        completed_at: new Date().toISOString(),
+        progress: { message: 'Cancelled before start' },
+      })
+      .eq('id', job.id)
+      .eq('status', 'queued')
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to cancel job: ${error.message}`)
+    }
+
+    // Lost the race with a worker claiming it - fall through to cooperative cancel
+    if (data) {
+      await restoreServiceStatus(supabase, data as OnboardingJob)
+      return data as OnboardingJob
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('onboarding_jobs')
+    .update({ cancel_requested: true })
+    .eq('id', job.id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to request cancellation: ${error.message}`)
+  }
+
+  // Re-queued for a retry since the caller read it - no worker will see
+  // the flag, so cancel it here
+  if (data.status === 'queued') {
+    return requestCancel(supabase, data as OnboardingJob)
+  }
+
+  return data as OnboardingJob
+}
+
+// ============================================================
+// WORKER-SIDE OPERATIONS
+// ============================================================
+
+/**
+ * Atomically lease the next runnable job to a worker (see claim_onboarding_job)
+ */
+export async function claimNextJob(
+  supabase: SupabaseClient,
+  workerId: string
+): Promise<OnboardingJob | null> {
+  const { data, error } = await supabase.rpc('claim_onboarding_job', { p_worker_id: workerId })
+
+  if (error) {
+    throw new Error(`Failed to claim job: ${error.message}`)
+  }
+
+  const rows = (data || []) as OnboardingJob[]
+  return rows[0] ?? null
+}
+
+/**
+ * Refresh the worker lease and progress message.
+ * Returns true when cancellation has been requested.
+ */
+export async function heartbeatJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  progress: { message: string; elapsed: number }
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('onboarding_jobs')
+    .update({ heartbeat_at: new Date().toISOString(), progress })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .select('cancel_requested')
+    .maybeSingle()
+
+  if (error) {
+    console.warn(`[Onboarding Jobs] Heartbeat failed for ${jobId}:`, error.message)
+    return false
+  }
+
+  return Boolean(data?.cancel_requested)
+}
+
+export async function completeJob(
+  supabase: SupabaseClient,
+  job: OnboardingJob,
+  result: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase
+    .from('onboarding_jobs')
+    .update({
+      status: 'succeeded',
+      result,
+      error_message: null,
+      completed_at: new Date().toISOString(),
+      locked_by: null,
+      progress: { ...job.progress, message: 'Completed' },
+    })
+    .eq('id', job.id)
+
+  if (error) {
+    console.error(`[Onboarding Jobs] Failed to mark ${job.id} succeeded:`, error.message)
+  }
+}
+
+/**
+ * Record a failed attempt. Retryable failures are re-queued with exponential
+ * backoff while attempts remain, unless cancellation was requested in the
+ * meantime - the job is cancelled instead. Returns what became of the job.
+ */
+export async function failJob(
+  supabase: SupabaseClient,
+  job: OnboardingJob,
+  errorMessage: string,
+  retryable: boolean
+): Promise<'retried' | 'failed' | 'cancelled'> {
+  const willRetry = retryable && job.attempts < job.max_attempts
+
+  if (willRetry) {
+    const delayMs = RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1)
+    const { data, error } = await supabase
+      .from('onboarding_jobs')
+      .update({
+        status: 'queued',
+        error_message: errorMessage,
+        run_after: new Date(Date.now() + delayMs).toISOString(),
+        locked_by: null,
+        locked_at: null,
+        progress: { message: `Attempt ${job.attempts} failed, retrying in ${Math.round(delayMs / 1000)}s` },
+      })
+      .eq('id', job.id)
+      .eq('cancel_requested', false)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      console.error(`[Onboarding Jobs] Failed to re-queue ${job.id}:`, error.message)
+      return 'retried'
+    }
+    if (data) return 'retried'
+
+    // Cancel arrived after the last heartbeat. claim_onboarding_job skips
+    // cancel_requested jobs, so a re-queued one would block the contact's
+    // service (idx_onboarding_jobs_one_active) forever
+    await markCancelled(supabase, job)
+    return 'cancelled'
+  }
+
+  const { error } = await supabase
+    .from('onboarding_jobs')
+    .update({
+      status: 'failed',
+      error_message: errorMessage,
+      completed_at: new Date().toISOString(),
+      locked_by: null,
+      progress: { ...job.progress, message: 'Failed' },
+    })
+    .eq('id', job.id)
+
+  if (error) {
+    console.error(`[Onboarding Jobs] Failed to mark ${job.id} failed:`, error.message)
+  }
+  return 'failed'
+}
+
+/**
+ * Mark a running job as cancelled after the worker aborted it
+ */
+export async function markCancelled(
+  supabase: SupabaseClient,
+  job: OnboardingJob
+): Promise<void> {
+  const { error } = await supabase
+    .from('onboarding_jobs')
+    .update({
+      status: 'cancelled',
+      completed_at: new Date().toISOString(),
+      locked_by: null,
+      progress: { ...job.progress, message: 'Cancelled' },
+    })
+    .eq('id', job.id)
+
+  if (error) {
+    console.error(`[Onboarding Jobs] Failed to mark ${job.id} cancelled:`, error.message)
+  }
+
+  await restoreServiceStatus(supabase, job)
+
+  await recordEvent(supabase, {
+    contactId: job.hubspot_contact_id,
+    service: job.service,
+    action: 'generation_cancelled',
+    statusBefore: 'pending',
+    statusAfter: job.previous_service_status || 'not_started',
+    payloadAfter: { job_id: job.id, attempts: job.attempts },
+  })
+}
+
+/**
+ * Find running jobs whose worker stopped heartbeating (killed function,
+ * crashed process) and fail them for good. They are not retried: the
+ * generation call may still be running on the service, and generation is
+ * not idempotent (a retry would pay for and draft the same content twice).
+ * Returns the jobs that became terminal so callers can update service status.
+ */
+export async function recoverStaleJobs(supabase: SupabaseClient): Promise<OnboardingJob[]> {
+  const cutoff = new Date(Date.now() - STALE_JOB_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from('onboarding_jobs')
+    .select('*')
+    .eq('status', 'running')
+    .lt('heartbeat_at', cutoff)
+
+  if (error) {
+    console.error('[Onboarding Jobs] Failed to query stale jobs:', error.message)
+    return []
+  }
+
+  const terminal: OnboardingJob[] = []
+  for (const job of (data || []) as OnboardingJob[]) {
+    if (job.cancel_requested) {
+      await markCancelled(supabase, job)
+      continue
+    }
+    const next = await failJob(supabase, job, 'Worker stopped responding before the job finished', false)
+    if (next === 'failed') terminal.push(job)
+  }
+
+  if (data && data.length > 0) {
+    console.log(`[Onboarding Jobs] Recovered ${data.length} stale job(s)`)
+  }
+
+  return terminal
+}
+
+/**
+ * Put onboarding_status back to what it was before the job was enqueued.
+ * Skipped when the service has since moved somewhere it cannot go back from.
+ */
+async function restoreServiceStatus(supabase: SupabaseClient, job: OnboardingJob): Promise<void> {
+  const previous: ServiceStatus = job.previous_service_status || 'not_started'
+
+  const { rejection } = await guardTransition(supabase, job.hubspot_contact_id, job.service, previous)
+  if (rejection) {
+    console.warn(`[Onboarding Jobs] Not restoring ${job.service} status: ${rejection.message}`)
+    return
+  }
+
+  const { error } = await supabase
+    .from('onboarding_status')
+    .update({ status: previous })
+    .eq('hubspot_contact_id', job.hubspot_contact_id)
+    .eq('service', job.service)
+
+  if (error) {
+    console.warn(`[Onboarding Jobs] Failed to restore ${job.service} status:`, error.message)
+  }
+}
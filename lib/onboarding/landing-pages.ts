@@ -0,0 +1,285 @@
+/**
+ * Landing Page Inventory
+ *
+ * One landing_pages row per city a customer has a page for. A generation job
+ * writes the rows when it stores its drafts (see applyJobOutcome in
+ * job-handlers.ts), and approving a page's draft fills in the Duda
+ * collection row and URL. Cities are matched on a normalized key, so a
+ * re-run with the same priority_locations does not create duplicate pages.
+ *
+ * Migration: 20261019050000_landing_pages.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { ContentDraft, LandingPage, OnboardingJob } from '@/app/types/onboarding'
+import { OPEN_DRAFT_STATUSES } from '@/app/types/onboarding'
+import { getDudaClient } from '@/lib/duda'
+import type { DraftInput } from './drafts'
+import type { EventActor } from './events'
+import { enqueueJob } from './jobs'
+
+const PAGE_SELECT = '*, draft:content_drafts(id, status, publish_error)'
+
+/**
+ * Normalize a city for comparison: "Boulder, CO" and "boulder co" match
+ */
+export function locationKey(location: string): string {
+  return location
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+/** City of a generated page, from the service's `location` (or `city`) field */
+export function pageLocation(fields: Record<string, unknown>): string | null {
+  const location = fields.location ?? fields.city
+  return typeof location === 'string' && location.trim() ? location.trim() : null
+}
+
+export async function listLandingPages(
+  supabase: SupabaseClient,
+  contactId: string
+): Promise<LandingPage[]> {
+  const { data, error } = await supabase
+    .from('landing_pages')
+    .select(PAGE_SELECT)
+    .eq('hubspot_contact_id', contactId)
+    .order('location', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch landing pages: ${error.message}`)
+  }
+
+  return (data || []) as LandingPage[]
+}
+
+export async function getLandingPage(
+  supabase: SupabaseClient,
+  contactId: string,
+  pageId: string
+): Promise<LandingPage | null> {
+  const { data, error } = await supabase
+    .from('landing_pages')
+    .select(PAGE_SELECT)
+    .eq('id', pageId)
+    .eq('hubspot_contact_id', contactId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch landing page: ${error.message}`)
+  }
+
+  return data as LandingPage | null
+}
+
+export async function getPageForDraft(
+  supabase: SupabaseClient,
+  draftId: string
+): Promise<LandingPage | null> {
+  const { data, error } = await supabase
+    .from('landing_pages')
+    .select('*')
+    .eq('draft_id', draftId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch landing page: ${error.message}`)
+  }
+
+  return data as LandingPage | null
+}
+
+/**
+ * Normalized keys of the cities a contact already has pages for
+ */
+export async function existingLocationKeys(
+  supabase: SupabaseClient,
+  contactId: string
+): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('landing_pages')
+    .select('location_key')
+    .eq('hubspot_contact_id', contactId)
+
+  if (error) {
+    throw new Error(`Failed to fetch landing pages: ${error.message}`)
+  }
+
+  return new Set((data || []).map((row) => row.location_key as string))
+}
+
+// ============================================================
+// GENERATION
+// ============================================================
+
+/**
+ * Drop generated pages for cities the contact already has, and repeats
+ * within the same result. Regenerations target an existing city on purpose,
+ * so only their in-result repeats are dropped.
+ */
+export async function dedupePageDrafts(
+  supabase: SupabaseClient,
+  job: OnboardingJob,
+  inputs: DraftInput[]
+): Promise<DraftInput[]> {
+  const regenerating = Boolean(job.payload.regenerate_draft_id || job.payload.regenerate_page_id)
+  const seen = regenerating ? new Set<string>() : await existingLocationKeys(supabase, job.hubspot_contact_id)
+
+  return inputs.filter((input) => {
+    const location = pageLocation(input.fields ?? {})
+    if (!location) return true
+
+    const key = locationKey(location)
+    if (seen.has(key)) {
+      console.log(`[Landing Pages] Skipping duplicate page for ${location}`)
+      return false
+    }
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Add or refresh the inventory rows for newly stored page drafts. A city
+ * that already has a row keeps its Duda row id, so publishing the new
+ * draft updates the live page in place.
+ */
+export async function recordPageDrafts(
+  supabase: SupabaseClient,
+  job: OnboardingJob,
+  drafts: ContentDraft[]
+): Promise<void> {
+  const generatedAt = new Date().toISOString()
+  const rows = drafts.flatMap((draft) => {
+    const location = pageLocation(draft.fields)
+    if (!location) return []
+    return [{
+      hubspot_contact_id: job.hubspot_contact_id,
+      location,
+      location_key: locationKey(location),
+      slug: draft.slug,
+      collection_name: (draft.fields.collection_name as string | undefined) ?? null,
+      draft_id: draft.id,
+      job_id: job.id,
+      generated_at: generatedAt,
+    }]
+  })
+
+  if (rows.length === 0) return
+
+  const { error } = await supabase
+    .from('landing_pages')
+    .upsert(rows, { onConflict: 'hubspot_contact_id,location_key' })
+
+  if (error) {
+    throw new Error(`Failed to record landing pages: ${error.message}`)
+  }
+}
+
+/**
+ * Record where a page's draft was published
+ */
+export async function markPagePublished(
+  supabase: SupabaseClient,
+  page: LandingPage,
+  draft: ContentDraft
+): Promise<void> {
+  const url = draft.fields.url ?? draft.fields.page_url
+  const { error } = await supabase
+    .from('landing_pages')
+    .update({
+      collection_row_id: draft.duda_ref,
+      slug: draft.slug,
+      url: typeof url === 'string' ? url : page.url,
+      published_at: draft.published_at,
+    })
+    .eq('id', page.id)
+
+  if (error) {
+    console.warn(`[Landing Pages] Failed to mark page ${page.id} published:`, error.message)
+  }
+}
+
+// ============================================================
+// PER-PAGE ACTIONS
+// ============================================================
+
+/**
+ * Queue a one-page job that redoes this city. The new draft goes through
+ * review and, once approved, replaces the live page.
+ */
+export async function regenerateLandingPage(
+  supabase: SupabaseClient,
+  page: LandingPage,
+  actor: EventActor
+): Promise<OnboardingJob> {
+  let basePayload: Record<string, unknown> | null = null
+  if (page.draft_id) {
+    const { data } = await supabase
+      .from('content_drafts')
+      .select('generation_payload')
+      .eq('id', page.draft_id)
+      .maybeSingle()
+    basePayload = data?.generation_payload ?? null
+  }
+  if (!basePayload) {
+    throw new Error('No generation settings recorded for this page')
+  }
+
+  const payload: Record<string, unknown> = {
+    ...basePayload,
+    num_pages: 1,
+    priority_locations: [page.location],
+    regenerate_page_id: page.id,
+  }
+  delete payload.regenerate_draft_id
+  delete payload.feedback
+  delete payload.exclude_locations
+
+  return enqueueJob(supabase, {
+    contactId: page.hubspot_contact_id,
+    service: 'landing_pages',
+    payload,
+    createdBy: actor.id,
+  })
+}
+
+/**
+ * Remove a page from the Duda collection (if it was published) and from the
+ * inventory. A draft still in review for the page is discarded with it.
+ */
+export async function deleteLandingPage(
+  supabase: SupabaseClient,
+  page: LandingPage,
+  siteCode: string | null
+): Promise<void> {
+  if (page.collection_row_id && page.collection_name) {
+    if (!siteCode) {
+      throw new Error('No Duda site code configured for this contact')
+    }
+    const duda = getDudaClient()
+    await duda.deleteCollectionRows(siteCode, page.collection_name, [page.collection_row_id])
+    await duda.publishSite(siteCode)
+  }
+
+  if (page.draft_id) {
+    const { error: draftError } = await supabase
+      .from('content_drafts')
+      .delete()
+      .eq('id', page.draft_id)
+      .in('status', OPEN_DRAFT_STATUSES)
+
+    if (draftError) {
+      console.warn(`[Landing Pages] Failed to discard draft ${page.draft_id}:`, draftError.message)
+    }
+  }
+
+  const { error } = await supabase
+    .from('landing_pages')
+    .delete()
+    .eq('id', page.id)
+
+  if (error) {
+    throw new Error(`Failed to delete landing page: ${error.message}`)
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Purchased Packages
+ *
+ * The package a customer bought (discover < boost < dominate), read from
+ * their closed-won HubSpot deals' line items instead of the deal title. Each
+ * HubSpot product is assigned a package in hubspot_product_packages
+ * (/api/admin/product-packages), and hubspot_contact_packages joins that to
+ * the deals synced by lib/sync/deals-sync-service.ts.
+ *
+ * A contact with several packaged deals gets the highest package.
+ *
+ * Migration: 20261019190000_hubspot_deals_companies.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+
+/** Lowest to highest */
+export const PRODUCT_PACKAGES = ['discover', 'boost', 'dominate'] as const
+
+export type ProductPackage = typeof PRODUCT_PACKAGES[number]
+
+/**
+ * The highest package a contact bought, and the deal it came from
+ */
+export interface ContactPackage {
+  hubspot_contact_id: string
+  package: ProductPackage
+  hubspot_deal_id: string
+  dealname: string | null
+  closedate: string | null
+  duda_site_code: string | null
+}
+
+/**
+ * A product seen on synced line items, with its package (if assigned)
+ */
+export interface ProductPackageAssignment {
+  hubspot_product_id: string
+  name: string | null
+  sku: string | null
+  line_items: number
+  package: ProductPackage | null
+  updated_by: string | null
+  updated_at: string | null
+}
+
+interface ContactPackageRow extends ContactPackage {
+  line_item_name: string | null
+}
+
+/** IDs per Supabase .in() filter */
+const ID_CHUNK_SIZE = 500
+
+export function isProductPackage(value: unknown): value is ProductPackage {
+  return typeof value === 'string' && (PRODUCT_PACKAGES as readonly string[]).includes(value)
+}
+
+function packageRank(pkg: ProductPackage): number {
+  return PRODUCT_PACKAGES.indexOf(pkg)
+}
+
+/**
+ * Highest package per contact; ties go to the most recently closed deal
+ */
+function pickHighest(rows: ContactPackageRow[]): Map<string, ContactPackage> {
+  const best = new Map<string, ContactPackage>()
+
+  for (const row of rows) {
+    const current = best.get(row.hubspot_contact_id)
+    const higher = !current
+      || packageRank(row.package) > packageRank(current.package)
+      || (packageRank(row.package) === packageRank(current.package)
+        && (row.closedate || '') > (current.closedate || ''))
+
+    if (higher) {
+      best.set(row.hubspot_contact_id, {
+        hubspot_contact_id: row.hubspot_contact_id,
+        package: row.package,
+        hubspot_deal_id: row.hubspot_deal_id,
+        dealname: row.dealname,
+        closedate: row.closedate,
+        duda_site_code: row.duda_site_code,
+      })
+    }
+  }
+
+  return best
+}
+
+/**
+ * The package a contact bought, or null when none of their won deals has a
+ * packaged product
+ */
+export async function getContactPackage(
+  supabase: SupabaseClient,
+  contactId: string
+): Promise<ContactPackage | null> {
+  const { data, error } = await supabase
+    .from('hubspot_contact_packages')
+    .select('*')
+    .eq('hubspot_contact_id', contactId)
+
+  if (error) throw new Error(`Failed to load package for contact ${contactId}: ${error.message}`)
+  return pickHighest((data || []) as ContactPackageRow[]).get(contactId) ?? null
+}
+
+/**
+ * Every contact with a purchased package, optionally only the given
+ * packages (matched against each contact's highest package)
+ */
+export async function listPackagedContacts(
+  supabase: SupabaseClient,
+  packages?: ProductPackage[]
+): Promise<ContactPackage[]> {
+  const { data, error } = await supabase
+    .from('hubspot_contact_packages')
+    .select('*')
+
+  if (error) throw new Error(`Failed to list packaged contacts: ${error.message}`)
+
+  const contacts = [...pickHighest((data || []) as ContactPackageRow[]).values()]
+  return packages ? contacts.filter(c => packages.includes(c.package)) : contacts
+}
+
+/**
+ * Products on synced line items with their package, most used first
+ */
+export async function listProductPackages(supabase: SupabaseClient): Promise<ProductPackageAssignment[]> {
+  const [{ data: lineItems, error: lineItemsError }, { data: assigned, error: assignedError }] = await Promise.all([
+    supabase
+      .from('hubspot_line_items')
+      .select('hubspot_product_id, name, sku')
+      .not('hubspot_product_id', 'is', null),
+    supabase
+      .from('hubspot_product_packages')
+      .select('hubspot_product_id, package, updated_by, updated_at'),
+  ])
+
+  if (lineItemsError) throw new Error(`Failed to list line items: ${lineItemsError.message}`)
+  if (assignedError) throw new Error(`Failed to list product packages: ${assignedError.message}`)
+
+  const products = new Map<string, ProductPackageAssignment>()
+  for (const item of lineItems || []) {
+    const product = products.get(item.hubspot_product_id)
+    if (product) {
+      product.line_items++
+      continue
+    }
+    products.set(item.hubspot_product_id, {
+      hubspot_product_id: item.hubspot_product_id,
+      name: item.name,
+      sku: item.sku,
+      line_items: 1,
+      package: null,
+      updated_by: null,
+      updated_at: null,
+    })
+  }
+
+  // Assignments for products no synced line item uses any more are still listed
+  for (const row of assigned || []) {
+    const product = products.get(row.hubspot_product_id) ?? {
+      hubspot_product_id: row.hubspot_product_id,
+      name: null,
+      sku: null,
+      line_items: 0,
+      package: null,
+      updated_by: null,
+      updated_at: null,
+    }
+    product.package = row.package
+    product.updated_by = row.updated_by
+    product.updated_at = row.updated_at
+    products.set(row.hubspot_product_id, product)
+  }
+
+  return [...products.values()].sort((a, b) => b.line_items - a.line_items)
+}
+
+/**
+ * Assign a product to a package, or clear it with null
+ */
+export async function setProductPackage(
+  supabase: SupabaseClient,
+  productId: string,
+  pkg: ProductPackage | null,
+  updatedBy: string | null
+): Promise<void> {
+  const { error } = pkg
+    ? await supabase
+      .from('hubspot_product_packages')
+      .upsert(
+        { hubspot_product_id: productId, package: pkg, updated_by: updatedBy, updated_at: new Date().toISOString() },
+        { onConflict: 'hubspot_product_id' }
+      )
+    : await supabase
+      .from('hubspot_product_packages')
+      .delete()
+      .eq('hubspot_product_id', productId)
+
+  if (error) throw new Error(`Failed to save package for product ${productId}: ${error.message}`)
+}
+
+/**
+ * Packages for a set of contacts (contacts without one are left out)
+ */
+export async function getContactPackages(
+  supabase: SupabaseClient,
+  contactIds: string[]
+): Promise<Map<string, ContactPackage>> {
+  const rows: ContactPackageRow[] = []
+
+  for (let i = 0; i < contactIds.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('hubspot_contact_packages')
+      .select('*')
+      .in('hubspot_contact_id', contactIds.slice(i, i + ID_CHUNK_SIZE))
+
+    if (error) throw new Error(`Failed to load contact packages: ${error.message}`)
+    rows.push(...((data || []) as ContactPackageRow[]))
+  }
+
+  return pickHighest(rows)
+}
@@ -0,0 +1,172 @@
+/**
+ * Onboarding Service Registry
+ *
+ * Single source of truth for the products we onboard customers onto.
+ * Everything that used to hardcode chatbot/blogs/landing_pages/foursquare
+ * derives from ONBOARDING_SERVICES:
+ *
+ * - ServiceType, JobService and ServiceIdentity (app/types/onboarding.ts)
+ * - SERVICE_LABELS / SERVICE_COLORS and the status route's service map
+ * - The onboarding_services table that service columns reference
+ *   (run scripts/sync/sync-onboarding-services.ts after adding a service)
+ * - Provisioning handlers (lib/onboarding/service-handlers.ts, server only)
+ * - Company page tabs (app/companies/[id]/tabs/serviceTabs.tsx)
+ *
+ * This module must stay free of server-only imports - it is shared by
+ * API routes, workers and client components.
+ *
+ * Adding a service:
+ *   1. Add a definition below (identity columns need a migration first)
+ *   2. Add its handlers to SERVICE_HANDLERS and its tab to SERVICE_TABS
+ *   3. Run the sync script to register it in onboarding_services
+ */
+
+import type { ServiceStatus } from '@/app/types/onboarding'
+
+export interface OnboardingServiceDefinition {
+  id: string
+  label: string
+  /** Brand color as rgba(r,g,b,1) so alpha variants can be derived */
+  color: string
+  /** Tab on the company page */
+  tab: { value: string; label: string }
+  /** service_identity_map columns this service reads or writes */
+  identityFields: readonly string[]
+  /** Long-running work goes through the onboarding_jobs queue */
+  usesJobs: boolean
+  /** Offered as a bulk action on the Companies list */
+  bulk?: { label: string; description: string }
+  /** Replaces entries of DEFAULT_STATUS_TRANSITIONS for this service */
+  transitions?: Partial<Record<ServiceStatus, readonly ServiceStatus[]>>
+}
+
+/**
+ * Allowed status changes for a service unless it overrides them.
+ * Work is queued (pending) before it lands as active or error; a failed
+ * service has to be re-run rather than marked active by hand.
+ * Enforced by lib/onboarding/status.ts.
+ */
+export const DEFAULT_STATUS_TRANSITIONS: Record<ServiceStatus, readonly ServiceStatus[]> = {
+  not_started: ['pending'],
+  pending: ['active', 'error', 'not_started', 'paused'],
+  active: ['pending', 'paused', 'error'],
+  error: ['pending', 'paused'],
+  paused: ['pending', 'active', 'not_started'],
+}
+
+export const ONBOARDING_SERVICES = [
+  {
+    id: 'foursquare',
+    label: 'Foursquare',
+    color: 'rgba(168,85,247,1)',
+    tab: { value: 'foursquare', label: 'Foursquare' },
+    identityFields: ['foursquare_venue_id', 'google_place_id'],
+    usesJobs: false,
+    bulk: {
+      label: 'Link or create Foursquare venues',
+      description: 'Links the exact Foursquare match, or creates a venue when there is none.',
+    },
+    // Linking an existing venue activates the listing immediately, also
+    // when an earlier create attempt failed
+    transitions: {
+      not_started: ['pending', 'active'],
+      error: ['pending', 'active', 'paused'],
+    },
+  },
+  {
+    id: 'chatbot',
+    label: 'AI Chatbot',
+    color: 'rgba(0,174,255,1)',
+    tab: { value: 'chatbot', label: 'Chatbot' },
+    identityFields: ['chatbot_slug', 'duda_site_code', 'duda_snippet_id'],
+    usesJobs: false,
+    bulk: {
+      label: 'Provision chatbots',
+      description: 'Creates a chatbot named after the business. Needs a Duda site and website.',
+    },
+    // Provisioning is synchronous - there is no pending phase, and deleting
+    // the chatbot takes it back to not_started
+    transitions: {
+      not_started: ['active'],
+      active: ['paused', 'error', 'not_started'],
+      error: ['active', 'paused', 'not_started'],
+    },
+  },
+  {
+    id: 'blogs',
+    label: 'SEO Blogs',
+    color: 'rgba(233,86,20,1)',
+    tab: { value: 'blogs', label: 'Blogs' },
+    identityFields: ['duda_site_code'],
+    usesJobs: true,
+    bulk: {
+      label: 'Queue blog generation',
+      description: 'Queues blog generation. Needs a Duda site, industry and city/state.',
+    },
+  },
+  {
+    id: 'landing_pages',
+    label: 'Landing Pages',
+    color: 'rgba(16,185,129,1)',
+    tab: { value: 'landing-pages', label: 'Landing Pages' },
+    identityFields: ['duda_site_code'],
+    usesJobs: true,
+    bulk: {
+      label: 'Queue landing pages',
+      description: 'Queues landing pages around the business location. Needs a Duda site and industry.',
+    },
+  },
+] as const satisfies readonly OnboardingServiceDefinition[]
+
+type RegisteredService = (typeof ONBOARDING_SERVICES)[number]
+
+export type ServiceType = RegisteredService['id']
+
+/** Services whose work runs through onboarding_jobs */
+export type JobService = Extract<RegisteredService, { usesJobs: true }>['id']
+
+/** service_identity_map columns declared by any service */
+export type IdentityField = RegisteredService['identityFields'][number]
+
+export const SERVICE_IDS: ServiceType[] = ONBOARDING_SERVICES.map((s) => s.id)
+
+export const JOB_SERVICE_IDS = ONBOARDING_SERVICES
+  .filter((s) => s.usesJobs)
+  .map((s) => s.id) as JobService[]
+
+export const IDENTITY_FIELDS: IdentityField[] = Array.from(
+  new Set(ONBOARDING_SERVICES.flatMap((s) => s.identityFields))
+)
+
+export function isServiceType(value: unknown): value is ServiceType {
+  return typeof value === 'string' && (SERVICE_IDS as string[]).includes(value)
+}
+
+export function isJobService(value: unknown): value is JobService {
+  return typeof value === 'string' && (JOB_SERVICE_IDS as string[]).includes(value)
+}
+
+export function getServiceDefinition(id: ServiceType): OnboardingServiceDefinition {
+  return ONBOARDING_SERVICES.find((s) => s.id === id) as OnboardingServiceDefinition
+}
+
+/**
+ * Statuses a service may move to from its current status
+ */
+export function getAllowedTransitions(service: ServiceType, from: ServiceStatus): readonly ServiceStatus[] {
+  return getServiceDefinition(service).transitions?.[from] ?? DEFAULT_STATUS_TRANSITIONS[from]
+}
+
+/**
+ * Build a lookup keyed by service id, e.g. serviceRecord((s) => s.label)
+ */
+export function serviceRecord<T>(pick: (service: OnboardingServiceDefinition) => T): Record<ServiceType, T> {
+  return Object.fromEntries(ONBOARDING_SERVICES.map((s) => [s.id, pick(s)])) as Record<ServiceType, T>
+}
+
+/**
+ * Swap the alpha of an rgba(r,g,b,1) service color
+ */
+export function withAlpha(color: string, alpha: number): string {
+  return color.replace(/,\s*[\d.]+\)$/, `,${alpha})`)
+}
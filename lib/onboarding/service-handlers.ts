@@ -0,0 +1,286 @@
+/**
+ * Onboarding Service Handlers
+ *
+ * Server-side half of the service registry (see registry.ts): what it
+ * takes to provision each service for one contact, and the background job
+ * handler for services that use the onboarding_jobs queue.
+ *
+ * SERVICE_HANDLERS is keyed by ServiceType, so registering a new service
+ * fails the type-check until its handlers are added here.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  BulkContact,
+  BulkRowResult,
+  JobService,
+  ServiceIdentity,
+  ServiceType,
+} from '@/app/types/onboarding'
+import { canonicalWebsite } from '@/lib/normalize'
+import type { EventActor } from './events'
+import { recordEvent } from './events'
+import { enqueueJob } from './jobs'
+import { guardTransition } from './status'
+import { JOB_HANDLERS, type JobHandler } from './job-handlers'
+import { createChatbotClient, saveChatbotProvision, slugifyChatbotName } from './chatbot'
+import {
+  buildVenuePayload,
+  createFoursquareVenue,
+  fetchGooglePlaceDetails,
+  getFoursquareApiKey,
+  linkFoursquareVenue,
+  matchFoursquareVenue,
+} from './foursquare'
+import {
+  candidateVenueId,
+  findFoursquareMatches,
+  listFoursquareReviews,
+  queueFoursquareReview,
+} from './foursquare-match'
+
+export interface ProvisionOptions {
+  /** Used when a contact has no business category in HubSpot */
+  industry?: string
+  num_blogs?: number
+  num_pages?: number
+}
+
+export interface ProvisionContext {
+  supabase: SupabaseClient
+  identity: Partial<ServiceIdentity>
+  /** A job for this service is already queued or running */
+  hasActiveJob: boolean
+  options: ProvisionOptions
+  /** Validate and report what would happen without writing anything */
+  dryRun: boolean
+  actor?: EventActor | null
+}
+
+export type ProvisionHandler = (contact: BulkContact, ctx: ProvisionContext) => Promise<BulkRowResult>
+
+export interface ServiceHandlers {
+  /** Whether the server has the config (URLs, keys) the service needs */
+  isConfigured(): boolean
+  /** Provision one contact; used by bulk onboarding */
+  provision?: ProvisionHandler
+  /** Background generation for services registered with usesJobs */
+  job?: JobHandler
+}
+
+function formatLocation(contact: BulkContact): string {
+  return [contact.city, contact.state].filter(Boolean).join(', ')
+}
+
+function row(contact: BulkContact, status: BulkRowResult['status'], message?: string): BulkRowResult {
+  const result: BulkRowResult = { contactId: contact.contactId, name: contact.name, status }
+  if (message) {
+    if (status === 'failed') result.error = message
+    else result.details = message
+  }
+  return result
+}
+
+// ─── Chatbot ─────────────────────────────────────────────────
+
+const provisionChatbot: ProvisionHandler = async (contact, { supabase, identity, dryRun, actor }) => {
+  if (identity.chatbot_slug) return row(contact, 'skipped', `Already provisioned as "${identity.chatbot_slug}"`)
+  if (!identity.duda_site_code) return row(contact, 'failed', 'No Duda site linked')
+
+  const website = canonicalWebsite(contact.website)
+  if (!website) return row(contact, 'failed', 'Missing website')
+
+  const slug = slugifyChatbotName(contact.name)
+  if (!slug) return row(contact, 'failed', 'Could not derive a slug from the business name')
+
+  const { rejection } = await guardTransition(supabase, contact.contactId, 'chatbot', 'active')
+  if (rejection) return row(contact, 'failed', rejection.message)
+
+  if (dryRun) return row(contact, 'success', `[DRY RUN] Would provision "${slug}"`)
+
+  const backendUrl = process.env.CHATBOT_BACKEND_URL
+  if (!backendUrl) throw new Error('Chatbot backend URL not configured')
+
+  const provision = {
+    contactId: contact.contactId,
+    slug,
+    name: contact.name,
+    companyInfo: { website, phone: contact.phone || '', location: formatLocation(contact) },
+    branding: {},
+    supportEmail: contact.email || '',
+    actor,
+  }
+
+  await createChatbotClient(backendUrl, provision)
+  await saveChatbotProvision(supabase, provision)
+
+  return row(contact, 'success', `Provisioned "${slug}"`)
+}
+
+// ─── Blogs & landing pages ───────────────────────────────────
+
+function queueGeneration(service: JobService): ProvisionHandler {
+  return async (contact, { supabase, identity, hasActiveJob, options, dryRun, actor }) => {
+    if (hasActiveJob) return row(contact, 'skipped', 'Generation already in progress')
+    if (!identity.duda_site_code) return row(contact, 'failed', 'No Duda site linked')
+
+    const industry = contact.industry || options.industry
+    if (!industry) return row(contact, 'failed', 'Missing industry')
+
+    const location = formatLocation(contact)
+    if (!location) return row(contact, 'failed', 'Missing city/state')
+
+    const { rejection } = await guardTransition(supabase, contact.contactId, service, 'pending')
+    if (rejection) return row(contact, 'failed', rejection.message)
+
+    const payload = service === 'blogs'
+      ? {
+          business_name: contact.name,
+          industry,
+          location,
+          duda_site_code: identity.duda_site_code,
+          num_blogs: Math.max(1, Math.min(50, Number(options.num_blogs) || 12)),
+        }
+      : {
+          num_pages: Math.max(1, Math.min(200, Number(options.num_pages) || 50)),
+          base_location: location,
+          duda_site_code: identity.duda_site_code,
+          industry,
+          priority_locations: [],
+        }
+
+    if (dryRun) return row(contact, 'success', `[DRY RUN] Would queue for ${location} (${industry})`)
+
+    const job = await enqueueJob(supabase, {
+      contactId: contact.contactId,
+      service,
+      payload,
+      createdBy: actor?.id ?? null,
+    })
+
+    await recordEvent(supabase, {
+      contactId: contact.contactId,
+      service,
+      action: 'generation_queued',
+      actor,
+      statusBefore: job.previous_service_status,
+      statusAfter: 'pending',
+      payloadAfter: { ...job.payload, job_id: job.id, bulk: true },
+    })
+
+    return row(contact, 'success', `Queued job ${job.id}`)
+  }
+}
+
+// ─── Foursquare ──────────────────────────────────────────────
+
+const provisionFoursquare: ProvisionHandler = async (contact, { supabase, identity, dryRun, actor }) => {
+  if (identity.foursquare_venue_id) return row(contact, 'skipped', 'Already has a Foursquare venue')
+
+  const { rejection } = await guardTransition(supabase, contact.contactId, 'foursquare', 'active')
+  if (rejection) return row(contact, 'failed', rejection.message)
+
+  const apiKey = getFoursquareApiKey()
+  if (!apiKey) throw new Error('Foursquare API key not configured')
+
+  const source = {
+    name: contact.name,
+    address: contact.address,
+    city: contact.city,
+    state: contact.state,
+    zip: contact.zip,
+    website: contact.website,
+    phone: contact.phone,
+  }
+
+  const match = await matchFoursquareVenue(source, apiKey)
+  if (match) {
+    if (dryRun) return row(contact, 'success', `[DRY RUN] Would link "${match.name}" (${match.venueId})`)
+
+    await linkFoursquareVenue(supabase, {
+      contactId: contact.contactId,
+      venueId: match.venueId,
+      venueName: match.name,
+      googlePlaceId: identity.google_place_id,
+      action: 'LINK_EXACT',
+      actor,
+      metadata: { bulk: true },
+    })
+    return row(contact, 'success', `Linked to "${match.name}" (${match.venueId})`)
+  }
+
+  // No exact match - score nearby venues before creating a duplicate
+  const googlePlace = identity.google_place_id && process.env.GOOGLE_PLACES_API_KEY
+    ? await fetchGooglePlaceDetails(identity.google_place_id)
+    : null
+
+  const reviews = await listFoursquareReviews(supabase, { contactId: contact.contactId, limit: 1 })
+  if (reviews[0]?.status === 'pending') return row(contact, 'skipped', 'Venue match is waiting for review')
+
+  // A rejected review means the AM found none of the candidates to be this business
+  if (reviews[0]?.status !== 'rejected') {
+    const target = { ...source, location: googlePlace?.location ?? null, categories: googlePlace?.types ?? [] }
+    const { decision, candidates } = await findFoursquareMatches(target, apiKey)
+    const best = candidates[0]
+
+    if (decision === 'auto_link') {
+      const venueId = candidateVenueId(best)
+      if (dryRun) return row(contact, 'success', `[DRY RUN] Would link "${best.venue.name}" (${best.confidence}% confidence)`)
+
+      await linkFoursquareVenue(supabase, {
+        contactId: contact.contactId,
+        venueId,
+        venueName: best.venue.name,
+        googlePlaceId: identity.google_place_id,
+        action: 'LINK_SCORED',
+        actor,
+        metadata: { bulk: true, match_confidence: best.confidence },
+      })
+      return row(contact, 'success', `Linked to "${best.venue.name}" (${venueId}, ${best.confidence}% confidence)`)
+    }
+
+    if (decision === 'review') {
+      if (dryRun) return row(contact, 'success', `[DRY RUN] Would queue ${candidates.length} candidates for review`)
+      await queueFoursquareReview(supabase, contact.contactId, contact.name, candidates, actor)
+      return row(contact, 'skipped', `Queued for match review (best: "${best.venue.name}", ${best.confidence}%)`)
+    }
+  }
+
+  const payload = buildVenuePayload(source, googlePlace)
+  if (!payload.address && !payload.ll) return row(contact, 'failed', 'Missing address and no Google Place linked')
+
+  if (dryRun) return row(contact, 'success', `[DRY RUN] Would create with: ${JSON.stringify(payload).slice(0, 200)}`)
+
+  const { venueId } = await createFoursquareVenue(payload, apiKey)
+  await linkFoursquareVenue(supabase, {
+    contactId: contact.contactId,
+    venueId,
+    venueName: contact.name,
+    googlePlaceId: identity.google_place_id,
+    action: 'CREATE',
+    actor,
+    metadata: { bulk: true },
+  })
+  return row(contact, 'success', `Created venue ${venueId}`)
+}
+
+export const SERVICE_HANDLERS: Record<ServiceType, ServiceHandlers> = {
+  foursquare: {
+    isConfigured: () => !!getFoursquareApiKey(),
+    provision: provisionFoursquare,
+  },
+  chatbot: {
+    isConfigured: () => !!process.env.CHATBOT_BACKEND_URL,
+    provision: provisionChatbot,
+  },
+  blogs: {
+    isConfigured: () => !!process.env.BLOG_SERVICE_URL,
+    provision: queueGeneration('blogs'),
+    job: JOB_HANDLERS.blogs,
+  },
+  landing_pages: {
+    isConfigured: () => !!process.env.LANDING_PAGES_URL,
+    provision: queueGeneration('landing_pages'),
+    job: JOB_HANDLERS.landing_pages,
+  },
+}
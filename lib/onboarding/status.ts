@@ -0,0 +1,122 @@
+/**
+ * Onboarding Status State Machine
+ *
+ * Every write to onboarding_status.status goes through this module so a
+ * service can only move along an allowed transition:
+ *
+ *   not_started → pending → active | error
+ *   active | error → pending (re-run)      any started status ↔ paused
+ *
+ * The allowed targets live in the service registry (DEFAULT_STATUS_TRANSITIONS
+ * plus per-service overrides, e.g. chatbot provisioning goes straight to
+ * active). Writing the status a service already has is always allowed - it
+ * only refreshes metadata.
+ *
+ * Routes call guardTransition() before any side effect and return
+ * invalidTransition() as a 409. Library writers (enqueueJob,
+ * saveChatbotProvision, linkFoursquareVenue) call assertTransition(), which
+ * throws so bulk runs and workers report the rejection per row / job.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { apiError, type ApiErrorResponse } from '@/app/types/api'
+import type { ServiceStatus, ServiceType } from '@/app/types/onboarding'
+import { SERVICE_LABELS, STATUS_LABELS } from '@/app/types/onboarding'
+import type { ServiceSnapshot } from './events'
+import { getAllowedTransitions } from './registry'
+
+export interface TransitionRejection {
+  service: ServiceType
+  from: ServiceStatus
+  to: ServiceStatus
+  allowed: readonly ServiceStatus[]
+  message: string
+}
+
+export interface TransitionGuard {
+  /** Current row, or null when the service has never been touched */
+  before: ServiceSnapshot | null
+  from: ServiceStatus
+  rejection: TransitionRejection | null
+}
+
+export function canTransition(service: ServiceType, from: ServiceStatus, to: ServiceStatus): boolean {
+  return from === to || getAllowedTransitions(service, from).includes(to)
+}
+
+/**
+ * Validate a transition without touching the database
+ */
+export function checkTransition(
+  service: ServiceType,
+  from: ServiceStatus,
+  to: ServiceStatus
+): TransitionRejection | null {
+  if (canTransition(service, from, to)) return null
+
+  const allowed = getAllowedTransitions(service, from)
+  const options = allowed.length > 0
+    ? allowed.map((s) => STATUS_LABELS[s]).join(', ')
+    : 'none'
+
+  return {
+    service,
+    from,
+    to,
+    allowed,
+    message: `${SERVICE_LABELS[service]} cannot move from ${STATUS_LABELS[from]} to ${STATUS_LABELS[to]} (allowed: ${options})`,
+  }
+}
+
+/**
+ * Read the current status row and check the transition to `to`
+ */
+export async function guardTransition(
+  supabase: SupabaseClient,
+  contactId: string,
+  service: ServiceType,
+  to: ServiceStatus
+): Promise<TransitionGuard> {
+  const { data, error } = await supabase
+    .from('onboarding_status')
+    .select('status, metadata')
+    .eq('hubspot_contact_id', contactId)
+    .eq('service', service)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to read ${service} status: ${error.message}`)
+  }
+
+  const before = data as ServiceSnapshot | null
+  const from = before?.status ?? 'not_started'
+  return { before, from, rejection: checkTransition(service, from, to) }
+}
+
+/**
+ * guardTransition() for library code - throws instead of returning the rejection
+ */
+export async function assertTransition(
+  supabase: SupabaseClient,
+  contactId: string,
+  service: ServiceType,
+  to: ServiceStatus
+): Promise<ServiceSnapshot | null> {
+  const { before, rejection } = await guardTransition(supabase, contactId, service, to)
+  if (rejection) {
+    throw new Error(rejection.message)
+  }
+  return before
+}
+
+/**
+ * API error body for a rejected transition (respond with status 409)
+ */
+export function invalidTransition(rejection: TransitionRejection): ApiErrorResponse {
+  return apiError(rejection.message, 'INVALID_TRANSITION', {
+    service: rejection.service,
+    from: rejection.from,
+    to: rejection.to,
+    allowed: rejection.allowed,
+  })
+}
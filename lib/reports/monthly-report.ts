@@ -0,0 +1,461 @@
+/**
+ * Monthly Client Reports
+ *
+ * Composes a customer's monthly performance report from stored data:
+ * - GBP impressions and actions for the customer's locations (locations come
+ *   from the clients -> pipedream_connected_accounts -> gbp_locations_sync
+ *   chain); daily metrics when synced, else keyword snapshot totals
+ * - New reviews and ratings from gbp_reviews
+ * - Blogs published (content_drafts) and landing pages live (landing_pages)
+ * - Foursquare and chatbot status from onboarding_status
+ *
+ * The rendered HTML is archived in the private client-reports bucket and
+ * indexed in client_reports. Share links are Supabase signed URLs, served
+ * through /api/public/reports so the report renders as a page.
+ *
+ * Migration: 20261019110000_client_reports.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { ServiceStatus, ServiceType } from '@/app/types/onboarding'
+import type { ClientReport, MonthlyReportData, ReportMetric, ReportShareLink } from '@/app/types/reports'
+import type { EventActor } from '@/lib/onboarding/events'
+import { getReportBranding, renderMonthlyReport } from './template'
+
+export const REPORTS_BUCKET = 'client-reports'
+
+export const DEFAULT_SHARE_DAYS = 7
+export const MAX_SHARE_DAYS = 30
+
+const MAX_TOP_KEYWORDS = 10
+const PAGE_SIZE = 1000
+
+const IMPRESSION_METRICS = [
+  'BUSINESS_IMPRESSIONS_DESKTOP_MAPS',
+  'BUSINESS_IMPRESSIONS_DESKTOP_SEARCH',
+  'BUSINESS_IMPRESSIONS_MOBILE_MAPS',
+  'BUSINESS_IMPRESSIONS_MOBILE_SEARCH',
+]
+
+const ACTION_METRICS = {
+  calls: 'CALL_CLICKS',
+  directions: 'BUSINESS_DIRECTION_REQUESTS',
+  website_clicks: 'WEBSITE_CLICKS',
+} as const
+
+interface ReportPeriod {
+  start: string
+  end: string
+  previousStart: string
+  previousEnd: string
+}
+
+/**
+ * First and last day of a YYYY-MM month and of the month before it
+ */
+export function reportPeriod(month: string): ReportPeriod {
+  const [year, monthIndex] = month.split('-').map(Number)
+  const iso = (date: Date) => date.toISOString().slice(0, 10)
+
+  return {
+    start: iso(new Date(Date.UTC(year, monthIndex - 1, 1))),
+    end: iso(new Date(Date.UTC(year, monthIndex, 0))),
+    previousStart: iso(new Date(Date.UTC(year, monthIndex - 2, 1))),
+    previousEnd: iso(new Date(Date.UTC(year, monthIndex - 1, 0))),
+  }
+}
+
+/** "October 2026" */
+export function formatReportMonth(periodStart: string): string {
+  return new Date(`${periodStart}T00:00:00Z`).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+}
+
+const metric = (value: number, previous: number | null): ReportMetric => ({ value, previous })
+
+const nextDay = (iso: string) => new Date(Date.parse(`${iso}T00:00:00Z`) + 24 * 60 * 60_000).toISOString().slice(0, 10)
+
+/** Every row of a query, a page at a time */
+async function fetchAll<T>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(error.message)
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+// ─── Sources ─────────────────────────────────────────────────
+
+async function resolveBusinessName(supabase: SupabaseClient, contactId: string): Promise<string> {
+  const [{ data: profile }, { data: client }, { data: contact }] = await Promise.all([
+    supabase.from('enriched_businesses').select('business_name').eq('hubspot_contact_id', contactId).maybeSingle(),
+    supabase.from('clients').select('business_name, name').eq('hubspot_contact_id', contactId).limit(1).maybeSingle(),
+    supabase.from('contacts').select('company, firstname, lastname').eq('hs_object_id', contactId).maybeSingle(),
+  ])
+
+  return (
+    profile?.business_name ||
+    client?.business_name ||
+    client?.name ||
+    contact?.company ||
+    [contact?.firstname, contact?.lastname].filter(Boolean).join(' ') ||
+    `Contact ${contactId}`
+  )
+}
+
+/**
+ * GBP locations synced through the customer's connected Google accounts
+ */
+async function findContactLocationIds(supabase: SupabaseClient, contactId: string): Promise<string[]> {
+  const { data: clients } = await supabase.from('clients').select('id').eq('hubspot_contact_id', contactId)
+  if (!clients?.length) return []
+
+  const { data: connections } = await supabase
+    .from('pipedream_connected_accounts')
+    .select('id')
+    .in('client_id', clients.map((c) => c.id))
+  if (!connections?.length) return []
+
+  const { data: locations } = await supabase
+    .from('gbp_locations_sync')
+    .select('location_id')
+    .in('connection_id', connections.map((c) => c.id))
+
+  return Array.from(new Set((locations || []).map((l) => l.location_id)))
+}
+
+async function collectGbpMetrics(
+  supabase: SupabaseClient,
+  locationIds: string[],
+  period: ReportPeriod
+): Promise<MonthlyReportData['gbp']> {
+  const empty: MonthlyReportData['gbp'] = {
+    location_count: locationIds.length,
+    source: null,
+    impressions: metric(0, null),
+    calls: null,
+    directions: null,
+    website_clicks: null,
+    top_keywords: [],
+  }
+  if (locationIds.length === 0) return empty
+
+  const daily = await fetchAll<{ metric: string; metric_date: string; value: number }>((from, to) =>
+    supabase
+      .from('gbp_daily_metrics')
+      .select('metric, metric_date, value')
+      .in('location_id', locationIds)
+      .in('metric', [...IMPRESSION_METRICS, ...Object.values(ACTION_METRICS)])
+      .gte('metric_date', period.previousStart)
+      .lte('metric_date', period.end)
+      .order('metric_date', { ascending: true })
+      .range(from, to)
+  )
+
+  const sum = (metrics: string[], start: string, end: string) =>
+    daily
+      .filter((row) => metrics.includes(row.metric) && row.metric_date >= start && row.metric_date <= end)
+      .reduce((total, row) => total + row.value, 0)
+
+  const hasCurrent = daily.some((row) => row.metric_date >= period.start)
+  const hasPrevious = daily.some((row) => row.metric_date <= period.previousEnd)
+  const dailyMetric = (metrics: string[]) =>
+    metric(sum(metrics, period.start, period.end), hasPrevious ? sum(metrics, period.previousStart, period.previousEnd) : null)
+
+  // Keyword snapshots: the latest per location in each month
+  const { data: snapshots, error } = await supabase
+    .from('gbp_analytics_snapshots')
+    .select('location_id, snapshot_date, total_impressions, keywords')
+    .in('location_id', locationIds)
+    .gte('snapshot_date', period.previousStart)
+    .lte('snapshot_date', period.end)
+    .order('snapshot_date', { ascending: false })
+
+  if (error) throw new Error(`Failed to load analytics snapshots: ${error.message}`)
+
+  const latestIn = (start: string, end: string) => {
+    const byLocation = new Map<string, NonNullable<typeof snapshots>[number]>()
+    for (const snapshot of snapshots || []) {
+      if (snapshot.snapshot_date < start || snapshot.snapshot_date > end) continue
+      if (!byLocation.has(snapshot.location_id)) byLocation.set(snapshot.location_id, snapshot)
+    }
+    return Array.from(byLocation.values())
+  }
+
+  const current = latestIn(period.start, period.end)
+  const previous = latestIn(period.previousStart, period.previousEnd)
+
+  const keywordTotals = new Map<string, number>()
+  for (const snapshot of current) {
+    const keywords = typeof snapshot.keywords === 'string' ? JSON.parse(snapshot.keywords) : snapshot.keywords || []
+    for (const { keyword, impressions } of keywords as { keyword: string; impressions: number }[]) {
+      keywordTotals.set(keyword, (keywordTotals.get(keyword) ?? 0) + impressions)
+    }
+  }
+  const topKeywords = Array.from(keywordTotals, ([keyword, impressions]) => ({ keyword, impressions }))
+    .sort((a, b) => b.impressions - a.impressions)
+    .slice(0, MAX_TOP_KEYWORDS)
+
+  if (hasCurrent) {
+    return {
+      location_count: locationIds.length,
+      source: 'daily',
+      impressions: dailyMetric(IMPRESSION_METRICS),
+      calls: dailyMetric([ACTION_METRICS.calls]),
+      directions: dailyMetric([ACTION_METRICS.directions]),
+      website_clicks: dailyMetric([ACTION_METRICS.website_clicks]),
+      top_keywords: topKeywords,
+    }
+  }
+
+  if (current.length === 0) return { ...empty, top_keywords: topKeywords }
+
+  const total = (rows: typeof current) => rows.reduce((sum, row) => sum + (row.total_impressions || 0), 0)
+  return {
+    ...empty,
+    source: 'keywords',
+    impressions: metric(total(current), previous.length ? total(previous) : null),
+    top_keywords: topKeywords,
+  }
+}
+
+async function collectReviews(
+  supabase: SupabaseClient,
+  locationIds: string[],
+  period: ReportPeriod
+): Promise<MonthlyReportData['reviews']> {
+  if (locationIds.length === 0) {
+    return { new_reviews: metric(0, null), average_rating: null, overall_rating: null, total_reviews: 0, replied: 0 }
+  }
+
+  const reviews = await fetchAll<{ star_rating: number | null; create_time: string | null; reply_comment: string | null }>(
+    (from, to) =>
+      supabase
+        .from('gbp_reviews')
+        .select('star_rating, create_time, reply_comment')
+        .in('location_id', locationIds)
+        .lt('create_time', nextDay(period.end))
+        .order('create_time', { ascending: true })
+        .range(from, to)
+  )
+
+  const inRange = (start: string, end: string) =>
+    reviews.filter((r) => r.create_time && r.create_time >= start && r.create_time < nextDay(end))
+  const average = (rows: typeof reviews) => {
+    const rated = rows.filter((r) => r.star_rating)
+    return rated.length ? Math.round((rated.reduce((sum, r) => sum + (r.star_rating ?? 0), 0) / rated.length) * 10) / 10 : null
+  }
+
+  const current = inRange(period.start, period.end)
+
+  return {
+    new_reviews: metric(current.length, inRange(period.previousStart, period.previousEnd).length),
+    average_rating: average(current),
+    overall_rating: average(reviews),
+    total_reviews: reviews.length,
+    replied: current.filter((r) => r.reply_comment).length,
+  }
+}
+
+/**
+ * Numbers for a customer's report for a YYYY-MM month
+ */
+export async function collectMonthlyReportData(
+  supabase: SupabaseClient,
+  contactId: string,
+  month: string
+): Promise<MonthlyReportData> {
+  const period = reportPeriod(month)
+  const locationIds = await findContactLocationIds(supabase, contactId)
+
+  const [businessName, gbp, reviews, blogs, pages, statuses, identity] = await Promise.all([
+    resolveBusinessName(supabase, contactId),
+    collectGbpMetrics(supabase, locationIds, period),
+    collectReviews(supabase, locationIds, period),
+    supabase
+      .from('content_drafts')
+      .select('title, published_at')
+      .eq('hubspot_contact_id', contactId)
+      .eq('service', 'blogs')
+      .eq('status', 'published')
+      .gte('published_at', period.start)
+      .lt('published_at', nextDay(period.end))
+      .order('published_at', { ascending: true }),
+    supabase
+      .from('landing_pages')
+      .select('published_at')
+      .eq('hubspot_contact_id', contactId)
+      .not('published_at', 'is', null)
+      .lt('published_at', nextDay(period.end)),
+    supabase.from('onboarding_status').select('service, status').eq('hubspot_contact_id', contactId),
+    supabase.from('service_identity_map').select('foursquare_venue_id').eq('hubspot_contact_id', contactId).maybeSingle(),
+  ])
+
+  for (const result of [blogs, pages, statuses]) {
+    if (result.error) throw new Error(`Failed to load report data: ${result.error.message}`)
+  }
+
+  const statusOf = (service: ServiceType) =>
+    ((statuses.data || []).find((s) => s.service === service)?.status as ServiceStatus | undefined) ?? null
+
+  return {
+    hubspot_contact_id: contactId,
+    business_name: businessName,
+    period_start: period.start,
+    period_end: period.end,
+    generated_at: new Date().toISOString(),
+    gbp,
+    reviews,
+    blogs: {
+      published: (blogs.data || []).map((b) => ({ title: b.title, published_at: b.published_at })),
+      status: statusOf('blogs'),
+    },
+    landing_pages: {
+      live: (pages.data || []).length,
+      new_this_month: (pages.data || []).filter((p) => p.published_at >= period.start).length,
+      status: statusOf('landing_pages'),
+    },
+    foursquare: {
+      status: statusOf('foursquare'),
+      venue_id: identity.data?.foursquare_venue_id ?? null,
+    },
+    chatbot: {
+      status: statusOf('chatbot'),
+    },
+  }
+}
+
+// ─── Archive ─────────────────────────────────────────────────
+
+const REPORT_COLUMNS = 'id, hubspot_contact_id, period_start, period_end, title, storage_path, data, generated_by, created_at'
+
+/**
+ * Build, render and archive a report. Returns the archived report row.
+ */
+export async function generateMonthlyReport(
+  supabase: SupabaseClient,
+  contactId: string,
+  month: string,
+  actor: EventActor
+): Promise<ClientReport> {
+  const data = await collectMonthlyReportData(supabase, contactId, month)
+  const html = renderMonthlyReport(data, getReportBranding())
+
+  const id = crypto.randomUUID()
+  const storagePath = `${contactId}/${month}/${id}.html`
+
+  const { error: uploadError } = await supabase.storage
+    .from(REPORTS_BUCKET)
+    .upload(storagePath, new Blob([html], { type: 'text/html; charset=utf-8' }), {
+      contentType: 'text/html; charset=utf-8',
+      upsert: false,
+    })
+
+  if (uploadError) throw new Error(`Failed to archive report: ${uploadError.message}`)
+
+  const { data: report, error } = await supabase
+    .from('client_reports')
+    .insert({
+      id,
+      hubspot_contact_id: contactId,
+      period_start: data.period_start,
+      period_end: data.period_end,
+      title: `${data.business_name} · ${formatReportMonth(data.period_start)} Performance Report`,
+      storage_path: storagePath,
+      data,
+      generated_by: actor.email,
+    })
+    .select(REPORT_COLUMNS)
+    .single()
+
+  if (error) {
+    // Don't leave an unindexed file behind
+    await supabase.storage.from(REPORTS_BUCKET).remove([storagePath])
+    throw new Error(`Failed to save report: ${error.message}`)
+  }
+
+  return report as ClientReport
+}
+
+export async function listReports(supabase: SupabaseClient, contactId: string): Promise<ClientReport[]> {
+  const { data, error } = await supabase
+    .from('client_reports')
+    .select(REPORT_COLUMNS)
+    .eq('hubspot_contact_id', contactId)
+    .order('period_start', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) throw new Error(`Failed to load reports: ${error.message}`)
+  return (data || []) as ClientReport[]
+}
+
+export async function getReport(
+  supabase: SupabaseClient,
+  contactId: string,
+  reportId: string
+): Promise<ClientReport | null> {
+  const { data, error } = await supabase
+    .from('client_reports')
+    .select(REPORT_COLUMNS)
+    .eq('id', reportId)
+    .eq('hubspot_contact_id', contactId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load report: ${error.message}`)
+  return data as ClientReport | null
+}
+
+/**
+ * The archived HTML
+ */
+export async function downloadReportHtml(supabase: SupabaseClient, report: ClientReport): Promise<string> {
+  const { data, error } = await supabase.storage.from(REPORTS_BUCKET).download(report.storage_path)
+  if (error || !data) throw new Error(`Failed to download report: ${error?.message || 'File not found'}`)
+  return data.text()
+}
+
+export async function deleteReport(supabase: SupabaseClient, report: ClientReport): Promise<void> {
+  const { error: storageError } = await supabase.storage.from(REPORTS_BUCKET).remove([report.storage_path])
+  if (storageError) throw new Error(`Failed to delete report file: ${storageError.message}`)
+
+  const { error } = await supabase.from('client_reports').delete().eq('id', report.id)
+  if (error) throw new Error(`Failed to delete report: ${error.message}`)
+}
+
+/**
+ * A link anyone can open until it expires. The Supabase signed URL's token
+ * is passed to /api/public/reports, which serves the file as a web page.
+ */
+export async function createReportShareLink(
+  supabase: SupabaseClient,
+  report: ClientReport,
+  expiresInDays: number,
+  origin: string
+): Promise<ReportShareLink> {
+  const expiresIn = expiresInDays * 24 * 60 * 60
+  const { data, error } = await supabase.storage.from(REPORTS_BUCKET).createSignedUrl(report.storage_path, expiresIn)
+
+  if (error || !data?.signedUrl) throw new Error(`Failed to sign report link: ${error?.message || 'No URL returned'}`)
+
+  const token = new URL(data.signedUrl).searchParams.get('token')
+  if (!token) throw new Error('Signed URL has no token')
+
+  return {
+    url: `${origin}/api/public/reports/${report.id}?token=${encodeURIComponent(token)}`,
+    expires_at: new Date(Date.now() + expiresIn * 1000).toISOString(),
+  }
+}
+
+/**
+ * Fetch a shared report through its signed URL; Supabase checks the token
+ * against the path and expiry. Null when the link is invalid or expired.
+ */
+export async function fetchSharedReportHtml(storagePath: string, token: string): Promise<string | null> {
+  const url = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/sign/${REPORTS_BUCKET}/${storagePath}?token=${encodeURIComponent(token)}`
+  const response = await fetch(url, { cache: 'no-store' })
+  if (!response.ok) return null
+  return response.text()
+}
@@ -0,0 +1,227 @@
+/**
+ * Monthly Report Template
+ *
+ * Renders MonthlyReportData as a standalone branded HTML document: inline
+ * CSS, no scripts and no external assets other than the optional logo, so
+ * the archived file looks the same wherever it is opened. Print styles keep
+ * sections on one page each when the client saves it as PDF.
+ *
+ * Branding comes from REPORT_BRAND_NAME, REPORT_BRAND_COLOR,
+ * REPORT_BRAND_LOGO_URL and REPORT_BRAND_WEBSITE.
+ */
+
+import type { ServiceStatus } from '@/app/types/onboarding'
+import type { MonthlyReportData, ReportMetric } from '@/app/types/reports'
+
+export interface ReportBranding {
+  name: string
+  color: string
+  logoUrl: string | null
+  website: string | null
+}
+
+const DEFAULT_BRAND_COLOR = '#A855F7'
+
+const STATUS_TEXT: Record<ServiceStatus, string> = {
+  not_started: 'Not started',
+  pending: 'In progress',
+  active: 'Live',
+  error: 'Needs attention',
+  paused: 'Paused',
+}
+
+export function getReportBranding(): ReportBranding {
+  const color = process.env.REPORT_BRAND_COLOR
+  return {
+    name: process.env.REPORT_BRAND_NAME || 'Zing',
+    color: color && /^#[0-9a-f]{6}$/i.test(color) ? color : DEFAULT_BRAND_COLOR,
+    logoUrl: process.env.REPORT_BRAND_LOGO_URL || null,
+    website: process.env.REPORT_BRAND_WEBSITE || null,
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+const formatNumber = (value: number) => value.toLocaleString('en-US')
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+
+function changeBadge(current: number, previous: number | null): string {
+  if (previous === null) return ''
+  if (previous === 0) return current > 0 ? '<span class="delta up">new</span>' : ''
+
+  const pct = ((current - previous) / previous) * 100
+  const direction = pct >= 0 ? 'up' : 'down'
+  return `<span class="delta ${direction}">${pct >= 0 ? '▲' : '▼'} ${Math.abs(pct).toFixed(0)}% vs last month</span>`
+}
+
+function statCard(label: string, stat: ReportMetric | null): string {
+  if (!stat) return ''
+  return `
+      <div class="stat">
+        <div class="stat-label">${escapeHtml(label)}</div>
+        <div class="stat-value">${formatNumber(stat.value)}</div>
+        ${changeBadge(stat.value, stat.previous)}
+      </div>`
+}
+
+function statusRow(label: string, status: ServiceStatus | null, detail?: string): string {
+  const text = status ? STATUS_TEXT[status] : 'Not enabled'
+  return `
+        <tr>
+          <td>${escapeHtml(label)}</td>
+          <td><span class="status status-${status ?? 'none'}">${text}</span></td>
+          <td class="muted">${detail ? escapeHtml(detail) : ''}</td>
+        </tr>`
+}
+
+export function renderMonthlyReport(data: MonthlyReportData, branding: ReportBranding): string {
+  const month = new Date(`${data.period_start}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+  const { gbp, reviews, blogs, landing_pages: pages, foursquare, chatbot } = data
+
+  const gbpSection = gbp.location_count === 0
+    ? '<p class="muted">No Google Business Profile is connected yet.</p>'
+    : gbp.source === null
+      ? '<p class="muted">Google has not reported performance data for this month yet.</p>'
+      : `
+    <div class="stats">
+      ${statCard(gbp.source === 'daily' ? 'Profile views' : 'Search impressions', gbp.impressions)}
+      ${statCard('Calls', gbp.calls)}
+      ${statCard('Direction requests', gbp.directions)}
+      ${statCard('Website clicks', gbp.website_clicks)}
+    </div>`
+
+  const keywordRows = gbp.top_keywords
+    .map((k) => `<tr><td>${escapeHtml(k.keyword)}</td><td class="num">${formatNumber(k.impressions)}</td></tr>`)
+    .join('')
+
+  const blogRows = blogs.published
+    .map((b) => `<li>${escapeHtml(b.title)} <span class="muted">· ${formatDate(b.published_at)}</span></li>`)
+    .join('')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(data.business_name)} · ${month} Performance Report</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Inter, Roboto, sans-serif; color: #1f2937; background: #f9fafb; }
+  .page { max-width: 820px; margin: 0 auto; padding: 40px 32px; background: #fff; }
+  header { display: flex; align-items: center; justify-content: space-between; border-bottom: 4px solid ${branding.color}; padding-bottom: 20px; margin-bottom: 32px; }
+  header img { max-height: 44px; }
+  .brand { font-size: 20px; font-weight: 800; color: ${branding.color}; }
+  h1 { font-size: 28px; margin: 0 0 4px; }
+  h2 { font-size: 18px; margin: 0 0 16px; color: ${branding.color}; }
+  section { margin-bottom: 36px; break-inside: avoid; }
+  .muted { color: #6b7280; }
+  .stats { display: flex; flex-wrap: wrap; gap: 16px; }
+  .stat { flex: 1 1 160px; border: 1px solid #e5e7eb; border-radius: 10px; padding: 16px; }
+  .stat-label { font-size: 13px; color: #6b7280; }
+  .stat-value { font-size: 28px; font-weight: 700; margin: 4px 0; }
+  .delta { font-size: 12px; font-weight: 600; }
+  .delta.up { color: #059669; }
+  .delta.down { color: #dc2626; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; }
+  td, th { text-align: left; padding: 8px 4px; border-bottom: 1px solid #f3f4f6; }
+  th { font-size: 12px; color: #6b7280; font-weight: 600; }
+  .num { text-align: right; }
+  ul { padding-left: 20px; margin: 0; line-height: 1.8; }
+  .status { font-size: 12px; font-weight: 700; padding: 2px 8px; border-radius: 999px; background: #f3f4f6; color: #6b7280; }
+  .status-active { background: #d1fae5; color: #047857; }
+  .status-pending { background: #fef3c7; color: #b45309; }
+  .status-error { background: #fee2e2; color: #b91c1c; }
+  footer { border-top: 1px solid #e5e7eb; padding-top: 16px; font-size: 12px; color: #9ca3af; }
+  @media print {
+    body { background: #fff; }
+    .page { padding: 0; max-width: none; }
+    @page { margin: 18mm 16mm; }
+  }
+</style>
+</head>
+<body>
+<div class="page">
+  <header>
+    <div>
+      <h1>${escapeHtml(data.business_name)}</h1>
+      <div class="muted">${month} Performance Report</div>
+    </div>
+    ${branding.logoUrl ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.name)}">` : `<div class="brand">${escapeHtml(branding.name)}</div>`}
+  </header>
+
+  <section>
+    <h2>Google Business Profile</h2>
+    ${gbpSection}
+    ${keywordRows ? `
+    <h3>Top searches</h3>
+    <table>
+      <tr><th>Search term</th><th class="num">Impressions</th></tr>
+      ${keywordRows}
+    </table>` : ''}
+  </section>
+
+  <section>
+    <h2>Reviews</h2>
+    <div class="stats">
+      ${statCard('New reviews', reviews.new_reviews)}
+      <div class="stat">
+        <div class="stat-label">Average rating this month</div>
+        <div class="stat-value">${reviews.average_rating !== null ? `${reviews.average_rating.toFixed(1)} ★` : '—'}</div>
+      </div>
+      <div class="stat">
+        <div class="stat-label">Overall rating</div>
+        <div class="stat-value">${reviews.overall_rating !== null ? `${reviews.overall_rating.toFixed(1)} ★` : '—'}</div>
+        <span class="muted">${formatNumber(reviews.total_reviews)} reviews</span>
+      </div>
+    </div>
+    ${reviews.new_reviews.value > 0 ? `<p class="muted">${reviews.replied} of ${reviews.new_reviews.value} new reviews answered.</p>` : ''}
+  </section>
+
+  <section>
+    <h2>Content</h2>
+    <div class="stats">
+      <div class="stat">
+        <div class="stat-label">Blog posts published</div>
+        <div class="stat-value">${blogs.published.length}</div>
+      </div>
+      <div class="stat">
+        <div class="stat-label">Landing pages live</div>
+        <div class="stat-value">${formatNumber(pages.live)}</div>
+        ${pages.new_this_month > 0 ? `<span class="delta up">+${pages.new_this_month} this month</span>` : ''}
+      </div>
+    </div>
+    ${blogRows ? `<h3>New posts</h3><ul>${blogRows}</ul>` : ''}
+  </section>
+
+  <section>
+    <h2>Services</h2>
+    <table>
+      ${statusRow('Foursquare listing', foursquare.status, foursquare.venue_id ? 'Listed on Foursquare and partner apps' : undefined)}
+      ${statusRow('Website chatbot', chatbot.status)}
+      ${statusRow('SEO blog', blogs.status)}
+      ${statusRow('City landing pages', pages.status)}
+    </table>
+  </section>
+
+  <footer>
+    Prepared by ${escapeHtml(branding.name)}${branding.website ? ` · ${escapeHtml(branding.website)}` : ''} · Generated ${formatDate(data.generated_at)}
+  </footer>
+</div>
+</body>
+</html>
+`
+}
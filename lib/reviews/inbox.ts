@@ -0,0 +1,294 @@
+/**
+ * Review Inbox
+ *
+ * One queue of unanswered Google reviews across every client location,
+ * read from v_review_inbox. A review leaves the queue when it gets a reply
+ * or is marked handled. Low-star reviews left waiting longer than the SLA
+ * are flagged as breaches.
+ *
+ * Migration: 20261019070000_review_inbox.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  InboxReview,
+  ReviewInboxFilterOptions,
+  ReviewInboxFilters,
+  ReviewInboxOption,
+  ReviewInboxSort,
+  ReviewSlaPolicy,
+} from '@/app/types/reviews'
+import type { EventActor } from '@/lib/onboarding/events'
+import { createConnectionClient } from '@/lib/sync/gbp-sync-service'
+import { getHubSpotClient, isHubSpotConfigured } from '@/lib/hubspot-client'
+
+export const DEFAULT_REVIEW_SLA: ReviewSlaPolicy = { maxRating: 2, hours: 24 }
+
+export const INBOX_PAGE_SIZE = 50
+export const INBOX_MAX_PAGE_SIZE = 200
+
+/** Reviews per mark-handled request */
+export const HANDLED_MAX_REVIEWS = 200
+
+/** Google's limit on reply length */
+export const MAX_REPLY_LENGTH = 4096
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Owner names change rarely - keep them for the life of the server instance
+const OWNER_CACHE_TTL_MS = 60 * 60 * 1000
+let ownerCache: { names: Map<string, string>; fetchedAt: number } | null = null
+
+export interface InboxPage {
+  reviews: InboxReview[]
+  total: number
+  /** SLA breaches matching the filters (ignoring slaBreachedOnly) */
+  slaBreached: number
+}
+
+export interface InboxReviewRecord {
+  id: string
+  account_id: string
+  location_id: string
+  review_id: string
+  reply_comment: string | null
+  handled_at: string | null
+}
+
+function hoursAgo(now: number, hours: number): string {
+  return new Date(now - hours * HOUR_MS).toISOString()
+}
+
+/**
+ * Whether a review breaches the SLA at `now`
+ */
+export function isSlaBreached(
+  review: Pick<InboxReview, 'star_rating' | 'create_time'>,
+  sla: ReviewSlaPolicy,
+  now: number = Date.now()
+): boolean {
+  if (review.star_rating == null || review.star_rating > sla.maxRating) return false
+  if (!review.create_time) return false
+  return now - Date.parse(review.create_time) > sla.hours * HOUR_MS
+}
+
+/**
+ * v_review_inbox filtered the same way for the page and the breach count
+ */
+function inboxQuery(
+  supabase: SupabaseClient,
+  filters: ReviewInboxFilters,
+  now: number,
+  options: { head?: boolean } = {}
+) {
+  let query = supabase
+    .from('v_review_inbox')
+    .select('*', { count: 'exact', head: options.head ?? false })
+
+  if (filters.ratings?.length) query = query.in('star_rating', filters.ratings)
+  if (filters.minAgeHours != null) query = query.lte('create_time', hoursAgo(now, filters.minAgeHours))
+  if (filters.maxAgeHours != null) query = query.gte('create_time', hoursAgo(now, filters.maxAgeHours))
+  if (filters.clientId) query = query.eq('client_id', filters.clientId)
+  if (filters.accountManagerId) query = query.eq('account_manager_id', filters.accountManagerId)
+
+  return query
+}
+
+/**
+ * One page of the inbox, with each review's age and SLA state
+ */
+export async function listInboxReviews(
+  supabase: SupabaseClient,
+  filters: ReviewInboxFilters,
+  options: { page: number; pageSize: number; sort?: ReviewInboxSort; sla?: ReviewSlaPolicy }
+): Promise<InboxPage> {
+  const sla = options.sla ?? DEFAULT_REVIEW_SLA
+  const now = Date.now()
+  const breachCutoff = hoursAgo(now, sla.hours)
+
+  let query = inboxQuery(supabase, filters, now)
+  if (filters.slaBreachedOnly) {
+    query = query.lte('star_rating', sla.maxRating).lt('create_time', breachCutoff)
+  }
+
+  switch (options.sort ?? 'oldest') {
+    case 'newest':
+      query = query.order('create_time', { ascending: false, nullsFirst: false })
+      break
+    case 'lowest':
+      query = query
+        .order('star_rating', { ascending: true, nullsFirst: false })
+        .order('create_time', { ascending: true })
+      break
+    default:
+      query = query.order('create_time', { ascending: true, nullsFirst: false })
+  }
+
+  const from = (options.page - 1) * options.pageSize
+  const { data, error, count } = await query.range(from, from + options.pageSize - 1)
+  if (error) throw new Error(`Failed to load review inbox: ${error.message}`)
+
+  const { count: breached, error: breachError } = await inboxQuery(supabase, filters, now, { head: true })
+    .lte('star_rating', sla.maxRating)
+    .lt('create_time', breachCutoff)
+  if (breachError) throw new Error(`Failed to count SLA breaches: ${breachError.message}`)
+
+  const reviews = (data || []).map((row) => ({
+    ...row,
+    age_hours: row.create_time ? Math.floor((now - Date.parse(row.create_time)) / HOUR_MS) : null,
+    sla_breached: isSlaBreached(row, sla, now),
+  })) as InboxReview[]
+
+  return { reviews, total: count ?? 0, slaBreached: breached ?? 0 }
+}
+
+/**
+ * HubSpot owner names by ID (empty when HubSpot is unavailable)
+ */
+async function getOwnerNames(): Promise<Map<string, string>> {
+  if (ownerCache && Date.now() - ownerCache.fetchedAt < OWNER_CACHE_TTL_MS) {
+    return ownerCache.names
+  }
+  if (!isHubSpotConfigured()) return new Map()
+
+  const names = new Map<string, string>()
+  try {
+    const client = getHubSpotClient()
+    let after: string | undefined
+    do {
+      const page = await client.crm.owners.ownersApi.getPage(undefined, after, 500, false)
+      for (const owner of page.results) {
+        const name = [owner.firstName, owner.lastName].filter(Boolean).join(' ')
+        names.set(owner.id, name || owner.email || owner.id)
+      }
+      after = page.paging?.next?.after
+    } while (after)
+
+    ownerCache = { names, fetchedAt: Date.now() }
+  } catch (err) {
+    console.warn('[Review Inbox] Failed to load HubSpot owners:', err instanceof Error ? err.message : err)
+  }
+
+  return names
+}
+
+/**
+ * Clients and account managers that currently have unanswered reviews
+ */
+export async function listInboxFilterOptions(supabase: SupabaseClient): Promise<ReviewInboxFilterOptions> {
+  const { data, error } = await supabase
+    .from('v_review_inbox')
+    .select('client_id, client_name, account_manager_id')
+    .limit(10000)
+
+  if (error) throw new Error(`Failed to load inbox filters: ${error.message}`)
+
+  const clients = new Map<string, ReviewInboxOption>()
+  const managers = new Map<string, ReviewInboxOption>()
+
+  for (const row of data || []) {
+    if (row.client_id) {
+      const option = clients.get(row.client_id) ?? { id: row.client_id, label: row.client_name || row.client_id, count: 0 }
+      option.count++
+      clients.set(row.client_id, option)
+    }
+    if (row.account_manager_id) {
+      const option = managers.get(row.account_manager_id) ?? { id: row.account_manager_id, label: row.account_manager_id, count: 0 }
+      option.count++
+      managers.set(row.account_manager_id, option)
+    }
+  }
+
+  if (managers.size > 0) {
+    const names = await getOwnerNames()
+    for (const option of managers.values()) {
+      option.label = names.get(option.id) ?? option.id
+    }
+  }
+
+  const byLabel = (a: ReviewInboxOption, b: ReviewInboxOption) => a.label.localeCompare(b.label)
+  return {
+    clients: [...clients.values()].sort(byLabel),
+    accountManagers: [...managers.values()].sort(byLabel),
+  }
+}
+
+/**
+ * Mark reviews handled (or return them to the inbox). Returns the IDs updated.
+ */
+export async function markReviewsHandled(
+  supabase: SupabaseClient,
+  reviewIds: string[],
+  actor: EventActor,
+  handled: boolean = true
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('gbp_reviews')
+    .update({
+      handled_at: handled ? new Date().toISOString() : null,
+      handled_by: handled ? actor.email : null,
+    })
+    .in('id', reviewIds)
+    .select('id')
+
+  if (error) throw new Error(`Failed to update reviews: ${error.message}`)
+  return (data || []).map((row) => row.id as string)
+}
+
+/**
+ * Read the stored review a reply is for (null if not found)
+ */
+export async function getInboxReview(
+  supabase: SupabaseClient,
+  reviewId: string
+): Promise<InboxReviewRecord | null> {
+  const { data, error } = await supabase
+    .from('gbp_reviews')
+    .select('id, account_id, location_id, review_id, reply_comment, handled_at')
+    .eq('id', reviewId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load review: ${error.message}`)
+  return data as InboxReviewRecord | null
+}
+
+/**
+ * Post a reply to Google with the connection that synced the review's
+ * location (falling back to the default token), then store it so the review
+ * leaves the inbox without waiting for the next sync.
+ *
+ * Throws when Google rejects the reply; a failed local update is logged only.
+ */
+export async function replyToInboxReview(
+  supabase: SupabaseClient,
+  review: InboxReviewRecord,
+  comment: string
+): Promise<{ comment: string; updateTime: string }> {
+  const { data: location } = await supabase
+    .from('gbp_locations_sync')
+    .select('connection_id')
+    .eq('location_id', review.location_id)
+    .order('fetched_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const client = await createConnectionClient(location?.connection_id ?? null)
+  const reviewName = `accounts/${review.account_id}/locations/${review.location_id}/reviews/${review.review_id}`
+  const { reviewReply } = await client.replyToReview(reviewName, comment)
+
+  const reply = {
+    comment: reviewReply?.comment ?? comment,
+    updateTime: reviewReply?.updateTime ?? new Date().toISOString(),
+  }
+
+  const { error } = await supabase
+    .from('gbp_reviews')
+    .update({ reply_comment: reply.comment, reply_update_time: reply.updateTime })
+    .eq('id', review.id)
+
+  if (error) {
+    console.error(`[Review Inbox] Reply posted but not stored for review ${review.id}:`, error.message)
+  }
+
+  return reply
+}
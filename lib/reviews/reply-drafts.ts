@@ -0,0 +1,197 @@
+/**
+ * Review Reply Drafts
+ *
+ * Suggests a reply to a stored review from its text and rating, the
+ * client's enriched_businesses profile and the client's brand voice
+ * (review_reply_templates). Drafts are returned to the UI only - posting
+ * still goes through the reply route when a person sends it.
+ *
+ * A draft that uses a banned phrase is retried once with the phrase called
+ * out; anything still left is returned as `violations` for the user to fix.
+ *
+ * Migration: 20261019080000_review_reply_templates.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { ReplyTone, ReviewReplyDraft, ReviewReplyTemplate } from '@/app/types/reviews'
+import type { EventActor } from '@/lib/onboarding/events'
+import { MAX_REPLY_LENGTH } from './inbox'
+import { getReplyDraftProvider, type ReplyDraftInput, type ReplyDraftProvider } from './reply-providers'
+
+export const DEFAULT_REPLY_TEMPLATE: Omit<ReviewReplyTemplate, 'hubspot_contact_id'> = {
+  tone: 'friendly',
+  voice_notes: null,
+  sign_off: null,
+  banned_phrases: [],
+  max_length: 600,
+}
+
+export interface ReplyTemplateInput {
+  tone?: ReplyTone
+  voice_notes?: string | null
+  sign_off?: string | null
+  banned_phrases?: string[]
+  max_length?: number
+}
+
+interface ReviewClient {
+  hubspotContactId: string | null
+  name: string | null
+}
+
+/**
+ * Banned phrases present in a draft (case-insensitive)
+ */
+export function findBannedPhrases(text: string, bannedPhrases: string[]): string[] {
+  const lower = text.toLowerCase()
+  return bannedPhrases.filter((phrase) => phrase.trim() && lower.includes(phrase.trim().toLowerCase()))
+}
+
+/**
+ * The client's template, or the default voice when it has none
+ */
+export async function getReplyTemplate(
+  supabase: SupabaseClient,
+  contactId: string
+): Promise<{ template: ReviewReplyTemplate; custom: boolean }> {
+  const { data, error } = await supabase
+    .from('review_reply_templates')
+    .select('hubspot_contact_id, tone, voice_notes, sign_off, banned_phrases, max_length, updated_by, updated_at')
+    .eq('hubspot_contact_id', contactId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load reply template: ${error.message}`)
+  if (data) return { template: data as ReviewReplyTemplate, custom: true }
+
+  return { template: { ...DEFAULT_REPLY_TEMPLATE, hubspot_contact_id: contactId }, custom: false }
+}
+
+/**
+ * Create or update the client's template
+ */
+export async function saveReplyTemplate(
+  supabase: SupabaseClient,
+  contactId: string,
+  input: ReplyTemplateInput,
+  actor: EventActor
+): Promise<ReviewReplyTemplate> {
+  const { template } = await getReplyTemplate(supabase, contactId)
+
+  const { data, error } = await supabase
+    .from('review_reply_templates')
+    .upsert({
+      hubspot_contact_id: contactId,
+      tone: input.tone ?? template.tone,
+      voice_notes: input.voice_notes !== undefined ? input.voice_notes : template.voice_notes,
+      sign_off: input.sign_off !== undefined ? input.sign_off : template.sign_off,
+      banned_phrases: input.banned_phrases ?? template.banned_phrases,
+      max_length: input.max_length ?? template.max_length,
+      updated_by: actor.email,
+    }, { onConflict: 'hubspot_contact_id' })
+    .select('hubspot_contact_id, tone, voice_notes, sign_off, banned_phrases, max_length, updated_by, updated_at')
+    .single()
+
+  if (error) throw new Error(`Failed to save reply template: ${error.message}`)
+  return data as ReviewReplyTemplate
+}
+
+/**
+ * Client that owns a location, through the connection that synced it
+ */
+async function resolveReviewClient(supabase: SupabaseClient, locationId: string): Promise<ReviewClient & { locationTitle: string | null }> {
+  const { data: location } = await supabase
+    .from('gbp_locations_sync')
+    .select('title, connection_id')
+    .eq('location_id', locationId)
+    .order('fetched_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const none = { hubspotContactId: null, name: null, locationTitle: location?.title ?? null }
+  if (!location?.connection_id) return none
+
+  const { data: connection } = await supabase
+    .from('pipedream_connected_accounts')
+    .select('client_id')
+    .eq('id', location.connection_id)
+    .maybeSingle()
+  if (!connection?.client_id) return none
+
+  const { data: client } = await supabase
+    .from('clients')
+    .select('hubspot_contact_id, business_name, name')
+    .eq('id', connection.client_id)
+    .maybeSingle()
+
+  return {
+    hubspotContactId: client?.hubspot_contact_id ?? null,
+    name: client?.business_name || client?.name || null,
+    locationTitle: location.title ?? null,
+  }
+}
+
+/**
+ * Draft a reply to a stored review (null if the review does not exist)
+ */
+export async function draftReviewReply(
+  supabase: SupabaseClient,
+  reviewId: string,
+  provider: ReplyDraftProvider = getReplyDraftProvider()
+): Promise<ReviewReplyDraft | null> {
+  const { data: review, error } = await supabase
+    .from('gbp_reviews')
+    .select('id, location_id, reviewer_display_name, star_rating, comment')
+    .eq('id', reviewId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load review: ${error.message}`)
+  if (!review) return null
+
+  const client = await resolveReviewClient(supabase, review.location_id)
+
+  const { template, custom } = client.hubspotContactId
+    ? await getReplyTemplate(supabase, client.hubspotContactId)
+    : { template: { ...DEFAULT_REPLY_TEMPLATE, hubspot_contact_id: '' }, custom: false }
+
+  const { data: profile } = client.hubspotContactId
+    ? await supabase
+        .from('enriched_businesses')
+        .select('business_name, city, state, phone, email, categories, short_description')
+        .eq('hubspot_contact_id', client.hubspotContactId)
+        .maybeSingle()
+    : { data: null }
+
+  const input: ReplyDraftInput = {
+    review: {
+      reviewerName: review.reviewer_display_name,
+      starRating: review.star_rating,
+      comment: review.comment,
+    },
+    business: {
+      name: profile?.business_name || client.name || client.locationTitle || 'our business',
+      city: profile?.city ? [profile.city, profile.state].filter(Boolean).join(', ') : null,
+      phone: profile?.phone ?? null,
+      email: profile?.email ?? null,
+      categories: profile?.categories ?? [],
+      description: profile?.short_description ?? null,
+    },
+    template,
+  }
+
+  let draft = await provider.draftReply(input)
+  let violations = findBannedPhrases(draft, template.banned_phrases)
+
+  if (violations.length > 0) {
+    console.warn(`[Review Drafts] Draft for review ${reviewId} used banned phrases, retrying:`, violations)
+    draft = await provider.draftReply({ ...input, avoid: violations })
+    violations = findBannedPhrases(draft, template.banned_phrases)
+  }
+
+  return {
+    review_id: review.id,
+    draft: draft.slice(0, MAX_REPLY_LENGTH),
+    provider: provider.name,
+    violations,
+    custom_template: custom,
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Review Reply Providers
+ *
+ * The model that writes reply drafts sits behind ReplyDraftProvider so it
+ * can be swapped without touching the drafting service. The stub provider
+ * is deterministic (same input, same draft) and needs no credentials, for
+ * local work and tests.
+ *
+ * REVIEW_REPLY_PROVIDER picks the provider ('anthropic' or 'stub'); by
+ * default Anthropic is used when ANTHROPIC_API_KEY is set, else the stub.
+ */
+
+import type { ReviewReplyTemplate } from '@/app/types/reviews'
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages'
+const ANTHROPIC_VERSION = '2023-06-01'
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-haiku-latest'
+const REQUEST_TIMEOUT_MS = 30_000
+
+export interface ReplyDraftInput {
+  review: {
+    reviewerName: string | null
+    starRating: number | null
+    comment: string | null
+  }
+  business: {
+    name: string
+    city: string | null
+    phone: string | null
+    email: string | null
+    categories: string[]
+    description: string | null
+  }
+  template: ReviewReplyTemplate
+  /** Banned phrases the previous attempt used */
+  avoid?: string[]
+}
+
+export interface ReplyDraftProvider {
+  readonly name: string
+  draftReply(input: ReplyDraftInput): Promise<string>
+}
+
+/** The provider could not produce a draft */
+export class ReplyDraftError extends Error {
+  readonly provider: string
+
+  constructor(provider: string, message: string) {
+    super(message)
+    this.name = 'ReplyDraftError'
+    this.provider = provider
+  }
+}
+
+function firstName(name: string | null): string | null {
+  const first = name?.trim().split(/\s+/)[0]
+  return first && first.toLowerCase() !== 'anonymous' ? first : null
+}
+
+/**
+ * System and user prompts for model providers
+ */
+export function buildReplyPrompt(input: ReplyDraftInput): { system: string; user: string } {
+  const { review, business, template, avoid } = input
+
+  const system = [
+    `You write replies to Google reviews on behalf of ${business.name}, a local business.`,
+    `Tone: ${template.tone}.`,
+    template.voice_notes ? `Brand voice: ${template.voice_notes}` : null,
+    `Keep the reply under ${template.max_length} characters, in plain text with no markdown, hashtags or emojis.`,
+    'Thank the reviewer, respond to what they actually said, and never invent facts, offers or promises.',
+    'For reviews of 3 stars or fewer, apologise without being defensive and invite them to get in touch directly.',
+    template.sign_off ? `End with exactly this sign-off on its own line: ${template.sign_off}` : null,
+    template.banned_phrases.length
+      ? `Never use these phrases: ${template.banned_phrases.map((p) => `"${p}"`).join(', ')}.`
+      : null,
+    avoid?.length ? `Your last draft used ${avoid.map((p) => `"${p}"`).join(', ')} - rewrite without them.` : null,
+    'Reply with the text of the reply only.',
+  ].filter(Boolean).join('\n')
+
+  const user = [
+    'Business:',
+    `- Name: ${business.name}`,
+    business.city ? `- City: ${business.city}` : null,
+    business.categories.length ? `- Categories: ${business.categories.join(', ')}` : null,
+    business.description ? `- About: ${business.description}` : null,
+    business.phone ? `- Phone: ${business.phone}` : null,
+    business.email ? `- Email: ${business.email}` : null,
+    '',
+    'Review:',
+    `- Reviewer: ${review.reviewerName || 'Anonymous'}`,
+    `- Rating: ${review.starRating ?? 'unknown'} / 5`,
+    `- Text: ${review.comment?.trim() || '(no written review, rating only)'}`,
+  ].filter((line) => line !== null).join('\n')
+
+  return { system, user }
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicReplyProvider implements ReplyDraftProvider {
+  readonly name = 'anthropic'
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly model: string = DEFAULT_ANTHROPIC_MODEL
+  ) {}
+
+  async draftReply(input: ReplyDraftInput): Promise<string> {
+    const { system, user } = buildReplyPrompt(input)
+
+    let response: Response
+    try {
+      response = await fetch(ANTHROPIC_API_URL, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: 1024,
+          system,
+          messages: [{ role: 'user', content: user }],
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      })
+    } catch (err) {
+      throw new ReplyDraftError(this.name, `Request failed: ${err instanceof Error ? err.message : err}`)
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '')
+      throw new ReplyDraftError(this.name, `API error (${response.status}): ${body.slice(0, 300)}`)
+    }
+
+    const data = await response.json() as { content?: Array<{ type: string; text?: string }> }
+    const text = (data.content || [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text || '')
+      .join('')
+      .trim()
+
+    if (!text) throw new ReplyDraftError(this.name, 'Empty draft returned')
+    return text
+  }
+}
+
+/**
+ * Deterministic template replies, no network
+ */
+export class StubReplyProvider implements ReplyDraftProvider {
+  readonly name = 'stub'
+
+  async draftReply(input: ReplyDraftInput): Promise<string> {
+    const { review, business, template } = input
+    const name = firstName(review.reviewerName)
+    const rating = review.starRating ?? 0
+    const greeting = name ? `${name}, ` : ''
+    const contact = business.phone || business.email
+
+    const sentences =
+      rating >= 4
+        ? [
+            `${name ? `Thank you, ${name}!` : 'Thank you!'} We really appreciate you taking the time to review ${business.name}.`,
+            review.comment ? 'It means a lot to hear you had a great experience.' : 'We are glad you had a great experience.',
+            'We look forward to seeing you again soon.',
+          ]
+        : rating === 3
+          ? [
+              `${greeting}thank you for your feedback about ${business.name}.`,
+              'We are always looking for ways to improve, and your comments help.',
+              contact ? `If there is anything we could have done better, please reach us at ${contact}.` : 'If there is anything we could have done better, please let us know.',
+            ]
+          : [
+              `${greeting}we are sorry your experience with ${business.name} did not meet expectations.`,
+              'We take feedback like yours seriously.',
+              contact ? `Please contact us at ${contact} so we can make this right.` : 'Please get in touch with us directly so we can make this right.',
+            ]
+
+    const banned = template.banned_phrases.map((p) => p.toLowerCase())
+    const body = sentences
+      .map((s) => s.charAt(0).toUpperCase() + s.slice(1))
+      .filter((s) => !banned.some((phrase) => s.toLowerCase().includes(phrase)))
+      .join(' ')
+
+    return template.sign_off ? `${body}\n\n${template.sign_off}` : body
+  }
+}
+
+/**
+ * Provider from REVIEW_REPLY_PROVIDER / ANTHROPIC_API_KEY
+ */
+export function getReplyDraftProvider(): ReplyDraftProvider {
+  const configured = process.env.REVIEW_REPLY_PROVIDER
+  const apiKey = process.env.ANTHROPIC_API_KEY
+
+  if (configured === 'stub') return new StubReplyProvider()
+
+  if (configured === 'anthropic' || (!configured && apiKey)) {
+    if (!apiKey) throw new ReplyDraftError('anthropic', 'ANTHROPIC_API_KEY is not set')
+    return new AnthropicReplyProvider(apiKey, process.env.REVIEW_REPLY_MODEL || undefined)
+  }
+
+  if (configured) throw new ReplyDraftError(configured, `Unknown REVIEW_REPLY_PROVIDER "${configured}"`)
+  return new StubReplyProvider()
+}
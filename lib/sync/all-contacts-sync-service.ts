@@ -6,6 +6,15 @@
  * 2. Merge: Start with existing data, overlay HubSpot values (only where HubSpot has data)
  * 3. UPSERT the complete merged object
  *
+ * PROPERTIES: which HubSpot properties are pulled, where they are stored and
+ * which side wins on conflict come from hubspot_property_mappings - see
+ * property-mappings.ts
+ *
+ * DELETIONS AND MERGES: contacts in HubSpot's archived listing are
+ * tombstoned (full syncs only), and contacts merged away
+ * (hs_merged_object_ids) have their rows re-pointed to the winner - see
+ * contact-tombstones.ts
+ *
  * SAFETY:
  * - Never destroys existing Supabase data when HubSpot fields are blank
  * - Supabase-only fields are always preserved (business_type, hubspot_company_id, etc.)
@@ -22,6 +31,28 @@ import {
   sleep,
   formatDuration,
 } from './utils'
+import {
+  applyContactMerges,
+  fetchArchivedContacts,
+  mergeFromProperties,
+  tombstoneContacts,
+  type ContactMerge,
+  type RemapSource,
+} from './contact-tombstones'
+import {
+  loadPropertyLabels,
+  refreshAndLoadPropertyLabels,
+  resolvePropertyLabel,
+  type PropertyLabels,
+} from './property-labels'
+import {
+  applyPropertyMappings,
+  coercePropertyValue,
+  isBlank,
+  loadPropertyMappings,
+  mappedProperties,
+  type PropertyMapping,
+} from './property-mappings'
 
 // Configuration
 const HUBSPOT_BATCH_SIZE = 100
@@ -29,95 +60,33 @@ const SUPABASE_BATCH_SIZE = 50 // Smaller batches for UPSERT
 const REQUEST_DELAY_MS = 150
 
 /**
- * HubSpot Lifecycle Stage Labels
- *
- * Maps internal HubSpot values (including numeric IDs for custom stages)
- * to human-readable labels. Standard stages use string identifiers,
- * while custom stages created in HubSpot get numeric IDs.
+ * Get human-readable label for a lifecycle stage value
  *
- * Updated dynamically by querying: GET /crm/v3/properties/contacts/lifecyclestage
- * See: scripts/get-lifecycle-stages.ts
+ * Labels come from the HubSpot property options cache (property-labels.ts),
+ * so custom stages (numeric IDs) resolve without a hardcoded map.
+ * Returns the original value if no option matches (fallback for unknown stages)
  */
-const LIFECYCLE_STAGE_LABELS: Record<string, string> = {
-  // Custom stages (numeric IDs)
-  '944991848': 'HOT',
-  '999377175': 'Active',
-  '958707767': 'No Show',
-  '946862144': 'DNC',
-  '81722417': 'Zing Employee',
-  '1000822942': 'Reengage',
-  '1009016957': 'VC',
-  // Standard HubSpot stages
-  'customer': 'Customer',
-  'lead': 'Lead',
-  'salesqualifiedlead': 'Sales Qualified Lead',
-  'opportunity': 'Opportunity',
-  'other': 'Other',
-  'subscriber': 'Subscriber',
-  'marketingqualifiedlead': 'Marketing Qualified Lead',
-  'evangelist': 'Evangelist',
+export function getLifecycleLabel(stageValue: string | null, labels: PropertyLabels): string {
+  if (!stageValue) return '(none)'
+  return resolvePropertyLabel(labels, 'lifecyclestage', stageValue) || stageValue
 }
 
 /**
- * Get human-readable label for a lifecycle stage value
- * Returns the original value if no mapping exists (fallback for unknown stages)
+ * Properties the sync reads itself, whatever the mappings say
+ *
+ * Everything stored on contacts comes from hubspot_property_mappings
+ * (property-mappings.ts). These are only used for the merge audit and the
+ * incremental log lines.
  */
-export function getLifecycleLabel(stageValue: string | null): string {
-  if (!stageValue) return '(none)'
-  return LIFECYCLE_STAGE_LABELS[stageValue] || stageValue
-}
-
-// Contact properties to fetch from HubSpot
-// Optimized list based on fill rate analysis (see scripts/test-property-fill-rates.ts)
-// Total: 29 properties (original 18 + 11 valuable additions)
-const CONTACT_PROPERTIES = [
-  // === ORIGINAL 18 PROPERTIES (MUST KEEP) ===
-  // Core Identity (100% fill except mobilephone: 5%)
+const SYNC_REQUIRED_PROPERTIES = [
+  // Merge audit: contact IDs merged into this one (semicolon-separated)
+  'hs_merged_object_ids',
   'firstname',
   'lastname',
   'email',
-  'phone',
-  'mobilephone',
   'company',
-  'website', // 74% fill
-
-  // Location/Address (5-79% fill)
-  'address',
-  'city',
-  'state',
-  'zip',
-  'country',
-
-  // HubSpot Standard (77-100% fill)
   'lifecyclestage',
-  'hs_lead_status',
-  'hs_object_id',
-  'num_notes',
-  'createdate',
   'lastmodifieddate',
-
-  // === NEW VALUABLE PROPERTIES (>0% fill) ===
-  // High fill (100%)
-  'hs_email_domain',
-  'hs_analytics_source',
-  'hs_analytics_num_page_views',
-  'hs_analytics_num_visits',
-
-  // Medium fill (9-24%)
-  'industry', // 24%
-  'notes_last_updated', // 16%
-  'jobtitle', // 15%
-  'notes_last_contacted', // 9%
-
-  // Low fill but useful for analytics (1-4%)
-  'hs_analytics_first_visit_timestamp',
-  'hs_analytics_last_visit_timestamp',
-  'associatedcompanyid',
-
-  // NOTE: Removed 0% fill properties (Zing-specific custom that don't exist in HubSpot):
-  // - current_website, business_hours, business_category_type
-  // - published_status, publishing_fee_paid, annualrevenue
-  // These can be re-added if they're created in HubSpot later
 ]
 
 // Sync mode type
@@ -179,6 +148,10 @@ interface ExistingContactRecord {
   completeness_score: number | null
   // HubSpot lifecycle
   lifecyclestage: string | null // NOT lifecycle_stage
+  hubspot_owner_id?: string | null
+  // Tombstones (deleted or merged away in HubSpot)
+  hubspot_archived_at?: string | null
+  merged_into_contact_id?: string | null
   // HubSpot timestamps
   createdate: string | null
   lastmodifieddate: string | null
@@ -201,6 +174,7 @@ interface SyncStats {
  */
 export interface FieldChange {
   field: string
+  /** Values as stored in Supabase - enumeration values are already labels */
   oldValue: string | null
   newValue: string | null
 }
@@ -237,6 +211,10 @@ export interface AllContactsSyncResult {
   syncedContacts?: SyncedContactInfo[]
   /** The timestamp used as the sync cutoff (start of day UTC) */
   syncSinceTimestamp?: string
+  /** Contacts newly tombstoned because HubSpot archived them */
+  tombstoned?: number
+  /** Merged-away contacts whose rows were re-pointed to the winner */
+  merged?: number
 }
 
 /**
@@ -276,6 +254,11 @@ export async function syncAllContacts(
   const syncedContactsInfo: SyncedContactInfo[] = []
   let syncSinceTimestamp: string | undefined
 
+  // Merge audits seen on synced contacts, applied after the fetch loop
+  const merges: ContactMerge[] = []
+  let tombstoned = 0
+  let merged = 0
+
   try {
     // Create Supabase client
     const supabase = createClient(supabaseUrl, supabaseKey)
@@ -283,6 +266,11 @@ export async function syncAllContacts(
     // Authenticate
     const userId = await authenticateSupabase(supabase, userEmail, userPassword)
 
+    // Pull option labels first so new or renamed stages resolve on this run
+    const labels = await refreshAndLoadPropertyLabels(supabase, hubspotAccessToken)
+    const mappings = await loadPropertyMappings(supabase, 'all_contacts')
+    const properties = mappedProperties(mappings, SYNC_REQUIRED_PROPERTIES)
+
     // For 'sync' mode, fetch all existing contacts (full records)
     // For 'insert' mode, just fetch IDs to know what to skip
     console.log(`[All Contacts Sync] Mode: ${mode}`)
@@ -331,10 +319,10 @@ export async function syncAllContacts(
 
       if (effectiveMode === 'incremental' && incrementalSinceTimestamp) {
         // Use HubSpot Search API with lastmodifieddate filter
-        response = await searchModifiedContacts(hubspotAccessToken, incrementalSinceTimestamp, after)
+        response = await searchModifiedContacts(hubspotAccessToken, properties, incrementalSinceTimestamp, after)
       } else {
         // Use standard list API (no filter)
-        response = await fetchContactsPage(hubspotAccessToken, after)
+        response = await fetchContactsPage(hubspotAccessToken, properties, after)
       }
 
       const contacts = response.results
@@ -351,7 +339,7 @@ export async function syncAllContacts(
         stats.skipped += contacts.length - newContacts.length
 
         if (newContacts.length > 0) {
-          const records = newContacts.map(c => buildMergedRecord(c, null, userId))
+          const records = newContacts.map(c => buildMergedRecord(c, null, userId, mappings, labels))
           const { success, failed } = await upsertContacts(supabase, records)
           stats.upserted += success
           stats.failed += failed
@@ -378,11 +366,16 @@ export async function syncAllContacts(
           console.log(`[All Contacts Sync] Skipped ${duplicatesInThisBatch} duplicate contact(s) already processed`)
         }
 
+        for (const c of uniqueContacts) {
+          const merge = mergeFromProperties(c.id, c.properties)
+          if (merge) merges.push(merge)
+        }
+
         // Only process unique contacts
         if (uniqueContacts.length > 0) {
           const records = uniqueContacts.map(hubspotContact => {
             const existing = existingContacts.get(hubspotContact.id) || null
-            return buildMergedRecord(hubspotContact, existing, userId)
+            return buildMergedRecord(hubspotContact, existing, userId, mappings, labels)
           })
 
           // === DETAILED LOGGING FOR INCREMENTAL MODE ===
@@ -404,10 +397,10 @@ export async function syncAllContacts(
                 : 'N/A'
 
               // Detect field-level changes (only for existing contacts)
-              const changedFields = detectFieldChanges(props, existing)
+              const changedFields = detectFieldChanges(props, existing, mappings, labels)
 
               // Translate lifecycle stage to human-readable label
-              const lifecycleLabel = getLifecycleLabel(props.lifecyclestage || null)
+              const lifecycleLabel = getLifecycleLabel(props.lifecyclestage || null, labels)
 
               // Track contact info for result
               syncedContactsInfo.push({
@@ -439,17 +432,9 @@ export async function syncAllContacts(
               if (changedFields.length > 0) {
                 console.log(`        📝 ${changedFields.length} field(s) changed:`)
                 changedFields.forEach(change => {
-                  // Special handling for lifecyclestage - show human-readable label with raw ID
-                  let oldDisplay = change.oldValue || '(empty)'
-                  let newDisplay = change.newValue || '(empty)'
-                  if (change.field === 'lifecyclestage') {
-                    if (oldDisplay !== '(empty)') {
-                      oldDisplay = `${getLifecycleLabel(change.oldValue)} [${oldDisplay}]`
-                    }
-                    if (newDisplay !== '(empty)') {
-                      newDisplay = `${getLifecycleLabel(change.newValue)} [${newDisplay}]`
-                    }
-                  }
+                  // Values are already labels (lifecyclestage etc. resolved in detectFieldChanges)
+                  const oldDisplay = change.oldValue || '(empty)'
+                  const newDisplay = change.newValue || '(empty)'
                   // Truncate long values for display
                   const truncatedOld = oldDisplay.length > 50 ? oldDisplay.substring(0, 47) + '...' : oldDisplay
                   const truncatedNew = newDisplay.length > 50 ? newDisplay.substring(0, 47) + '...' : newDisplay
@@ -485,6 +470,22 @@ export async function syncAllContacts(
       await sleep(REQUEST_DELAY_MS)
     }
 
+    // === DELETIONS AND MERGES ===
+    // Insert mode never touches existing rows, so it skips both
+    if (effectiveMode !== 'insert') {
+      merged = await applyContactMerges(supabase, merges, 'sync')
+      console.log(`[All Contacts Sync] ${merged} merged contact(s) remapped`)
+    }
+
+    // The archived listing can't be filtered by date, so only full syncs page
+    // through it; between them the webhook tombstones deletions as they happen
+    if (effectiveMode === 'sync') {
+      console.log('[All Contacts Sync] Checking HubSpot archived listing for deleted contacts...')
+      const archived = await fetchArchivedContacts(hubspotAccessToken)
+      tombstoned = await tombstoneContacts(supabase, archived)
+      console.log(`[All Contacts Sync] ${archived.length} archived in HubSpot: ${tombstoned} newly tombstoned`)
+    }
+
     // Calculate duration
     const duration = formatDuration(Date.now() - startTime)
 
@@ -509,6 +510,8 @@ export async function syncAllContacts(
       duration,
       timestamp: new Date().toISOString(),
       mode: effectiveMode,
+      tombstoned,
+      merged,
     }
 
     // Include detailed contact info for incremental mode
@@ -538,6 +541,116 @@ export async function syncAllContacts(
   }
 }
 
+/**
+ * Result of syncing specific contacts by HubSpot ID
+ */
+export interface ContactsByIdSyncResult {
+  success: boolean
+  /** HubSpot IDs that were merged and upserted */
+  upserted: string[]
+  /** HubSpot IDs the batch read did not return (deleted or archived in HubSpot) */
+  missing: string[]
+  /** HubSpot IDs whose upsert batch failed */
+  failed: string[]
+  /** Merged-away contacts whose rows were re-pointed to the winner */
+  merged: number
+  duration: string
+  errorMessage?: string
+}
+
+/**
+ * Sync specific contacts by HubSpot ID - used by the HubSpot webhook
+ *
+ * Same Fetch-Merge-Upsert pattern as syncAllContacts, but reads the
+ * contacts with the HubSpot batch read API instead of listing or searching,
+ * and only loads the matching Supabase records.
+ */
+export async function syncContactsByIds(
+  hubspotAccessToken: string,
+  supabaseUrl: string,
+  supabaseKey: string,
+  userEmail: string,
+  userPassword: string,
+  contactIds: string[],
+  source: RemapSource = 'webhook'
+): Promise<ContactsByIdSyncResult> {
+  const startTime = Date.now()
+  const ids = Array.from(new Set(contactIds))
+  const result: ContactsByIdSyncResult = {
+    success: true,
+    upserted: [],
+    missing: [],
+    failed: [],
+    merged: 0,
+    duration: '0s',
+  }
+
+  if (ids.length === 0) {
+    return result
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseKey)
+    const userId = await authenticateSupabase(supabase, userEmail, userPassword)
+    // Cached labels only - options new to HubSpot are stored raw and
+    // relabeled by the next refresh
+    const labels = await loadPropertyLabels(supabase)
+    const mappings = await loadPropertyMappings(supabase, 'all_contacts')
+    const properties = mappedProperties(mappings, SYNC_REQUIRED_PROPERTIES)
+    const merges: ContactMerge[] = []
+
+    for (let i = 0; i < ids.length; i += HUBSPOT_BATCH_SIZE) {
+      const chunk = ids.slice(i, i + HUBSPOT_BATCH_SIZE)
+      const [contacts, existingContacts] = await Promise.all([
+        fetchContactsByIds(hubspotAccessToken, properties, chunk),
+        fetchExistingContactsByIds(supabase, userId, chunk),
+      ])
+
+      const returned = new Set(contacts.map(c => c.id))
+      result.missing.push(...chunk.filter(id => !returned.has(id)))
+
+      for (const c of contacts) {
+        const merge = mergeFromProperties(c.id, c.properties)
+        if (merge) merges.push(merge)
+      }
+
+      const records = contacts.map(c => buildMergedRecord(c, existingContacts.get(c.id) || null, userId, mappings, labels))
+
+      // One upsert per Supabase batch so a failure can be traced to its IDs
+      for (let j = 0; j < records.length; j += SUPABASE_BATCH_SIZE) {
+        const batch = records.slice(j, j + SUPABASE_BATCH_SIZE)
+        const batchIds = batch.map(r => r.hubspot_contact_id as string)
+        const { failed } = await upsertContacts(supabase, batch)
+        if (failed > 0) {
+          result.failed.push(...batchIds)
+        } else {
+          result.upserted.push(...batchIds)
+        }
+      }
+    }
+
+    result.merged = await applyContactMerges(supabase, merges, source)
+    result.success = result.failed.length === 0
+    result.duration = formatDuration(Date.now() - startTime)
+
+    console.log(
+      `[All Contacts Sync] By ID: ${result.upserted.length} upserted, ` +
+      `${result.missing.length} missing, ${result.failed.length} failed, ${result.merged} merged in ${result.duration}`
+    )
+
+    return result
+  } catch (error: any) {
+    console.error('[All Contacts Sync] By ID error:', error.message)
+
+    return {
+      ...result,
+      success: false,
+      duration: formatDuration(Date.now() - startTime),
+      errorMessage: error.message || 'Unknown error occurred',
+    }
+  }
+}
+
 /**
  * Fetch existing contacts from Supabase
  *
@@ -595,6 +708,29 @@ async function fetchExistingContacts(
   return contactsByHubspotId
 }
 
+/**
+ * Fetch the existing Supabase records for specific HubSpot IDs
+ *
+ * @returns Map keyed by hubspot_contact_id (only IDs that exist in Supabase)
+ */
+async function fetchExistingContactsByIds(
+  supabase: SupabaseClient,
+  userId: string,
+  hubspotIds: string[]
+): Promise<Map<string, ExistingContactRecord>> {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('*')
+    .eq('user_id', userId)
+    .in('hubspot_contact_id', hubspotIds)
+
+  if (error) {
+    throw new Error(`Failed to fetch existing contacts: ${error.message}`)
+  }
+
+  return new Map((data || []).map((row: ExistingContactRecord) => [row.hubspot_contact_id, row]))
+}
+
 /**
  * BUILD MERGED RECORD - The heart of the Fetch-Merge-Upsert pattern
  *
@@ -624,7 +760,9 @@ async function fetchExistingContacts(
 function buildMergedRecord(
   hubspotContact: HubSpotContact,
   existing: ExistingContactRecord | null,
-  userId: string
+  userId: string,
+  mappings: PropertyMapping[],
+  labels: PropertyLabels
 ): Record<string, any> {
   const props = hubspotContact.properties
 
@@ -651,36 +789,17 @@ function buildMergedRecord(
   merged.user_id = userId
   merged.synced_at = new Date().toISOString() // Correct column name (not last_synced_at)
 
-  // CONDITIONAL FIELD UPDATES - Only overlay if HubSpot has actual value
-  // If HubSpot is null/blank, existing Supabase value is preserved
-  // Using ACTUAL column names (HubSpot naming convention - no underscores)
+  // HubSpot returned the contact, so it is live: clear any tombstone
+  // (restored after a deletion). Merged-away contacts are never returned.
+  merged.hubspot_archived_at = null
+  merged.merged_into_contact_id = null
 
-  // Core identity fields
-  if (props.hs_object_id) merged.hs_object_id = props.hs_object_id
-  if (props.email) merged.email = props.email
-  if (props.firstname) merged.firstname = props.firstname // NOT first_name
-  if (props.lastname) merged.lastname = props.lastname // NOT last_name
-  if (props.phone) merged.phone = props.phone
-  if (props.mobilephone) merged.mobilephone = props.mobilephone
-  if (props.company) merged.company = props.company
-
-  // Address fields
-  if (props.address) merged.address = props.address
-  if (props.city) merged.city = props.city
-  if (props.state) merged.state = props.state
-  if (props.zip) merged.zip = props.zip
-  if (props.country) merged.country = props.country
-
-  // Website fields
-  if (props.website) merged.website = props.website
-
-  // HubSpot lifecycle & timestamps
-  // IMPORTANT: Translate lifecycle stage to human-readable label BEFORE saving
-  // This stores "Customer", "HOT", "DNC", etc. instead of raw HubSpot IDs like "946862144"
-  // Makes Supabase data immediately queryable without translation at display time
-  if (props.lifecyclestage) merged.lifecyclestage = getLifecycleLabel(props.lifecyclestage)
-  if (props.createdate) merged.createdate = props.createdate
-  if (props.lastmodifieddate) merged.lastmodifieddate = props.lastmodifieddate
+  // MAPPED FIELD UPDATES - hubspot_property_mappings decides which properties
+  // land in which columns. A blank HubSpot value never overwrites Supabase data,
+  // and 'supabase'-wins mappings only fill blanks
+  // IMPORTANT: lifecyclestage is mapped with 'label' coercion, so "Customer",
+  // "HOT", "DNC" are stored instead of raw HubSpot IDs like "946862144"
+  applyPropertyMappings(merged, props, mappings, labels)
 
   // For NEW contacts only, set null defaults for required fields
   if (!existing) {
@@ -702,19 +821,25 @@ function buildMergedRecord(
  * DETECT FIELD CHANGES - Compare HubSpot data with existing Supabase record
  *
  * Returns an array of FieldChange objects showing what changed.
- * Only compares fields that HubSpot provides (from CONTACT_PROPERTIES).
+ * Only compares plain-column mappings (JSONB keys are not reported), using
+ * the coerced value buildMergedRecord would store - so enumeration values
+ * are compared as labels (otherwise every custom stage reads as a change).
  *
- * Note: Excludes timestamp fields (createdate, lastmodifieddate) since:
+ * Note: Excludes timestamp mappings (createdate, lastmodifieddate) since:
  * - lastmodifieddate is always different for modified contacts (that's how we know they changed)
  * - Both use different string formats (+00:00 vs Z) that are semantically equivalent
  *
  * @param hubspotProps - Properties from HubSpot contact
  * @param existing - Existing record from Supabase (or null for new contacts)
+ * @param mappings - The all_contacts property mappings
+ * @param labels - Cached HubSpot option labels
  * @returns Array of field changes (empty for new contacts or no changes)
  */
 function detectFieldChanges(
   hubspotProps: Record<string, string | null>,
-  existing: ExistingContactRecord | null
+  existing: ExistingContactRecord | null,
+  mappings: PropertyMapping[],
+  labels: PropertyLabels
 ): FieldChange[] {
   // For new contacts, no changes to detect
   if (!existing) {
@@ -722,44 +847,27 @@ function detectFieldChanges(
   }
 
   const changes: FieldChange[] = []
+  const existingValues = existing as unknown as Record<string, unknown>
 
-  // Map of HubSpot property names to Supabase column names
-  // Most are identical, but this handles any differences
-  // NOTE: Excluded timestamp fields (createdate, lastmodifieddate) - they have format differences
-  // that cause false positives (+00:00 vs Z) and lastmodifieddate always changes anyway
-  const fieldMappings: Record<string, keyof ExistingContactRecord> = {
-    hs_object_id: 'hs_object_id',
-    email: 'email',
-    firstname: 'firstname',
-    lastname: 'lastname',
-    phone: 'phone',
-    mobilephone: 'mobilephone',
-    company: 'company',
-    address: 'address',
-    city: 'city',
-    state: 'state',
-    zip: 'zip',
-    country: 'country',
-    website: 'website',
-    lifecyclestage: 'lifecyclestage',
-    // Excluded: createdate, lastmodifieddate (timestamp format differences cause false positives)
-  }
-
-  // Compare each mapped field
-  for (const [hubspotField, supabaseColumn] of Object.entries(fieldMappings)) {
-    const newValue = hubspotProps[hubspotField] ?? null
-    const oldValue = existing[supabaseColumn] ?? null
+  for (const mapping of mappings) {
+    if (mapping.json_path || mapping.coercion === 'timestamp') continue
 
-    // Normalize values for comparison (handle empty strings vs null)
-    const normalizedNew = newValue === '' ? null : newValue
-    const normalizedOld = oldValue === '' ? null : (typeof oldValue === 'string' ? oldValue : String(oldValue ?? '')) || null
+    const newValue = coercePropertyValue(hubspotProps[mapping.hubspot_property] ?? null, mapping, labels)
+    const oldValue = existingValues[mapping.target_column]
 
     // Only record a change if:
-    // 1. Values are different
-    // 2. HubSpot has a value (we don't track "removed" since HubSpot nulls don't overwrite)
-    if (normalizedNew !== normalizedOld && normalizedNew !== null) {
+    // 1. HubSpot has a value (we don't track "removed" since HubSpot nulls don't overwrite)
+    // 2. The mapping lets HubSpot overwrite the current value
+    // 3. Values are different (compared as strings: empty strings count as null)
+    if (newValue === null) continue
+    if (mapping.conflict_winner === 'supabase' && !isBlank(oldValue)) continue
+
+    const normalizedNew = String(newValue)
+    const normalizedOld = isBlank(oldValue) ? null : String(oldValue)
+
+    if (normalizedNew !== normalizedOld) {
       changes.push({
-        field: hubspotField,
+        field: mapping.hubspot_property,
         oldValue: normalizedOld,
         newValue: normalizedNew,
       })
@@ -774,12 +882,13 @@ function detectFieldChanges(
  */
 async function fetchContactsPage(
   accessToken: string,
+  properties: string[],
   after?: string
 ): Promise<ContactsResponse> {
   return retryWithBackoff(async () => {
     const url = new URL('https://api.hubapi.com/crm/v3/objects/contacts')
     url.searchParams.set('limit', String(HUBSPOT_BATCH_SIZE))
-    url.searchParams.set('properties', CONTACT_PROPERTIES.join(','))
+    url.searchParams.set('properties', properties.join(','))
     if (after) {
       url.searchParams.set('after', after)
     }
@@ -809,6 +918,48 @@ async function fetchContactsPage(
   })
 }
 
+/**
+ * Read up to 100 contacts by ID with the HubSpot batch read API
+ *
+ * Archived (deleted) contacts are not returned.
+ */
+async function fetchContactsByIds(
+  accessToken: string,
+  properties: string[],
+  ids: string[]
+): Promise<HubSpotContact[]> {
+  return retryWithBackoff(async () => {
+    const response = await fetch('https://api.hubapi.com/crm/v3/objects/contacts/batch/read', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        properties,
+        inputs: ids.map(id => ({ id })),
+      }),
+    })
+
+    // Handle rate limiting
+    if (response.status === 429) {
+      const retryAfter = response.headers.get('Retry-After')
+      const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : 5000
+      await sleep(waitTime)
+      throw new Error('Rate limited - will retry')
+    }
+
+    // 207 Multi-Status: some IDs were not found, the rest are in results
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`HubSpot Batch Read API Error ${response.status}: ${errorText}`)
+    }
+
+    const data: ContactsResponse = await response.json()
+    return data.results || []
+  })
+}
+
 /**
  * Convert a timestamp to the start of that day (midnight UTC)
  *
@@ -885,6 +1036,7 @@ async function getLastSyncTimestamp(
  */
 async function searchModifiedContacts(
   accessToken: string,
+  properties: string[],
   sinceTimestamp: number,
   after?: string
 ): Promise<ContactsResponse> {
@@ -901,7 +1053,7 @@ async function searchModifiedContacts(
           ],
         },
       ],
-      properties: CONTACT_PROPERTIES,
+      properties,
       limit: HUBSPOT_BATCH_SIZE,
       sorts: [
         {
@@ -0,0 +1,444 @@
+/**
+ * HubSpot Contact Deletions and Merges
+ *
+ * The sync only ever inserts or merges, so contacts deleted or merged in
+ * HubSpot would otherwise stay live in Supabase forever:
+ * - DELETED: contacts in HubSpot's archived listing (or a contact.deletion
+ *   webhook) are tombstoned - contacts.hubspot_archived_at is set and the
+ *   row is kept
+ * - MERGED: a winning contact lists the contacts merged into it in
+ *   hs_merged_object_ids (HubSpot's merge audit). Each loser's dependent
+ *   rows are re-pointed to the winner, the loser is tombstoned with
+ *   merged_into_contact_id, and every move is recorded in
+ *   hubspot_contact_remaps for review
+ *
+ * A contact that comes back live from HubSpot has its tombstone cleared by
+ * the next merge-upsert (see buildMergedRecord).
+ *
+ * Migration: 20261019160000_hubspot_contact_tombstones.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { retryWithBackoff, runWithConcurrency, sleep } from './utils'
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+const HUBSPOT_PAGE_SIZE = 100
+const REQUEST_DELAY_MS = 150
+
+/** Archived listing cap (50K contacts) */
+const ARCHIVED_MAX_PAGES = 500
+
+/** IDs per Supabase .in() filter */
+const ID_CHUNK_SIZE = 500
+
+/**
+ * Tables keyed by hubspot_contact_id that follow a merge
+ *
+ * unique: [] when the table holds one row per contact, the other unique
+ * columns when it holds one row per contact and key, null when any number
+ * of rows is allowed. Rows that would collide with the winner's stay on the
+ * loser and are recorded as conflicting. onboarding_jobs is left alone -
+ * jobs are short-lived and write to the contact they were queued for.
+ */
+const REMAP_TABLES: { table: string; unique: string[] | null }[] = [
+  { table: 'service_identity_map', unique: [] },
+  { table: 'enriched_businesses', unique: [] },
+  { table: 'onboarding_status', unique: ['service'] },
+  { table: 'blog_schedules', unique: [] },
+  { table: 'landing_pages', unique: ['location_key'] },
+  { table: 'blog_schedule_runs', unique: null },
+  { table: 'content_drafts', unique: null },
+  { table: 'client_reports', unique: null },
+  { table: 'nap_audits', unique: null },
+  { table: 'foursquare_match_reviews', unique: null },
+  { table: 'foursquare_drift_checks', unique: null },
+  { table: 'foursquare_proposed_edits', unique: null },
+  { table: 'onboarding_events', unique: null },
+]
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type RemapSource = 'sync' | 'webhook'
+
+export interface ArchivedContact {
+  id: string
+  archivedAt: string
+}
+
+/**
+ * A winning contact and the contacts HubSpot merged into it
+ */
+export interface ContactMerge {
+  winnerId: string
+  loserIds: string[]
+}
+
+export interface ContactRemap {
+  id: string
+  losing_contact_id: string
+  winning_contact_id: string
+  table_name: string
+  rows_moved: number
+  rows_conflicting: number
+  detail: string | null
+  source: RemapSource
+  reviewed_at: string | null
+  reviewed_by: string | null
+  created_at: string
+}
+
+interface TableRemapResult {
+  moved: number
+  conflicting: number
+  detail: string | null
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size))
+  return chunks
+}
+
+// ============================================================
+// MERGE AUDIT
+// ============================================================
+
+/**
+ * Read the merge audit off a HubSpot contact (hs_merged_object_ids is a
+ * semicolon-separated list of the contact IDs merged into it)
+ */
+export function mergeFromProperties(
+  contactId: string,
+  properties: Record<string, string | null>
+): ContactMerge | null {
+  const loserIds = (properties.hs_merged_object_ids || '')
+    .split(';')
+    .map(id => id.trim())
+    .filter(id => id && id !== contactId)
+
+  return loserIds.length > 0 ? { winnerId: contactId, loserIds } : null
+}
+
+// ============================================================
+// ARCHIVED LISTING
+// ============================================================
+
+/**
+ * List every archived (deleted) contact in HubSpot
+ */
+export async function fetchArchivedContacts(accessToken: string): Promise<ArchivedContact[]> {
+  const archived: ArchivedContact[] = []
+  let after: string | undefined
+
+  for (let page = 0; page < ARCHIVED_MAX_PAGES; page++) {
+    const data = await retryWithBackoff(async () => {
+      const url = new URL('https://api.hubapi.com/crm/v3/objects/contacts')
+      url.searchParams.set('archived', 'true')
+      url.searchParams.set('limit', String(HUBSPOT_PAGE_SIZE))
+      if (after) url.searchParams.set('after', after)
+
+      const response = await fetch(url.toString(), {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      })
+
+      // Handle rate limiting
+      if (response.status === 429) {
+        const retryAfter = response.headers.get('Retry-After')
+        await sleep(retryAfter ? parseInt(retryAfter) * 1000 : 5000)
+        throw new Error('Rate limited - will retry')
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        throw new Error(`HubSpot Archived API Error ${response.status}: ${errorText}`)
+      }
+
+      return await response.json()
+    })
+
+    for (const contact of data.results || []) {
+      archived.push({ id: contact.id, archivedAt: contact.archivedAt || contact.updatedAt })
+    }
+
+    after = data.paging?.next?.after
+    if (!after) break
+    await sleep(REQUEST_DELAY_MS)
+  }
+
+  return archived
+}
+
+// ============================================================
+// TOMBSTONES
+// ============================================================
+
+/**
+ * Tombstone contacts HubSpot has deleted; already tombstoned rows are left as they are
+ *
+ * @returns Number of contacts newly tombstoned
+ */
+export async function tombstoneContacts(
+  supabase: SupabaseClient,
+  archived: ArchivedContact[]
+): Promise<number> {
+  const archivedAt = new Map(archived.map(a => [a.id, a.archivedAt]))
+  const live: string[] = []
+
+  for (const ids of chunk(Array.from(archivedAt.keys()), ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('hubspot_contact_id')
+      .in('hubspot_contact_id', ids)
+      .is('hubspot_archived_at', null)
+
+    if (error) throw new Error(`Failed to fetch contacts to tombstone: ${error.message}`)
+    live.push(...(data || []).map(row => row.hubspot_contact_id as string))
+  }
+
+  let tombstoned = 0
+  await runWithConcurrency(Array.from(new Set(live)), 4, async (id) => {
+    const { error } = await supabase
+      .from('contacts')
+      .update({ hubspot_archived_at: archivedAt.get(id) })
+      .eq('hubspot_contact_id', id)
+      .is('hubspot_archived_at', null)
+
+    if (error) {
+      console.error(`[Contact Tombstones] Failed to tombstone ${id}:`, error.message)
+    } else {
+      tombstoned++
+    }
+  })
+
+  if (tombstoned > 0) {
+    console.log(`[Contact Tombstones] Tombstoned ${tombstoned} contact(s) deleted in HubSpot`)
+  }
+
+  return tombstoned
+}
+
+// ============================================================
+// MERGES
+// ============================================================
+
+async function countRows(supabase: SupabaseClient, table: string, contactId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from(table)
+    .select('*', { count: 'exact', head: true })
+    .eq('hubspot_contact_id', contactId)
+
+  if (error) throw new Error(`Failed to count ${table} rows: ${error.message}`)
+  return count ?? 0
+}
+
+/**
+ * Move one table's rows from the loser to the winner
+ */
+async function remapTable(
+  supabase: SupabaseClient,
+  spec: { table: string; unique: string[] | null },
+  loserId: string,
+  winnerId: string
+): Promise<TableRemapResult> {
+  const { table, unique } = spec
+
+  if (unique === null || unique.length === 0) {
+    if (unique && (await countRows(supabase, table, winnerId)) > 0) {
+      const conflicting = await countRows(supabase, table, loserId)
+      return { moved: 0, conflicting, detail: conflicting ? 'Winning contact already has a row' : null }
+    }
+
+    const { data, error } = await supabase
+      .from(table)
+      .update({ hubspot_contact_id: winnerId })
+      .eq('hubspot_contact_id', loserId)
+      .select('hubspot_contact_id')
+
+    if (error) {
+      // e.g. a partial unique index (one pending match review per contact)
+      return { moved: 0, conflicting: await countRows(supabase, table, loserId), detail: error.message }
+    }
+    return { moved: data?.length ?? 0, conflicting: 0, detail: null }
+  }
+
+  const columns = ['id', ...unique].join(', ')
+  const [loserRows, winnerRows] = await Promise.all([
+    supabase.from(table).select(columns).eq('hubspot_contact_id', loserId),
+    supabase.from(table).select(columns).eq('hubspot_contact_id', winnerId),
+  ])
+  if (loserRows.error) throw new Error(`Failed to fetch ${table} rows: ${loserRows.error.message}`)
+  if (winnerRows.error) throw new Error(`Failed to fetch ${table} rows: ${winnerRows.error.message}`)
+
+  const keyOf = (row: Record<string, unknown>) => unique.map(col => String(row[col])).join('|')
+  const taken = new Set((winnerRows.data as unknown as Record<string, unknown>[]).map(keyOf))
+  const rows = loserRows.data as unknown as Record<string, unknown>[]
+  const movable = rows.filter(row => !taken.has(keyOf(row)))
+  const conflicts = rows.filter(row => taken.has(keyOf(row)))
+
+  if (movable.length > 0) {
+    const { error } = await supabase
+      .from(table)
+      .update({ hubspot_contact_id: winnerId })
+      .in('id', movable.map(row => row.id))
+
+    if (error) return { moved: 0, conflicting: rows.length, detail: error.message }
+  }
+
+  return {
+    moved: movable.length,
+    conflicting: conflicts.length,
+    detail: conflicts.length
+      ? `Winning contact already has ${unique.join('/')} ${conflicts.map(keyOf).join(', ')}`
+      : null,
+  }
+}
+
+async function recordRemap(
+  supabase: SupabaseClient,
+  remap: Omit<ContactRemap, 'id' | 'reviewed_at' | 'reviewed_by' | 'created_at'>
+): Promise<void> {
+  const { error } = await supabase.from('hubspot_contact_remaps').insert(remap)
+  if (error) {
+    throw new Error(`Failed to record ${remap.table_name} remap for ${remap.losing_contact_id}: ${error.message}`)
+  }
+}
+
+/**
+ * Re-point a merged-away contact's rows to the winner and tombstone it
+ *
+ * Each table's remap is recorded as soon as its rows move, so a failure
+ * part way through still leaves a record of every move already made.
+ */
+async function remapContact(
+  supabase: SupabaseClient,
+  loserId: string,
+  winnerId: string,
+  source: RemapSource
+): Promise<void> {
+  for (const spec of REMAP_TABLES) {
+    const result = await remapTable(supabase, spec, loserId, winnerId)
+    if (result.moved === 0 && result.conflicting === 0) continue
+    await recordRemap(supabase, {
+      losing_contact_id: loserId,
+      winning_contact_id: winnerId,
+      table_name: spec.table,
+      rows_moved: result.moved,
+      rows_conflicting: result.conflicting,
+      detail: result.detail,
+      source,
+    })
+  }
+
+  const { data: tombstoned, error: contactError } = await supabase
+    .from('contacts')
+    .update({ hubspot_archived_at: new Date().toISOString(), merged_into_contact_id: winnerId })
+    .eq('hubspot_contact_id', loserId)
+    .select('hubspot_contact_id')
+
+  if (contactError) throw new Error(`Failed to tombstone contact ${loserId}: ${contactError.message}`)
+
+  await recordRemap(supabase, {
+    losing_contact_id: loserId,
+    winning_contact_id: winnerId,
+    table_name: 'contacts',
+    rows_moved: tombstoned?.length ?? 0,
+    rows_conflicting: 0,
+    detail: `Tombstoned, merged into ${winnerId}`,
+    source,
+  })
+}
+
+/**
+ * Apply HubSpot merges whose losing contacts are still live in Supabase
+ *
+ * @returns Number of losing contacts remapped
+ */
+export async function applyContactMerges(
+  supabase: SupabaseClient,
+  merges: ContactMerge[],
+  source: RemapSource
+): Promise<number> {
+  const winnerOf = new Map<string, string>()
+  for (const merge of merges) {
+    for (const loserId of merge.loserIds) winnerOf.set(loserId, merge.winnerId)
+  }
+  if (winnerOf.size === 0) return 0
+
+  const pending: string[] = []
+  for (const ids of chunk(Array.from(winnerOf.keys()), ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('hubspot_contact_id')
+      .in('hubspot_contact_id', ids)
+      .is('merged_into_contact_id', null)
+
+    if (error) throw new Error(`Failed to fetch merged contacts: ${error.message}`)
+    pending.push(...(data || []).map(row => row.hubspot_contact_id as string))
+  }
+
+  let remapped = 0
+  for (const loserId of new Set(pending)) {
+    const winnerId = winnerOf.get(loserId)!
+    try {
+      await remapContact(supabase, loserId, winnerId, source)
+      remapped++
+      console.log(`[Contact Tombstones] Merged ${loserId} into ${winnerId}`)
+    } catch (error: any) {
+      console.error(`[Contact Tombstones] Failed to merge ${loserId} into ${winnerId}:`, error.message)
+    }
+  }
+
+  return remapped
+}
+
+/**
+ * List remaps, newest first
+ */
+export async function listContactRemaps(
+  supabase: SupabaseClient,
+  options: { unreviewedOnly?: boolean; contactId?: string; limit?: number } = {}
+): Promise<ContactRemap[]> {
+  let query = supabase
+    .from('hubspot_contact_remaps')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 100)
+
+  if (options.unreviewedOnly) query = query.is('reviewed_at', null)
+  if (options.contactId) {
+    query = query.or(`losing_contact_id.eq.${options.contactId},winning_contact_id.eq.${options.contactId}`)
+  }
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to fetch contact remaps: ${error.message}`)
+  return (data || []) as ContactRemap[]
+}
+
+/**
+ * Mark remaps as reviewed
+ *
+ * @returns Number of remaps updated
+ */
+export async function markRemapsReviewed(
+  supabase: SupabaseClient,
+  ids: string[],
+  reviewedBy: string | null
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('hubspot_contact_remaps')
+    .update({ reviewed_at: new Date().toISOString(), reviewed_by: reviewedBy })
+    .in('id', ids)
+    .is('reviewed_at', null)
+    .select('id')
+
+  if (error) throw new Error(`Failed to mark remaps reviewed: ${error.message}`)
+  return data?.length ?? 0
+}
@@ -3,6 +3,9 @@
  *
  * Core business logic for syncing HubSpot customers to Supabase.
  * Used by both API endpoints and manual scripts.
+ *
+ * Which HubSpot properties are pulled and where they land come from the
+ * 'customer' scope of hubspot_property_mappings (property-mappings.ts).
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
@@ -13,42 +16,19 @@ import {
   sleep,
   formatDuration,
 } from './utils'
+import { loadPropertyLabels, type PropertyLabels } from './property-labels'
+import {
+  applyPropertyMappings,
+  loadPropertyMappings,
+  mappedProperties,
+  type PropertyMapping,
+} from './property-mappings'
 
 // Configuration
 const HUBSPOT_BATCH_SIZE = 100
 const SUPABASE_BATCH_SIZE = 100
 const REQUEST_DELAY_MS = 150
 
-// Contact properties to fetch from HubSpot
-const CONTACT_PROPERTIES = [
-  'firstname',
-  'lastname',
-  'email',
-  'phone',
-  'mobilephone',
-  'company',
-  'business_type',
-  'business_category_type',
-  'business_hours',
-  'current_website',
-  'website',
-  'website_status',
-  'address',
-  'city',
-  'state',
-  'zip',
-  'country',
-  'active_customer',
-  'gbp_ready',
-  'published_status',
-  'publishing_fee_paid',
-  'completeness_score',
-  'lifecyclestage',
-  ...Array.from({ length: 50 }, (_, i) => `location_${i + 1}`),
-  'createdate',
-  'lastmodifieddate',
-]
-
 interface ContactsResponse {
   results: HubSpotContactType[]
   paging?: {
@@ -252,6 +232,7 @@ async function fetchDealContactAssociationsBatch(
  */
 async function fetchContactsBatch(
   accessToken: string,
+  properties: string[],
   contactIds: string[]
 ): Promise<HubSpotContactType[]> {
   const allContacts: HubSpotContactType[] = []
@@ -274,7 +255,7 @@ async function fetchContactsBatch(
           },
           body: JSON.stringify({
             inputs: batch.map(id => ({ id })),
-            properties: CONTACT_PROPERTIES,
+            properties,
           }),
         })
 
@@ -337,6 +318,10 @@ export async function syncHubSpotCustomers(
     // Authenticate
     const userId = await authenticateSupabase(supabase, userEmail, userPassword)
 
+    const mappings = await loadPropertyMappings(supabase, 'customer')
+    const properties = mappedProperties(mappings)
+    const labels = await loadPropertyLabels(supabase)
+
     // Fetch existing contact IDs for deduplication
     const existingIds = await fetchExistingContactIds(supabase, userId)
 
@@ -347,7 +332,7 @@ export async function syncHubSpotCustomers(
 
     while (pageCount < maxPages) {
       // Fetch page of customers
-      const response = await fetchCustomerContactsPage(hubspotAccessToken, after)
+      const response = await fetchCustomerContactsPage(hubspotAccessToken, properties, after)
       const contacts = response.results
 
       if (!contacts || contacts.length === 0) {
@@ -366,7 +351,7 @@ export async function syncHubSpotCustomers(
         const contactIds = newContacts.map(c => c.id)
         const companyAssociations = await fetchCompanyAssociations(hubspotAccessToken, contactIds)
 
-        const supabaseContacts = processContactsForSupabase(newContacts, userId, companyAssociations)
+        const supabaseContacts = processContactsForSupabase(newContacts, userId, mappings, labels, companyAssociations)
         const { inserted, failed } = await insertNewContacts(supabase, supabaseContacts)
 
         stats.newlyInserted += inserted
@@ -458,13 +443,13 @@ export async function syncHubSpotCustomers(
       // Step 5: Insert new contacts with deal names
       if (newContactIdsFromDeals.size > 0) {
         const contactIdArray = Array.from(newContactIdsFromDeals)
-        const dealContacts = await fetchContactsBatch(hubspotAccessToken, contactIdArray)
+        const dealContacts = await fetchContactsBatch(hubspotAccessToken, properties, contactIdArray)
 
         for (let i = 0; i < dealContacts.length; i += HUBSPOT_BATCH_SIZE) {
           const batch = dealContacts.slice(i, i + HUBSPOT_BATCH_SIZE)
           const batchIds = batch.map(c => c.id)
           const companyAssociations = await fetchCompanyAssociations(hubspotAccessToken, batchIds)
-          const supabaseContacts = processContactsForSupabase(batch, userId, companyAssociations)
+          const supabaseContacts = processContactsForSupabase(batch, userId, mappings, labels, companyAssociations)
 
           // Attach deal names to new contacts
           for (const sc of supabaseContacts) {
@@ -586,6 +571,7 @@ async function fetchExistingContactIds(
  */
 async function fetchCustomerContactsPage(
   accessToken: string,
+  properties: string[],
   after?: string
 ): Promise<ContactsResponse> {
   return retryWithBackoff(async () => {
@@ -593,7 +579,7 @@ async function fetchCustomerContactsPage(
 
     const payload: any = {
       limit: HUBSPOT_BATCH_SIZE,
-      properties: CONTACT_PROPERTIES,
+      properties,
       filterGroups: [
         {
           filters: [
@@ -642,68 +628,34 @@ async function fetchCustomerContactsPage(
  * Process contacts for Supabase format
  * Uses contact ID (hs_object_id) as the universal identifier
  * Now includes hubspot_company_id from associations (Universal HubSpot ID Strategy)
+ * Mapped properties (including location_N -> locations) come from the customer mappings
  */
 function processContactsForSupabase(
   contacts: HubSpotContactType[],
   userId: string,
+  mappings: PropertyMapping[],
+  labels: PropertyLabels,
   companyAssociations?: Map<string, string>
 ): SupabaseContact[] {
   return contacts.map((contact) => {
-    const props = contact.properties
-
-    // Extract location fields
-    const locations: Record<string, string> = {}
-    for (let i = 1; i <= 50; i++) {
-      const locationKey = `location_${i}`
-      const locationValue = props[locationKey]
-      if (locationValue) {
-        locations[locationKey] = locationValue
-      }
-    }
-
-    const completenessScore = props.completeness_score
-      ? parseInt(props.completeness_score, 10)
-      : undefined
-
     // Get associated company ID (Universal HubSpot ID Strategy)
     const hubspotCompanyId = companyAssociations?.get(contact.id) || undefined
 
-    return {
+    const record: SupabaseContact = {
       id: contact.id,
       hs_object_id: contact.id,
       // ✅ CRITICAL: Use contact ID for universal linkage across all integrations
       hubspot_contact_id: contact.id,
       // ✅ Universal HubSpot ID Strategy: Link to company for cross-integration queries
       hubspot_company_id: hubspotCompanyId,
-      firstname: props.firstname || undefined,
-      lastname: props.lastname || undefined,
-      email: props.email || undefined,
-      phone: props.phone || undefined,
-      mobilephone: props.mobilephone || undefined,
-      company: props.company || undefined,
-      business_type: props.business_type || undefined,
-      business_category_type: props.business_category_type || undefined,
-      business_hours: props.business_hours || undefined,
-      current_website: props.current_website || undefined,
-      website: props.website || undefined,
-      website_status: props.website_status || undefined,
-      address: props.address || undefined,
-      city: props.city || undefined,
-      state: props.state || undefined,
-      zip: props.zip || undefined,
-      country: props.country || undefined,
-      locations: Object.keys(locations).length > 0 ? locations : undefined,
-      active_customer: props.active_customer || undefined,
-      gbp_ready: props.gbp_ready || undefined,
-      published_status: props.published_status || undefined,
-      publishing_fee_paid: props.publishing_fee_paid || undefined,
-      completeness_score: completenessScore,
-      lifecyclestage: props.lifecyclestage || undefined,
-      createdate: props.createdate || undefined,
-      lastmodifieddate: props.lastmodifieddate || undefined,
       synced_at: new Date().toISOString(),
       user_id: userId,
     }
+
+    // New contacts only, so every non-blank mapped value is written
+    applyPropertyMappings(record, contact.properties as Record<string, string | null>, mappings, labels)
+
+    return record
   })
 }
 
@@ -0,0 +1,804 @@
+/**
+ * HubSpot Deals Sync Service
+ *
+ * Syncs deal pipelines, deals, their line items and companies into their own
+ * tables, with deal <-> contact, deal <-> company and company <-> contact
+ * associations:
+ * - PIPELINES: every deal pipeline and stage, refreshed on each run. A stage
+ *   is won when HubSpot marks it closed with probability 1
+ * - DEALS / COMPANIES: the full listing (mode=sync), or only records whose
+ *   hs_lastmodifieddate is on or after the start of the day of the newest
+ *   synced record (mode=incremental)
+ * - LINE ITEMS AND ASSOCIATIONS: replaced for every deal / company synced
+ *   (upserted, then the ones HubSpot no longer returns are deleted).
+ *   Editing a line item updates its deal's hs_lastmodifieddate, so
+ *   incremental runs pick it up
+ * - DELETIONS: deals and companies in HubSpot's archived listings are
+ *   tombstoned (hubspot_archived_at), not deleted
+ *
+ * The package a contact bought comes from these tables - see
+ * lib/onboarding/packages.ts.
+ *
+ * REQUIRES: service role client (the tables are read-only to users)
+ * Migration: 20261019190000_hubspot_deals_companies.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { retryWithBackoff, sleep, formatDuration } from './utils'
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+const HUBSPOT_PAGE_SIZE = 100
+const REQUEST_DELAY_MS = 150
+
+/** Search API stops at 10,000 results (100 pages of 100) */
+const SEARCH_MAX_PAGES = 100
+
+/** Listing cap per object (100K records) */
+const LIST_MAX_PAGES = 1000
+
+/** IDs per Supabase .in() filter */
+const ID_CHUNK_SIZE = 500
+
+const DEAL_PROPERTIES = [
+  'dealname',
+  'pipeline',
+  'dealstage',
+  'amount',
+  'closedate',
+  'dealtype',
+  'duda_site_code',
+  'hubspot_owner_id',
+  'createdate',
+  'hs_lastmodifieddate',
+]
+
+const COMPANY_PROPERTIES = [
+  'name',
+  'domain',
+  'phone',
+  'address',
+  'city',
+  'state',
+  'zip',
+  'country',
+  'industry',
+  'hubspot_owner_id',
+  'createdate',
+  'hs_lastmodifieddate',
+]
+
+const LINE_ITEM_PROPERTIES = [
+  'hs_product_id',
+  'name',
+  'hs_sku',
+  'quantity',
+  'price',
+  'amount',
+  'recurringbillingfrequency',
+  'createdate',
+  'hs_lastmodifieddate',
+]
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type DealsSyncMode = 'sync' | 'incremental'
+
+type CrmObjectType = 'deals' | 'companies'
+
+interface HubSpotObject {
+  id: string
+  properties: Record<string, string | null>
+  archivedAt?: string
+  updatedAt?: string
+}
+
+interface ObjectsResponse {
+  results: HubSpotObject[]
+  paging?: {
+    next?: {
+      after: string
+    }
+  }
+}
+
+export interface DealsSyncResult {
+  success: boolean
+  mode: DealsSyncMode
+  pipelines: number
+  stages: number
+  deals: number
+  companies: number
+  lineItems: number
+  associations: number
+  tombstoned: number
+  errors: number
+  duration: string
+  timestamp: string
+  /** Watermark the incremental run searched from (ISO), when there was one */
+  syncSinceTimestamp?: string
+  errorMessage?: string
+}
+
+interface DealsSyncStats {
+  deals: number
+  companies: number
+  lineItems: number
+  associations: number
+  errors: number
+}
+
+// ============================================================
+// MAIN SYNC
+// ============================================================
+
+/**
+ * Sync HubSpot deal pipelines, deals, line items and companies
+ *
+ * @param hubspotAccessToken - HubSpot private app token (crm.objects.deals,
+ *   companies and line_items read scopes)
+ * @param supabase - Service role client
+ * @param mode - 'sync' for the full listing, 'incremental' for recent changes
+ */
+export async function syncHubSpotDeals(
+  hubspotAccessToken: string,
+  supabase: SupabaseClient,
+  mode: DealsSyncMode = 'sync'
+): Promise<DealsSyncResult> {
+  const startTime = Date.now()
+  const stats: DealsSyncStats = { deals: 0, companies: 0, lineItems: 0, associations: 0, errors: 0 }
+  let pipelines = 0
+  let stages = 0
+  let tombstoned = 0
+  let syncSince: number | null = null
+
+  try {
+    // Step 1: Pipelines and stages (small - always in full)
+    const pipelineCounts = await syncPipelines(hubspotAccessToken, supabase)
+    pipelines = pipelineCounts.pipelines
+    stages = pipelineCounts.stages
+    console.log(`[Deals Sync] ${pipelines} pipelines, ${stages} stages`)
+
+    // Step 2: Companies before deals, so deal <-> company links point at rows
+    const companySince = mode === 'incremental'
+      ? await getLastSyncTimestamp(supabase, 'hubspot_companies')
+      : null
+    await syncObjects(hubspotAccessToken, supabase, 'companies', companySince, stats)
+
+    // Step 3: Deals, their line items and associations
+    const dealSince = mode === 'incremental'
+      ? await getLastSyncTimestamp(supabase, 'hubspot_deals')
+      : null
+    await syncObjects(hubspotAccessToken, supabase, 'deals', dealSince, stats)
+
+    syncSince = dealSince
+
+    // Step 4: Tombstone deleted deals and companies
+    for (const objectType of ['deals', 'companies'] as CrmObjectType[]) {
+      try {
+        const archived = await fetchArchivedObjects(hubspotAccessToken, objectType)
+        tombstoned += await tombstoneObjects(supabase, objectType, archived)
+      } catch (error: any) {
+        stats.errors++
+        console.error(`[Deals Sync] Failed to tombstone archived ${objectType}:`, error.message)
+      }
+    }
+
+    const duration = Date.now() - startTime
+    console.log(
+      `[Deals Sync] Done in ${formatDuration(duration)}: ${stats.deals} deals, ` +
+      `${stats.companies} companies, ${stats.lineItems} line items, ${tombstoned} tombstoned, ${stats.errors} errors`
+    )
+
+    return {
+      success: stats.errors === 0,
+      mode,
+      pipelines,
+      stages,
+      ...stats,
+      tombstoned,
+      duration: formatDuration(duration),
+      timestamp: new Date().toISOString(),
+      syncSinceTimestamp: syncSince ? new Date(syncSince).toISOString() : undefined,
+      errorMessage: stats.errors > 0 ? `${stats.errors} batches failed - see logs` : undefined,
+    }
+  } catch (error: any) {
+    console.error('[Deals Sync] Fatal error:', error)
+    return {
+      success: false,
+      mode,
+      pipelines,
+      stages,
+      ...stats,
+      errors: stats.errors + 1,
+      tombstoned,
+      duration: formatDuration(Date.now() - startTime),
+      timestamp: new Date().toISOString(),
+      syncSinceTimestamp: syncSince ? new Date(syncSince).toISOString() : undefined,
+      errorMessage: error.message || 'Unknown error',
+    }
+  }
+}
+
+// ============================================================
+// PIPELINES
+// ============================================================
+
+/**
+ * Upsert every deal pipeline and stage; ones HubSpot no longer returns are
+ * marked archived
+ */
+async function syncPipelines(
+  accessToken: string,
+  supabase: SupabaseClient
+): Promise<{ pipelines: number; stages: number }> {
+  const data = await hubspotRequest(accessToken, 'GET', '/crm/v3/pipelines/deals')
+  const syncedAt = new Date().toISOString()
+
+  const pipelineRows: Record<string, any>[] = []
+  const stageRows: Record<string, any>[] = []
+
+  for (const pipeline of data.results || []) {
+    pipelineRows.push({
+      id: pipeline.id,
+      label: pipeline.label,
+      display_order: pipeline.displayOrder ?? null,
+      archived: !!pipeline.archived,
+      synced_at: syncedAt,
+    })
+
+    for (const stage of pipeline.stages || []) {
+      const isClosed = stage.metadata?.isClosed === 'true'
+      const probability = stage.metadata?.probability != null ? parseFloat(stage.metadata.probability) : null
+      stageRows.push({
+        id: stage.id,
+        pipeline_id: pipeline.id,
+        label: stage.label,
+        display_order: stage.displayOrder ?? null,
+        probability: Number.isFinite(probability) ? probability : null,
+        is_closed: isClosed,
+        is_won: isClosed && probability === 1,
+        archived: !!stage.archived,
+        synced_at: syncedAt,
+      })
+    }
+  }
+
+  if (pipelineRows.length > 0) {
+    const { error } = await supabase.from('hubspot_pipelines').upsert(pipelineRows, { onConflict: 'id' })
+    if (error) throw new Error(`Failed to upsert pipelines: ${error.message}`)
+  }
+  if (stageRows.length > 0) {
+    const { error } = await supabase.from('hubspot_pipeline_stages').upsert(stageRows, { onConflict: 'id' })
+    if (error) throw new Error(`Failed to upsert pipeline stages: ${error.message}`)
+  }
+
+  // Anything not refreshed this run was deleted in HubSpot
+  for (const table of ['hubspot_pipelines', 'hubspot_pipeline_stages']) {
+    const { error } = await supabase
+      .from(table)
+      .update({ archived: true })
+      .lt('synced_at', syncedAt)
+      .eq('archived', false)
+    if (error) throw new Error(`Failed to archive stale rows in ${table}: ${error.message}`)
+  }
+
+  return { pipelines: pipelineRows.length, stages: stageRows.length }
+}
+
+// ============================================================
+// DEALS AND COMPANIES
+// ============================================================
+
+/**
+ * Page through deals or companies (listing, or search from a watermark) and
+ * store each page with its associations
+ */
+async function syncObjects(
+  accessToken: string,
+  supabase: SupabaseClient,
+  objectType: CrmObjectType,
+  since: number | null,
+  stats: DealsSyncStats
+): Promise<void> {
+  const properties = objectType === 'deals' ? DEAL_PROPERTIES : COMPANY_PROPERTIES
+  const maxPages = since !== null ? SEARCH_MAX_PAGES : LIST_MAX_PAGES
+  let after: string | undefined
+
+  if (since !== null) {
+    console.log(`[Deals Sync] Searching ${objectType} modified since ${new Date(since).toISOString()}`)
+  } else {
+    console.log(`[Deals Sync] Fetching all ${objectType}`)
+  }
+
+  for (let page = 0; page < maxPages; page++) {
+    const data: ObjectsResponse = since !== null
+      ? await searchModifiedObjects(accessToken, objectType, properties, since, after)
+      : await fetchObjectsPage(accessToken, objectType, properties, after)
+
+    const objects = data.results || []
+    if (objects.length > 0) {
+      try {
+        if (objectType === 'deals') {
+          await storeDeals(accessToken, supabase, objects, stats)
+        } else {
+          await storeCompanies(accessToken, supabase, objects, stats)
+        }
+      } catch (error: any) {
+        stats.errors++
+        console.error(`[Deals Sync] Failed to store ${objectType} page ${page + 1}:`, error.message)
+      }
+    }
+
+    after = data.paging?.next?.after
+    if (!after) break
+    if (since !== null && page === maxPages - 1) {
+      console.warn(`[Deals Sync] Search limit reached for ${objectType} - run a full sync to catch up`)
+    }
+    await sleep(REQUEST_DELAY_MS)
+  }
+}
+
+/**
+ * Upsert a page of deals, then replace their line items and contact /
+ * company associations
+ */
+async function storeDeals(
+  accessToken: string,
+  supabase: SupabaseClient,
+  deals: HubSpotObject[],
+  stats: DealsSyncStats
+): Promise<void> {
+  const syncedAt = new Date().toISOString()
+  const dealIds = deals.map(d => d.id)
+
+  const rows = deals.map(deal => {
+    const p = deal.properties || {}
+    return {
+      hubspot_deal_id: deal.id,
+      dealname: p.dealname || null,
+      pipeline_id: p.pipeline || null,
+      stage_id: p.dealstage || null,
+      amount: toNumber(p.amount),
+      closedate: toTimestamp(p.closedate),
+      dealtype: p.dealtype || null,
+      duda_site_code: p.duda_site_code || null,
+      hubspot_owner_id: p.hubspot_owner_id || null,
+      createdate: toTimestamp(p.createdate),
+      lastmodifieddate: toTimestamp(p.hs_lastmodifieddate),
+      // Back from the archive (restored in HubSpot)
+      hubspot_archived_at: null,
+      synced_at: syncedAt,
+    }
+  })
+
+  const { error } = await supabase.from('hubspot_deals').upsert(rows, { onConflict: 'hubspot_deal_id' })
+  if (error) throw new Error(`Failed to upsert deals: ${error.message}`)
+  stats.deals += rows.length
+
+  const [contactLinks, companyLinks, lineItemLinks] = await Promise.all([
+    fetchAssociations(accessToken, 'deals', 'contacts', dealIds),
+    fetchAssociations(accessToken, 'deals', 'companies', dealIds),
+    fetchAssociations(accessToken, 'deals', 'line_items', dealIds),
+  ])
+
+  // Line items belong to one deal - read them all for the page
+  const lineItemDeal = new Map<string, string>()
+  for (const [dealId, lineItemIds] of lineItemLinks) {
+    for (const lineItemId of lineItemIds) lineItemDeal.set(lineItemId, dealId)
+  }
+  const lineItems = await fetchLineItems(accessToken, [...lineItemDeal.keys()])
+
+  const lineItemRows = lineItems.map(item => {
+    const p = item.properties || {}
+    return {
+      hubspot_line_item_id: item.id,
+      hubspot_deal_id: lineItemDeal.get(item.id)!,
+      hubspot_product_id: p.hs_product_id || null,
+      name: p.name || null,
+      sku: p.hs_sku || null,
+      quantity: toNumber(p.quantity),
+      price: toNumber(p.price),
+      amount: toNumber(p.amount),
+      recurring_billing_frequency: p.recurringbillingfrequency || null,
+      createdate: toTimestamp(p.createdate),
+      lastmodifieddate: toTimestamp(p.hs_lastmodifieddate),
+      synced_at: syncedAt,
+    }
+  })
+
+  await replaceRows(
+    supabase, 'hubspot_line_items', 'hubspot_deal_id', 'hubspot_line_item_id', dealIds, lineItemRows,
+    'hubspot_line_item_id'
+  )
+  stats.lineItems += lineItemRows.length
+
+  const dealContactRows = linkRows(contactLinks, 'hubspot_deal_id', 'hubspot_contact_id')
+  const dealCompanyRows = linkRows(companyLinks, 'hubspot_deal_id', 'hubspot_company_id')
+  await replaceRows(supabase, 'hubspot_deal_contacts', 'hubspot_deal_id', 'hubspot_contact_id', dealIds, dealContactRows)
+  await replaceRows(supabase, 'hubspot_deal_companies', 'hubspot_deal_id', 'hubspot_company_id', dealIds, dealCompanyRows)
+  stats.associations += dealContactRows.length + dealCompanyRows.length
+}
+
+/**
+ * Upsert a page of companies, then replace their contact associations
+ */
+async function storeCompanies(
+  accessToken: string,
+  supabase: SupabaseClient,
+  companies: HubSpotObject[],
+  stats: DealsSyncStats
+): Promise<void> {
+  const syncedAt = new Date().toISOString()
+  const companyIds = companies.map(c => c.id)
+
+  const rows = companies.map(company => {
+    const p = company.properties || {}
+    return {
+      hubspot_company_id: company.id,
+      name: p.name || null,
+      domain: p.domain || null,
+      phone: p.phone || null,
+      address: p.address || null,
+      city: p.city || null,
+      state: p.state || null,
+      zip: p.zip || null,
+      country: p.country || null,
+      industry: p.industry || null,
+      hubspot_owner_id: p.hubspot_owner_id || null,
+      createdate: toTimestamp(p.createdate),
+      lastmodifieddate: toTimestamp(p.hs_lastmodifieddate),
+      hubspot_archived_at: null,
+      synced_at: syncedAt,
+    }
+  })
+
+  const { error } = await supabase.from('hubspot_companies').upsert(rows, { onConflict: 'hubspot_company_id' })
+  if (error) throw new Error(`Failed to upsert companies: ${error.message}`)
+  stats.companies += rows.length
+
+  const contactLinks = await fetchAssociations(accessToken, 'companies', 'contacts', companyIds)
+  const contactRows = linkRows(contactLinks, 'hubspot_company_id', 'hubspot_contact_id')
+  await replaceRows(
+    supabase, 'hubspot_company_contacts', 'hubspot_company_id', 'hubspot_contact_id', companyIds, contactRows
+  )
+  stats.associations += contactRows.length
+}
+
+// ============================================================
+// TOMBSTONES
+// ============================================================
+
+/**
+ * Every deal or company in HubSpot's archived listing
+ */
+async function fetchArchivedObjects(
+  accessToken: string,
+  objectType: CrmObjectType
+): Promise<{ id: string; archivedAt: string }[]> {
+  const archived: { id: string; archivedAt: string }[] = []
+  let after: string | undefined
+
+  for (let page = 0; page < LIST_MAX_PAGES; page++) {
+    const params = new URLSearchParams({ archived: 'true', limit: String(HUBSPOT_PAGE_SIZE) })
+    if (after) params.set('after', after)
+
+    const data: ObjectsResponse = await hubspotRequest(
+      accessToken,
+      'GET',
+      `/crm/v3/objects/${objectType}?${params.toString()}`
+    )
+
+    for (const object of data.results || []) {
+      archived.push({ id: object.id, archivedAt: object.archivedAt || object.updatedAt || new Date().toISOString() })
+    }
+
+    after = data.paging?.next?.after
+    if (!after) break
+    await sleep(REQUEST_DELAY_MS)
+  }
+
+  return archived
+}
+
+/**
+ * Set hubspot_archived_at on synced rows HubSpot has deleted
+ *
+ * @returns Number of rows newly tombstoned
+ */
+async function tombstoneObjects(
+  supabase: SupabaseClient,
+  objectType: CrmObjectType,
+  archived: { id: string; archivedAt: string }[]
+): Promise<number> {
+  const table = objectType === 'deals' ? 'hubspot_deals' : 'hubspot_companies'
+  const idColumn = objectType === 'deals' ? 'hubspot_deal_id' : 'hubspot_company_id'
+  let tombstoned = 0
+
+  for (let i = 0; i < archived.length; i += ID_CHUNK_SIZE) {
+    const chunk = archived.slice(i, i + ID_CHUNK_SIZE)
+    const { data: live, error } = await supabase
+      .from(table)
+      .select(idColumn)
+      .in(idColumn, chunk.map(a => a.id))
+      .is('hubspot_archived_at', null)
+
+    if (error) throw new Error(`Failed to read ${table}: ${error.message}`)
+
+    for (const row of (live || []) as Record<string, string>[]) {
+      const archivedAt = chunk.find(a => a.id === row[idColumn])!.archivedAt
+      const { error: updateError } = await supabase
+        .from(table)
+        .update({ hubspot_archived_at: archivedAt })
+        .eq(idColumn, row[idColumn])
+
+      if (updateError) throw new Error(`Failed to tombstone ${row[idColumn]}: ${updateError.message}`)
+      tombstoned++
+    }
+  }
+
+  return tombstoned
+}
+
+// ============================================================
+// HUBSPOT API
+// ============================================================
+
+/**
+ * Call the HubSpot API with retry and rate-limit handling
+ */
+async function hubspotRequest(
+  accessToken: string,
+  method: 'GET' | 'POST',
+  path: string,
+  body?: Record<string, any>
+): Promise<any> {
+  return retryWithBackoff(async () => {
+    const response = await fetch(`https://api.hubapi.com${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+
+    // Handle rate limiting
+    if (response.status === 429) {
+      const retryAfter = response.headers.get('Retry-After')
+      await sleep(retryAfter ? parseInt(retryAfter) * 1000 : 5000)
+      throw new Error('Rate limited - will retry')
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`HubSpot API Error ${response.status} (${path}): ${errorText}`)
+    }
+
+    return await response.json()
+  })
+}
+
+async function fetchObjectsPage(
+  accessToken: string,
+  objectType: CrmObjectType,
+  properties: string[],
+  after?: string
+): Promise<ObjectsResponse> {
+  const params = new URLSearchParams({
+    limit: String(HUBSPOT_PAGE_SIZE),
+    properties: properties.join(','),
+  })
+  if (after) params.set('after', after)
+
+  return hubspotRequest(accessToken, 'GET', `/crm/v3/objects/${objectType}?${params.toString()}`)
+}
+
+/**
+ * Deals or companies modified since a timestamp (Search API, oldest first)
+ *
+ * @param sinceTimestamp - Unix timestamp in milliseconds
+ */
+async function searchModifiedObjects(
+  accessToken: string,
+  objectType: CrmObjectType,
+  properties: string[],
+  sinceTimestamp: number,
+  after?: string
+): Promise<ObjectsResponse> {
+  const searchBody: Record<string, any> = {
+    filterGroups: [
+      {
+        filters: [
+          {
+            propertyName: 'hs_lastmodifieddate',
+            operator: 'GTE',
+            value: sinceTimestamp.toString(),
+          },
+        ],
+      },
+    ],
+    properties,
+    limit: HUBSPOT_PAGE_SIZE,
+    sorts: [
+      {
+        propertyName: 'hs_lastmodifieddate',
+        direction: 'ASCENDING',
+      },
+    ],
+  }
+
+  if (after) {
+    searchBody.after = after
+  }
+
+  return hubspotRequest(accessToken, 'POST', `/crm/v3/objects/${objectType}/search`, searchBody)
+}
+
+/**
+ * v4 batch associations read
+ *
+ * @returns Map of from-ID -> associated IDs (IDs with none are left out)
+ */
+async function fetchAssociations(
+  accessToken: string,
+  fromType: string,
+  toType: string,
+  ids: string[]
+): Promise<Map<string, string[]>> {
+  const links = new Map<string, string[]>()
+  if (ids.length === 0) return links
+
+  const data = await hubspotRequest(
+    accessToken,
+    'POST',
+    `/crm/v4/associations/${fromType}/${toType}/batch/read`,
+    { inputs: ids.map(id => ({ id })) }
+  )
+
+  for (const item of data.results || []) {
+    const fromId = item.from?.id?.toString()
+    const toIds: string[] = Array.from(new Set(
+      (item.to || []).map((t: any) => t.toObjectId?.toString()).filter(Boolean)
+    ))
+    if (fromId && toIds.length > 0) links.set(fromId, toIds)
+  }
+
+  return links
+}
+
+async function fetchLineItems(accessToken: string, ids: string[]): Promise<HubSpotObject[]> {
+  const items: HubSpotObject[] = []
+
+  for (let i = 0; i < ids.length; i += HUBSPOT_PAGE_SIZE) {
+    const data = await hubspotRequest(accessToken, 'POST', '/crm/v3/objects/line_items/batch/read', {
+      properties: LINE_ITEM_PROPERTIES,
+      inputs: ids.slice(i, i + HUBSPOT_PAGE_SIZE).map(id => ({ id })),
+    })
+    items.push(...(data.results || []))
+  }
+
+  return items
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Newest lastmodifieddate in a table, normalized to the start of that day
+ * (midnight UTC) for the same safety margin as the contacts sync
+ *
+ * @returns Unix timestamp in milliseconds, or null when the table is empty
+ */
+async function getLastSyncTimestamp(
+  supabase: SupabaseClient,
+  table: 'hubspot_deals' | 'hubspot_companies'
+): Promise<number | null> {
+  const { data, error } = await supabase
+    .from(table)
+    .select('lastmodifieddate')
+    .not('lastmodifieddate', 'is', null)
+    .order('lastmodifieddate', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error || !data?.lastmodifieddate) {
+    return null
+  }
+
+  const date = new Date(data.lastmodifieddate)
+  if (Number.isNaN(date.getTime())) return null
+  date.setUTCHours(0, 0, 0, 0)
+  return date.getTime()
+}
+
+/**
+ * Replace the child rows of a set of parents: upsert the new set, then
+ * delete the rows no longer in it. Nothing is cleared first, so a reader
+ * mid-sync (or a failed run) never sees a deal without its line items
+ *
+ * @param childColumn - Identifies a row within its parent
+ * @param onConflict - The table's primary key (defaults to parent + child)
+ */
+async function replaceRows(
+  supabase: SupabaseClient,
+  table: string,
+  parentColumn: string,
+  childColumn: string,
+  parentIds: string[],
+  rows: Record<string, any>[],
+  onConflict = `${parentColumn},${childColumn}`
+): Promise<void> {
+  if (rows.length > 0) {
+    const { error } = await supabase.from(table).upsert(rows, { onConflict })
+    if (error) throw new Error(`Failed to upsert ${table}: ${error.message}`)
+  }
+
+  const keep = new Set(rows.map(row => `${row[parentColumn]}:${row[childColumn]}`))
+  const stale = new Map<string, string[]>()
+  const columns: string = `${parentColumn}, ${childColumn}`
+  const batchSize = 1000
+
+  for (let from = 0; ; from += batchSize) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .in(parentColumn, parentIds)
+      .order(parentColumn)
+      .order(childColumn)
+      .range(from, from + batchSize - 1)
+
+    if (error) throw new Error(`Failed to read ${table}: ${error.message}`)
+
+    data?.forEach((row: any) => {
+      if (keep.has(`${row[parentColumn]}:${row[childColumn]}`)) return
+      const childIds = stale.get(row[parentColumn]) || []
+      childIds.push(row[childColumn])
+      stale.set(row[parentColumn], childIds)
+    })
+
+    if (!data || data.length < batchSize) break
+  }
+
+  for (const [parentId, childIds] of stale) {
+    const { error } = await supabase
+      .from(table)
+      .delete()
+      .eq(parentColumn, parentId)
+      .in(childColumn, childIds)
+
+    if (error) throw new Error(`Failed to clear stale ${table}: ${error.message}`)
+  }
+}
+
+function linkRows(
+  links: Map<string, string[]>,
+  fromColumn: string,
+  toColumn: string
+): Record<string, string>[] {
+  const rows: Record<string, string>[] = []
+  for (const [fromId, toIds] of links) {
+    for (const toId of toIds) rows.push({ [fromColumn]: fromId, [toColumn]: toId })
+  }
+  return rows
+}
+
+function toNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = parseFloat(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/**
+ * HubSpot sends ISO strings, or epoch milliseconds for some date properties
+ */
+function toTimestamp(value: string | null | undefined): string | null {
+  if (!value) return null
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
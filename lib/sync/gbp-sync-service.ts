@@ -0,0 +1,521 @@
+/**
+ * GBP Multi-Location Sync Service
+ *
+ * Fans the GBP cron syncs out over every healthy Google connection in
+ * pipedream_connected_accounts and the locations it manages:
+ * 1. Discover: the gbp-locations sync lists each connection's accounts and
+ *    locations into gbp_locations_sync, tagged with the connection
+ * 2. Target: the other syncs read that list back, least recently attempted
+ *    location first
+ * 3. Sync: each location runs with a bounded number in flight; once the time
+ *    budget is spent the rest are deferred to the next run
+ * 4. Checkpoint: every location's outcome and resume cursor is stored in
+ *    gbp_sync_checkpoints, and the run totals plus per-location failures in
+ *    sync_jobs
+ *
+ * One location failing never fails the run - it is listed in the job's
+ * error_details and retried first next time.
+ *
+ * Migration: 20261019060000_gbp_sync_checkpoints.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { GBPLocation } from '@/app/types/gbp'
+import { GBPClient } from '@/lib/gbp/client'
+import { getConnectionToken, getGBPAccessToken } from '@/lib/gbp/token-manager'
+import { runWithConcurrency } from './utils'
+
+// Configuration
+export const GBP_SYNC_CONCURRENCY = 4
+export const GBP_SYNC_BUDGET_MS = 240_000 // Routes run with maxDuration = 300
+const MAX_REPORTED_FAILURES = 100
+const MAX_LOCATION_PAGES = 50
+
+export interface GBPConnection {
+  id: string
+  pipedream_account_id: string
+  external_id: string | null
+  account_name: string | null
+}
+
+export interface GBPSyncTarget {
+  /** pipedream_connected_accounts.id, or null to use the default env token */
+  connectionId: string | null
+  accountId: string
+  locationId: string
+  title: string | null
+}
+
+export interface GBPSyncCheckpoint {
+  job_type: string
+  account_id: string
+  location_id: string
+  connection_id: string | null
+  last_attempt_at: string | null
+  last_success_at: string | null
+  last_status: 'success' | 'failed' | null
+  last_error: string | null
+  consecutive_failures: number
+  records_synced: number
+  cursor: Record<string, unknown>
+}
+
+export interface SyncCounts {
+  fetched: number
+  created: number
+  updated: number
+  skipped: number
+  errors: number
+}
+
+export interface LocationSyncResult extends SyncCounts {
+  /** Stored on the checkpoint and handed back on the next run */
+  cursor?: Record<string, unknown>
+}
+
+export interface LocationSyncContext {
+  supabase: SupabaseClient
+  client: GBPClient
+  target: GBPSyncTarget
+  checkpoint: GBPSyncCheckpoint | null
+}
+
+export type LocationSyncer = (context: LocationSyncContext) => Promise<LocationSyncResult>
+
+export interface GBPSyncFailure {
+  connectionId: string | null
+  accountId: string | null
+  locationId: string | null
+  title: string | null
+  error: string
+}
+
+export interface GBPSyncRunResult {
+  jobType: string
+  totals: SyncCounts
+  locations: { total: number; synced: number; failed: number; deferred: number }
+  failures: GBPSyncFailure[]
+  durationMs: number
+}
+
+/** JSON body returned by the GBP sync routes */
+export interface GBPSyncSummary {
+  success: boolean
+  jobType: string
+  recordsFetched: number
+  recordsCreated: number
+  recordsUpdated: number
+  recordsSkipped: number
+  errors: number
+  duration: string
+  timestamp: string
+  locations?: GBPSyncRunResult['locations']
+  failures?: GBPSyncFailure[]
+  errorMessage?: string
+}
+
+export function emptyCounts(): SyncCounts {
+  return { fetched: 0, created: 0, updated: 0, skipped: 0, errors: 0 }
+}
+
+function addCounts(totals: SyncCounts, counts: SyncCounts): void {
+  totals.fetched += counts.fetched
+  totals.created += counts.created
+  totals.updated += counts.updated
+  totals.skipped += counts.skipped
+  totals.errors += counts.errors
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+// ============================================================
+// CONNECTIONS AND TARGETS
+// ============================================================
+
+/**
+ * Google connections that are currently marked healthy
+ */
+export async function listHealthyConnections(supabase: SupabaseClient): Promise<GBPConnection[]> {
+  const { data, error } = await supabase
+    .from('pipedream_connected_accounts')
+    .select('id, pipedream_account_id, external_id, account_name')
+    .eq('app_name', 'google_my_business')
+    .eq('healthy', true)
+
+  if (error) {
+    throw new Error(`Failed to load connected accounts: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * GBP client authenticated as a connection (refreshes through Pipedream on
+ * 401), or with the default env token when connectionId is null
+ */
+export async function createConnectionClient(connectionId: string | null): Promise<GBPClient> {
+  const accessToken = connectionId
+    ? await getConnectionToken(connectionId)
+    : await getGBPAccessToken()
+
+  return new GBPClient({ accessToken, connectionId: connectionId ?? undefined })
+}
+
+/**
+ * Every account the connection can see and all of its locations
+ */
+export async function listConnectionLocations(
+  client: GBPClient
+): Promise<Array<{ accountId: string; locations: GBPLocation[] }>> {
+  const { accounts = [] } = await client.listAccounts()
+  const results: Array<{ accountId: string; locations: GBPLocation[] }> = []
+
+  for (const account of accounts) {
+    // Format: accounts/ACCOUNT_ID
+    const accountId = account.name.split('/').pop()
+    if (!accountId) continue
+
+    const locations: GBPLocation[] = []
+    let pageToken: string | undefined
+    let pageCount = 0
+
+    do {
+      const response = await client.listLocations(accountId, pageToken)
+      locations.push(...(response.locations || []))
+      pageToken = response.nextPageToken
+      pageCount++
+    } while (pageToken && pageCount < MAX_LOCATION_PAGES)
+
+    results.push({ accountId, locations })
+  }
+
+  return results
+}
+
+/**
+ * Locations discovered by the gbp-locations sync whose connection is still
+ * healthy. A single location can be requested by ID for manual runs; it uses
+ * its connection when known and the default env token otherwise.
+ */
+export async function listSyncTargets(
+  supabase: SupabaseClient,
+  only?: { accountId?: string | null; locationId: string }
+): Promise<GBPSyncTarget[]> {
+  if (only) {
+    const { data: rows } = await supabase
+      .from('gbp_locations_sync')
+      .select('account_id, title, connection_id')
+      .eq('location_id', only.locationId)
+      .limit(1)
+    const known = rows?.[0]
+
+    return [{
+      connectionId: known?.connection_id ?? null,
+      accountId: only.accountId || known?.account_id || '',
+      locationId: only.locationId,
+      title: known?.title ?? null,
+    }]
+  }
+
+  const connections = await listHealthyConnections(supabase)
+  if (connections.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('gbp_locations_sync')
+    .select('account_id, location_id, title, connection_id')
+    .in('connection_id', connections.map((c) => c.id))
+
+  if (error) {
+    throw new Error(`Failed to load GBP locations: ${error.message}`)
+  }
+
+  // A location can be visible through more than one account; sync it once
+  const targets = new Map<string, GBPSyncTarget>()
+  for (const row of data || []) {
+    if (targets.has(row.location_id)) continue
+    targets.set(row.location_id, {
+      connectionId: row.connection_id,
+      accountId: row.account_id,
+      locationId: row.location_id,
+      title: row.title,
+    })
+  }
+
+  return [...targets.values()]
+}
+
+// ============================================================
+// SYNC JOB LOG
+// ============================================================
+
+/**
+ * Insert the running sync_jobs row. Returns null if it could not be written;
+ * the sync still runs.
+ */
+export async function startSyncJob(
+  supabase: SupabaseClient,
+  jobType: string,
+  metadata: Record<string, unknown>
+): Promise<string | null> {
+  const { data: job } = await supabase
+    .from('sync_jobs')
+    .insert({ job_type: jobType, status: 'running', metadata })
+    .select('id')
+    .single()
+
+  return job?.id ?? null
+}
+
+/**
+ * "3 locations failed, 1 connection failed"
+ */
+function describeFailures(failures: GBPSyncFailure[]): string {
+  const locations = failures.filter((f) => f.locationId).length
+  const connections = failures.length - locations
+  return [
+    locations > 0 ? `${locations} location${locations === 1 ? '' : 's'} failed` : null,
+    connections > 0 ? `${connections} connection${connections === 1 ? '' : 's'} failed` : null,
+  ].filter(Boolean).join(', ')
+}
+
+/**
+ * Close the sync_jobs row with totals and the per-location failures.
+ * A run is only 'failed' when nothing was synced.
+ */
+export async function finishSyncJob(
+  supabase: SupabaseClient,
+  jobId: string | null,
+  result: GBPSyncRunResult,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  if (!jobId) return
+
+  const { totals, locations, failures } = result
+
+  await supabase
+    .from('sync_jobs')
+    .update({
+      status: failures.length > 0 && locations.synced === 0 ? 'failed' : 'completed',
+      records_fetched: totals.fetched,
+      records_created: totals.created,
+      records_updated: totals.updated,
+      records_skipped: totals.skipped,
+      errors: totals.errors + failures.length,
+      error_message: failures.length > 0 ? describeFailures(failures) : null,
+      error_details: failures.length > 0 ? { failures: failures.slice(0, MAX_REPORTED_FAILURES) } : null,
+      completed_at: new Date().toISOString(),
+      duration_ms: result.durationMs,
+      metadata: {
+        ...metadata,
+        locations_total: locations.total,
+        locations_synced: locations.synced,
+        locations_failed: locations.failed,
+        locations_deferred: locations.deferred,
+      },
+    })
+    .eq('id', jobId)
+}
+
+/**
+ * Mark the sync_jobs row failed after an error that stopped the whole run
+ */
+export async function failSyncJob(
+  supabase: SupabaseClient,
+  jobId: string | null,
+  error: unknown,
+  durationMs: number
+): Promise<void> {
+  if (!jobId) return
+
+  await supabase
+    .from('sync_jobs')
+    .update({
+      status: 'failed',
+      errors: 1,
+      error_message: errorMessage(error),
+      completed_at: new Date().toISOString(),
+      duration_ms: durationMs,
+    })
+    .eq('id', jobId)
+}
+
+// ============================================================
+// CHECKPOINTS
+// ============================================================
+
+async function loadCheckpoints(
+  supabase: SupabaseClient,
+  jobType: string
+): Promise<Map<string, GBPSyncCheckpoint>> {
+  const { data, error } = await supabase
+    .from('gbp_sync_checkpoints')
+    .select('*')
+    .eq('job_type', jobType)
+
+  if (error) {
+    throw new Error(`Failed to load sync checkpoints: ${error.message}`)
+  }
+
+  return new Map((data || []).map((row: GBPSyncCheckpoint) => [row.location_id, row]))
+}
+
+async function saveCheckpoint(
+  supabase: SupabaseClient,
+  jobType: string,
+  target: GBPSyncTarget,
+  previous: GBPSyncCheckpoint | null,
+  outcome: { result: LocationSyncResult } | { error: string }
+): Promise<void> {
+  const now = new Date().toISOString()
+  const row = 'result' in outcome
+    ? {
+        last_success_at: now,
+        last_status: 'success',
+        last_error: null,
+        consecutive_failures: 0,
+        records_synced: outcome.result.created + outcome.result.updated,
+        cursor: outcome.result.cursor ?? previous?.cursor ?? {},
+      }
+    : {
+        last_status: 'failed',
+        last_error: outcome.error,
+        consecutive_failures: (previous?.consecutive_failures ?? 0) + 1,
+      }
+
+  const { error } = await supabase
+    .from('gbp_sync_checkpoints')
+    .upsert(
+      {
+        job_type: jobType,
+        account_id: target.accountId,
+        location_id: target.locationId,
+        connection_id: target.connectionId,
+        last_attempt_at: now,
+        ...row,
+      },
+      { onConflict: 'job_type,location_id' }
+    )
+
+  if (error) {
+    console.warn(`[GBP Sync] Could not save ${jobType} checkpoint for ${target.locationId}:`, error.message)
+  }
+}
+
+// ============================================================
+// FAN-OUT
+// ============================================================
+
+/**
+ * Run one sync type over many locations and log it to sync_jobs
+ */
+export async function runLocationSync(
+  supabase: SupabaseClient,
+  options: {
+    jobType: string
+    targets: GBPSyncTarget[]
+    syncLocation: LocationSyncer
+    metadata?: Record<string, unknown>
+    concurrency?: number
+    budgetMs?: number
+  }
+): Promise<GBPSyncRunResult> {
+  const startTime = Date.now()
+  const { jobType, targets, syncLocation } = options
+  const concurrency = options.concurrency ?? GBP_SYNC_CONCURRENCY
+  const budgetMs = options.budgetMs ?? GBP_SYNC_BUDGET_MS
+  const metadata = { ...options.metadata, concurrency }
+
+  const jobId = await startSyncJob(supabase, jobType, { ...metadata, locations_total: targets.length })
+
+  try {
+    const checkpoints = await loadCheckpoints(supabase, jobType)
+
+    // Never-attempted locations first, then the longest since last attempt
+    const attemptedAt = (target: GBPSyncTarget) =>
+      checkpoints.get(target.locationId)?.last_attempt_at ?? ''
+    const ordered = [...targets].sort((a, b) => attemptedAt(a).localeCompare(attemptedAt(b)))
+
+    // One client (and token) per connection, shared by its locations
+    const clients = new Map<string | null, Promise<GBPClient>>()
+    const clientFor = (connectionId: string | null) => {
+      if (!clients.has(connectionId)) {
+        clients.set(connectionId, createConnectionClient(connectionId))
+      }
+      return clients.get(connectionId)!
+    }
+
+    const totals = emptyCounts()
+    const failures: GBPSyncFailure[] = []
+    let synced = 0
+    let deferred = 0
+
+    await runWithConcurrency(ordered, concurrency, async (target) => {
+      if (Date.now() - startTime > budgetMs) {
+        deferred++
+        return
+      }
+
+      const checkpoint = checkpoints.get(target.locationId) ?? null
+
+      try {
+        const client = await clientFor(target.connectionId)
+        const result = await syncLocation({ supabase, client, target, checkpoint })
+        addCounts(totals, result)
+        synced++
+        await saveCheckpoint(supabase, jobType, target, checkpoint, { result })
+      } catch (error) {
+        const message = errorMessage(error)
+        console.error(`[GBP Sync] ${jobType} failed for location ${target.locationId}:`, message)
+        failures.push({
+          connectionId: target.connectionId,
+          accountId: target.accountId,
+          locationId: target.locationId,
+          title: target.title,
+          error: message,
+        })
+        await saveCheckpoint(supabase, jobType, target, checkpoint, { error: message })
+      }
+    })
+
+    if (deferred > 0) {
+      console.log(`[GBP Sync] ${jobType}: time budget reached, ${deferred} locations deferred to the next run`)
+    }
+
+    const result: GBPSyncRunResult = {
+      jobType,
+      totals,
+      locations: { total: targets.length, synced, failed: failures.length, deferred },
+      failures,
+      durationMs: Date.now() - startTime,
+    }
+
+    await finishSyncJob(supabase, jobId, result, metadata)
+    return result
+  } catch (error) {
+    await failSyncJob(supabase, jobId, error, Date.now() - startTime)
+    throw error
+  }
+}
+
+/**
+ * Response body for a finished run
+ */
+export function summarizeSyncRun(result: GBPSyncRunResult): GBPSyncSummary {
+  const { totals, locations, failures, durationMs } = result
+
+  return {
+    success: failures.length === 0 && totals.errors === 0,
+    jobType: result.jobType,
+    recordsFetched: totals.fetched,
+    recordsCreated: totals.created,
+    recordsUpdated: totals.updated,
+    recordsSkipped: totals.skipped,
+    errors: totals.errors + failures.length,
+    duration: durationMs > 1000 ? `${(durationMs / 1000).toFixed(1)}s` : `${durationMs}ms`,
+    timestamp: new Date().toISOString(),
+    locations,
+    failures: failures.slice(0, MAX_REPORTED_FAILURES),
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * HubSpot Webhook Ingestion
+ *
+ * Contact events from the HubSpot app webhook (POST /api/webhooks/hubspot):
+ * 1. VERIFY: v3 signature (HMAC-SHA256 of method + URI + body + timestamp)
+ * 2. STORE: one hubspot_webhook_events row per event - HubSpot retries
+ *    deliveries, so repeats are dropped by dedupe_key
+ * 3. PROCESS: pending events are claimed (so overlapping runs never
+ *    apply the same event), collapsed to one sync per contact and applied
+ *    with syncContactsByIds (the same Fetch-Merge-Upsert as the contact
+ *    sync, which also re-points merged-away contacts). Deletions tombstone
+ *    the contact (contact-tombstones.ts)
+ *
+ * The hourly incremental sync stays as the backstop for missed deliveries.
+ *
+ * Migrations: 20261019150000_hubspot_webhook_events.sql,
+ *             20261019220000_hubspot_webhook_event_claims.sql
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { ContactsByIdSyncResult } from './all-contacts-sync-service'
+import { tombstoneContacts } from './contact-tombstones'
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Requests older than this are rejected (HubSpot's recommended window) */
+export const MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000
+
+/** Failed events are retried by later deliveries up to this many attempts */
+const MAX_ATTEMPTS = 5
+
+/** Most events processed per run, oldest first */
+const PROCESS_LIMIT = 1000
+
+/** Subscriptions that are applied by re-reading the contact from HubSpot */
+const SYNC_SUBSCRIPTIONS = new Set([
+  'contact.creation',
+  'contact.propertyChange',
+  'contact.merge',
+  'contact.restore',
+])
+
+/** Subscriptions that tombstone the contact */
+const DELETE_SUBSCRIPTIONS = new Set([
+  'contact.deletion',
+  'contact.privacyDeletion',
+])
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * One event from a HubSpot webhook delivery (deliveries are arrays of up to 100)
+ */
+export interface HubSpotWebhookEvent {
+  eventId: number
+  subscriptionId: number
+  portalId: number
+  appId: number
+  occurredAt: number
+  subscriptionType: string
+  attemptNumber: number
+  objectId: number
+  propertyName?: string
+  propertyValue?: string
+  changeSource?: string
+  /** contact.merge: the contact that was kept */
+  primaryObjectId?: number
+  /** contact.merge: the contacts merged into it */
+  mergedObjectIds?: number[]
+  /** contact.merge: the id of the merged record (usually primaryObjectId) */
+  newObjectId?: number
+}
+
+export interface WebhookProcessSummary {
+  events: number
+  contacts: number
+  processed: number
+  skipped: number
+  failed: number
+}
+
+interface StoredEvent {
+  id: string
+  subscription_type: string
+  object_id: string
+  occurred_at: string
+  attempts: number
+}
+
+// ============================================================
+// SIGNATURE
+// ============================================================
+
+/** Characters HubSpot decodes in the URI before signing */
+const URI_DECODES: Record<string, string> = {
+  '%3A': ':', '%2F': '/', '%3F': '?', '%40': '@', '%21': '!', '%24': '$',
+  '%27': "'", '%28': '(', '%29': ')', '%2A': '*', '%2C': ',', '%3B': ';',
+}
+
+function signedUri(url: string): string {
+  return url.replace(/%(3A|2F|3F|40|21|24|27|28|29|2A|2C|3B)/gi, (m) => URI_DECODES[m.toUpperCase()])
+}
+
+/**
+ * Verify a HubSpot v3 request signature
+ *
+ * @param input.url - Full request URL as HubSpot called it
+ * @param input.body - Raw request body (verify before parsing)
+ * @param input.signature - X-HubSpot-Signature-v3 header
+ * @param input.timestamp - X-HubSpot-Request-Timestamp header (ms)
+ * @param input.secret - The HubSpot app's client secret
+ */
+export function verifyHubSpotSignature(input: {
+  method: string
+  url: string
+  body: string
+  signature: string | null
+  timestamp: string | null
+  secret: string
+  now?: number
+}): boolean {
+  const { method, url, body, signature, timestamp, secret, now = Date.now() } = input
+  if (!signature || !timestamp) return false
+
+  const sentAt = Number(timestamp)
+  if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > MAX_SIGNATURE_AGE_MS) return false
+
+  const expected = createHmac('sha256', secret)
+    .update(`${method}${signedUri(url)}${body}${timestamp}`)
+    .digest()
+  const received = Buffer.from(signature, 'base64')
+
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+// ============================================================
+// STORAGE
+// ============================================================
+
+function dedupeKey(event: HubSpotWebhookEvent): string {
+  return [event.eventId, event.subscriptionType, event.objectId, event.occurredAt].join(':')
+}
+
+/**
+ * Store a delivery's contact events, dropping ones already received
+ *
+ * @returns Number of events that were new
+ */
+export async function storeWebhookEvents(
+  supabase: SupabaseClient,
+  events: HubSpotWebhookEvent[]
+): Promise<number> {
+  const rows = new Map<string, Record<string, unknown>>()
+  for (const event of events) {
+    if (!event.subscriptionType?.startsWith('contact.') || !event.objectId) continue
+    // contact.merge is keyed by the winning contact
+    const objectId = event.subscriptionType === 'contact.merge' && event.primaryObjectId
+      ? event.primaryObjectId
+      : event.objectId
+    rows.set(dedupeKey(event), {
+      dedupe_key: dedupeKey(event),
+      event_id: event.eventId,
+      subscription_type: event.subscriptionType,
+      object_id: String(objectId),
+      property_name: event.propertyName ?? null,
+      occurred_at: new Date(event.occurredAt).toISOString(),
+      payload: event,
+    })
+  }
+
+  if (rows.size === 0) return 0
+
+  const { data, error } = await supabase
+    .from('hubspot_webhook_events')
+    .upsert(Array.from(rows.values()), { onConflict: 'dedupe_key', ignoreDuplicates: true })
+    .select('id')
+
+  if (error) throw new Error(`Failed to store webhook events: ${error.message}`)
+  return data?.length ?? 0
+}
+
+// ============================================================
+// PROCESSING
+// ============================================================
+
+async function markEvents(
+  supabase: SupabaseClient,
+  events: StoredEvent[],
+  status: 'processed' | 'skipped',
+  note: string | null = null
+): Promise<void> {
+  if (events.length === 0) return
+  const { error } = await supabase
+    .from('hubspot_webhook_events')
+    .update({ status, error: note, processed_at: new Date().toISOString() })
+    .in('id', events.map(e => e.id))
+
+  if (error) throw new Error(`Failed to update webhook events: ${error.message}`)
+}
+
+async function markFailed(supabase: SupabaseClient, events: StoredEvent[], message: string): Promise<void> {
+  for (const event of events) {
+    const { error } = await supabase
+      .from('hubspot_webhook_events')
+      .update({ status: 'failed', error: message, attempts: event.attempts + 1 })
+      .eq('id', event.id)
+
+    if (error) console.warn(`[HubSpot Webhook] Failed to mark event ${event.id} failed:`, error.message)
+  }
+}
+
+/**
+ * Apply pending (and retryable failed) events, oldest first
+ *
+ * The events are claimed first (claim_hubspot_webhook_events, FOR UPDATE
+ * SKIP LOCKED), so runs started by deliveries close together work on
+ * different events. They are collapsed so each contact is read from
+ * HubSpot once per run, however many property changes it had.
+ *
+ * An event left processing by a run that died is reclaimed after 10
+ * minutes with that run counted as an attempt, so it fails for good at
+ * MAX_ATTEMPTS.
+ *
+ * @param syncContacts - Fetch-Merge-Upsert for a list of HubSpot IDs (syncContactsByIds)
+ */
+export async function processWebhookEvents(
+  supabase: SupabaseClient,
+  syncContacts: (contactIds: string[]) => Promise<ContactsByIdSyncResult>
+): Promise<WebhookProcessSummary> {
+  const summary: WebhookProcessSummary = { events: 0, contacts: 0, processed: 0, skipped: 0, failed: 0 }
+
+  const { data, error } = await supabase.rpc('claim_hubspot_webhook_events', {
+    p_limit: PROCESS_LIMIT,
+    p_max_attempts: MAX_ATTEMPTS,
+  })
+
+  if (error) throw new Error(`Failed to claim webhook events: ${error.message}`)
+
+  const events = (data || []) as StoredEvent[]
+  summary.events = events.length
+  if (events.length === 0) return summary
+
+  const toSync = events.filter(e => SYNC_SUBSCRIPTIONS.has(e.subscription_type))
+  const toDelete = events.filter(e => DELETE_SUBSCRIPTIONS.has(e.subscription_type))
+  const unsupported = events.filter(
+    e => !SYNC_SUBSCRIPTIONS.has(e.subscription_type) && !DELETE_SUBSCRIPTIONS.has(e.subscription_type)
+  )
+
+  await markEvents(supabase, unsupported, 'skipped', 'Unsupported subscription type')
+  summary.skipped += unsupported.length
+
+  if (toDelete.length > 0) {
+    try {
+      await tombstoneContacts(supabase, toDelete.map(e => ({ id: e.object_id, archivedAt: e.occurred_at })))
+      await markEvents(supabase, toDelete, 'processed')
+      summary.processed += toDelete.length
+    } catch (error: any) {
+      await markFailed(supabase, toDelete, error.message || 'Failed to tombstone contacts')
+      summary.failed += toDelete.length
+    }
+  }
+
+  const contactIds = Array.from(new Set(toSync.map(e => e.object_id)))
+  summary.contacts = contactIds.length
+  if (contactIds.length === 0) return summary
+
+  let result: ContactsByIdSyncResult
+  try {
+    result = await syncContacts(contactIds)
+  } catch (error: any) {
+    // Release the claimed events for the next run instead of leaving them processing
+    await markFailed(supabase, toSync, error.message || 'Contact sync failed')
+    summary.failed += toSync.length
+    return summary
+  }
+
+  if (result.errorMessage) {
+    await markFailed(supabase, toSync, result.errorMessage)
+    summary.failed += toSync.length
+    return summary
+  }
+
+  const missing = new Set(result.missing)
+  const failed = new Set(result.failed)
+  const notFound = toSync.filter(e => missing.has(e.object_id))
+  const errored = toSync.filter(e => failed.has(e.object_id))
+  const synced = toSync.filter(e => !missing.has(e.object_id) && !failed.has(e.object_id))
+
+  await markEvents(supabase, synced, 'processed')
+  await markEvents(supabase, notFound, 'skipped', 'Contact not found in HubSpot (deleted or archived)')
+  await markFailed(supabase, errored, 'Supabase upsert failed')
+
+  summary.processed += synced.length
+  summary.skipped += notFound.length
+  summary.failed += errored.length
+
+  return summary
+}
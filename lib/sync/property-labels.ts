@@ -0,0 +1,337 @@
+/**
+ * HubSpot Property Labels
+ *
+ * Enumeration properties (lifecycle stage, lead status, ...) come back from
+ * HubSpot as internal values - custom lifecycle stages are numeric IDs like
+ * 944991848. The option labels are cached in hubspot_property_options from
+ * the HubSpot properties API so the sync and analytics can resolve them
+ * without a hardcoded map:
+ * 1. REFRESH: read the property definitions, upsert their options, and mark
+ *    options HubSpot no longer returns as archived (old values still resolve)
+ * 2. RELABEL: columns stored as labels (contacts.lifecyclestage) are updated
+ *    for options that are new or were renamed - this also fixes values that
+ *    were stored raw before the option was cached
+ * 3. LOAD: the cached options as a property -> value -> label lookup
+ *
+ * The contact sync refreshes at the start of every run; the webhook only
+ * loads the cache. POST /api/admin/hubspot-properties refreshes on demand.
+ *
+ * Migration: 20261019170000_hubspot_property_options.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { retryWithBackoff, sleep } from './utils'
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Contact properties whose option labels are cached */
+export const LABELED_CONTACT_PROPERTIES = [
+  'lifecyclestage',
+  'hs_lead_status',
+  'hs_analytics_source',
+  'industry',
+]
+
+/** Contact columns that store the option label instead of the HubSpot value */
+const STORED_AS_LABEL: Record<string, string> = {
+  lifecyclestage: 'lifecyclestage',
+}
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/** property name -> HubSpot value -> label */
+export type PropertyLabels = Record<string, Record<string, string>>
+
+export interface PropertyOption {
+  property_name: string
+  property_label: string | null
+  value: string
+  label: string
+  display_order: number | null
+  hidden: boolean
+  archived: boolean
+  refreshed_at: string
+}
+
+export interface PropertyRefreshResult {
+  /** Properties HubSpot returned options for */
+  properties: number
+  options: number
+  /** Options not cached before */
+  added: number
+  /** Options whose label changed in HubSpot */
+  renamed: number
+  /** Cached options HubSpot no longer returns */
+  archived: number
+  /** Contact rows updated to a new or renamed label */
+  contactsRelabeled: number
+}
+
+interface HubSpotPropertyDefinition {
+  name: string
+  label: string
+  type: string
+  options?: { label: string; value: string; displayOrder?: number; hidden?: boolean }[]
+}
+
+// ============================================================
+// HUBSPOT
+// ============================================================
+
+/**
+ * Read contact property definitions with the HubSpot batch read API
+ *
+ * Properties that do not exist in the portal are left out of the results.
+ */
+async function fetchPropertyDefinitions(
+  accessToken: string,
+  names: string[]
+): Promise<HubSpotPropertyDefinition[]> {
+  return retryWithBackoff(async () => {
+    const response = await fetch('https://api.hubapi.com/crm/v3/properties/contacts/batch/read', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        archived: false,
+        inputs: names.map(name => ({ name })),
+      }),
+    })
+
+    // Handle rate limiting
+    if (response.status === 429) {
+      const retryAfter = response.headers.get('Retry-After')
+      const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : 5000
+      await sleep(waitTime)
+      throw new Error('Rate limited - will retry')
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`HubSpot Properties API Error ${response.status}: ${errorText}`)
+    }
+
+    const data: { results?: HubSpotPropertyDefinition[] } = await response.json()
+    return data.results || []
+  })
+}
+
+// ============================================================
+// REFRESH
+// ============================================================
+
+/**
+ * Pull option labels from HubSpot into hubspot_property_options
+ *
+ * Renamed and newly seen options are applied to the contact columns that
+ * store labels, so contacts never keep a stale label or a raw ID.
+ */
+export async function refreshPropertyOptions(
+  supabase: SupabaseClient,
+  accessToken: string,
+  propertyNames: string[] = LABELED_CONTACT_PROPERTIES
+): Promise<PropertyRefreshResult> {
+  const result: PropertyRefreshResult = {
+    properties: 0,
+    options: 0,
+    added: 0,
+    renamed: 0,
+    archived: 0,
+    contactsRelabeled: 0,
+  }
+
+  const definitions = (await fetchPropertyDefinitions(accessToken, propertyNames))
+    .filter(d => d.type === 'enumeration' && d.options && d.options.length > 0)
+  if (definitions.length === 0) return result
+
+  const { data: cached, error: cachedError } = await supabase
+    .from('hubspot_property_options')
+    .select('property_name, value, label, archived')
+    .eq('object_type', 'contacts')
+    .in('property_name', definitions.map(d => d.name))
+
+  if (cachedError) throw new Error(`Failed to load property options: ${cachedError.message}`)
+
+  const previous = new Map<string, { label: string; archived: boolean }>()
+  for (const row of cached || []) {
+    previous.set(`${row.property_name}:${row.value}`, { label: row.label, archived: row.archived })
+  }
+
+  const refreshedAt = new Date().toISOString()
+  const rows: Record<string, unknown>[] = []
+  const relabels: { property: string; value: string; label: string; oldLabel: string | null }[] = []
+
+  for (const definition of definitions) {
+    result.properties++
+    const returned = new Set<string>()
+
+    for (const option of definition.options!) {
+      returned.add(option.value)
+      rows.push({
+        object_type: 'contacts',
+        property_name: definition.name,
+        property_label: definition.label,
+        value: option.value,
+        label: option.label,
+        display_order: option.displayOrder ?? null,
+        hidden: option.hidden ?? false,
+        archived: false,
+        refreshed_at: refreshedAt,
+      })
+
+      const before = previous.get(`${definition.name}:${option.value}`)
+      if (!before) {
+        result.added++
+      } else if (before.label !== option.label) {
+        result.renamed++
+      }
+      if (!before || before.label !== option.label) {
+        relabels.push({
+          property: definition.name,
+          value: option.value,
+          label: option.label,
+          oldLabel: before?.label ?? null,
+        })
+      }
+    }
+
+    // Keep options HubSpot dropped so contacts that still carry them resolve
+    const stale = (cached || [])
+      .filter(row => row.property_name === definition.name && !row.archived && !returned.has(row.value))
+      .map(row => row.value)
+
+    if (stale.length > 0) {
+      const { error } = await supabase
+        .from('hubspot_property_options')
+        .update({ archived: true, refreshed_at: refreshedAt })
+        .eq('object_type', 'contacts')
+        .eq('property_name', definition.name)
+        .in('value', stale)
+
+      if (error) throw new Error(`Failed to archive property options: ${error.message}`)
+      result.archived += stale.length
+    }
+  }
+
+  const { error: upsertError } = await supabase
+    .from('hubspot_property_options')
+    .upsert(rows, { onConflict: 'object_type,property_name,value' })
+
+  if (upsertError) throw new Error(`Failed to store property options: ${upsertError.message}`)
+  result.options = rows.length
+
+  for (const relabel of relabels) {
+    const column = STORED_AS_LABEL[relabel.property]
+    if (!column) continue
+
+    const from = [relabel.value, relabel.oldLabel].filter(
+      (v): v is string => !!v && v !== relabel.label
+    )
+    if (from.length === 0) continue
+
+    const { error, count } = await supabase
+      .from('contacts')
+      .update({ [column]: relabel.label }, { count: 'exact' })
+      .in(column, from)
+
+    if (error) {
+      console.warn(`[Property Labels] Failed to relabel ${column} "${from.join('", "')}":`, error.message)
+      continue
+    }
+    result.contactsRelabeled += count ?? 0
+  }
+
+  console.log(
+    `[Property Labels] ${result.options} options for ${result.properties} properties: ` +
+    `${result.added} added, ${result.renamed} renamed, ${result.archived} archived, ` +
+    `${result.contactsRelabeled} contacts relabeled`
+  )
+
+  return result
+}
+
+// ============================================================
+// LOOKUP
+// ============================================================
+
+/**
+ * Load the cached option labels for contact properties
+ */
+export async function loadPropertyLabels(supabase: SupabaseClient): Promise<PropertyLabels> {
+  const { data, error } = await supabase
+    .from('hubspot_property_options')
+    .select('property_name, value, label')
+    .eq('object_type', 'contacts')
+
+  if (error) throw new Error(`Failed to load property labels: ${error.message}`)
+
+  const labels: PropertyLabels = {}
+  for (const row of data || []) {
+    if (!labels[row.property_name]) labels[row.property_name] = {}
+    labels[row.property_name][row.value] = row.label
+  }
+  return labels
+}
+
+/**
+ * Refresh from HubSpot, then load - falls back to the cached labels when
+ * HubSpot cannot be reached so a sync never fails on labels alone
+ */
+export async function refreshAndLoadPropertyLabels(
+  supabase: SupabaseClient,
+  accessToken: string
+): Promise<PropertyLabels> {
+  try {
+    await refreshPropertyOptions(supabase, accessToken)
+  } catch (error: any) {
+    console.warn('[Property Labels] Refresh failed, using cached labels:', error.message)
+  }
+  return loadPropertyLabels(supabase)
+}
+
+/**
+ * List cached options, by property and display order
+ */
+export async function listPropertyOptions(
+  supabase: SupabaseClient,
+  propertyName?: string
+): Promise<PropertyOption[]> {
+  let query = supabase
+    .from('hubspot_property_options')
+    .select('property_name, property_label, value, label, display_order, hidden, archived, refreshed_at')
+    .eq('object_type', 'contacts')
+    .order('property_name', { ascending: true })
+    .order('display_order', { ascending: true, nullsFirst: false })
+
+  if (propertyName) query = query.eq('property_name', propertyName)
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to list property options: ${error.message}`)
+  return (data || []) as PropertyOption[]
+}
+
+/**
+ * Label for a HubSpot value, or the value itself when no option matches
+ * (already a label, or an option the cache has not seen yet)
+ */
+export function resolvePropertyLabel(
+  labels: PropertyLabels,
+  propertyName: string,
+  value: string | null
+): string | null {
+  if (!value) return value
+  return labels[propertyName]?.[value] ?? value
+}
+
+/**
+ * Every known label for a property
+ */
+export function propertyLabelList(labels: PropertyLabels, propertyName: string): string[] {
+  return Array.from(new Set(Object.values(labels[propertyName] || {})))
+}
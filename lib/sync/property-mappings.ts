@@ -0,0 +1,313 @@
+/**
+ * HubSpot Property Mappings
+ *
+ * Which HubSpot contact properties the contact syncs pull and where each one
+ * lands, stored in hubspot_property_mappings and edited from
+ * Settings > HubSpot Property Mapping instead of hardcoded lists:
+ * - TARGET: a contacts column, or a key inside a JSONB column (json_path,
+ *   e.g. location_1 -> locations.location_1)
+ * - COERCION: string, integer, number, boolean, timestamp, or label
+ *   (enumeration values resolved through property-labels.ts)
+ * - CONFLICT: 'hubspot' overwrites with any non-blank HubSpot value,
+ *   'supabase' only fills a blank Supabase value. A blank HubSpot value
+ *   never erases Supabase data either way
+ * - SCOPE: all_contacts (syncAllContacts and the webhook) and/or customer
+ *   (syncHubSpotCustomers)
+ *
+ * Migration: 20261019180000_hubspot_property_mappings.sql
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { resolvePropertyLabel, type PropertyLabels } from './property-labels'
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+export const SYNC_SCOPES = ['all_contacts', 'customer'] as const
+export const PROPERTY_COERCIONS = ['string', 'integer', 'number', 'boolean', 'timestamp', 'label'] as const
+export const CONFLICT_WINNERS = ['hubspot', 'supabase'] as const
+
+/** Columns the syncs manage themselves - never a mapping target */
+const RESERVED_COLUMNS = new Set([
+  'id',
+  'user_id',
+  'hubspot_contact_id',
+  'hubspot_company_id',
+  'dealname',
+  'synced_at',
+  'created_at',
+  'updated_at',
+  'hubspot_archived_at',
+  'merged_into_contact_id',
+])
+
+/** HubSpot property names and Postgres column names */
+const IDENTIFIER = /^[a-z][a-z0-9_]*$/
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type SyncScope = typeof SYNC_SCOPES[number]
+export type PropertyCoercion = typeof PROPERTY_COERCIONS[number]
+export type ConflictWinner = typeof CONFLICT_WINNERS[number]
+
+export interface PropertyMapping {
+  id: string
+  hubspot_property: string
+  target_column: string
+  json_path: string | null
+  coercion: PropertyCoercion
+  conflict_winner: ConflictWinner
+  sync_scopes: SyncScope[]
+  enabled: boolean
+  notes: string | null
+  updated_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PropertyMappingInput {
+  id?: string
+  hubspot_property: string
+  target_column: string
+  json_path?: string | null
+  coercion?: PropertyCoercion
+  conflict_winner?: ConflictWinner
+  sync_scopes?: SyncScope[]
+  enabled?: boolean
+  notes?: string | null
+}
+
+// ============================================================
+// LOADING
+// ============================================================
+
+/**
+ * Enabled mappings for one sync
+ *
+ * @throws Error when none are enabled - a sync with no mappings would
+ *   write nothing, which is never what was meant
+ */
+export async function loadPropertyMappings(
+  supabase: SupabaseClient,
+  scope: SyncScope
+): Promise<PropertyMapping[]> {
+  const { data, error } = await supabase
+    .from('hubspot_property_mappings')
+    .select('*')
+    .eq('enabled', true)
+    .contains('sync_scopes', [scope])
+
+  if (error) throw new Error(`Failed to load property mappings: ${error.message}`)
+  if (!data || data.length === 0) {
+    throw new Error(`No HubSpot property mappings enabled for the ${scope} sync`)
+  }
+  return data as PropertyMapping[]
+}
+
+/**
+ * HubSpot properties to request: every mapped property plus the ones the
+ * sync reads itself
+ */
+export function mappedProperties(mappings: PropertyMapping[], required: string[] = []): string[] {
+  return Array.from(new Set([...mappings.map(m => m.hubspot_property), ...required]))
+}
+
+// ============================================================
+// APPLYING
+// ============================================================
+
+export function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === ''
+}
+
+/**
+ * Coerce a HubSpot property value (always a string) for its target
+ *
+ * @returns null when the value is blank or does not parse
+ */
+export function coercePropertyValue(
+  raw: string | null,
+  mapping: Pick<PropertyMapping, 'hubspot_property' | 'coercion'>,
+  labels: PropertyLabels
+): string | number | boolean | null {
+  if (raw === null || raw === undefined) return null
+  const value = String(raw).trim()
+  if (value === '') return null
+
+  switch (mapping.coercion) {
+    case 'integer': {
+      const n = parseInt(value, 10)
+      return Number.isFinite(n) ? n : null
+    }
+    case 'number': {
+      const n = parseFloat(value)
+      return Number.isFinite(n) ? n : null
+    }
+    case 'boolean': {
+      const lower = value.toLowerCase()
+      if (['true', 'yes', '1'].includes(lower)) return true
+      if (['false', 'no', '0'].includes(lower)) return false
+      return null
+    }
+    case 'timestamp': {
+      // HubSpot sends ISO strings, or epoch milliseconds for some date properties
+      const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value)
+      return Number.isNaN(date.getTime()) ? null : date.toISOString()
+    }
+    case 'label':
+      return resolvePropertyLabel(labels, mapping.hubspot_property, value)
+    default:
+      return value
+  }
+}
+
+/**
+ * Overlay a HubSpot contact's mapped properties onto a contacts record
+ *
+ * The record is updated in place - pass the existing Supabase row (or {}
+ * for a new contact) so conflict rules can see the current values.
+ */
+export function applyPropertyMappings(
+  record: Record<string, any>,
+  props: Record<string, string | null>,
+  mappings: PropertyMapping[],
+  labels: PropertyLabels
+): void {
+  for (const mapping of mappings) {
+    const value = coercePropertyValue(props[mapping.hubspot_property] ?? null, mapping, labels)
+    if (value === null) continue
+
+    if (mapping.json_path) {
+      const current = record[mapping.target_column]
+      const container = current && typeof current === 'object' && !Array.isArray(current) ? { ...current } : {}
+      if (mapping.conflict_winner === 'supabase' && !isBlank(container[mapping.json_path])) continue
+      container[mapping.json_path] = value
+      record[mapping.target_column] = container
+    } else {
+      if (mapping.conflict_winner === 'supabase' && !isBlank(record[mapping.target_column])) continue
+      record[mapping.target_column] = value
+    }
+  }
+}
+
+// ============================================================
+// ADMIN
+// ============================================================
+
+/**
+ * All mappings, enabled or not, by target
+ */
+export async function listPropertyMappings(supabase: SupabaseClient): Promise<PropertyMapping[]> {
+  const { data, error } = await supabase
+    .from('hubspot_property_mappings')
+    .select('*')
+    .order('target_column', { ascending: true })
+    .order('json_path', { ascending: true, nullsFirst: true })
+
+  if (error) throw new Error(`Failed to list property mappings: ${error.message}`)
+  return (data || []) as PropertyMapping[]
+}
+
+/**
+ * Check a mapping before saving
+ *
+ * @returns An error message, or null when the mapping is valid
+ */
+export async function validatePropertyMapping(
+  supabase: SupabaseClient,
+  input: PropertyMappingInput
+): Promise<string | null> {
+  if (!input.hubspot_property || !IDENTIFIER.test(input.hubspot_property)) {
+    return 'hubspot_property must be a HubSpot internal property name (lowercase, e.g. business_type)'
+  }
+  if (!input.target_column || !IDENTIFIER.test(input.target_column)) {
+    return 'target_column must be a contacts column name (lowercase, e.g. business_type)'
+  }
+  if (RESERVED_COLUMNS.has(input.target_column)) {
+    return `${input.target_column} is managed by the sync and cannot be mapped`
+  }
+  if (input.json_path && !IDENTIFIER.test(input.json_path)) {
+    return 'json_path must be a lowercase key (e.g. location_1)'
+  }
+  if (input.coercion && !PROPERTY_COERCIONS.includes(input.coercion)) {
+    return `coercion must be one of ${PROPERTY_COERCIONS.join(', ')}`
+  }
+  if (input.conflict_winner && !CONFLICT_WINNERS.includes(input.conflict_winner)) {
+    return `conflict_winner must be one of ${CONFLICT_WINNERS.join(', ')}`
+  }
+  if (input.sync_scopes) {
+    if (input.sync_scopes.length === 0 || input.sync_scopes.some(s => !SYNC_SCOPES.includes(s))) {
+      return `sync_scopes must be one or more of ${SYNC_SCOPES.join(', ')}`
+    }
+  }
+
+  // The column has to exist - PostgREST rejects unknown columns in a select
+  const { error } = await supabase.from('contacts').select(input.target_column).limit(1)
+  if (error) return `contacts.${input.target_column} does not exist (${error.message})`
+
+  let existing = supabase
+    .from('hubspot_property_mappings')
+    .select('id, hubspot_property')
+    .eq('target_column', input.target_column)
+  existing = input.json_path ? existing.eq('json_path', input.json_path) : existing.is('json_path', null)
+  if (input.id) existing = existing.neq('id', input.id)
+
+  const { data: taken, error: takenError } = await existing.limit(1)
+  if (takenError) throw new Error(`Failed to check property mappings: ${takenError.message}`)
+  if (taken && taken.length > 0) {
+    const target = input.json_path ? `${input.target_column}.${input.json_path}` : input.target_column
+    return `${target} is already mapped from ${taken[0].hubspot_property}`
+  }
+
+  return null
+}
+
+/**
+ * Create or update a mapping (call validatePropertyMapping first)
+ */
+export async function savePropertyMapping(
+  supabase: SupabaseClient,
+  input: PropertyMappingInput,
+  updatedBy: string | null
+): Promise<PropertyMapping> {
+  const row = {
+    hubspot_property: input.hubspot_property,
+    target_column: input.target_column,
+    json_path: input.json_path || null,
+    coercion: input.coercion ?? 'string',
+    conflict_winner: input.conflict_winner ?? 'hubspot',
+    sync_scopes: input.sync_scopes ?? [...SYNC_SCOPES],
+    enabled: input.enabled ?? true,
+    notes: input.notes ?? null,
+    updated_by: updatedBy,
+  }
+
+  const query = input.id
+    ? supabase.from('hubspot_property_mappings').update(row).eq('id', input.id)
+    : supabase.from('hubspot_property_mappings').insert(row)
+
+  const { data, error } = await query.select('*').single()
+
+  if (error) {
+    // 23505: another mapping already writes this column / JSON key
+    if (error.code === '23505') {
+      throw new Error(
+        `Another mapping already writes ${input.target_column}${input.json_path ? `.${input.json_path}` : ''}`
+      )
+    }
+    throw new Error(`Failed to save property mapping: ${error.message}`)
+  }
+  return data as PropertyMapping
+}
+
+export async function deletePropertyMapping(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase
+    .from('hubspot_property_mappings')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw new Error(`Failed to delete property mapping: ${error.message}`)
+}
@@ -118,3 +118,29 @@ export function formatDuration(ms: number): string {
     return `${seconds}s`
   }
 }
+
+// ============================================================
+// CONCURRENCY
+// ============================================================
+
+/**
+ * Map over items with at most `limit` promises in flight, preserving order
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  })
+
+  await Promise.all(workers)
+  return results
+}
@@ -84,7 +84,9 @@ export async function middleware(request: NextRequest) {
                          request.nextUrl.pathname.startsWith('/api/pipedream') ||
                          request.nextUrl.pathname.startsWith('/api/admin') ||
                          request.nextUrl.pathname.startsWith('/api/sync') ||
-                         request.nextUrl.pathname.startsWith('/api/onboarding')
+                         request.nextUrl.pathname.startsWith('/api/onboarding') ||
+                         request.nextUrl.pathname.startsWith('/api/reviews') ||
+                         request.nextUrl.pathname.startsWith('/api/gbp')
 
   // Special case: Allow CRON_SECRET for /api/sync routes (for automated cron jobs)
   const isSyncRoute = request.nextUrl.pathname.startsWith('/api/sync')
@@ -23,6 +23,10 @@ const config: NextConfig = {
   // Note: Local Windows builds may need admin privileges for symlinks
   // Docker builds work fine (Linux container has no symlink issues)
   output: 'standalone',
+  // Read with fs at runtime, so not picked up by file tracing
+  outputFileTracingIncludes: {
+    '/api/onboarding/[contactId]/landing-pages/suggestions': ['./lib/geo/data/**'],
+  },
 };
 
 export default config;
@@ -5,8 +5,9 @@
  * Does NOT create or modify any Foursquare listings.
  *
  * For each Discover/Boost/Dominate customer:
- *   1. Queries HubSpot for deals matching those names
- *   2. Resolves deal → contact associations
+ *   1. Reads contacts with a purchased package from the synced HubSpot deals
+ *      (hubspot_contact_packages - run /api/sync/hubspot-deals first)
+ *   2. Fetches their contact details from HubSpot
  *   3. Checks data completeness (name, address, phone, etc.)
  *   4. Searches Google Places for a match (gets lat/lng, hours, categories)
  *   5. Searches Foursquare for an existing listing
@@ -33,11 +34,11 @@ config({ path: '.env.local' })
 import { createClient } from '@supabase/supabase-js'
 import { writeFileSync } from 'fs'
 import { join } from 'path'
+import { canonicalWebsite } from '../../lib/normalize'
+import { listPackagedContacts } from '../../lib/onboarding/packages'
 
 // ─── Configuration ───────────────────────────────────────────
 
-const DEAL_PATTERNS = ['discover', 'boost', 'dominate']
-
 const GOOGLE_PLACES_BASE = 'https://places.googleapis.com/v1'
 const FOURSQUARE_BASE = 'https://places-api.foursquare.com/places'
 const FSQ_VERSION = '2025-06-17'
@@ -98,15 +99,7 @@ function getBusinessName(c: ContactInfo): string {
 }
 
 function isValidWebsite(url: string | null | undefined): boolean {
-  if (!url) return false
-  const trimmed = url.trim().toLowerCase()
-  // Reject obvious junk
-  if (trimmed.length < 6) return false
-  if (['na', 'n/a', 'none', 'http://na', 'https://na', 'http://n/a'].includes(trimmed)) return false
-  // Must look like a URL or domain
-  if (trimmed.includes(' ')) return false
-  if (!trimmed.includes('.')) return false
-  return true
+  return canonicalWebsite(url) !== null
 }
 
 function checkCompleteness(c: ContactInfo): { complete: boolean; missing: string[] } {
@@ -128,155 +121,6 @@ function escapeCSV(val: string): string {
   return val
 }
 
-// ─── HubSpot: Fetch Deals ────────────────────────────────────
-
-interface DealInfo {
-  name: string
-  dealType: string
-  dudaSiteCode: string
-}
-
-async function fetchMatchingDeals(accessToken: string): Promise<Map<string, DealInfo>> {
-  // Returns Map<dealId, DealInfo> for deals matching our patterns
-  // Uses HubSpot search filters to only fetch matching deals server-side
-  const dealMap = new Map<string, DealInfo>()
-
-  console.log('  Fetching deals from HubSpot (filtered by dealtype)...')
-
-  // First, get all dealtype enum values that match our patterns
-  const propsRes = await fetch('https://api.hubapi.com/crm/v3/properties/deals/dealtype', {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  })
-  if (!propsRes.ok) throw new Error(`Failed to fetch dealtype property: ${propsRes.status}`)
-
-  const propsData = await propsRes.json()
-  const allOptions: { label: string; value: string }[] = propsData.options || []
-
-  const matchingValues = allOptions
-    .filter(o => DEAL_PATTERNS.some(p => o.label.toLowerCase().includes(p)))
-    .map(o => o.value)
-
-  console.log(`  Found ${matchingValues.length} matching dealtype values:`)
-  for (const v of matchingValues) {
-    const label = allOptions.find(o => o.value === v)?.label || v
-    console.log(`    - ${label}`)
-  }
-  console.log()
-
-  if (matchingValues.length === 0) {
-    console.log('  No matching dealtype values found.')
-    return dealMap
-  }
-
-  // HubSpot search allows up to 3 filter groups, each with multiple filters
-  // We need one IN filter per batch of values (max ~20 per filter for safety)
-  // But HubSpot supports IN via multiple EQ filters in separate filterGroups (OR logic)
-  // Simpler: run one search per dealtype value
-  for (const dealTypeValue of matchingValues) {
-    let after: string | undefined
-    let pages = 0
-
-    do {
-      pages++
-      const payload: any = {
-        limit: 100,
-        properties: ['dealname', 'dealtype', 'duda_site_code'],
-        filterGroups: [{
-          filters: [{
-            propertyName: 'dealtype',
-            operator: 'EQ',
-            value: dealTypeValue,
-          }],
-        }],
-      }
-      if (after) payload.after = after
-
-      const response = await fetch('https://api.hubapi.com/crm/v3/objects/deals/search', {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      })
-
-      if (response.status === 429) {
-        const retryAfter = response.headers.get('Retry-After')
-        const waitMs = retryAfter ? parseInt(retryAfter) * 1000 : 5000
-        console.log(`  Rate limited, waiting ${waitMs / 1000}s...`)
-        await sleep(waitMs)
-        continue
-      }
-
-      if (!response.ok) {
-        throw new Error(`HubSpot Deals API ${response.status}: ${await response.text()}`)
-      }
-
-      const data = await response.json()
-
-      for (const deal of data.results || []) {
-        const dealType = deal.properties?.dealtype || ''
-        const dealName = deal.properties?.dealname || ''
-        const dudaSiteCode = deal.properties?.duda_site_code || ''
-        dealMap.set(deal.id, { name: dealName, dealType, dudaSiteCode })
-      }
-
-      after = data.paging?.next?.after
-      await sleep(150)
-    } while (after && pages < 200)
-  }
-
-  process.stdout.write(`\r  Found ${dealMap.size} matching deals total                                    \n`)
-  return dealMap
-}
-
-// ─── HubSpot: Resolve Deal → Contact Associations ────────────
-
-async function resolveDealContacts(
-  accessToken: string,
-  dealIds: string[]
-): Promise<Map<string, string[]>> {
-  // Returns Map<dealId, contactId[]>
-  const result = new Map<string, string[]>()
-
-  // Batch in groups of 100 (HubSpot limit)
-  for (let i = 0; i < dealIds.length; i += 100) {
-    const batch = dealIds.slice(i, i + 100)
-
-    const response = await fetch(
-      'https://api.hubapi.com/crm/v4/associations/deals/contacts/batch/read',
-      {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          inputs: batch.map(id => ({ id })),
-        }),
-      }
-    )
-
-    if (!response.ok) {
-      console.error(`  Warning: Failed to fetch associations batch: ${response.status}`)
-      continue
-    }
-
-    const data = await response.json()
-    for (const item of data.results || []) {
-      const dealId = item.from?.id
-      const contactIds = (item.to || []).map((t: any) => t.toObjectId?.toString())
-      if (dealId && contactIds.length > 0) {
-        result.set(dealId, contactIds)
-      }
-    }
-
-    await sleep(150)
-  }
-
-  return result
-}
-
 // ─── HubSpot: Fetch Contact Details ──────────────────────────
 
 async function fetchContacts(
@@ -446,44 +290,35 @@ async function main() {
   if (!dryRun && !googleApiKey) { console.error('ERROR: Missing GOOGLE_PLACES_API_KEY (use --dry-run to skip)'); process.exit(1) }
   if (!dryRun && !fsqApiKey) { console.error('ERROR: Missing FOURSQUARE_API_KEY (use --dry-run to skip)'); process.exit(1) }
 
-  // ─── Step 1: Get matching deals from HubSpot ─────────────
-
-  const dealMap = await fetchMatchingDeals(hubspotToken)
-  if (dealMap.size === 0) {
-    console.log('\n  No deals found matching Discover/Boost/Dominate.')
-    process.exit(0)
-  }
+  const supabase = createClient(supabaseUrl, supabaseKey)
 
-  // ─── Step 2: Resolve deal → contact associations ─────────
+  // ─── Step 1: Contacts with a purchased package ───────────
 
-  console.log('  Resolving deal-to-contact associations...')
-  const dealContactMap = await resolveDealContacts(hubspotToken, [...dealMap.keys()])
+  console.log('  Loading contacts with a purchased package...')
+  const packaged = await listPackagedContacts(supabase)
 
-  // Build contact → deal info map (one contact may have multiple deals, take first)
+  // Contact → package deal (the deal their highest package came from)
   const contactDealMap = new Map<string, string>()
   const contactDudaCodeMap = new Map<string, string>()
-  for (const [dealId, contactIds] of dealContactMap) {
-    const dealInfo = dealMap.get(dealId)
-    const dealName = dealInfo?.name || ''
-    const dudaCode = dealInfo?.dudaSiteCode || ''
-    for (const contactId of contactIds) {
-      if (!contactDealMap.has(contactId)) {
-        contactDealMap.set(contactId, `${dealName} [${dealInfo?.dealType || ''}]`)
-      }
-      if (dudaCode && !contactDudaCodeMap.has(contactId)) {
-        contactDudaCodeMap.set(contactId, dudaCode)
-      }
+  for (const contact of packaged) {
+    contactDealMap.set(contact.hubspot_contact_id, `${contact.dealname || ''} [${contact.package}]`)
+    if (contact.duda_site_code) {
+      contactDudaCodeMap.set(contact.hubspot_contact_id, contact.duda_site_code)
     }
   }
 
-  console.log(`  Found ${contactDealMap.size} unique contacts across ${dealMap.size} deals\n`)
+  const byPackage = (pkg: string) => packaged.filter(c => c.package === pkg).length
+  console.log(
+    `  Found ${packaged.length} contacts (${byPackage('discover')} discover, ` +
+    `${byPackage('boost')} boost, ${byPackage('dominate')} dominate)\n`
+  )
 
   if (contactDealMap.size === 0) {
-    console.log('  No contacts associated with matching deals.')
+    console.log('  No contacts with a Discover/Boost/Dominate package. Sync deals and assign products to packages first.')
     process.exit(0)
   }
 
-  // ─── Step 3: Fetch contact details from HubSpot ──────────
+  // ─── Step 2: Fetch contact details from HubSpot ──────────
 
   let contactIds = [...contactDealMap.keys()]
   if (limit) contactIds = contactIds.slice(0, limit)
@@ -512,9 +347,8 @@ async function main() {
 
   console.log(`  Loaded ${contacts.length} contacts\n`)
 
-  // ─── Step 4: Check existing service links & resolve websites via Duda ──
+  // ─── Step 3: Check existing service links & resolve websites via Duda ──
 
-  const supabase = createClient(supabaseUrl, supabaseKey)
   const { data: existingIdentities } = await supabase
     .from('service_identity_map')
     .select('hubspot_contact_id, foursquare_venue_id, google_place_id, duda_site_code')
@@ -530,7 +364,7 @@ async function main() {
   }
 
   // Resolve real website URLs from Duda for contacts that have a site code
-  // Sources: 1) HubSpot deal's duda_site_code, 2) service_identity_map
+  // Sources: 1) the package deal's duda_site_code, 2) service_identity_map
   const dudaUser = process.env.DUDA_API_USER
   const dudaPass = process.env.DUDA_API_PASSWORD
   const dudaWebsiteMap = new Map<string, string>()
@@ -538,7 +372,7 @@ async function main() {
   if (dudaUser && dudaPass) {
     const dudaAuth = 'Basic ' + Buffer.from(`${dudaUser}:${dudaPass}`).toString('base64')
     const siteCodes = new Set<string>()
-    // Collect from HubSpot deals (primary source)
+    // Collect from the package deals (primary source)
     for (const [contactId, code] of contactDudaCodeMap) {
       siteCodes.add(code)
     }
@@ -592,7 +426,7 @@ async function main() {
     // Otherwise keep whatever HubSpot had (will be validated by completeness check)
   }
 
-  // ─── Step 5: Audit each contact ──────────────────────────
+  // ─── Step 4: Audit each contact ──────────────────────────
 
   const auditRows: AuditRow[] = []
   let processed = 0
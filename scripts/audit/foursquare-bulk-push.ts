@@ -10,6 +10,10 @@
  *   - Updates service_identity_map.google_place_id (if not already set)
  *   - Updates onboarding_status for 'foursquare' service
  *
+ * Venue matching/creation lives in lib/onboarding/foursquare.ts, which also
+ * backs the in-app bulk runner (Companies list → Bulk onboarding). Prefer
+ * that for ad-hoc batches; this script remains for CSV-driven audits.
+ *
  * Safety features:
  *   - Dry-run mode (no writes)
  *   - --limit to process only N rows
@@ -34,20 +38,21 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
-import { createClient } from '@supabase/supabase-js'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
 import { readFileSync, writeFileSync, appendFileSync } from 'fs'
 import { join } from 'path'
+import {
+  buildVenuePayload,
+  createFoursquareVenue,
+  fetchGooglePlaceDetails,
+  linkFoursquareVenue,
+} from '../../lib/onboarding/foursquare'
 
 // ─── Configuration ───────────────────────────────────────────
 
 const CSV_PATH = 'scripts/audit/foursquare-audit-2026-04-06-merged.csv'
 
-const FSQ_CREATE_URL = 'https://places-api.foursquare.com/places'
-const GOOGLE_PLACES_BASE = 'https://places.googleapis.com/v1'
-const FSQ_VERSION = '2025-06-17'
-
 const DELAY_BETWEEN_PUSHES_MS = 500
-const MAX_RETRIES = 3
 
 // ─── Types ───────────────────────────────────────────────────
 
@@ -158,126 +163,11 @@ function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms))
 }
 
-function sanitizeWebsite(url: string): string {
-  if (!url) return ''
-  let u = url.trim()
-  if (u.startsWith('https://https://')) u = u.slice('https://'.length)
-  if (u.startsWith('http://http://')) u = u.slice('http://'.length)
-  if (!u.startsWith('http://') && !u.startsWith('https://')) u = 'https://' + u
-  return u
-}
-
-function sanitizePhone(phone: string): string {
-  if (!phone) return ''
-  // Keep digits and leading +
-  const cleaned = phone.replace(/[^\d+]/g, '')
-  return cleaned
-}
-
-// ─── Google Places: fetch rich details for CREATE ─────────────
-
-async function fetchGooglePlaceDetails(placeId: string, apiKey: string) {
-  const fields = [
-    'id', 'displayName', 'formattedAddress', 'addressComponents',
-    'location', 'websiteUri', 'nationalPhoneNumber',
-    'regularOpeningHours', 'types', 'primaryType', 'primaryTypeDisplayName',
-  ].join(',')
-
-  const res = await fetch(`${GOOGLE_PLACES_BASE}/places/${placeId}`, {
-    headers: {
-      'X-Goog-Api-Key': apiKey,
-      'X-Goog-FieldMask': fields,
-    },
-  })
-
-  if (!res.ok) {
-    throw new Error(`Google Places details ${res.status}: ${await res.text()}`)
-  }
-
-  return res.json()
-}
-
-// ─── Foursquare: create new venue ────────────────────────────
-
-async function createFoursquareVenue(
-  payload: Record<string, unknown>,
-  apiKey: string
-): Promise<{ venueId: string; raw: any }> {
-  const res = await fetch(FSQ_CREATE_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-      'X-Places-Api-Version': FSQ_VERSION,
-    },
-    body: JSON.stringify(payload),
-  })
-
-  if (!res.ok) {
-    const errText = await res.text()
-    throw new Error(`Foursquare create ${res.status}: ${errText}`)
-  }
-
-  const venue = await res.json()
-  const venueId = venue.fsq_place_id || venue.fsq_id || venue.id
-  if (!venueId) {
-    throw new Error(`Foursquare returned no venue ID: ${JSON.stringify(venue)}`)
-  }
-
-  return { venueId, raw: venue }
-}
-
-// ─── Supabase: update identity map & status ──────────────────
-
-async function updateSupabase(
-  supabase: ReturnType<typeof createClient>,
-  contactId: string,
-  venueId: string,
-  venueName: string,
-  googlePlaceId: string | null,
-  action: 'CREATE' | 'LINK_EXACT'
-): Promise<void> {
-  // Upsert service_identity_map
-  const identityPayload: Record<string, any> = {
-    hubspot_contact_id: contactId,
-    foursquare_venue_id: venueId,
-  }
-  if (googlePlaceId) identityPayload.google_place_id = googlePlaceId
-
-  const { error: identityError } = await supabase
-    .from('service_identity_map')
-    .upsert(identityPayload, { onConflict: 'hubspot_contact_id' })
-
-  if (identityError) {
-    throw new Error(`Supabase identity upsert: ${identityError.message}`)
-  }
-
-  // Upsert onboarding_status
-  const { error: statusError } = await supabase
-    .from('onboarding_status')
-    .upsert({
-      hubspot_contact_id: contactId,
-      service: 'foursquare',
-      status: 'active',
-      provisioned_at: new Date().toISOString(),
-      metadata: {
-        venue_id: venueId,
-        venue_name: venueName,
-        bulk_push: true,
-        action,
-      },
-    }, { onConflict: 'hubspot_contact_id,service' })
-
-  if (statusError) {
-    throw new Error(`Supabase status upsert: ${statusError.message}`)
-  }
-}
-
 // ─── Process a single row ────────────────────────────────────
 
 async function processRow(
   row: AuditRow,
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient,
   existingVenueIds: Set<string>,
   dryRun: boolean,
   googleApiKey: string,
@@ -326,14 +216,14 @@ async function processRow(
     }
 
     try {
-      await updateSupabase(
-        supabase,
-        hubspotId,
+      await linkFoursquareVenue(supabase, {
+        contactId: hubspotId,
         venueId,
         venueName,
-        row['Google Place ID'].trim() || null,
-        action
-      )
+        googlePlaceId: row['Google Place ID'].trim() || null,
+        action,
+        metadata: { bulk_push: true },
+      })
       return {
         hubspot_id: hubspotId,
         business_name: businessName,
@@ -377,7 +267,7 @@ async function processRow(
   }
 
   // Fetch rich Google Place details for accurate data
-  let googlePlace: any
+  let googlePlace: Awaited<ReturnType<typeof fetchGooglePlaceDetails>>
   try {
     googlePlace = await fetchGooglePlaceDetails(googlePlaceId, googleApiKey)
   } catch (err: any) {
@@ -390,40 +280,16 @@ async function processRow(
     }
   }
 
-  // Extract address components from Google (authoritative source)
-  const addrComp: Record<string, string> = {}
-  for (const comp of googlePlace.addressComponents || []) {
-    if (comp.types.includes('street_number')) addrComp.streetNumber = comp.longText
-    if (comp.types.includes('route')) addrComp.street = comp.longText
-    if (comp.types.includes('locality')) addrComp.city = comp.longText
-    if (comp.types.includes('administrative_area_level_1')) addrComp.state = comp.shortText
-    if (comp.types.includes('postal_code')) addrComp.zipCode = comp.longText
-  }
-
   // Build Foursquare payload — Google data takes precedence where available
-  const street = addrComp.streetNumber && addrComp.street
-    ? `${addrComp.streetNumber} ${addrComp.street}`
-    : row['Address'].trim()
-
-  const payload: Record<string, unknown> = {
-    name: businessName, // Use our canonical name, not Google's (may include junk)
-  }
-  if (street) payload.address = street
-  if (addrComp.city || row['City'].trim()) payload.city = addrComp.city || row['City'].trim()
-  if (addrComp.state || row['State'].trim()) payload.state = addrComp.state || row['State'].trim()
-  if (addrComp.zipCode || row['ZIP'].trim()) payload.zip = addrComp.zipCode || row['ZIP'].trim()
-
-  // Lat/lng from Google
-  if (googlePlace.location?.latitude && googlePlace.location?.longitude) {
-    payload.ll = `${googlePlace.location.latitude},${googlePlace.location.longitude}`
-  }
-
-  // Phone — prefer our website (Zing-deployed), fall back to Google's
-  const website = sanitizeWebsite(row['Website'].trim()) || googlePlace.websiteUri
-  if (website) payload.url = website
-
-  const phone = sanitizePhone(row['Phone'].trim()) || googlePlace.nationalPhoneNumber
-  if (phone) payload.tel = phone
+  const payload = buildVenuePayload({
+    name: businessName,
+    address: row['Address'],
+    city: row['City'],
+    state: row['State'],
+    zip: row['ZIP'],
+    website: row['Website'],
+    phone: row['Phone'],
+  }, googlePlace)
 
   if (dryRun) {
     return {
@@ -439,7 +305,14 @@ async function processRow(
   // Create the venue
   try {
     const { venueId } = await createFoursquareVenue(payload, fsqApiKey)
-    await updateSupabase(supabase, hubspotId, venueId, businessName, googlePlaceId, action)
+    await linkFoursquareVenue(supabase, {
+      contactId: hubspotId,
+      venueId,
+      venueName: businessName,
+      googlePlaceId,
+      action,
+      metadata: { bulk_push: true },
+    })
     return {
       hubspot_id: hubspotId,
       business_name: businessName,
@@ -0,0 +1,221 @@
+/**
+ * Build the US Places Dataset
+ *
+ * Converts Census Bureau files (public domain) or GeoNames dumps (CC BY 4.0)
+ * into the compact JSON that lib/geo/us-places.ts reads for landing page
+ * geo-target suggestions:
+ *   lib/geo/data/us-places.json  - [name, state, lat, lng, population, kind]
+ *   lib/geo/data/us-zips.json    - { "80302": [lat, lng] }
+ *
+ * Census inputs (download and unzip from census.gov):
+ *   --places      Gazetteer places file, e.g. 2023_Gaz_place_national.txt
+ *                 https://www.census.gov/geographies/reference-files/time-series/geo/gazetteer-files.html
+ *   --zips        Gazetteer ZCTA file, e.g. 2023_Gaz_zcta_national.txt (same page)
+ *   --population  Optional city/town population estimates, e.g. sub-est2023_all.csv
+ *                 https://www.census.gov/data/tables/time-series/demo/popest/2020s-total-cities-and-towns.html
+ *
+ * GeoNames inputs (download and unzip from download.geonames.org), used
+ * instead of --places / --zips:
+ *   --geonames-cities  Populated places, e.g. cities1000.txt (export/dump/)
+ *   --geonames-zips    US postal codes, US.txt (export/zip/US.zip)
+ * GeoNames only lists places with 1,000+ people (about half the Gazetteer
+ * places) but has a population for each. Sections of a city (PPLX) become
+ * communities.
+ *
+ * Usage:
+ *   npx tsx scripts/import/build-us-places.ts \
+ *     --places 2023_Gaz_place_national.txt \
+ *     --zips 2023_Gaz_zcta_national.txt \
+ *     --population sub-est2023_all.csv
+ *
+ *   npx tsx scripts/import/build-us-places.ts \
+ *     --geonames-cities cities1000.txt \
+ *     --geonames-zips US.txt
+ *
+ * Re-run when a new vintage comes out and commit the output.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+
+const OUT_DIR = join(process.cwd(), 'lib', 'geo', 'data')
+
+// Gazetteer names end with the legal/statistical area type; strip it
+const NAME_SUFFIX = / (city and borough|consolidated government \(balance\)|metropolitan government \(balance\)|unified government \(balance\)|urban county|municipality|borough|city|town|village|CDP|comunidad|zona urbana)$/
+
+// Census-designated places are unincorporated communities, not cities
+const COMMUNITY_SUFFIX = / (CDP|comunidad|zona urbana)$/
+
+// Inactive or fictitious entities
+const SKIP_FUNCSTAT = new Set(['F', 'I'])
+
+// GeoNames feature codes: sections of a populated place and localities are
+// communities; abandoned, destroyed and historical places are skipped
+const GEONAMES_COMMUNITY_CODES = new Set(['PPLX', 'PPLL'])
+const GEONAMES_SKIP_CODES = new Set(['PPLQ', 'PPLW', 'PPLH', 'PPLCH'])
+
+type PlaceRow = [string, string, number, number, number | null, 'city' | 'community']
+
+function arg(name: string): string | undefined {
+  const args = process.argv.slice(2)
+  const index = args.indexOf(`--${name}`)
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+/**
+ * Gazetteer files are tab-separated with padded header names
+ */
+function readTsv(file: string): Array<Record<string, string>> {
+  const [header, ...lines] = readFileSync(file, 'utf8').split(/\r?\n/).filter((l) => l.trim())
+  const columns = header.split('\t').map((c) => c.trim())
+  return lines.map((line) => {
+    const values = line.split('\t')
+    return Object.fromEntries(columns.map((c, i) => [c, (values[i] ?? '').trim()]))
+  })
+}
+
+/** Split a CSV line, keeping quoted commas (some place names have them) */
+function splitCsvLine(line: string): string[] {
+  const values: string[] = []
+  let current = ''
+  let quoted = false
+  for (const char of line) {
+    if (char === '"') quoted = !quoted
+    else if (char === ',' && !quoted) {
+      values.push(current)
+      current = ''
+    } else current += char
+  }
+  values.push(current)
+  return values
+}
+
+/**
+ * Population estimates, keyed by place GEOID (state + place FIPS).
+ * Uses the latest POPESTIMATEyyyy column in the file.
+ */
+function readPopulation(file: string): Map<string, number> {
+  // The estimates files are Latin-1 encoded
+  const [header, ...lines] = readFileSync(file, 'latin1').split(/\r?\n/).filter((l) => l.trim())
+  const columns = splitCsvLine(header)
+  const popColumn = columns.filter((c) => /^POPESTIMATE\d{4}$/.test(c)).sort().pop()
+  if (!popColumn) throw new Error(`No POPESTIMATEyyyy column in ${file}`)
+
+  const idx = (name: string) => columns.indexOf(name)
+  const population = new Map<string, number>()
+  for (const line of lines) {
+    const values = splitCsvLine(line)
+    // 162 = incorporated place
+    if (values[idx('SUMLEV')] !== '162') continue
+    const geoid = values[idx('STATE')].padStart(2, '0') + values[idx('PLACE')].padStart(5, '0')
+    population.set(geoid, Number(values[idx(popColumn)]) || 0)
+  }
+
+  console.log(`   ${population.size} population estimates (${popColumn})`)
+  return population
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
+
+/** GeoNames dumps are tab-separated without a header row */
+function readGeoNames(file: string): string[][] {
+  return readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .filter((l) => l.trim())
+    .map((line) => line.split('\t'))
+}
+
+function censusPlaces(placesFile: string, populationFile: string | undefined): PlaceRow[] {
+  const population = populationFile ? readPopulation(populationFile) : new Map<string, number>()
+
+  return readTsv(placesFile)
+    .filter((row) => !SKIP_FUNCSTAT.has(row.FUNCSTAT))
+    .map((row): PlaceRow => [
+      row.NAME.replace(NAME_SUFFIX, ''),
+      row.USPS,
+      round(Number(row.INTPTLAT)),
+      round(Number(row.INTPTLONG)),
+      population.get(row.GEOID) ?? null,
+      COMMUNITY_SUFFIX.test(row.NAME) ? 'community' : 'city',
+    ])
+}
+
+/**
+ * cities*.txt columns: geonameid, name, asciiname, alternatenames, latitude,
+ * longitude, feature class, feature code, country code, cc2, admin1 (the
+ * state code for the US), admin2-4, population, ...
+ */
+function geoNamesPlaces(file: string): PlaceRow[] {
+  return readGeoNames(file)
+    .filter((values) => values[8] === 'US' && values[6] === 'P' && !GEONAMES_SKIP_CODES.has(values[7]))
+    .map((values): PlaceRow => [
+      values[1],
+      values[10],
+      round(Number(values[4])),
+      round(Number(values[5])),
+      Number(values[14]) || null,
+      GEONAMES_COMMUNITY_CODES.has(values[7]) ? 'community' : 'city',
+    ])
+}
+
+function censusZips(file: string): Record<string, [number, number]> {
+  const zips: Record<string, [number, number]> = {}
+  for (const row of readTsv(file)) {
+    const lat = Number(row.INTPTLAT)
+    const lng = Number(row.INTPTLONG)
+    if (row.GEOID && Number.isFinite(lat) && Number.isFinite(lng)) {
+      zips[row.GEOID] = [round(lat), round(lng)]
+    }
+  }
+  return zips
+}
+
+/**
+ * US.txt columns: country code, postal code, place name, admin1 name,
+ * admin1 code, admin2 name, admin2 code, admin3 name, admin3 code,
+ * latitude, longitude, accuracy
+ */
+function geoNamesZips(file: string): Record<string, [number, number]> {
+  const zips: Record<string, [number, number]> = {}
+  for (const values of readGeoNames(file)) {
+    const lat = Number(values[9])
+    const lng = Number(values[10])
+    if (/^\d{5}$/.test(values[1]) && values[9] && Number.isFinite(lat) && Number.isFinite(lng)) {
+      zips[values[1]] = [round(lat), round(lng)]
+    }
+  }
+  return zips
+}
+
+function main() {
+  const placesFile = arg('places')
+  const zipsFile = arg('zips')
+  const populationFile = arg('population')
+  const geoNamesCitiesFile = arg('geonames-cities')
+  const geoNamesZipsFile = arg('geonames-zips')
+
+  if (!(placesFile || geoNamesCitiesFile) || !(zipsFile || geoNamesZipsFile)) {
+    console.error('Usage: npx tsx scripts/import/build-us-places.ts --places <gazetteer places> --zips <gazetteer zcta> [--population <sub-est csv>]')
+    console.error('   or: npx tsx scripts/import/build-us-places.ts --geonames-cities <cities1000.txt> --geonames-zips <US.txt>')
+    process.exit(1)
+  }
+
+  console.log('\n🗺️  Building US places dataset\n')
+
+  const places = (placesFile ? censusPlaces(placesFile, populationFile) : geoNamesPlaces(geoNamesCitiesFile!))
+    .filter(([, , lat, lng]) => Number.isFinite(lat) && Number.isFinite(lng))
+
+  const zips = zipsFile ? censusZips(zipsFile) : geoNamesZips(geoNamesZipsFile!)
+
+  mkdirSync(OUT_DIR, { recursive: true })
+  writeFileSync(join(OUT_DIR, 'us-places.json'), JSON.stringify(places))
+  writeFileSync(join(OUT_DIR, 'us-zips.json'), JSON.stringify(zips))
+
+  console.log(`   ${places.length} places → lib/geo/data/us-places.json`)
+  console.log(`   ${Object.keys(zips).length} ZIP codes → lib/geo/data/us-zips.json`)
+  console.log('\n✅ Done\n')
+}
+
+main()
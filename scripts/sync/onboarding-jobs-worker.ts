@@ -0,0 +1,83 @@
+/**
+ * CLI Script: Onboarding Jobs Worker
+ *
+ * Long-running worker for the onboarding_jobs queue (blog and landing page
+ * generation). Unlike the every-minute CRON route, it is not bound by a
+ * serverless time limit, so it can run jobs back to back without waiting
+ * for a fresh function.
+ *
+ * Usage:
+ *   npx tsx scripts/sync/onboarding-jobs-worker.ts          # poll forever
+ *   npx tsx scripts/sync/onboarding-jobs-worker.ts --once   # drain once and exit
+ *
+ * Safe to run alongside the CRON route - jobs are claimed with
+ * FOR UPDATE SKIP LOCKED so each job runs on exactly one worker.
+ *
+ * Required env vars:
+ *   NEXT_PUBLIC_SUPABASE_URL - Supabase project URL
+ *   SUPABASE_SERVICE_ROLE_KEY - Supabase service role key
+ *   BLOG_SERVICE_URL - Blog generation service
+ *   LANDING_PAGES_URL - Landing pages generation service
+ */
+
+import 'dotenv/config'
+import { hostname } from 'os'
+import { createClient } from '@supabase/supabase-js'
+import { drainQueue } from '../../lib/onboarding/job-worker'
+
+const POLL_INTERVAL_MS = 15_000
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+async function main() {
+  console.log('═'.repeat(70))
+  console.log('  ⚙️  ONBOARDING JOBS WORKER')
+  console.log('  Runs queued blog and landing page generation jobs')
+  console.log('═'.repeat(70))
+  console.log()
+
+  const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY')
+    process.exit(1)
+  }
+
+  const once = process.argv.includes('--once')
+  const workerId = `cli-${hostname()}-${process.pid}`
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+  let stopping = false
+  process.on('SIGINT', () => {
+    console.log('\n⏹️  Stopping after the current job...')
+    stopping = true
+  })
+
+  console.log(`Worker: ${workerId}`)
+  console.log(`Mode:   ${once ? 'drain once' : `poll every ${POLL_INTERVAL_MS / 1000}s`}`)
+  console.log()
+
+  do {
+    const result = await drainQueue(supabase, { workerId })
+
+    if (result.processed > 0 || result.recovered > 0) {
+      console.log(
+        `[${new Date().toISOString()}] processed=${result.processed} succeeded=${result.succeeded} ` +
+        `failed=${result.failed} retried=${result.retried} cancelled=${result.cancelled} recovered=${result.recovered}`
+      )
+    }
+
+    if (!once && !stopping) await sleep(POLL_INTERVAL_MS)
+  } while (!once && !stopping)
+
+  console.log('✅ Worker stopped')
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error('❌ Worker crashed:', error)
+  process.exit(1)
+})
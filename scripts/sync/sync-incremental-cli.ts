@@ -33,7 +33,7 @@
  */
 
 import 'dotenv/config'
-import { syncAllContacts, SyncedContactInfo, FieldChange, getLifecycleLabel } from '../../lib/sync/all-contacts-sync-service'
+import { syncAllContacts, SyncedContactInfo, FieldChange } from '../../lib/sync/all-contacts-sync-service'
 
 async function main() {
   console.log('═'.repeat(70))
@@ -199,13 +199,9 @@ async function main() {
         contactsWithChanges.slice(0, detailLimit).forEach((contact, index) => {
           console.log(`     ${index + 1}. ${contact.name} (ID: ${contact.hubspotId})`)
           contact.changedFields.forEach(change => {
-            // Special handling for lifecyclestage - translate numeric IDs to labels
-            let oldVal = change.oldValue || '(empty)'
-            let newVal = change.newValue || '(empty)'
-            if (change.field === 'lifecyclestage') {
-              oldVal = oldVal === '(empty)' ? oldVal : `${getLifecycleLabel(change.oldValue)} [${oldVal}]`
-              newVal = newVal === '(empty)' ? newVal : `${getLifecycleLabel(change.newValue)} [${newVal}]`
-            }
+            // lifecyclestage values are already labels (resolved by the sync)
+            const oldVal = change.oldValue || '(empty)'
+            const newVal = change.newValue || '(empty)'
             // Truncate long values
             const oldDisplay = oldVal.length > 50 ? oldVal.substring(0, 47) + '...' : oldVal
             const newDisplay = newVal.length > 50 ? newVal.substring(0, 47) + '...' : newVal
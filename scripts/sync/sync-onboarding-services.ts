@@ -0,0 +1,85 @@
+/**
+ * CLI Script: Sync Onboarding Services
+ *
+ * Upserts every service in lib/onboarding/registry.ts into the
+ * onboarding_services table. onboarding_status, onboarding_events and
+ * onboarding_jobs reference that table, so run this after registering a new
+ * service and before deploying code that writes rows for it.
+ *
+ * Services removed from the registry are disabled, not deleted - existing
+ * status and history rows still reference them.
+ *
+ * Usage:
+ *   npx tsx scripts/sync/sync-onboarding-services.ts
+ *
+ * Required env vars:
+ *   NEXT_PUBLIC_SUPABASE_URL - Supabase project URL
+ *   SUPABASE_SERVICE_ROLE_KEY - Supabase service role key
+ */
+
+import 'dotenv/config'
+import { createClient } from '@supabase/supabase-js'
+import { ONBOARDING_SERVICES, SERVICE_IDS } from '../../lib/onboarding/registry'
+
+async function main() {
+  console.log('═'.repeat(70))
+  console.log('  🧩 SYNC ONBOARDING SERVICES')
+  console.log('═'.repeat(70))
+  console.log()
+
+  const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY')
+    process.exit(1)
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+  const rows = ONBOARDING_SERVICES.map((service, index) => ({
+    id: service.id,
+    label: service.label,
+    identity_fields: [...service.identityFields],
+    uses_jobs: service.usesJobs,
+    sort_order: index,
+    enabled: true,
+  }))
+
+  const { error: upsertError } = await supabase
+    .from('onboarding_services')
+    .upsert(rows, { onConflict: 'id' })
+
+  if (upsertError) {
+    console.error('❌ Failed to upsert services:', upsertError.message)
+    process.exit(1)
+  }
+
+  for (const row of rows) {
+    console.log(`  ✓ ${row.id.padEnd(16)} ${row.label}${row.uses_jobs ? ' (jobs)' : ''}`)
+  }
+
+  const { data: disabled, error: disableError } = await supabase
+    .from('onboarding_services')
+    .update({ enabled: false })
+    .not('id', 'in', `(${SERVICE_IDS.join(',')})`)
+    .eq('enabled', true)
+    .select('id')
+
+  if (disableError) {
+    console.error('❌ Failed to disable removed services:', disableError.message)
+    process.exit(1)
+  }
+
+  for (const row of disabled || []) {
+    console.log(`  ⏸️  ${row.id} is no longer registered - disabled`)
+  }
+
+  console.log()
+  console.log(`✅ ${rows.length} services synced`)
+}
+
+main().catch((error) => {
+  console.error('❌ Sync failed:', error)
+  process.exit(1)
+})
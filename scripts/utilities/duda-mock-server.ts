@@ -0,0 +1,210 @@
+/**
+ * Duda API Mock Server
+ *
+ * In-memory stand-in for the parts of the Duda Partner API that lib/duda
+ * calls, for exercising snippets, publishing, collections, blog posts and
+ * site code validation without touching real customer sites.
+ *
+ * Usage:
+ *   npx tsx scripts/utilities/duda-mock-server.ts
+ *
+ * Then run the app with:
+ *   DUDA_API_URL=http://localhost:4010/api DUDA_API_USER=mock DUDA_API_PASSWORD=mock
+ *
+ * Options (env):
+ *   DUDA_MOCK_PORT        - port (default 4010)
+ *   DUDA_MOCK_SITES       - comma-separated site codes that exist (default mocksite1,mocksite2)
+ *   DUDA_MOCK_FAIL_EVERY  - answer every Nth request with 503, to exercise retries (default off)
+ *
+ * Site code "forbidden" answers 403; any other unknown code answers 404.
+ * GET /__mock/state dumps everything the server has stored.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+
+const PORT = Number(process.env.DUDA_MOCK_PORT) || 4010;
+const FAIL_EVERY = Number(process.env.DUDA_MOCK_FAIL_EVERY) || 0;
+const SITE_CODES = (process.env.DUDA_MOCK_SITES || 'mocksite1,mocksite2').split(',').map((s) => s.trim()).filter(Boolean);
+
+interface MockSite {
+  site_name: string;
+  site_default_domain: string;
+  publish_status: 'PUBLISHED' | 'UNPUBLISHED' | 'NOT_PUBLISHED_YET';
+  last_published_date?: string;
+  snippets: Map<string, { uuid: string; markup: string; location: string }>;
+  collections: Map<string, { name: string; fields: Array<{ name: string; type: string }>; values: Array<{ id: string; data: Record<string, unknown> }> }>;
+  posts: Map<string, Record<string, unknown>>;
+}
+
+const sites = new Map<string, MockSite>(
+  SITE_CODES.map((code) => [code, {
+    site_name: code,
+    site_default_domain: `${code}.mock.dudaone.com`,
+    publish_status: 'NOT_PUBLISHED_YET',
+    snippets: new Map(),
+    collections: new Map([['landing_pages', { name: 'landing_pages', fields: [], values: [] }]]),
+    posts: new Map(),
+  }])
+);
+
+let requestCount = 0;
+
+function send(res: ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, body === undefined ? {} : { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function notFound(res: ServerResponse, what: string) {
+  send(res, 404, { error_code: 'ResourceNotExist', message: `${what} not found` });
+}
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString();
+  return text ? JSON.parse(text) : undefined;
+}
+
+function siteView(site: MockSite) {
+  const { site_name, site_default_domain, publish_status, last_published_date } = site;
+  return { site_name, site_default_domain, publish_status, last_published_date };
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const method = req.method || 'GET';
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  console.log(`${method} ${url.pathname}`);
+
+  if (url.pathname === '/__mock/state') {
+    return send(res, 200, [...sites.values()].map((site) => ({
+      ...siteView(site),
+      snippets: [...site.snippets.values()],
+      collections: [...site.collections.values()],
+      posts: [...site.posts.values()],
+    })));
+  }
+
+  if (!req.headers.authorization?.startsWith('Basic ')) {
+    return send(res, 401, { error_code: 'Unauthorized', message: 'Missing Basic auth' });
+  }
+
+  requestCount++;
+  if (FAIL_EVERY && requestCount % FAIL_EVERY === 0) {
+    return send(res, 503, { error_code: 'ServiceUnavailable', message: 'Injected failure' });
+  }
+
+  // /api/sites/multiscreen/...
+  if (parts[0] !== 'api' || parts[1] !== 'sites' || parts[2] !== 'multiscreen') {
+    return notFound(res, 'Endpoint');
+  }
+  const rest = parts.slice(3);
+
+  // publish / unpublish
+  if ((rest[0] === 'publish' || rest[0] === 'unpublish') && method === 'POST') {
+    const site = sites.get(rest[1]);
+    if (!site) return notFound(res, `Site ${rest[1]}`);
+    site.publish_status = rest[0] === 'publish' ? 'PUBLISHED' : 'UNPUBLISHED';
+    if (rest[0] === 'publish') site.last_published_date = new Date().toISOString();
+    return send(res, 204);
+  }
+
+  const [siteCode, resource, id, action] = rest;
+  if (siteCode === 'forbidden') {
+    return send(res, 403, { error_code: 'Forbidden', message: 'Site belongs to another account' });
+  }
+  const site = sites.get(siteCode);
+  if (!site) return notFound(res, `Site ${siteCode}`);
+
+  if (!resource && method === 'GET') return send(res, 200, siteView(site));
+
+  if (resource === 'snippets') {
+    if (!id && method === 'GET') return send(res, 200, [...site.snippets.values()]);
+    if (!id && method === 'POST') {
+      const body = await readBody(req);
+      if (!body?.markup) return send(res, 400, { error_code: 'FieldInputError', message: 'markup is required' });
+      const snippet = { uuid: randomUUID(), markup: body.markup, location: body.location || 'BODY' };
+      site.snippets.set(snippet.uuid, snippet);
+      return send(res, 200, snippet);
+    }
+    const snippet = site.snippets.get(id);
+    if (!snippet) return notFound(res, `Snippet ${id}`);
+    if (method === 'GET') return send(res, 200, snippet);
+    if (method === 'PUT') {
+      Object.assign(snippet, await readBody(req));
+      return send(res, 204);
+    }
+    if (method === 'DELETE') {
+      site.snippets.delete(id);
+      return send(res, 204);
+    }
+  }
+
+  if (resource === 'collection') {
+    if (!id && method === 'GET') return send(res, 200, [...site.collections.values()].map(({ name, fields }) => ({ name, fields })));
+    const collection = site.collections.get(id);
+    if (!collection) return notFound(res, `Collection ${id}`);
+    if (!action && method === 'GET') return send(res, 200, collection);
+    if (action === 'row' && method === 'POST') {
+      const rows = (await readBody(req)) as Array<{ data: Record<string, unknown> }>;
+      const created = rows.map((row) => ({ id: randomUUID(), data: row.data }));
+      collection.values.push(...created);
+      return send(res, 200, created.map((row) => ({ id: row.id })));
+    }
+    if (action === 'row' && method === 'PUT') {
+      const rows = (await readBody(req)) as Array<{ id: string; data: Record<string, unknown> }>;
+      for (const row of rows) {
+        const existing = collection.values.find((value) => value.id === row.id);
+        if (!existing) return notFound(res, `Row ${row.id}`);
+        existing.data = row.data;
+      }
+      return send(res, 204);
+    }
+    if (action === 'row' && method === 'DELETE') {
+      const ids = (await readBody(req)) as string[];
+      collection.values = collection.values.filter((value) => !ids.includes(value.id));
+      return send(res, 204);
+    }
+  }
+
+  if (resource === 'blog' && id === 'posts') {
+    const postId = action;
+    if (!postId && method === 'GET') {
+      const limit = Number(url.searchParams.get('limit')) || 50;
+      const offset = Number(url.searchParams.get('offset')) || 0;
+      const all = [...site.posts.values()];
+      return send(res, 200, { results: all.slice(offset, offset + limit), offset, limit, total: all.length });
+    }
+    if (postId === 'import' && method === 'POST') {
+      const body = await readBody(req);
+      if (!body?.title) return send(res, 400, { error_code: 'FieldInputError', message: 'title is required' });
+      const post = { ...body, id: randomUUID(), status: 'DRAFT' };
+      site.posts.set(post.id, post);
+      return send(res, 200, post);
+    }
+    const post = site.posts.get(postId);
+    if (!post) return notFound(res, `Blog post ${postId}`);
+    if (parts[parts.length - 1] === 'publish' && method === 'POST') {
+      post.status = 'PUBLISHED';
+      post.publish_date = new Date().toISOString();
+      return send(res, 204);
+    }
+    if (method === 'GET') return send(res, 200, post);
+  }
+
+  return notFound(res, 'Endpoint');
+}
+
+createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    console.error('Mock error:', error);
+    send(res, 500, { error_code: 'InternalError', message: String(error) });
+  });
+}).listen(PORT, () => {
+  console.log(`\n🧪 Duda mock server on http://localhost:${PORT}/api`);
+  console.log(`   Sites: ${SITE_CODES.join(', ')}`);
+  if (FAIL_EVERY) console.log(`   Failing every ${FAIL_EVERY}th request with 503`);
+  console.log();
+});
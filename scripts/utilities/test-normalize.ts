@@ -0,0 +1,55 @@
+/**
+ * Normalization Corpus Test
+ *
+ * Runs every case in normalize-corpus.json through lib/normalize and
+ * reports the ones whose output differs. Exits 1 on any failure.
+ *
+ * Add a case to the corpus whenever a normalizer is fixed or extended.
+ *
+ * Usage:
+ *   npm test
+ *   npx tsx scripts/utilities/test-normalize.ts
+ */
+
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import * as normalize from '../../lib/normalize'
+
+interface CorpusCase {
+  args: unknown[]
+  expected: unknown
+}
+
+const CORPUS_FILE = join(__dirname, 'normalize-corpus.json')
+
+function main() {
+  const corpus = JSON.parse(readFileSync(CORPUS_FILE, 'utf8')) as Record<string, CorpusCase[]>
+  const functions = normalize as unknown as Record<string, (...args: unknown[]) => unknown>
+
+  let passed = 0
+  const failures: string[] = []
+
+  for (const [name, cases] of Object.entries(corpus)) {
+    const fn = functions[name]
+    if (typeof fn !== 'function') {
+      failures.push(`${name}: not exported from lib/normalize`)
+      continue
+    }
+
+    for (const { args, expected } of cases) {
+      const actual = fn(...args)
+      if (JSON.stringify(actual) === JSON.stringify(expected)) {
+        passed += 1
+      } else {
+        const call = `${name}(${args.map((a) => JSON.stringify(a)).join(', ')})`
+        failures.push(`${call}\n     expected ${JSON.stringify(expected)}\n     got      ${JSON.stringify(actual)}`)
+      }
+    }
+  }
+
+  for (const failure of failures) console.error(`  ✗ ${failure}`)
+  console.log(`\n${passed} passed, ${failures.length} failed`)
+  if (failures.length > 0) process.exit(1)
+}
+
+main()
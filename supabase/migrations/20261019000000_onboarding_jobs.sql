@@ -0,0 +1,104 @@
+-- Onboarding Jobs Migration
+-- Durable background queue for long-running onboarding work (blog and landing page
+-- generation). API routes enqueue a row and return immediately; a worker claims
+-- queued rows, runs them out-of-band, and records progress/results here so the
+-- dashboard can poll job state and survive page refreshes.
+
+-- 1. Job table
+CREATE TABLE IF NOT EXISTS onboarding_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hubspot_contact_id TEXT NOT NULL,
+  service TEXT NOT NULL CHECK (service IN ('blogs', 'landing_pages')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+
+  -- Request body captured at enqueue time, and the service response on success
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  result JSONB,
+
+  -- Latest progress heartbeat written by the worker: { message, elapsed }
+  progress JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error_message TEXT,
+
+  -- Retry bookkeeping
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Worker lease (a running job whose heartbeat goes stale is re-queued)
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+
+  cancel_requested BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID,
+
+  -- onboarding_status.status before the job was enqueued (restored on cancel)
+  previous_service_status TEXT,
+
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE onboarding_jobs IS 'Durable background jobs for blog and landing page generation';
+COMMENT ON COLUMN onboarding_jobs.run_after IS 'Earliest time the job may be claimed (pushed forward on retry backoff)';
+COMMENT ON COLUMN onboarding_jobs.heartbeat_at IS 'Refreshed by the worker while running; stale heartbeats mean the worker died';
+
+-- At most one queued/running job per contact and service
+CREATE UNIQUE INDEX IF NOT EXISTS idx_onboarding_jobs_one_active
+  ON onboarding_jobs (hubspot_contact_id, service)
+  WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_jobs_runnable
+  ON onboarding_jobs (run_after)
+  WHERE status = 'queued';
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_jobs_contact
+  ON onboarding_jobs (hubspot_contact_id, service, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_onboarding_jobs_updated_at ON onboarding_jobs;
+CREATE TRIGGER update_onboarding_jobs_updated_at
+  BEFORE UPDATE ON onboarding_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Atomic claim - picks the oldest runnable job and leases it to a worker.
+-- FOR UPDATE SKIP LOCKED lets several workers (cron + standalone) poll safely.
+CREATE OR REPLACE FUNCTION claim_onboarding_job(p_worker_id TEXT)
+RETURNS SETOF onboarding_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE onboarding_jobs j
+  SET
+    status = 'running',
+    attempts = j.attempts + 1,
+    locked_by = p_worker_id,
+    locked_at = NOW(),
+    heartbeat_at = NOW(),
+    started_at = COALESCE(j.started_at, NOW())
+  WHERE j.id = (
+    SELECT q.id
+    FROM onboarding_jobs q
+    WHERE q.status = 'queued'
+      AND q.run_after <= NOW()
+      AND NOT q.cancel_requested
+    ORDER BY q.run_after, q.created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING j.*;
+END;
+$$;
+
+COMMENT ON FUNCTION claim_onboarding_job IS 'Lease the next runnable onboarding job to a worker';
+
+-- 3. RLS
+ALTER TABLE onboarding_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage onboarding jobs"
+  ON onboarding_jobs FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
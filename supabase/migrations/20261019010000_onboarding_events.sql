@@ -0,0 +1,50 @@
+-- Onboarding Events Migration
+-- Append-only history of onboarding changes. onboarding_status only keeps the
+-- latest row per (hubspot_contact_id, service) and every upsert overwrites
+-- metadata; this table records each change with who made it and the
+-- before/after status and payload.
+
+-- 1. Events table
+CREATE TABLE IF NOT EXISTS onboarding_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hubspot_contact_id TEXT NOT NULL,
+
+  -- NULL for changes that are not tied to one service (identity map edits)
+  service TEXT CHECK (service IN ('chatbot', 'blogs', 'landing_pages', 'foursquare')),
+  action TEXT NOT NULL,
+
+  -- Authenticated user who made the change; NULL for workers and cron jobs
+  actor_id UUID,
+  actor_email TEXT,
+
+  status_before TEXT,
+  status_after TEXT,
+  payload_before JSONB,
+  payload_after JSONB,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE onboarding_events IS 'Append-only audit trail of onboarding status, identity and job changes';
+COMMENT ON COLUMN onboarding_events.action IS 'What happened, e.g. provisioned, disabled, generation_queued, identity_updated';
+COMMENT ON COLUMN onboarding_events.payload_before IS 'onboarding_status.metadata (or identity fields) before the change';
+COMMENT ON COLUMN onboarding_events.payload_after IS 'onboarding_status.metadata (or identity fields) after the change';
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_events_contact
+  ON onboarding_events (hubspot_contact_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_events_service
+  ON onboarding_events (hubspot_contact_id, service, created_at DESC);
+
+-- 2. RLS - authenticated users may read and append, never update or delete
+ALTER TABLE onboarding_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read onboarding events"
+  ON onboarding_events FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can append onboarding events"
+  ON onboarding_events FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
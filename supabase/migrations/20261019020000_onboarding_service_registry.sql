@@ -0,0 +1,94 @@
+-- Onboarding Service Registry Migration
+-- The set of onboarding services used to be hardcoded in CHECK constraints
+-- and in v_customer_onboarding. It now lives in lib/onboarding/registry.ts and
+-- is mirrored into onboarding_services, which the service columns reference.
+-- After adding a service to the registry, run:
+--   npx tsx scripts/sync/sync-onboarding-services.ts
+
+-- 1. Services table
+CREATE TABLE IF NOT EXISTS onboarding_services (
+  id TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  identity_fields TEXT[] NOT NULL DEFAULT '{}',
+  uses_jobs BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE onboarding_services IS 'Registered onboarding services, synced from lib/onboarding/registry.ts';
+COMMENT ON COLUMN onboarding_services.identity_fields IS 'service_identity_map columns the service reads or writes';
+COMMENT ON COLUMN onboarding_services.uses_jobs IS 'Long-running work goes through onboarding_jobs';
+
+DROP TRIGGER IF EXISTS update_onboarding_services_updated_at ON onboarding_services;
+CREATE TRIGGER update_onboarding_services_updated_at
+  BEFORE UPDATE ON onboarding_services
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the services that existed before the registry
+INSERT INTO onboarding_services (id, label, identity_fields, uses_jobs, sort_order) VALUES
+  ('foursquare', 'Foursquare', ARRAY['foursquare_venue_id', 'google_place_id'], false, 0),
+  ('chatbot', 'AI Chatbot', ARRAY['chatbot_slug', 'duda_site_code', 'duda_snippet_id'], false, 1),
+  ('blogs', 'SEO Blogs', ARRAY['duda_site_code'], true, 2),
+  ('landing_pages', 'Landing Pages', ARRAY['duda_site_code'], true, 3)
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. Replace the hardcoded service CHECKs with foreign keys
+ALTER TABLE onboarding_status DROP CONSTRAINT IF EXISTS onboarding_status_service_check;
+ALTER TABLE onboarding_status DROP CONSTRAINT IF EXISTS onboarding_status_service_fkey;
+ALTER TABLE onboarding_status
+  ADD CONSTRAINT onboarding_status_service_fkey
+  FOREIGN KEY (service) REFERENCES onboarding_services(id);
+
+ALTER TABLE onboarding_events DROP CONSTRAINT IF EXISTS onboarding_events_service_check;
+ALTER TABLE onboarding_events DROP CONSTRAINT IF EXISTS onboarding_events_service_fkey;
+ALTER TABLE onboarding_events
+  ADD CONSTRAINT onboarding_events_service_fkey
+  FOREIGN KEY (service) REFERENCES onboarding_services(id);
+
+-- The app only enqueues services registered with usesJobs
+ALTER TABLE onboarding_jobs DROP CONSTRAINT IF EXISTS onboarding_jobs_service_check;
+ALTER TABLE onboarding_jobs DROP CONSTRAINT IF EXISTS onboarding_jobs_service_fkey;
+ALTER TABLE onboarding_jobs
+  ADD CONSTRAINT onboarding_jobs_service_fkey
+  FOREIGN KEY (service) REFERENCES onboarding_services(id);
+
+-- 3. RLS - the registry is read-only from the app; the sync script uses the service role
+ALTER TABLE onboarding_services ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read onboarding services"
+  ON onboarding_services FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- 4. v_customer_onboarding - one service_statuses entry per registered service
+-- instead of a column per service. Must DROP first because the columns change.
+DROP VIEW IF EXISTS v_customer_onboarding;
+
+CREATE VIEW v_customer_onboarding AS
+SELECT
+  c.id AS contact_uuid,
+  c.hs_object_id AS hubspot_contact_id,
+  c.company,
+  c.firstname,
+  c.lastname,
+  c.email,
+  c.lifecyclestage,
+  sim.duda_site_code,
+  sim.chatbot_slug,
+  sim.foursquare_venue_id,
+  sim.google_place_id,
+  (
+    SELECT jsonb_object_agg(svc.id, COALESCE(os.status, 'not_started'))
+    FROM onboarding_services svc
+    LEFT JOIN onboarding_status os
+      ON os.service = svc.id AND os.hubspot_contact_id = c.hs_object_id
+    WHERE svc.enabled
+  ) AS service_statuses,
+  (SELECT COUNT(*) FROM onboarding_status os WHERE os.hubspot_contact_id = c.hs_object_id AND os.status = 'active') AS active_services_count,
+  (SELECT COUNT(*) FROM onboarding_status os WHERE os.hubspot_contact_id = c.hs_object_id AND os.status != 'not_started') AS provisioned_services_count
+FROM contacts c
+LEFT JOIN service_identity_map sim ON sim.hubspot_contact_id = c.hs_object_id;
+
+COMMENT ON VIEW v_customer_onboarding IS 'Contacts with their identity map and a status per registered onboarding service';
@@ -0,0 +1,91 @@
+-- Blog Schedules Migration
+-- Recurring blog generation per customer. A schedule says how many posts a
+-- month to publish, which topics to rotate through and when to start; the
+-- blog-schedules cron queues a blogs job (onboarding_jobs) for every due run
+-- and records each run - queued, succeeded, failed or skipped - so the
+-- Blogs tab can show a calendar and retry what did not go out.
+
+-- 1. Schedules (one per contact, next to onboarding_status)
+CREATE TABLE IF NOT EXISTS blog_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hubspot_contact_id TEXT NOT NULL UNIQUE,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+
+  posts_per_month INTEGER NOT NULL CHECK (posts_per_month BETWEEN 1 AND 30),
+  topics TEXT[] NOT NULL DEFAULT '{}',
+  next_topic_index INTEGER NOT NULL DEFAULT 0,
+  start_date DATE NOT NULL,
+  next_run_at TIMESTAMPTZ NOT NULL,
+
+  -- Blog service inputs captured when the schedule is saved (the cron has no
+  -- user session to read the contact with)
+  business_name TEXT NOT NULL,
+  industry TEXT NOT NULL,
+  location TEXT NOT NULL,
+
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE blog_schedules IS 'Recurring blog generation cadence per contact';
+COMMENT ON COLUMN blog_schedules.topics IS 'Topics used in rotation, one per run; empty lets the blog service choose';
+COMMENT ON COLUMN blog_schedules.next_topic_index IS 'Index into topics for the next queued run';
+COMMENT ON COLUMN blog_schedules.next_run_at IS 'When the next run is due; advanced by the cron as it claims a run';
+
+CREATE INDEX IF NOT EXISTS idx_blog_schedules_due
+  ON blog_schedules (next_run_at)
+  WHERE enabled;
+
+DROP TRIGGER IF EXISTS update_blog_schedules_updated_at ON blog_schedules;
+CREATE TRIGGER update_blog_schedules_updated_at
+  BEFORE UPDATE ON blog_schedules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Runs (one row per scheduled slot, retried in place)
+CREATE TABLE IF NOT EXISTS blog_schedule_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id UUID NOT NULL REFERENCES blog_schedules(id) ON DELETE CASCADE,
+  hubspot_contact_id TEXT NOT NULL,
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  topic TEXT,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'succeeded', 'failed', 'skipped')),
+  job_id UUID REFERENCES onboarding_jobs(id) ON DELETE SET NULL,
+  skip_reason TEXT,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (schedule_id, scheduled_for)
+);
+
+COMMENT ON TABLE blog_schedule_runs IS 'Each scheduled blog run and what happened to it';
+COMMENT ON COLUMN blog_schedule_runs.skip_reason IS 'Why the run was not queued (no Duda site, generation in progress, service paused)';
+
+CREATE INDEX IF NOT EXISTS idx_blog_schedule_runs_contact
+  ON blog_schedule_runs (hubspot_contact_id, scheduled_for DESC);
+
+CREATE INDEX IF NOT EXISTS idx_blog_schedule_runs_queued
+  ON blog_schedule_runs (job_id)
+  WHERE status = 'queued';
+
+DROP TRIGGER IF EXISTS update_blog_schedule_runs_updated_at ON blog_schedule_runs;
+CREATE TRIGGER update_blog_schedule_runs_updated_at
+  BEFORE UPDATE ON blog_schedule_runs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. RLS
+ALTER TABLE blog_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE blog_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage blog schedules"
+  ON blog_schedules FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage blog schedule runs"
+  ON blog_schedule_runs FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
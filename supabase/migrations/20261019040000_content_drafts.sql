@@ -0,0 +1,68 @@
+-- Content Drafts Migration
+-- Generated blog posts and landing pages no longer go straight to Duda. The
+-- generation jobs store each post/page here as a draft; an account manager
+-- edits and approves it in the dashboard, and only approval pushes it to the
+-- customer's Duda site. Rejected drafts keep the reviewer's notes and can be
+-- regenerated with them as feedback.
+
+-- 1. Drafts
+CREATE TABLE IF NOT EXISTS content_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hubspot_contact_id TEXT NOT NULL,
+  service TEXT NOT NULL REFERENCES onboarding_services(id),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'published', 'rejected', 'replaced')),
+
+  -- Editable content
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  meta_title TEXT,
+  meta_description TEXT,
+  slug TEXT,
+
+  -- Service-specific fields kept as returned (e.g. landing page location and
+  -- collection row data), and the job payload that produced the draft
+  fields JSONB NOT NULL DEFAULT '{}'::jsonb,
+  generation_payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  job_id UUID REFERENCES onboarding_jobs(id) ON DELETE SET NULL,
+
+  -- Regeneration chain: the rejected draft this one replaces
+  parent_draft_id UUID REFERENCES content_drafts(id) ON DELETE SET NULL,
+
+  -- Review
+  review_notes TEXT,
+  reviewed_by UUID,
+  reviewed_at TIMESTAMPTZ,
+
+  -- Publishing
+  duda_ref TEXT,
+  published_at TIMESTAMPTZ,
+  publish_error TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE content_drafts IS 'Generated blog posts and landing pages awaiting review before they are pushed to Duda';
+COMMENT ON COLUMN content_drafts.status IS 'draft -> approved -> published, or draft -> rejected -> replaced once regenerated; approved means the Duda push has not succeeded yet';
+COMMENT ON COLUMN content_drafts.duda_ref IS 'Duda blog post id or collection row id once published';
+
+CREATE INDEX IF NOT EXISTS idx_content_drafts_contact
+  ON content_drafts (hubspot_contact_id, service, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_content_drafts_review
+  ON content_drafts (hubspot_contact_id, service)
+  WHERE status IN ('draft', 'approved', 'rejected');
+
+DROP TRIGGER IF EXISTS update_content_drafts_updated_at ON content_drafts;
+CREATE TRIGGER update_content_drafts_updated_at
+  BEFORE UPDATE ON content_drafts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. RLS
+ALTER TABLE content_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage content drafts"
+  ON content_drafts FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,59 @@
+-- Landing Pages Inventory Migration
+-- One row per city page a customer has, so the dashboard can list, regenerate
+-- and delete individual pages instead of only showing a generated counter.
+-- Rows are written when a generation job stores its drafts and updated when a
+-- page's draft is published to the Duda collection. location_key is the
+-- normalized city name; it is unique per contact, which is what stops a re-run
+-- with the same priority_locations from creating duplicate cities.
+
+-- 1. Inventory
+CREATE TABLE IF NOT EXISTS landing_pages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hubspot_contact_id TEXT NOT NULL,
+
+  location TEXT NOT NULL,
+  location_key TEXT NOT NULL,
+
+  -- Duda dynamic page (set once the draft is published)
+  url TEXT,
+  slug TEXT,
+  collection_name TEXT,
+  collection_row_id TEXT,
+
+  -- Latest draft for this city and the job that generated it
+  draft_id UUID REFERENCES content_drafts(id) ON DELETE SET NULL,
+  job_id UUID REFERENCES onboarding_jobs(id) ON DELETE SET NULL,
+
+  generated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  published_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (hubspot_contact_id, location_key)
+);
+
+COMMENT ON TABLE landing_pages IS 'Geo-targeted landing pages per contact, one row per city';
+COMMENT ON COLUMN landing_pages.location_key IS 'Lowercased city name without punctuation ("Boulder, CO" -> "boulder co"), used to dedupe';
+COMMENT ON COLUMN landing_pages.collection_row_id IS 'Duda collection row id; regenerated pages update this row instead of adding one';
+
+CREATE INDEX IF NOT EXISTS idx_landing_pages_contact
+  ON landing_pages (hubspot_contact_id, location);
+
+CREATE INDEX IF NOT EXISTS idx_landing_pages_draft
+  ON landing_pages (draft_id)
+  WHERE draft_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_landing_pages_updated_at ON landing_pages;
+CREATE TRIGGER update_landing_pages_updated_at
+  BEFORE UPDATE ON landing_pages
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. RLS
+ALTER TABLE landing_pages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage landing pages"
+  ON landing_pages FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
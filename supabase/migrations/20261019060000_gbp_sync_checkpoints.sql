@@ -0,0 +1,63 @@
+-- GBP Multi-Location Sync Migration
+-- The GBP cron syncs used to cover one hardcoded Route36 location. They now
+-- fan out over every healthy Google connection in pipedream_connected_accounts
+-- and each location it manages. The weekly gbp-locations sync discovers the
+-- locations and records which connection they belong to; the other syncs read
+-- that list and keep a checkpoint per location, so a run that hits the time
+-- limit picks up the least recently synced locations first next time.
+
+-- 1. Connection that owns each discovered location
+ALTER TABLE gbp_locations_sync
+  ADD COLUMN IF NOT EXISTS connection_id UUID REFERENCES pipedream_connected_accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_gbp_locations_sync_connection
+  ON gbp_locations_sync (connection_id)
+  WHERE connection_id IS NOT NULL;
+
+COMMENT ON COLUMN gbp_locations_sync.connection_id IS 'pipedream_connected_accounts row whose token is used to sync this location';
+
+-- 2. Per-location checkpoints
+CREATE TABLE IF NOT EXISTS gbp_sync_checkpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  job_type TEXT NOT NULL,  -- 'gbp_reviews', 'gbp_analytics', 'gbp_posts', 'gbp_media'
+  account_id TEXT NOT NULL,
+  location_id TEXT NOT NULL,
+  connection_id UUID REFERENCES pipedream_connected_accounts(id) ON DELETE SET NULL,
+
+  last_attempt_at TIMESTAMPTZ,
+  last_success_at TIMESTAMPTZ,
+  last_status TEXT,  -- 'success', 'failed'
+  last_error TEXT,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  records_synced INTEGER NOT NULL DEFAULT 0,
+
+  -- Sync-specific resume state, e.g. the newest review update_time seen
+  cursor JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (job_type, location_id)
+);
+
+COMMENT ON TABLE gbp_sync_checkpoints IS 'Last sync attempt and resume cursor per GBP location and sync type';
+COMMENT ON COLUMN gbp_sync_checkpoints.cursor IS 'Incremental sync state owned by the sync type; kept from the last successful run';
+
+CREATE INDEX IF NOT EXISTS idx_gbp_sync_checkpoints_attempt
+  ON gbp_sync_checkpoints (job_type, last_attempt_at NULLS FIRST);
+
+DROP TRIGGER IF EXISTS update_gbp_sync_checkpoints_updated_at ON gbp_sync_checkpoints;
+CREATE TRIGGER update_gbp_sync_checkpoints_updated_at
+  BEFORE UPDATE ON gbp_sync_checkpoints
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. RLS (written only by the GBP syncs, which use the service role)
+ALTER TABLE gbp_sync_checkpoints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage GBP sync checkpoints" ON gbp_sync_checkpoints;
+CREATE POLICY "Service role can manage GBP sync checkpoints"
+  ON gbp_sync_checkpoints FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
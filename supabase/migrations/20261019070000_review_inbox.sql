@@ -0,0 +1,71 @@
+-- Review Inbox Migration
+-- One queue of unanswered Google reviews across every client location, so
+-- account managers no longer reply one location page at a time. A review
+-- leaves the inbox when it gets a reply (reply_comment, set by the sync or
+-- by replying from the inbox) or is marked handled without one.
+-- Locations belong to a client through the connection that synced them
+-- (gbp_locations_sync.connection_id -> pipedream_connected_accounts.client_id);
+-- the account manager is the HubSpot owner of the client's contact.
+
+-- 1. Account manager on contacts (HubSpot contact owner)
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS hubspot_owner_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_hubspot_owner
+  ON contacts (hubspot_owner_id)
+  WHERE hubspot_owner_id IS NOT NULL;
+
+COMMENT ON COLUMN contacts.hubspot_owner_id IS 'HubSpot owner ID of the contact, used as the account manager';
+
+-- 2. Handled state on reviews
+ALTER TABLE gbp_reviews ADD COLUMN IF NOT EXISTS handled_at TIMESTAMPTZ;
+ALTER TABLE gbp_reviews ADD COLUMN IF NOT EXISTS handled_by TEXT;
+
+COMMENT ON COLUMN gbp_reviews.handled_at IS 'Set when a review is marked handled in the inbox without a reply';
+COMMENT ON COLUMN gbp_reviews.handled_by IS 'Email of the user who marked the review handled';
+
+CREATE INDEX IF NOT EXISTS idx_gbp_reviews_unanswered
+  ON gbp_reviews (create_time)
+  WHERE reply_comment IS NULL AND handled_at IS NULL;
+
+-- 3. Inbox view
+DROP VIEW IF EXISTS v_review_inbox;
+
+CREATE VIEW v_review_inbox AS
+SELECT
+  r.id,
+  r.account_id,
+  r.location_id,
+  r.review_id,
+  r.reviewer_display_name,
+  r.reviewer_profile_photo_url,
+  r.star_rating,
+  r.comment,
+  r.create_time,
+  r.update_time,
+  loc.title AS location_title,
+  loc.connection_id,
+  cl.id AS client_id,
+  COALESCE(cl.business_name, cl.name, loc.title) AS client_name,
+  cl.hubspot_contact_id,
+  owner.hubspot_owner_id AS account_manager_id
+FROM gbp_reviews r
+LEFT JOIN LATERAL (
+  SELECT l.title, l.connection_id
+  FROM gbp_locations_sync l
+  WHERE l.location_id = r.location_id
+  ORDER BY l.fetched_at DESC
+  LIMIT 1
+) loc ON true
+LEFT JOIN pipedream_connected_accounts pca ON pca.id = loc.connection_id
+LEFT JOIN clients cl ON cl.id = pca.client_id
+LEFT JOIN LATERAL (
+  SELECT c.hubspot_owner_id
+  FROM contacts c
+  WHERE c.hubspot_contact_id = cl.hubspot_contact_id
+    AND c.hubspot_owner_id IS NOT NULL
+  LIMIT 1
+) owner ON true
+WHERE r.reply_comment IS NULL
+  AND r.handled_at IS NULL;
+
+COMMENT ON VIEW v_review_inbox IS 'Unanswered, unhandled GBP reviews with their location, client and account manager';
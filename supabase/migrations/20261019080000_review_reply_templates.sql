@@ -0,0 +1,46 @@
+-- Review Reply Templates Migration
+-- Brand voice settings for drafting review replies, one row per client
+-- (keyed by hubspot_contact_id like enriched_businesses). Drafts are built
+-- from the review, the client's enriched_businesses profile and this
+-- template; they are only suggestions and are never posted without a person
+-- sending them. Clients without a row get the default friendly voice.
+
+-- 1. Templates
+CREATE TABLE IF NOT EXISTS review_reply_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hubspot_contact_id TEXT NOT NULL UNIQUE,
+  tone TEXT NOT NULL DEFAULT 'friendly'
+    CHECK (tone IN ('friendly', 'professional', 'warm', 'casual', 'concise')),
+  voice_notes TEXT,
+  sign_off TEXT,
+  banned_phrases TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  max_length INTEGER NOT NULL DEFAULT 600
+    CHECK (max_length BETWEEN 100 AND 4096),
+  updated_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE review_reply_templates IS 'Per-client brand voice for drafted review replies';
+COMMENT ON COLUMN review_reply_templates.tone IS 'Overall tone of drafted replies';
+COMMENT ON COLUMN review_reply_templates.voice_notes IS 'Free-form brand voice guidance (e.g. "family-owned, first names, no exclamation marks")';
+COMMENT ON COLUMN review_reply_templates.sign_off IS 'Closing line appended to every draft (e.g. "- Maria, Owner")';
+COMMENT ON COLUMN review_reply_templates.banned_phrases IS 'Phrases a draft must never contain (matched case-insensitively)';
+COMMENT ON COLUMN review_reply_templates.max_length IS 'Target maximum draft length in characters';
+
+-- 2. updated_at trigger
+DROP TRIGGER IF EXISTS update_review_reply_templates_updated_at ON review_reply_templates;
+CREATE TRIGGER update_review_reply_templates_updated_at
+  BEFORE UPDATE ON review_reply_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. RLS
+ALTER TABLE review_reply_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage review reply templates" ON review_reply_templates;
+CREATE POLICY "Authenticated users can manage review reply templates"
+  ON review_reply_templates FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,71 @@
+-- Scheduled GBP Posts Migration
+-- Google Business Profile posts written ahead of time and published by the
+-- gbp-scheduled-posts cron. Each row is one publication: the cron claims
+-- due rows, posts them with the location's connection and records the
+-- resulting post name or the error. A recurring post (weekly specials, a
+-- monthly offer) is a series of rows sharing series_id - publishing one
+-- occurrence inserts the next, so the calendar always has the upcoming one.
+
+-- 1. Scheduled posts
+CREATE TABLE IF NOT EXISTS scheduled_gbp_posts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id UUID NOT NULL DEFAULT gen_random_uuid(),
+  account_id TEXT NOT NULL,
+  location_id TEXT NOT NULL,
+  connection_id UUID REFERENCES pipedream_connected_accounts(id) ON DELETE SET NULL,
+
+  -- Post content (mapped to a Google LocalPost at publish time)
+  topic_type TEXT NOT NULL DEFAULT 'STANDARD' CHECK (topic_type IN ('STANDARD', 'EVENT', 'OFFER')),
+  summary TEXT NOT NULL CHECK (char_length(summary) BETWEEN 1 AND 1500),
+  media JSONB NOT NULL DEFAULT '[]'::jsonb,
+  call_to_action JSONB,
+  event JSONB,
+  offer JSONB,
+
+  -- Schedule
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  recurrence TEXT NOT NULL DEFAULT 'none' CHECK (recurrence IN ('none', 'weekly', 'biweekly', 'monthly')),
+  recurrence_until DATE,
+
+  -- Outcome
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'publishing', 'published', 'failed')),
+  post_name TEXT,
+  search_url TEXT,
+  published_at TIMESTAMPTZ,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (series_id, scheduled_for)
+);
+
+COMMENT ON TABLE scheduled_gbp_posts IS 'GBP posts scheduled for publishing, one row per publication';
+COMMENT ON COLUMN scheduled_gbp_posts.series_id IS 'Shared by every occurrence of a recurring post';
+COMMENT ON COLUMN scheduled_gbp_posts.event IS 'Event window for EVENT and OFFER posts: { title, start_date, start_time, end_date, end_time } in local time';
+COMMENT ON COLUMN scheduled_gbp_posts.offer IS 'Offer details for OFFER posts: { coupon_code, redeem_online_url, terms_conditions }';
+COMMENT ON COLUMN scheduled_gbp_posts.recurrence_until IS 'Last date a recurring post may be scheduled on (NULL = no end)';
+COMMENT ON COLUMN scheduled_gbp_posts.post_name IS 'Google post resource name once published';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_gbp_posts_due
+  ON scheduled_gbp_posts (scheduled_for)
+  WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_gbp_posts_location
+  ON scheduled_gbp_posts (location_id, scheduled_for);
+
+DROP TRIGGER IF EXISTS update_scheduled_gbp_posts_updated_at ON scheduled_gbp_posts;
+CREATE TRIGGER update_scheduled_gbp_posts_updated_at
+  BEFORE UPDATE ON scheduled_gbp_posts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. RLS
+ALTER TABLE scheduled_gbp_posts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage scheduled GBP posts" ON scheduled_gbp_posts;
+CREATE POLICY "Authenticated users can manage scheduled GBP posts"
+  ON scheduled_gbp_posts FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
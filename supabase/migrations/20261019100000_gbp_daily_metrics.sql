@@ -0,0 +1,35 @@
+-- GBP Daily Metrics Migration
+-- Daily performance metrics (impressions by surface, calls, direction
+-- requests, website clicks, ...) from the Business Profile Performance API.
+-- The weekly gbp-analytics sync backfills 18 months for a new location, then
+-- re-fetches from a week before the last stored day, since Google revises
+-- recent days. The location analytics page rolls these up into weekly series
+-- with week-over-week and year-over-year deltas.
+
+-- 1. Daily metrics, one row per location, metric and day
+CREATE TABLE IF NOT EXISTS gbp_daily_metrics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id TEXT NOT NULL,
+  metric TEXT NOT NULL,  -- Google DailyMetric, e.g. 'CALL_CLICKS'
+  metric_date DATE NOT NULL,
+  value INTEGER NOT NULL DEFAULT 0,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (location_id, metric, metric_date)
+);
+
+COMMENT ON TABLE gbp_daily_metrics IS 'Daily GBP performance metrics per location';
+COMMENT ON COLUMN gbp_daily_metrics.metric IS 'Google DailyMetric name; impressions are split across BUSINESS_IMPRESSIONS_{DESKTOP,MOBILE}_{MAPS,SEARCH}';
+COMMENT ON COLUMN gbp_daily_metrics.value IS 'Count for the day (Google omits days with no activity; they are stored as 0)';
+
+CREATE INDEX IF NOT EXISTS idx_gbp_daily_metrics_location_date
+  ON gbp_daily_metrics (location_id, metric_date DESC);
+
+-- 2. RLS
+ALTER TABLE gbp_daily_metrics ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read GBP daily metrics" ON gbp_daily_metrics;
+CREATE POLICY "Authenticated users can read GBP daily metrics"
+  ON gbp_daily_metrics FOR SELECT
+  TO authenticated
+  USING (true);
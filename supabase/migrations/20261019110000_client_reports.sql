@@ -0,0 +1,50 @@
+-- Client Reports Migration
+-- Monthly performance reports for customers: GBP impressions and actions,
+-- new reviews and rating, blogs published, landing pages live and Foursquare
+-- status. Each generated report is rendered to a branded HTML file (print
+-- styles included, so it saves cleanly as PDF) and archived in the private
+-- client-reports storage bucket; this table indexes the archive and keeps
+-- the numbers the report was built from. Regenerating a month adds a new
+-- version rather than overwriting the one a client may already have.
+
+-- 1. Reports
+CREATE TABLE IF NOT EXISTS client_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hubspot_contact_id TEXT NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  title TEXT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  generated_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE client_reports IS 'Archived monthly performance reports per contact';
+COMMENT ON COLUMN client_reports.storage_path IS 'HTML file in the client-reports bucket ({contactId}/{YYYY-MM}/{id}.html)';
+COMMENT ON COLUMN client_reports.data IS 'MonthlyReportData the report was rendered from';
+
+CREATE INDEX IF NOT EXISTS idx_client_reports_contact
+  ON client_reports (hubspot_contact_id, period_start DESC, created_at DESC);
+
+-- 2. Storage bucket (private; shared through signed URLs)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('client-reports', 'client-reports', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Authenticated users can manage client report files" ON storage.objects;
+CREATE POLICY "Authenticated users can manage client report files"
+  ON storage.objects FOR ALL
+  TO authenticated
+  USING (bucket_id = 'client-reports')
+  WITH CHECK (bucket_id = 'client-reports');
+
+-- 3. RLS
+ALTER TABLE client_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage client reports" ON client_reports;
+CREATE POLICY "Authenticated users can manage client reports"
+  ON client_reports FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,37 @@
+-- NAP Consistency Audits Migration
+-- Name / address / phone / website / hours as listed by each source for a
+-- contact (HubSpot, enriched_businesses, the linked Google place, the linked
+-- Foursquare venue, the GBP location and BrightLocal), compared against one
+-- reference record. Every run is kept so the score can be tracked over time.
+
+-- 1. Audits
+CREATE TABLE IF NOT EXISTS nap_audits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hubspot_contact_id TEXT NOT NULL,
+  score NUMERIC(5, 1),
+  reference_source TEXT,
+  reference JSONB,
+  sources JSONB NOT NULL DEFAULT '[]'::jsonb,
+  fixes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE nap_audits IS 'NAP consistency audit runs per contact';
+COMMENT ON COLUMN nap_audits.score IS 'Average of the compared sources'' scores (0-100); null when nothing could be compared';
+COMMENT ON COLUMN nap_audits.reference_source IS 'Source the others were compared against (enriched, else hubspot, else google)';
+COMMENT ON COLUMN nap_audits.sources IS 'Per-source record, per-field results and score (NapSourceResult[])';
+COMMENT ON COLUMN nap_audits.fixes IS 'Field corrections needed to bring each source in line with the reference (NapFix[])';
+
+CREATE INDEX IF NOT EXISTS idx_nap_audits_contact
+  ON nap_audits (hubspot_contact_id, created_at DESC);
+
+-- 2. RLS
+ALTER TABLE nap_audits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage NAP audits" ON nap_audits;
+CREATE POLICY "Authenticated users can manage NAP audits"
+  ON nap_audits FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,43 @@
+-- Foursquare Match Reviews Migration
+-- Venue candidates the confidence matcher (lib/onboarding/foursquare-match.ts)
+-- could not decide on by itself. An account manager approves one candidate,
+-- which links it, or rejects them all so a new venue can be created.
+
+-- 1. Reviews
+CREATE TABLE IF NOT EXISTS foursquare_match_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hubspot_contact_id TEXT NOT NULL,
+  business_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+  top_confidence NUMERIC(5, 1) NOT NULL,
+  candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+  chosen_venue_id TEXT,
+  created_by TEXT,
+  resolved_by TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE foursquare_match_reviews IS 'Ambiguous Foursquare venue matches waiting for (or resolved by) an account manager';
+COMMENT ON COLUMN foursquare_match_reviews.top_confidence IS 'Confidence (0-100) of the best candidate';
+COMMENT ON COLUMN foursquare_match_reviews.candidates IS 'Scored candidates, best first (FoursquareMatchCandidate[])';
+COMMENT ON COLUMN foursquare_match_reviews.chosen_venue_id IS 'Venue linked on approval; null when rejected';
+
+-- One open review per contact; re-running the matcher replaces its candidates
+CREATE UNIQUE INDEX IF NOT EXISTS idx_foursquare_match_reviews_pending
+  ON foursquare_match_reviews (hubspot_contact_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_foursquare_match_reviews_status
+  ON foursquare_match_reviews (status, created_at DESC);
+
+-- 2. RLS
+ALTER TABLE foursquare_match_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage Foursquare match reviews" ON foursquare_match_reviews;
+CREATE POLICY "Authenticated users can manage Foursquare match reviews"
+  ON foursquare_match_reviews FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,67 @@
+-- Foursquare Listing Drift Migration
+-- The drift monitor (POST /api/sync/foursquare-drift) re-fetches every
+-- linked venue, compares it with our reference record and keeps one row per
+-- check. Edits proposed to Foursquare are tracked until the venue shows
+-- them (applied) or they are given up on (rejected).
+
+-- 1. Drift checks
+CREATE TABLE IF NOT EXISTS foursquare_drift_checks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hubspot_contact_id TEXT NOT NULL,
+  venue_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('ok', 'drift', 'missing', 'error')),
+  differences JSONB NOT NULL DEFAULT '[]'::jsonb,
+  reason TEXT,
+  edits_applied INTEGER NOT NULL DEFAULT 0,
+  edits_rejected INTEGER NOT NULL DEFAULT 0,
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE foursquare_drift_checks IS 'Foursquare venue vs. reference record, one row per check';
+COMMENT ON COLUMN foursquare_drift_checks.status IS 'ok, drift (fields differ), missing (venue deleted or merged) or error (check failed)';
+COMMENT ON COLUMN foursquare_drift_checks.differences IS 'Fields that differ or are missing on Foursquare (FoursquareDriftField[])';
+COMMENT ON COLUMN foursquare_drift_checks.reason IS 'Why the check flagged the listing, or the error';
+
+CREATE INDEX IF NOT EXISTS idx_foursquare_drift_checks_contact
+  ON foursquare_drift_checks (hubspot_contact_id, checked_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_foursquare_drift_checks_checked
+  ON foursquare_drift_checks (checked_at DESC);
+
+-- 2. Proposed edits
+CREATE TABLE IF NOT EXISTS foursquare_proposed_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hubspot_contact_id TEXT NOT NULL,
+  venue_id TEXT NOT NULL,
+  edits JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'applied', 'rejected')),
+  proposed_by TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE foursquare_proposed_edits IS 'Edits sent to Foursquare suggest/edit and whether the venue took them';
+COMMENT ON COLUMN foursquare_proposed_edits.edits IS 'The suggest/edit payload (name, address, locality, region, postcode, tel, website)';
+COMMENT ON COLUMN foursquare_proposed_edits.status IS 'pending until the venue shows every field (applied) or 14 days pass without it (rejected)';
+
+CREATE INDEX IF NOT EXISTS idx_foursquare_proposed_edits_contact
+  ON foursquare_proposed_edits (hubspot_contact_id, created_at DESC);
+
+-- 3. RLS
+ALTER TABLE foursquare_drift_checks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE foursquare_proposed_edits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage Foursquare drift checks" ON foursquare_drift_checks;
+CREATE POLICY "Authenticated users can manage Foursquare drift checks"
+  ON foursquare_drift_checks FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage Foursquare proposed edits" ON foursquare_proposed_edits;
+CREATE POLICY "Authenticated users can manage Foursquare proposed edits"
+  ON foursquare_proposed_edits FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,43 @@
+-- HubSpot Webhook Events Migration
+-- Contact events received by POST /api/webhooks/hubspot. Each event is
+-- stored once (HubSpot retries deliveries) and processed in batches through
+-- the same fetch-merge-upsert as the contact sync. The hourly incremental
+-- sync stays as a backstop for anything the webhook misses.
+
+-- 1. Events
+CREATE TABLE IF NOT EXISTS hubspot_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dedupe_key TEXT NOT NULL UNIQUE,
+  event_id BIGINT NOT NULL,
+  subscription_type TEXT NOT NULL,
+  object_id TEXT NOT NULL,
+  property_name TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processed', 'skipped', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE hubspot_webhook_events IS 'Contact events from the HubSpot webhook, one row per event';
+COMMENT ON COLUMN hubspot_webhook_events.dedupe_key IS 'eventId, subscription type, object and occurredAt - HubSpot does not guarantee eventId is unique on its own';
+COMMENT ON COLUMN hubspot_webhook_events.object_id IS 'HubSpot contact ID (the winning contact for contact.merge)';
+COMMENT ON COLUMN hubspot_webhook_events.status IS 'pending until processed; skipped when there is nothing to apply; failed events are retried up to 5 attempts';
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_webhook_events_status
+  ON hubspot_webhook_events (status, occurred_at);
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_webhook_events_object
+  ON hubspot_webhook_events (object_id, occurred_at DESC);
+
+-- 2. RLS (written by the webhook with the service role key)
+ALTER TABLE hubspot_webhook_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read HubSpot webhook events" ON hubspot_webhook_events;
+CREATE POLICY "Authenticated users can read HubSpot webhook events"
+  ON hubspot_webhook_events FOR SELECT
+  TO authenticated
+  USING (true);
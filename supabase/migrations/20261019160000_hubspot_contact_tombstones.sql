@@ -0,0 +1,51 @@
+-- HubSpot Contact Tombstones Migration
+-- Contacts deleted (archived) or merged away in HubSpot are kept but marked,
+-- and the loser's dependent rows are moved to the winning contact. Every
+-- move is recorded in hubspot_contact_remaps for review.
+
+-- 1. Tombstone columns on contacts
+ALTER TABLE public.contacts
+  ADD COLUMN IF NOT EXISTS hubspot_archived_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS merged_into_contact_id TEXT;
+
+COMMENT ON COLUMN public.contacts.hubspot_archived_at IS 'When HubSpot archived (deleted) the contact, or when it was merged away; null while live';
+COMMENT ON COLUMN public.contacts.merged_into_contact_id IS 'HubSpot ID of the contact this one was merged into';
+
+CREATE INDEX IF NOT EXISTS idx_contacts_merged_into
+  ON public.contacts (merged_into_contact_id)
+  WHERE merged_into_contact_id IS NOT NULL;
+
+-- 2. Remaps
+CREATE TABLE IF NOT EXISTS hubspot_contact_remaps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  losing_contact_id TEXT NOT NULL,
+  winning_contact_id TEXT NOT NULL,
+  table_name TEXT NOT NULL,
+  rows_moved INTEGER NOT NULL DEFAULT 0,
+  rows_conflicting INTEGER NOT NULL DEFAULT 0,
+  detail TEXT,
+  source TEXT NOT NULL CHECK (source IN ('sync', 'webhook')),
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE hubspot_contact_remaps IS 'Rows moved from a merged-away HubSpot contact to the winning contact, one row per table';
+COMMENT ON COLUMN hubspot_contact_remaps.rows_conflicting IS 'Rows left on the losing contact because the winner already had one (e.g. both had a Foursquare status)';
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_contact_remaps_unreviewed
+  ON hubspot_contact_remaps (created_at DESC)
+  WHERE reviewed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_contact_remaps_contacts
+  ON hubspot_contact_remaps (losing_contact_id, winning_contact_id);
+
+-- 3. RLS
+ALTER TABLE hubspot_contact_remaps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage HubSpot contact remaps" ON hubspot_contact_remaps;
+CREATE POLICY "Authenticated users can manage HubSpot contact remaps"
+  ON hubspot_contact_remaps FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
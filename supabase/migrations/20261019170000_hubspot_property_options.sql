@@ -0,0 +1,52 @@
+-- HubSpot Property Options Migration
+-- Option labels for HubSpot enumeration properties (lifecycle stage, lead
+-- status, ...), pulled from the HubSpot properties API so custom stages
+-- resolve to their label instead of a numeric ID. Refreshed by the contact
+-- sync and POST /api/admin/hubspot-properties.
+
+-- 1. Options
+CREATE TABLE IF NOT EXISTS hubspot_property_options (
+  object_type TEXT NOT NULL DEFAULT 'contacts',
+  property_name TEXT NOT NULL,
+  property_label TEXT,
+  value TEXT NOT NULL,
+  label TEXT NOT NULL,
+  display_order INTEGER,
+  hidden BOOLEAN NOT NULL DEFAULT false,
+  archived BOOLEAN NOT NULL DEFAULT false,
+  refreshed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (object_type, property_name, value)
+);
+
+COMMENT ON TABLE hubspot_property_options IS 'Option labels for HubSpot enumeration properties, cached from GET /crm/v3/properties';
+COMMENT ON COLUMN hubspot_property_options.value IS 'HubSpot internal value (e.g. 944991848 or salesqualifiedlead)';
+COMMENT ON COLUMN hubspot_property_options.archived IS 'Option no longer returned by HubSpot; kept so old values still resolve';
+
+-- 2. RLS
+ALTER TABLE hubspot_property_options ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage HubSpot property options" ON hubspot_property_options;
+CREATE POLICY "Authenticated users can manage HubSpot property options"
+  ON hubspot_property_options FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- 3. Seed with the lifecycle stages known today (replaced on first refresh)
+INSERT INTO hubspot_property_options (property_name, property_label, value, label, display_order) VALUES
+  ('lifecyclestage', 'Lifecycle Stage', 'subscriber', 'Subscriber', 0),
+  ('lifecyclestage', 'Lifecycle Stage', 'lead', 'Lead', 1),
+  ('lifecyclestage', 'Lifecycle Stage', 'marketingqualifiedlead', 'Marketing Qualified Lead', 2),
+  ('lifecyclestage', 'Lifecycle Stage', 'salesqualifiedlead', 'Sales Qualified Lead', 3),
+  ('lifecyclestage', 'Lifecycle Stage', 'opportunity', 'Opportunity', 4),
+  ('lifecyclestage', 'Lifecycle Stage', 'customer', 'Customer', 5),
+  ('lifecyclestage', 'Lifecycle Stage', 'evangelist', 'Evangelist', 6),
+  ('lifecyclestage', 'Lifecycle Stage', 'other', 'Other', 7),
+  ('lifecyclestage', 'Lifecycle Stage', '944991848', 'HOT', 8),
+  ('lifecyclestage', 'Lifecycle Stage', '999377175', 'Active', 9),
+  ('lifecyclestage', 'Lifecycle Stage', '958707767', 'No Show', 10),
+  ('lifecyclestage', 'Lifecycle Stage', '946862144', 'DNC', 11),
+  ('lifecyclestage', 'Lifecycle Stage', '81722417', 'Zing Employee', 12),
+  ('lifecyclestage', 'Lifecycle Stage', '1000822942', 'Reengage', 13),
+  ('lifecyclestage', 'Lifecycle Stage', '1009016957', 'VC', 14)
+ON CONFLICT (object_type, property_name, value) DO NOTHING;
@@ -0,0 +1,89 @@
+-- HubSpot Property Mappings Migration
+-- Which HubSpot contact properties the syncs pull and where they land in
+-- contacts, replacing the CONTACT_PROPERTIES lists hardcoded in the sync
+-- services. Edited from Settings > HubSpot Property Mapping.
+
+-- 1. Mappings
+CREATE TABLE IF NOT EXISTS hubspot_property_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hubspot_property TEXT NOT NULL,
+  target_column TEXT NOT NULL,
+  json_path TEXT,
+  coercion TEXT NOT NULL DEFAULT 'string'
+    CHECK (coercion IN ('string', 'integer', 'number', 'boolean', 'timestamp', 'label')),
+  conflict_winner TEXT NOT NULL DEFAULT 'hubspot'
+    CHECK (conflict_winner IN ('hubspot', 'supabase')),
+  sync_scopes TEXT[] NOT NULL DEFAULT ARRAY['all_contacts', 'customer']
+    CHECK (sync_scopes <@ ARRAY['all_contacts', 'customer']),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  updated_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE hubspot_property_mappings IS 'HubSpot contact property -> contacts column (or JSONB key) mappings read by the contact syncs';
+COMMENT ON COLUMN hubspot_property_mappings.json_path IS 'Key inside target_column when it is JSONB (e.g. locations.location_1); null for a plain column';
+COMMENT ON COLUMN hubspot_property_mappings.coercion IS 'label resolves enumeration values through hubspot_property_options';
+COMMENT ON COLUMN hubspot_property_mappings.conflict_winner IS 'hubspot: a non-blank HubSpot value overwrites; supabase: HubSpot only fills a blank value';
+COMMENT ON COLUMN hubspot_property_mappings.sync_scopes IS 'all_contacts (syncAllContacts and the webhook) and/or customer (syncHubSpotCustomers)';
+
+-- Each column (or JSONB key) is written by one property
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hubspot_property_mappings_target
+  ON hubspot_property_mappings (target_column, COALESCE(json_path, ''));
+
+DROP TRIGGER IF EXISTS update_hubspot_property_mappings_updated_at ON hubspot_property_mappings;
+CREATE TRIGGER update_hubspot_property_mappings_updated_at
+  BEFORE UPDATE ON hubspot_property_mappings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. RLS
+ALTER TABLE hubspot_property_mappings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage HubSpot property mappings" ON hubspot_property_mappings;
+CREATE POLICY "Authenticated users can manage HubSpot property mappings"
+  ON hubspot_property_mappings FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- 3. Seed with the properties the syncs pulled before this migration
+INSERT INTO hubspot_property_mappings (hubspot_property, target_column, coercion, sync_scopes) VALUES
+  -- Both syncs
+  ('firstname', 'firstname', 'string', ARRAY['all_contacts', 'customer']),
+  ('lastname', 'lastname', 'string', ARRAY['all_contacts', 'customer']),
+  ('email', 'email', 'string', ARRAY['all_contacts', 'customer']),
+  ('phone', 'phone', 'string', ARRAY['all_contacts', 'customer']),
+  ('mobilephone', 'mobilephone', 'string', ARRAY['all_contacts', 'customer']),
+  ('company', 'company', 'string', ARRAY['all_contacts', 'customer']),
+  ('website', 'website', 'string', ARRAY['all_contacts', 'customer']),
+  ('address', 'address', 'string', ARRAY['all_contacts', 'customer']),
+  ('city', 'city', 'string', ARRAY['all_contacts', 'customer']),
+  ('state', 'state', 'string', ARRAY['all_contacts', 'customer']),
+  ('zip', 'zip', 'string', ARRAY['all_contacts', 'customer']),
+  ('country', 'country', 'string', ARRAY['all_contacts', 'customer']),
+  ('lifecyclestage', 'lifecyclestage', 'label', ARRAY['all_contacts', 'customer']),
+  ('createdate', 'createdate', 'timestamp', ARRAY['all_contacts', 'customer']),
+  ('lastmodifieddate', 'lastmodifieddate', 'timestamp', ARRAY['all_contacts', 'customer']),
+  -- All contacts sync
+  ('hs_object_id', 'hs_object_id', 'string', ARRAY['all_contacts']),
+  ('hubspot_owner_id', 'hubspot_owner_id', 'string', ARRAY['all_contacts']),
+  -- Customer sync (Zing custom properties)
+  ('business_type', 'business_type', 'string', ARRAY['customer']),
+  ('business_category_type', 'business_category_type', 'string', ARRAY['customer']),
+  ('business_hours', 'business_hours', 'string', ARRAY['customer']),
+  ('current_website', 'current_website', 'string', ARRAY['customer']),
+  ('website_status', 'website_status', 'string', ARRAY['customer']),
+  ('active_customer', 'active_customer', 'string', ARRAY['customer']),
+  ('gbp_ready', 'gbp_ready', 'string', ARRAY['customer']),
+  ('published_status', 'published_status', 'string', ARRAY['customer']),
+  ('publishing_fee_paid', 'publishing_fee_paid', 'string', ARRAY['customer']),
+  ('completeness_score', 'completeness_score', 'integer', ARRAY['customer'])
+ON CONFLICT DO NOTHING;
+
+-- location_1..location_50 -> contacts.locations JSONB
+INSERT INTO hubspot_property_mappings (hubspot_property, target_column, json_path, coercion, sync_scopes)
+SELECT 'location_' || n, 'locations', 'location_' || n, 'string', ARRAY['customer']
+FROM generate_series(1, 50) AS n
+ON CONFLICT DO NOTHING;
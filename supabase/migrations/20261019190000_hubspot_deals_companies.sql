@@ -0,0 +1,205 @@
+-- HubSpot Deals and Companies Migration
+-- Deals, pipelines, stages, line items and companies synced into their own
+-- tables (lib/sync/deals-sync-service.ts), with their associations to
+-- contacts. Line item products map to the package the customer bought
+-- (discover / boost / dominate), so onboarding no longer infers the tier
+-- from deal names. contacts.dealname is left in place for existing readers.
+
+-- 1. Pipelines and stages
+CREATE TABLE IF NOT EXISTS hubspot_pipelines (
+  id TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  display_order INTEGER,
+  archived BOOLEAN NOT NULL DEFAULT false,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS hubspot_pipeline_stages (
+  id TEXT PRIMARY KEY,
+  pipeline_id TEXT NOT NULL REFERENCES hubspot_pipelines(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  display_order INTEGER,
+  probability NUMERIC,
+  is_closed BOOLEAN NOT NULL DEFAULT false,
+  is_won BOOLEAN NOT NULL DEFAULT false,
+  archived BOOLEAN NOT NULL DEFAULT false,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN hubspot_pipeline_stages.is_won IS 'Closed with probability 1 (HubSpot closed-won)';
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_pipeline_stages_pipeline
+  ON hubspot_pipeline_stages (pipeline_id);
+
+-- 2. Companies
+CREATE TABLE IF NOT EXISTS hubspot_companies (
+  hubspot_company_id TEXT PRIMARY KEY,
+  name TEXT,
+  domain TEXT,
+  phone TEXT,
+  address TEXT,
+  city TEXT,
+  state TEXT,
+  zip TEXT,
+  country TEXT,
+  industry TEXT,
+  hubspot_owner_id TEXT,
+  createdate TIMESTAMPTZ,
+  lastmodifieddate TIMESTAMPTZ,
+  hubspot_archived_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_companies_lastmodified
+  ON hubspot_companies (lastmodifieddate DESC);
+
+-- 3. Deals
+CREATE TABLE IF NOT EXISTS hubspot_deals (
+  hubspot_deal_id TEXT PRIMARY KEY,
+  dealname TEXT,
+  pipeline_id TEXT,
+  stage_id TEXT,
+  amount NUMERIC,
+  closedate TIMESTAMPTZ,
+  dealtype TEXT,
+  duda_site_code TEXT,
+  hubspot_owner_id TEXT,
+  createdate TIMESTAMPTZ,
+  lastmodifieddate TIMESTAMPTZ,
+  hubspot_archived_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN hubspot_deals.stage_id IS 'hubspot_pipeline_stages.id (not a foreign key - stages can be deleted in HubSpot)';
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_deals_stage ON hubspot_deals (stage_id);
+CREATE INDEX IF NOT EXISTS idx_hubspot_deals_lastmodified ON hubspot_deals (lastmodifieddate DESC);
+
+-- 4. Line items
+CREATE TABLE IF NOT EXISTS hubspot_line_items (
+  hubspot_line_item_id TEXT PRIMARY KEY,
+  hubspot_deal_id TEXT NOT NULL REFERENCES hubspot_deals(hubspot_deal_id) ON DELETE CASCADE,
+  hubspot_product_id TEXT,
+  name TEXT,
+  sku TEXT,
+  quantity NUMERIC,
+  price NUMERIC,
+  amount NUMERIC,
+  recurring_billing_frequency TEXT,
+  createdate TIMESTAMPTZ,
+  lastmodifieddate TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_line_items_deal ON hubspot_line_items (hubspot_deal_id);
+CREATE INDEX IF NOT EXISTS idx_hubspot_line_items_product ON hubspot_line_items (hubspot_product_id);
+
+-- 5. Associations (replaced per deal / company on every sync of it)
+CREATE TABLE IF NOT EXISTS hubspot_deal_contacts (
+  hubspot_deal_id TEXT NOT NULL REFERENCES hubspot_deals(hubspot_deal_id) ON DELETE CASCADE,
+  hubspot_contact_id TEXT NOT NULL,
+  PRIMARY KEY (hubspot_deal_id, hubspot_contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_deal_contacts_contact ON hubspot_deal_contacts (hubspot_contact_id);
+
+CREATE TABLE IF NOT EXISTS hubspot_deal_companies (
+  hubspot_deal_id TEXT NOT NULL REFERENCES hubspot_deals(hubspot_deal_id) ON DELETE CASCADE,
+  hubspot_company_id TEXT NOT NULL,
+  PRIMARY KEY (hubspot_deal_id, hubspot_company_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_deal_companies_company ON hubspot_deal_companies (hubspot_company_id);
+
+CREATE TABLE IF NOT EXISTS hubspot_company_contacts (
+  hubspot_company_id TEXT NOT NULL REFERENCES hubspot_companies(hubspot_company_id) ON DELETE CASCADE,
+  hubspot_contact_id TEXT NOT NULL,
+  PRIMARY KEY (hubspot_company_id, hubspot_contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_company_contacts_contact ON hubspot_company_contacts (hubspot_contact_id);
+
+-- 6. Packages: which product is which package. Starts empty - after a full
+--    deals sync, assign products (HUBSPOT-SYNC-GUIDE.md, "Rollout")
+CREATE TABLE IF NOT EXISTS hubspot_product_packages (
+  hubspot_product_id TEXT PRIMARY KEY,
+  package TEXT NOT NULL CHECK (package IN ('discover', 'boost', 'dominate')),
+  updated_by TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE hubspot_product_packages IS 'HubSpot product -> onboarding package; set from /api/admin/product-packages';
+
+-- Every package a contact bought: line items of closed-won, live deals
+CREATE OR REPLACE VIEW hubspot_contact_packages AS
+SELECT
+  dc.hubspot_contact_id,
+  pp.package,
+  d.hubspot_deal_id,
+  d.dealname,
+  d.closedate,
+  d.duda_site_code,
+  li.hubspot_line_item_id,
+  li.hubspot_product_id,
+  li.name AS line_item_name
+FROM hubspot_deal_contacts dc
+JOIN hubspot_deals d ON d.hubspot_deal_id = dc.hubspot_deal_id
+JOIN hubspot_pipeline_stages s ON s.id = d.stage_id
+JOIN hubspot_line_items li ON li.hubspot_deal_id = d.hubspot_deal_id
+JOIN hubspot_product_packages pp ON pp.hubspot_product_id = li.hubspot_product_id
+WHERE s.is_won
+  AND d.hubspot_archived_at IS NULL;
+
+COMMENT ON VIEW hubspot_contact_packages IS 'Packages each contact bought (closed-won deals with a mapped line item product)';
+
+-- 7. RLS
+ALTER TABLE hubspot_pipelines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hubspot_pipeline_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hubspot_companies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hubspot_deals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hubspot_line_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hubspot_deal_contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hubspot_deal_companies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hubspot_company_contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hubspot_product_packages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read HubSpot pipelines" ON hubspot_pipelines;
+CREATE POLICY "Authenticated users can read HubSpot pipelines"
+  ON hubspot_pipelines FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read HubSpot pipeline stages" ON hubspot_pipeline_stages;
+CREATE POLICY "Authenticated users can read HubSpot pipeline stages"
+  ON hubspot_pipeline_stages FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read HubSpot companies" ON hubspot_companies;
+CREATE POLICY "Authenticated users can read HubSpot companies"
+  ON hubspot_companies FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read HubSpot deals" ON hubspot_deals;
+CREATE POLICY "Authenticated users can read HubSpot deals"
+  ON hubspot_deals FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read HubSpot line items" ON hubspot_line_items;
+CREATE POLICY "Authenticated users can read HubSpot line items"
+  ON hubspot_line_items FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read HubSpot deal contacts" ON hubspot_deal_contacts;
+CREATE POLICY "Authenticated users can read HubSpot deal contacts"
+  ON hubspot_deal_contacts FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read HubSpot deal companies" ON hubspot_deal_companies;
+CREATE POLICY "Authenticated users can read HubSpot deal companies"
+  ON hubspot_deal_companies FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read HubSpot company contacts" ON hubspot_company_contacts;
+CREATE POLICY "Authenticated users can read HubSpot company contacts"
+  ON hubspot_company_contacts FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage HubSpot product packages" ON hubspot_product_packages;
+CREATE POLICY "Authenticated users can manage HubSpot product packages"
+  ON hubspot_product_packages FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Written by the deals sync with the service role only
@@ -0,0 +1,15 @@
+-- Content Drafts Publish Claim Migration
+-- Approving a draft pushes it to Duda. Two approvals racing (a double click,
+-- two reviewers) both pushed, creating the blog post or collection row twice.
+-- An approval now claims the draft first with a conditional update on
+-- publish_claimed_at; only the request that sets it pushes. The claim is
+-- cleared when the push finishes and expires on its own if the request dies.
+--
+-- duda_ref is now written as soon as the post is imported or the row added,
+-- before publishing, so retrying a failed publish does not create it again.
+
+ALTER TABLE content_drafts
+  ADD COLUMN IF NOT EXISTS publish_claimed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN content_drafts.publish_claimed_at IS 'Set while an approval is pushing the draft to Duda; a claim older than 5 minutes is abandoned';
+COMMENT ON COLUMN content_drafts.duda_ref IS 'Duda blog post id or collection row id, set once the post is imported or the row added (before it is published)';
@@ -0,0 +1,22 @@
+-- Scheduled GBP Posts Series Anchor Migration
+-- Each occurrence of a recurring post was computed from the one before it,
+-- so a monthly series clamped to a short month stayed there: Jan 31 ->
+-- Feb 28 -> Mar 28 -> ... Occurrences are now computed from the series
+-- anchor (its first occurrence, or the occurrence last edited) plus n
+-- periods: Jan 31 -> Feb 28 -> Mar 31. Event/offer dates move the same way
+-- from the anchor's event window.
+
+ALTER TABLE scheduled_gbp_posts
+  ADD COLUMN IF NOT EXISTS series_anchor_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS series_anchor_event JSONB,
+  ADD COLUMN IF NOT EXISTS occurrence_index INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN scheduled_gbp_posts.series_anchor_at IS 'scheduled_for of the occurrence the series is counted from; this row is occurrence_index periods after it';
+COMMENT ON COLUMN scheduled_gbp_posts.series_anchor_event IS 'Event window of the anchor occurrence, shifted by occurrence_index periods for each row';
+COMMENT ON COLUMN scheduled_gbp_posts.occurrence_index IS 'Periods (weeks, fortnights or months) since series_anchor_at';
+
+-- Existing rows anchor on themselves
+UPDATE scheduled_gbp_posts
+SET series_anchor_at = scheduled_for,
+    series_anchor_event = event
+WHERE series_anchor_at IS NULL;
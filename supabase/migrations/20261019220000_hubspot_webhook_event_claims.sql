@@ -0,0 +1,67 @@
+-- HubSpot Webhook Event Claims Migration
+-- Every delivery processes pending events after responding, so two
+-- deliveries close together both read the same pending rows and synced or
+-- tombstoned the same contacts twice. A run now claims its events first:
+-- claim_hubspot_webhook_events moves them to 'processing' with
+-- FOR UPDATE SKIP LOCKED, so overlapping runs take disjoint sets. Events
+-- left in 'processing' by a run that died are claimable again after 10
+-- minutes (longer than the webhook function's 300s limit). The dead run
+-- counts as an attempt, so a batch that keeps killing the function fails
+-- once it reaches the attempt cap instead of being reclaimed forever.
+
+-- 1. Processing status and claim time
+ALTER TABLE hubspot_webhook_events
+  DROP CONSTRAINT IF EXISTS hubspot_webhook_events_status_check;
+
+ALTER TABLE hubspot_webhook_events
+  ADD CONSTRAINT hubspot_webhook_events_status_check
+  CHECK (status IN ('pending', 'processing', 'processed', 'skipped', 'failed'));
+
+ALTER TABLE hubspot_webhook_events
+  ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN hubspot_webhook_events.status IS 'pending until claimed; processing while a run applies it; skipped when there is nothing to apply; failed events are retried up to 5 attempts';
+COMMENT ON COLUMN hubspot_webhook_events.claimed_at IS 'When the current or last run claimed the event';
+
+-- 2. Claim function
+CREATE OR REPLACE FUNCTION claim_hubspot_webhook_events(p_limit INTEGER, p_max_attempts INTEGER)
+RETURNS SETOF hubspot_webhook_events
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Abandoned events whose dead run was their last attempt
+  UPDATE hubspot_webhook_events
+  SET
+    status = 'failed',
+    attempts = attempts + 1,
+    error = 'Processing run did not finish'
+  WHERE status = 'processing'
+    AND claimed_at < NOW() - INTERVAL '10 minutes'
+    AND attempts + 1 >= p_max_attempts;
+
+  RETURN QUERY
+  UPDATE hubspot_webhook_events e
+  SET
+    status = 'processing',
+    claimed_at = NOW(),
+    -- Reclaiming an abandoned event counts the dead run as an attempt
+    attempts = e.attempts + CASE WHEN e.status = 'processing' THEN 1 ELSE 0 END
+  WHERE e.id IN (
+    SELECT q.id
+    FROM hubspot_webhook_events q
+    WHERE q.status = 'pending'
+      OR (q.status = 'failed' AND q.attempts < p_max_attempts)
+      OR (
+        q.status = 'processing'
+        AND q.claimed_at < NOW() - INTERVAL '10 minutes'
+        AND q.attempts + 1 < p_max_attempts
+      )
+    ORDER BY q.occurred_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT p_limit
+  )
+  RETURNING e.*;
+END;
+$$;
+
+COMMENT ON FUNCTION claim_hubspot_webhook_events IS 'Claim the oldest unprocessed webhook events for one processing run';